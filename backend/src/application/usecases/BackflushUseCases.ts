@@ -0,0 +1,198 @@
+import { Backflush, BackflushStatus, BackflushTrigger } from '../../domain/entities/Backflush';
+import { ProductionCard } from '../../domain/entities/ProductionCard';
+import { StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
+import { BackflushRepository } from '../../infrastructure/repositories/MongoBackflushRepository';
+import { StockMovementUseCases, RecordStockMovementRequest } from './StockMovementUseCases';
+import { StockReservationUseCases } from './StockReservationUseCases';
+import { MaterialRequirementsUseCases } from './MaterialRequirementsUseCases';
+
+export class BackflushUseCases {
+  constructor(
+    private backflushRepository: BackflushRepository,
+    private stockMovementUseCases: StockMovementUseCases,
+    private stockReservationUseCases: StockReservationUseCases,
+    private materialRequirementsUseCases: MaterialRequirementsUseCases
+  ) {}
+
+  // Al completar un componente: consume sus materiales (y subcomponentes) y da entrada al componente fabricado.
+  // Se usa la cantidad real ajustada (MaterialUsage.actualQuantity) y, para los materiales
+  // sin ajuste, la cantidad de la revisión de la estructura con la que se creó la orden.
+  async backflushComponent(card: ProductionCard, componentId: string, performedBy?: string): Promise<Backflush> {
+    const component = card.components.find(c => c.componentId === componentId);
+    if (!component) {
+      throw new Error('Componente no encontrado en esta tarjeta');
+    }
+
+    const reason = `Backflush componente ${component.componentName}: ${card.orderName} (${card.cardNumber}/${card.totalCards})`;
+    const requests: RecordStockMovementRequest[] = [];
+
+    const materialUsage = component.materialUsage || [];
+    for (const usage of materialUsage) {
+      if (usage.actualQuantity > 0) {
+        requests.push(this.buildRequest(card, usage.materialId, StockMovementType.ISSUE, -usage.actualQuantity, reason, performedBy));
+      }
+    }
+
+    // La misma explosión que reservó la orden, con la revisión congelada del componente
+    const explosion = await this.materialRequirementsUseCases.explodeUnit(card);
+    const lines = explosion.components.find(entry => entry.componentId === componentId)?.lines || [];
+    for (const line of lines) {
+      if (materialUsage.some(usage => usage.materialId === line.itemId)) continue;
+      requests.push(this.buildRequest(card, line.itemId, StockMovementType.ISSUE, -line.quantity * card.quantity, reason, performedBy));
+    }
+
+    requests.push(this.buildRequest(
+      card, componentId, StockMovementType.PRODUCTION_OUTPUT, component.quantityRequired * card.quantity, reason, performedBy
+    ));
+
+    return this.post(card, BackflushTrigger.COMPONENT_COMPLETION, requests, componentId);
+  }
+
+  // Al completar la tarjeta: consume los componentes y los materiales propios del artículo (de la revisión
+  // congelada de la orden) y da entrada a la unidad fabricada
+  async backflushCard(card: ProductionCard, performedBy?: string): Promise<Backflush> {
+    const reason = `Producción terminada: ${card.orderName} (${card.cardNumber}/${card.totalCards})`;
+    const requests: RecordStockMovementRequest[] = [];
+
+    for (const component of card.components) {
+      if (component.quantityRequired > 0) {
+        requests.push(this.buildRequest(
+          card, component.componentId, StockMovementType.ISSUE, -component.quantityRequired * card.quantity, reason, performedBy
+        ));
+      }
+    }
+
+    const explosion = await this.materialRequirementsUseCases.explodeUnit(card);
+    for (const line of explosion.materials) {
+      requests.push(this.buildRequest(card, line.itemId, StockMovementType.ISSUE, -line.quantity * card.quantity, reason, performedBy));
+    }
+
+    requests.push(this.buildRequest(card, card.modelId, StockMovementType.PRODUCTION_OUTPUT, card.quantity, reason, performedBy));
+
+    return this.post(card, BackflushTrigger.CARD_COMPLETION, requests);
+  }
+
+  async reverseBackflush(id: string, reason: string, performedBy?: string): Promise<Backflush> {
+    const backflush = await this.backflushRepository.findById(id);
+    if (!backflush) {
+      throw new Error('Backflush no encontrado');
+    }
+
+    if (backflush.status === BackflushStatus.REVERSED) {
+      throw new Error('Este backflush ya fue revertido');
+    }
+
+    const reversalMovements = await this.stockMovementUseCases.reverseMovements(
+      backflush.lines.map(line => line.movementId),
+      reason,
+      performedBy
+    );
+
+    const reversedBackflush = await this.backflushRepository.markReversed(
+      id,
+      reversalMovements.map(movement => movement.id),
+      reason
+    );
+    if (!reversedBackflush) {
+      throw new Error('Error al revertir el backflush');
+    }
+
+    return reversedBackflush;
+  }
+
+  // Revierte todos los consumos contabilizados de una tarjeta (por ejemplo, al cancelarla)
+  async reverseCardBackflushes(cardId: string, reason: string, performedBy?: string): Promise<Backflush[]> {
+    const postedBackflushes = await this.backflushRepository.findByCardId(cardId, BackflushStatus.POSTED);
+    const reversed: Backflush[] = [];
+
+    // Revertir en orden inverso al de contabilización
+    for (const backflush of postedBackflushes.reverse()) {
+      reversed.push(await this.reverseBackflush(backflush.id, reason, performedBy));
+    }
+
+    return reversed;
+  }
+
+  // Revierte los consumos de un componente (por ejemplo, al reabrirlo para retrabajo)
+  async reverseComponentBackflushes(cardId: string, componentId: string, reason: string, performedBy?: string): Promise<Backflush[]> {
+    const postedBackflushes = await this.backflushRepository.findByCardId(cardId, BackflushStatus.POSTED);
+    const reversed: Backflush[] = [];
+
+    for (const backflush of postedBackflushes.reverse()) {
+      if (backflush.trigger === BackflushTrigger.COMPONENT_COMPLETION && backflush.componentId === componentId) {
+        reversed.push(await this.reverseBackflush(backflush.id, reason, performedBy));
+      }
+    }
+
+    return reversed;
+  }
+
+  async getCardBackflushes(cardId: string): Promise<Backflush[]> {
+    return this.backflushRepository.findByCardId(cardId);
+  }
+
+  private async post(
+    card: ProductionCard,
+    trigger: BackflushTrigger,
+    requests: RecordStockMovementRequest[],
+    componentId?: string
+  ): Promise<Backflush> {
+    // Todos los movimientos se registran juntos o ninguno
+    const movements = await this.stockMovementUseCases.recordMovements(requests);
+
+    let backflush: Backflush;
+    try {
+      backflush = await this.backflushRepository.create({
+        cardId: card.id,
+        orderId: card.orderId,
+        trigger,
+        componentId,
+        status: BackflushStatus.POSTED,
+        lines: movements.map(movement => ({
+          itemId: movement.itemId,
+          itemName: movement.itemName,
+          itemSku: movement.itemSku,
+          quantity: movement.quantity,
+          unit: movement.unit,
+          movementId: movement.id,
+          lotId: movement.lotId,
+          lotNumber: movement.lotNumber
+        }))
+      });
+    } catch (error) {
+      await this.stockMovementUseCases.reverseMovements(
+        movements.map(movement => movement.id),
+        'Reversión automática: error al registrar el backflush'
+      );
+      throw error;
+    }
+
+    // Lo consumido deja de estar reservado para la orden
+    for (const movement of movements) {
+      if (movement.type === StockMovementType.ISSUE) {
+        await this.stockReservationUseCases.consumeForOrder(card.orderId, movement.itemId, -movement.quantity);
+      }
+    }
+
+    return backflush;
+  }
+
+  private buildRequest(
+    card: ProductionCard,
+    itemId: string,
+    type: StockMovementType,
+    quantity: number,
+    reason: string,
+    performedBy?: string
+  ): RecordStockMovementRequest {
+    return {
+      itemId,
+      type,
+      quantity,
+      reason,
+      referenceType: StockMovementReferenceType.PRODUCTION_CARD,
+      referenceId: card.id,
+      performedBy
+    };
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  BomRevision,
+  BomRevisionStatus,
+  BomRevisionComponentLine,
+  BomRevisionComparison,
+  BomRevisionDifference,
+  isRevisionEffectiveAt
+} from '../../domain/entities/BomRevision';
+import { InventoryItem, BillOfMaterial, ComponentLine, getComponentLines } from '../../domain/entities/InventoryItem';
+import { BomRevisionRepository } from '../../infrastructure/repositories/MongoBomRevisionRepository';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+
+export interface CreateBomRevisionRequest {
+  componentLines?: ComponentLine[];
+  billOfMaterials?: BillOfMaterial[];
+  notes?: string;
+  createdBy?: string;
+}
+
+export class BomRevisionUseCases {
+  constructor(
+    private bomRevisionRepository: BomRevisionRepository,
+    private inventoryRepository: IInventoryRepository
+  ) {}
+
+  async getRevisions(itemId: string): Promise<BomRevision[]> {
+    return this.bomRevisionRepository.findByItemId(itemId);
+  }
+
+  async getRevision(id: string): Promise<BomRevision> {
+    const revision = await this.bomRevisionRepository.findById(id);
+    if (!revision) {
+      throw new Error('Revisión de estructura no encontrada');
+    }
+    return revision;
+  }
+
+  // Revisión liberada que estaba vigente en una fecha (por defecto, ahora)
+  async getEffectiveRevision(itemId: string, date: Date = new Date()): Promise<BomRevision | null> {
+    const revisions = await this.bomRevisionRepository.findByItemId(itemId);
+    return revisions.find(revision => isRevisionEffectiveAt(revision, date)) || null;
+  }
+
+  // Devuelve la revisión liberada que corresponde a la estructura actual del artículo.
+  // Si la estructura cambió desde la última revisión (o nunca tuvo una), libera una nueva.
+  async ensureCurrentRevision(item: InventoryItem, notes?: string, performedBy?: string): Promise<BomRevision | null> {
+    const released = await this.bomRevisionRepository.findReleased(item.id);
+    const componentLines = getComponentLines(item);
+    const billOfMaterials = item.billOfMaterials || [];
+
+    if (released && this.hasSameStructure(released, componentLines, billOfMaterials)) {
+      return released;
+    }
+
+    // Los artículos sin estructura (materiales) no necesitan revisiones
+    if (!released && componentLines.length === 0 && billOfMaterials.length === 0) {
+      return null;
+    }
+
+    const draft = await this.createRevision(item, {
+      componentLines,
+      billOfMaterials,
+      notes: notes || (released ? 'Estructura modificada' : 'Revisión inicial'),
+      createdBy: performedBy
+    });
+    return this.release(draft.id, undefined, performedBy);
+  }
+
+  async getCurrentRevision(itemId: string): Promise<BomRevision | null> {
+    const item = await this.inventoryRepository.findById(itemId);
+    if (!item) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+    return this.ensureCurrentRevision(item);
+  }
+
+  // Crea un borrador; sin líneas parte de la estructura actual del artículo
+  async createDraft(itemId: string, request: CreateBomRevisionRequest): Promise<BomRevision> {
+    const item = await this.inventoryRepository.findById(itemId);
+    if (!item) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+
+    return this.createRevision(item, {
+      componentLines: request.componentLines || getComponentLines(item),
+      billOfMaterials: request.billOfMaterials || item.billOfMaterials || [],
+      notes: request.notes,
+      createdBy: request.createdBy
+    });
+  }
+
+  async updateDraft(id: string, request: CreateBomRevisionRequest): Promise<BomRevision> {
+    const revision = await this.getRevision(id);
+    if (revision.status !== BomRevisionStatus.DRAFT) {
+      throw new Error('Solo se pueden modificar revisiones en borrador');
+    }
+
+    const updates: Partial<Pick<BomRevision, 'componentLines' | 'billOfMaterials' | 'notes'>> = {};
+    if (request.componentLines) {
+      updates.componentLines = await this.buildComponentLines(request.componentLines);
+    }
+    if (request.billOfMaterials) {
+      updates.billOfMaterials = this.validateBillOfMaterials(request.billOfMaterials);
+    }
+    if (request.notes !== undefined) {
+      updates.notes = request.notes;
+    }
+
+    const updatedRevision = await this.bomRevisionRepository.updateDraft(id, updates);
+    if (!updatedRevision) {
+      throw new Error('Solo se pueden modificar revisiones en borrador');
+    }
+    return updatedRevision;
+  }
+
+  // Libera un borrador: la revisión vigente pasa a obsoleta y la nueva entra en vigencia.
+  // No modifica el artículo; eso lo hace InventoryUseCases.releaseBomRevision.
+  async release(id: string, effectiveFrom?: Date, releasedBy?: string): Promise<BomRevision> {
+    const revision = await this.getRevision(id);
+    if (revision.status !== BomRevisionStatus.DRAFT) {
+      throw new Error('Solo se pueden liberar revisiones en borrador');
+    }
+
+    const now = new Date();
+    const startDate = effectiveFrom ? new Date(effectiveFrom) : now;
+    if (isNaN(startDate.getTime())) {
+      throw new Error('Fecha de vigencia inválida');
+    }
+    if (startDate.getTime() > now.getTime()) {
+      throw new Error('La fecha de vigencia no puede ser futura');
+    }
+
+    const current = await this.bomRevisionRepository.findReleased(revision.itemId);
+    if (current && current.effectiveFrom && startDate.getTime() < current.effectiveFrom.getTime()) {
+      throw new Error(`La fecha de vigencia no puede ser anterior a la de la revisión ${current.revisionNumber}`);
+    }
+
+    const releasedRevision = await this.bomRevisionRepository.markReleased(id, startDate, releasedBy);
+    if (!releasedRevision) {
+      throw new Error('Solo se pueden liberar revisiones en borrador');
+    }
+
+    if (current) {
+      await this.bomRevisionRepository.markObsolete(current.id, startDate);
+    }
+
+    return releasedRevision;
+  }
+
+  async obsolete(id: string): Promise<BomRevision> {
+    const revision = await this.getRevision(id);
+    if (revision.status === BomRevisionStatus.OBSOLETE) {
+      throw new Error('La revisión ya está obsoleta');
+    }
+
+    // Un borrador descartado nunca tuvo vigencia
+    const effectiveTo = revision.status === BomRevisionStatus.RELEASED ? new Date() : undefined;
+    const obsoleteRevision = await this.bomRevisionRepository.markObsolete(id, effectiveTo);
+    if (!obsoleteRevision) {
+      throw new Error('Error al marcar la revisión como obsoleta');
+    }
+    return obsoleteRevision;
+  }
+
+  // Compara dos revisiones del mismo artículo línea por línea
+  async compare(fromId: string, toId: string): Promise<BomRevisionComparison> {
+    const from = await this.getRevision(fromId);
+    const to = await this.getRevision(toId);
+
+    if (from.itemId !== to.itemId) {
+      throw new Error('Solo se pueden comparar revisiones del mismo artículo');
+    }
+
+    const differences: BomRevisionDifference[] = [];
+
+    const componentIds = new Set([...from.componentLines, ...to.componentLines].map(line => line.componentId));
+    for (const componentId of componentIds) {
+      const fromLine = from.componentLines.find(line => line.componentId === componentId);
+      const toLine = to.componentLines.find(line => line.componentId === componentId);
+      const line = (toLine || fromLine)!;
+      differences.push(this.buildDifference(
+        componentId, line.componentName, line.componentSku, 'component',
+        fromLine ? fromLine.quantity : null,
+        toLine ? toLine.quantity : null
+      ));
+    }
+
+    const materialIds = new Set([...from.billOfMaterials, ...to.billOfMaterials].map(bom => bom.materialId));
+    for (const materialId of materialIds) {
+      const fromBom = from.billOfMaterials.find(bom => bom.materialId === materialId);
+      const toBom = to.billOfMaterials.find(bom => bom.materialId === materialId);
+      const bom = (toBom || fromBom)!;
+      differences.push(this.buildDifference(
+        materialId, bom.materialName, bom.materialSku, 'material',
+        fromBom ? fromBom.requiredQuantity : null,
+        toBom ? toBom.requiredQuantity : null
+      ));
+    }
+
+    return {
+      from,
+      to,
+      differences,
+      hasChanges: differences.some(difference => difference.change !== 'unchanged')
+    };
+  }
+
+  private async createRevision(
+    item: InventoryItem,
+    data: { componentLines: ComponentLine[]; billOfMaterials: BillOfMaterial[]; notes?: string; createdBy?: string }
+  ): Promise<BomRevision> {
+    const componentLines = await this.buildComponentLines(data.componentLines);
+    const billOfMaterials = this.validateBillOfMaterials(data.billOfMaterials);
+    const latest = await this.bomRevisionRepository.findLatest(item.id);
+
+    return this.bomRevisionRepository.create({
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      revisionNumber: latest ? latest.revisionNumber + 1 : 1,
+      status: BomRevisionStatus.DRAFT,
+      componentLines,
+      billOfMaterials,
+      notes: data.notes,
+      createdBy: data.createdBy
+    });
+  }
+
+  private async buildComponentLines(componentLines: ComponentLine[]): Promise<BomRevisionComponentLine[]> {
+    const lines: BomRevisionComponentLine[] = [];
+
+    for (const line of componentLines) {
+      const quantity = Number(line.quantity);
+      if (!quantity || quantity <= 0) {
+        throw new Error('La cantidad de cada componente debe ser mayor a 0');
+      }
+
+      const component = await this.inventoryRepository.findById(line.componentId);
+      if (!component) {
+        throw new Error(`Componente ${line.componentId} no encontrado`);
+      }
+
+      lines.push({
+        componentId: component.id,
+        componentName: component.name,
+        componentSku: component.sku,
+        quantity
+      });
+    }
+
+    return lines;
+  }
+
+  private validateBillOfMaterials(billOfMaterials: BillOfMaterial[]): BillOfMaterial[] {
+    for (const bom of billOfMaterials) {
+      if (bom.requiredQuantity < 0) {
+        throw new Error('La cantidad de cada material no puede ser negativa');
+      }
+    }
+    return billOfMaterials;
+  }
+
+  private hasSameStructure(revision: BomRevision, componentLines: ComponentLine[], billOfMaterials: BillOfMaterial[]): boolean {
+    const componentKey = (lines: Array<{ componentId: string; quantity: number }>) =>
+      lines.map(line => `${line.componentId}:${line.quantity}`).sort().join('|');
+    const materialKey = (boms: BillOfMaterial[]) =>
+      boms.map(bom => `${bom.materialId}:${bom.requiredQuantity}:${bom.isOptional ? 1 : 0}`).sort().join('|');
+
+    return componentKey(revision.componentLines) === componentKey(componentLines) &&
+      materialKey(revision.billOfMaterials) === materialKey(billOfMaterials);
+  }
+
+  private buildDifference(
+    itemId: string,
+    itemName: string,
+    itemSku: string,
+    lineType: 'component' | 'material',
+    fromQuantity: number | null,
+    toQuantity: number | null
+  ): BomRevisionDifference {
+    let change: BomRevisionDifference['change'] = 'unchanged';
+    if (fromQuantity === null) {
+      change = 'added';
+    } else if (toQuantity === null) {
+      change = 'removed';
+    } else if (fromQuantity !== toQuantity) {
+      change = 'changed';
+    }
+
+    return { itemId, itemName, itemSku, lineType, fromQuantity, toQuantity, change };
+  }
+}
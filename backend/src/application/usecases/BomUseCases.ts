@@ -0,0 +1,167 @@
+import { InventoryItem, InventoryType, getComponentLines } from '../../domain/entities/InventoryItem';
+import { BomExplosion, BomExplosionLine, BomTotal, WhereUsedLine, WhereUsedResult } from '../../domain/entities/BomStructure';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+
+export class BomUseCases {
+  constructor(private inventoryRepository: IInventoryRepository) {}
+
+  // Explosión indentada de la estructura (levels = 'all' para todos los niveles)
+  async explode(itemId: string, levels: number | 'all' = 'all', quantity = 1): Promise<BomExplosion> {
+    const item = await this.getItem(itemId);
+    const maxLevel = levels === 'all' ? Infinity : levels;
+
+    if (maxLevel < 1) {
+      throw new Error('El número de niveles debe ser mayor a 0');
+    }
+
+    const lines: BomExplosionLine[] = [];
+    const totals = new Map<string, BomTotal>();
+
+    await this.explodeItem(item, quantity, 1, maxLevel, [item.id], lines, totals);
+
+    return {
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      quantity,
+      levels,
+      lines,
+      materialTotals: Array.from(totals.values())
+    };
+  }
+
+  // Consulta inversa: todos los artículos (hasta los modelos) que usan el artículo indicado
+  async whereUsed(itemId: string): Promise<WhereUsedResult> {
+    const item = await this.getItem(itemId);
+    const usages: WhereUsedLine[] = [];
+    const affectedModels = new Map<string, { id: string; name: string; sku: string }>();
+    const visited = new Set<string>([item.id]);
+
+    let currentLevel = [item.id];
+    let level = 1;
+
+    while (currentLevel.length > 0) {
+      const nextLevel: string[] = [];
+
+      for (const childId of currentLevel) {
+        const parents = await this.inventoryRepository.findParents(childId);
+
+        for (const parent of parents) {
+          usages.push({
+            level,
+            itemId: parent.id,
+            itemName: parent.name,
+            itemSku: parent.sku,
+            itemType: parent.type,
+            childId,
+            quantityPer: this.getQuantityPer(parent, childId)
+          });
+
+          if (parent.type === InventoryType.MODEL) {
+            affectedModels.set(parent.id, { id: parent.id, name: parent.name, sku: parent.sku });
+          }
+
+          // Un artículo alcanzado por varios caminos solo se sigue subiendo una vez
+          if (!visited.has(parent.id)) {
+            visited.add(parent.id);
+            nextLevel.push(parent.id);
+          }
+        }
+      }
+
+      currentLevel = nextLevel;
+      level++;
+    }
+
+    return {
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      usages,
+      affectedModels: Array.from(affectedModels.values())
+    };
+  }
+
+  private async explodeItem(
+    item: InventoryItem,
+    parentQuantity: number,
+    level: number,
+    maxLevel: number,
+    path: string[],
+    lines: BomExplosionLine[],
+    totals: Map<string, BomTotal>
+  ): Promise<void> {
+    for (const bom of item.billOfMaterials || []) {
+      const totalQuantity = bom.requiredQuantity * parentQuantity;
+      lines.push({
+        level,
+        path: [...path, bom.materialId],
+        lineType: 'material',
+        itemId: bom.materialId,
+        itemName: bom.materialName,
+        itemSku: bom.materialSku,
+        itemType: InventoryType.MATERIAL,
+        unit: bom.unit,
+        quantityPer: bom.requiredQuantity,
+        totalQuantity,
+        isOptional: bom.isOptional
+      });
+
+      if (!bom.isOptional) {
+        const total = totals.get(bom.materialId) || {
+          itemId: bom.materialId,
+          itemName: bom.materialName,
+          itemSku: bom.materialSku,
+          unit: bom.unit,
+          totalQuantity: 0
+        };
+        total.totalQuantity += totalQuantity;
+        totals.set(bom.materialId, total);
+      }
+    }
+
+    for (const line of getComponentLines(item)) {
+      // Protección ante ciclos en datos antiguos (la validación impide crearlos)
+      if (path.includes(line.componentId)) {
+        throw new Error('La estructura de producto contiene una referencia circular');
+      }
+
+      const component = await this.inventoryRepository.findById(line.componentId);
+      if (!component) continue;
+
+      const totalQuantity = line.quantity * parentQuantity;
+      lines.push({
+        level,
+        path: [...path, component.id],
+        lineType: 'component',
+        itemId: component.id,
+        itemName: component.name,
+        itemSku: component.sku,
+        itemType: component.type,
+        unit: component.unit,
+        quantityPer: line.quantity,
+        totalQuantity
+      });
+
+      if (level < maxLevel) {
+        await this.explodeItem(component, totalQuantity, level + 1, maxLevel, [...path, component.id], lines, totals);
+      }
+    }
+  }
+
+  private getQuantityPer(parent: InventoryItem, childId: string): number {
+    const componentLine = getComponentLines(parent).find(line => line.componentId === childId);
+    if (componentLine) return componentLine.quantity;
+
+    const material = (parent.billOfMaterials || []).find(bom => bom.materialId === childId);
+    return material ? material.requiredQuantity : 0;
+  }
+
+  private async getItem(itemId: string): Promise<InventoryItem> {
+    const item = await this.inventoryRepository.findById(itemId);
+    if (!item) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+    return item;
+  }
+}
@@ -0,0 +1,180 @@
+import { Customer } from '../../domain/entities/Customer';
+import { MRP_CLIENT_NAME } from '../../domain/entities/Mrp';
+import { REPLENISHMENT_CLIENT_NAME } from '../../domain/entities/ReplenishmentSuggestion';
+import { CustomerRepository, CustomerFilters } from '../../infrastructure/repositories/MongoCustomerRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { SalesOrderRepository } from '../../infrastructure/repositories/MongoSalesOrderRepository';
+
+export interface CreateCustomerRequest {
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  paymentTerms?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+const MIGRATED_CUSTOMER_PREFIX = 'CLI-';
+
+// Destinos internos de las órdenes de fabricación para stock: no son clientes
+const INTERNAL_CLIENT_NAMES = [MRP_CLIENT_NAME, REPLENISHMENT_CLIENT_NAME];
+
+export class CustomerUseCases {
+  constructor(
+    private customerRepository: CustomerRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository,
+    private salesOrderRepository: SalesOrderRepository
+  ) {}
+
+  async createCustomer(request: CreateCustomerRequest): Promise<Customer> {
+    if (!request.code || !request.code.trim()) {
+      throw new Error('El código del cliente es requerido');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre del cliente es requerido');
+    }
+
+    const existing = await this.customerRepository.findByCode(request.code.trim());
+    if (existing) {
+      throw new Error(`Ya existe un cliente con el código ${request.code.trim().toUpperCase()}`);
+    }
+
+    return this.customerRepository.create({
+      ...this.normalizeCustomerData(request),
+      code: request.code.trim(),
+      name: request.name.trim(),
+      isActive: request.isActive ?? true
+    });
+  }
+
+  async getCustomers(filters?: CustomerFilters): Promise<Customer[]> {
+    return this.customerRepository.findAll(filters);
+  }
+
+  async getCustomerById(id: string): Promise<Customer> {
+    const customer = await this.customerRepository.findById(id);
+    if (!customer) {
+      throw new Error('Cliente no encontrado');
+    }
+    return customer;
+  }
+
+  async updateCustomer(id: string, updates: Partial<CreateCustomerRequest>): Promise<Customer> {
+    const customer = await this.getCustomerById(id);
+
+    if (updates.code !== undefined) {
+      if (!updates.code.trim()) {
+        throw new Error('El código del cliente es requerido');
+      }
+      const existing = await this.customerRepository.findByCode(updates.code.trim());
+      if (existing && existing.id !== id) {
+        throw new Error(`Ya existe un cliente con el código ${updates.code.trim().toUpperCase()}`);
+      }
+    }
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error('El nombre del cliente es requerido');
+    }
+
+    const updatedCustomer = await this.customerRepository.update(id, {
+      ...this.normalizeCustomerData(updates),
+      ...(updates.code !== undefined && { code: updates.code.trim() }),
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.isActive !== undefined && { isActive: updates.isActive })
+    });
+    if (!updatedCustomer) {
+      throw new Error('Error al actualizar el cliente');
+    }
+
+    // Las órdenes de fabricación guardan el nombre del cliente
+    if (updatedCustomer.name !== customer.name) {
+      const orders = await this.manufacturingOrderRepository.findAll({ customerId: id });
+      for (const order of orders) {
+        await this.manufacturingOrderRepository.update(order.id, { clientName: updatedCustomer.name });
+      }
+    }
+
+    return updatedCustomer;
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    await this.getCustomerById(id);
+
+    const salesOrders = await this.salesOrderRepository.findAll({ customerId: id });
+    if (salesOrders.length > 0) {
+      throw new Error(`El cliente tiene ${salesOrders.length} pedido(s) de venta: desactívelo en lugar de eliminarlo`);
+    }
+    const orders = await this.manufacturingOrderRepository.findAll({ customerId: id });
+    if (orders.length > 0) {
+      throw new Error(`El cliente tiene ${orders.length} orden(es) de fabricación: desactívelo en lugar de eliminarlo`);
+    }
+
+    return this.customerRepository.delete(id);
+  }
+
+  // Cliente activo para un pedido o una orden de fabricación nueva
+  async getActiveCustomer(id: string): Promise<Customer> {
+    const customer = await this.getCustomerById(id);
+    if (!customer.isActive) {
+      throw new Error(`El cliente ${customer.name} está desactivado`);
+    }
+    return customer;
+  }
+
+  // Convierte el texto libre "clientName" de las órdenes de fabricación en clientes.
+  // Los nombres que coinciden (sin distinguir mayúsculas) comparten el mismo cliente
+  async migrateLegacyClients(): Promise<number> {
+    const orders = await this.manufacturingOrderRepository.findAll();
+    const pending = orders.filter(order =>
+      !order.customerId && order.clientName?.trim() && !INTERNAL_CLIENT_NAMES.includes(order.clientName.trim())
+    );
+
+    for (const order of pending) {
+      const name = order.clientName.trim();
+      const customer = (await this.customerRepository.findByName(name))
+        || await this.customerRepository.create({
+          code: await this.nextMigratedCode(),
+          name,
+          notes: 'Creado a partir del cliente indicado en las órdenes de fabricación',
+          isActive: true
+        });
+
+      await this.manufacturingOrderRepository.update(order.id, {
+        customerId: customer.id,
+        clientName: customer.name
+      });
+    }
+
+    return pending.length;
+  }
+
+  private async nextMigratedCode(): Promise<string> {
+    const customers = await this.customerRepository.findAll();
+    let sequence = customers.length + 1;
+    let code = `${MIGRATED_CUSTOMER_PREFIX}${String(sequence).padStart(4, '0')}`;
+    while (await this.customerRepository.findByCode(code)) {
+      sequence++;
+      code = `${MIGRATED_CUSTOMER_PREFIX}${String(sequence).padStart(4, '0')}`;
+    }
+    return code;
+  }
+
+  // Campos de texto opcionales: se recortan y las cadenas vacías se guardan vacías
+  private normalizeCustomerData(data: Partial<CreateCustomerRequest>): Partial<Customer> {
+    const normalized: Partial<Customer> = {};
+    const fields = ['contactName', 'email', 'phone', 'address', 'taxId', 'paymentTerms', 'notes'] as const;
+    for (const field of fields) {
+      if (data[field] !== undefined && data[field] !== null) {
+        normalized[field] = String(data[field]).trim();
+      }
+    }
+
+    if (normalized.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized.email)) {
+      throw new Error('El email del cliente no es válido');
+    }
+    return normalized;
+  }
+}
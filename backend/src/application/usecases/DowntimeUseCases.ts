@@ -0,0 +1,256 @@
+import {
+  DowntimeReason,
+  DowntimeCategory,
+  DowntimeParetoLine,
+  DowntimeReport,
+  DEFAULT_DOWNTIME_REASONS
+} from '../../domain/entities/DowntimeReason';
+import { PauseDetails, TimeSegment, TimeSegmentKind, getTimeSegments } from '../../domain/entities/ManufacturingOrder';
+import { DowntimeReasonRepository } from '../../infrastructure/repositories/MongoDowntimeReasonRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+
+export interface CreateDowntimeReasonRequest {
+  code: string;
+  name: string;
+  category?: DowntimeCategory;
+  description?: string;
+  isActive?: boolean;
+}
+
+// Motivo indicado al pausar un cronómetro
+export interface PauseRequest {
+  reasonCode: string;
+  notes?: string;
+}
+
+export interface DowntimeReportFilters {
+  from?: Date;
+  to?: Date;
+}
+
+const CATEGORY_LABELS: Record<DowntimeCategory, string> = {
+  [DowntimeCategory.PLANNED]: 'Planificada',
+  [DowntimeCategory.MATERIAL]: 'Material',
+  [DowntimeCategory.EQUIPMENT]: 'Equipo',
+  [DowntimeCategory.QUALITY]: 'Calidad',
+  [DowntimeCategory.LABOR]: 'Personal',
+  [DowntimeCategory.OTHER]: 'Otra'
+};
+
+const toHours = (minutes: number): number => Math.round((minutes / 60) * 100) / 100;
+
+// Tramo de pausa junto con el modelo fabricado
+interface ModelPause {
+  segment: TimeSegment;
+  modelId: string;
+  modelName: string;
+}
+
+export class DowntimeUseCases {
+  constructor(
+    private downtimeReasonRepository: DowntimeReasonRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository
+  ) {}
+
+  async getReasons(filters?: { isActive?: boolean }): Promise<DowntimeReason[]> {
+    // Primera consulta: se crean los motivos por defecto
+    if (await this.downtimeReasonRepository.count() === 0) {
+      for (const reason of DEFAULT_DOWNTIME_REASONS) {
+        await this.downtimeReasonRepository.create({ ...reason, isActive: true });
+      }
+    }
+    return this.downtimeReasonRepository.findAll(filters);
+  }
+
+  async getReasonById(id: string): Promise<DowntimeReason> {
+    const reason = await this.downtimeReasonRepository.findById(id);
+    if (!reason) {
+      throw new Error('Motivo de parada no encontrado');
+    }
+    return reason;
+  }
+
+  async createReason(request: CreateDowntimeReasonRequest): Promise<DowntimeReason> {
+    if (!request.code || !request.code.trim()) {
+      throw new Error('El código del motivo es requerido');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre del motivo es requerido');
+    }
+    this.validateCategory(request.category);
+
+    const existing = await this.downtimeReasonRepository.findByCode(request.code);
+    if (existing) {
+      throw new Error(`Ya existe un motivo de parada con el código ${request.code.trim().toUpperCase()}`);
+    }
+
+    return this.downtimeReasonRepository.create({
+      code: request.code.trim(),
+      name: request.name.trim(),
+      category: request.category || DowntimeCategory.OTHER,
+      description: request.description?.trim(),
+      isActive: request.isActive ?? true
+    });
+  }
+
+  async updateReason(id: string, updates: Partial<CreateDowntimeReasonRequest>): Promise<DowntimeReason> {
+    const reason = await this.getReasonById(id);
+
+    if (updates.code !== undefined && !updates.code.trim()) {
+      throw new Error('El código del motivo es requerido');
+    }
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error('El nombre del motivo es requerido');
+    }
+    if (updates.code && updates.code.trim().toUpperCase() !== reason.code) {
+      const existing = await this.downtimeReasonRepository.findByCode(updates.code);
+      if (existing && existing.id !== id) {
+        throw new Error(`Ya existe un motivo de parada con el código ${updates.code.trim().toUpperCase()}`);
+      }
+    }
+    this.validateCategory(updates.category);
+
+    const updatedReason = await this.downtimeReasonRepository.update(id, updates);
+    if (!updatedReason) {
+      throw new Error('Error al actualizar el motivo de parada');
+    }
+    return updatedReason;
+  }
+
+  // Los tramos de pausa guardan código y nombre, así que borrar un motivo no altera las pausas registradas
+  async deleteReason(id: string): Promise<boolean> {
+    await this.getReasonById(id);
+    return this.downtimeReasonRepository.delete(id);
+  }
+
+  // Valida el motivo de una pausa y devuelve los datos que se guardan en su tramo
+  async resolvePause(request: PauseRequest | undefined, pausedBy?: string): Promise<PauseDetails> {
+    if (!request || !request.reasonCode || !request.reasonCode.trim()) {
+      throw new Error('El motivo de la pausa es requerido');
+    }
+
+    const reason = await this.downtimeReasonRepository.findByCode(request.reasonCode);
+    if (!reason) {
+      throw new Error(`Motivo de parada ${request.reasonCode.trim().toUpperCase()} no encontrado`);
+    }
+    if (!reason.isActive) {
+      throw new Error(`El motivo de parada ${reason.code} está desactivado`);
+    }
+
+    return {
+      reasonCode: reason.code,
+      reasonName: reason.name,
+      category: reason.category,
+      notes: request.notes?.trim() || undefined,
+      pausedBy
+    };
+  }
+
+  // Pareto de tiempo parado por motivo, categoría, modelo y centro de trabajo
+  async getDowntimeReport(filters: DowntimeReportFilters = {}): Promise<DowntimeReport> {
+    if (filters.from && filters.to && filters.to <= filters.from) {
+      throw new Error('La fecha final debe ser posterior a la inicial');
+    }
+
+    const now = new Date();
+    const [cards, orders] = await Promise.all([
+      this.productionCardRepository.findWithPauses(),
+      this.manufacturingOrderRepository.findWithPauses()
+    ]);
+
+    const pauses: ModelPause[] = [];
+    for (const source of [...cards, ...orders]) {
+      const trackers = [source.timeTracker, ...source.components.map(component => component.timeTracker)];
+      for (const timeTracker of trackers) {
+        if (!timeTracker) continue;
+        for (const segment of getTimeSegments(timeTracker)) {
+          if (segment.kind === TimeSegmentKind.PAUSE) {
+            pauses.push({ segment, modelId: source.modelId, modelName: source.modelName });
+          }
+        }
+      }
+    }
+
+    const byReason = new Map<string, DowntimeParetoLine>();
+    const byCategory = new Map<string, DowntimeParetoLine>();
+    const byModel = new Map<string, DowntimeParetoLine>();
+    const byWorkCenter = new Map<string, DowntimeParetoLine>();
+
+    const add = (map: Map<string, DowntimeParetoLine>, key: string, label: string, minutes: number) => {
+      const line = map.get(key) || { key, label, minutes: 0, hours: 0, occurrences: 0, percentage: 0, cumulativePercentage: 0 };
+      line.minutes += minutes;
+      line.occurrences += 1;
+      map.set(key, line);
+    };
+
+    let totalMinutes = 0;
+    let occurrences = 0;
+    let openPauses = 0;
+    for (const { segment, modelId, modelName } of pauses) {
+      const minutes = this.getPauseMinutes(segment, filters, now);
+      if (minutes === null) continue;
+
+      totalMinutes += minutes;
+      occurrences += 1;
+      if (!segment.endTime) openPauses += 1;
+
+      // Las pausas anteriores a los motivos de parada se agrupan aparte
+      const category = (segment.category || DowntimeCategory.OTHER) as DowntimeCategory;
+      add(byReason, segment.reasonCode || 'none', segment.reasonCode ? `${segment.reasonCode} - ${segment.reasonName}` : 'Sin motivo', minutes);
+      add(byCategory, category, CATEGORY_LABELS[category] || category, minutes);
+      add(byModel, modelId, modelName, minutes);
+      add(byWorkCenter, segment.workCenterId || 'none', segment.workCenterName || 'Sin centro de trabajo', minutes);
+    }
+
+    return {
+      from: filters.from,
+      to: filters.to,
+      generatedAt: now,
+      totalMinutes: Math.round(totalMinutes),
+      totalHours: toHours(totalMinutes),
+      occurrences,
+      openPauses,
+      byReason: this.toPareto(byReason, totalMinutes),
+      byCategory: this.toPareto(byCategory, totalMinutes),
+      byModel: this.toPareto(byModel, totalMinutes),
+      byWorkCenter: this.toPareto(byWorkCenter, totalMinutes)
+    };
+  }
+
+  // Minutos de la pausa dentro del periodo (las abiertas cuentan hasta ahora); null si no se solapa
+  private getPauseMinutes(segment: TimeSegment, filters: DowntimeReportFilters, now: Date): number | null {
+    const startTime = new Date(segment.startTime);
+    const endTime = segment.endTime ? new Date(segment.endTime) : now;
+    const start = filters.from && startTime < filters.from ? filters.from : startTime;
+    const end = filters.to && endTime > filters.to ? filters.to : endTime;
+
+    if (end <= start) return null;
+    return (end.getTime() - start.getTime()) / (60 * 1000);
+  }
+
+  // Ordena de mayor a menor y calcula porcentaje y acumulado
+  private toPareto(map: Map<string, DowntimeParetoLine>, totalMinutes: number): DowntimeParetoLine[] {
+    let cumulative = 0;
+    return Array.from(map.values())
+      .sort((a, b) => b.minutes - a.minutes)
+      .map(line => {
+        const percentage = totalMinutes > 0 ? (line.minutes / totalMinutes) * 100 : 0;
+        cumulative += percentage;
+        return {
+          ...line,
+          minutes: Math.round(line.minutes),
+          hours: toHours(line.minutes),
+          percentage: Math.round(percentage * 10) / 10,
+          cumulativePercentage: Math.min(100, Math.round(cumulative * 10) / 10)
+        };
+      });
+  }
+
+  private validateCategory(category?: string): void {
+    if (category !== undefined && !Object.values(DowntimeCategory).includes(category as DowntimeCategory)) {
+      throw new Error(`Categoría de parada no válida: ${category}`);
+    }
+  }
+}
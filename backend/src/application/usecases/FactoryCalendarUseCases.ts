@@ -0,0 +1,180 @@
+import {
+  FactoryCalendar,
+  WeekdaySchedule,
+  CalendarHoliday,
+  PlantClosure,
+  WorkingCalendar,
+  WorkingWindow,
+  DEFAULT_FACTORY_CALENDAR,
+  isValidTimeZone
+} from '../../domain/entities/FactoryCalendar';
+import { FactoryCalendarRepository } from '../../infrastructure/repositories/MongoFactoryCalendarRepository';
+
+export interface UpdateFactoryCalendarRequest {
+  name?: string;
+  timezone?: string;
+  weekdays?: WeekdaySchedule[];
+  holidays?: CalendarHoliday[];
+  closures?: PlantClosure[];
+}
+
+export interface WorkingTimeSummary {
+  from: Date;
+  to: Date;
+  workingHours: number;
+  windows: WorkingWindow[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendario de fábrica: turnos por día de la semana, festivos y cierres de planta
+export class FactoryCalendarUseCases {
+  private workingCalendar: WorkingCalendar | null = null;
+
+  // defaultTimezone: zona de la planta para calendarios que aún no la tienen (PLANT_TIMEZONE)
+  constructor(private factoryCalendarRepository: FactoryCalendarRepository, private defaultTimezone: string) {
+    if (!isValidTimeZone(defaultTimezone)) {
+      throw new Error(`Zona horaria de la planta inválida: ${defaultTimezone}`);
+    }
+  }
+
+  async getCalendar(): Promise<FactoryCalendar> {
+    const calendar = await this.factoryCalendarRepository.findCurrent();
+    if (calendar) {
+      return { ...calendar, timezone: calendar.timezone || this.defaultTimezone };
+    }
+
+    // Primera consulta: se crea el calendario por defecto
+    return this.factoryCalendarRepository.create({ ...DEFAULT_FACTORY_CALENDAR, timezone: this.defaultTimezone });
+  }
+
+  async updateCalendar(request: UpdateFactoryCalendarRequest): Promise<FactoryCalendar> {
+    const calendar = await this.getCalendar();
+    const updates: UpdateFactoryCalendarRequest = {};
+
+    if (request.name !== undefined) {
+      if (!request.name.trim()) {
+        throw new Error('El nombre del calendario es requerido');
+      }
+      updates.name = request.name.trim();
+    }
+
+    if (request.timezone !== undefined) {
+      if (!isValidTimeZone(request.timezone)) {
+        throw new Error(`Zona horaria inválida: ${request.timezone} (use un nombre IANA, p. ej. Europe/Madrid)`);
+      }
+      updates.timezone = request.timezone;
+    }
+
+    if (request.weekdays !== undefined) {
+      updates.weekdays = this.normalizeWeekdays(request.weekdays);
+    }
+
+    if (request.holidays !== undefined) {
+      updates.holidays = this.normalizeHolidays(request.holidays);
+    }
+
+    if (request.closures !== undefined) {
+      updates.closures = this.normalizeClosures(request.closures);
+    }
+
+    const updatedCalendar = await this.factoryCalendarRepository.update(calendar.id, updates);
+    if (!updatedCalendar) {
+      throw new Error('Error al actualizar el calendario de fábrica');
+    }
+
+    this.workingCalendar = null;
+    return updatedCalendar;
+  }
+
+  // Calendario de trabajo para cálculos de tiempo (se reutiliza hasta que cambie el calendario)
+  async getWorkingCalendar(): Promise<WorkingCalendar> {
+    if (!this.workingCalendar) {
+      this.workingCalendar = new WorkingCalendar(await this.getCalendar());
+    }
+    return this.workingCalendar;
+  }
+
+  async getWorkingTime(from: Date, to: Date): Promise<WorkingTimeSummary> {
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new Error('Las fechas del periodo no son válidas');
+    }
+    if (to <= from) {
+      throw new Error('La fecha final debe ser posterior a la inicial');
+    }
+
+    const calendar = await this.getWorkingCalendar();
+    return {
+      from,
+      to,
+      workingHours: Math.round((calendar.getWorkingMinutes(from, to) / 60) * 10) / 10,
+      windows: calendar.getWorkingWindows(from, to)
+    };
+  }
+
+  private normalizeWeekdays(weekdays: WeekdaySchedule[]): WeekdaySchedule[] {
+    const seen = new Set<number>();
+
+    return weekdays
+      .map(schedule => {
+        const weekday = Number(schedule.weekday);
+        if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+          throw new Error(`Día de la semana inválido: ${schedule.weekday}`);
+        }
+        if (seen.has(weekday)) {
+          throw new Error(`El día de la semana ${weekday} está repetido`);
+        }
+        seen.add(weekday);
+
+        const shifts = (schedule.shifts || []).map(shift => {
+          if (!TIME_PATTERN.test(shift.startTime) || !TIME_PATTERN.test(shift.endTime)) {
+            throw new Error(`Horario inválido en el turno ${shift.name || ''}: use el formato HH:mm`);
+          }
+          if (shift.startTime === shift.endTime) {
+            throw new Error(`El turno ${shift.name || ''} no puede empezar y terminar a la misma hora`);
+          }
+          return { name: shift.name?.trim() || 'Turno', startTime: shift.startTime, endTime: shift.endTime };
+        });
+
+        return { weekday, shifts: shifts.sort((a, b) => a.startTime.localeCompare(b.startTime)) };
+      })
+      .sort((a, b) => a.weekday - b.weekday);
+  }
+
+  private normalizeHolidays(holidays: CalendarHoliday[]): CalendarHoliday[] {
+    const byDate = new Map<string, CalendarHoliday>();
+
+    holidays.forEach(holiday => {
+      this.validateDate(holiday.date);
+      if (!holiday.name || !holiday.name.trim()) {
+        throw new Error(`El festivo del ${holiday.date} necesita un nombre`);
+      }
+      byDate.set(holiday.date, { date: holiday.date, name: holiday.name.trim() });
+    });
+
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private normalizeClosures(closures: PlantClosure[]): PlantClosure[] {
+    return closures
+      .map(closure => {
+        this.validateDate(closure.startDate);
+        this.validateDate(closure.endDate);
+        if (closure.endDate < closure.startDate) {
+          throw new Error(`El cierre "${closure.reason}" termina antes de empezar`);
+        }
+        if (!closure.reason || !closure.reason.trim()) {
+          throw new Error('Cada cierre de planta necesita un motivo');
+        }
+        return { startDate: closure.startDate, endDate: closure.endDate, reason: closure.reason.trim() };
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  private validateDate(date: string): void {
+    if (!DATE_PATTERN.test(date || '') || isNaN(new Date(date).getTime())) {
+      throw new Error(`Fecha inválida: ${date} (use el formato AAAA-MM-DD)`);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  InspectionPlan,
+  InspectionCheck,
+  InspectionCheckType,
+  InspectionCheckResult,
+  InspectionRecord,
+  CardInspectionStatus,
+  isWithinTolerance,
+  hasPassedInspection
+} from '../../domain/entities/InspectionPlan';
+import { ProductionCard, ProductionCardStatus } from '../../domain/entities/ProductionCard';
+import { InventoryType } from '../../domain/entities/InventoryItem';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { InspectionPlanRepository, InspectionPlanFilters } from '../../infrastructure/repositories/MongoInspectionPlanRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+
+export interface CreateInspectionPlanRequest {
+  modelId: string;
+  name: string;
+  checks: InspectionCheck[];
+  isActive?: boolean;
+}
+
+export interface UpdateInspectionPlanRequest {
+  name?: string;
+  checks?: InspectionCheck[];
+  isActive?: boolean;
+}
+
+// Resultado indicado por el inspector para cada control del plan
+export interface InspectionResultInput {
+  sequence: number;
+  passed?: boolean;       // controles de tipo checklist
+  measuredValue?: number; // controles de tipo medición
+  notes?: string;
+}
+
+export interface RecordInspectionRequest {
+  results: InspectionResultInput[];
+  notes?: string;
+}
+
+export class InspectionUseCases {
+  constructor(
+    private inspectionPlanRepository: InspectionPlanRepository,
+    private inventoryRepository: IInventoryRepository,
+    private productionCardRepository: ProductionCardRepository
+  ) {}
+
+  async getPlans(filters?: InspectionPlanFilters): Promise<InspectionPlan[]> {
+    return this.inspectionPlanRepository.findAll(filters);
+  }
+
+  async getPlanById(id: string): Promise<InspectionPlan> {
+    const plan = await this.inspectionPlanRepository.findById(id);
+    if (!plan) {
+      throw new Error('Plan de inspección no encontrado');
+    }
+    return plan;
+  }
+
+  async createPlan(request: CreateInspectionPlanRequest): Promise<InspectionPlan> {
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre del plan de inspección es requerido');
+    }
+
+    const model = await this.inventoryRepository.findById(request.modelId);
+    if (!model) {
+      throw new Error('Modelo no encontrado');
+    }
+    if (model.type !== InventoryType.MODEL) {
+      throw new Error('Los planes de inspección solo se pueden definir para modelos');
+    }
+
+    const existing = await this.inspectionPlanRepository.findByModel(model.id);
+    if (existing) {
+      throw new Error(`El modelo ${model.name} ya tiene un plan de inspección`);
+    }
+
+    return this.inspectionPlanRepository.create({
+      modelId: model.id,
+      modelName: model.name,
+      modelSku: model.sku,
+      name: request.name.trim(),
+      checks: this.normalizeChecks(request.checks),
+      isActive: request.isActive ?? true
+    });
+  }
+
+  async updatePlan(id: string, updates: UpdateInspectionPlanRequest): Promise<InspectionPlan> {
+    await this.getPlanById(id);
+
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error('El nombre del plan de inspección es requerido');
+    }
+
+    const updatedPlan = await this.inspectionPlanRepository.update(id, {
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.checks !== undefined && { checks: this.normalizeChecks(updates.checks) }),
+      ...(updates.isActive !== undefined && { isActive: updates.isActive })
+    });
+    if (!updatedPlan) {
+      throw new Error('Error al actualizar el plan de inspección');
+    }
+    return updatedPlan;
+  }
+
+  // Las tarjetas guardan una copia de los resultados, así que borrar el plan no altera su historial
+  async deletePlan(id: string): Promise<boolean> {
+    await this.getPlanById(id);
+    return this.inspectionPlanRepository.delete(id);
+  }
+
+  async getCardInspection(cardId: string): Promise<CardInspectionStatus> {
+    const card = await this.getCard(cardId);
+    const plan = await this.getActivePlan(card.modelId);
+
+    return {
+      cardId: card.id,
+      plan: plan || undefined,
+      inspections: card.inspections || [],
+      required: !!plan,
+      passed: plan ? hasPassedInspection(plan, card.inspections) : true
+    };
+  }
+
+  // Registra una inspección completa: cada control del plan debe tener resultado
+  async recordInspection(cardId: string, request: RecordInspectionRequest, inspectedBy?: string): Promise<CardInspectionStatus> {
+    const card = await this.getCard(cardId);
+
+    if (card.status !== ProductionCardStatus.IN_PROGRESS && card.status !== ProductionCardStatus.PAUSED) {
+      throw new Error('Solo se pueden inspeccionar tarjetas en progreso o pausadas');
+    }
+    if (!card.components.every(component => component.isCompleted)) {
+      throw new Error('No se puede inspeccionar la tarjeta: faltan componentes por fabricar');
+    }
+
+    const plan = await this.getActivePlan(card.modelId);
+    if (!plan) {
+      throw new Error(`El modelo ${card.modelName} no tiene un plan de inspección activo`);
+    }
+
+    const inputs = request?.results || [];
+    const results: InspectionCheckResult[] = plan.checks.map(check => {
+      const input = inputs.find(result => Number(result.sequence) === check.sequence);
+      return this.evaluateCheck(check, input);
+    });
+
+    const inspection: InspectionRecord = {
+      planId: plan.id,
+      planName: plan.name,
+      results,
+      passed: results.every(result => result.passed),
+      notes: request?.notes?.trim() || undefined,
+      inspectedBy,
+      inspectedAt: new Date()
+    };
+
+    const updatedCard = await this.productionCardRepository.addInspection(cardId, inspection);
+    if (!updatedCard) {
+      throw new Error('Error al registrar la inspección');
+    }
+
+    return {
+      cardId: updatedCard.id,
+      plan,
+      inspections: updatedCard.inspections || [],
+      required: true,
+      passed: inspection.passed
+    };
+  }
+
+  // Llamado al completar una tarjeta: con plan activo, la última inspección debe haber pasado
+  async ensureInspectionPassed(card: ProductionCard): Promise<void> {
+    const plan = await this.getActivePlan(card.modelId);
+    if (!plan) return;
+
+    if (!hasPassedInspection(plan, card.inspections)) {
+      const inspected = (card.inspections || []).some(inspection => inspection.planId === plan.id);
+      throw new Error(inspected
+        ? 'No se puede completar la tarjeta: la última inspección de calidad no se superó'
+        : `No se puede completar la tarjeta: falta la inspección de calidad (${plan.name})`);
+    }
+  }
+
+  private async getActivePlan(modelId: string): Promise<InspectionPlan | null> {
+    const plan = await this.inspectionPlanRepository.findByModel(modelId);
+    return plan && plan.isActive ? plan : null;
+  }
+
+  private async getCard(cardId: string): Promise<ProductionCard> {
+    const card = await this.productionCardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Tarjeta de producción no encontrada');
+    }
+    return card;
+  }
+
+  private evaluateCheck(check: InspectionCheck, input?: InspectionResultInput): InspectionCheckResult {
+    const base = {
+      sequence: check.sequence,
+      name: check.name,
+      type: check.type,
+      notes: input?.notes?.trim() || undefined
+    };
+
+    if (check.type === InspectionCheckType.MEASUREMENT) {
+      if (input?.measuredValue === undefined || input.measuredValue === null || isNaN(Number(input.measuredValue))) {
+        throw new Error(`Falta el valor medido del control ${check.sequence} (${check.name})`);
+      }
+      const measuredValue = Number(input.measuredValue);
+      return {
+        ...base,
+        passed: isWithinTolerance(check, measuredValue),
+        measuredValue,
+        minValue: check.minValue,
+        maxValue: check.maxValue,
+        unit: check.unit
+      };
+    }
+
+    if (typeof input?.passed !== 'boolean') {
+      throw new Error(`Falta el resultado del control ${check.sequence} (${check.name})`);
+    }
+    return { ...base, passed: input.passed };
+  }
+
+  // Valida los controles y los ordena por secuencia
+  private normalizeChecks(checks: InspectionCheck[] = []): InspectionCheck[] {
+    if (!checks || checks.length === 0) {
+      throw new Error('El plan de inspección debe tener al menos un control');
+    }
+
+    const sequences = new Set<number>();
+
+    return checks
+      .map(check => {
+        const sequence = Number(check.sequence);
+        if (!Number.isInteger(sequence) || sequence < 1) {
+          throw new Error('La secuencia de cada control debe ser un entero positivo');
+        }
+        if (sequences.has(sequence)) {
+          throw new Error(`La secuencia ${sequence} está repetida en el plan de inspección`);
+        }
+        sequences.add(sequence);
+
+        if (!check.name || !check.name.trim()) {
+          throw new Error(`El nombre del control ${sequence} es requerido`);
+        }
+        if (!Object.values(InspectionCheckType).includes(check.type)) {
+          throw new Error(`Tipo de control no válido: ${check.type}`);
+        }
+
+        const normalized: InspectionCheck = {
+          sequence,
+          name: check.name.trim(),
+          type: check.type,
+          description: check.description?.trim() || undefined
+        };
+
+        if (check.type === InspectionCheckType.MEASUREMENT) {
+          const toNumber = (value?: number) => value === undefined || value === null || (value as unknown) === '' ? undefined : Number(value);
+          normalized.nominalValue = toNumber(check.nominalValue);
+          normalized.minValue = toNumber(check.minValue);
+          normalized.maxValue = toNumber(check.maxValue);
+          normalized.unit = check.unit?.trim() || undefined;
+
+          if (normalized.minValue === undefined && normalized.maxValue === undefined) {
+            throw new Error(`El control ${sequence} (${normalized.name}) necesita un límite mínimo o máximo`);
+          }
+          if ([normalized.nominalValue, normalized.minValue, normalized.maxValue].some(value => value !== undefined && isNaN(value))) {
+            throw new Error(`Los valores del control ${sequence} (${normalized.name}) deben ser numéricos`);
+          }
+          if (normalized.minValue !== undefined && normalized.maxValue !== undefined && normalized.minValue > normalized.maxValue) {
+            throw new Error(`El mínimo del control ${sequence} (${normalized.name}) es mayor que el máximo`);
+          }
+        }
+
+        return normalized;
+      })
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+}
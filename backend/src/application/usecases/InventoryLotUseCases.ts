@@ -0,0 +1,154 @@
+import {
+  InventoryLot,
+  LotConsumption,
+  LotGenealogy,
+  CardLotUsage
+} from '../../domain/entities/InventoryLot';
+import { InventoryItem } from '../../domain/entities/InventoryItem';
+import { ProductionCard } from '../../domain/entities/ProductionCard';
+import { StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
+import { InventoryLotRepository, InventoryLotFilters } from '../../infrastructure/repositories/MongoInventoryLotRepository';
+import { StockMovementRepository } from '../../infrastructure/repositories/MongoStockMovementRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+
+export class InventoryLotUseCases {
+  constructor(
+    private lotRepository: InventoryLotRepository,
+    private stockMovementRepository: StockMovementRepository,
+    private productionCardRepository: ProductionCardRepository
+  ) {}
+
+  async getLots(filters?: InventoryLotFilters): Promise<InventoryLot[]> {
+    return this.lotRepository.findAll(filters);
+  }
+
+  async getLotById(id: string): Promise<InventoryLot> {
+    const lot = await this.lotRepository.findById(id);
+    if (!lot) {
+      throw new Error('Lote no encontrado');
+    }
+    return lot;
+  }
+
+  // Al activar el control por lotes, el stock existente queda en un lote de apertura
+  async createOpeningLot(item: InventoryItem): Promise<InventoryLot | null> {
+    if (item.quantity <= 0) {
+      return null;
+    }
+
+    const existingLots = await this.lotRepository.findAll({ itemId: item.id, withStock: true });
+    const lotted = existingLots.reduce((total, lot) => total + lot.quantity, 0);
+    const quantity = item.quantity - lotted;
+    if (quantity <= 0) {
+      return null;
+    }
+
+    const now = new Date();
+    return this.lotRepository.create({
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      lotNumber: `${item.sku}-APERTURA-${now.getTime()}`,
+      supplier: item.supplier || undefined,
+      receivedDate: now,
+      initialQuantity: quantity,
+      quantity,
+      unit: item.unit,
+      notes: 'Stock existente al activar el control por lotes'
+    });
+  }
+
+  // Genealogía hacia adelante: tarjetas que consumieron el lote (neto de reversiones)
+  async getGenealogy(lotId: string): Promise<LotGenealogy> {
+    const lot = await this.getLotById(lotId);
+    const movements = (await this.stockMovementRepository.findAll({ lotId }))
+      .filter(movement => movement.type === StockMovementType.ISSUE && movement.referenceType === StockMovementReferenceType.PRODUCTION_CARD);
+
+    const byCard = new Map<string, { quantity: number; consumedAt: Date }>();
+    for (const movement of movements) {
+      const entry = byCard.get(movement.referenceId!) || { quantity: 0, consumedAt: movement.createdAt };
+      entry.quantity -= movement.quantity;
+      if (movement.quantity < 0 && movement.createdAt < entry.consumedAt) {
+        entry.consumedAt = movement.createdAt;
+      }
+      byCard.set(movement.referenceId!, entry);
+    }
+
+    const consumptions: LotConsumption[] = [];
+    for (const [cardId, entry] of byCard) {
+      if (entry.quantity <= 0) continue;
+      const card = await this.productionCardRepository.findById(cardId);
+      if (!card) continue;
+
+      const component = this.findComponentUsingLot(card, lotId);
+      consumptions.push({
+        cardId,
+        cardLabel: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+        orderId: card.orderId,
+        modelId: card.modelId,
+        modelName: card.modelName,
+        componentId: component?.componentId,
+        componentName: component?.componentName,
+        quantity: entry.quantity,
+        serialNumber: card.serialNumber,
+        cardStatus: card.status,
+        consumedAt: entry.consumedAt
+      });
+    }
+
+    consumptions.sort((a, b) => a.consumedAt.getTime() - b.consumedAt.getTime());
+
+    return {
+      lot,
+      consumptions,
+      totalConsumed: consumptions.reduce((total, consumption) => total + consumption.quantity, 0)
+    };
+  }
+
+  // Genealogía hacia atrás: lotes consumidos por una tarjeta (neto de reversiones)
+  async getCardLots(cardId: string): Promise<CardLotUsage[]> {
+    const card = await this.productionCardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Tarjeta de producción no encontrada');
+    }
+
+    const movements = (await this.stockMovementRepository.findAll({
+      referenceType: StockMovementReferenceType.PRODUCTION_CARD,
+      referenceId: cardId,
+      type: StockMovementType.ISSUE
+    })).filter(movement => movement.lotId);
+
+    const byLot = new Map<string, number>();
+    for (const movement of movements) {
+      byLot.set(movement.lotId!, (byLot.get(movement.lotId!) || 0) - movement.quantity);
+    }
+
+    const usage: CardLotUsage[] = [];
+    for (const [lotId, quantity] of byLot) {
+      if (quantity <= 0) continue;
+      const lot = await this.lotRepository.findById(lotId);
+      if (!lot) continue;
+
+      usage.push({
+        lotId,
+        lotNumber: lot.lotNumber,
+        itemId: lot.itemId,
+        itemName: lot.itemName,
+        itemSku: lot.itemSku,
+        componentId: this.findComponentUsingLot(card, lotId)?.componentId,
+        quantity,
+        unit: lot.unit,
+        supplierLot: lot.supplierLot,
+        expiryDate: lot.expiryDate
+      });
+    }
+
+    return usage.sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+
+  private findComponentUsingLot(card: ProductionCard, lotId: string) {
+    return card.components.find(component =>
+      (component.materialUsage || []).some(usage => (usage.lots || []).some(lot => lot.lotId === lotId))
+    );
+  }
+}
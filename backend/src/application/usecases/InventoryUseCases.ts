@@ -1,8 +1,27 @@
-import { InventoryItem, InventoryType, InventoryStatus } from '../../domain/entities/InventoryItem';
+import { InventoryItem, InventoryType, InventoryStatus, ComponentLine, RoutingOperation, getComponentLines } from '../../domain/entities/InventoryItem';
 import { IInventoryRepository, InventoryFilters } from '../../domain/repositories/IInventoryRepository';
+import { StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
+import { StockMovementUseCases } from './StockMovementUseCases';
+import { BomRevisionUseCases } from './BomRevisionUseCases';
+import { RoutingUseCases } from './RoutingUseCases';
+import { InventoryLotUseCases } from './InventoryLotUseCases';
+import { WarehouseUseCases } from './WarehouseUseCases';
+import { SupplierUseCases, NormalizedItemSuppliers } from './SupplierUseCases';
+import { LocationStock } from '../../domain/entities/Warehouse';
+import { BomRevision, BomRevisionStatus } from '../../domain/entities/BomRevision';
+import { isValidSerialPattern } from '../../domain/entities/SerialUnit';
+import { LotPickingPolicy } from '../../domain/entities/InventoryLot';
 
 export class InventoryUseCases {
-  constructor(private inventoryRepository: IInventoryRepository) {}
+  constructor(
+    private inventoryRepository: IInventoryRepository,
+    private stockMovementUseCases: StockMovementUseCases,
+    private bomRevisionUseCases: BomRevisionUseCases,
+    private routingUseCases: RoutingUseCases,
+    private inventoryLotUseCases: InventoryLotUseCases,
+    private warehouseUseCases: WarehouseUseCases,
+    private supplierUseCases: SupplierUseCases
+  ) {}
 
   async createInventoryItem(itemData: Omit<InventoryItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<InventoryItem> {
     const existingItem = await this.inventoryRepository.findBySku(itemData.sku);
@@ -11,12 +30,34 @@ export class InventoryUseCases {
     }
 
 
-    // Validar componentes si es un modelo
-    if (itemData.type === InventoryType.MODEL && itemData.components && itemData.components.length > 0) {
-      await this.validateComponents(itemData.components);
+    // Validar componentes (modelos y componentes con subcomponentes)
+    const componentFields = this.normalizeComponents(itemData);
+    if (componentFields && componentFields.componentLines.length > 0) {
+      await this.validateComponents(componentFields.componentLines);
     }
+    const routingFields = await this.normalizeRouting(itemData);
+    const serialFields = this.normalizeSerialPattern(itemData);
+    const supplierFields = await this.normalizeSuppliers(itemData);
+    this.validateLotControl(itemData);
 
-    return this.inventoryRepository.create(itemData);
+    // El stock inicial se registra como movimiento para que el libro cuadre desde el inicio
+    const initialQuantity = Number(itemData.quantity) || 0;
+    const { reserved, onHand, available, supplier, ...newItemData } = itemData;
+    const item = await this.inventoryRepository.create({ ...newItemData, ...componentFields, ...routingFields, ...serialFields, ...supplierFields, quantity: 0, reserved: 0 });
+    await this.bomRevisionUseCases.ensureCurrentRevision(item, 'Revisión inicial');
+    if (initialQuantity <= 0) {
+      return item;
+    }
+
+    await this.stockMovementUseCases.recordMovement({
+      itemId: item.id,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: initialQuantity,
+      reason: 'Stock inicial',
+      referenceType: StockMovementReferenceType.MANUAL
+    });
+
+    return (await this.inventoryRepository.findById(item.id)) || item;
   }
 
   async getInventoryItem(id: string): Promise<InventoryItem | null> {
@@ -28,10 +69,28 @@ export class InventoryUseCases {
   }
 
   async getAllInventoryItems(filters?: InventoryFilters): Promise<InventoryItem[]> {
-    return this.inventoryRepository.findAll(filters);
+    const { warehouseId, ...itemFilters } = filters || {};
+    const items = await this.inventoryRepository.findAll(itemFilters);
+    if (!warehouseId) {
+      return items;
+    }
+
+    // Solo los artículos con existencias en el almacén
+    const stock = await this.warehouseUseCases.getStock({ warehouseId, withStock: true });
+    const itemIds = new Set(stock.map(entry => entry.itemId));
+    return items.filter(item => itemIds.has(item.id));
+  }
+
+  // Desglose de existencias por almacén y ubicación
+  async getItemLocations(id: string): Promise<LocationStock[]> {
+    const item = await this.inventoryRepository.findById(id);
+    if (!item) {
+      throw new Error('Inventory item not found');
+    }
+    return this.warehouseUseCases.getItemStock(id);
   }
 
-  async updateInventoryItem(id: string, updates: Partial<InventoryItem>): Promise<InventoryItem | null> {
+  async updateInventoryItem(id: string, updates: Partial<InventoryItem>, performedBy?: string): Promise<InventoryItem | null> {
     const existingItem = await this.inventoryRepository.findById(id);
     if (!existingItem) {
       throw new Error('Inventory item not found');
@@ -45,13 +104,62 @@ export class InventoryUseCases {
     }
 
 
-    // Validar componentes si es un modelo y se están actualizando componentes
-    if ((updates.type === InventoryType.MODEL || existingItem.type === InventoryType.MODEL) &&
-        updates.components && updates.components.length > 0) {
-      await this.validateComponents(updates.components);
+    // Validar componentes si se están actualizando (incluye detección de ciclos)
+    const componentFields = this.normalizeComponents(updates, existingItem);
+    if (componentFields && componentFields.componentLines.length > 0) {
+      await this.validateComponents(componentFields.componentLines, id);
     }
+    const routingFields = await this.normalizeRouting(updates, existingItem);
+    const serialFields = this.normalizeSerialPattern(updates, existingItem);
+    const supplierFields = await this.normalizeSuppliers(updates, existingItem);
+    this.validateLotControl(updates, existingItem);
 
-    return this.inventoryRepository.update(id, updates);
+    // La cantidad nunca se sobrescribe directamente: la diferencia se registra como ajuste
+    // Las reservas solo las gestionan las órdenes de fabricación
+    // El nombre del proveedor se deriva de la lista de proveedores
+    const { quantity, reserved, onHand, available, supplier, ...otherUpdates } = updates;
+    const updatedItem = await this.inventoryRepository.update(id, { ...otherUpdates, ...componentFields, ...routingFields, ...serialFields, ...supplierFields });
+
+    // El stock que había antes de activar el control por lotes pasa a un lote de apertura
+    if (updatedItem && updatedItem.isLotControlled && !existingItem.isLotControlled) {
+      await this.inventoryLotUseCases.createOpeningLot(updatedItem);
+    }
+
+    // Cada cambio de estructura queda como una nueva revisión liberada
+    if (updatedItem && (componentFields || updates.billOfMaterials)) {
+      await this.bomRevisionUseCases.ensureCurrentRevision(updatedItem, 'Edición del artículo', performedBy);
+    }
+
+    if (quantity !== undefined && Number(quantity) !== existingItem.quantity) {
+      return this.stockMovementUseCases.setQuantity(id, Number(quantity), 'Ajuste desde la edición del artículo', performedBy);
+    }
+
+    return updatedItem;
+  }
+
+  // Libera un borrador de revisión y aplica su estructura al artículo
+  async releaseBomRevision(revisionId: string, effectiveFrom?: Date, releasedBy?: string): Promise<BomRevision> {
+    const revision = await this.bomRevisionUseCases.getRevision(revisionId);
+    if (revision.status !== BomRevisionStatus.DRAFT) {
+      throw new Error('Only draft revisions can be released');
+    }
+
+    const componentLines = revision.componentLines.map(line => ({
+      componentId: line.componentId,
+      quantity: line.quantity
+    }));
+    if (componentLines.length > 0) {
+      await this.validateComponents(componentLines, revision.itemId);
+    }
+
+    const releasedRevision = await this.bomRevisionUseCases.release(revisionId, effectiveFrom, releasedBy);
+    await this.inventoryRepository.update(revision.itemId, {
+      components: componentLines.map(line => line.componentId),
+      componentLines,
+      billOfMaterials: revision.billOfMaterials
+    });
+
+    return releasedRevision;
   }
 
   async deleteInventoryItem(id: string): Promise<boolean> {
@@ -63,22 +171,32 @@ export class InventoryUseCases {
     return this.inventoryRepository.delete(id);
   }
 
-  async updateQuantity(id: string, quantity: number): Promise<InventoryItem | null> {
+  async updateQuantity(id: string, quantity: number, reason?: string, performedBy?: string): Promise<InventoryItem | null> {
     if (quantity < 0) {
       throw new Error('Quantity cannot be negative');
     }
 
-    return this.inventoryRepository.updateQuantity(id, quantity);
+    const existingItem = await this.inventoryRepository.findById(id);
+    if (!existingItem) {
+      return null;
+    }
+
+    return this.stockMovementUseCases.setQuantity(id, quantity, reason || 'Ajuste manual de cantidad', performedBy);
   }
 
-  async bulkUpdateQuantities(updates: Array<{id: string, quantity: number}>): Promise<InventoryItem[]> {
+  async bulkUpdateQuantities(updates: Array<{id: string, quantity: number}>, reason?: string, performedBy?: string): Promise<InventoryItem[]> {
     for (const update of updates) {
       if (update.quantity < 0) {
         throw new Error(`Quantity cannot be negative for item ${update.id}`);
       }
     }
 
-    return this.inventoryRepository.bulkUpdateQuantities(updates);
+    const items: InventoryItem[] = [];
+    for (const update of updates) {
+      items.push(await this.stockMovementUseCases.setQuantity(update.id, update.quantity, reason || 'Ajuste masivo de cantidades', performedBy));
+    }
+
+    return items;
   }
 
   async getLowStockItems(): Promise<InventoryItem[]> {
@@ -100,6 +218,8 @@ export class InventoryUseCases {
   async getInventoryStats(): Promise<{
     totalItems: number;
     totalValue: number;
+    reservedValue: number;
+    availableValue: number;
     lowStockCount: number;
     byType: Record<InventoryType, number>;
     byStatus: Record<InventoryStatus, number>;
@@ -110,6 +230,8 @@ export class InventoryUseCases {
     const stats = {
       totalItems: allItems.length,
       totalValue: allItems.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0),
+      reservedValue: allItems.reduce((sum, item) => sum + ((item.reserved || 0) * item.unitPrice), 0),
+      availableValue: allItems.reduce((sum, item) => sum + (Math.max(0, item.available ?? item.quantity) * item.unitPrice), 0),
       lowStockCount: lowStockItems.length,
       byType: {
         [InventoryType.MODEL]: 0,
@@ -131,11 +253,112 @@ export class InventoryUseCases {
     return stats;
   }
 
-  private async validateComponents(componentIds: string[]): Promise<void> {
-    for (const componentId of componentIds) {
-      const component = await this.inventoryRepository.findById(componentId);
+  // Mantiene sincronizados components (IDs) y componentLines (IDs con cantidad)
+  private normalizeComponents(
+    data: Partial<InventoryItem>,
+    existingItem?: InventoryItem
+  ): { components: string[]; componentLines: ComponentLine[] } | null {
+    if (data.componentLines) {
+      const componentLines = data.componentLines.map(line => ({
+        componentId: line.componentId,
+        quantity: Number(line.quantity)
+      }));
+      return { components: componentLines.map(line => line.componentId), componentLines };
+    }
+
+    if (data.components) {
+      // Conservar la cantidad de los componentes que ya estaban en la estructura
+      const existingLines = existingItem ? getComponentLines(existingItem) : [];
+      const componentLines = data.components.map(componentId => ({
+        componentId,
+        quantity: existingLines.find(line => line.componentId === componentId)?.quantity || 1
+      }));
+      return { components: data.components, componentLines };
+    }
+
+    return null;
+  }
+
+  // Valida la ruta de fabricación si viene en los datos (solo modelos y componentes)
+  private async normalizeRouting(
+    data: Partial<InventoryItem>,
+    existingItem?: InventoryItem
+  ): Promise<{ routing: RoutingOperation[] } | null> {
+    if (!data.routing) {
+      return null;
+    }
+
+    const type = data.type || existingItem?.type;
+    if (data.routing.length > 0 && type === InventoryType.MATERIAL) {
+      throw new Error('Only models and components can have a routing');
+    }
+
+    return { routing: await this.routingUseCases.validateRouting(data.routing) };
+  }
+
+  // Patrón de número de serie de las unidades terminadas (solo modelos); vacío = patrón por defecto
+  private normalizeSerialPattern(
+    data: Partial<InventoryItem>,
+    existingItem?: InventoryItem
+  ): { serialPattern: string } | null {
+    if (data.serialPattern === undefined || data.serialPattern === null) {
+      return null;
+    }
+
+    const serialPattern = String(data.serialPattern).trim();
+    if (!serialPattern) {
+      return { serialPattern };
+    }
+
+    const type = data.type || existingItem?.type;
+    if (type !== InventoryType.MODEL) {
+      throw new Error('Only models can have a serial number pattern');
+    }
+    if (!isValidSerialPattern(serialPattern)) {
+      throw new Error('The serial number pattern must include the {SEQ} token');
+    }
+
+    return { serialPattern };
+  }
+
+  // Proveedores del artículo si vienen en los datos
+  private async normalizeSuppliers(
+    data: Partial<InventoryItem>,
+    existingItem?: InventoryItem
+  ): Promise<NormalizedItemSuppliers | null> {
+    if (!data.suppliers) {
+      return null;
+    }
+    return this.supplierUseCases.validateItemSuppliers(data.suppliers, existingItem);
+  }
+
+  private validateLotControl(data: Partial<InventoryItem>, existingItem?: InventoryItem): void {
+    const isLotControlled = data.isLotControlled ?? existingItem?.isLotControlled;
+    const type = data.type || existingItem?.type;
+    if (isLotControlled && type !== InventoryType.MATERIAL) {
+      throw new Error('Only materials can be lot controlled');
+    }
+    if (data.lotPickingPolicy && !Object.values(LotPickingPolicy).includes(data.lotPickingPolicy)) {
+      throw new Error('Invalid lot picking policy');
+    }
+  }
+
+  private async validateComponents(componentLines: ComponentLine[], parentId?: string): Promise<void> {
+    const seen = new Set<string>();
+
+    for (const line of componentLines) {
+      if (seen.has(line.componentId)) {
+        throw new Error(`Component with ID ${line.componentId} is listed more than once`);
+      }
+      seen.add(line.componentId);
+
+      if (!(line.quantity > 0)) {
+        throw new Error(`Quantity for component ${line.componentId} must be greater than 0`);
+      }
+
+      const component = await this.inventoryRepository.findById(line.componentId);
       if (!component) {
-        throw new Error(`Component with ID ${componentId} not found`);
+        throw new Error(`Component with ID ${line.componentId} not found`);
       }
       if (component.type !== InventoryType.COMPONENT) {
         throw new Error(`Item ${component.name} is not a component`);
@@ -143,6 +366,27 @@ export class InventoryUseCases {
       if (component.status !== InventoryStatus.ACTIVE) {
         throw new Error(`Component ${component.name} is not active`);
       }
+
+      if (parentId && (component.id === parentId || await this.containsComponent(component, parentId))) {
+        throw new Error(`Circular reference: ${component.name} already contains this item`);
+      }
     }
   }
-}
\ No newline at end of file
+
+  // Recorre en profundidad la estructura de un componente buscando targetId
+  private async containsComponent(item: InventoryItem, targetId: string, visited = new Set<string>()): Promise<boolean> {
+    if (visited.has(item.id)) return false;
+    visited.add(item.id);
+
+    for (const line of getComponentLines(item)) {
+      if (line.componentId === targetId) return true;
+
+      const child = await this.inventoryRepository.findById(line.componentId);
+      if (child && await this.containsComponent(child, targetId, visited)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
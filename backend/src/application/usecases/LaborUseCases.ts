@@ -0,0 +1,210 @@
+import {
+  LaborEntry,
+  LaborReport,
+  LaborSummaryLine,
+  LaborReconciliationLine,
+  getLaborMinutes
+} from '../../domain/entities/LaborEntry';
+import { ProductionCardStatus } from '../../domain/entities/ProductionCard';
+import { AuthenticatedUser } from '../../domain/entities/User';
+import { WorkingCalendar } from '../../domain/entities/FactoryCalendar';
+import { LaborEntryRepository, LaborEntryFilters } from '../../infrastructure/repositories/MongoLaborEntryRepository';
+import { ProductionCardUseCases } from './ProductionCardUseCases';
+import { FactoryCalendarUseCases } from './FactoryCalendarUseCases';
+
+export interface ClockOnRequest {
+  cardId: string;
+  componentId?: string;
+  notes?: string;
+}
+
+export interface LaborReportFilters {
+  from?: Date;
+  to?: Date;
+  orderId?: string;
+  userId?: string;
+  cardId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toHours = (minutes: number): number => Math.round((minutes / 60) * 100) / 100;
+
+export class LaborUseCases {
+  constructor(
+    private laborEntryRepository: LaborEntryRepository,
+    private productionCardUseCases: ProductionCardUseCases,
+    private factoryCalendarUseCases: FactoryCalendarUseCases
+  ) {}
+
+  // Un operario solo puede estar fichado en un trabajo a la vez; una tarjeta admite varios operarios
+  async clockOn(user: AuthenticatedUser, request: ClockOnRequest): Promise<LaborEntry> {
+    if (!request.cardId) {
+      throw new Error('La tarjeta es requerida');
+    }
+
+    const [openEntry] = await this.laborEntryRepository.findAll({ userId: user.id, isOpen: true });
+    if (openEntry) {
+      throw new Error(`Ya tiene un fichaje abierto en ${openEntry.cardLabel}${openEntry.componentName ? ` - ${openEntry.componentName}` : ''}`);
+    }
+
+    const card = await this.productionCardUseCases.getCardById(request.cardId);
+    if (card.status !== ProductionCardStatus.IN_PROGRESS) {
+      throw new Error('Solo se puede fichar en tarjetas en progreso');
+    }
+
+    let componentName: string | undefined;
+    if (request.componentId) {
+      const component = card.components.find(c => c.componentId === request.componentId);
+      if (!component) {
+        throw new Error('Componente no encontrado en esta tarjeta');
+      }
+      if (component.isCompleted) {
+        throw new Error('No se puede fichar en un componente ya completado');
+      }
+      componentName = component.componentName;
+    }
+
+    return this.laborEntryRepository.create({
+      userId: user.id,
+      username: user.username,
+      userName: user.name,
+      cardId: card.id,
+      orderId: card.orderId,
+      orderName: card.orderName,
+      cardLabel: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+      componentId: request.componentId,
+      componentName,
+      startTime: new Date(),
+      minutes: 0,
+      notes: request.notes?.trim() || undefined
+    });
+  }
+
+  // Cierra el fichaje abierto del usuario (opcionalmente comprobando la tarjeta)
+  async clockOff(user: AuthenticatedUser, cardId?: string): Promise<LaborEntry> {
+    const [openEntry] = await this.laborEntryRepository.findAll({ userId: user.id, isOpen: true });
+    if (!openEntry || (cardId && openEntry.cardId !== cardId)) {
+      throw new Error('No tiene un fichaje abierto en esta tarjeta');
+    }
+
+    const closedEntry = await this.laborEntryRepository.close(openEntry.id, new Date());
+    if (!closedEntry) {
+      throw new Error('Error al cerrar el fichaje');
+    }
+    return closedEntry;
+  }
+
+  async getActiveEntries(filters: { cardId?: string; userId?: string } = {}): Promise<LaborEntry[]> {
+    return this.laborEntryRepository.findAll({ ...filters, isOpen: true });
+  }
+
+  async getEntries(filters?: LaborEntryFilters): Promise<LaborEntry[]> {
+    return this.laborEntryRepository.findAll(filters);
+  }
+
+  // Horas por orden, por operario y por día, y comparación con el cronómetro de cada tarjeta
+  async getLaborReport(filters: LaborReportFilters = {}): Promise<LaborReport> {
+    if (filters.from && filters.to && filters.to <= filters.from) {
+      throw new Error('La fecha final debe ser posterior a la inicial');
+    }
+
+    const now = new Date();
+    const entries = await this.laborEntryRepository.findAll(filters);
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+
+    const byOrder = new Map<string, LaborSummaryLine>();
+    const byOperator = new Map<string, LaborSummaryLine>();
+    const byDay = new Map<string, LaborSummaryLine>();
+    const byCard = new Map<string, LaborEntry[]>();
+
+    const add = (map: Map<string, LaborSummaryLine>, key: string, label: string, minutes: number) => {
+      const line = map.get(key) || { key, label, minutes: 0, hours: 0, entries: 0 };
+      line.minutes += minutes;
+      line.entries += 1;
+      map.set(key, line);
+    };
+
+    let totalMinutes = 0;
+    for (const entry of entries) {
+      const slices = this.splitByDay(entry, filters.from, filters.to || now, now, calendar);
+      const minutes = slices.reduce((total, slice) => total + slice.minutes, 0);
+
+      totalMinutes += minutes;
+      add(byOrder, entry.orderId, entry.orderName, minutes);
+      add(byOperator, entry.userId, `${entry.userName} (${entry.username})`, minutes);
+      slices.forEach(slice => add(byDay, slice.day, slice.day, slice.minutes));
+
+      byCard.set(entry.cardId, [...(byCard.get(entry.cardId) || []), entry]);
+    }
+
+    const finalize = (map: Map<string, LaborSummaryLine>) =>
+      Array.from(map.values()).map(line => ({ ...line, minutes: Math.round(line.minutes), hours: toHours(line.minutes) }));
+
+    return {
+      from: filters.from,
+      to: filters.to,
+      generatedAt: now,
+      totalMinutes: Math.round(totalMinutes),
+      totalHours: toHours(totalMinutes),
+      entries: entries.length,
+      openEntries: entries.filter(entry => !entry.endTime).length,
+      byOrder: finalize(byOrder).sort((a, b) => b.minutes - a.minutes),
+      byOperator: finalize(byOperator).sort((a, b) => b.minutes - a.minutes),
+      byDay: finalize(byDay).sort((a, b) => a.key.localeCompare(b.key)),
+      reconciliation: await this.reconcile(byCard, now)
+    };
+  }
+
+  // Tiempo total fichado en cada tarjeta frente a getCurrentProductionTime (sin recortar al periodo)
+  private async reconcile(byCard: Map<string, LaborEntry[]>, now: Date): Promise<LaborReconciliationLine[]> {
+    const lines: LaborReconciliationLine[] = [];
+
+    for (const [cardId, periodEntries] of byCard) {
+      const card = await this.productionCardUseCases.getCardById(cardId).catch(() => null);
+      const cardEntries = await this.laborEntryRepository.findAll({ cardId });
+      const laborMinutes = Math.round(cardEntries.reduce((total, entry) => total + getLaborMinutes(entry, now), 0));
+      const productionMinutes = card ? await this.productionCardUseCases.getCurrentProductionTime(cardId) : 0;
+
+      lines.push({
+        cardId,
+        cardLabel: periodEntries[0].cardLabel,
+        orderId: periodEntries[0].orderId,
+        status: card ? card.status : 'deleted',
+        laborMinutes,
+        productionMinutes,
+        differenceMinutes: laborMinutes - productionMinutes,
+        averageCrew: productionMinutes > 0 ? Math.round((laborMinutes / productionMinutes) * 100) / 100 : 0,
+        operators: new Set(cardEntries.map(entry => entry.userId)).size,
+        openEntries: cardEntries.filter(entry => !entry.endTime).length
+      });
+    }
+
+    return lines.sort((a, b) => a.cardLabel.localeCompare(b.cardLabel));
+  }
+
+  // Reparte un fichaje entre los días de la planta que abarca, recortado al periodo consultado
+  private splitByDay(
+    entry: LaborEntry,
+    from: Date | undefined,
+    to: Date,
+    now: Date,
+    calendar: WorkingCalendar
+  ): Array<{ day: string; minutes: number }> {
+    const start = from && entry.startTime < from ? from : entry.startTime;
+    const entryEnd = entry.endTime || now;
+    const end = entryEnd > to ? to : entryEnd;
+    const slices: Array<{ day: string; minutes: number }> = [];
+
+    let cursor = start;
+    while (cursor < end) {
+      const day = calendar.getPlantDay(cursor);
+      const nextDay = calendar.getPlantDayStart(new Date(day.getTime() + DAY_MS));
+      const sliceEnd = nextDay < end ? nextDay : end;
+      slices.push({ day: day.toISOString().slice(0, 10), minutes: (sliceEnd.getTime() - cursor.getTime()) / (60 * 1000) });
+      cursor = sliceEnd;
+    }
+
+    return slices;
+  }
+}
@@ -1,20 +1,33 @@
-import { ManufacturingOrder, ManufacturingOrderStatus, ComponentProgress } from '../../domain/entities/ManufacturingOrder';
+import { ManufacturingOrder, ManufacturingOrderStatus, ComponentProgress, getOrderRemainingWorkMinutes } from '../../domain/entities/ManufacturingOrder';
+import { getComponentLines, InventoryType } from '../../domain/entities/InventoryItem';
 import { ManufacturingOrderRepository, ManufacturingOrderFilters } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
 import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
 import { ProductionCardUseCases, CreateProductionCardRequest } from './ProductionCardUseCases';
-import { ProductionCard } from '../../domain/entities/ProductionCard';
+import { ProductionCard, ProductionCardStatus } from '../../domain/entities/ProductionCard';
+import { MaterialRequirementsUseCases, AvailabilityCheckRequest } from './MaterialRequirementsUseCases';
+import { AvailabilityReport } from '../../domain/entities/MaterialRequirement';
+import { StockReservationUseCases } from './StockReservationUseCases';
+import { StockReservation, ReservationTrigger } from '../../domain/entities/StockReservation';
+import { BomRevisionUseCases } from './BomRevisionUseCases';
+import { FactoryCalendarUseCases } from './FactoryCalendarUseCases';
+import { DowntimeUseCases, PauseRequest } from './DowntimeUseCases';
+import { CustomerUseCases } from './CustomerUseCases';
 
 export interface CreateManufacturingOrderRequest {
   modelId: string;
   quantity: number;
-  clientName: string;
+  clientName?: string; // sin cliente registrado (p. ej. órdenes para stock)
+  customerId?: string; // el nombre de la orden pasa a ser el del cliente
+  salesOrderId?: string;
   dueDate: Date;
   notes?: string;
   componentIds?: string[];
+  blockOnShortage?: boolean; // rechazar la orden si faltan materiales
 }
 
 export interface UpdateManufacturingOrderRequest {
   clientName?: string;
+  customerId?: string;
   dueDate?: Date;
   notes?: string;
   quantity?: number;
@@ -24,9 +37,19 @@ export class ManufacturingOrderUseCases {
   constructor(
     private manufacturingOrderRepository: ManufacturingOrderRepository,
     private inventoryRepository: IInventoryRepository,
-    private productionCardUseCases: ProductionCardUseCases
+    private productionCardUseCases: ProductionCardUseCases,
+    private materialRequirementsUseCases: MaterialRequirementsUseCases,
+    private stockReservationUseCases: StockReservationUseCases,
+    private bomRevisionUseCases: BomRevisionUseCases,
+    private factoryCalendarUseCases: FactoryCalendarUseCases,
+    private downtimeUseCases: DowntimeUseCases,
+    private customerUseCases: CustomerUseCases
   ) {}
 
+  async checkAvailability(request: AvailabilityCheckRequest): Promise<AvailabilityReport> {
+    return this.materialRequirementsUseCases.checkAvailability(request);
+  }
+
   async createManufacturingOrder(request: CreateManufacturingOrderRequest): Promise<{ order: ManufacturingOrder, cards: ProductionCard[] }> {
     // Validar que el modelo existe y se puede fabricar
     const model = await this.inventoryRepository.findById(request.modelId);
@@ -38,44 +61,56 @@ export class ManufacturingOrderUseCases {
       throw new Error('Este modelo no se puede fabricar');
     }
 
-    if (model.type !== 'model') {
-      throw new Error('Solo se pueden crear órdenes de fabricación para modelos');
-    }
-
-    // Crear componentes por defecto (si no se especifican)
-    let components: ComponentProgress[] = [];
-
-    if (request.componentIds && request.componentIds.length > 0) {
-      // Obtener información de los componentes especificados
-      for (const componentId of request.componentIds) {
-        const component = await this.inventoryRepository.findById(componentId);
-        if (component) {
-          components.push({
-            componentId: component.id,
-            componentName: component.name,
-            componentSku: component.sku,
-            quantityRequired: 1, // Por defecto 1, se puede ajustar después
-            quantityCompleted: 0,
-            isCompleted: false,
-            materialUsage: [] // Inicializar vacío
-          });
-        }
+    // Los componentes también se fabrican para stock (órdenes firmadas desde el MRP)
+    if (model.type === InventoryType.MATERIAL) {
+      throw new Error('Solo se pueden crear órdenes de fabricación para modelos y componentes');
+    }
+
+    const customer = request.customerId ? await this.customerUseCases.getActiveCustomer(request.customerId) : undefined;
+    const clientName = (customer ? customer.name : request.clientName || '').trim();
+    if (!clientName) {
+      throw new Error('El cliente es requerido');
+    }
+
+    if (request.blockOnShortage) {
+      const availability = await this.checkAvailability(request);
+      if (availability.hasShortages) {
+        const detail = availability.shortages
+          .map(s => `${s.materialName} (faltan ${s.shortage} ${s.unit})`)
+          .join(', ');
+        throw new Error(`Stock insuficiente para la orden: ${detail}`);
       }
-    } else if (model.components && model.components.length > 0) {
-      // Usar componentes predefinidos del modelo
-      for (const componentId of model.components) {
-        const component = await this.inventoryRepository.findById(componentId);
-        if (component) {
-          components.push({
-            componentId: component.id,
-            componentName: component.name,
-            componentSku: component.sku,
-            quantityRequired: 1,
-            quantityCompleted: 0,
-            isCompleted: false,
-            materialUsage: [] // Inicializar vacío
-          });
-        }
+    }
+
+    // La orden queda ligada a la revisión vigente de la estructura del modelo, de modo que
+    // los cambios posteriores de ingeniería no alteran la receta con la que se fabricó
+    const modelRevision = await this.bomRevisionUseCases.ensureCurrentRevision(model);
+
+    // Componentes de la orden: los especificados o, por defecto, los del modelo.
+    // La cantidad por unidad sale de la estructura del modelo (1 si no la define).
+    const modelLines = modelRevision ? modelRevision.componentLines : getComponentLines(model);
+    const componentLines = request.componentIds && request.componentIds.length > 0
+      ? request.componentIds.map(componentId => ({
+          componentId,
+          quantity: modelLines.find(line => line.componentId === componentId)?.quantity || 1
+        }))
+      : modelLines;
+
+    const components: ComponentProgress[] = [];
+    for (const line of componentLines) {
+      const component = await this.inventoryRepository.findById(line.componentId);
+      if (component) {
+        const componentRevision = await this.bomRevisionUseCases.ensureCurrentRevision(component);
+        components.push({
+          componentId: component.id,
+          componentName: component.name,
+          componentSku: component.sku,
+          bomRevisionId: componentRevision?.id,
+          quantityRequired: line.quantity, // por cada unidad (tarjeta)
+          quantityCompleted: 0,
+          isCompleted: false,
+          materialUsage: [] // Inicializar vacío
+        });
       }
     }
 
@@ -85,11 +120,14 @@ export class ManufacturingOrderUseCases {
       modelName: model.name,
       modelSku: model.sku,
       quantity: request.quantity, // Cantidad total solicitada
-      clientName: request.clientName.trim(),
+      clientName,
+      customerId: customer?.id,
+      salesOrderId: request.salesOrderId,
       dueDate: request.dueDate,
       createdDate: new Date(),
       status: ManufacturingOrderStatus.PENDING,
       components,
+      bomRevisionId: modelRevision?.id,
       notes: request.notes?.trim(),
       estimatedHours: (model.estimatedManufacturingTime || 1) * request.quantity
     };
@@ -102,7 +140,7 @@ export class ManufacturingOrderUseCases {
     for (let i = 1; i <= request.quantity; i++) {
       cardRequests.push({
         orderId: order.id,
-        orderName: request.clientName.trim(),
+        orderName: clientName,
         cardNumber: i,
         totalCards: request.quantity,
         modelId: model.id,
@@ -110,6 +148,7 @@ export class ManufacturingOrderUseCases {
         modelSku: model.sku,
         dueDate: request.dueDate,
         components: JSON.parse(JSON.stringify(components)), // Clonar componentes para cada tarjeta
+        bomRevisionId: order.bomRevisionId,
         notes: request.notes?.trim(),
         estimatedHours: model.estimatedManufacturingTime || 1
       });
@@ -117,11 +156,16 @@ export class ManufacturingOrderUseCases {
 
     const productionCards: ProductionCard[] = await this.productionCardUseCases.createMultipleProductionCards(cardRequests);
 
+    if (this.stockReservationUseCases.shouldReserveOn(ReservationTrigger.ORDER_CREATED)) {
+      await this.stockReservationUseCases.reserveForOrder(order.id);
+    }
+
     return { order, cards: productionCards };
   }
 
   async getAllOrders(filters?: ManufacturingOrderFilters): Promise<ManufacturingOrder[]> {
-    return this.manufacturingOrderRepository.findAll(filters);
+    const orders = await this.manufacturingOrderRepository.findAll(filters);
+    return this.withDueStatus(filters?.overdue ? await this.filterPastDue(orders) : orders);
   }
 
   async getOrderById(id: string): Promise<ManufacturingOrder> {
@@ -143,7 +187,11 @@ export class ManufacturingOrderUseCases {
       throw new Error('No se puede actualizar una orden cancelada');
     }
 
-    const updatedOrder = await this.manufacturingOrderRepository.update(id, updates);
+    const customer = updates.customerId ? await this.customerUseCases.getActiveCustomer(updates.customerId) : undefined;
+    const updatedOrder = await this.manufacturingOrderRepository.update(id, {
+      ...updates,
+      ...(customer && { clientName: customer.name })
+    });
     if (!updatedOrder) {
       throw new Error('Error al actualizar la orden');
     }
@@ -163,17 +211,22 @@ export class ManufacturingOrderUseCases {
       throw new Error('Error al iniciar la producción');
     }
 
+    if (this.stockReservationUseCases.shouldReserveOn(ReservationTrigger.ORDER_STARTED)) {
+      await this.stockReservationUseCases.reserveForOrder(id);
+    }
+
     return updatedOrder;
   }
 
-  async pauseProduction(id: string): Promise<ManufacturingOrder> {
+  async pauseProduction(id: string, request: PauseRequest, pausedBy?: string): Promise<ManufacturingOrder> {
     const order = await this.getOrderById(id);
 
     if (order.status !== ManufacturingOrderStatus.IN_PROGRESS) {
       throw new Error('Solo se pueden pausar órdenes en progreso');
     }
 
-    const updatedOrder = await this.manufacturingOrderRepository.pauseProduction(id);
+    const pause = await this.downtimeUseCases.resolvePause(request, pausedBy);
+    const updatedOrder = await this.manufacturingOrderRepository.pauseProduction(id, pause);
     if (!updatedOrder) {
       throw new Error('Error al pausar la producción');
     }
@@ -216,6 +269,16 @@ export class ManufacturingOrderUseCases {
       throw new Error('Este componente ya está completado');
     }
 
+    // El stock se mueve en las tarjetas (backflush por componente); la orden solo refleja su avance
+    const activeCards = (await this.productionCardUseCases.getCardsByOrder(orderId))
+      .filter(card => card.status !== ProductionCardStatus.CANCELLED);
+    const pendingCards = activeCards.filter(card =>
+      !card.components.some(c => c.componentId === componentId && c.isCompleted)
+    );
+    if (pendingCards.length > 0) {
+      throw new Error(`No se puede marcar el componente: faltan ${pendingCards.length} tarjeta(s) por completarlo`);
+    }
+
     const updatedOrder = await this.manufacturingOrderRepository.completeComponent(orderId, componentId);
     if (!updatedOrder) {
       throw new Error('Error al marcar el componente como completado');
@@ -237,24 +300,22 @@ export class ManufacturingOrderUseCases {
       throw new Error('No se puede completar la orden: faltan componentes por fabricar');
     }
 
+    // Cada tarjeta completada ya dio entrada a su unidad del modelo y consumió sus componentes
+    const cards = await this.productionCardUseCases.getCardsByOrder(id);
+    const pendingCards = cards.filter(card =>
+      card.status !== ProductionCardStatus.COMPLETED && card.status !== ProductionCardStatus.CANCELLED
+    );
+    if (pendingCards.length > 0) {
+      throw new Error(`No se puede completar la orden: faltan ${pendingCards.length} tarjeta(s) por terminar`);
+    }
+
     const updatedOrder = await this.manufacturingOrderRepository.completeOrder(id);
     if (!updatedOrder) {
       throw new Error('Error al completar la orden');
     }
 
-    // Actualizar inventario del modelo fabricado
-    try {
-      const currentModel = await this.inventoryRepository.findById(order.modelId);
-      if (currentModel) {
-        await this.inventoryRepository.updateQuantity(
-          order.modelId,
-          currentModel.quantity + order.quantity
-        );
-      }
-    } catch (error) {
-      console.error('Error al actualizar inventario del modelo:', error);
-      // No fallar la operación principal si el inventario no se puede actualizar
-    }
+    // Lo que no se consumió ya no está comprometido
+    await this.stockReservationUseCases.releaseForOrder(id);
 
     return updatedOrder;
   }
@@ -270,11 +331,17 @@ export class ManufacturingOrderUseCases {
       throw new Error('Esta orden ya está cancelada');
     }
 
+    // Las tarjetas abiertas se cancelan y devuelven al stock lo que ya consumieron sus componentes;
+    // las completadas conservan su unidad fabricada
+    await this.cancelOpenCards(id);
+
     const updatedOrder = await this.manufacturingOrderRepository.cancelOrder(id);
     if (!updatedOrder) {
       throw new Error('Error al cancelar la orden');
     }
 
+    await this.stockReservationUseCases.releaseForOrder(id);
+
     return updatedOrder;
   }
 
@@ -285,15 +352,38 @@ export class ManufacturingOrderUseCases {
       throw new Error('No se puede eliminar una orden en progreso');
     }
 
-    // Primero eliminar todas las tarjetas de producción asociadas
+    // Los movimientos de las unidades ya fabricadas quedarían sin su orden
+    const cards = await this.productionCardUseCases.getCardsByOrder(id);
+    if (cards.some(card => card.status === ProductionCardStatus.COMPLETED)) {
+      throw new Error('No se puede eliminar una orden con tarjetas completadas; cancélela en su lugar');
+    }
+
+    // Primero revertir lo consumido por las tarjetas abiertas, liberar las reservas y eliminar
+    // todas las tarjetas de producción asociadas
+    await this.cancelOpenCards(id);
+    await this.stockReservationUseCases.releaseForOrder(id);
     await this.productionCardUseCases.deleteCardsByOrderId(id);
 
     // Luego eliminar la orden de fabricación
     return this.manufacturingOrderRepository.delete(id);
   }
 
+  private async cancelOpenCards(orderId: string): Promise<void> {
+    const cards = await this.productionCardUseCases.getCardsByOrder(orderId);
+    for (const card of cards) {
+      if (card.status !== ProductionCardStatus.COMPLETED && card.status !== ProductionCardStatus.CANCELLED) {
+        await this.productionCardUseCases.cancelCard(card.id);
+      }
+    }
+  }
+
+  async getOrderReservations(id: string): Promise<StockReservation[]> {
+    await this.getOrderById(id);
+    return this.stockReservationUseCases.getOrderReservations(id);
+  }
+
   async getActiveOrders(): Promise<ManufacturingOrder[]> {
-    return this.manufacturingOrderRepository.getActiveOrders();
+    return this.withDueStatus(await this.manufacturingOrderRepository.getActiveOrders());
   }
 
   async getOrdersByStatus(status: ManufacturingOrderStatus): Promise<ManufacturingOrder[]> {
@@ -301,7 +391,29 @@ export class ManufacturingOrderUseCases {
   }
 
   async getOverdueOrders(): Promise<ManufacturingOrder[]> {
-    return this.manufacturingOrderRepository.getOverdueOrders();
+    const candidates = await this.manufacturingOrderRepository.getOverdueOrders();
+    return this.withDueStatus(await this.filterPastDue(candidates));
+  }
+
+  // La consulta de vencidas compara con la hora actual; el calendario descarta las que aún tienen jornada ese día
+  private async filterPastDue(orders: ManufacturingOrder[]): Promise<ManufacturingOrder[]> {
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+    return orders.filter(order => calendar.isPastDue(new Date(order.dueDate)));
+  }
+
+  // Horas laborables hasta la fecha límite y riesgo de retraso según el calendario de fábrica
+  private async withDueStatus(orders: ManufacturingOrder[]): Promise<ManufacturingOrder[]> {
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+    const now = new Date();
+
+    return orders.map(order => {
+      if (order.status === ManufacturingOrderStatus.COMPLETED || order.status === ManufacturingOrderStatus.CANCELLED) {
+        return order;
+      }
+
+      const dueStatus = calendar.getDueStatus(new Date(order.dueDate), getOrderRemainingWorkMinutes(order), now);
+      return { ...order, remainingWorkingHours: dueStatus.remainingWorkingHours, overdueRisk: dueStatus.overdueRisk };
+    });
   }
 
   async getManufacturingStats(): Promise<any> {
@@ -351,7 +463,7 @@ export class ManufacturingOrderUseCases {
     return updatedOrder;
   }
 
-  async pauseComponentProduction(orderId: string, componentId: string): Promise<ManufacturingOrder> {
+  async pauseComponentProduction(orderId: string, componentId: string, request: PauseRequest, pausedBy?: string): Promise<ManufacturingOrder> {
     const order = await this.getOrderById(orderId);
 
     const component = order.components.find(c => c.componentId === componentId);
@@ -363,7 +475,8 @@ export class ManufacturingOrderUseCases {
       throw new Error('El cronómetro del componente ya está pausado');
     }
 
-    const updatedOrder = await this.manufacturingOrderRepository.pauseComponentProduction(orderId, componentId);
+    const pause = await this.downtimeUseCases.resolvePause(request, pausedBy);
+    const updatedOrder = await this.manufacturingOrderRepository.pauseComponentProduction(orderId, componentId, pause);
     if (!updatedOrder) {
       throw new Error('Error al pausar el cronómetro del componente');
     }
@@ -396,7 +509,7 @@ export class ManufacturingOrderUseCases {
   }
 
   // Métodos para manejo de materiales en componentes
-  async updateComponentMaterials(orderId: string, componentId: string, materials: Array<{ materialId: string; actualQuantity: number; notes?: string; adjustedBy?: string }>): Promise<ManufacturingOrder> {
+  async updateComponentMaterials(orderId: string, componentId: string, materials: Array<{ materialId: string; actualQuantity: number; notes?: string }>, adjustedBy?: string): Promise<ManufacturingOrder> {
     const order = await this.getOrderById(orderId);
 
     if (order.status !== ManufacturingOrderStatus.IN_PROGRESS && order.status !== ManufacturingOrderStatus.PAUSED) {
@@ -429,7 +542,7 @@ export class ManufacturingOrderUseCases {
           actualQuantity: materialData.actualQuantity,
           unit: material.unit || 'unidad',
           notes: materialData.notes,
-          adjustedBy: materialData.adjustedBy,
+          adjustedBy,
           adjustedAt: new Date()
         });
       }
@@ -0,0 +1,197 @@
+import { InventoryItem, BillOfMaterial, ComponentLine, getComponentLines } from '../../domain/entities/InventoryItem';
+import { MaterialRequirement, AvailabilityReport } from '../../domain/entities/MaterialRequirement';
+import { ComponentProgress, ManufacturingOrder } from '../../domain/entities/ManufacturingOrder';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { BomRevisionUseCases } from './BomRevisionUseCases';
+
+export interface AvailabilityCheckRequest {
+  modelId: string;
+  quantity: number;
+  componentIds?: string[];
+}
+
+// Lo que se fabrica en una orden o en una de sus tarjetas: el artículo (modelo o componente), la revisión
+// de su estructura y los componentes que se montan en la tarjeta. Sin revisión se usa la estructura actual.
+export interface ProductionStructure {
+  modelId: string;
+  bomRevisionId?: string;
+  components: Pick<ComponentProgress, 'componentId' | 'bomRevisionId' | 'quantityRequired'>[];
+}
+
+export interface ConsumptionLine {
+  itemId: string;
+  quantity: number;
+}
+
+// Consumo del stock por cada unidad del artículo fabricado, en el momento en que se contabiliza:
+// al completar cada componente (sus materiales y subcomponentes) y al completar la tarjeta
+// (los componentes ya fabricados y los materiales propios del artículo)
+export interface UnitExplosion {
+  itemName: string;
+  components: { componentId: string; componentName: string; lines: ConsumptionLine[] }[];
+  materials: ConsumptionLine[];
+}
+
+type RequirementTotals = Map<string, { quantity: number; usedBy: string[] }>;
+
+interface ItemStructure {
+  name: string;
+  billOfMaterials: BillOfMaterial[];
+  componentLines: ComponentLine[];
+}
+
+export class MaterialRequirementsUseCases {
+  constructor(
+    private inventoryRepository: IInventoryRepository,
+    private bomRevisionUseCases: BomRevisionUseCases
+  ) {}
+
+  // Explota los componentes del modelo y sus listas de materiales por la cantidad de la orden
+  // y compara contra el stock disponible de cada material. Es la misma explosión que reservan
+  // y consumen las órdenes, con la estructura actual (la que se congelará al crear la orden).
+  async checkAvailability(request: AvailabilityCheckRequest): Promise<AvailabilityReport> {
+    if (!request.quantity || request.quantity <= 0) {
+      throw new Error('La cantidad debe ser mayor a 0');
+    }
+
+    const model = await this.inventoryRepository.findById(request.modelId);
+    if (!model) {
+      throw new Error('Modelo no encontrado');
+    }
+
+    // Componentes directos con su cantidad por unidad del modelo (los indicados en la
+    // solicitud reemplazan a los del modelo, conservando su cantidad si la tenían)
+    const modelLines = getComponentLines(model);
+    const componentLines = request.componentIds && request.componentIds.length > 0
+      ? request.componentIds.map(componentId => ({
+          componentId,
+          quantity: modelLines.find(line => line.componentId === componentId)?.quantity || 1
+        }))
+      : modelLines;
+
+    const requirements = await this.explodeOrder({
+      modelId: model.id,
+      quantity: request.quantity,
+      components: componentLines.map(line => ({ componentId: line.componentId, quantityRequired: line.quantity }))
+    });
+    const shortages = requirements.filter(r => r.shortage > 0);
+
+    return {
+      modelId: model.id,
+      modelName: model.name,
+      modelSku: model.sku,
+      quantity: request.quantity,
+      requirements,
+      shortages,
+      hasShortages: shortages.length > 0,
+      checkedAt: new Date()
+    };
+  }
+
+  // Materiales y subcomponentes que consumirán los backflushes de una orden: todo lo que sale del
+  // stock salvo los componentes, que se fabrican en las propias tarjetas
+  async explodeOrder(order: ProductionStructure & Pick<ManufacturingOrder, 'quantity'>): Promise<MaterialRequirement[]> {
+    const explosion = await this.explodeUnit(order);
+    const totals: RequirementTotals = new Map();
+
+    for (const component of explosion.components) {
+      this.addLines(totals, component.lines, order.quantity, component.componentName);
+    }
+    this.addLines(totals, explosion.materials, order.quantity, explosion.itemName);
+
+    return this.buildRequirements(totals);
+  }
+
+  // Explosión de una unidad con las revisiones congeladas de la orden; la usan la comprobación de
+  // disponibilidad, las reservas y los backflushes, de modo que los tres coinciden
+  async explodeUnit(structure: ProductionStructure): Promise<UnitExplosion> {
+    const item = await this.getStructure(structure.modelId, structure.bomRevisionId);
+    const components: UnitExplosion['components'] = [];
+
+    for (const component of structure.components) {
+      const componentStructure = await this.getStructure(component.componentId, component.bomRevisionId);
+      if (!componentStructure) continue;
+      components.push({
+        componentId: component.componentId,
+        componentName: componentStructure.name,
+        lines: this.getConsumption(componentStructure, component.quantityRequired)
+      });
+    }
+
+    // Los componentes de la estructura del artículo son los de la tarjeta: solo se añaden sus materiales
+    return {
+      itemName: item?.name || '',
+      components,
+      materials: item ? this.getConsumption({ ...item, componentLines: [] }, 1) : []
+    };
+  }
+
+  // Estructura congelada en la revisión o, para órdenes anteriores a las revisiones, la actual
+  private async getStructure(itemId: string, bomRevisionId?: string): Promise<ItemStructure | null> {
+    if (bomRevisionId) {
+      const revision = await this.bomRevisionUseCases.getRevision(bomRevisionId);
+      return { name: revision.itemName, billOfMaterials: revision.billOfMaterials, componentLines: revision.componentLines };
+    }
+
+    const item = await this.inventoryRepository.findById(itemId);
+    return item
+      ? { name: item.name, billOfMaterials: item.billOfMaterials || [], componentLines: getComponentLines(item) }
+      : null;
+  }
+
+  // Materiales obligatorios y subcomponentes (que se toman del stock) para fabricar una cantidad
+  private getConsumption(structure: ItemStructure, quantity: number): ConsumptionLine[] {
+    const lines: ConsumptionLine[] = [];
+    for (const bom of structure.billOfMaterials) {
+      if (bom.isOptional || bom.requiredQuantity <= 0) continue;
+      lines.push({ itemId: bom.materialId, quantity: bom.requiredQuantity * quantity });
+    }
+    for (const subLine of structure.componentLines) {
+      lines.push({ itemId: subLine.componentId, quantity: subLine.quantity * quantity });
+    }
+    return lines;
+  }
+
+  private addLines(totals: RequirementTotals, lines: ConsumptionLine[], multiplier: number, usedBy: string): void {
+    for (const line of lines) {
+      const total = totals.get(line.itemId) || { quantity: 0, usedBy: [] };
+      total.quantity += line.quantity * multiplier;
+      if (!total.usedBy.includes(usedBy)) {
+        total.usedBy.push(usedBy);
+      }
+      totals.set(line.itemId, total);
+    }
+  }
+
+  private async buildRequirements(totals: RequirementTotals): Promise<MaterialRequirement[]> {
+    const requirements: MaterialRequirement[] = [];
+    for (const [materialId, total] of totals) {
+      const material = await this.inventoryRepository.findById(materialId);
+      if (!material) continue;
+      requirements.push(this.buildRequirement(material, total.quantity, total.usedBy));
+    }
+    return requirements;
+  }
+
+  private buildRequirement(material: InventoryItem, requiredQuantity: number, usedBy: string[]): MaterialRequirement {
+    const onHand = material.quantity;
+    const reserved = material.reserved || 0;
+    const available = onHand - reserved;
+    const shortage = Math.max(0, requiredQuantity - available);
+
+    return {
+      materialId: material.id,
+      materialName: material.name,
+      materialSku: material.sku,
+      unit: material.unit,
+      requiredQuantity,
+      onHand,
+      reserved,
+      available,
+      shortage,
+      // Comprar lo que falta más el stock mínimo, para no quedar bajo mínimo al consumir
+      suggestedPurchaseQuantity: shortage > 0 ? shortage + (material.minimumStock || 0) : 0,
+      usedBy
+    };
+  }
+}
@@ -0,0 +1,474 @@
+import { InventoryItem } from '../../domain/entities/InventoryItem';
+import { ManufacturingOrder, OPEN_MANUFACTURING_ORDER_STATUSES } from '../../domain/entities/ManufacturingOrder';
+import { getPendingOrderQuantity } from '../../domain/entities/ProductionCard';
+import {
+  MrpRun,
+  MrpItemPlan,
+  MrpPeriod,
+  PlannedOrder,
+  PlannedOrderStatus,
+  PlannedOrderType,
+  MRP_CLIENT_NAME,
+  getPlannedOrderType,
+  getReplenishmentQuantity,
+  getMakeLeadTimeDays
+} from '../../domain/entities/Mrp';
+import {
+  PurchaseOrder,
+  ON_ORDER_PURCHASE_ORDER_STATUSES,
+  formatPoNumber,
+  getOutstandingQuantity
+} from '../../domain/entities/PurchaseOrder';
+import { getPreferredSupplier } from '../../domain/entities/Supplier';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { MrpRunRepository } from '../../infrastructure/repositories/MongoMrpRunRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { MaterialRequirementsUseCases } from './MaterialRequirementsUseCases';
+import { StockReservationUseCases } from './StockReservationUseCases';
+import { SupplierUseCases } from './SupplierUseCases';
+import { PurchaseOrderUseCases, PurchaseOrderLineRequest } from './PurchaseOrderUseCases';
+import { ManufacturingOrderUseCases } from './ManufacturingOrderUseCases';
+import { FactoryCalendarUseCases } from './FactoryCalendarUseCases';
+
+export interface FirmPlannedOrderRequest {
+  number: number;
+  quantity?: number; // por defecto, la planificada
+  dueDate?: Date;
+  supplierId?: string; // compras: por defecto, el proveedor preferente
+}
+
+export interface FirmPlannedOrdersRequest {
+  plannedOrders: FirmPlannedOrderRequest[];
+}
+
+export interface FirmPlannedOrdersResult {
+  run: MrpRun;
+  purchaseOrders: PurchaseOrder[];
+  manufacturingOrders: ManufacturingOrder[];
+  errors: string[]; // grupos que no se pudieron firmar (sus órdenes siguen planificadas)
+}
+
+// Consumo (demand) o entrada prevista (receipt) de un artículo en una fecha
+interface MrpEvent {
+  date: Date;
+  demand: number;
+  receipt: number;
+  source?: string;
+}
+
+interface Requirement {
+  itemId: string;
+  quantity: number;
+}
+
+interface FirmSelection {
+  plannedOrder: PlannedOrder;
+  quantity: number;
+  dueDate: Date;
+  supplierId?: string;
+}
+
+export class MrpUseCases {
+  constructor(
+    private mrpRunRepository: MrpRunRepository,
+    private inventoryRepository: IInventoryRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private materialRequirementsUseCases: MaterialRequirementsUseCases,
+    private stockReservationUseCases: StockReservationUseCases,
+    private supplierUseCases: SupplierUseCases,
+    private purchaseOrderUseCases: PurchaseOrderUseCases,
+    private manufacturingOrderUseCases: ManufacturingOrderUseCases,
+    private factoryCalendarUseCases: FactoryCalendarUseCases
+  ) {}
+
+  // Calcula las necesidades netas día a día y las órdenes planificadas. Los artículos se
+  // procesan por nivel: las órdenes planificadas de los padres generan demanda en sus hijos.
+  // Los periodos son días a medianoche UTC, como las fechas límite; hoy es el día de la planta.
+  async runMrp(runBy?: string): Promise<MrpRun> {
+    const today = (await this.factoryCalendarUseCases.getWorkingCalendar()).getPlantDay(new Date());
+    const items = await this.inventoryRepository.findAll();
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const suppliers = new Map((await this.supplierUseCases.getSuppliers()).map(supplier => [supplier.id, supplier]));
+
+    // Consumo por unidad de lo que se fabrica: la misma explosión que usan las reservas de las órdenes
+    const unitRequirements = new Map<string, Requirement[]>();
+    for (const item of items) {
+      if (getPlannedOrderType(item) === PlannedOrderType.MAKE) {
+        unitRequirements.set(item.id, await this.explode(item.id, 1));
+      }
+    }
+    const lowLevelCodes = this.getLowLevelCodes(items, unitRequirements);
+
+    const events = new Map<string, MrpEvent[]>();
+    const addEvent = (itemId: string, event: MrpEvent) => {
+      if (!itemsById.has(itemId)) return;
+      events.set(itemId, [...(events.get(itemId) || []), event]);
+    };
+
+    // Órdenes de fabricación abiertas: lo que les queda por producir es una entrada prevista (las
+    // tarjetas completadas ya están en stock) y, mientras no reserven, sus materiales son demanda
+    // (lo reservado ya descuenta del disponible)
+    const orders = await this.manufacturingOrderRepository.findAll();
+    for (const order of orders.filter(entry => OPEN_MANUFACTURING_ORDER_STATUSES.includes(entry.status))) {
+      const model = itemsById.get(order.modelId);
+      if (!model) continue;
+      const pendingQuantity = getPendingOrderQuantity(order.quantity, await this.productionCardRepository.findByOrderId(order.id));
+      if (pendingQuantity <= 0) continue;
+
+      const source = `Orden ${order.modelName} · ${order.clientName}`;
+      addEvent(order.modelId, { date: clampDate(order.dueDate, today), demand: 0, receipt: pendingQuantity, source });
+
+      const reservations = await this.stockReservationUseCases.getOrderReservations(order.id);
+      if (reservations.length > 0) continue;
+
+      // Los mismos componentes y revisiones que consumirán sus tarjetas
+      const startDate = clampDate(addDays(order.dueDate, -getMakeLeadTimeDays(model, pendingQuantity)), today);
+      const requirements = await this.materialRequirementsUseCases.explodeOrder({ ...order, quantity: pendingQuantity });
+      for (const requirement of requirements) {
+        addEvent(requirement.materialId, { date: startDate, demand: requirement.requiredQuantity, receipt: 0, source });
+      }
+    }
+
+    const purchaseOrders = await this.purchaseOrderUseCases.getPurchaseOrders({ status: ON_ORDER_PURCHASE_ORDER_STATUSES });
+    for (const purchaseOrder of purchaseOrders) {
+      for (const line of purchaseOrder.lines) {
+        const outstandingQuantity = getOutstandingQuantity(line);
+        if (outstandingQuantity <= 0) continue;
+        addEvent(line.itemId, {
+          date: clampDate(line.expectedDate || purchaseOrder.expectedDate || today, today),
+          demand: 0,
+          receipt: outstandingQuantity,
+          source: formatPoNumber(purchaseOrder.poNumber)
+        });
+      }
+    }
+
+    const plannedOrders: PlannedOrder[] = [];
+    const plans: MrpItemPlan[] = [];
+    const sortedItems = [...items].sort((a, b) =>
+      (lowLevelCodes.get(a.id) || 0) - (lowLevelCodes.get(b.id) || 0) || a.name.localeCompare(b.name));
+
+    for (const item of sortedItems) {
+      const type = getPlannedOrderType(item);
+      const supplierLine = type === PlannedOrderType.BUY ? getPreferredSupplier(item.suppliers) : undefined;
+      const supplier = supplierLine ? suppliers.get(supplierLine.supplierId) : undefined;
+      const minimumStock = item.minimumStock || 0;
+      const reserved = item.reserved || 0;
+      let projected = roundQuantity(item.quantity - reserved);
+
+      // Un periodo por día con movimientos; hoy siempre, para reponer lo que ya está bajo mínimo
+      const days = new Map<number, MrpEvent[]>([[today.getTime(), []]]);
+      for (const event of events.get(item.id) || []) {
+        const time = startOfDay(event.date).getTime();
+        days.set(time, [...(days.get(time) || []), event]);
+      }
+
+      const periods: MrpPeriod[] = [];
+      for (const [time, dayEvents] of Array.from(days.entries()).sort((a, b) => a[0] - b[0])) {
+        const date = new Date(time);
+        const grossRequirement = roundQuantity(dayEvents.reduce((sum, event) => sum + event.demand, 0));
+        const scheduledReceipts = roundQuantity(dayEvents.reduce((sum, event) => sum + event.receipt, 0));
+        projected = roundQuantity(projected + scheduledReceipts - grossRequirement);
+
+        let netRequirement = 0;
+        let plannedReceipts = 0;
+        if (projected < minimumStock) {
+          netRequirement = roundQuantity(minimumStock - projected);
+          const quantity = getReplenishmentQuantity(item, type, projected, supplierLine?.minimumOrderQuantity);
+          const leadTimeDays = type === PlannedOrderType.BUY
+            ? supplier?.leadTimeDays || 0
+            : getMakeLeadTimeDays(item, quantity);
+          const releaseDate = addDays(date, -leadTimeDays);
+          const sources = Array.from(new Set(dayEvents
+            .filter(event => event.demand > 0 && event.source)
+            .map(event => event.source as string)));
+
+          plannedOrders.push({
+            number: plannedOrders.length + 1,
+            type,
+            itemId: item.id,
+            itemName: item.name,
+            itemSku: item.sku,
+            unit: item.unit,
+            quantity,
+            releaseDate,
+            dueDate: date,
+            isLate: releaseDate < today,
+            supplierId: supplier?.id,
+            supplierName: supplier?.name,
+            sources: sources.length > 0 ? sources : ['Stock mínimo'],
+            status: PlannedOrderStatus.PLANNED
+          });
+          plannedReceipts = quantity;
+          projected = roundQuantity(projected + quantity);
+
+          if (type === PlannedOrderType.MAKE) {
+            const childDate = clampDate(releaseDate, today);
+            for (const requirement of unitRequirements.get(item.id) || []) {
+              addEvent(requirement.itemId, {
+                date: childDate,
+                demand: roundQuantity(requirement.quantity * quantity),
+                receipt: 0,
+                source: `${item.name} (planificada)`
+              });
+            }
+          }
+        }
+
+        periods.push({ date, grossRequirement, scheduledReceipts, plannedReceipts, projectedAvailable: projected, netRequirement });
+      }
+
+      if (periods.some(period => period.grossRequirement > 0 || period.scheduledReceipts > 0 || period.plannedReceipts > 0)) {
+        plans.push({
+          itemId: item.id,
+          itemName: item.name,
+          itemSku: item.sku,
+          unit: item.unit,
+          type: item.type,
+          lowLevelCode: lowLevelCodes.get(item.id) || 0,
+          onHand: item.quantity,
+          reserved,
+          minimumStock,
+          maximumStock: item.maximumStock || 0,
+          leadTimeDays: supplier?.leadTimeDays || 0,
+          periods
+        });
+      }
+    }
+
+    return this.mrpRunRepository.create({
+      runAt: new Date(),
+      runBy,
+      items: plans,
+      plannedOrders
+    });
+  }
+
+  async getLatestRun(): Promise<MrpRun | null> {
+    return this.mrpRunRepository.findLatest();
+  }
+
+  async getRunById(id: string): Promise<MrpRun> {
+    const run = await this.mrpRunRepository.findById(id);
+    if (!run) {
+      throw new Error('Ejecución del MRP no encontrada');
+    }
+    return run;
+  }
+
+  // Convierte órdenes planificadas en órdenes reales: las compras se agrupan en un borrador
+  // por proveedor y cada fabricación crea su orden de fabricación
+  async firmPlannedOrders(runId: string, request: FirmPlannedOrdersRequest, firmedBy?: string): Promise<FirmPlannedOrdersResult> {
+    const run = await this.getRunById(runId);
+    const latest = await this.mrpRunRepository.findLatest();
+    if (latest?.id !== run.id) {
+      throw new Error('Solo se pueden firmar órdenes de la última ejecución del MRP');
+    }
+
+    const selections = this.validateSelections(run, request?.plannedOrders || []);
+    const result: Omit<FirmPlannedOrdersResult, 'run'> = { purchaseOrders: [], manufacturingOrders: [], errors: [] };
+
+    const purchases = new Map<string, FirmSelection[]>();
+    for (const selection of selections.filter(entry => entry.plannedOrder.type === PlannedOrderType.BUY)) {
+      const supplierId = selection.supplierId as string;
+      purchases.set(supplierId, [...(purchases.get(supplierId) || []), selection]);
+    }
+
+    for (const [supplierId, group] of purchases) {
+      const claimed = await this.claim(run.id, group, result.errors);
+      if (claimed.length === 0) continue;
+
+      try {
+        // Un artículo solo puede aparecer una vez en la orden de compra
+        const lines = new Map<string, PurchaseOrderLineRequest>();
+        for (const selection of claimed) {
+          const line = lines.get(selection.plannedOrder.itemId);
+          if (line) {
+            line.quantity = roundQuantity(line.quantity + selection.quantity);
+            line.expectedDate = earliest(line.expectedDate, selection.dueDate);
+          } else {
+            lines.set(selection.plannedOrder.itemId, {
+              itemId: selection.plannedOrder.itemId,
+              quantity: selection.quantity,
+              expectedDate: selection.dueDate
+            });
+          }
+        }
+
+        const purchaseOrder = await this.purchaseOrderUseCases.createPurchaseOrder({
+          supplierId,
+          expectedDate: claimed.reduce<Date | undefined>((date, selection) => earliest(date, selection.dueDate), undefined),
+          notes: `Generada desde el MRP (órdenes planificadas ${claimed.map(s => s.plannedOrder.number).join(', ')})`,
+          lines: Array.from(lines.values())
+        }, firmedBy);
+
+        await this.markFirmed(run.id, claimed, purchaseOrder.id, formatPoNumber(purchaseOrder.poNumber), firmedBy);
+        result.purchaseOrders.push(purchaseOrder);
+      } catch (error: any) {
+        await this.releaseClaim(run.id, claimed);
+        result.errors.push(`${claimed[0].plannedOrder.supplierName || claimed[0].plannedOrder.itemName}: ${error.message}`);
+      }
+    }
+
+    for (const selection of selections.filter(entry => entry.plannedOrder.type === PlannedOrderType.MAKE)) {
+      const claimed = await this.claim(run.id, [selection], result.errors);
+      if (claimed.length === 0) continue;
+
+      try {
+        const { order } = await this.manufacturingOrderUseCases.createManufacturingOrder({
+          modelId: selection.plannedOrder.itemId,
+          quantity: selection.quantity,
+          clientName: MRP_CLIENT_NAME,
+          dueDate: selection.dueDate,
+          notes: `Generada desde el MRP (orden planificada ${selection.plannedOrder.number})`
+        });
+
+        await this.markFirmed(run.id, claimed, order.id, `OF ${order.modelName}`, firmedBy);
+        result.manufacturingOrders.push(order);
+      } catch (error: any) {
+        await this.releaseClaim(run.id, claimed);
+        result.errors.push(`${selection.plannedOrder.itemName}: ${error.message}`);
+      }
+    }
+
+    return { run: await this.getRunById(run.id), ...result };
+  }
+
+  private validateSelections(run: MrpRun, requests: FirmPlannedOrderRequest[]): FirmSelection[] {
+    if (requests.length === 0) {
+      throw new Error('Selecciona al menos una orden planificada');
+    }
+
+    const seen = new Set<number>();
+    return requests.map(line => {
+      const number = Number(line.number);
+      if (seen.has(number)) {
+        throw new Error('Una orden planificada solo puede aparecer una vez');
+      }
+      seen.add(number);
+
+      const plannedOrder = run.plannedOrders.find(order => order.number === number);
+      if (!plannedOrder) {
+        throw new Error(`Orden planificada ${line.number} no encontrada`);
+      }
+      if (plannedOrder.status !== PlannedOrderStatus.PLANNED) {
+        throw new Error(`La orden planificada ${number} ya está firmada`);
+      }
+
+      const quantity = line.quantity !== undefined && line.quantity !== null ? Number(line.quantity) : plannedOrder.quantity;
+      if (!(quantity > 0)) {
+        throw new Error(`La cantidad de ${plannedOrder.itemName} debe ser mayor que 0`);
+      }
+      if (plannedOrder.type === PlannedOrderType.MAKE && !Number.isInteger(quantity)) {
+        throw new Error(`La fabricación de ${plannedOrder.itemName} debe ser de unidades enteras`);
+      }
+
+      const supplierId = line.supplierId || plannedOrder.supplierId;
+      if (plannedOrder.type === PlannedOrderType.BUY && !supplierId) {
+        throw new Error(`${plannedOrder.itemName} no tiene proveedor: indica uno para firmar la compra`);
+      }
+
+      const dueDate = line.dueDate ? new Date(line.dueDate) : plannedOrder.dueDate;
+      if (Number.isNaN(dueDate.getTime())) {
+        throw new Error(`La fecha de ${plannedOrder.itemName} no es válida`);
+      }
+
+      return { plannedOrder, quantity, dueDate, supplierId };
+    });
+  }
+
+  // Marca las órdenes como firmadas antes de crear la orden real para que dos planificadores
+  // no firmen la misma; las que ya estaban firmadas se descartan
+  private async claim(runId: string, selections: FirmSelection[], errors: string[]): Promise<FirmSelection[]> {
+    const claimed: FirmSelection[] = [];
+    for (const selection of selections) {
+      const run = await this.mrpRunRepository.updatePlannedOrderIfStatus(
+        runId,
+        selection.plannedOrder.number,
+        PlannedOrderStatus.PLANNED,
+        { status: PlannedOrderStatus.FIRMED }
+      );
+      if (run) {
+        claimed.push(selection);
+      } else {
+        errors.push(`La orden planificada ${selection.plannedOrder.number} ya está firmada`);
+      }
+    }
+    return claimed;
+  }
+
+  private async markFirmed(
+    runId: string,
+    selections: FirmSelection[],
+    referenceId: string,
+    reference: string,
+    firmedBy?: string
+  ): Promise<void> {
+    for (const selection of selections) {
+      await this.mrpRunRepository.updatePlannedOrderIfStatus(runId, selection.plannedOrder.number, PlannedOrderStatus.FIRMED, {
+        quantity: selection.quantity,
+        dueDate: selection.dueDate,
+        firmedAt: new Date(),
+        firmedBy,
+        firmedReferenceId: referenceId,
+        firmedReference: reference
+      });
+    }
+  }
+
+  private async releaseClaim(runId: string, selections: FirmSelection[]): Promise<void> {
+    for (const selection of selections) {
+      await this.mrpRunRepository.updatePlannedOrderIfStatus(runId, selection.plannedOrder.number, PlannedOrderStatus.FIRMED, {
+        status: PlannedOrderStatus.PLANNED
+      });
+    }
+  }
+
+  private async explode(itemId: string, quantity: number): Promise<Requirement[]> {
+    const report = await this.materialRequirementsUseCases.checkAvailability({ modelId: itemId, quantity });
+    return report.requirements.map(requirement => ({ itemId: requirement.materialId, quantity: requirement.requiredQuantity }));
+  }
+
+  // Nivel más bajo de cada artículo en las estructuras, para planificar los padres antes que los hijos
+  private getLowLevelCodes(items: InventoryItem[], unitRequirements: Map<string, Requirement[]>): Map<string, number> {
+    const codes = new Map(items.map(item => [item.id, 0]));
+    const visit = (itemId: string, level: number, path: Set<string>) => {
+      for (const requirement of unitRequirements.get(itemId) || []) {
+        const code = codes.get(requirement.itemId);
+        // Sin recorrer ciclos ni ramas que ya tienen un nivel igual o más bajo
+        if (code === undefined || path.has(requirement.itemId) || code >= level + 1) continue;
+        codes.set(requirement.itemId, level + 1);
+        path.add(requirement.itemId);
+        visit(requirement.itemId, level + 1, path);
+        path.delete(requirement.itemId);
+      }
+    };
+
+    for (const item of items) {
+      visit(item.id, codes.get(item.id) || 0, new Set([item.id]));
+    }
+    return codes;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Día a medianoche UTC: no depende de la zona horaria del servidor
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+// Lo atrasado se planifica para hoy
+const clampDate = (date: Date, today: Date): Date => {
+  const day = startOfDay(date);
+  return day < today ? today : day;
+};
+
+const earliest = (current: Date | undefined, date: Date): Date =>
+  !current || date < current ? date : current;
+
+// Evita arrastrar errores de coma flotante al acumular cantidades
+const roundQuantity = (quantity: number): number => Math.round(quantity * 1000000) / 1000000;
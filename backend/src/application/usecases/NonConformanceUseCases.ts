@@ -0,0 +1,343 @@
+import {
+  NonConformance,
+  NonConformanceDisposition,
+  NonConformanceStatus,
+  DefectType,
+  DefectRateLine,
+  DefectRateReport,
+  formatNcrNumber
+} from '../../domain/entities/NonConformance';
+import { ProductionCard, ProductionCardStatus } from '../../domain/entities/ProductionCard';
+import { ComponentProgress, OperationProgress, OperationStatus } from '../../domain/entities/ManufacturingOrder';
+import { StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
+import { NonConformanceRepository, NonConformanceFilters } from '../../infrastructure/repositories/MongoNonConformanceRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { LaborEntryRepository } from '../../infrastructure/repositories/MongoLaborEntryRepository';
+import { BackflushUseCases } from './BackflushUseCases';
+import { StockMovementUseCases } from './StockMovementUseCases';
+
+export interface CreateNonConformanceRequest {
+  cardId: string;
+  defectType: DefectType;
+  description: string;
+  affectedComponentIds?: string[];
+}
+
+export interface DispositionRequest {
+  disposition: NonConformanceDisposition;
+  notes?: string;
+}
+
+export interface DefectRateFilters {
+  from?: Date;
+  to?: Date;
+}
+
+// Resultado de una disposición: la NCR cerrada y las tarjetas afectadas
+export interface DispositionResult {
+  nonConformance: NonConformance;
+  card: ProductionCard;
+  reworkCard?: ProductionCard;
+}
+
+export class NonConformanceUseCases {
+  constructor(
+    private nonConformanceRepository: NonConformanceRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private backflushUseCases: BackflushUseCases,
+    private stockMovementUseCases: StockMovementUseCases,
+    private laborEntryRepository: LaborEntryRepository
+  ) {}
+
+  async getNonConformances(filters?: NonConformanceFilters): Promise<NonConformance[]> {
+    return this.nonConformanceRepository.findAll(filters);
+  }
+
+  async getNonConformanceById(id: string): Promise<NonConformance> {
+    const nonConformance = await this.nonConformanceRepository.findById(id);
+    if (!nonConformance) {
+      throw new Error('No conformidad no encontrada');
+    }
+    return nonConformance;
+  }
+
+  async createNonConformance(request: CreateNonConformanceRequest, reportedBy?: string): Promise<NonConformance> {
+    if (!request.description || !request.description.trim()) {
+      throw new Error('La descripción del defecto es requerida');
+    }
+    if (!Object.values(DefectType).includes(request.defectType)) {
+      throw new Error(`Tipo de defecto no válido: ${request.defectType}`);
+    }
+
+    const card = await this.getCard(request.cardId);
+    this.ensureCardOpen(card);
+
+    const affectedComponents = (request.affectedComponentIds || []).map(componentId => {
+      const component = card.components.find(c => c.componentId === componentId);
+      if (!component) {
+        throw new Error('Componente no encontrado en esta tarjeta');
+      }
+      return {
+        componentId: component.componentId,
+        componentName: component.componentName,
+        componentSku: component.componentSku
+      };
+    });
+
+    const ncrNumber = await this.nonConformanceRepository.findLatestNumber() + 1;
+
+    return this.nonConformanceRepository.create({
+      ncrNumber,
+      cardId: card.id,
+      cardLabel: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+      orderId: card.orderId,
+      modelId: card.modelId,
+      modelName: card.modelName,
+      defectType: request.defectType,
+      description: request.description.trim(),
+      affectedComponents,
+      status: NonConformanceStatus.OPEN,
+      reportedBy
+    });
+  }
+
+  // Cierra la NCR con su disposición y aplica sus efectos sobre la tarjeta y el stock
+  async disposition(id: string, request: DispositionRequest, dispositionedBy?: string): Promise<DispositionResult> {
+    const nonConformance = await this.getNonConformanceById(id);
+    if (nonConformance.status === NonConformanceStatus.CLOSED) {
+      throw new Error('La no conformidad ya está cerrada');
+    }
+    if (!request || !Object.values(NonConformanceDisposition).includes(request.disposition)) {
+      throw new Error('La disposición debe ser retrabajo, desecho o usar tal cual');
+    }
+
+    const card = await this.getCard(nonConformance.cardId);
+    this.ensureCardOpen(card);
+
+    const ncrLabel = formatNcrNumber(nonConformance.ncrNumber);
+    const closing: Partial<NonConformance> = {
+      disposition: request.disposition,
+      dispositionNotes: request.notes?.trim() || undefined,
+      dispositionedBy,
+      dispositionedAt: new Date()
+    };
+
+    let updatedCard: ProductionCard | null = card;
+    let reworkCard: ProductionCard | undefined;
+
+    switch (request.disposition) {
+      case NonConformanceDisposition.REWORK:
+        reworkCard = await this.createReworkCard(card, nonConformance, ncrLabel, dispositionedBy);
+        closing.reworkCardId = reworkCard.id;
+        updatedCard = await this.closeCard(card.id);
+        break;
+
+      case NonConformanceDisposition.SCRAP:
+        closing.scrapMovementIds = await this.scrapCard(card, ncrLabel, dispositionedBy);
+        updatedCard = await this.closeCard(card.id);
+        break;
+
+      case NonConformanceDisposition.USE_AS_IS:
+        // Si la tarjeta tiene una inspección fallida, queda aceptada por concesión
+        if ((card.inspections || []).length > 0) {
+          updatedCard = await this.productionCardRepository.acceptLastInspection(card.id, ncrLabel);
+        }
+        break;
+    }
+
+    if (!updatedCard) {
+      throw new Error('Error al aplicar la disposición a la tarjeta');
+    }
+
+    const closed = await this.nonConformanceRepository.close(id, closing);
+    if (!closed) {
+      throw new Error('Error al cerrar la no conformidad');
+    }
+
+    return { nonConformance: closed, card: updatedCard, reworkCard };
+  }
+
+  // Tasa de defectos por modelo: no conformidades sobre unidades fabricadas (completadas o desechadas)
+  async getDefectRates(filters: DefectRateFilters = {}): Promise<DefectRateReport> {
+    if (filters.from && filters.to && filters.to <= filters.from) {
+      throw new Error('La fecha final debe ser posterior a la inicial');
+    }
+
+    const [nonConformances, completedCards] = await Promise.all([
+      this.nonConformanceRepository.findAll({ from: filters.from, to: filters.to }),
+      this.productionCardRepository.getCardsByStatus(ProductionCardStatus.COMPLETED)
+    ]);
+
+    const lines = new Map<string, DefectRateLine>();
+    const getLine = (modelId: string, modelName: string) => {
+      const line = lines.get(modelId) || {
+        modelId, modelName, unitsBuilt: 0, nonConformances: 0, defectRate: 0,
+        rework: 0, scrap: 0, useAsIs: 0, open: 0, byDefectType: {}
+      };
+      lines.set(modelId, line);
+      return line;
+    };
+
+    for (const card of completedCards) {
+      const completedAt = card.completedAt ? new Date(card.completedAt) : undefined;
+      if (!completedAt) continue;
+      if (filters.from && completedAt < filters.from) continue;
+      if (filters.to && completedAt > filters.to) continue;
+      getLine(card.modelId, card.modelName).unitsBuilt += 1;
+    }
+
+    for (const nonConformance of nonConformances) {
+      const line = getLine(nonConformance.modelId, nonConformance.modelName);
+      line.nonConformances += 1;
+      line.byDefectType[nonConformance.defectType] = (line.byDefectType[nonConformance.defectType] || 0) + 1;
+
+      switch (nonConformance.disposition) {
+        case NonConformanceDisposition.REWORK: line.rework += 1; break;
+        case NonConformanceDisposition.SCRAP: line.scrap += 1; line.unitsBuilt += 1; break;
+        case NonConformanceDisposition.USE_AS_IS: line.useAsIs += 1; break;
+        default: line.open += 1;
+      }
+    }
+
+    const totals: DefectRateReport['totals'] = {
+      unitsBuilt: 0, nonConformances: 0, defectRate: 0, rework: 0, scrap: 0, useAsIs: 0, open: 0, byDefectType: {}
+    };
+    const byModel = Array.from(lines.values()).map(line => {
+      totals.unitsBuilt += line.unitsBuilt;
+      totals.nonConformances += line.nonConformances;
+      totals.rework += line.rework;
+      totals.scrap += line.scrap;
+      totals.useAsIs += line.useAsIs;
+      totals.open += line.open;
+      for (const [defectType, count] of Object.entries(line.byDefectType) as [DefectType, number][]) {
+        totals.byDefectType[defectType] = (totals.byDefectType[defectType] || 0) + count;
+      }
+      return { ...line, defectRate: this.toRate(line.nonConformances, line.unitsBuilt) };
+    });
+    totals.defectRate = this.toRate(totals.nonConformances, totals.unitsBuilt);
+
+    return {
+      from: filters.from,
+      to: filters.to,
+      generatedAt: new Date(),
+      totals,
+      byModel: byModel.sort((a, b) => b.defectRate - a.defectRate || b.nonConformances - a.nonConformances)
+    };
+  }
+
+  // Nueva tarjeta con los componentes afectados reabiertos; lo ya fabricado del resto se conserva.
+  // Los consumos de los componentes reabiertos se revierten: se vuelven a contabilizar al completarlos en el retrabajo.
+  private async createReworkCard(card: ProductionCard, nonConformance: NonConformance, ncrLabel: string, performedBy?: string): Promise<ProductionCard> {
+    const affectedIds = nonConformance.affectedComponents.map(component => component.componentId);
+
+    for (const componentId of affectedIds) {
+      await this.backflushUseCases.reverseComponentBackflushes(card.id, componentId, `Retrabajo ${ncrLabel}`, performedBy);
+    }
+
+    // Copia plana de los subdocumentos de la tarjeta original
+    const components = (JSON.parse(JSON.stringify(card.components)) as ComponentProgress[]).map((component): ComponentProgress =>
+      affectedIds.includes(component.componentId)
+        ? {
+          ...component,
+          quantityCompleted: 0,
+          isCompleted: false,
+          completedAt: undefined,
+          startedAt: undefined,
+          timeTracker: undefined,
+          materialUsage: []
+        }
+        : component
+    );
+
+    // Se repiten las operaciones de los componentes reabiertos y las del modelo (montaje)
+    const operations = (JSON.parse(JSON.stringify(card.operations || [])) as OperationProgress[]).map((operation): OperationProgress =>
+      !operation.componentId || affectedIds.includes(operation.componentId)
+        ? {
+          ...operation,
+          status: OperationStatus.PENDING,
+          startedAt: undefined,
+          completedAt: undefined,
+          plannedStart: undefined,
+          plannedFinish: undefined
+        }
+        : operation
+    );
+
+    const pendingMinutes = operations
+      .filter(operation => operation.status !== OperationStatus.COMPLETED)
+      .reduce((total, operation) => total + operation.plannedSetupMinutes + operation.plannedRunMinutes, 0);
+
+    // El número de tarjeta es único por orden: el retrabajo toma el siguiente libre y amplía el total
+    // de la orden para que las etiquetas sigan siendo "n/total"
+    const orderCards = await this.productionCardRepository.findByOrderId(card.orderId);
+    const cardNumber = Math.max(...orderCards.map(orderCard => orderCard.cardNumber)) + 1;
+
+    const reworkCard = await this.productionCardRepository.create({
+      orderId: card.orderId,
+      orderName: card.orderName,
+      cardNumber,
+      totalCards: cardNumber,
+      modelId: card.modelId,
+      modelName: card.modelName,
+      modelSku: card.modelSku,
+      quantity: card.quantity,
+      dueDate: card.dueDate,
+      status: ProductionCardStatus.PENDING,
+      priority: card.priority,
+      components,
+      operations,
+      bomRevisionId: card.bomRevisionId,
+      notes: `Retrabajo de ${nonConformance.cardLabel} (${ncrLabel})`,
+      estimatedHours: operations.length > 0 ? Math.round((pendingMinutes / 60) * 100) / 100 : card.estimatedHours,
+      reworkOfCardId: card.id,
+      nonConformanceId: nonConformance.id
+    });
+    await this.productionCardRepository.setTotalCards(card.orderId, cardNumber);
+    return reworkCard;
+  }
+
+  // Da de baja los componentes ya fabricados de la unidad (sus materiales ya se consumieron)
+  private async scrapCard(card: ProductionCard, ncrLabel: string, performedBy?: string): Promise<string[]> {
+    const reason = `Desecho ${ncrLabel}: ${card.orderName} (${card.cardNumber}/${card.totalCards})`;
+    const requests = card.components
+      .filter(component => component.isCompleted && component.quantityRequired > 0)
+      .map(component => ({
+        itemId: component.componentId,
+        type: StockMovementType.SCRAP,
+        quantity: -component.quantityRequired,
+        reason,
+        referenceType: StockMovementReferenceType.PRODUCTION_CARD,
+        referenceId: card.id,
+        performedBy
+      }));
+
+    if (requests.length === 0) return [];
+    const movements = await this.stockMovementUseCases.recordMovements(requests);
+    return movements.map(movement => movement.id);
+  }
+
+  // La tarjeta original se cancela sin revertir sus consumos (los trata la disposición)
+  private async closeCard(cardId: string): Promise<ProductionCard | null> {
+    const card = await this.productionCardRepository.cancelCard(cardId);
+    await this.laborEntryRepository.closeOpenEntries({ cardId }, new Date());
+    return card;
+  }
+
+  private async getCard(cardId: string): Promise<ProductionCard> {
+    const card = await this.productionCardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Tarjeta de producción no encontrada');
+    }
+    return card;
+  }
+
+  private ensureCardOpen(card: ProductionCard): void {
+    if (card.status !== ProductionCardStatus.IN_PROGRESS && card.status !== ProductionCardStatus.PAUSED) {
+      throw new Error('Solo se pueden registrar no conformidades en tarjetas en progreso o pausadas');
+    }
+  }
+
+  private toRate(count: number, units: number): number {
+    return units > 0 ? Math.round((count / units) * 1000) / 10 : 0;
+  }
+}
@@ -1,7 +1,34 @@
-import { ProductionCard, ProductionCardStatus, ProductionCardPriority } from '../../domain/entities/ProductionCard';
+import {
+  ProductionCard,
+  ProductionCardStatus,
+  ProductionCardPriority,
+  CardTimeline,
+  CardTimelineSegment,
+  getRemainingWorkMinutes
+} from '../../domain/entities/ProductionCard';
 import { ProductionCardRepository, ProductionCardFilters } from '../../infrastructure/repositories/MongoProductionCardRepository';
 import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
-import { ComponentProgress } from '../../domain/entities/ManufacturingOrder';
+import {
+  ComponentProgress,
+  MaterialUsage,
+  OperationStatus,
+  TimeTracker,
+  getTimeSegments,
+  getSegmentMinutes,
+  getTrackedMinutes
+} from '../../domain/entities/ManufacturingOrder';
+import { Backflush } from '../../domain/entities/Backflush';
+import { BackflushUseCases } from './BackflushUseCases';
+import { StockReservationUseCases } from './StockReservationUseCases';
+import { ReservationTrigger } from '../../domain/entities/StockReservation';
+import { RoutingUseCases } from './RoutingUseCases';
+import { FactoryCalendarUseCases } from './FactoryCalendarUseCases';
+import { OverdueRisk } from '../../domain/entities/FactoryCalendar';
+import { LaborEntryRepository } from '../../infrastructure/repositories/MongoLaborEntryRepository';
+import { DowntimeUseCases, PauseRequest } from './DowntimeUseCases';
+import { InspectionUseCases } from './InspectionUseCases';
+import { SerialUnitUseCases } from './SerialUnitUseCases';
+import { SerialUnit } from '../../domain/entities/SerialUnit';
 
 export interface CreateProductionCardRequest {
   orderId: string;
@@ -13,18 +40,34 @@ export interface CreateProductionCardRequest {
   modelSku: string;
   dueDate: Date;
   components: ComponentProgress[];
+  bomRevisionId?: string;
   notes?: string;
   estimatedHours: number;
   priority?: ProductionCardPriority;
 }
 
+// Recibe cada tarjeta completada (unidades fabricadas para un pedido de venta)
+export type CardCompletedListener = (card: ProductionCard, performedBy?: string) => Promise<void>;
+
 export class ProductionCardUseCases {
   constructor(
     private productionCardRepository: ProductionCardRepository,
-    private inventoryRepository: IInventoryRepository
+    private inventoryRepository: IInventoryRepository,
+    private backflushUseCases: BackflushUseCases,
+    private stockReservationUseCases: StockReservationUseCases,
+    private routingUseCases: RoutingUseCases,
+    private factoryCalendarUseCases: FactoryCalendarUseCases,
+    private laborEntryRepository: LaborEntryRepository,
+    private downtimeUseCases: DowntimeUseCases,
+    private inspectionUseCases: InspectionUseCases,
+    private serialUnitUseCases: SerialUnitUseCases,
+    private onCardCompleted?: CardCompletedListener
   ) {}
 
   async createProductionCard(request: CreateProductionCardRequest): Promise<ProductionCard> {
+    // Operaciones de la ruta de fabricación de los componentes y del modelo
+    const operations = await this.routingUseCases.buildCardOperations(request.modelId, request.components);
+
     const cardData = {
       orderId: request.orderId,
       orderName: request.orderName,
@@ -38,6 +81,8 @@ export class ProductionCardUseCases {
       status: ProductionCardStatus.PENDING,
       priority: request.priority || ProductionCardPriority.NORMAL,
       components: JSON.parse(JSON.stringify(request.components)), // Clonar componentes
+      operations,
+      bomRevisionId: request.bomRevisionId,
       notes: request.notes,
       estimatedHours: request.estimatedHours
     };
@@ -57,7 +102,8 @@ export class ProductionCardUseCases {
   }
 
   async getAllCards(filters?: ProductionCardFilters): Promise<ProductionCard[]> {
-    return this.productionCardRepository.findAll(filters);
+    const cards = await this.productionCardRepository.findAll(filters);
+    return this.withDueStatus(filters?.overdue ? await this.filterPastDue(cards) : cards);
   }
 
   async getCardById(id: string): Promise<ProductionCard> {
@@ -69,7 +115,7 @@ export class ProductionCardUseCases {
   }
 
   async getCardsByOrder(orderId: string): Promise<ProductionCard[]> {
-    return this.productionCardRepository.findByOrderId(orderId);
+    return this.withDueStatus(await this.productionCardRepository.findByOrderId(orderId));
   }
 
   async updateCard(id: string, updates: Partial<ProductionCard>): Promise<ProductionCard> {
@@ -119,17 +165,26 @@ export class ProductionCardUseCases {
       throw new Error('Error al iniciar la producción');
     }
 
+    // Iniciar la primera tarjeta inicia la orden: reservar sus materiales
+    if (this.stockReservationUseCases.shouldReserveOn(ReservationTrigger.ORDER_STARTED)) {
+      await this.stockReservationUseCases.reserveForOrder(card.orderId);
+    }
+
     return updatedCard;
   }
 
-  async pauseProduction(id: string): Promise<ProductionCard> {
+  async pauseProduction(id: string, request: PauseRequest, pausedBy?: string): Promise<ProductionCard> {
     const card = await this.getCardById(id);
 
     if (card.status !== ProductionCardStatus.IN_PROGRESS) {
       throw new Error('Solo se pueden pausar tarjetas en progreso');
     }
 
-    const updatedCard = await this.productionCardRepository.pauseProduction(id);
+    const pause = await this.downtimeUseCases.resolvePause(request, pausedBy);
+    const updatedCard = await this.productionCardRepository.pauseProduction(id, {
+      ...pause,
+      ...this.getPausedWorkCenter(card)
+    });
     if (!updatedCard) {
       throw new Error('Error al pausar la producción');
     }
@@ -156,7 +211,37 @@ export class ProductionCardUseCases {
     return this.productionCardRepository.getCurrentProductionTime(id);
   }
 
-  async completeComponent(cardId: string, componentId: string): Promise<ProductionCard> {
+  // Tramos de trabajo y pausa de la tarjeta y de sus componentes, en orden cronológico
+  async getCardTimeline(id: string): Promise<CardTimeline> {
+    const card = await this.getCardById(id);
+    const now = new Date();
+
+    const toTimeline = (timeTracker: TimeTracker, component?: ComponentProgress): CardTimelineSegment[] =>
+      getTimeSegments(timeTracker).map(segment => ({
+        ...segment,
+        minutes: Math.round(getSegmentMinutes(segment, now) * 100) / 100,
+        componentId: component?.componentId,
+        componentName: component?.componentName
+      }));
+
+    const cardSegments = card.timeTracker ? toTimeline(card.timeTracker) : [];
+    const componentSegments = card.components.flatMap(component =>
+      component.timeTracker ? toTimeline(component.timeTracker, component) : []
+    );
+    const totals = card.timeTracker ? getTrackedMinutes(card.timeTracker, now) : { runMinutes: 0, pauseMinutes: 0 };
+
+    return {
+      cardId: card.id,
+      cardLabel: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+      status: card.status,
+      runMinutes: Math.round(totals.runMinutes),
+      pauseMinutes: Math.round(totals.pauseMinutes),
+      segments: [...cardSegments, ...componentSegments]
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    };
+  }
+
+  async completeComponent(cardId: string, componentId: string, performedBy?: string): Promise<ProductionCard> {
     const card = await this.getCardById(cardId);
 
     if (card.status !== ProductionCardStatus.IN_PROGRESS && card.status !== ProductionCardStatus.PAUSED) {
@@ -172,15 +257,64 @@ export class ProductionCardUseCases {
       throw new Error('Este componente ya está completado');
     }
 
+    const pendingOperations = (card.operations || [])
+      .filter(op => op.componentId === componentId && op.status !== OperationStatus.COMPLETED);
+    if (pendingOperations.length > 0) {
+      throw new Error(`No se puede completar el componente: faltan operaciones de su ruta (${pendingOperations.map(op => op.name).join(', ')})`);
+    }
+
+    // Consumir materiales y dar entrada al componente antes de marcarlo como completado
+    const backflush = await this.backflushUseCases.backflushComponent(card, componentId, performedBy);
+
+    // Si otro envío lo completó mientras tanto, se deshace este backflush para no consumir dos veces
     const updatedCard = await this.productionCardRepository.completeComponent(cardId, componentId);
     if (!updatedCard) {
-      throw new Error('Error al marcar el componente como completado');
+      await this.backflushUseCases.reverseBackflush(backflush.id, 'Reversión automática: el componente ya no estaba pendiente');
+      throw new Error('El componente ya fue completado o la tarjeta ha cambiado de estado');
     }
 
-    return updatedCard;
+    // Los operarios fichados en el componente quedan liberados
+    await this.laborEntryRepository.closeOpenEntries({ cardId, componentId }, new Date());
+
+    return (await this.recordLotUsage(updatedCard, componentId, backflush)) || updatedCard;
+  }
+
+  // Guarda en el uso de materiales del componente los lotes que consumió el backflush
+  private async recordLotUsage(card: ProductionCard, componentId: string, backflush: Backflush): Promise<ProductionCard | null> {
+    const lotLines = backflush.lines.filter(line => line.lotId && line.quantity < 0);
+    const component = card.components.find(c => c.componentId === componentId);
+    if (lotLines.length === 0 || !component) {
+      return null;
+    }
+
+    const materialUsage: MaterialUsage[] = (component.materialUsage || []).map(usage => ({ ...usage, lots: undefined }));
+    const adjustedIds = new Set(materialUsage.map(usage => usage.materialId));
+    for (const line of lotLines) {
+      let usage = materialUsage.find(u => u.materialId === line.itemId);
+      if (!usage) {
+        // Material consumido según la estructura, sin ajuste previo
+        usage = {
+          materialId: line.itemId,
+          materialName: line.itemName,
+          materialSku: line.itemSku,
+          plannedQuantity: 0,
+          actualQuantity: 0,
+          unit: line.unit
+        };
+        materialUsage.push(usage);
+      }
+
+      if (!adjustedIds.has(usage.materialId)) {
+        usage.plannedQuantity += -line.quantity;
+        usage.actualQuantity += -line.quantity;
+      }
+      usage.lots = [...(usage.lots || []), { lotId: line.lotId!, lotNumber: line.lotNumber!, quantity: -line.quantity }];
+    }
+
+    return this.productionCardRepository.updateComponentMaterials(card.id, componentId, materialUsage);
   }
 
-  async completeCard(id: string): Promise<ProductionCard> {
+  async completeCard(id: string, performedBy?: string): Promise<ProductionCard> {
     const card = await this.getCardById(id);
 
     if (card.status !== ProductionCardStatus.IN_PROGRESS && card.status !== ProductionCardStatus.PAUSED) {
@@ -193,23 +327,42 @@ export class ProductionCardUseCases {
       throw new Error('No se puede completar la tarjeta: faltan componentes por fabricar');
     }
 
-    const updatedCard = await this.productionCardRepository.completeCard(id);
-    if (!updatedCard) {
-      throw new Error('Error al completar la tarjeta');
+    const allOperationsComplete = (card.operations || []).every(op => op.status === OperationStatus.COMPLETED);
+    if (!allOperationsComplete) {
+      throw new Error('No se puede completar la tarjeta: faltan operaciones de la ruta de fabricación');
     }
 
-    // Actualizar inventario del modelo fabricado (+1 por cada tarjeta completada)
+    await this.inspectionUseCases.ensureInspectionPassed(card);
+
+    // Consumir los componentes y dar entrada al modelo (+1 por cada tarjeta completada)
+    const backflush = await this.backflushUseCases.backflushCard(card, performedBy);
+
+    // Número de serie y genealogía de la unidad terminada
+    let serialUnit: SerialUnit;
     try {
-      const currentModel = await this.inventoryRepository.findById(card.modelId);
-      if (currentModel) {
-        await this.inventoryRepository.updateQuantity(
-          card.modelId,
-          currentModel.quantity + 1 // Cada tarjeta suma 1 unidad
-        );
-      }
+      serialUnit = await this.serialUnitUseCases.registerUnit(card, performedBy);
     } catch (error) {
-      console.error('Error al actualizar inventario del modelo:', error);
-      // No fallar la operación principal si el inventario no se puede actualizar
+      await this.backflushUseCases.reverseBackflush(backflush.id, 'Reversión automática: error al asignar el número de serie');
+      throw error;
+    }
+
+    // Si otro envío la completó o la canceló mientras tanto, se deshace lo registrado por este
+    const updatedCard = await this.productionCardRepository.completeCard(id, serialUnit.serialNumber);
+    if (!updatedCard) {
+      await this.serialUnitUseCases.removeUnit(serialUnit.id);
+      await this.backflushUseCases.reverseBackflush(backflush.id, 'Reversión automática: la tarjeta ya no estaba abierta');
+      throw new Error('La tarjeta ya fue completada o ha cambiado de estado');
+    }
+
+    await this.laborEntryRepository.closeOpenEntries({ cardId: id }, new Date());
+
+    // Un fallo al reservar la unidad para el pedido nunca deshace la tarjeta completada
+    if (this.onCardCompleted) {
+      try {
+        await this.onCardCompleted(updatedCard, performedBy);
+      } catch (error) {
+        console.error('Error al reservar la unidad para el pedido de venta:', error);
+      }
     }
 
     return updatedCard;
@@ -222,28 +375,132 @@ export class ProductionCardUseCases {
       throw new Error('No se puede cancelar una tarjeta completada');
     }
 
+    // Devolver al inventario lo consumido por los componentes ya completados
+    await this.backflushUseCases.reverseCardBackflushes(id, `Tarjeta cancelada: ${card.orderName} (${card.cardNumber}/${card.totalCards})`);
+
     const updatedCard = await this.productionCardRepository.cancelCard(id);
     if (!updatedCard) {
       throw new Error('Error al cancelar la tarjeta');
     }
 
+    await this.laborEntryRepository.closeOpenEntries({ cardId: id }, new Date());
+
+    return updatedCard;
+  }
+
+  // La tarjeta sigue la ruta: una operación solo puede iniciarse cuando las anteriores
+  // del mismo artículo (modelo o componente) están completadas
+  async startOperation(cardId: string, operationId: string): Promise<ProductionCard> {
+    const card = await this.getCardById(cardId);
+
+    if (card.status !== ProductionCardStatus.IN_PROGRESS) {
+      throw new Error('Solo se pueden iniciar operaciones en tarjetas en progreso');
+    }
+
+    const operation = (card.operations || []).find(op => op.operationId === operationId);
+    if (!operation) {
+      throw new Error('Operación no encontrada en esta tarjeta');
+    }
+
+    if (operation.status !== OperationStatus.PENDING) {
+      throw new Error('Esta operación ya fue iniciada');
+    }
+
+    const previousPending = (card.operations || []).filter(op =>
+      op.itemId === operation.itemId &&
+      op.sequence < operation.sequence &&
+      op.status !== OperationStatus.COMPLETED
+    );
+    if (previousPending.length > 0) {
+      throw new Error(`Primero deben completarse las operaciones anteriores: ${previousPending.map(op => op.name).join(', ')}`);
+    }
+
+    const updatedCard = await this.productionCardRepository.startOperation(cardId, operationId);
+    if (!updatedCard) {
+      throw new Error('Error al iniciar la operación');
+    }
+
     return updatedCard;
   }
 
+  async completeOperation(cardId: string, operationId: string): Promise<ProductionCard> {
+    const card = await this.getCardById(cardId);
+
+    if (card.status !== ProductionCardStatus.IN_PROGRESS && card.status !== ProductionCardStatus.PAUSED) {
+      throw new Error('Solo se pueden completar operaciones en tarjetas en progreso o pausadas');
+    }
+
+    const operation = (card.operations || []).find(op => op.operationId === operationId);
+    if (!operation) {
+      throw new Error('Operación no encontrada en esta tarjeta');
+    }
+
+    if (operation.status !== OperationStatus.IN_PROGRESS) {
+      throw new Error('Solo se pueden completar operaciones iniciadas');
+    }
+
+    const updatedCard = await this.productionCardRepository.completeOperation(cardId, operationId);
+    if (!updatedCard) {
+      throw new Error('Error al completar la operación');
+    }
+
+    return updatedCard;
+  }
+
+  async getCardBackflushes(id: string): Promise<Backflush[]> {
+    await this.getCardById(id);
+    return this.backflushUseCases.getCardBackflushes(id);
+  }
+
   async getCardsByStatus(status: ProductionCardStatus): Promise<ProductionCard[]> {
-    return this.productionCardRepository.getCardsByStatus(status);
+    return this.withDueStatus(await this.productionCardRepository.getCardsByStatus(status));
   }
 
   async getCardsByPriority(priority: ProductionCardPriority): Promise<ProductionCard[]> {
-    return this.productionCardRepository.getCardsByPriority(priority);
+    return this.withDueStatus(await this.productionCardRepository.getCardsByPriority(priority));
   }
 
   async getOverdueCards(): Promise<ProductionCard[]> {
-    return this.productionCardRepository.getOverdueCards();
+    const candidates = await this.productionCardRepository.getOverdueCards();
+    return this.withDueStatus(await this.filterPastDue(candidates));
   }
 
   async getActiveCards(): Promise<ProductionCard[]> {
-    return this.productionCardRepository.getActiveCards();
+    return this.withDueStatus(await this.productionCardRepository.getActiveCards());
+  }
+
+  // La consulta de vencidas compara con la hora actual; el calendario descarta las que aún tienen jornada ese día
+  private async filterPastDue(cards: ProductionCard[]): Promise<ProductionCard[]> {
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+    return cards.filter(card => calendar.isPastDue(new Date(card.dueDate)));
+  }
+
+  // Horas laborables hasta la fecha límite y riesgo de retraso según el calendario de fábrica
+  private async withDueStatus(cards: ProductionCard[]): Promise<ProductionCard[]> {
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+    const now = new Date();
+
+    return cards.map(card => {
+      if (card.status === ProductionCardStatus.COMPLETED || card.status === ProductionCardStatus.CANCELLED) {
+        return card;
+      }
+
+      const dueStatus = calendar.getDueStatus(new Date(card.dueDate), getRemainingWorkMinutes(card, now), now);
+      // La última programación también puede anticipar el retraso
+      const overdueRisk = dueStatus.overdueRisk === OverdueRisk.ON_TIME && card.willMissDueDate
+        ? OverdueRisk.AT_RISK
+        : dueStatus.overdueRisk;
+
+      return { ...card, remainingWorkingHours: dueStatus.remainingWorkingHours, overdueRisk };
+    });
+  }
+
+  // Centro de trabajo de la operación en curso (la del componente si la pausa es de un componente)
+  private getPausedWorkCenter(card: ProductionCard, componentId?: string): { workCenterId?: string; workCenterName?: string } {
+    const operation = (card.operations || []).find(op =>
+      op.status === OperationStatus.IN_PROGRESS && (!componentId || op.componentId === componentId)
+    );
+    return operation ? { workCenterId: operation.workCenterId, workCenterName: operation.workCenterName } : {};
   }
 
   // Métodos para cronómetros por componente
@@ -267,8 +524,21 @@ export class ProductionCardUseCases {
     return updatedCard;
   }
 
-  async pauseComponentProduction(cardId: string, componentId: string): Promise<ProductionCard> {
-    const updatedCard = await this.productionCardRepository.pauseComponentProduction(cardId, componentId);
+  async pauseComponentProduction(cardId: string, componentId: string, request: PauseRequest, pausedBy?: string): Promise<ProductionCard> {
+    const card = await this.getCardById(cardId);
+    const component = card.components.find(c => c.componentId === componentId);
+    if (!component || !component.timeTracker) {
+      throw new Error('Componente no encontrado o sin cronómetro activo');
+    }
+    if (component.timeTracker.isPaused) {
+      throw new Error('El cronómetro del componente ya está pausado');
+    }
+
+    const pause = await this.downtimeUseCases.resolvePause(request, pausedBy);
+    const updatedCard = await this.productionCardRepository.pauseComponentProduction(cardId, componentId, {
+      ...pause,
+      ...this.getPausedWorkCenter(card, componentId)
+    });
     if (!updatedCard) {
       throw new Error('Error al pausar la producción del componente');
     }
@@ -0,0 +1,297 @@
+import { ProductionCard, ProductionCardStatus, ProductionCardPriority } from '../../domain/entities/ProductionCard';
+import { OperationStatus } from '../../domain/entities/ManufacturingOrder';
+import { WorkCenter } from '../../domain/entities/WorkCenter';
+import { WorkingCalendar } from '../../domain/entities/FactoryCalendar';
+import {
+  ScheduleResult,
+  CardSchedule,
+  ScheduledOperation,
+  WorkCenterLoad,
+  DEFAULT_CAPACITY_HOURS_PER_DAY
+} from '../../domain/entities/ProductionSchedule';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { WorkCenterRepository } from '../../infrastructure/repositories/MongoWorkCenterRepository';
+import { FactoryCalendarUseCases } from './FactoryCalendarUseCases';
+
+// Carril común para las tarjetas cuyo modelo no tiene ruta de fabricación
+const GENERAL_LANE_ID = 'general';
+const GENERAL_LANE_NAME = 'Sin centro de trabajo';
+
+const PRIORITY_ORDER: Record<ProductionCardPriority, number> = {
+  [ProductionCardPriority.URGENT]: 1,
+  [ProductionCardPriority.HIGH]: 2,
+  [ProductionCardPriority.NORMAL]: 3,
+  [ProductionCardPriority.LOW]: 4
+};
+
+const MINUTE_MS = 60 * 1000;
+
+interface Lane {
+  workCenterId: string;
+  workCenterName: string;
+  capacityHoursPerDay: number;
+  busy: { start: Date; finish: Date }[]; // intervalos ocupados, ordenados por inicio
+  scheduledMinutes: number;
+}
+
+export interface ScheduleOptions {
+  startDate?: Date;
+}
+
+// Programación de capacidad finita: asigna inicio y fin previstos a cada tarjeta activa
+export class ProductionScheduleUseCases {
+  constructor(
+    private productionCardRepository: ProductionCardRepository,
+    private workCenterRepository: WorkCenterRepository,
+    private factoryCalendarUseCases: FactoryCalendarUseCases
+  ) {}
+
+  async scheduleCards(options: ScheduleOptions = {}): Promise<ScheduleResult> {
+    const scheduledAt = new Date();
+    const startDate = options.startDate ?? scheduledAt;
+
+    if (isNaN(startDate.getTime())) {
+      throw new Error('La fecha de inicio de la programación no es válida');
+    }
+
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+    const cards = this.sortForScheduling(await this.productionCardRepository.getActiveCards());
+    const workCenters = await this.workCenterRepository.findAll();
+    const lanes = new Map<string, Lane>();
+
+    const getLane = (workCenterId: string, fallbackName: string): Lane => {
+      let lane = lanes.get(workCenterId);
+      if (!lane) {
+        const workCenter = workCenters.find(wc => wc.id === workCenterId);
+        lane = this.createLane(workCenterId, workCenter, fallbackName);
+        lanes.set(workCenterId, lane);
+      }
+      return lane;
+    };
+
+    const schedules: CardSchedule[] = [];
+
+    for (const card of cards) {
+      const pendingOperations = (card.operations || []).filter(op => op.status !== OperationStatus.COMPLETED);
+      const operations: ScheduledOperation[] = [];
+      // Un inicio fijado desde el Gantt actúa como "no antes de"
+      let cursor = card.pinnedStart && new Date(card.pinnedStart) > startDate ? new Date(card.pinnedStart) : startDate;
+
+      if (pendingOperations.length > 0) {
+        // Las operaciones de la tarjeta se encadenan en el orden de la ruta
+        for (const operation of pendingOperations) {
+          const lane = getLane(operation.workCenterId, operation.workCenterName);
+          let minutes = operation.plannedSetupMinutes + operation.plannedRunMinutes;
+          if (operation.status === OperationStatus.IN_PROGRESS && operation.startedAt) {
+            minutes -= (scheduledAt.getTime() - new Date(operation.startedAt).getTime()) / MINUTE_MS;
+          }
+
+          const planned = this.reserveLane(calendar, lane, cursor, Math.max(0, Math.round(minutes)));
+          operations.push({
+            operationId: operation.operationId,
+            name: operation.name,
+            workCenterId: lane.workCenterId,
+            workCenterName: lane.workCenterName,
+            minutes: planned.minutes,
+            plannedStart: planned.start,
+            plannedFinish: planned.finish
+          });
+          cursor = planned.finish;
+        }
+      } else if (!card.operations || card.operations.length === 0) {
+        // Sin ruta: se programan las horas estimadas en el carril común
+        // (una tarjeta con la ruta ya terminada solo espera su cierre y no ocupa capacidad)
+        const lane = getLane(GENERAL_LANE_ID, GENERAL_LANE_NAME);
+        const elapsedMinutes = card.status === ProductionCardStatus.PENDING
+          ? 0
+          : await this.productionCardRepository.getCurrentProductionTime(card.id);
+        const minutes = Math.max(0, Math.round(card.estimatedHours * 60 - elapsedMinutes));
+        const planned = this.reserveLane(calendar, lane, cursor, minutes);
+        cursor = planned.finish;
+        operations.push({
+          operationId: GENERAL_LANE_ID,
+          name: card.modelName,
+          workCenterId: lane.workCenterId,
+          workCenterName: lane.workCenterName,
+          minutes: planned.minutes,
+          plannedStart: planned.start,
+          plannedFinish: planned.finish
+        });
+      }
+
+      const plannedStart = card.startedAt
+        ? new Date(card.startedAt)
+        : operations[0]?.plannedStart ?? cursor;
+
+      schedules.push(this.buildCardSchedule(calendar, card, plannedStart, cursor, operations));
+    }
+
+    for (const schedule of schedules) {
+      await this.productionCardRepository.updateSchedule(schedule, scheduledAt);
+    }
+
+    const workCenterLoads: WorkCenterLoad[] = Array.from(lanes.values()).map(lane => ({
+      workCenterId: lane.workCenterId,
+      workCenterName: lane.workCenterName,
+      capacityHoursPerDay: lane.capacityHoursPerDay,
+      scheduledHours: Math.round((lane.scheduledMinutes / 60) * 10) / 10,
+      busyUntil: lane.busy.reduce((latest, slot) => slot.finish > latest ? slot.finish : latest, startDate)
+    }));
+
+    return {
+      scheduledAt,
+      startDate,
+      totalCards: schedules.length,
+      lateCards: schedules.filter(schedule => schedule.willMissDueDate).length,
+      cards: schedules,
+      workCenters: workCenterLoads
+    };
+  }
+
+  // Mueve el plan de una tarjeta a un nuevo inicio y lo fija para las siguientes programaciones
+  async rescheduleCard(cardId: string, plannedStart: Date): Promise<ProductionCard> {
+    if (isNaN(plannedStart.getTime())) {
+      throw new Error('La fecha de inicio prevista no es válida');
+    }
+
+    const card = await this.productionCardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Tarjeta de producción no encontrada');
+    }
+
+    if (card.status !== ProductionCardStatus.PENDING) {
+      throw new Error('Solo se pueden reprogramar tarjetas pendientes');
+    }
+
+    // Sin plan previo se parte de las horas estimadas; con plan se desplaza conservando la duración
+    const previousStart = card.plannedStart ? new Date(card.plannedStart) : plannedStart;
+    const previousFinish = card.plannedFinish
+      ? new Date(card.plannedFinish)
+      : new Date(plannedStart.getTime() + card.estimatedHours * 60 * MINUTE_MS);
+    const shiftMs = plannedStart.getTime() - previousStart.getTime();
+    const shift = (date: Date) => new Date(new Date(date).getTime() + shiftMs);
+
+    const operations: ScheduledOperation[] = (card.operations || [])
+      .filter(op => op.status !== OperationStatus.COMPLETED && op.plannedStart && op.plannedFinish)
+      .map(op => ({
+        operationId: op.operationId,
+        name: op.name,
+        workCenterId: op.workCenterId,
+        workCenterName: op.workCenterName,
+        minutes: op.plannedSetupMinutes + op.plannedRunMinutes,
+        plannedStart: shift(op.plannedStart!),
+        plannedFinish: shift(op.plannedFinish!)
+      }));
+
+    const now = new Date();
+    const calendar = await this.factoryCalendarUseCases.getWorkingCalendar();
+    await this.productionCardRepository.setPinnedStart(cardId, plannedStart);
+    const updated = await this.productionCardRepository.updateSchedule(
+      this.buildCardSchedule(calendar, card, plannedStart, shift(previousFinish), operations),
+      now
+    );
+    if (!updated) {
+      throw new Error('Tarjeta de producción no encontrada');
+    }
+
+    return updated;
+  }
+
+  // Quita el inicio fijado; la tarjeta vuelve a programarse por prioridad
+  async unpinCard(cardId: string): Promise<ProductionCard> {
+    const card = await this.productionCardRepository.setPinnedStart(cardId, undefined);
+    if (!card) {
+      throw new Error('Tarjeta de producción no encontrada');
+    }
+    return card;
+  }
+
+  private buildCardSchedule(calendar: WorkingCalendar, card: ProductionCard, plannedStart: Date, plannedFinish: Date, operations: ScheduledOperation[]): CardSchedule {
+    const dueLimit = calendar.getDueLimit(new Date(card.dueDate));
+    const latenessMs = plannedFinish.getTime() - dueLimit.getTime();
+
+    return {
+      cardId: card.id,
+      orderId: card.orderId,
+      cardLabel: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+      modelName: card.modelName,
+      priority: card.priority,
+      dueDate: card.dueDate,
+      plannedStart,
+      plannedFinish,
+      willMissDueDate: latenessMs > 0,
+      latenessHours: latenessMs > 0 ? Math.round((latenessMs / (60 * MINUTE_MS)) * 10) / 10 : 0,
+      operations
+    };
+  }
+
+  // Tarjetas ya iniciadas primero, luego las fijadas desde el Gantt (por su inicio);
+  // el resto por prioridad, fecha límite y número de tarjeta
+  private sortForScheduling(cards: ProductionCard[]): ProductionCard[] {
+    return [...cards].sort((a, b) => {
+      const aStarted = a.status === ProductionCardStatus.PENDING ? 1 : 0;
+      const bStarted = b.status === ProductionCardStatus.PENDING ? 1 : 0;
+      if (aStarted !== bStarted) {
+        return aStarted - bStarted;
+      }
+
+      const aPinned = a.pinnedStart ? 0 : 1;
+      const bPinned = b.pinnedStart ? 0 : 1;
+      if (aPinned !== bPinned) {
+        return aPinned - bPinned;
+      }
+      if (a.pinnedStart && b.pinnedStart) {
+        return new Date(a.pinnedStart).getTime() - new Date(b.pinnedStart).getTime();
+      }
+
+      const priorityDiff = (PRIORITY_ORDER[a.priority] || 3) - (PRIORITY_ORDER[b.priority] || 3);
+      if (priorityDiff !== 0) {
+        return priorityDiff;
+      }
+
+      const dueDiff = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+      if (dueDiff !== 0) {
+        return dueDiff;
+      }
+
+      return a.cardNumber - b.cardNumber;
+    });
+  }
+
+  private createLane(workCenterId: string, workCenter: WorkCenter | undefined, fallbackName: string): Lane {
+    const capacityHoursPerDay = workCenter ? workCenter.capacityHoursPerDay : DEFAULT_CAPACITY_HOURS_PER_DAY;
+    if (capacityHoursPerDay <= 0) {
+      throw new Error(`El centro de trabajo ${workCenter?.name || fallbackName} no tiene capacidad diaria`);
+    }
+
+    return {
+      workCenterId,
+      workCenterName: workCenter?.name || fallbackName,
+      capacityHoursPerDay,
+      busy: [],
+      scheduledMinutes: 0
+    };
+  }
+
+  // Ocupa el primer hueco del centro de trabajo en el que cabe la operación a partir de "earliest"
+  private reserveLane(calendar: WorkingCalendar, lane: Lane, earliest: Date, minutes: number): { start: Date; finish: Date; minutes: number } {
+    let start = calendar.nextWorkingTime(earliest, lane.capacityHoursPerDay);
+
+    for (const slot of lane.busy) {
+      if (slot.finish <= start) {
+        continue;
+      }
+      if (calendar.addWorkingMinutes(start, minutes, lane.capacityHoursPerDay) <= slot.start) {
+        break;
+      }
+      start = calendar.nextWorkingTime(slot.finish, lane.capacityHoursPerDay);
+    }
+
+    const finish = calendar.addWorkingMinutes(start, minutes, lane.capacityHoursPerDay);
+    lane.busy.push({ start, finish });
+    lane.busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+    lane.scheduledMinutes += minutes;
+
+    return { start, finish, minutes };
+  }
+}
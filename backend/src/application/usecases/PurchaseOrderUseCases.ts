@@ -0,0 +1,366 @@
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  PurchaseReceipt,
+  IncomingItem,
+  OPEN_PURCHASE_ORDER_STATUSES,
+  formatPoNumber,
+  getOutstandingQuantity
+} from '../../domain/entities/PurchaseOrder';
+import { StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
+import { InventoryItem } from '../../domain/entities/InventoryItem';
+import { Supplier } from '../../domain/entities/Supplier';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { PurchaseOrderRepository, PurchaseOrderFilters } from '../../infrastructure/repositories/MongoPurchaseOrderRepository';
+import { SupplierUseCases } from './SupplierUseCases';
+import { StockMovementUseCases, NewLotRequest, RecordStockMovementRequest } from './StockMovementUseCases';
+
+export interface PurchaseOrderLineRequest {
+  itemId: string;
+  quantity: number;
+  unitPrice?: number; // por defecto, el precio del proveedor o el del artículo
+  expectedDate?: Date;
+}
+
+export interface CreatePurchaseOrderRequest {
+  supplierId: string;
+  expectedDate?: Date;
+  notes?: string;
+  lines: PurchaseOrderLineRequest[];
+}
+
+export interface GoodsReceiptLineRequest {
+  itemId: string;
+  quantity: number;
+  lot?: NewLotRequest; // artículos controlados por lotes
+}
+
+export interface GoodsReceiptRequest {
+  lines: GoodsReceiptLineRequest[];
+  warehouseId?: string; // sin almacén, cada artículo entra en su ubicación principal
+  binId?: string;
+  notes?: string;
+}
+
+export class PurchaseOrderUseCases {
+  constructor(
+    private purchaseOrderRepository: PurchaseOrderRepository,
+    private inventoryRepository: IInventoryRepository,
+    private supplierUseCases: SupplierUseCases,
+    private stockMovementUseCases: StockMovementUseCases
+  ) {}
+
+  async createPurchaseOrder(request: CreatePurchaseOrderRequest, createdBy?: string): Promise<PurchaseOrder> {
+    const supplier = await this.supplierUseCases.getSupplierById(request.supplierId);
+    if (!supplier.isActive) {
+      throw new Error(`El proveedor ${supplier.name} está desactivado`);
+    }
+
+    const lines = await this.buildLines(request.lines || [], supplier);
+    const poNumber = await this.purchaseOrderRepository.findLatestNumber() + 1;
+
+    return this.purchaseOrderRepository.create({
+      poNumber,
+      supplierId: supplier.id,
+      supplierCode: supplier.code,
+      supplierName: supplier.name,
+      currency: supplier.currency,
+      status: PurchaseOrderStatus.DRAFT,
+      lines,
+      expectedDate: request.expectedDate || this.defaultExpectedDate(supplier),
+      notes: request.notes?.trim(),
+      receipts: [],
+      createdBy
+    });
+  }
+
+  async getPurchaseOrders(filters?: PurchaseOrderFilters): Promise<PurchaseOrder[]> {
+    return this.purchaseOrderRepository.findAll(filters);
+  }
+
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.purchaseOrderRepository.findById(id);
+    if (!purchaseOrder) {
+      throw new Error('Orden de compra no encontrada');
+    }
+    return purchaseOrder;
+  }
+
+  // Solo los borradores se pueden modificar
+  async updatePurchaseOrder(id: string, updates: Partial<CreatePurchaseOrderRequest>): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getPurchaseOrderById(id);
+    this.assertStatus(purchaseOrder, [PurchaseOrderStatus.DRAFT], 'Solo se pueden modificar órdenes en borrador');
+
+    const supplier = await this.supplierUseCases.getSupplierById(updates.supplierId || purchaseOrder.supplierId);
+    if (supplier.id !== purchaseOrder.supplierId && !supplier.isActive) {
+      throw new Error(`El proveedor ${supplier.name} está desactivado`);
+    }
+
+    // Al cambiar de proveedor se recalculan precios y referencias de las líneas
+    const lineRequests = updates.lines || (supplier.id !== purchaseOrder.supplierId
+      ? purchaseOrder.lines.map(line => ({ itemId: line.itemId, quantity: line.quantity, expectedDate: line.expectedDate }))
+      : undefined);
+    const lines = lineRequests ? await this.buildLines(lineRequests, supplier) : undefined;
+
+    const updatedPurchaseOrder = await this.purchaseOrderRepository.updateIfStatus(id, [PurchaseOrderStatus.DRAFT], {
+      supplierId: supplier.id,
+      supplierCode: supplier.code,
+      supplierName: supplier.name,
+      currency: supplier.currency,
+      ...(lines && { lines }),
+      ...(updates.expectedDate !== undefined && { expectedDate: updates.expectedDate }),
+      ...(updates.notes !== undefined && { notes: updates.notes?.trim() })
+    });
+    if (!updatedPurchaseOrder) {
+      throw new Error('La orden de compra ya no está en borrador');
+    }
+    return updatedPurchaseOrder;
+  }
+
+  async deletePurchaseOrder(id: string): Promise<boolean> {
+    const purchaseOrder = await this.getPurchaseOrderById(id);
+    this.assertStatus(purchaseOrder, [PurchaseOrderStatus.DRAFT], 'Solo se pueden eliminar órdenes en borrador; cierre la orden en su lugar');
+    return this.purchaseOrderRepository.delete(id);
+  }
+
+  // Envía la orden al proveedor: a partir de aquí sus cantidades se esperan como entradas
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getPurchaseOrderById(id);
+    this.assertStatus(purchaseOrder, [PurchaseOrderStatus.DRAFT], 'Solo se pueden enviar órdenes en borrador');
+    if (purchaseOrder.lines.length === 0) {
+      throw new Error('La orden de compra no tiene líneas');
+    }
+
+    const sentPurchaseOrder = await this.purchaseOrderRepository.updateIfStatus(id, [PurchaseOrderStatus.DRAFT], {
+      status: PurchaseOrderStatus.SENT,
+      sentAt: new Date()
+    });
+    if (!sentPurchaseOrder) {
+      throw new Error('La orden de compra ya no está en borrador');
+    }
+    return sentPurchaseOrder;
+  }
+
+  // Cierra la orden: lo que quede pendiente deja de esperarse
+  async closePurchaseOrder(id: string): Promise<PurchaseOrder> {
+    const closableStatuses = [...OPEN_PURCHASE_ORDER_STATUSES, PurchaseOrderStatus.RECEIVED];
+    const purchaseOrder = await this.getPurchaseOrderById(id);
+    this.assertStatus(purchaseOrder, closableStatuses, 'Solo se pueden cerrar órdenes enviadas o recibidas');
+
+    const closedPurchaseOrder = await this.purchaseOrderRepository.updateIfStatus(id, closableStatuses, {
+      status: PurchaseOrderStatus.CLOSED,
+      closedAt: new Date()
+    });
+    if (!closedPurchaseOrder) {
+      throw new Error('La orden de compra ha cambiado de estado');
+    }
+    return closedPurchaseOrder;
+  }
+
+  // Recepción de mercancía: registra las entradas de stock y actualiza lo recibido.
+  // Se admiten recepciones parciales, pero nunca más de lo pendiente en cada línea
+  async receiveGoods(id: string, request: GoodsReceiptRequest, performedBy?: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getPurchaseOrderById(id);
+    this.assertStatus(purchaseOrder, OPEN_PURCHASE_ORDER_STATUSES, 'Solo se pueden recibir órdenes enviadas');
+
+    const receiptLines = (request.lines || []).filter(line => Number(line.quantity) > 0);
+    if (receiptLines.length === 0) {
+      throw new Error('Indique la cantidad recibida de al menos una línea');
+    }
+
+    const label = formatPoNumber(purchaseOrder.poNumber);
+    const seen = new Set<string>();
+    const movementRequests: RecordStockMovementRequest[] = [];
+    for (const receiptLine of receiptLines) {
+      const line = purchaseOrder.lines.find(orderLine => orderLine.itemId === receiptLine.itemId);
+      if (!line) {
+        throw new Error(`El artículo ${receiptLine.itemId} no está en la orden ${label}`);
+      }
+      if (seen.has(line.itemId)) {
+        throw new Error(`${line.itemName} aparece más de una vez en la recepción`);
+      }
+      seen.add(line.itemId);
+
+      const quantity = Number(receiptLine.quantity);
+      const outstanding = getOutstandingQuantity(line);
+      if (quantity > outstanding + 1e-9) {
+        throw new Error(`No se pueden recibir ${quantity} ${line.unit} de ${line.itemName}: pendiente ${outstanding} ${line.unit}`);
+      }
+
+      const item = await this.getItem(line.itemId);
+      movementRequests.push({
+        itemId: item.id,
+        type: StockMovementType.RECEIPT,
+        quantity,
+        reason: `Recepción ${label} (${purchaseOrder.supplierName})`,
+        referenceType: StockMovementReferenceType.PURCHASE_ORDER,
+        referenceId: purchaseOrder.id,
+        performedBy,
+        warehouseId: request.warehouseId || undefined,
+        binId: request.binId || undefined,
+        lot: item.isLotControlled
+          ? { ...receiptLine.lot, supplier: receiptLine.lot?.supplier || purchaseOrder.supplierName }
+          : undefined
+      });
+    }
+
+    // Todas las entradas se registran juntas: si una falla no se registra ninguna
+    const movements = await this.stockMovementUseCases.recordMovements(movementRequests);
+
+    const receipt: PurchaseReceipt = {
+      receivedAt: new Date(),
+      receivedBy: performedBy,
+      warehouseId: request.warehouseId || undefined,
+      binId: request.binId || undefined,
+      notes: request.notes?.trim() || undefined,
+      lines: movementRequests.map(movementRequest => {
+        const itemMovements = movements.filter(movement => movement.itemId === movementRequest.itemId);
+        return {
+          itemId: movementRequest.itemId,
+          quantity: movementRequest.quantity,
+          movementIds: itemMovements.map(movement => movement.id),
+          lotNumber: itemMovements.find(movement => movement.lotNumber)?.lotNumber
+        };
+      })
+    };
+
+    const lines: PurchaseOrderLine[] = purchaseOrder.lines.map(line => {
+      const received = receipt.lines.find(receiptLine => receiptLine.itemId === line.itemId);
+      return received
+        ? { ...line, receivedQuantity: roundQuantity((line.receivedQuantity || 0) + received.quantity) }
+        : line;
+    });
+    const isFullyReceived = lines.every(line => getOutstandingQuantity(line) <= 0);
+
+    const updatedPurchaseOrder = await this.purchaseOrderRepository.updateIfStatus(id, OPEN_PURCHASE_ORDER_STATUSES, {
+      lines,
+      receipts: [...purchaseOrder.receipts, receipt],
+      status: isFullyReceived ? PurchaseOrderStatus.RECEIVED : PurchaseOrderStatus.PARTIALLY_RECEIVED,
+      ...(isFullyReceived && { receivedAt: receipt.receivedAt })
+    });
+
+    if (!updatedPurchaseOrder) {
+      // La orden se cerró mientras tanto: se anulan las entradas registradas
+      await this.stockMovementUseCases.reverseMovements(
+        movements.map(movement => movement.id),
+        `Anulación de la recepción ${label}`,
+        performedBy
+      );
+      throw new Error(`La orden ${label} ha cambiado de estado; la recepción no se ha registrado`);
+    }
+
+    return updatedPurchaseOrder;
+  }
+
+  // Cantidades pendientes de recibir por artículo en las órdenes enviadas
+  async getIncoming(itemId?: string): Promise<IncomingItem[]> {
+    const purchaseOrders = await this.purchaseOrderRepository.findAll({ status: OPEN_PURCHASE_ORDER_STATUSES, itemId });
+    const incoming = new Map<string, IncomingItem>();
+
+    for (const purchaseOrder of purchaseOrders) {
+      for (const line of purchaseOrder.lines) {
+        const outstandingQuantity = getOutstandingQuantity(line);
+        if (outstandingQuantity <= 0 || (itemId && line.itemId !== itemId)) {
+          continue;
+        }
+
+        const entry = incoming.get(line.itemId) || {
+          itemId: line.itemId,
+          itemName: line.itemName,
+          itemSku: line.itemSku,
+          unit: line.unit,
+          incomingQuantity: 0,
+          orders: []
+        };
+        const expectedDate = line.expectedDate || purchaseOrder.expectedDate;
+        entry.incomingQuantity = roundQuantity(entry.incomingQuantity + outstandingQuantity);
+        entry.orders.push({
+          purchaseOrderId: purchaseOrder.id,
+          poNumber: purchaseOrder.poNumber,
+          supplierName: purchaseOrder.supplierName,
+          status: purchaseOrder.status,
+          outstandingQuantity,
+          expectedDate
+        });
+        if (expectedDate && (!entry.nextExpectedDate || expectedDate < entry.nextExpectedDate)) {
+          entry.nextExpectedDate = expectedDate;
+        }
+        incoming.set(line.itemId, entry);
+      }
+    }
+
+    return Array.from(incoming.values()).sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+
+  private async buildLines(requests: PurchaseOrderLineRequest[], supplier: Supplier): Promise<PurchaseOrderLine[]> {
+    const seen = new Set<string>();
+    const lines: PurchaseOrderLine[] = [];
+
+    for (const request of requests) {
+      if (seen.has(request.itemId)) {
+        throw new Error('Un artículo solo puede aparecer una vez en la orden');
+      }
+      seen.add(request.itemId);
+
+      const item = await this.getItem(request.itemId);
+      const quantity = Number(request.quantity);
+      if (!(quantity > 0)) {
+        throw new Error(`La cantidad de ${item.name} debe ser mayor que 0`);
+      }
+
+      const conditions = item.suppliers?.find(line => line.supplierId === supplier.id);
+      if (conditions?.minimumOrderQuantity && quantity < conditions.minimumOrderQuantity) {
+        throw new Error(`El pedido mínimo de ${item.name} a ${supplier.name} es ${conditions.minimumOrderQuantity} ${item.unit}`);
+      }
+
+      const unitPrice = request.unitPrice !== undefined && request.unitPrice !== null && String(request.unitPrice) !== ''
+        ? Number(request.unitPrice)
+        : conditions?.unitPrice ?? item.unitPrice;
+      if (Number.isNaN(unitPrice) || unitPrice < 0) {
+        throw new Error(`El precio de ${item.name} no puede ser negativo`);
+      }
+
+      lines.push({
+        itemId: item.id,
+        itemName: item.name,
+        itemSku: item.sku,
+        unit: item.unit,
+        supplierSku: conditions?.supplierSku,
+        quantity,
+        receivedQuantity: 0,
+        unitPrice,
+        expectedDate: request.expectedDate || undefined
+      });
+    }
+
+    return lines;
+  }
+
+  // Fecha prevista por defecto: hoy más el plazo de entrega del proveedor
+  private defaultExpectedDate(supplier: Supplier): Date | undefined {
+    if (!supplier.leadTimeDays) {
+      return undefined;
+    }
+    const expectedDate = new Date();
+    expectedDate.setDate(expectedDate.getDate() + supplier.leadTimeDays);
+    return expectedDate;
+  }
+
+  private assertStatus(purchaseOrder: PurchaseOrder, statuses: PurchaseOrderStatus[], message: string): void {
+    if (!statuses.includes(purchaseOrder.status)) {
+      throw new Error(message);
+    }
+  }
+
+  private async getItem(itemId: string): Promise<InventoryItem> {
+    const item = await this.inventoryRepository.findById(itemId);
+    if (!item) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+    return item;
+  }
+}
+
+// Evita arrastrar errores de coma flotante al acumular cantidades recibidas
+const roundQuantity = (quantity: number): number => Math.round(quantity * 1000000) / 1000000;
@@ -0,0 +1,241 @@
+import { InventoryItem, InventoryStatus } from '../../domain/entities/InventoryItem';
+import { OPEN_MANUFACTURING_ORDER_STATUSES } from '../../domain/entities/ManufacturingOrder';
+import {
+  PlannedOrderType,
+  getPlannedOrderType,
+  getReplenishmentQuantity,
+  getMakeLeadTimeDays
+} from '../../domain/entities/Mrp';
+import { getPendingOrderQuantity } from '../../domain/entities/ProductionCard';
+import { ON_ORDER_PURCHASE_ORDER_STATUSES, formatPoNumber, getOutstandingQuantity } from '../../domain/entities/PurchaseOrder';
+import {
+  ReplenishmentSuggestion,
+  ReplenishmentStatus,
+  REPLENISHMENT_CLIENT_NAME
+} from '../../domain/entities/ReplenishmentSuggestion';
+import { Supplier, getPreferredSupplier } from '../../domain/entities/Supplier';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import {
+  ReplenishmentSuggestionRepository,
+  ReplenishmentSuggestionFilters
+} from '../../infrastructure/repositories/MongoReplenishmentSuggestionRepository';
+import { PurchaseOrderRepository } from '../../infrastructure/repositories/MongoPurchaseOrderRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { SupplierUseCases } from './SupplierUseCases';
+import { PurchaseOrderUseCases } from './PurchaseOrderUseCases';
+import { ManufacturingOrderUseCases } from './ManufacturingOrderUseCases';
+
+export interface ApproveReplenishmentRequest {
+  quantity?: number; // por defecto, la sugerida
+  supplierId?: string; // compras: por defecto, el proveedor preferente
+  dueDate?: Date; // compras: por defecto, hoy + plazo del proveedor; fabricación: hoy + días de fabricación
+}
+
+export class ReplenishmentUseCases {
+  constructor(
+    private suggestionRepository: ReplenishmentSuggestionRepository,
+    private inventoryRepository: IInventoryRepository,
+    private purchaseOrderRepository: PurchaseOrderRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private supplierUseCases: SupplierUseCases,
+    private purchaseOrderUseCases: PurchaseOrderUseCases,
+    private manufacturingOrderUseCases: ManufacturingOrderUseCases
+  ) {}
+
+  // Se llama tras cada bajada de stock con los artículos afectados
+  async checkItems(itemIds: string[], triggeredBy?: string): Promise<ReplenishmentSuggestion[]> {
+    const suggestions: ReplenishmentSuggestion[] = [];
+    for (const itemId of itemIds) {
+      const item = await this.inventoryRepository.findById(itemId);
+      if (!item) continue;
+
+      const suggestion = await this.evaluateItem(item, triggeredBy);
+      if (suggestion) {
+        suggestions.push(suggestion);
+      }
+    }
+    return suggestions;
+  }
+
+  // Revisa todos los artículos activos (por ejemplo, tras cambiar los stocks mínimos)
+  async scanAll(triggeredBy?: string): Promise<ReplenishmentSuggestion[]> {
+    const items = await this.inventoryRepository.findAll({ status: InventoryStatus.ACTIVE });
+    const suggestions: ReplenishmentSuggestion[] = [];
+    for (const item of items) {
+      const suggestion = await this.evaluateItem(item, triggeredBy);
+      if (suggestion) {
+        suggestions.push(suggestion);
+      }
+    }
+    return suggestions;
+  }
+
+  async getSuggestions(filters?: ReplenishmentSuggestionFilters): Promise<ReplenishmentSuggestion[]> {
+    return this.suggestionRepository.findAll(filters);
+  }
+
+  async getSuggestionById(id: string): Promise<ReplenishmentSuggestion> {
+    const suggestion = await this.suggestionRepository.findById(id);
+    if (!suggestion) {
+      throw new Error('Sugerencia de reposición no encontrada');
+    }
+    return suggestion;
+  }
+
+  // Convierte la sugerencia en un borrador de orden de compra o en una orden de fabricación
+  async approveSuggestion(id: string, request: ApproveReplenishmentRequest, approvedBy?: string): Promise<ReplenishmentSuggestion> {
+    const suggestion = await this.getSuggestionById(id);
+    if (suggestion.status !== ReplenishmentStatus.PENDING) {
+      throw new Error('La sugerencia ya no está pendiente');
+    }
+
+    const quantity = request?.quantity !== undefined && request.quantity !== null
+      ? Number(request.quantity)
+      : suggestion.suggestedQuantity;
+    if (!(quantity > 0)) {
+      throw new Error('La cantidad debe ser mayor que 0');
+    }
+    if (suggestion.type === PlannedOrderType.MAKE && !Number.isInteger(quantity)) {
+      throw new Error('La fabricación debe ser de unidades enteras');
+    }
+
+    const supplierId = request?.supplierId || suggestion.supplierId;
+    if (suggestion.type === PlannedOrderType.BUY && !supplierId) {
+      throw new Error(`${suggestion.itemName} no tiene proveedor: indica uno para aprobar la compra`);
+    }
+
+    // Se marca antes de crear la orden para que no se apruebe dos veces
+    const claimed = await this.suggestionRepository.updateIfStatus(id, ReplenishmentStatus.PENDING, {
+      status: ReplenishmentStatus.APPROVED
+    });
+    if (!claimed) {
+      throw new Error('La sugerencia ya no está pendiente');
+    }
+
+    try {
+      const notes = `Reposición por punto de pedido de ${suggestion.itemName}`;
+      let referenceId: string;
+      let reference: string;
+
+      if (suggestion.type === PlannedOrderType.BUY) {
+        const purchaseOrder = await this.purchaseOrderUseCases.createPurchaseOrder({
+          supplierId: supplierId as string,
+          expectedDate: request?.dueDate,
+          notes,
+          lines: [{ itemId: suggestion.itemId, quantity }]
+        }, approvedBy);
+        referenceId = purchaseOrder.id;
+        reference = formatPoNumber(purchaseOrder.poNumber);
+      } else {
+        const { order } = await this.manufacturingOrderUseCases.createManufacturingOrder({
+          modelId: suggestion.itemId,
+          quantity,
+          clientName: REPLENISHMENT_CLIENT_NAME,
+          dueDate: request?.dueDate ? new Date(request.dueDate) : await this.defaultMakeDueDate(suggestion.itemId, quantity),
+          notes
+        });
+        referenceId = order.id;
+        reference = `OF ${order.modelName}`;
+      }
+
+      const approved = await this.suggestionRepository.updateIfStatus(id, ReplenishmentStatus.APPROVED, {
+        approvedQuantity: quantity,
+        approvedAt: new Date(),
+        approvedBy,
+        referenceId,
+        reference
+      });
+      return approved || claimed;
+    } catch (error) {
+      await this.suggestionRepository.updateIfStatus(id, ReplenishmentStatus.APPROVED, { status: ReplenishmentStatus.PENDING });
+      throw error;
+    }
+  }
+
+  async dismissSuggestion(id: string, dismissedBy?: string): Promise<ReplenishmentSuggestion> {
+    await this.getSuggestionById(id);
+    const dismissed = await this.suggestionRepository.updateIfStatus(id, ReplenishmentStatus.PENDING, {
+      status: ReplenishmentStatus.DISMISSED,
+      dismissedAt: new Date(),
+      dismissedBy
+    });
+    if (!dismissed) {
+      throw new Error('La sugerencia ya no está pendiente');
+    }
+    return dismissed;
+  }
+
+  // Punto de pedido: si el disponible baja del stock mínimo y lo pendiente de recibir no lo
+  // cubre, se sugiere reponer hasta el stock máximo (una sola sugerencia pendiente por artículo)
+  private async evaluateItem(item: InventoryItem, triggeredBy?: string): Promise<ReplenishmentSuggestion | null> {
+    if (item.status !== InventoryStatus.ACTIVE || !(item.minimumStock > 0)) {
+      return null;
+    }
+
+    const available = item.quantity - (item.reserved || 0);
+    if (available >= item.minimumStock) {
+      return null;
+    }
+
+    const onOrder = await this.getOnOrderQuantity(item.id);
+    const position = available + onOrder;
+    if (position >= item.minimumStock) {
+      return null;
+    }
+
+    const type = getPlannedOrderType(item);
+    const supplierLine = type === PlannedOrderType.BUY ? getPreferredSupplier(item.suppliers) : undefined;
+    const supplier = supplierLine ? await this.findSupplier(supplierLine.supplierId) : undefined;
+
+    return this.suggestionRepository.savePending({
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      unit: item.unit,
+      type,
+      available,
+      onOrder,
+      minimumStock: item.minimumStock,
+      maximumStock: item.maximumStock,
+      suggestedQuantity: getReplenishmentQuantity(item, type, position, supplierLine?.minimumOrderQuantity),
+      supplierId: supplier?.id,
+      supplierName: supplier?.name,
+      triggeredBy
+    });
+  }
+
+  // Pendiente de recibir en compras (incluidos borradores) y lo que les queda por producir a las
+  // órdenes de fabricación abiertas (sus tarjetas completadas ya están en stock)
+  private async getOnOrderQuantity(itemId: string): Promise<number> {
+    const purchaseOrders = await this.purchaseOrderRepository.findAll({ status: ON_ORDER_PURCHASE_ORDER_STATUSES, itemId });
+    const purchased = purchaseOrders
+      .flatMap(purchaseOrder => purchaseOrder.lines)
+      .filter(line => line.itemId === itemId)
+      .reduce((sum, line) => sum + getOutstandingQuantity(line), 0);
+
+    const orders = await this.manufacturingOrderRepository.findAll({ modelId: itemId });
+    let manufactured = 0;
+    for (const order of orders.filter(entry => OPEN_MANUFACTURING_ORDER_STATUSES.includes(entry.status))) {
+      manufactured += getPendingOrderQuantity(order.quantity, await this.productionCardRepository.findByOrderId(order.id));
+    }
+
+    return purchased + manufactured;
+  }
+
+  private async findSupplier(supplierId: string): Promise<Supplier | undefined> {
+    try {
+      return await this.supplierUseCases.getSupplierById(supplierId);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async defaultMakeDueDate(itemId: string, quantity: number): Promise<Date> {
+    const item = await this.inventoryRepository.findById(itemId);
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + (item ? getMakeLeadTimeDays(item, quantity) : 0));
+    return dueDate;
+  }
+}
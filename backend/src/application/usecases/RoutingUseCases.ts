@@ -0,0 +1,112 @@
+import { InventoryItem, RoutingOperation } from '../../domain/entities/InventoryItem';
+import { ComponentProgress, OperationProgress, OperationStatus } from '../../domain/entities/ManufacturingOrder';
+import { WorkCenter } from '../../domain/entities/WorkCenter';
+import { WorkCenterRepository } from '../../infrastructure/repositories/MongoWorkCenterRepository';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+
+export class RoutingUseCases {
+  constructor(
+    private inventoryRepository: IInventoryRepository,
+    private workCenterRepository: WorkCenterRepository
+  ) {}
+
+  // Valida y ordena por secuencia la ruta de fabricación de un artículo
+  async validateRouting(routing: RoutingOperation[]): Promise<RoutingOperation[]> {
+    const sequences = new Set<number>();
+    const operations: RoutingOperation[] = [];
+
+    for (const operation of routing) {
+      const sequence = Number(operation.sequence);
+      if (!Number.isInteger(sequence) || sequence < 1) {
+        throw new Error('La secuencia de cada operación debe ser un entero mayor a 0');
+      }
+      if (sequences.has(sequence)) {
+        throw new Error(`La secuencia ${sequence} está repetida en la ruta`);
+      }
+      sequences.add(sequence);
+
+      if (!operation.name || !operation.name.trim()) {
+        throw new Error(`La operación ${sequence} debe tener un nombre`);
+      }
+
+      const setupMinutes = Number(operation.setupMinutes) || 0;
+      const runMinutesPerUnit = Number(operation.runMinutesPerUnit) || 0;
+      if (setupMinutes < 0 || runMinutesPerUnit < 0) {
+        throw new Error(`Los tiempos de la operación ${sequence} no pueden ser negativos`);
+      }
+
+      const workCenter = await this.workCenterRepository.findById(operation.workCenterId);
+      if (!workCenter) {
+        throw new Error(`Centro de trabajo de la operación ${sequence} no encontrado`);
+      }
+      if (!workCenter.isActive) {
+        throw new Error(`El centro de trabajo ${workCenter.code} está inactivo`);
+      }
+
+      operations.push({
+        sequence,
+        name: operation.name.trim(),
+        workCenterId: workCenter.id,
+        setupMinutes,
+        runMinutesPerUnit,
+        description: operation.description?.trim()
+      });
+    }
+
+    return operations.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // Operaciones de una tarjeta: primero las rutas de los componentes (en el orden de la tarjeta)
+  // y luego la ruta del modelo, que ensambla los componentes terminados
+  async buildCardOperations(modelId: string, components: ComponentProgress[], quantity = 1): Promise<OperationProgress[]> {
+    const operations: OperationProgress[] = [];
+    const workCenters = new Map<string, WorkCenter | null>();
+
+    for (const component of components) {
+      const item = await this.inventoryRepository.findById(component.componentId);
+      if (item) {
+        operations.push(...await this.buildItemOperations(item, component.quantityRequired * quantity, workCenters, component.componentId));
+      }
+    }
+
+    const model = await this.inventoryRepository.findById(modelId);
+    if (model) {
+      operations.push(...await this.buildItemOperations(model, quantity, workCenters));
+    }
+
+    return operations;
+  }
+
+  private async buildItemOperations(
+    item: InventoryItem,
+    quantity: number,
+    workCenters: Map<string, WorkCenter | null>,
+    componentId?: string
+  ): Promise<OperationProgress[]> {
+    const operations: OperationProgress[] = [];
+    const routing = [...(item.routing || [])].sort((a, b) => a.sequence - b.sequence);
+
+    for (const operation of routing) {
+      if (!workCenters.has(operation.workCenterId)) {
+        workCenters.set(operation.workCenterId, await this.workCenterRepository.findById(operation.workCenterId));
+      }
+      const workCenter = workCenters.get(operation.workCenterId);
+
+      operations.push({
+        operationId: `${item.id}-${operation.sequence}`,
+        sequence: operation.sequence,
+        name: operation.name,
+        itemId: item.id,
+        itemName: item.name,
+        componentId,
+        workCenterId: operation.workCenterId,
+        workCenterName: workCenter ? workCenter.name : 'Centro de trabajo eliminado',
+        plannedSetupMinutes: operation.setupMinutes,
+        plannedRunMinutes: operation.runMinutesPerUnit * quantity,
+        status: OperationStatus.PENDING
+      });
+    }
+
+    return operations;
+  }
+}
@@ -0,0 +1,453 @@
+import {
+  SalesOrder,
+  SalesOrderLine,
+  SalesOrderLineProgress,
+  SalesOrderLineStatus,
+  SalesOrderStatus,
+  LinkedOrderProgress,
+  formatSoNumber,
+  getLineDueDate
+} from '../../domain/entities/SalesOrder';
+import { ManufacturingOrderStatus, OPEN_MANUFACTURING_ORDER_STATUSES } from '../../domain/entities/ManufacturingOrder';
+import { ProductionCard, ProductionCardStatus } from '../../domain/entities/ProductionCard';
+import { InventoryItem, InventoryType } from '../../domain/entities/InventoryItem';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { SalesOrderRepository, SalesOrderFilters } from '../../infrastructure/repositories/MongoSalesOrderRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { CustomerUseCases } from './CustomerUseCases';
+import { ManufacturingOrderUseCases } from './ManufacturingOrderUseCases';
+
+export interface SalesOrderLineRequest {
+  itemId: string;
+  quantity: number;
+  unitPrice?: number; // por defecto, el precio del artículo
+  dueDate?: Date;
+}
+
+export interface CreateSalesOrderRequest {
+  customerId: string;
+  customerReference?: string;
+  requestedDate: Date;
+  notes?: string;
+  lines: SalesOrderLineRequest[];
+}
+
+export interface FulfilSalesOrderResult {
+  salesOrder: SalesOrder;
+  manufacturingOrderIds: string[]; // órdenes generadas en esta operación
+  errors: string[]; // líneas que no se han podido cubrir
+}
+
+// Orden de las situaciones de línea: la del pedido es la más atrasada
+const LINE_STATUS_RANK: SalesOrderLineStatus[] = [
+  SalesOrderLineStatus.PENDING,
+  SalesOrderLineStatus.IN_PRODUCTION,
+  SalesOrderLineStatus.READY,
+  SalesOrderLineStatus.DELIVERED
+];
+
+export class SalesOrderUseCases {
+  constructor(
+    private salesOrderRepository: SalesOrderRepository,
+    private inventoryRepository: IInventoryRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private customerUseCases: CustomerUseCases,
+    private manufacturingOrderUseCases: ManufacturingOrderUseCases
+  ) {}
+
+  async createSalesOrder(request: CreateSalesOrderRequest, createdBy?: string): Promise<SalesOrder> {
+    const customer = await this.customerUseCases.getActiveCustomer(request.customerId);
+    const requestedDate = this.parseDate(request.requestedDate, 'La fecha de entrega es requerida');
+
+    const lines = await this.buildLines(request.lines || []);
+    const soNumber = await this.salesOrderRepository.findLatestNumber() + 1;
+
+    return this.salesOrderRepository.create({
+      soNumber,
+      customerId: customer.id,
+      customerCode: customer.code,
+      customerName: customer.name,
+      customerReference: request.customerReference?.trim() || undefined,
+      status: SalesOrderStatus.DRAFT,
+      lines,
+      requestedDate,
+      notes: request.notes?.trim(),
+      createdBy
+    });
+  }
+
+  async getSalesOrders(filters?: SalesOrderFilters): Promise<SalesOrder[]> {
+    const salesOrders = await this.salesOrderRepository.findAll(filters);
+    const withProgress: SalesOrder[] = [];
+    for (const salesOrder of salesOrders) {
+      withProgress.push(await this.withProgress(salesOrder));
+    }
+    return withProgress;
+  }
+
+  async getSalesOrderById(id: string): Promise<SalesOrder> {
+    return this.withProgress(await this.findSalesOrder(id));
+  }
+
+  // Solo los borradores se pueden modificar
+  async updateSalesOrder(id: string, updates: Partial<CreateSalesOrderRequest>): Promise<SalesOrder> {
+    const salesOrder = await this.findSalesOrder(id);
+    this.assertStatus(salesOrder, [SalesOrderStatus.DRAFT], 'Solo se pueden modificar pedidos en borrador');
+
+    const customer = updates.customerId && updates.customerId !== salesOrder.customerId
+      ? await this.customerUseCases.getActiveCustomer(updates.customerId)
+      : undefined;
+    const lines = updates.lines ? await this.buildLines(updates.lines) : undefined;
+
+    const updatedSalesOrder = await this.salesOrderRepository.updateIfStatus(id, [SalesOrderStatus.DRAFT], {
+      ...(customer && { customerId: customer.id, customerCode: customer.code, customerName: customer.name }),
+      ...(lines && { lines }),
+      ...(updates.requestedDate !== undefined && {
+        requestedDate: this.parseDate(updates.requestedDate, 'La fecha de entrega es requerida')
+      }),
+      ...(updates.customerReference !== undefined && { customerReference: updates.customerReference?.trim() }),
+      ...(updates.notes !== undefined && { notes: updates.notes?.trim() })
+    });
+    if (!updatedSalesOrder) {
+      throw new Error('El pedido de venta ya no está en borrador');
+    }
+    return updatedSalesOrder;
+  }
+
+  async deleteSalesOrder(id: string): Promise<boolean> {
+    const salesOrder = await this.findSalesOrder(id);
+    this.assertStatus(salesOrder, [SalesOrderStatus.DRAFT], 'Solo se pueden eliminar pedidos en borrador; cancele el pedido en su lugar');
+    return this.salesOrderRepository.delete(id);
+  }
+
+  // Confirma el pedido: cada línea se sirve primero desde el stock disponible
+  // y la falta se cubre con órdenes de fabricación ligadas al pedido
+  async confirmSalesOrder(id: string, confirmedBy?: string): Promise<FulfilSalesOrderResult> {
+    const salesOrder = await this.findSalesOrder(id);
+    this.assertStatus(salesOrder, [SalesOrderStatus.DRAFT], 'Solo se pueden confirmar pedidos en borrador');
+    if (salesOrder.lines.length === 0) {
+      throw new Error('El pedido de venta no tiene líneas');
+    }
+
+    const confirmed = await this.salesOrderRepository.updateIfStatus(id, [SalesOrderStatus.DRAFT], {
+      status: SalesOrderStatus.CONFIRMED,
+      confirmedAt: new Date(),
+      confirmedBy
+    });
+    if (!confirmed) {
+      throw new Error('El pedido de venta ya no está en borrador');
+    }
+
+    return this.fulfil(confirmed);
+  }
+
+  // Vuelve a cubrir lo que haya quedado sin cubrir (p. ej. tras cancelar una orden de fabricación)
+  async fulfilSalesOrder(id: string): Promise<FulfilSalesOrderResult> {
+    const salesOrder = await this.findSalesOrder(id);
+    this.assertStatus(salesOrder, [SalesOrderStatus.CONFIRMED], 'Solo se pueden servir pedidos confirmados');
+    return this.fulfil(salesOrder);
+  }
+
+  // Cancela el pedido: libera lo reservado y cancela las órdenes que no han empezado.
+  // Si alguna orden ya está en producción, hay que resolverla antes
+  async cancelSalesOrder(id: string): Promise<SalesOrder> {
+    const cancellableStatuses = [SalesOrderStatus.DRAFT, SalesOrderStatus.CONFIRMED];
+    const salesOrder = await this.findSalesOrder(id);
+    this.assertStatus(salesOrder, cancellableStatuses, 'Solo se pueden cancelar pedidos en borrador o confirmados');
+
+    const label = formatSoNumber(salesOrder.soNumber);
+    const pendingOrderIds: string[] = [];
+    for (const line of salesOrder.lines) {
+      for (const orderId of line.manufacturingOrderIds) {
+        const order = await this.manufacturingOrderRepository.findById(orderId);
+        if (!order || !OPEN_MANUFACTURING_ORDER_STATUSES.includes(order.status)) continue;
+        if (order.startedAt) {
+          throw new Error(`No se puede cancelar ${label}: la orden de fabricación de ${order.modelName} ya está en producción`);
+        }
+        pendingOrderIds.push(order.id);
+      }
+    }
+
+    const cancelled = await this.salesOrderRepository.updateIfStatus(id, cancellableStatuses, {
+      status: SalesOrderStatus.CANCELLED,
+      cancelledAt: new Date()
+    });
+    if (!cancelled) {
+      throw new Error(`El pedido ${label} ha cambiado de estado`);
+    }
+
+    for (const orderId of pendingOrderIds) {
+      try {
+        await this.manufacturingOrderUseCases.cancelOrder(orderId);
+      } catch (error) {
+        console.error(`Error al cancelar la orden de fabricación ${orderId} del pedido ${label}:`, error);
+      }
+    }
+
+    let released = cancelled;
+    for (const line of cancelled.lines) {
+      if (line.reservedQuantity <= 0) continue;
+      await this.inventoryRepository.adjustReserved(line.itemId, -line.reservedQuantity);
+      released = await this.salesOrderRepository.adjustLineReserved(id, line.itemId, -line.reservedQuantity) || released;
+    }
+
+    return released;
+  }
+
+  // Reserva para el cliente la unidad de una tarjeta completada de una orden del pedido
+  async reserveProducedUnit(card: ProductionCard): Promise<void> {
+    const order = await this.manufacturingOrderRepository.findById(card.orderId);
+    if (!order?.salesOrderId) return;
+
+    const salesOrder = await this.salesOrderRepository.findById(order.salesOrderId);
+    if (!salesOrder || salesOrder.status !== SalesOrderStatus.CONFIRMED) return;
+
+    const line = salesOrder.lines.find(orderLine => orderLine.manufacturingOrderIds.includes(order.id));
+    if (!line) return;
+
+    const units = Math.min(card.quantity, line.quantity - line.reservedQuantity - line.deliveredQuantity);
+    if (units <= 0) return;
+
+    await this.inventoryRepository.adjustReserved(line.itemId, units);
+    await this.salesOrderRepository.adjustLineReserved(salesOrder.id, line.itemId, units);
+  }
+
+  // Registra la entrega de unidades reservadas: dejan de estar reservadas y cuentan como entregadas.
+  // El pedido pasa a entregado cuando todas sus líneas lo están
+  async recordDelivery(id: string, deliveries: Array<{ itemId: string; quantity: number }>): Promise<SalesOrder> {
+    let salesOrder = await this.findSalesOrder(id);
+    for (const delivery of deliveries) {
+      await this.inventoryRepository.adjustReserved(delivery.itemId, -delivery.quantity);
+      await this.salesOrderRepository.adjustLineReserved(id, delivery.itemId, -delivery.quantity);
+      salesOrder = await this.salesOrderRepository.adjustLineDelivered(id, delivery.itemId, delivery.quantity) || salesOrder;
+    }
+
+    const isDelivered = salesOrder.lines.every(line => line.deliveredQuantity >= line.quantity);
+    if (isDelivered) {
+      salesOrder = await this.salesOrderRepository.updateIfStatus(id, [SalesOrderStatus.CONFIRMED], {
+        status: SalesOrderStatus.DELIVERED,
+        deliveredAt: new Date()
+      }) || salesOrder;
+    }
+    return salesOrder;
+  }
+
+  private async fulfil(salesOrder: SalesOrder): Promise<FulfilSalesOrderResult> {
+    const label = formatSoNumber(salesOrder.soNumber);
+    const manufacturingOrderIds: string[] = [];
+    const errors: string[] = [];
+
+    for (const line of salesOrder.lines) {
+      const progress = await this.getLineProgress(salesOrder, line);
+      if (progress.uncoveredQuantity <= 0) continue;
+
+      const item = await this.inventoryRepository.findById(line.itemId);
+      if (!item) {
+        errors.push(`${line.itemName}: artículo no encontrado`);
+        continue;
+      }
+
+      // Primero el stock libre (se venden unidades enteras)
+      const available = Math.max(0, Math.floor(item.quantity - (item.reserved || 0)));
+      const fromStock = Math.min(available, progress.uncoveredQuantity);
+      if (fromStock > 0) {
+        await this.inventoryRepository.adjustReserved(item.id, fromStock);
+        await this.salesOrderRepository.adjustLineReserved(salesOrder.id, item.id, fromStock, true);
+      }
+
+      const shortfall = progress.uncoveredQuantity - fromStock;
+      if (shortfall <= 0) continue;
+
+      if (item.canManufacture === false) {
+        errors.push(`${item.name}: faltan ${shortfall} ${item.unit} y el modelo no se puede fabricar`);
+        continue;
+      }
+
+      try {
+        const { order } = await this.manufacturingOrderUseCases.createManufacturingOrder({
+          modelId: item.id,
+          quantity: shortfall,
+          customerId: salesOrder.customerId,
+          salesOrderId: salesOrder.id,
+          dueDate: getLineDueDate(salesOrder, line),
+          notes: `Pedido ${label}${salesOrder.customerReference ? ` (ref. ${salesOrder.customerReference})` : ''}`
+        });
+        await this.salesOrderRepository.addLineManufacturingOrder(salesOrder.id, item.id, order.id);
+        manufacturingOrderIds.push(order.id);
+      } catch (error: any) {
+        errors.push(`${item.name}: ${error.message}`);
+      }
+    }
+
+    return {
+      salesOrder: await this.getSalesOrderById(salesOrder.id),
+      manufacturingOrderIds,
+      errors
+    };
+  }
+
+  // Situación de cada línea a partir de lo reservado, sus órdenes de fabricación y sus tarjetas
+  private async withProgress(salesOrder: SalesOrder): Promise<SalesOrder> {
+    if (salesOrder.status !== SalesOrderStatus.CONFIRMED && salesOrder.status !== SalesOrderStatus.DELIVERED) {
+      return salesOrder;
+    }
+
+    const lines: SalesOrderLine[] = [];
+    for (const line of salesOrder.lines) {
+      lines.push({ ...line, progress: await this.getLineProgress(salesOrder, line) });
+    }
+
+    const progresses = lines.map(line => line.progress!);
+    const lineStatus = LINE_STATUS_RANK[Math.min(...progresses.map(progress => LINE_STATUS_RANK.indexOf(progress.status)))];
+    const isFullyCovered = progresses.every(progress => progress.uncoveredQuantity <= 0);
+    const expectedReadyDate = isFullyCovered ? latest(progresses.map(progress => progress.expectedReadyDate)) : undefined;
+
+    return { ...salesOrder, lines, lineStatus, expectedReadyDate };
+  }
+
+  private async getLineProgress(salesOrder: SalesOrder, line: SalesOrderLine): Promise<SalesOrderLineProgress> {
+    const orders: LinkedOrderProgress[] = [];
+    let inProductionQuantity = 0;
+    let isStarted = false;
+
+    for (const orderId of line.manufacturingOrderIds) {
+      const order = await this.manufacturingOrderRepository.findById(orderId);
+      if (!order) continue;
+
+      const cards = await this.productionCardRepository.findByOrderId(order.id);
+      const pendingCards = cards.filter(card =>
+        card.status !== ProductionCardStatus.COMPLETED && card.status !== ProductionCardStatus.CANCELLED
+      );
+      const isOpen = OPEN_MANUFACTURING_ORDER_STATUSES.includes(order.status);
+
+      orders.push({
+        orderId: order.id,
+        status: order.status,
+        quantity: order.quantity,
+        completedQuantity: cards.filter(card => card.status === ProductionCardStatus.COMPLETED).length,
+        dueDate: order.dueDate,
+        expectedFinish: isOpen && pendingCards.length > 0
+          ? latest(pendingCards.map(card => card.plannedFinish || order.dueDate))
+          : undefined
+      });
+
+      if (isOpen) {
+        inProductionQuantity += pendingCards.length;
+        isStarted = isStarted || Boolean(order.startedAt)
+          || order.status === ManufacturingOrderStatus.IN_PROGRESS
+          || pendingCards.some(card => card.status !== ProductionCardStatus.PENDING);
+      }
+    }
+
+    const deliveredQuantity = Math.min(line.deliveredQuantity, line.quantity);
+    const readyQuantity = Math.min(line.reservedQuantity, line.quantity - deliveredQuantity);
+    inProductionQuantity = Math.min(inProductionQuantity, line.quantity - deliveredQuantity - readyQuantity);
+    const uncoveredQuantity = Math.max(0, line.quantity - deliveredQuantity - readyQuantity - inProductionQuantity);
+
+    const status = deliveredQuantity >= line.quantity
+      ? SalesOrderLineStatus.DELIVERED
+      : deliveredQuantity + readyQuantity >= line.quantity
+        ? SalesOrderLineStatus.READY
+        : isStarted ? SalesOrderLineStatus.IN_PRODUCTION : SalesOrderLineStatus.PENDING;
+    const isFinished = status === SalesOrderLineStatus.READY || status === SalesOrderLineStatus.DELIVERED;
+    const expectedReadyDate = !isFinished && uncoveredQuantity <= 0
+      ? latest(orders.map(order => order.expectedFinish))
+      : undefined;
+
+    return {
+      status,
+      readyQuantity,
+      inProductionQuantity,
+      uncoveredQuantity,
+      expectedReadyDate,
+      isLate: Boolean(expectedReadyDate && expectedReadyDate > endOfDay(getLineDueDate(salesOrder, line))),
+      orders
+    };
+  }
+
+  private async buildLines(requests: SalesOrderLineRequest[]): Promise<SalesOrderLine[]> {
+    const seen = new Set<string>();
+    const lines: SalesOrderLine[] = [];
+
+    for (const request of requests) {
+      if (seen.has(request.itemId)) {
+        throw new Error('Un modelo solo puede aparecer una vez en el pedido');
+      }
+      seen.add(request.itemId);
+
+      const item = await this.getItem(request.itemId);
+      if (item.type !== InventoryType.MODEL) {
+        throw new Error(`${item.name} no es un modelo: solo se venden modelos`);
+      }
+
+      const quantity = Number(request.quantity);
+      if (!(quantity > 0) || !Number.isInteger(quantity)) {
+        throw new Error(`La cantidad de ${item.name} debe ser un número entero mayor que 0`);
+      }
+
+      const unitPrice = request.unitPrice !== undefined && request.unitPrice !== null && String(request.unitPrice) !== ''
+        ? Number(request.unitPrice)
+        : item.unitPrice;
+      if (Number.isNaN(unitPrice) || unitPrice < 0) {
+        throw new Error(`El precio de ${item.name} no puede ser negativo`);
+      }
+
+      lines.push({
+        itemId: item.id,
+        itemName: item.name,
+        itemSku: item.sku,
+        unit: item.unit,
+        quantity,
+        unitPrice,
+        dueDate: request.dueDate ? this.parseDate(request.dueDate, `Fecha no válida en ${item.name}`) : undefined,
+        fromStockQuantity: 0,
+        reservedQuantity: 0,
+        deliveredQuantity: 0,
+        manufacturingOrderIds: []
+      });
+    }
+
+    return lines;
+  }
+
+  private async findSalesOrder(id: string): Promise<SalesOrder> {
+    const salesOrder = await this.salesOrderRepository.findById(id);
+    if (!salesOrder) {
+      throw new Error('Pedido de venta no encontrado');
+    }
+    return salesOrder;
+  }
+
+  private assertStatus(salesOrder: SalesOrder, statuses: SalesOrderStatus[], message: string): void {
+    if (!statuses.includes(salesOrder.status)) {
+      throw new Error(message);
+    }
+  }
+
+  private parseDate(value: Date | string | undefined, message: string): Date {
+    const date = value ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new Error(message);
+    }
+    return date;
+  }
+
+  private async getItem(itemId: string): Promise<InventoryItem> {
+    const item = await this.inventoryRepository.findById(itemId);
+    if (!item) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+    return item;
+  }
+}
+
+const latest = (dates: Array<Date | undefined>): Date | undefined =>
+  dates.reduce<Date | undefined>((max, date) => (date && (!max || date > max) ? new Date(date) : max), undefined);
+
+const endOfDay = (date: Date): Date => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
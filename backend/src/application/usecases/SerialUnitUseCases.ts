@@ -0,0 +1,174 @@
+import {
+  SerialUnit,
+  SerialUnitMaterial,
+  SerialUnitNonConformance,
+  SerialUnitOperator,
+  DEFAULT_SERIAL_PATTERN,
+  formatSerialNumber
+} from '../../domain/entities/SerialUnit';
+import { ProductionCard } from '../../domain/entities/ProductionCard';
+import { BackflushStatus, BackflushTrigger } from '../../domain/entities/Backflush';
+import { InspectionRecord } from '../../domain/entities/InspectionPlan';
+import { getLaborMinutes } from '../../domain/entities/LaborEntry';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { SerialUnitRepository, SerialUnitFilters } from '../../infrastructure/repositories/MongoSerialUnitRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { LaborEntryRepository } from '../../infrastructure/repositories/MongoLaborEntryRepository';
+import { NonConformanceRepository } from '../../infrastructure/repositories/MongoNonConformanceRepository';
+import { BackflushUseCases } from './BackflushUseCases';
+
+export class SerialUnitUseCases {
+  constructor(
+    private serialUnitRepository: SerialUnitRepository,
+    private inventoryRepository: IInventoryRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private backflushUseCases: BackflushUseCases,
+    private laborEntryRepository: LaborEntryRepository,
+    private nonConformanceRepository: NonConformanceRepository
+  ) {}
+
+  async getUnits(filters?: SerialUnitFilters): Promise<SerialUnit[]> {
+    return this.serialUnitRepository.findAll(filters);
+  }
+
+  async getUnitBySerialNumber(serialNumber: string): Promise<SerialUnit> {
+    const unit = await this.serialUnitRepository.findBySerialNumber(serialNumber.trim());
+    if (!unit) {
+      throw new Error('Número de serie no encontrado');
+    }
+    return unit;
+  }
+
+  // Asigna el número de serie a la unidad de una tarjeta que se está completando y guarda
+  // su genealogía. Se llama antes de marcar la tarjeta como completada (ver ProductionCardUseCases)
+  async registerUnit(card: ProductionCard, producedBy?: string): Promise<SerialUnit> {
+    const now = new Date();
+    const model = await this.inventoryRepository.findById(card.modelId);
+    const pattern = model?.serialPattern || DEFAULT_SERIAL_PATTERN;
+    const sequence = (await this.serialUnitRepository.findLatestSequence(card.modelId)) + 1;
+    const serialNumber = formatSerialNumber(pattern, card.modelSku, sequence, now);
+
+    const existing = await this.serialUnitRepository.findBySerialNumber(serialNumber);
+    if (existing) {
+      throw new Error(`El número de serie ${serialNumber} ya está asignado: revise el patrón de serie del modelo`);
+    }
+
+    // Si la unidad se completa en un retrabajo, lo hecho en las tarjetas anteriores también forma parte de ella
+    const previousCards = await this.getPreviousCards(card);
+    const cards = [...previousCards, card];
+    const cardIds = cards.map(c => c.id);
+
+    const inspections = cards.reduce<InspectionRecord[]>((records, c) => records.concat(c.inspections || []), []);
+
+    return this.serialUnitRepository.create({
+      serialNumber,
+      sequence,
+      modelId: card.modelId,
+      modelName: card.modelName,
+      modelSku: card.modelSku,
+      cardId: card.id,
+      cardLabel: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+      orderId: card.orderId,
+      orderName: card.orderName,
+      reworkOfCardIds: previousCards.length > 0 ? previousCards.map(c => c.id) : undefined,
+      components: card.components.map(component => ({
+        componentId: component.componentId,
+        componentName: component.componentName,
+        componentSku: component.componentSku,
+        completedAt: component.completedAt
+      })),
+      materials: await this.getConsumedMaterials(cardIds),
+      operators: await this.getOperators(cardIds, now),
+      inspections,
+      nonConformances: await this.getNonConformances(cardIds),
+      producedAt: now,
+      producedBy
+    });
+  }
+
+  // Deshace el registro cuando la tarjeta no llega a completarse
+  async removeUnit(id: string): Promise<void> {
+    await this.serialUnitRepository.delete(id);
+  }
+
+  private async getPreviousCards(card: ProductionCard): Promise<ProductionCard[]> {
+    const previous: ProductionCard[] = [];
+    let reworkOfCardId = card.reworkOfCardId;
+
+    while (reworkOfCardId && !previous.some(c => c.id === reworkOfCardId)) {
+      const original = await this.productionCardRepository.findById(reworkOfCardId);
+      if (!original) break;
+      previous.unshift(original);
+      reworkOfCardId = original.reworkOfCardId;
+    }
+
+    return previous;
+  }
+
+  // Consumos vigentes de los backflushes de componentes (los revertidos por retrabajo no cuentan)
+  private async getConsumedMaterials(cardIds: string[]): Promise<SerialUnitMaterial[]> {
+    const materials: SerialUnitMaterial[] = [];
+
+    for (const cardId of cardIds) {
+      const backflushes = await this.backflushUseCases.getCardBackflushes(cardId);
+      backflushes
+        .filter(backflush => backflush.status === BackflushStatus.POSTED && backflush.trigger === BackflushTrigger.COMPONENT_COMPLETION)
+        .forEach(backflush => {
+          backflush.lines
+            .filter(line => line.quantity < 0)
+            .forEach(line => materials.push({
+              itemId: line.itemId,
+              itemName: line.itemName,
+              itemSku: line.itemSku,
+              quantity: -line.quantity,
+              unit: line.unit,
+              componentId: backflush.componentId,
+              movementId: line.movementId,
+              lotId: line.lotId,
+              lotNumber: line.lotNumber
+            }));
+        });
+    }
+
+    return materials;
+  }
+
+  private async getOperators(cardIds: string[], now: Date): Promise<SerialUnitOperator[]> {
+    const operators = new Map<string, SerialUnitOperator>();
+
+    for (const cardId of cardIds) {
+      const entries = await this.laborEntryRepository.findAll({ cardId });
+      entries.forEach(entry => {
+        const operator = operators.get(entry.userId) || {
+          userId: entry.userId,
+          username: entry.username,
+          userName: entry.userName,
+          minutes: 0
+        };
+        operator.minutes += getLaborMinutes(entry, now);
+        operators.set(entry.userId, operator);
+      });
+    }
+
+    return Array.from(operators.values()).sort((a, b) => b.minutes - a.minutes);
+  }
+
+  private async getNonConformances(cardIds: string[]): Promise<SerialUnitNonConformance[]> {
+    const nonConformances: SerialUnitNonConformance[] = [];
+
+    for (const cardId of cardIds) {
+      const records = await this.nonConformanceRepository.findAll({ cardId });
+      records
+        .sort((a, b) => a.ncrNumber - b.ncrNumber)
+        .forEach(record => nonConformances.push({
+          nonConformanceId: record.id,
+          ncrNumber: record.ncrNumber,
+          defectType: record.defectType,
+          status: record.status,
+          disposition: record.disposition
+        }));
+    }
+
+    return nonConformances;
+  }
+}
@@ -0,0 +1,469 @@
+import {
+  Shipment,
+  ShipmentLine,
+  ShipmentSerial,
+  ShipmentSource,
+  ShipmentStatus,
+  formatShipmentNumber
+} from '../../domain/entities/Shipment';
+import { SalesOrder, SalesOrderStatus, formatSoNumber } from '../../domain/entities/SalesOrder';
+import { ManufacturingOrder } from '../../domain/entities/ManufacturingOrder';
+import { ProductionCardStatus } from '../../domain/entities/ProductionCard';
+import { SerialUnit } from '../../domain/entities/SerialUnit';
+import { StockMovementReferenceType, StockMovementType } from '../../domain/entities/StockMovement';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { ShipmentRepository, ShipmentFilters } from '../../infrastructure/repositories/MongoShipmentRepository';
+import { SalesOrderRepository } from '../../infrastructure/repositories/MongoSalesOrderRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ProductionCardRepository } from '../../infrastructure/repositories/MongoProductionCardRepository';
+import { SerialUnitRepository } from '../../infrastructure/repositories/MongoSerialUnitRepository';
+import { renderDeliveryNote } from '../../infrastructure/documents/DeliveryNotePdf';
+import { CustomerUseCases } from './CustomerUseCases';
+import { SalesOrderUseCases } from './SalesOrderUseCases';
+import { StockMovementUseCases } from './StockMovementUseCases';
+
+export interface ShipmentLineRequest {
+  itemId: string;
+  quantity: number;
+  serialNumbers?: string[]; // unidades elegidas en la preparación
+}
+
+export interface CreateShipmentRequest {
+  salesOrderId?: string; // un envío sale de un pedido de venta...
+  manufacturingOrderId?: string; // ...o directamente de una orden de fabricación sin pedido
+  lines?: ShipmentLineRequest[]; // sin líneas, todo lo que se puede enviar
+  deliveryAddress?: string; // por defecto, la dirección del cliente
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+}
+
+// Lo que se puede enviar de un pedido o de una orden y las unidades serializadas disponibles
+export interface ShippableLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  shippableQuantity: number;
+  availableSerials: ShipmentSerial[];
+}
+
+export interface DeliveryNoteFile {
+  fileName: string;
+  content: Buffer;
+}
+
+// Origen del envío ya cargado
+interface ShipmentOrigin {
+  salesOrder?: SalesOrder;
+  manufacturingOrder?: ManufacturingOrder;
+}
+
+export class ShipmentUseCases {
+  constructor(
+    private shipmentRepository: ShipmentRepository,
+    private salesOrderRepository: SalesOrderRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository,
+    private productionCardRepository: ProductionCardRepository,
+    private serialUnitRepository: SerialUnitRepository,
+    private inventoryRepository: IInventoryRepository,
+    private stockMovementUseCases: StockMovementUseCases,
+    private customerUseCases: CustomerUseCases,
+    private salesOrderUseCases: SalesOrderUseCases,
+    private companyName: string = 'bySIMMED'
+  ) {}
+
+  async createShipment(request: CreateShipmentRequest, createdBy?: string): Promise<Shipment> {
+    const origin = await this.loadOrigin(request);
+    const shippable = await this.getShippable(origin);
+    const lines = await this.buildLines(origin, shippable, request.lines);
+
+    const customerId = origin.salesOrder?.customerId || origin.manufacturingOrder?.customerId;
+    const customer = customerId ? await this.customerUseCases.getCustomerById(customerId) : undefined;
+    const shipmentNumber = await this.shipmentRepository.findLatestNumber() + 1;
+
+    return this.shipmentRepository.create({
+      shipmentNumber,
+      sourceType: origin.salesOrder ? ShipmentSource.SALES_ORDER : ShipmentSource.MANUFACTURING_ORDER,
+      salesOrderId: origin.salesOrder?.id,
+      soNumber: origin.salesOrder?.soNumber,
+      manufacturingOrderId: origin.manufacturingOrder?.id,
+      customerId: customer?.id,
+      customerCode: customer?.code,
+      customerName: customer?.name || origin.manufacturingOrder!.clientName,
+      customerReference: origin.salesOrder?.customerReference,
+      deliveryAddress: request.deliveryAddress?.trim() || customer?.address || undefined,
+      status: ShipmentStatus.DRAFT,
+      lines,
+      carrier: request.carrier?.trim() || undefined,
+      trackingNumber: request.trackingNumber?.trim() || undefined,
+      notes: request.notes?.trim() || undefined,
+      createdBy
+    });
+  }
+
+  async getShipments(filters?: ShipmentFilters): Promise<Shipment[]> {
+    return this.shipmentRepository.findAll(filters);
+  }
+
+  async getShipmentById(id: string): Promise<Shipment> {
+    const shipment = await this.shipmentRepository.findById(id);
+    if (!shipment) {
+      throw new Error('Envío no encontrado');
+    }
+    return shipment;
+  }
+
+  // Solo los envíos en preparación se pueden modificar
+  async updateShipment(id: string, updates: Omit<CreateShipmentRequest, 'salesOrderId' | 'manufacturingOrderId'>): Promise<Shipment> {
+    const shipment = await this.getDraftShipment(id, 'Solo se pueden modificar envíos en preparación');
+
+    let lines: ShipmentLine[] | undefined;
+    if (updates.lines) {
+      const origin = await this.loadOrigin(shipment);
+      lines = await this.buildLines(origin, await this.getShippable(origin), updates.lines);
+    }
+
+    const updatedShipment = await this.shipmentRepository.updateIfStatus(id, [ShipmentStatus.DRAFT], {
+      ...(lines && { lines }),
+      ...(updates.deliveryAddress !== undefined && { deliveryAddress: updates.deliveryAddress?.trim() }),
+      ...(updates.carrier !== undefined && { carrier: updates.carrier?.trim() }),
+      ...(updates.trackingNumber !== undefined && { trackingNumber: updates.trackingNumber?.trim() }),
+      ...(updates.notes !== undefined && { notes: updates.notes?.trim() })
+    });
+    if (!updatedShipment) {
+      throw new Error('El envío ya no está en preparación');
+    }
+    return updatedShipment;
+  }
+
+  async deleteShipment(id: string): Promise<boolean> {
+    await this.getDraftShipment(id, 'Solo se pueden eliminar envíos en preparación');
+    return this.shipmentRepository.delete(id);
+  }
+
+  // Cantidades pendientes de enviar y unidades serializadas que se pueden elegir
+  async getShippableLines(request: Pick<CreateShipmentRequest, 'salesOrderId' | 'manufacturingOrderId'>): Promise<ShippableLine[]> {
+    return this.getShippable(await this.loadOrigin(request));
+  }
+
+  // Envía: asigna las unidades serializadas, descuenta el stock de producto terminado
+  // y anota lo entregado en el pedido de venta o en la orden de fabricación
+  async shipShipment(id: string, shippedBy?: string): Promise<Shipment> {
+    const shipment = await this.getDraftShipment(id, 'Este envío ya se ha enviado');
+    const label = formatShipmentNumber(shipment.shipmentNumber);
+    if (shipment.lines.length === 0) {
+      throw new Error('El envío no tiene líneas');
+    }
+
+    // Las cantidades se vuelven a comprobar: pueden haber salido en otro envío
+    const origin = await this.loadOrigin(shipment);
+    const lines = await this.buildLines(origin, await this.getShippable(origin), shipment.lines.map(line => ({
+      itemId: line.itemId,
+      quantity: line.quantity,
+      serialNumbers: line.serials.map(serial => serial.serialNumber)
+    })), true);
+
+    // Sin pedido de venta, las unidades salen del stock libre (no reservado para otros pedidos)
+    if (origin.manufacturingOrder) {
+      for (const line of lines) {
+        const item = await this.inventoryRepository.findById(line.itemId);
+        const available = item ? Math.floor(item.quantity - (item.reserved || 0)) : 0;
+        if (line.quantity > available) {
+          throw new Error(`Stock libre insuficiente de ${line.itemName}: disponible ${Math.max(0, available)} ${line.unit}, requerido ${line.quantity}`);
+        }
+      }
+    }
+
+    const shippedAt = new Date();
+    const assigned: string[] = [];
+    const releaseSerials = async () => {
+      for (const serialUnitId of assigned) {
+        await this.serialUnitRepository.clearShipment(serialUnitId, shipment.id);
+      }
+    };
+
+    for (const serial of lines.flatMap(line => line.serials)) {
+      const unit = await this.serialUnitRepository.assignShipment(serial.serialUnitId, {
+        shipmentId: shipment.id,
+        shipmentNumber: shipment.shipmentNumber,
+        customerName: shipment.customerName,
+        shippedAt
+      });
+      if (!unit) {
+        await releaseSerials();
+        throw new Error(`La unidad ${serial.serialNumber} ya ha salido en otro envío`);
+      }
+      assigned.push(serial.serialUnitId);
+    }
+
+    // Todas las salidas se registran juntas: si una falla no se registra ninguna
+    let movementIds: string[] = [];
+    try {
+      const movements = await this.stockMovementUseCases.recordMovements(lines.map(line => ({
+        itemId: line.itemId,
+        type: StockMovementType.SHIPMENT,
+        quantity: -line.quantity,
+        reason: `Envío ${label} (${shipment.customerName})`,
+        referenceType: StockMovementReferenceType.SHIPMENT,
+        referenceId: shipment.id,
+        performedBy: shippedBy
+      })));
+      movementIds = movements.map(movement => movement.id);
+      for (const line of lines) {
+        line.movementIds = movements.filter(movement => movement.itemId === line.itemId).map(movement => movement.id);
+      }
+    } catch (error) {
+      await releaseSerials();
+      throw error;
+    }
+
+    const shipped = await this.shipmentRepository.updateIfStatus(id, [ShipmentStatus.DRAFT], {
+      status: ShipmentStatus.SHIPPED,
+      lines,
+      shippedAt,
+      shippedBy
+    });
+    if (!shipped) {
+      // El envío se eliminó o se envió mientras tanto: se anulan las salidas registradas
+      await this.stockMovementUseCases.reverseMovements(movementIds, `Anulación del envío ${label}`, shippedBy);
+      await releaseSerials();
+      throw new Error(`El envío ${label} ha cambiado de estado; no se ha registrado la salida`);
+    }
+
+    await this.recordDelivered(shipped, origin);
+    return shipped;
+  }
+
+  async getDeliveryNote(id: string): Promise<DeliveryNoteFile> {
+    const shipment = await this.getShipmentById(id);
+    return {
+      fileName: `Albaran-${formatShipmentNumber(shipment.shipmentNumber)}.pdf`,
+      content: renderDeliveryNote(shipment, this.companyName)
+    };
+  }
+
+  // Lo entregado se anota en el pedido de venta (libera su reserva) y en las órdenes
+  // de fabricación que produjeron las unidades
+  private async recordDelivered(shipment: Shipment, origin: ShipmentOrigin): Promise<void> {
+    const deliveredByOrder = new Map<string, number>();
+    if (origin.manufacturingOrder) {
+      const quantity = shipment.lines.reduce((sum, line) => sum + line.quantity, 0);
+      deliveredByOrder.set(origin.manufacturingOrder.id, quantity);
+    } else {
+      for (const serial of shipment.lines.flatMap(line => line.serials)) {
+        deliveredByOrder.set(serial.orderId, (deliveredByOrder.get(serial.orderId) || 0) + 1);
+      }
+    }
+
+    try {
+      if (origin.salesOrder) {
+        await this.salesOrderUseCases.recordDelivery(
+          origin.salesOrder.id,
+          shipment.lines.map(line => ({ itemId: line.itemId, quantity: line.quantity }))
+        );
+      }
+      for (const [orderId, quantity] of deliveredByOrder) {
+        await this.manufacturingOrderRepository.adjustDeliveredQuantity(orderId, quantity);
+      }
+    } catch (error) {
+      console.error(`Error al anotar lo entregado en el envío ${formatShipmentNumber(shipment.shipmentNumber)}:`, error);
+    }
+  }
+
+  private async loadOrigin(request: Pick<CreateShipmentRequest, 'salesOrderId' | 'manufacturingOrderId'>): Promise<ShipmentOrigin> {
+    if (request.salesOrderId) {
+      const salesOrder = await this.salesOrderRepository.findById(request.salesOrderId);
+      if (!salesOrder) {
+        throw new Error('Pedido de venta no encontrado');
+      }
+      if (salesOrder.status !== SalesOrderStatus.CONFIRMED) {
+        throw new Error(`Solo se pueden enviar pedidos confirmados pendientes de entregar (${formatSoNumber(salesOrder.soNumber)})`);
+      }
+      return { salesOrder };
+    }
+
+    if (request.manufacturingOrderId) {
+      const manufacturingOrder = await this.manufacturingOrderRepository.findById(request.manufacturingOrderId);
+      if (!manufacturingOrder) {
+        throw new Error('Orden de fabricación no encontrada');
+      }
+      // Lo fabricado para un pedido está reservado al pedido y se envía desde él
+      if (manufacturingOrder.salesOrderId) {
+        const salesOrder = await this.salesOrderRepository.findById(manufacturingOrder.salesOrderId);
+        throw new Error(`La orden de fabricación es del pedido ${salesOrder ? formatSoNumber(salesOrder.soNumber) : 'de venta'}: envíe desde el pedido`);
+      }
+      return { manufacturingOrder };
+    }
+
+    throw new Error('Indique el pedido de venta o la orden de fabricación del envío');
+  }
+
+  private async getShippable(origin: ShipmentOrigin): Promise<ShippableLine[]> {
+    if (origin.salesOrder) {
+      const salesOrder = origin.salesOrder;
+      const shippable: ShippableLine[] = [];
+      for (const line of salesOrder.lines) {
+        const units = byAge(await this.serialUnitRepository.findAll({ modelId: line.itemId, shipped: false }));
+        shippable.push({
+          itemId: line.itemId,
+          itemName: line.itemName,
+          itemSku: line.itemSku,
+          unit: line.unit,
+          shippableQuantity: line.reservedQuantity,
+          availableSerials: await this.filterSerialsForSalesOrder(units, salesOrder)
+        });
+      }
+      return shippable;
+    }
+
+    const order = origin.manufacturingOrder!;
+    const cards = await this.productionCardRepository.findByOrderId(order.id);
+    const completed = cards.filter(card => card.status === ProductionCardStatus.COMPLETED).length;
+    const units = byAge(await this.serialUnitRepository.findAll({ orderId: order.id, shipped: false }));
+    const model = await this.inventoryRepository.findById(order.modelId);
+    if (!model) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+
+    return [{
+      itemId: order.modelId,
+      itemName: order.modelName,
+      itemSku: order.modelSku,
+      unit: model.unit,
+      shippableQuantity: Math.max(0, completed - (order.deliveredQuantity || 0)),
+      availableSerials: units.map(toShipmentSerial)
+    }];
+  }
+
+  // Unidades del modelo sin enviar que no se fabricaron para otro pedido de venta;
+  // primero las fabricadas para este pedido
+  private async filterSerialsForSalesOrder(units: SerialUnit[], salesOrder: SalesOrder): Promise<ShipmentSerial[]> {
+    const orderSalesOrder = new Map<string, string | undefined>();
+    const own: ShipmentSerial[] = [];
+    const others: ShipmentSerial[] = [];
+
+    for (const unit of units) {
+      if (!orderSalesOrder.has(unit.orderId)) {
+        const order = await this.manufacturingOrderRepository.findById(unit.orderId);
+        orderSalesOrder.set(unit.orderId, order?.salesOrderId);
+      }
+      const unitSalesOrderId = orderSalesOrder.get(unit.orderId);
+      if (unitSalesOrderId === salesOrder.id) {
+        own.push(toShipmentSerial(unit));
+      } else if (!unitSalesOrderId) {
+        others.push(toShipmentSerial(unit));
+      }
+    }
+
+    return [...own, ...others];
+  }
+
+  // assignRemaining: al enviar, las unidades sin elegir se completan con las serializadas más antiguas
+  private async buildLines(
+    origin: ShipmentOrigin,
+    shippable: ShippableLine[],
+    requests?: ShipmentLineRequest[],
+    assignRemaining: boolean = false
+  ): Promise<ShipmentLine[]> {
+    const sourceLabel = origin.salesOrder
+      ? `el pedido ${formatSoNumber(origin.salesOrder.soNumber)}`
+      : 'la orden de fabricación';
+
+    // Sin líneas indicadas se envía todo lo pendiente, sin elegir números de serie
+    const lineRequests: ShipmentLineRequest[] = requests && requests.length > 0
+      ? requests
+      : shippable
+        .filter(line => line.shippableQuantity > 0)
+        .map(line => ({ itemId: line.itemId, quantity: line.shippableQuantity }));
+    if (lineRequests.length === 0) {
+      throw new Error(`No hay unidades terminadas pendientes de enviar en ${sourceLabel}`);
+    }
+
+    const seenItems = new Set<string>();
+    const seenSerials = new Set<string>();
+    const lines: ShipmentLine[] = [];
+
+    for (const request of lineRequests) {
+      const available = shippable.find(line => line.itemId === request.itemId);
+      if (!available) {
+        throw new Error(`El artículo ${request.itemId} no está en ${sourceLabel}`);
+      }
+      if (seenItems.has(available.itemId)) {
+        throw new Error(`${available.itemName} aparece más de una vez en el envío`);
+      }
+      seenItems.add(available.itemId);
+
+      const quantity = Number(request.quantity);
+      if (!(quantity > 0) || !Number.isInteger(quantity)) {
+        throw new Error(`La cantidad de ${available.itemName} debe ser un número entero mayor que 0`);
+      }
+      if (quantity > available.shippableQuantity) {
+        throw new Error(
+          `No se pueden enviar ${quantity} ${available.unit} de ${available.itemName}: ` +
+          `pendiente de enviar ${available.shippableQuantity} ${available.unit}`
+        );
+      }
+
+      const serialNumbers = (request.serialNumbers || []).map(serialNumber => serialNumber.trim()).filter(Boolean);
+      if (serialNumbers.length > quantity) {
+        throw new Error(`Hay más números de serie que unidades de ${available.itemName}`);
+      }
+
+      const serials: ShipmentSerial[] = [];
+      for (const serialNumber of serialNumbers) {
+        if (seenSerials.has(serialNumber)) {
+          throw new Error(`El número de serie ${serialNumber} está repetido`);
+        }
+        seenSerials.add(serialNumber);
+
+        const serial = available.availableSerials.find(entry => entry.serialNumber === serialNumber);
+        if (!serial) {
+          throw new Error(`La unidad ${serialNumber} no está disponible para ${available.itemName} en ${sourceLabel}`);
+        }
+        serials.push(serial);
+      }
+
+      // Un modelo serializado no sale sin sus unidades: solo quedan sin número de serie
+      // las que no tienen unidad registrada (stock anterior a la numeración)
+      if (assignRemaining) {
+        for (const serial of available.availableSerials) {
+          if (serials.length >= quantity) break;
+          if (seenSerials.has(serial.serialNumber)) continue;
+          seenSerials.add(serial.serialNumber);
+          serials.push(serial);
+        }
+      }
+
+      lines.push({
+        itemId: available.itemId,
+        itemName: available.itemName,
+        itemSku: available.itemSku,
+        unit: available.unit,
+        quantity,
+        serials,
+        movementIds: []
+      });
+    }
+
+    return lines;
+  }
+
+  private async getDraftShipment(id: string, message: string): Promise<Shipment> {
+    const shipment = await this.getShipmentById(id);
+    if (shipment.status !== ShipmentStatus.DRAFT) {
+      throw new Error(message);
+    }
+    return shipment;
+  }
+}
+
+// Las unidades se ofrecen y se asignan de la más antigua a la más reciente (FIFO)
+const byAge = (units: SerialUnit[]): SerialUnit[] =>
+  [...units].sort((a, b) => a.producedAt.getTime() - b.producedAt.getTime());
+
+const toShipmentSerial = (unit: SerialUnit): ShipmentSerial => ({
+  serialUnitId: unit.id,
+  serialNumber: unit.serialNumber,
+  orderId: unit.orderId
+});
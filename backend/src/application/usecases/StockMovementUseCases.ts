@@ -0,0 +1,621 @@
+import {
+  StockMovement,
+  StockMovementType,
+  StockMovementReferenceType,
+  StockReconciliation,
+  isValidMovementQuantity
+} from '../../domain/entities/StockMovement';
+import { StockMovementRepository, StockMovementFilters } from '../../infrastructure/repositories/MongoStockMovementRepository';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { InventoryItem } from '../../domain/entities/InventoryItem';
+import { LotPickingPolicy, isLotExpired, sortLotsForPicking } from '../../domain/entities/InventoryLot';
+import { InventoryLotRepository } from '../../infrastructure/repositories/MongoInventoryLotRepository';
+import { formatLocationLabel, isSameLocation } from '../../domain/entities/Warehouse';
+import { LocationStockRepository, LocationStockKey } from '../../infrastructure/repositories/MongoLocationStockRepository';
+import { WarehouseUseCases, ResolvedLocation } from './WarehouseUseCases';
+
+// Datos del lote que crea una entrada de un artículo controlado por lotes
+export interface NewLotRequest {
+  lotNumber?: string; // se genera a partir del SKU y la fecha si no se indica
+  supplierLot?: string;
+  supplier?: string;
+  receivedDate?: Date;
+  expiryDate?: Date;
+  notes?: string;
+}
+
+export interface RecordStockMovementRequest {
+  itemId: string;
+  type: StockMovementType;
+  quantity: number; // variación con signo
+  reason: string;
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string;
+  reversalOf?: string;
+  performedBy?: string;
+  lotId?: string; // lote concreto; sin lote, las salidas se reparten según la política FEFO/FIFO del artículo
+  lot?: NewLotRequest; // entradas de artículos controlados por lotes
+  warehouseId?: string; // sin almacén, las entradas van a la ubicación principal del artículo y las salidas se reparten
+  binId?: string;
+}
+
+export interface TransferStockRequest {
+  itemId: string;
+  quantity: number;
+  fromWarehouseId: string;
+  fromBinId?: string;
+  toWarehouseId: string;
+  toBinId?: string;
+  reason?: string;
+  performedBy?: string;
+}
+
+// Movimiento asignado a un lote y a una ubicación: una salida puede repartirse entre varios
+interface AllocatedMovement extends RecordStockMovementRequest {
+  lotNumber?: string;
+  warehouseCode?: string;
+  binCode?: string;
+}
+
+// Recibe los artículos cuyo stock acaba de bajar (reposición por punto de pedido)
+export type StockDecreaseListener = (itemIds: string[], performedBy?: string) => Promise<void>;
+
+export class StockMovementUseCases {
+  constructor(
+    private stockMovementRepository: StockMovementRepository,
+    private inventoryRepository: IInventoryRepository,
+    private lotRepository: InventoryLotRepository,
+    private locationStockRepository: LocationStockRepository,
+    private warehouseUseCases: WarehouseUseCases,
+    private onStockDecrease?: StockDecreaseListener
+  ) {}
+
+  async recordMovement(request: RecordStockMovementRequest): Promise<StockMovement> {
+    const [movement] = await this.recordMovements([request]);
+    return movement;
+  }
+
+  // Registra varios movimientos como una sola operación: si alguno falla
+  // (por ejemplo, por stock insuficiente) se revierten los cambios ya aplicados
+  async recordMovements(requests: RecordStockMovementRequest[]): Promise<StockMovement[]> {
+    const items = new Map<string, InventoryItem>();
+    for (const request of requests) {
+      this.validateRequest(request);
+      if (!items.has(request.itemId)) {
+        items.set(request.itemId, await this.getItem(request.itemId));
+      }
+    }
+
+    // Los artículos controlados por lotes registran un movimiento por lote
+    const lotMovements: AllocatedMovement[] = [];
+    const plannedLotUse = new Map<string, number>();
+    const newLotNumbers = new Set<string>();
+    for (const request of requests) {
+      lotMovements.push(...await this.allocateLots(request, items.get(request.itemId)!, plannedLotUse, newLotNumbers));
+    }
+
+    // Y un movimiento por ubicación de la que sale o a la que entra el stock
+    const movements: AllocatedMovement[] = [];
+    const plannedLocationUse = new Map<string, number>();
+    for (const movement of lotMovements) {
+      movements.push(...await this.allocateLocations(movement, items.get(movement.itemId)!, plannedLocationUse));
+    }
+
+    const applied: AllocatedMovement[] = [];
+    const appliedLots: { lotId: string; quantity: number; created: boolean }[] = [];
+    const appliedLocations: { key: LocationStockKey; quantity: number }[] = [];
+    const balances: number[] = [];
+    let recorded: StockMovement[];
+
+    try {
+      for (const request of movements) {
+        const item = items.get(request.itemId)!;
+        const updatedItem = await this.inventoryRepository.adjustQuantity(item.id, request.quantity);
+        if (!updatedItem) {
+          const currentItem = await this.inventoryRepository.findById(item.id);
+          const available = currentItem ? currentItem.quantity : item.quantity;
+          throw new Error(`Stock insuficiente de ${item.name}: disponible ${available} ${item.unit}, requerido ${Math.abs(request.quantity)}`);
+        }
+        applied.push(request);
+        balances.push(updatedItem.quantity);
+
+        if (item.isLotControlled) {
+          appliedLots.push(await this.applyLotMovement(request, item));
+        }
+
+        const locationKey = this.getLocationKey(item, request);
+        if (!await this.locationStockRepository.adjustQuantity(locationKey, request.quantity)) {
+          throw new Error(`Stock insuficiente de ${item.name} en ${formatLocationLabel(request.warehouseCode!, request.binCode)}`);
+        }
+        appliedLocations.push({ key: locationKey, quantity: request.quantity });
+      }
+
+      recorded = await this.stockMovementRepository.createMany(movements.map((request, index) => {
+        const item = items.get(request.itemId)!;
+        return {
+          itemId: item.id,
+          itemName: item.name,
+          itemSku: item.sku,
+          type: request.type,
+          quantity: request.quantity,
+          balanceAfter: balances[index],
+          unit: item.unit,
+          reason: request.reason.trim(),
+          referenceType: request.referenceType,
+          referenceId: request.referenceId,
+          reversalOf: request.reversalOf,
+          lotId: request.lotId,
+          lotNumber: request.lotNumber,
+          warehouseId: request.warehouseId,
+          warehouseCode: request.warehouseCode,
+          binId: request.binId,
+          binCode: request.binCode,
+          performedBy: request.performedBy
+        };
+      }));
+    } catch (error) {
+      // Revertir (en orden inverso) los cambios de stock ya aplicados
+      for (const location of appliedLocations.reverse()) {
+        await this.locationStockRepository.adjustQuantity(location.key, -location.quantity);
+      }
+      for (const lot of appliedLots.reverse()) {
+        if (lot.created) {
+          await this.lotRepository.delete(lot.lotId);
+        } else {
+          await this.lotRepository.adjustQuantity(lot.lotId, -lot.quantity);
+        }
+      }
+      for (const request of applied.reverse()) {
+        await this.inventoryRepository.adjustQuantity(request.itemId, -request.quantity);
+      }
+      throw error;
+    }
+
+    await this.notifyStockDecrease(movements);
+    return recorded;
+  }
+
+  // Revierte movimientos registrando movimientos opuestos (el libro nunca se modifica).
+  // Cada movimiento se revierte una sola vez y las reversiones no se revierten.
+  async reverseMovements(movementIds: string[], reason: string, performedBy?: string): Promise<StockMovement[]> {
+    if (new Set(movementIds).size !== movementIds.length) {
+      throw new Error('Un movimiento de stock no se puede revertir dos veces');
+    }
+
+    const existingReversals = await this.stockMovementRepository.findReversalsOf(movementIds);
+    if (existingReversals.length > 0) {
+      throw new Error('El movimiento de stock ya fue revertido');
+    }
+
+    const requests: RecordStockMovementRequest[] = [];
+
+    for (const movementId of movementIds) {
+      const movement = await this.stockMovementRepository.findById(movementId);
+      if (!movement) {
+        throw new Error('Movimiento de stock no encontrado');
+      }
+      if (movement.type === StockMovementType.TRANSFER) {
+        throw new Error('Las transferencias no se pueden revertir');
+      }
+      if (movement.reversalOf) {
+        throw new Error('Una reversión no se puede revertir');
+      }
+
+      requests.push({
+        itemId: movement.itemId,
+        type: movement.type,
+        quantity: -movement.quantity,
+        reason,
+        referenceType: movement.referenceType,
+        referenceId: movement.referenceId,
+        reversalOf: movement.id,
+        lotId: movement.lotId,
+        warehouseId: movement.warehouseId,
+        binId: movement.binId,
+        performedBy
+      });
+    }
+
+    return this.recordMovements(requests);
+  }
+
+  // Ajusta el stock a una cantidad absoluta registrando la diferencia como ajuste
+  async setQuantity(itemId: string, newQuantity: number, reason: string, performedBy?: string): Promise<InventoryItem> {
+    if (newQuantity < 0) {
+      throw new Error('La cantidad no puede ser negativa');
+    }
+
+    const item = await this.getItem(itemId);
+    const delta = newQuantity - item.quantity;
+    if (delta === 0) {
+      return item;
+    }
+
+    await this.recordMovement({
+      itemId,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: delta,
+      reason,
+      referenceType: StockMovementReferenceType.MANUAL,
+      performedBy
+    });
+
+    return this.getItem(itemId);
+  }
+
+  // Mueve existencias entre dos ubicaciones; la cantidad total del artículo no cambia
+  async transferStock(request: TransferStockRequest): Promise<StockMovement> {
+    const quantity = Number(request.quantity);
+    if (!(quantity > 0)) {
+      throw new Error('La cantidad a transferir debe ser mayor que cero');
+    }
+
+    const item = await this.getItem(request.itemId);
+    const from = await this.warehouseUseCases.resolveLocation({ warehouseId: request.fromWarehouseId, binId: request.fromBinId }, false);
+    const to = await this.warehouseUseCases.resolveLocation({ warehouseId: request.toWarehouseId, binId: request.toBinId });
+    const fromLabel = formatLocationLabel(from.warehouse.code, from.bin?.code);
+    const toLabel = formatLocationLabel(to.warehouse.code, to.bin?.code);
+
+    if (isSameLocation({ warehouseId: from.warehouse.id, binId: from.bin?.id }, { warehouseId: to.warehouse.id, binId: to.bin?.id })) {
+      throw new Error('La ubicación de destino es igual a la ubicación de origen');
+    }
+
+    const fromKey = this.getResolvedLocationKey(item, from);
+    const toKey = this.getResolvedLocationKey(item, to);
+
+    if (!await this.locationStockRepository.adjustQuantity(fromKey, -quantity)) {
+      const available = (await this.locationStockRepository.findAll({ itemId: item.id, warehouseId: from.warehouse.id }))
+        .filter(stock => (stock.binId || undefined) === from.bin?.id)
+        .reduce((total, stock) => total + stock.quantity, 0);
+      throw new Error(`Stock insuficiente de ${item.name} en ${fromLabel}: disponible ${available} ${item.unit}, requerido ${quantity}`);
+    }
+
+    let received = false;
+    try {
+      await this.locationStockRepository.adjustQuantity(toKey, quantity);
+      received = true;
+
+      return await this.stockMovementRepository.create({
+        itemId: item.id,
+        itemName: item.name,
+        itemSku: item.sku,
+        type: StockMovementType.TRANSFER,
+        quantity: 0,
+        balanceAfter: item.quantity,
+        unit: item.unit,
+        reason: request.reason?.trim() || 'Transferencia entre ubicaciones',
+        referenceType: StockMovementReferenceType.MANUAL,
+        warehouseId: from.warehouse.id,
+        warehouseCode: from.warehouse.code,
+        binId: from.bin?.id,
+        binCode: from.bin?.code,
+        toWarehouseId: to.warehouse.id,
+        toBinId: to.bin?.id,
+        fromLocation: fromLabel,
+        toLocation: toLabel,
+        transferredQuantity: quantity,
+        performedBy: request.performedBy
+      });
+    } catch (error) {
+      if (received) {
+        await this.locationStockRepository.adjustQuantity(toKey, -quantity);
+      }
+      await this.locationStockRepository.adjustQuantity(fromKey, quantity);
+      throw error;
+    }
+  }
+
+  // Asigna al almacén por defecto el stock que todavía no tiene ubicación
+  // (artículos creados antes de existir los almacenes). Se ejecuta al arrancar
+  async placeUnlocatedStock(): Promise<number> {
+    const warehouse = await this.warehouseUseCases.ensureDefaultWarehouse();
+    const items = await this.inventoryRepository.findAll();
+    let placed = 0;
+
+    for (const item of items) {
+      const located = (await this.locationStockRepository.findAll({ itemId: item.id }))
+        .reduce((total, stock) => total + stock.quantity, 0);
+      const difference = roundQuantity(item.quantity - located);
+      if (difference <= 0) continue;
+
+      await this.locationStockRepository.adjustQuantity(this.getResolvedLocationKey(item, { warehouse }), difference);
+      placed++;
+    }
+
+    return placed;
+  }
+
+  async getMovements(filters: StockMovementFilters): Promise<StockMovement[]> {
+    return this.stockMovementRepository.findAll(filters);
+  }
+
+  async getItemMovements(itemId: string, filters: Omit<StockMovementFilters, 'itemId'> = {}): Promise<StockMovement[]> {
+    await this.getItem(itemId);
+    return this.stockMovementRepository.findAll({ ...filters, itemId });
+  }
+
+  async getReconciliation(itemId: string): Promise<StockReconciliation> {
+    const item = await this.getItem(itemId);
+    const { balance, count } = await this.stockMovementRepository.getLedgerBalance(itemId);
+    const difference = item.quantity - balance;
+
+    return {
+      itemId,
+      quantity: item.quantity,
+      ledgerBalance: balance,
+      difference,
+      movementCount: count,
+      isReconciled: difference === 0
+    };
+  }
+
+  // Registra un saldo de apertura para que el libro cuadre con la cantidad actual
+  // (artículos creados antes de existir el libro de movimientos)
+  async reconcileItem(itemId: string, performedBy?: string): Promise<StockReconciliation> {
+    const reconciliation = await this.getReconciliation(itemId);
+    if (reconciliation.isReconciled) {
+      return reconciliation;
+    }
+
+    const item = await this.getItem(itemId);
+    await this.stockMovementRepository.create({
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: reconciliation.difference,
+      balanceAfter: item.quantity,
+      unit: item.unit,
+      reason: 'Saldo de apertura (conciliación del libro de movimientos)',
+      referenceType: StockMovementReferenceType.MANUAL,
+      performedBy
+    });
+
+    return this.getReconciliation(itemId);
+  }
+
+  // Asigna los lotes de un movimiento de un artículo controlado por lotes:
+  // - con lote indicado (o al revertir), se usa ese lote
+  // - las entradas sin lote crean un lote nuevo
+  // - las salidas sin lote se reparten entre los lotes con stock (FEFO o FIFO); las
+  //   salidas a producción no toman lotes caducados
+  private async allocateLots(
+    request: RecordStockMovementRequest,
+    item: InventoryItem,
+    plannedLotUse: Map<string, number>,
+    newLotNumbers: Set<string>
+  ): Promise<AllocatedMovement[]> {
+    if (!item.isLotControlled) {
+      if (request.lotId || request.lot) {
+        throw new Error(`${item.name} no está controlado por lotes`);
+      }
+      return [request];
+    }
+
+    if (request.lotId) {
+      const lot = await this.lotRepository.findById(request.lotId);
+      if (!lot || lot.itemId !== item.id) {
+        throw new Error(`Lote no encontrado para ${item.name}`);
+      }
+      if (request.quantity < 0 && request.type === StockMovementType.ISSUE && !request.reversalOf && isLotExpired(lot)) {
+        throw new Error(`El lote ${lot.lotNumber} de ${item.name} está caducado`);
+      }
+      if (request.quantity < 0) {
+        plannedLotUse.set(lot.id, (plannedLotUse.get(lot.id) || 0) - request.quantity);
+      }
+      return [{ ...request, lotNumber: lot.lotNumber }];
+    }
+
+    if (request.quantity > 0) {
+      const lotNumber = request.lot?.lotNumber?.trim() || await this.generateLotNumber(item, newLotNumbers);
+      if (newLotNumbers.has(lotNumber) || await this.lotRepository.findByLotNumber(item.id, lotNumber)) {
+        throw new Error(`El lote ${lotNumber} ya existe para ${item.name}`);
+      }
+      newLotNumbers.add(lotNumber);
+      return [{ ...request, lot: { ...request.lot, lotNumber }, lotNumber }];
+    }
+
+    if (request.lot) {
+      throw new Error('Solo las entradas pueden crear lotes');
+    }
+
+    const includeExpired = request.type !== StockMovementType.ISSUE;
+    const lots = sortLotsForPicking(
+      (await this.lotRepository.findAll({ itemId: item.id, withStock: true })).filter(lot => includeExpired || !isLotExpired(lot)),
+      item.lotPickingPolicy || LotPickingPolicy.FEFO
+    );
+
+    const required = -request.quantity;
+    let remaining = required;
+    const allocated: AllocatedMovement[] = [];
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      const available = roundQuantity(lot.quantity - (plannedLotUse.get(lot.id) || 0));
+      if (available <= 0) continue;
+
+      const quantity = Math.min(available, remaining);
+      plannedLotUse.set(lot.id, (plannedLotUse.get(lot.id) || 0) + quantity);
+      allocated.push({ ...request, quantity: -quantity, lotId: lot.id, lotNumber: lot.lotNumber });
+      remaining = roundQuantity(remaining - quantity);
+    }
+
+    if (remaining > 0) {
+      throw new Error(`Stock insuficiente en lotes ${includeExpired ? '' : 'vigentes '}de ${item.name}: disponible ${roundQuantity(required - remaining)} ${item.unit}, requerido ${required}`);
+    }
+
+    return allocated;
+  }
+
+  // Asigna la ubicación de un movimiento:
+  // - con almacén indicado (o al revertir), se usa esa ubicación
+  // - las entradas sin almacén van a la ubicación con más existencias del artículo (o al almacén por defecto)
+  // - las salidas sin almacén se reparten entre las ubicaciones con existencias, empezando por la mayor
+  private async allocateLocations(
+    request: AllocatedMovement,
+    item: InventoryItem,
+    plannedLocationUse: Map<string, number>
+  ): Promise<AllocatedMovement[]> {
+    if (request.warehouseId) {
+      const location = await this.warehouseUseCases.resolveLocation({ warehouseId: request.warehouseId, binId: request.binId }, request.quantity > 0);
+      if (request.quantity < 0) {
+        const key = locationUseKey(item.id, location.warehouse.id, location.bin?.id);
+        plannedLocationUse.set(key, (plannedLocationUse.get(key) || 0) - request.quantity);
+      }
+      return [{ ...request, warehouseCode: location.warehouse.code, binId: location.bin?.id, binCode: location.bin?.code }];
+    }
+
+    if (request.binId) {
+      throw new Error('Debe indicar el almacén de la ubicación');
+    }
+
+    const stocks = (await this.locationStockRepository.findAll({ itemId: item.id, withStock: true }))
+      .sort((a, b) => b.quantity - a.quantity);
+
+    if (request.quantity > 0) {
+      if (stocks.length > 0) {
+        const { warehouseId, warehouseCode, binId, binCode } = stocks[0];
+        return [{ ...request, warehouseId, warehouseCode, binId, binCode }];
+      }
+      const warehouse = await this.warehouseUseCases.ensureDefaultWarehouse();
+      return [{ ...request, warehouseId: warehouse.id, warehouseCode: warehouse.code }];
+    }
+
+    const required = -request.quantity;
+    let remaining = required;
+    const allocated: AllocatedMovement[] = [];
+    for (const stock of stocks) {
+      if (remaining <= 0) break;
+      const key = locationUseKey(item.id, stock.warehouseId, stock.binId);
+      const available = roundQuantity(stock.quantity - (plannedLocationUse.get(key) || 0));
+      if (available <= 0) continue;
+
+      const quantity = Math.min(available, remaining);
+      plannedLocationUse.set(key, (plannedLocationUse.get(key) || 0) + quantity);
+      allocated.push({
+        ...request,
+        quantity: -quantity,
+        warehouseId: stock.warehouseId,
+        warehouseCode: stock.warehouseCode,
+        binId: stock.binId,
+        binCode: stock.binCode
+      });
+      remaining = roundQuantity(remaining - quantity);
+    }
+
+    if (remaining > 0) {
+      throw new Error(`Stock insuficiente de ${item.name}: disponible ${roundQuantity(required - remaining)} ${item.unit}, requerido ${required}`);
+    }
+
+    return allocated;
+  }
+
+  private getLocationKey(item: InventoryItem, request: AllocatedMovement): LocationStockKey {
+    return {
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      warehouseId: request.warehouseId!,
+      warehouseCode: request.warehouseCode!,
+      binId: request.binId,
+      binCode: request.binCode,
+      unit: item.unit
+    };
+  }
+
+  private getResolvedLocationKey(item: InventoryItem, location: ResolvedLocation): LocationStockKey {
+    return {
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      warehouseId: location.warehouse.id,
+      warehouseCode: location.warehouse.code,
+      binId: location.bin?.id,
+      binCode: location.bin?.code,
+      unit: item.unit
+    };
+  }
+
+  private async applyLotMovement(request: AllocatedMovement, item: InventoryItem): Promise<{ lotId: string; quantity: number; created: boolean }> {
+    if (request.lotId) {
+      const lot = await this.lotRepository.adjustQuantity(request.lotId, request.quantity);
+      if (!lot) {
+        throw new Error(`Stock insuficiente en el lote ${request.lotNumber} de ${item.name}`);
+      }
+      return { lotId: request.lotId, quantity: request.quantity, created: false };
+    }
+
+    const lot = await this.lotRepository.create({
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      lotNumber: request.lotNumber!,
+      supplierLot: request.lot?.supplierLot?.trim() || undefined,
+      supplier: request.lot?.supplier?.trim() || item.supplier || undefined,
+      receivedDate: request.lot?.receivedDate ? new Date(request.lot.receivedDate) : new Date(),
+      expiryDate: request.lot?.expiryDate ? new Date(request.lot.expiryDate) : undefined,
+      initialQuantity: request.quantity,
+      quantity: request.quantity,
+      unit: item.unit,
+      notes: request.lot?.notes?.trim() || undefined
+    });
+    request.lotId = lot.id;
+    return { lotId: lot.id, quantity: request.quantity, created: true };
+  }
+
+  // SKU-AAAAMMDD-n, con n el siguiente libre del día
+  private async generateLotNumber(item: InventoryItem, reserved: Set<string>): Promise<string> {
+    const now = new Date();
+    const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+    const prefix = `${item.sku}-${date}-`;
+    const existing = (await this.lotRepository.findAll({ itemId: item.id }))
+      .filter(lot => lot.lotNumber.startsWith(prefix));
+
+    let sequence = existing.length + 1;
+    while (reserved.has(`${prefix}${sequence}`) || existing.some(lot => lot.lotNumber === `${prefix}${sequence}`)) {
+      sequence++;
+    }
+    return `${prefix}${sequence}`;
+  }
+
+  // Un fallo de la reposición nunca deshace movimientos ya registrados
+  private async notifyStockDecrease(movements: AllocatedMovement[]): Promise<void> {
+    const decreases = movements.filter(movement => movement.quantity < 0);
+    if (!this.onStockDecrease || decreases.length === 0) {
+      return;
+    }
+
+    try {
+      await this.onStockDecrease(Array.from(new Set(decreases.map(movement => movement.itemId))), decreases[0].performedBy);
+    } catch (error) {
+      console.error('Error al revisar el punto de pedido:', error);
+    }
+  }
+
+  private validateRequest(request: RecordStockMovementRequest): void {
+    if (request.type === StockMovementType.TRANSFER) {
+      throw new Error('Las transferencias deben registrarse con la operación de transferencia');
+    }
+
+    if (!isValidMovementQuantity(request.type, request.quantity, Boolean(request.reversalOf))) {
+      throw new Error(`Cantidad inválida para un movimiento de tipo ${request.type}`);
+    }
+
+    if (!request.reason || !request.reason.trim()) {
+      throw new Error('Debe indicar el motivo del movimiento');
+    }
+  }
+
+  private async getItem(itemId: string): Promise<InventoryItem> {
+    const item = await this.inventoryRepository.findById(itemId);
+    if (!item) {
+      throw new Error('Artículo de inventario no encontrado');
+    }
+    return item;
+  }
+}
+
+const locationUseKey = (itemId: string, warehouseId: string, binId?: string): string =>
+  `${itemId}:${warehouseId}:${binId || ''}`;
+
+// Evita arrastrar errores de coma flotante al repartir cantidades entre lotes
+const roundQuantity = (quantity: number): number => Math.round(quantity * 1000000) / 1000000;
@@ -0,0 +1,101 @@
+import {
+  StockReservation,
+  StockReservationStatus,
+  ReservationTrigger,
+  getRemainingReservation
+} from '../../domain/entities/StockReservation';
+import { StockReservationRepository } from '../../infrastructure/repositories/MongoStockReservationRepository';
+import { ManufacturingOrderRepository } from '../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { MaterialRequirementsUseCases } from './MaterialRequirementsUseCases';
+
+export class StockReservationUseCases {
+  constructor(
+    private reservationRepository: StockReservationRepository,
+    private inventoryRepository: IInventoryRepository,
+    private manufacturingOrderRepository: ManufacturingOrderRepository,
+    private materialRequirementsUseCases: MaterialRequirementsUseCases,
+    private trigger: ReservationTrigger = ReservationTrigger.ORDER_STARTED
+  ) {}
+
+  shouldReserveOn(trigger: ReservationTrigger): boolean {
+    return this.trigger === trigger;
+  }
+
+  // Reserva lo que consumirán los backflushes de la orden (sus líneas de componentes con la
+  // revisión congelada de la estructura). Si la orden ya tiene reservas no hace nada.
+  async reserveForOrder(orderId: string): Promise<StockReservation[]> {
+    const existingReservations = await this.reservationRepository.findByOrderId(orderId);
+    if (existingReservations.length > 0) {
+      return existingReservations.filter(r => r.status === StockReservationStatus.ACTIVE);
+    }
+
+    const order = await this.manufacturingOrderRepository.findById(orderId);
+    if (!order) {
+      throw new Error('Orden de fabricación no encontrada');
+    }
+
+    const requirements = await this.materialRequirementsUseCases.explodeOrder(order);
+
+    const reservations: StockReservation[] = [];
+    for (const requirement of requirements) {
+      if (requirement.requiredQuantity <= 0) continue;
+
+      const reservation = await this.reservationRepository.create({
+        orderId,
+        itemId: requirement.materialId,
+        itemName: requirement.materialName,
+        itemSku: requirement.materialSku,
+        unit: requirement.unit,
+        quantity: requirement.requiredQuantity,
+        consumedQuantity: 0,
+        status: StockReservationStatus.ACTIVE
+      });
+      await this.inventoryRepository.adjustReserved(requirement.materialId, requirement.requiredQuantity);
+      reservations.push(reservation);
+    }
+
+    return reservations;
+  }
+
+  // Descuenta de la reserva lo consumido por un backflush de la orden
+  async consumeForOrder(orderId: string, itemId: string, quantity: number): Promise<void> {
+    const reservation = await this.reservationRepository.findActive(orderId, itemId);
+    if (!reservation) return;
+
+    const consumed = Math.min(getRemainingReservation(reservation), quantity);
+    if (consumed <= 0) return;
+
+    const updatedReservation = await this.reservationRepository.addConsumption(reservation.id, consumed);
+    if (updatedReservation) {
+      await this.inventoryRepository.adjustReserved(itemId, -consumed);
+    }
+  }
+
+  // Libera lo que quede reservado (orden cancelada, eliminada o completada)
+  async releaseForOrder(orderId: string): Promise<StockReservation[]> {
+    const activeReservations = await this.reservationRepository.findByOrderId(orderId, StockReservationStatus.ACTIVE);
+    const released: StockReservation[] = [];
+
+    for (const reservation of activeReservations) {
+      const releasedReservation = await this.reservationRepository.release(reservation.id);
+      if (!releasedReservation) continue;
+
+      const remaining = getRemainingReservation(reservation);
+      if (remaining > 0) {
+        await this.inventoryRepository.adjustReserved(reservation.itemId, -remaining);
+      }
+      released.push(releasedReservation);
+    }
+
+    return released;
+  }
+
+  async getOrderReservations(orderId: string): Promise<StockReservation[]> {
+    return this.reservationRepository.findByOrderId(orderId);
+  }
+
+  async getItemReservations(itemId: string): Promise<StockReservation[]> {
+    return this.reservationRepository.findByItemId(itemId, StockReservationStatus.ACTIVE);
+  }
+}
@@ -0,0 +1,265 @@
+import { Supplier, ItemSupplier, DEFAULT_SUPPLIER_CURRENCY, getPreferredSupplier } from '../../domain/entities/Supplier';
+import { InventoryItem } from '../../domain/entities/InventoryItem';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+import { SupplierRepository, SupplierFilters } from '../../infrastructure/repositories/MongoSupplierRepository';
+
+export interface CreateSupplierRequest {
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  leadTimeDays?: number;
+  currency?: string;
+  paymentTerms?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+// Proveedores normalizados de un artículo y el nombre del preferente
+export interface NormalizedItemSuppliers {
+  suppliers: ItemSupplier[];
+  supplier: string;
+}
+
+const MIGRATED_SUPPLIER_PREFIX = 'PROV-';
+
+export class SupplierUseCases {
+  constructor(
+    private supplierRepository: SupplierRepository,
+    private inventoryRepository: IInventoryRepository
+  ) {}
+
+  async createSupplier(request: CreateSupplierRequest): Promise<Supplier> {
+    if (!request.code || !request.code.trim()) {
+      throw new Error('El código del proveedor es requerido');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre del proveedor es requerido');
+    }
+
+    const existing = await this.supplierRepository.findByCode(request.code.trim());
+    if (existing) {
+      throw new Error(`Ya existe un proveedor con el código ${request.code.trim().toUpperCase()}`);
+    }
+
+    return this.supplierRepository.create({
+      ...this.normalizeSupplierData(request),
+      code: request.code.trim(),
+      name: request.name.trim(),
+      leadTimeDays: this.normalizeLeadTime(request.leadTimeDays) ?? 0,
+      currency: this.normalizeCurrency(request.currency) ?? DEFAULT_SUPPLIER_CURRENCY,
+      isActive: request.isActive ?? true
+    });
+  }
+
+  async getSuppliers(filters?: SupplierFilters): Promise<Supplier[]> {
+    return this.supplierRepository.findAll(filters);
+  }
+
+  async getSupplierById(id: string): Promise<Supplier> {
+    const supplier = await this.supplierRepository.findById(id);
+    if (!supplier) {
+      throw new Error('Proveedor no encontrado');
+    }
+    return supplier;
+  }
+
+  // Artículos que se compran al proveedor
+  async getSupplierItems(id: string): Promise<InventoryItem[]> {
+    await this.getSupplierById(id);
+    return this.inventoryRepository.findBySupplier(id);
+  }
+
+  async updateSupplier(id: string, updates: Partial<CreateSupplierRequest>): Promise<Supplier> {
+    const supplier = await this.getSupplierById(id);
+
+    if (updates.code !== undefined) {
+      if (!updates.code.trim()) {
+        throw new Error('El código del proveedor es requerido');
+      }
+      const existing = await this.supplierRepository.findByCode(updates.code.trim());
+      if (existing && existing.id !== id) {
+        throw new Error(`Ya existe un proveedor con el código ${updates.code.trim().toUpperCase()}`);
+      }
+    }
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error('El nombre del proveedor es requerido');
+    }
+
+    const leadTimeDays = this.normalizeLeadTime(updates.leadTimeDays);
+    const currency = this.normalizeCurrency(updates.currency);
+    const updatedSupplier = await this.supplierRepository.update(id, {
+      ...this.normalizeSupplierData(updates),
+      ...(updates.code !== undefined && { code: updates.code.trim() }),
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(leadTimeDays !== undefined && { leadTimeDays }),
+      ...(currency !== undefined && { currency }),
+      ...(updates.isActive !== undefined && { isActive: updates.isActive })
+    });
+    if (!updatedSupplier) {
+      throw new Error('Error al actualizar el proveedor');
+    }
+
+    // Los artículos guardan el nombre del proveedor preferente
+    if (updatedSupplier.name !== supplier.name) {
+      const items = await this.inventoryRepository.findBySupplier(id);
+      for (const item of items) {
+        if (getPreferredSupplier(item.suppliers)?.supplierId === id) {
+          await this.inventoryRepository.update(item.id, { supplier: updatedSupplier.name });
+        }
+      }
+    }
+
+    return updatedSupplier;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    await this.getSupplierById(id);
+
+    const items = await this.inventoryRepository.findBySupplier(id);
+    if (items.length > 0) {
+      throw new Error(`El proveedor está asignado a ${items.length} artículo(s): desactívelo en lugar de eliminarlo`);
+    }
+
+    return this.supplierRepository.delete(id);
+  }
+
+  // Valida los proveedores de un artículo: deben existir, sin repetir, y queda un único preferente.
+  // Los proveedores desactivados solo se admiten si el artículo ya los tenía asignados
+  async validateItemSuppliers(lines: ItemSupplier[], existingItem?: InventoryItem): Promise<NormalizedItemSuppliers> {
+    const seen = new Set<string>();
+    const currentIds = new Set((existingItem?.suppliers || []).map(line => line.supplierId));
+    const suppliers: ItemSupplier[] = [];
+    const names = new Map<string, string>();
+
+    for (const line of lines) {
+      if (!line.supplierId) {
+        throw new Error('Debe indicar el proveedor');
+      }
+      if (seen.has(line.supplierId)) {
+        throw new Error('Un proveedor solo puede aparecer una vez en el artículo');
+      }
+      seen.add(line.supplierId);
+
+      const supplier = await this.supplierRepository.findById(line.supplierId);
+      if (!supplier) {
+        throw new Error(`Proveedor con ID ${line.supplierId} no encontrado`);
+      }
+      if (!supplier.isActive && !currentIds.has(supplier.id)) {
+        throw new Error(`El proveedor ${supplier.name} está desactivado`);
+      }
+
+      const unitPrice = this.optionalNumber(line.unitPrice);
+      if (unitPrice !== undefined && unitPrice < 0) {
+        throw new Error(`El precio del proveedor ${supplier.name} no puede ser negativo`);
+      }
+      const minimumOrderQuantity = this.optionalNumber(line.minimumOrderQuantity);
+      if (minimumOrderQuantity !== undefined && minimumOrderQuantity < 0) {
+        throw new Error(`La cantidad mínima de pedido del proveedor ${supplier.name} no puede ser negativa`);
+      }
+
+      names.set(supplier.id, supplier.name);
+      suppliers.push({
+        supplierId: supplier.id,
+        supplierSku: line.supplierSku?.trim() || undefined,
+        unitPrice,
+        minimumOrderQuantity,
+        isPreferred: Boolean(line.isPreferred)
+      });
+    }
+
+    const preferred = getPreferredSupplier(suppliers);
+    suppliers.forEach(line => {
+      line.isPreferred = line === preferred;
+    });
+
+    return { suppliers, supplier: preferred ? names.get(preferred.supplierId) || '' : '' };
+  }
+
+  // Convierte el antiguo campo de texto "supplier" de los artículos en proveedores.
+  // Los nombres que coinciden (sin distinguir mayúsculas) comparten el mismo proveedor
+  async migrateLegacySuppliers(): Promise<number> {
+    const items = await this.inventoryRepository.findAll();
+    const pending = items.filter(item => item.supplier?.trim() && !(item.suppliers && item.suppliers.length > 0));
+
+    for (const item of pending) {
+      const name = item.supplier!.trim();
+      const supplier = (await this.supplierRepository.findByName(name))
+        || await this.supplierRepository.create({
+          code: await this.nextMigratedCode(),
+          name,
+          leadTimeDays: 0,
+          currency: DEFAULT_SUPPLIER_CURRENCY,
+          notes: 'Creado a partir del proveedor indicado en los artículos',
+          isActive: true
+        });
+
+      await this.inventoryRepository.update(item.id, {
+        supplier: supplier.name,
+        suppliers: [{ supplierId: supplier.id, isPreferred: true }]
+      });
+    }
+
+    return pending.length;
+  }
+
+  private async nextMigratedCode(): Promise<string> {
+    const suppliers = await this.supplierRepository.findAll();
+    let sequence = suppliers.length + 1;
+    let code = `${MIGRATED_SUPPLIER_PREFIX}${String(sequence).padStart(4, '0')}`;
+    while (await this.supplierRepository.findByCode(code)) {
+      sequence++;
+      code = `${MIGRATED_SUPPLIER_PREFIX}${String(sequence).padStart(4, '0')}`;
+    }
+    return code;
+  }
+
+  // Campos de texto opcionales: se recortan y las cadenas vacías se guardan vacías
+  private normalizeSupplierData(data: Partial<CreateSupplierRequest>): Partial<Supplier> {
+    const normalized: Partial<Supplier> = {};
+    const fields = ['contactName', 'email', 'phone', 'address', 'taxId', 'paymentTerms', 'notes'] as const;
+    for (const field of fields) {
+      if (data[field] !== undefined && data[field] !== null) {
+        normalized[field] = String(data[field]).trim();
+      }
+    }
+
+    if (normalized.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized.email)) {
+      throw new Error('El email del proveedor no es válido');
+    }
+    return normalized;
+  }
+
+  private normalizeLeadTime(value?: number): number | undefined {
+    const leadTimeDays = this.optionalNumber(value);
+    if (leadTimeDays !== undefined && (leadTimeDays < 0 || !Number.isInteger(leadTimeDays))) {
+      throw new Error('El plazo de entrega debe ser un número entero de días');
+    }
+    return leadTimeDays;
+  }
+
+  private normalizeCurrency(value?: string): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const currency = String(value).trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new Error('La moneda debe ser un código ISO de tres letras (por ejemplo EUR)');
+    }
+    return currency;
+  }
+
+  private optionalNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const number = Number(value);
+    if (Number.isNaN(number)) {
+      throw new Error('Valor numérico no válido');
+    }
+    return number;
+  }
+}
@@ -0,0 +1,190 @@
+import { randomBytes } from 'crypto';
+import { User, UserRole, AuthenticatedUser, AuthSession } from '../../domain/entities/User';
+import { UserRepository, UserFilters } from '../../infrastructure/repositories/MongoUserRepository';
+import { TokenService } from '../../infrastructure/auth/JwtTokenService';
+import { hashPassword, verifyPassword } from '../../infrastructure/auth/passwordHasher';
+
+export interface CreateUserRequest {
+  username: string;
+  name: string;
+  email?: string;
+  password: string;
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+export interface UpdateUserRequest {
+  name?: string;
+  email?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  password?: string; // restablecimiento por un administrador
+}
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,50}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export class UserUseCases {
+  constructor(
+    private userRepository: UserRepository,
+    private tokenService: TokenService
+  ) {}
+
+  async login(username: string, password: string): Promise<AuthSession> {
+    if (!username || !password) {
+      throw new Error('Usuario y contraseña son requeridos');
+    }
+
+    // Mismo mensaje para usuario inexistente y contraseña incorrecta
+    const user = await this.userRepository.findByUsername(username);
+    const passwordHash = user ? await this.userRepository.findPasswordHash(user.id) : null;
+    if (!user || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+      throw new Error('Usuario o contraseña incorrectos');
+    }
+
+    if (!user.isActive) {
+      throw new Error('El usuario está desactivado');
+    }
+
+    await this.userRepository.recordLogin(user.id);
+    const { token, expiresAt } = this.tokenService.sign({ sub: user.id, username: user.username, role: user.role });
+
+    return { token, expiresAt, user: { ...user, lastLoginAt: new Date() } };
+  }
+
+  // Valida el token y comprueba que el usuario siga activo
+  async authenticate(token: string): Promise<AuthenticatedUser> {
+    const payload = this.tokenService.verify(token);
+
+    const user = await this.userRepository.findById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new Error('El usuario no existe o está desactivado');
+    }
+
+    return { id: user.id, username: user.username, name: user.name, role: user.role };
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const passwordHash = await this.userRepository.findPasswordHash(userId);
+    if (!passwordHash) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!currentPassword || !(await verifyPassword(currentPassword, passwordHash))) {
+      throw new Error('La contraseña actual no es correcta');
+    }
+
+    this.validatePassword(newPassword);
+    await this.userRepository.updatePassword(userId, await hashPassword(newPassword));
+  }
+
+  async createUser(request: CreateUserRequest): Promise<User> {
+    const username = (request.username || '').trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new Error('El usuario debe tener entre 3 y 50 caracteres (letras, números, punto, guion o guion bajo)');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre es requerido');
+    }
+
+    const existing = await this.userRepository.findByUsername(username);
+    if (existing) {
+      throw new Error(`Ya existe el usuario ${username}`);
+    }
+
+    this.validateRole(request.role);
+    this.validatePassword(request.password);
+
+    return this.userRepository.create({
+      username,
+      name: request.name.trim(),
+      email: request.email?.trim() || undefined,
+      role: request.role || UserRole.VIEWER,
+      isActive: request.isActive ?? true
+    }, await hashPassword(request.password));
+  }
+
+  async getAllUsers(filters?: UserFilters): Promise<User[]> {
+    return this.userRepository.findAll(filters);
+  }
+
+  async getUserById(id: string): Promise<User> {
+    const user = await this.userRepository.findById(id);
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+    return user;
+  }
+
+  async updateUser(id: string, request: UpdateUserRequest, currentUserId?: string): Promise<User> {
+    const user = await this.getUserById(id);
+    const updates: Partial<User> = {};
+
+    if (request.name !== undefined) {
+      if (!request.name.trim()) {
+        throw new Error('El nombre es requerido');
+      }
+      updates.name = request.name.trim();
+    }
+
+    if (request.email !== undefined) {
+      updates.email = request.email.trim() || undefined;
+    }
+
+    if (request.role !== undefined) {
+      this.validateRole(request.role);
+      updates.role = request.role;
+    }
+
+    if (request.isActive !== undefined) {
+      updates.isActive = request.isActive;
+    }
+
+    // Un administrador no puede quitarse a sí mismo el acceso de administración
+    if (id === currentUserId && ((updates.role && updates.role !== UserRole.ADMIN) || updates.isActive === false)) {
+      throw new Error('No puede quitarse el rol de administrador ni desactivar su propio usuario');
+    }
+
+    if (request.password) {
+      this.validatePassword(request.password);
+      await this.userRepository.updatePassword(id, await hashPassword(request.password));
+    }
+
+    const updatedUser = await this.userRepository.update(user.id, updates);
+    if (!updatedUser) {
+      throw new Error('Error al actualizar el usuario');
+    }
+    return updatedUser;
+  }
+
+  // Primer arranque: sin usuarios se crea un administrador para poder entrar
+  async ensureAdminUser(username: string, password?: string): Promise<void> {
+    if (await this.userRepository.count() > 0) {
+      return;
+    }
+
+    // En producción la contraseña temporal acabaría en los logs del servidor
+    if (!password && process.env.NODE_ENV === 'production') {
+      throw new Error('ADMIN_PASSWORD es obligatorio en producción para crear el primer administrador');
+    }
+
+    const initialPassword = password || randomBytes(9).toString('base64');
+    await this.createUser({ username, name: 'Administrador', password: initialPassword, role: UserRole.ADMIN });
+
+    console.log(password
+      ? `👤 Usuario administrador "${username}" creado`
+      : `👤 Usuario administrador "${username}" creado con contraseña temporal: ${initialPassword}`);
+  }
+
+  private validateRole(role?: UserRole): void {
+    if (role !== undefined && !Object.values(UserRole).includes(role)) {
+      throw new Error(`Rol inválido: ${role}`);
+    }
+  }
+
+  private validatePassword(password: string): void {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres`);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { Warehouse, BinLocation, LocationStock, StockLocation, DEFAULT_WAREHOUSE_CODE } from '../../domain/entities/Warehouse';
+import { WarehouseRepository, WarehouseFilters } from '../../infrastructure/repositories/MongoWarehouseRepository';
+import { BinLocationRepository } from '../../infrastructure/repositories/MongoBinLocationRepository';
+import { LocationStockRepository, LocationStockFilters } from '../../infrastructure/repositories/MongoLocationStockRepository';
+
+export interface CreateWarehouseRequest {
+  code: string;
+  name: string;
+  address?: string;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface CreateBinLocationRequest {
+  code: string;
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface ResolvedLocation {
+  warehouse: Warehouse;
+  bin?: BinLocation;
+}
+
+export class WarehouseUseCases {
+  constructor(
+    private warehouseRepository: WarehouseRepository,
+    private binLocationRepository: BinLocationRepository,
+    private locationStockRepository: LocationStockRepository
+  ) {}
+
+  async createWarehouse(request: CreateWarehouseRequest): Promise<Warehouse> {
+    if (!request.code || !request.code.trim()) {
+      throw new Error('El código del almacén es requerido');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre del almacén es requerido');
+    }
+
+    const existing = await this.warehouseRepository.findByCode(request.code.trim());
+    if (existing) {
+      throw new Error(`Ya existe un almacén con el código ${request.code.trim().toUpperCase()}`);
+    }
+
+    // El primer almacén pasa a ser el almacén por defecto
+    const currentDefault = await this.warehouseRepository.findDefault();
+    const warehouse = await this.warehouseRepository.create({
+      code: request.code.trim(),
+      name: request.name.trim(),
+      address: request.address?.trim(),
+      isDefault: false,
+      isActive: request.isActive ?? true
+    });
+
+    if (request.isDefault || !currentDefault) {
+      return (await this.warehouseRepository.setDefault(warehouse.id)) || warehouse;
+    }
+    return warehouse;
+  }
+
+  async getWarehouses(filters?: WarehouseFilters): Promise<Warehouse[]> {
+    return this.warehouseRepository.findAll(filters);
+  }
+
+  async getWarehouseById(id: string): Promise<Warehouse> {
+    const warehouse = await this.warehouseRepository.findById(id);
+    if (!warehouse) {
+      throw new Error('Almacén no encontrado');
+    }
+    return warehouse;
+  }
+
+  async updateWarehouse(id: string, updates: Partial<CreateWarehouseRequest>): Promise<Warehouse> {
+    const warehouse = await this.getWarehouseById(id);
+
+    if (updates.code && updates.code.trim().toUpperCase() !== warehouse.code) {
+      const existing = await this.warehouseRepository.findByCode(updates.code.trim());
+      if (existing && existing.id !== id) {
+        throw new Error(`Ya existe un almacén con el código ${updates.code.trim().toUpperCase()}`);
+      }
+    }
+
+    if (warehouse.isDefault && updates.isDefault === false) {
+      throw new Error('Marque otro almacén como almacén por defecto');
+    }
+    if ((warehouse.isDefault || updates.isDefault) && updates.isActive === false) {
+      throw new Error('No se puede desactivar el almacén por defecto');
+    }
+
+    const { isDefault, ...otherUpdates } = updates;
+    const updatedWarehouse = await this.warehouseRepository.update(id, otherUpdates);
+    if (!updatedWarehouse) {
+      throw new Error('Error al actualizar el almacén');
+    }
+
+    if (isDefault && !warehouse.isDefault) {
+      return (await this.warehouseRepository.setDefault(id)) || updatedWarehouse;
+    }
+    return updatedWarehouse;
+  }
+
+  async deleteWarehouse(id: string): Promise<boolean> {
+    const warehouse = await this.getWarehouseById(id);
+    if (warehouse.isDefault) {
+      throw new Error('No se puede eliminar el almacén por defecto');
+    }
+
+    const stock = await this.locationStockRepository.findAll({ warehouseId: id, withStock: true });
+    if (stock.length > 0) {
+      throw new Error('El almacén tiene existencias: transfiéralas antes de eliminarlo');
+    }
+
+    const bins = await this.binLocationRepository.findAll({ warehouseId: id });
+    for (const bin of bins) {
+      await this.binLocationRepository.delete(bin.id);
+    }
+    return this.warehouseRepository.delete(id);
+  }
+
+  async getBins(warehouseId: string): Promise<BinLocation[]> {
+    await this.getWarehouseById(warehouseId);
+    return this.binLocationRepository.findAll({ warehouseId });
+  }
+
+  async createBin(warehouseId: string, request: CreateBinLocationRequest): Promise<BinLocation> {
+    await this.getWarehouseById(warehouseId);
+
+    if (!request.code || !request.code.trim()) {
+      throw new Error('El código de la ubicación es requerido');
+    }
+
+    const existing = await this.binLocationRepository.findByCode(warehouseId, request.code.trim());
+    if (existing) {
+      throw new Error(`Ya existe la ubicación ${request.code.trim().toUpperCase()} en este almacén`);
+    }
+
+    return this.binLocationRepository.create({
+      warehouseId,
+      code: request.code.trim(),
+      description: request.description?.trim(),
+      isActive: request.isActive ?? true
+    });
+  }
+
+  async updateBin(warehouseId: string, binId: string, updates: Partial<CreateBinLocationRequest>): Promise<BinLocation> {
+    const bin = await this.getBin(warehouseId, binId);
+
+    if (updates.code && updates.code.trim().toUpperCase() !== bin.code) {
+      const existing = await this.binLocationRepository.findByCode(warehouseId, updates.code.trim());
+      if (existing && existing.id !== binId) {
+        throw new Error(`Ya existe la ubicación ${updates.code.trim().toUpperCase()} en este almacén`);
+      }
+
+      // El código se guarda en las existencias: solo se cambia en ubicaciones vacías
+      const stock = await this.locationStockRepository.findAll({ warehouseId, binId, withStock: true });
+      if (stock.length > 0) {
+        throw new Error('No se puede cambiar el código de una ubicación con existencias');
+      }
+    }
+
+    const updatedBin = await this.binLocationRepository.update(binId, updates);
+    if (!updatedBin) {
+      throw new Error('Error al actualizar la ubicación');
+    }
+    return updatedBin;
+  }
+
+  async deleteBin(warehouseId: string, binId: string): Promise<boolean> {
+    await this.getBin(warehouseId, binId);
+
+    const stock = await this.locationStockRepository.findAll({ warehouseId, binId, withStock: true });
+    if (stock.length > 0) {
+      throw new Error('La ubicación tiene existencias: transfiéralas antes de eliminarla');
+    }
+
+    return this.binLocationRepository.delete(binId);
+  }
+
+  async getStock(filters?: LocationStockFilters): Promise<LocationStock[]> {
+    return this.locationStockRepository.findAll(filters);
+  }
+
+  async getItemStock(itemId: string): Promise<LocationStock[]> {
+    return this.locationStockRepository.findAll({ itemId, withStock: true });
+  }
+
+  // Comprueba que el almacén y la ubicación existen y que la ubicación pertenece al almacén.
+  // Las entradas exigen ubicaciones activas; las salidas pueden vaciar una ubicación desactivada
+  async resolveLocation(location: StockLocation, requireActive = true): Promise<ResolvedLocation> {
+    if (!location.warehouseId) {
+      throw new Error('Debe indicar el almacén');
+    }
+
+    const warehouse = await this.getWarehouseById(location.warehouseId);
+    if (requireActive && !warehouse.isActive) {
+      throw new Error(`El almacén ${warehouse.code} está desactivado`);
+    }
+
+    if (!location.binId) {
+      return { warehouse };
+    }
+
+    const bin = await this.getBin(warehouse.id, location.binId);
+    if (requireActive && !bin.isActive) {
+      throw new Error(`La ubicación ${bin.code} del almacén ${warehouse.code} está desactivada`);
+    }
+    return { warehouse, bin };
+  }
+
+  // Crea el almacén por defecto si todavía no hay ninguno
+  async ensureDefaultWarehouse(): Promise<Warehouse> {
+    const currentDefault = await this.warehouseRepository.findDefault();
+    if (currentDefault) {
+      return currentDefault;
+    }
+
+    const existing = await this.warehouseRepository.findByCode(DEFAULT_WAREHOUSE_CODE);
+    if (existing) {
+      return (await this.warehouseRepository.setDefault(existing.id)) || existing;
+    }
+
+    return this.createWarehouse({ code: DEFAULT_WAREHOUSE_CODE, name: 'Almacén principal', isDefault: true });
+  }
+
+  private async getBin(warehouseId: string, binId: string): Promise<BinLocation> {
+    const bin = await this.binLocationRepository.findById(binId);
+    if (!bin || bin.warehouseId !== warehouseId) {
+      throw new Error('Ubicación no encontrada en el almacén');
+    }
+    return bin;
+  }
+}
@@ -0,0 +1,92 @@
+import { WorkCenter } from '../../domain/entities/WorkCenter';
+import { WorkCenterRepository, WorkCenterFilters } from '../../infrastructure/repositories/MongoWorkCenterRepository';
+import { IInventoryRepository } from '../../domain/repositories/IInventoryRepository';
+
+export interface CreateWorkCenterRequest {
+  code: string;
+  name: string;
+  description?: string;
+  capacityHoursPerDay?: number;
+  isActive?: boolean;
+}
+
+export class WorkCenterUseCases {
+  constructor(
+    private workCenterRepository: WorkCenterRepository,
+    private inventoryRepository: IInventoryRepository
+  ) {}
+
+  async createWorkCenter(request: CreateWorkCenterRequest): Promise<WorkCenter> {
+    if (!request.code || !request.code.trim()) {
+      throw new Error('El código del centro de trabajo es requerido');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new Error('El nombre del centro de trabajo es requerido');
+    }
+
+    const existing = await this.workCenterRepository.findByCode(request.code.trim());
+    if (existing) {
+      throw new Error(`Ya existe un centro de trabajo con el código ${request.code.trim().toUpperCase()}`);
+    }
+
+    this.validateCapacity(request.capacityHoursPerDay);
+
+    return this.workCenterRepository.create({
+      code: request.code.trim(),
+      name: request.name.trim(),
+      description: request.description?.trim(),
+      capacityHoursPerDay: request.capacityHoursPerDay ?? 8,
+      isActive: request.isActive ?? true
+    });
+  }
+
+  async getAllWorkCenters(filters?: WorkCenterFilters): Promise<WorkCenter[]> {
+    return this.workCenterRepository.findAll(filters);
+  }
+
+  async getWorkCenterById(id: string): Promise<WorkCenter> {
+    const workCenter = await this.workCenterRepository.findById(id);
+    if (!workCenter) {
+      throw new Error('Centro de trabajo no encontrado');
+    }
+    return workCenter;
+  }
+
+  async updateWorkCenter(id: string, updates: Partial<CreateWorkCenterRequest>): Promise<WorkCenter> {
+    const workCenter = await this.getWorkCenterById(id);
+
+    if (updates.code && updates.code.trim().toUpperCase() !== workCenter.code) {
+      const existing = await this.workCenterRepository.findByCode(updates.code.trim());
+      if (existing && existing.id !== id) {
+        throw new Error(`Ya existe un centro de trabajo con el código ${updates.code.trim().toUpperCase()}`);
+      }
+    }
+
+    this.validateCapacity(updates.capacityHoursPerDay);
+
+    const updatedWorkCenter = await this.workCenterRepository.update(id, updates);
+    if (!updatedWorkCenter) {
+      throw new Error('Error al actualizar el centro de trabajo');
+    }
+    return updatedWorkCenter;
+  }
+
+  async deleteWorkCenter(id: string): Promise<boolean> {
+    await this.getWorkCenterById(id);
+
+    // No se puede eliminar un centro que aparece en alguna ruta de fabricación
+    const items = await this.inventoryRepository.findByWorkCenter(id);
+    if (items.length > 0) {
+      const names = items.map(item => item.name).join(', ');
+      throw new Error(`El centro de trabajo se usa en la ruta de: ${names}. Desactívelo en lugar de eliminarlo`);
+    }
+
+    return this.workCenterRepository.delete(id);
+  }
+
+  private validateCapacity(capacityHoursPerDay?: number): void {
+    if (capacityHoursPerDay !== undefined && (capacityHoursPerDay < 0 || capacityHoursPerDay > 24)) {
+      throw new Error('La capacidad diaria debe estar entre 0 y 24 horas');
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { BackflushStatus, BackflushTrigger } from '../../../domain/entities/Backflush';
+import { BomRevision, BomRevisionStatus } from '../../../domain/entities/BomRevision';
+import { InventoryType } from '../../../domain/entities/InventoryItem';
+import { ComponentProgress } from '../../../domain/entities/ManufacturingOrder';
+import { StockMovementType } from '../../../domain/entities/StockMovement';
+import { BackflushUseCases } from '../BackflushUseCases';
+import { BomRevisionUseCases } from '../BomRevisionUseCases';
+import { MaterialRequirementsUseCases } from '../MaterialRequirementsUseCases';
+import { StockReservationUseCases } from '../StockReservationUseCases';
+import { buildCard, buildItem, createStockLedger, fake, InMemoryBackflushRepository, StockLedger } from './fakes';
+
+// Revisión congelada del chasis: 3 de acero y 1 soporte (subcomponente) por unidad
+const frameRevision: BomRevision = {
+  id: 'rev-frame-1',
+  itemId: 'frame',
+  itemName: 'Chasis',
+  itemSku: 'FRAME',
+  revisionNumber: 1,
+  status: BomRevisionStatus.RELEASED,
+  componentLines: [{ componentId: 'bracket', componentName: 'Soporte', componentSku: 'BRACKET', quantity: 1 }],
+  billOfMaterials: [
+    { materialId: 'steel', materialName: 'Acero', materialSku: 'STEEL', requiredQuantity: 3, unit: 'kg' },
+    { materialId: 'paint', materialName: 'Pintura', materialSku: 'PAINT', requiredQuantity: 1, unit: 'l', isOptional: true }
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Revisión congelada del modelo: además del chasis lleva 0,5 l de pintura por unidad
+const modelRevision: BomRevision = {
+  ...frameRevision,
+  id: 'rev-model-1',
+  itemId: 'model',
+  itemName: 'Modelo',
+  itemSku: 'MODEL',
+  componentLines: [{ componentId: 'frame', componentName: 'Chasis', componentSku: 'FRAME', quantity: 2 }],
+  billOfMaterials: [{ materialId: 'paint', materialName: 'Pintura', materialSku: 'PAINT', requiredQuantity: 0.5, unit: 'l' }]
+};
+
+const revisions = [frameRevision, modelRevision];
+
+const frameProgress = (overrides: Partial<ComponentProgress> = {}): ComponentProgress => ({
+  componentId: 'frame',
+  componentName: 'Chasis',
+  componentSku: 'FRAME',
+  bomRevisionId: frameRevision.id,
+  quantityRequired: 2,
+  quantityCompleted: 0,
+  isCompleted: false,
+  ...overrides
+});
+
+describe('BackflushUseCases', () => {
+  let ledger: StockLedger;
+  let backflushRepository: InMemoryBackflushRepository;
+  let consumeForOrder: jest.Mock;
+  let backflushUseCases: BackflushUseCases;
+
+  beforeEach(async () => {
+    ledger = await createStockLedger([
+      buildItem({ id: 'steel', name: 'Acero', quantity: 20, unit: 'kg' }),
+      buildItem({ id: 'paint', name: 'Pintura', quantity: 5, unit: 'l' }),
+      buildItem({ id: 'bracket', name: 'Soporte', type: InventoryType.COMPONENT, quantity: 4 }),
+      // La estructura actual del chasis ya no coincide con la revisión de la orden
+      buildItem({
+        id: 'frame',
+        name: 'Chasis',
+        type: InventoryType.COMPONENT,
+        billOfMaterials: [{ materialId: 'paint', materialName: 'Pintura', materialSku: 'PAINT', requiredQuantity: 2, unit: 'l' }]
+      }),
+      buildItem({ id: 'model', name: 'Modelo', type: InventoryType.MODEL })
+    ]);
+    backflushRepository = new InMemoryBackflushRepository();
+    consumeForOrder = jest.fn().mockResolvedValue(undefined);
+    backflushUseCases = new BackflushUseCases(
+      backflushRepository,
+      ledger.stockMovementUseCases,
+      fake<StockReservationUseCases>({ consumeForOrder }),
+      new MaterialRequirementsUseCases(
+        ledger.inventory.asRepository(),
+        fake<BomRevisionUseCases>({ getRevision: async id => revisions.find(revision => revision.id === id) as BomRevision })
+      )
+    );
+  });
+
+  describe('backflushComponent', () => {
+    it('consume la revisión congelada por la cantidad del componente y da entrada al componente', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress()] });
+
+      const backflush = await backflushUseCases.backflushComponent(card, 'frame', 'operario');
+
+      expect(backflush).toMatchObject({ cardId: 'card-1', orderId: 'order-1', trigger: BackflushTrigger.COMPONENT_COMPLETION, componentId: 'frame' });
+      expect(backflush.lines.map(line => [line.itemId, line.quantity])).toEqual([
+        ['steel', -6],
+        ['bracket', -2],
+        ['frame', 2]
+      ]);
+      expect(ledger.inventory.quantityOf('steel')).toBe(14);
+      expect(ledger.inventory.quantityOf('paint')).toBe(5);
+      expect(ledger.inventory.quantityOf('bracket')).toBe(2);
+      expect(ledger.inventory.quantityOf('frame')).toBe(2);
+    });
+
+    it('usa la cantidad real ajustada en lugar de la de la estructura', async () => {
+      const card = buildCard({
+        id: 'card-1',
+        orderId: 'order-1',
+        components: [frameProgress({
+          materialUsage: [{ materialId: 'steel', materialName: 'Acero', materialSku: 'STEEL', plannedQuantity: 6, actualQuantity: 7.5, unit: 'kg' }]
+        })]
+      });
+
+      await backflushUseCases.backflushComponent(card, 'frame');
+
+      expect(ledger.inventory.quantityOf('steel')).toBe(12.5);
+    });
+
+    it('descuenta lo consumido de las reservas de la orden', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress()] });
+
+      await backflushUseCases.backflushComponent(card, 'frame');
+
+      expect(consumeForOrder.mock.calls).toEqual([
+        ['order-1', 'steel', 6],
+        ['order-1', 'bracket', 2]
+      ]);
+    });
+
+    it('no registra nada si falta stock de algún material', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress({ quantityRequired: 5 })] });
+
+      await expect(backflushUseCases.backflushComponent(card, 'frame')).rejects.toThrow('Stock insuficiente de Soporte');
+
+      expect(ledger.inventory.quantityOf('steel')).toBe(20);
+      expect(ledger.inventory.quantityOf('frame')).toBe(0);
+      expect(backflushRepository.backflushes).toHaveLength(0);
+      expect(consumeForOrder).not.toHaveBeenCalled();
+    });
+
+    it('revierte los movimientos si no se puede guardar el backflush', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress()] });
+      backflushRepository.failOnCreate = true;
+
+      await expect(backflushUseCases.backflushComponent(card, 'frame')).rejects.toThrow('Error de base de datos');
+
+      expect(ledger.inventory.quantityOf('steel')).toBe(20);
+      expect(ledger.inventory.quantityOf('bracket')).toBe(4);
+      expect(ledger.inventory.quantityOf('frame')).toBe(0);
+      expect(ledger.movements.movements.filter(movement => movement.reversalOf)).toHaveLength(3);
+    });
+  });
+
+  describe('backflushCard', () => {
+    it('consume los componentes de la tarjeta y da entrada a una unidad del modelo', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress()] });
+      await backflushUseCases.backflushComponent(card, 'frame');
+
+      const backflush = await backflushUseCases.backflushCard(card);
+
+      expect(backflush.trigger).toBe(BackflushTrigger.CARD_COMPLETION);
+      expect(backflush.lines.map(line => [line.itemId, line.quantity])).toEqual([['frame', -2], ['model', 1]]);
+      expect(ledger.inventory.quantityOf('frame')).toBe(0);
+      expect(ledger.inventory.quantityOf('model')).toBe(1);
+    });
+
+    it('consume también los materiales propios del artículo según la revisión de la orden', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', bomRevisionId: modelRevision.id, components: [frameProgress()] });
+      await backflushUseCases.backflushComponent(card, 'frame');
+
+      const backflush = await backflushUseCases.backflushCard(card);
+
+      expect(backflush.lines.map(line => [line.itemId, line.quantity])).toEqual([['frame', -2], ['paint', -0.5], ['model', 1]]);
+      expect(ledger.inventory.quantityOf('paint')).toBe(4.5);
+      expect(consumeForOrder).toHaveBeenCalledWith('order-1', 'paint', 0.5);
+    });
+
+    it('una orden de un componente consume la lista de materiales del componente', async () => {
+      const card = buildCard({
+        id: 'card-1',
+        orderId: 'order-1',
+        modelId: 'frame',
+        modelName: 'Chasis',
+        bomRevisionId: frameRevision.id,
+        components: [{ componentId: 'bracket', componentName: 'Soporte', componentSku: 'BRACKET', quantityRequired: 1, quantityCompleted: 1, isCompleted: true }]
+      });
+
+      const backflush = await backflushUseCases.backflushCard(card);
+
+      expect(backflush.lines.map(line => [line.itemId, line.quantity])).toEqual([['bracket', -1], ['steel', -3], ['frame', 1]]);
+      expect(ledger.inventory.quantityOf('steel')).toBe(17);
+    });
+  });
+
+  describe('reverseCardBackflushes', () => {
+    it('revierte todo lo contabilizado por la tarjeta y deja el stock como estaba', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress()] });
+      await backflushUseCases.backflushComponent(card, 'frame');
+      await backflushUseCases.backflushCard(card);
+
+      const reversed = await backflushUseCases.reverseCardBackflushes('card-1', 'Tarjeta cancelada');
+
+      expect(reversed.map(backflush => backflush.trigger)).toEqual([BackflushTrigger.CARD_COMPLETION, BackflushTrigger.COMPONENT_COMPLETION]);
+      expect(reversed.every(backflush => backflush.status === BackflushStatus.REVERSED)).toBe(true);
+      expect(ledger.inventory.quantityOf('steel')).toBe(20);
+      expect(ledger.inventory.quantityOf('bracket')).toBe(4);
+      expect(ledger.inventory.quantityOf('frame')).toBe(0);
+      expect(ledger.inventory.quantityOf('model')).toBe(0);
+      expect(ledger.movements.movements.filter(movement => movement.type === StockMovementType.PRODUCTION_OUTPUT && movement.reversalOf))
+        .toHaveLength(2);
+    });
+
+    it('no vuelve a revertir un backflush ya revertido', async () => {
+      const card = buildCard({ id: 'card-1', orderId: 'order-1', components: [frameProgress()] });
+      const backflush = await backflushUseCases.backflushComponent(card, 'frame');
+      await backflushUseCases.reverseBackflush(backflush.id, 'Retrabajo');
+
+      await expect(backflushUseCases.reverseBackflush(backflush.id, 'Retrabajo')).rejects.toThrow('ya fue revertido');
+      expect(ledger.inventory.quantityOf('steel')).toBe(20);
+    });
+  });
+});
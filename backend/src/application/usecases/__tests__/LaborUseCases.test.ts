@@ -0,0 +1,44 @@
+import { DEFAULT_FACTORY_CALENDAR, WorkingCalendar } from '../../../domain/entities/FactoryCalendar';
+import { LaborEntry } from '../../../domain/entities/LaborEntry';
+import { LaborEntryRepository } from '../../../infrastructure/repositories/MongoLaborEntryRepository';
+import { LaborUseCases } from '../LaborUseCases';
+import { ProductionCardUseCases } from '../ProductionCardUseCases';
+import { FactoryCalendarUseCases } from '../FactoryCalendarUseCases';
+import { buildCard, fake } from './fakes';
+
+// Turno de noche en Madrid (UTC+2 en verano): de 22:00 a 02:00 hora de la planta
+const nightShift: LaborEntry = {
+  id: 'labor-1',
+  userId: 'user-1',
+  username: 'operario',
+  userName: 'Operario',
+  cardId: 'card-1',
+  orderId: 'order-1',
+  orderName: 'Cliente',
+  cardLabel: 'Cliente (1/1)',
+  startTime: new Date('2026-07-14T20:00:00Z'),
+  endTime: new Date('2026-07-15T00:00:00Z'),
+  minutes: 240,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('LaborUseCases.getLaborReport', () => {
+  it('reparte las horas por día a medianoche de la planta, no del servidor', async () => {
+    const laborUseCases = new LaborUseCases(
+      fake<LaborEntryRepository>({ findAll: async () => [nightShift] }),
+      fake<ProductionCardUseCases>({
+        getCardById: async id => buildCard({ id, orderId: 'order-1' }),
+        getCurrentProductionTime: async () => 240
+      }),
+      fake<FactoryCalendarUseCases>({
+        getWorkingCalendar: async () => new WorkingCalendar({ ...DEFAULT_FACTORY_CALENDAR, timezone: 'Europe/Madrid' })
+      })
+    );
+
+    const report = await laborUseCases.getLaborReport();
+
+    expect(report.byDay.map(line => [line.key, line.minutes])).toEqual([['2026-07-14', 120], ['2026-07-15', 120]]);
+    expect(report.totalMinutes).toBe(240);
+  });
+});
@@ -0,0 +1,73 @@
+import { ManufacturingOrder, ManufacturingOrderStatus } from '../../../domain/entities/ManufacturingOrder';
+import { ProductionCard, ProductionCardStatus } from '../../../domain/entities/ProductionCard';
+import { IInventoryRepository } from '../../../domain/repositories/IInventoryRepository';
+import { ManufacturingOrderRepository } from '../../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ManufacturingOrderUseCases } from '../ManufacturingOrderUseCases';
+import { ProductionCardUseCases } from '../ProductionCardUseCases';
+import { MaterialRequirementsUseCases } from '../MaterialRequirementsUseCases';
+import { StockReservationUseCases } from '../StockReservationUseCases';
+import { BomRevisionUseCases } from '../BomRevisionUseCases';
+import { FactoryCalendarUseCases } from '../FactoryCalendarUseCases';
+import { DowntimeUseCases } from '../DowntimeUseCases';
+import { CustomerUseCases } from '../CustomerUseCases';
+import { buildCard, fake } from './fakes';
+
+const order = { id: 'order-1', status: ManufacturingOrderStatus.PAUSED } as ManufacturingOrder;
+
+const cards: ProductionCard[] = [
+  buildCard({ id: 'card-1', orderId: 'order-1', status: ProductionCardStatus.IN_PROGRESS }),
+  buildCard({ id: 'card-2', orderId: 'order-1', status: ProductionCardStatus.PENDING }),
+  buildCard({ id: 'card-3', orderId: 'order-1', status: ProductionCardStatus.CANCELLED })
+];
+
+describe('ManufacturingOrderUseCases', () => {
+  let cancelCard: jest.Mock;
+  let deleteCardsByOrderId: jest.Mock;
+  let releaseForOrder: jest.Mock;
+
+  const createUseCases = (orderCards: ProductionCard[]) => new ManufacturingOrderUseCases(
+    fake<ManufacturingOrderRepository>({
+      findById: async () => order,
+      cancelOrder: async () => ({ ...order, status: ManufacturingOrderStatus.CANCELLED }),
+      delete: async () => true
+    }),
+    fake<IInventoryRepository>({}),
+    fake<ProductionCardUseCases>({ getCardsByOrder: async () => orderCards, cancelCard, deleteCardsByOrderId }),
+    fake<MaterialRequirementsUseCases>({}),
+    fake<StockReservationUseCases>({ releaseForOrder }),
+    fake<BomRevisionUseCases>({}),
+    fake<FactoryCalendarUseCases>({}),
+    fake<DowntimeUseCases>({}),
+    fake<CustomerUseCases>({})
+  );
+
+  beforeEach(() => {
+    cancelCard = jest.fn().mockResolvedValue(undefined);
+    deleteCardsByOrderId = jest.fn().mockResolvedValue(true);
+    releaseForOrder = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it('al cancelar la orden cancela sus tarjetas abiertas, que revierten lo ya consumido', async () => {
+    const cancelled = await createUseCases(cards).cancelOrder('order-1');
+
+    expect(cancelled.status).toBe(ManufacturingOrderStatus.CANCELLED);
+    expect(cancelCard.mock.calls).toEqual([['card-1'], ['card-2']]);
+    expect(releaseForOrder).toHaveBeenCalledWith('order-1');
+  });
+
+  it('cancela las tarjetas abiertas antes de eliminar la orden', async () => {
+    await createUseCases(cards).deleteOrder('order-1');
+
+    expect(cancelCard.mock.calls).toEqual([['card-1'], ['card-2']]);
+    expect(deleteCardsByOrderId).toHaveBeenCalledWith('order-1');
+  });
+
+  it('no elimina una orden con tarjetas completadas', async () => {
+    const completed = buildCard({ id: 'card-4', orderId: 'order-1', status: ProductionCardStatus.COMPLETED });
+
+    await expect(createUseCases([...cards, completed]).deleteOrder('order-1')).rejects.toThrow('tarjetas completadas');
+
+    expect(cancelCard).not.toHaveBeenCalled();
+    expect(deleteCardsByOrderId).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+import { BomRevision, BomRevisionStatus } from '../../../domain/entities/BomRevision';
+import { InventoryType } from '../../../domain/entities/InventoryItem';
+import { BomRevisionUseCases } from '../BomRevisionUseCases';
+import { MaterialRequirementsUseCases } from '../MaterialRequirementsUseCases';
+import { buildItem, fake, InMemoryInventoryRepository } from './fakes';
+
+// Bici = 2 ruedas + 0,25 l de aceite; rueda = 1 llanta + 0,5 kg de goma
+const buildInventory = () => new InMemoryInventoryRepository([
+  buildItem({
+    id: 'bike',
+    name: 'Bici',
+    type: InventoryType.MODEL,
+    componentLines: [{ componentId: 'wheel', quantity: 2 }],
+    billOfMaterials: [{ materialId: 'oil', materialName: 'Aceite', materialSku: 'OIL', requiredQuantity: 0.25, unit: 'l' }]
+  }),
+  buildItem({
+    id: 'wheel',
+    name: 'Rueda',
+    type: InventoryType.COMPONENT,
+    componentLines: [{ componentId: 'rim', quantity: 1 }],
+    billOfMaterials: [
+      { materialId: 'rubber', materialName: 'Goma', materialSku: 'RUBBER', requiredQuantity: 0.5, unit: 'kg' },
+      { materialId: 'sticker', materialName: 'Pegatina', materialSku: 'STICKER', requiredQuantity: 1, unit: 'ud', isOptional: true }
+    ]
+  }),
+  buildItem({ id: 'rim', name: 'Llanta', type: InventoryType.COMPONENT, quantity: 10 }),
+  buildItem({ id: 'rubber', name: 'Goma', unit: 'kg', quantity: 2 }),
+  buildItem({ id: 'oil', name: 'Aceite', unit: 'l', quantity: 5, reserved: 4.5 }),
+  buildItem({ id: 'sticker', name: 'Pegatina' })
+]);
+
+// Revisión congelada de la rueda anterior a un cambio de ingeniería: 1 kg de goma
+const wheelRevision: BomRevision = {
+  id: 'rev-wheel-1',
+  itemId: 'wheel',
+  itemName: 'Rueda',
+  itemSku: 'WHEEL',
+  revisionNumber: 1,
+  status: BomRevisionStatus.RELEASED,
+  componentLines: [{ componentId: 'rim', componentName: 'Llanta', componentSku: 'RIM', quantity: 1 }],
+  billOfMaterials: [{ materialId: 'rubber', materialName: 'Goma', materialSku: 'RUBBER', requiredQuantity: 1, unit: 'kg' }],
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const quantities = (requirements: { materialId: string; requiredQuantity: number }[]) =>
+  Object.fromEntries(requirements.map(requirement => [requirement.materialId, requirement.requiredQuantity]));
+
+describe('MaterialRequirementsUseCases', () => {
+  let useCases: MaterialRequirementsUseCases;
+
+  beforeEach(() => {
+    useCases = new MaterialRequirementsUseCases(
+      buildInventory().asRepository(),
+      fake<BomRevisionUseCases>({ getRevision: async () => wheelRevision })
+    );
+  });
+
+  it('la disponibilidad incluye los materiales del modelo y de sus componentes, sin los opcionales', async () => {
+    const report = await useCases.checkAvailability({ modelId: 'bike', quantity: 3 });
+
+    expect(quantities(report.requirements)).toEqual({ rubber: 3, rim: 6, oil: 0.75 });
+    expect(report.shortages.map(shortage => [shortage.materialId, shortage.shortage])).toEqual([
+      ['rubber', 1],
+      ['oil', 0.25]
+    ]);
+  });
+
+  it('comprueba lo mismo que reservará la orden creada con esa estructura', async () => {
+    const report = await useCases.checkAvailability({ modelId: 'bike', quantity: 3 });
+
+    const requirements = await useCases.explodeOrder({
+      modelId: 'bike',
+      quantity: 3,
+      components: [{ componentId: 'wheel', quantityRequired: 2 }]
+    });
+
+    expect(requirements).toEqual(report.requirements);
+  });
+
+  it('la orden usa las revisiones congeladas de sus componentes', async () => {
+    const requirements = await useCases.explodeOrder({
+      modelId: 'bike',
+      quantity: 3,
+      components: [{ componentId: 'wheel', bomRevisionId: wheelRevision.id, quantityRequired: 2 }]
+    });
+
+    expect(quantities(requirements)).toMatchObject({ rubber: 6, rim: 6 });
+  });
+});
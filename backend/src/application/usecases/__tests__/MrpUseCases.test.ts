@@ -0,0 +1,226 @@
+import { DEFAULT_FACTORY_CALENDAR, WorkingCalendar } from '../../../domain/entities/FactoryCalendar';
+import { InventoryItem, InventoryType } from '../../../domain/entities/InventoryItem';
+import { ManufacturingOrder, ManufacturingOrderStatus } from '../../../domain/entities/ManufacturingOrder';
+import { MrpRun, PlannedOrderType } from '../../../domain/entities/Mrp';
+import { ProductionCard, ProductionCardStatus } from '../../../domain/entities/ProductionCard';
+import { StockReservation, StockReservationStatus } from '../../../domain/entities/StockReservation';
+import { Supplier } from '../../../domain/entities/Supplier';
+import { MrpRunRepository } from '../../../infrastructure/repositories/MongoMrpRunRepository';
+import { ManufacturingOrderRepository } from '../../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ProductionCardRepository } from '../../../infrastructure/repositories/MongoProductionCardRepository';
+import { MrpUseCases } from '../MrpUseCases';
+import { MaterialRequirementsUseCases } from '../MaterialRequirementsUseCases';
+import { BomRevisionUseCases } from '../BomRevisionUseCases';
+import { StockReservationUseCases } from '../StockReservationUseCases';
+import { SupplierUseCases } from '../SupplierUseCases';
+import { PurchaseOrderUseCases } from '../PurchaseOrderUseCases';
+import { ManufacturingOrderUseCases } from '../ManufacturingOrderUseCases';
+import { FactoryCalendarUseCases } from '../FactoryCalendarUseCases';
+import { buildCard, buildItem, fake, InMemoryInventoryRepository } from './fakes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date();
+const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+const day = (offset: number): Date => new Date(today.getTime() + offset * DAY_MS);
+
+const supplier: Supplier = {
+  id: 'sup-1',
+  code: 'PRV-0001',
+  name: 'Aceros del Norte',
+  leadTimeDays: 4,
+  currency: 'EUR',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Bici = 1 chasis; chasis = 3 kg de acero. Un día de fabricación por bici.
+const buildItems = (overrides: Record<string, Partial<InventoryItem>> = {}): InventoryItem[] => [
+  buildItem({
+    id: 'bike',
+    name: 'Bici',
+    type: InventoryType.MODEL,
+    canManufacture: true,
+    estimatedManufacturingTime: 8,
+    componentLines: [{ componentId: 'frame', quantity: 1 }],
+    ...overrides.bike
+  }),
+  buildItem({
+    id: 'frame',
+    name: 'Chasis',
+    type: InventoryType.COMPONENT,
+    canManufacture: true,
+    billOfMaterials: [{ materialId: 'steel', materialName: 'Acero', materialSku: 'STEEL', requiredQuantity: 3, unit: 'kg' }],
+    ...overrides.frame
+  }),
+  buildItem({
+    id: 'steel',
+    name: 'Acero',
+    unit: 'kg',
+    quantity: 10,
+    reserved: 2,
+    minimumStock: 5,
+    suppliers: [{ supplierId: supplier.id, isPreferred: true }],
+    ...overrides.steel
+  })
+];
+
+const buildOrder = (order: Partial<ManufacturingOrder> = {}): ManufacturingOrder => ({
+  id: 'order-1',
+  modelId: 'bike',
+  modelName: 'Bici',
+  modelSku: 'BIKE',
+  quantity: 3,
+  clientName: 'Cliente',
+  dueDate: day(10),
+  createdDate: new Date(),
+  status: ManufacturingOrderStatus.IN_PROGRESS,
+  components: [{
+    componentId: 'frame',
+    componentName: 'Chasis',
+    componentSku: 'FRAME',
+    quantityRequired: 1,
+    quantityCompleted: 0,
+    isCompleted: false
+  }],
+  estimatedHours: 24,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...order
+});
+
+// Las tres tarjetas de la orden, las primeras ya completadas
+const completedCards = (count: number, total = 3): ProductionCard[] =>
+  Array.from({ length: total }, (_, index) => buildCard({
+    id: `card-${index + 1}`,
+    orderId: 'order-1',
+    cardNumber: index + 1,
+    totalCards: total,
+    status: index < count ? ProductionCardStatus.COMPLETED : ProductionCardStatus.PENDING
+  }));
+
+interface Scenario {
+  items?: InventoryItem[];
+  orders?: ManufacturingOrder[];
+  cards?: ProductionCard[];
+  reservations?: StockReservation[];
+}
+
+const runMrp = async ({ items = buildItems(), orders = [], cards = [], reservations = [] }: Scenario): Promise<MrpRun> => {
+  const inventory = new InMemoryInventoryRepository(items).asRepository();
+  const mrpUseCases = new MrpUseCases(
+    fake<MrpRunRepository>({ create: async run => ({ ...run, id: 'run-1', createdAt: new Date(), updatedAt: new Date() }) }),
+    inventory,
+    fake<ManufacturingOrderRepository>({ findAll: async () => orders }),
+    fake<ProductionCardRepository>({ findByOrderId: async orderId => cards.filter(card => card.orderId === orderId) }),
+    new MaterialRequirementsUseCases(inventory, fake<BomRevisionUseCases>({})),
+    fake<StockReservationUseCases>({ getOrderReservations: async orderId => reservations.filter(entry => entry.orderId === orderId) }),
+    fake<SupplierUseCases>({ getSuppliers: async () => [supplier] }),
+    fake<PurchaseOrderUseCases>({ getPurchaseOrders: async () => [] }),
+    fake<ManufacturingOrderUseCases>({}),
+    fake<FactoryCalendarUseCases>({
+      getWorkingCalendar: async () => new WorkingCalendar({ ...DEFAULT_FACTORY_CALENDAR, timezone: 'UTC' })
+    })
+  );
+  return mrpUseCases.runMrp('planner');
+};
+
+const planOf = (run: MrpRun, itemId: string) => run.items.find(item => item.itemId === itemId);
+
+describe('MrpUseCases.runMrp', () => {
+  it('cuenta como entrada prevista solo lo que le queda por producir a la orden', async () => {
+    const run = await runMrp({ orders: [buildOrder()], cards: completedCards(1) });
+
+    expect(planOf(run, 'bike')?.periods).toContainEqual(expect.objectContaining({ date: day(10), scheduledReceipts: 2 }));
+  });
+
+  it('no cuenta como entrada prevista las tarjetas canceladas', async () => {
+    const cards = completedCards(1);
+    cards[2].status = ProductionCardStatus.CANCELLED;
+
+    const run = await runMrp({ orders: [buildOrder()], cards });
+
+    expect(planOf(run, 'bike')?.periods).toContainEqual(expect.objectContaining({ date: day(10), scheduledReceipts: 1 }));
+  });
+
+  it('neta la demanda de las órdenes sin reservar contra el disponible y planifica la compra con el plazo del proveedor', async () => {
+    const run = await runMrp({ orders: [buildOrder()], cards: completedCards(1) });
+
+    // 2 bicis pendientes x 3 kg, dos días antes de la fecha límite; disponible 10 - 2 reservados
+    const steelPeriod = planOf(run, 'steel')?.periods.find(period => period.grossRequirement > 0);
+    expect(steelPeriod).toEqual({
+      date: day(8),
+      grossRequirement: 6,
+      scheduledReceipts: 0,
+      plannedReceipts: 3,
+      projectedAvailable: 5,
+      netRequirement: 3
+    });
+    expect(run.plannedOrders).toEqual([expect.objectContaining({
+      type: PlannedOrderType.BUY,
+      itemId: 'steel',
+      quantity: 3,
+      dueDate: day(8),
+      releaseDate: day(4),
+      isLate: false,
+      supplierId: supplier.id
+    })]);
+  });
+
+  it('no vuelve a contar la demanda de una orden que ya ha reservado', async () => {
+    const reservation: StockReservation = {
+      id: 'res-1',
+      orderId: 'order-1',
+      itemId: 'steel',
+      itemName: 'Acero',
+      itemSku: 'STEEL',
+      unit: 'kg',
+      quantity: 2,
+      consumedQuantity: 0,
+      status: StockReservationStatus.ACTIVE,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const run = await runMrp({ orders: [buildOrder()], cards: completedCards(1), reservations: [reservation] });
+
+    expect(planOf(run, 'steel')).toBeUndefined();
+    expect(run.plannedOrders).toHaveLength(0);
+  });
+
+  it('una orden de un componente demanda la lista de materiales del propio componente', async () => {
+    const order = buildOrder({ modelId: 'frame', modelName: 'Chasis', modelSku: 'FRAME', quantity: 2, components: [] });
+
+    const run = await runMrp({ orders: [order] });
+
+    expect(planOf(run, 'frame')?.periods).toContainEqual(expect.objectContaining({ date: day(10), scheduledReceipts: 2 }));
+    expect(planOf(run, 'steel')?.periods.find(period => period.grossRequirement > 0)?.grossRequirement).toBe(6);
+  });
+
+  it('ignora las órdenes con todas sus tarjetas completadas', async () => {
+    const run = await runMrp({ orders: [buildOrder()], cards: completedCards(3) });
+
+    expect(run.items).toHaveLength(0);
+    expect(run.plannedOrders).toHaveLength(0);
+  });
+
+  it('las órdenes planificadas de fabricación generan demanda en sus materiales', async () => {
+    const run = await runMrp({ items: buildItems({ bike: { minimumStock: 1 } }) });
+
+    expect(run.plannedOrders[0]).toMatchObject({
+      type: PlannedOrderType.MAKE,
+      itemId: 'bike',
+      quantity: 1,
+      dueDate: today,
+      releaseDate: day(-1),
+      isLate: true
+    });
+    expect(planOf(run, 'steel')?.periods).toEqual([expect.objectContaining({
+      date: today,
+      grossRequirement: 3,
+      projectedAvailable: 5,
+      plannedReceipts: 0
+    })]);
+    expect(run.plannedOrders).toHaveLength(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { Backflush, BackflushStatus, BackflushTrigger } from '../../../domain/entities/Backflush';
+import { ProductionCard } from '../../../domain/entities/ProductionCard';
+import { SerialUnit } from '../../../domain/entities/SerialUnit';
+import { IInventoryRepository } from '../../../domain/repositories/IInventoryRepository';
+import { ProductionCardRepository } from '../../../infrastructure/repositories/MongoProductionCardRepository';
+import { LaborEntryRepository } from '../../../infrastructure/repositories/MongoLaborEntryRepository';
+import { ProductionCardUseCases } from '../ProductionCardUseCases';
+import { BackflushUseCases } from '../BackflushUseCases';
+import { StockReservationUseCases } from '../StockReservationUseCases';
+import { RoutingUseCases } from '../RoutingUseCases';
+import { FactoryCalendarUseCases } from '../FactoryCalendarUseCases';
+import { DowntimeUseCases } from '../DowntimeUseCases';
+import { InspectionUseCases } from '../InspectionUseCases';
+import { SerialUnitUseCases } from '../SerialUnitUseCases';
+import { buildCard, fake } from './fakes';
+
+const postedBackflush: Backflush = {
+  id: 'bf-1',
+  cardId: 'card-1',
+  orderId: 'order-1',
+  trigger: BackflushTrigger.COMPONENT_COMPLETION,
+  status: BackflushStatus.POSTED,
+  lines: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const openCard = (): ProductionCard => buildCard({
+  id: 'card-1',
+  orderId: 'order-1',
+  components: [{ componentId: 'frame', componentName: 'Chasis', componentSku: 'FRAME', quantityRequired: 1, quantityCompleted: 0, isCompleted: false }]
+});
+
+// Dos operarios completan a la vez: ambos leen la tarjeta abierta, pero solo uno consigue actualizarla
+describe('ProductionCardUseCases con envíos simultáneos', () => {
+  let backflushUseCases: { backflushComponent: jest.Mock; backflushCard: jest.Mock; reverseBackflush: jest.Mock };
+  let removeUnit: jest.Mock;
+
+  const createUseCases = (card: ProductionCard) => new ProductionCardUseCases(
+    fake<ProductionCardRepository>({
+      findById: async () => card,
+      completeComponent: async () => null,
+      completeCard: async () => null
+    }),
+    fake<IInventoryRepository>({}),
+    fake<BackflushUseCases>(backflushUseCases),
+    fake<StockReservationUseCases>({}),
+    fake<RoutingUseCases>({}),
+    fake<FactoryCalendarUseCases>({}),
+    fake<LaborEntryRepository>({ closeOpenEntries: jest.fn() }),
+    fake<DowntimeUseCases>({}),
+    fake<InspectionUseCases>({ ensureInspectionPassed: async () => undefined }),
+    fake<SerialUnitUseCases>({
+      registerUnit: async () => ({ id: 'unit-1', serialNumber: 'SN-1' } as SerialUnit),
+      removeUnit
+    })
+  );
+
+  beforeEach(() => {
+    backflushUseCases = {
+      backflushComponent: jest.fn().mockResolvedValue(postedBackflush),
+      backflushCard: jest.fn().mockResolvedValue({ ...postedBackflush, trigger: BackflushTrigger.CARD_COMPLETION }),
+      reverseBackflush: jest.fn().mockResolvedValue(undefined)
+    };
+    removeUnit = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it('revierte el backflush del componente si otro envío ya lo completó', async () => {
+    const useCases = createUseCases(openCard());
+
+    await expect(useCases.completeComponent('card-1', 'frame')).rejects.toThrow('El componente ya fue completado');
+
+    expect(backflushUseCases.reverseBackflush).toHaveBeenCalledWith('bf-1', expect.stringContaining('Reversión automática'));
+  });
+
+  it('revierte el backflush y el número de serie si otro envío ya completó la tarjeta', async () => {
+    const card = openCard();
+    card.components[0].isCompleted = true;
+    const useCases = createUseCases(card);
+
+    await expect(useCases.completeCard('card-1')).rejects.toThrow('La tarjeta ya fue completada');
+
+    expect(removeUnit).toHaveBeenCalledWith('unit-1');
+    expect(backflushUseCases.reverseBackflush).toHaveBeenCalledWith('bf-1', expect.stringContaining('Reversión automática'));
+  });
+});
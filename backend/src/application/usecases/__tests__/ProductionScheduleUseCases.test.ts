@@ -0,0 +1,130 @@
+import { DEFAULT_FACTORY_CALENDAR, WorkingCalendar } from '../../../domain/entities/FactoryCalendar';
+import { OperationProgress, OperationStatus } from '../../../domain/entities/ManufacturingOrder';
+import { ProductionCard, ProductionCardPriority, ProductionCardStatus } from '../../../domain/entities/ProductionCard';
+import { CardSchedule } from '../../../domain/entities/ProductionSchedule';
+import { WorkCenter } from '../../../domain/entities/WorkCenter';
+import { ProductionCardRepository } from '../../../infrastructure/repositories/MongoProductionCardRepository';
+import { WorkCenterRepository } from '../../../infrastructure/repositories/MongoWorkCenterRepository';
+import { FactoryCalendarUseCases } from '../FactoryCalendarUseCases';
+import { ProductionScheduleUseCases } from '../ProductionScheduleUseCases';
+import { buildCard, fake } from './fakes';
+
+// Planta en UTC con un turno de 08:00 a 16:00 de lunes a viernes; la programación empieza el lunes 02/03/2026
+const monday = new Date('2026-03-02T08:00:00Z');
+const at = (time: string, day = '2026-03-02') => new Date(`${day}T${time}:00Z`);
+
+const workCenter = (id: string, capacityHoursPerDay = 8): WorkCenter => ({
+  id,
+  code: id.toUpperCase(),
+  name: id,
+  capacityHoursPerDay,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const operation = (operationId: string, workCenterId: string, minutes: number, sequence = 1): OperationProgress => ({
+  operationId,
+  sequence,
+  name: operationId,
+  itemId: 'model',
+  itemName: 'Modelo',
+  workCenterId,
+  workCenterName: workCenterId,
+  plannedSetupMinutes: 0,
+  plannedRunMinutes: minutes,
+  status: OperationStatus.PENDING
+});
+
+const pendingCard = (id: string, cardNumber: number, operations: OperationProgress[], card: Partial<ProductionCard> = {}): ProductionCard =>
+  buildCard({
+    id,
+    orderId: 'order-1',
+    cardNumber,
+    totalCards: 3,
+    status: ProductionCardStatus.PENDING,
+    dueDate: new Date('2026-03-31T00:00:00Z'),
+    operations,
+    ...card
+  });
+
+const schedule = async (cards: ProductionCard[], workCenters: WorkCenter[]) => {
+  const saved: CardSchedule[] = [];
+  const useCases = new ProductionScheduleUseCases(
+    fake<ProductionCardRepository>({
+      getActiveCards: async () => cards,
+      getCurrentProductionTime: async () => 0,
+      updateSchedule: async scheduleOfCard => {
+        saved.push(scheduleOfCard);
+        return null;
+      }
+    }),
+    fake<WorkCenterRepository>({ findAll: async () => workCenters }),
+    fake<FactoryCalendarUseCases>({
+      getWorkingCalendar: async () => new WorkingCalendar({ ...DEFAULT_FACTORY_CALENDAR, timezone: 'UTC' })
+    })
+  );
+
+  const result = await useCases.scheduleCards({ startDate: monday });
+  const planOf = (cardId: string) => result.cards.find(card => card.cardId === cardId)!;
+  return { result, saved, planOf };
+};
+
+describe('ProductionScheduleUseCases.scheduleCards', () => {
+  it('encola en el centro de trabajo las tarjetas por prioridad sin solaparlas', async () => {
+    const { planOf } = await schedule([
+      pendingCard('normal', 1, [operation('corte', 'cut', 240)]),
+      pendingCard('urgent', 2, [operation('corte', 'cut', 240)], { priority: ProductionCardPriority.URGENT }),
+      pendingCard('low', 3, [operation('corte', 'cut', 60)], { priority: ProductionCardPriority.LOW })
+    ], [workCenter('cut')]);
+
+    expect(planOf('urgent')).toMatchObject({ plannedStart: at('08:00'), plannedFinish: at('12:00') });
+    expect(planOf('normal')).toMatchObject({ plannedStart: at('12:00'), plannedFinish: at('16:00') });
+    expect(planOf('low')).toMatchObject({ plannedStart: at('08:00', '2026-03-03'), plannedFinish: at('09:00', '2026-03-03') });
+  });
+
+  it('encadena las operaciones de una tarjeta y aprovecha los huecos que deja en otros centros', async () => {
+    const { planOf } = await schedule([
+      pendingCard('routed', 1, [operation('corte', 'cut', 120, 1), operation('soldadura', 'weld', 120, 2)], {
+        priority: ProductionCardPriority.URGENT
+      }),
+      pendingCard('fits', 2, [operation('soldadura', 'weld', 60)]),
+      pendingCard('too-long', 3, [operation('soldadura', 'weld', 90)])
+    ], [workCenter('cut'), workCenter('weld')]);
+
+    expect(planOf('routed').operations).toEqual([
+      expect.objectContaining({ workCenterId: 'cut', plannedStart: at('08:00'), plannedFinish: at('10:00') }),
+      expect.objectContaining({ workCenterId: 'weld', plannedStart: at('10:00'), plannedFinish: at('12:00') })
+    ]);
+    // La soldadura está libre hasta las 10:00: cabe una hora, pero no hora y media
+    expect(planOf('fits')).toMatchObject({ plannedStart: at('08:00'), plannedFinish: at('09:00') });
+    expect(planOf('too-long')).toMatchObject({ plannedStart: at('12:00'), plannedFinish: at('13:30') });
+  });
+
+  it('no pasa de la capacidad diaria del centro de trabajo', async () => {
+    const { result, planOf } = await schedule([
+      pendingCard('long', 1, [operation('pintura', 'paint', 360)])
+    ], [workCenter('paint', 4)]);
+
+    expect(planOf('long')).toMatchObject({ plannedStart: at('08:00'), plannedFinish: at('10:00', '2026-03-03') });
+    expect(result.workCenters).toEqual([
+      expect.objectContaining({ workCenterId: 'paint', scheduledHours: 6, busyUntil: at('10:00', '2026-03-03') })
+    ]);
+  });
+
+  it('programa las tarjetas sin ruta en el carril común y señala las que no llegan a su fecha', async () => {
+    const { result, saved, planOf } = await schedule([
+      pendingCard('no-route', 1, [], { estimatedHours: 10, dueDate: new Date('2026-03-02T00:00:00Z') })
+    ], []);
+
+    expect(planOf('no-route')).toMatchObject({
+      plannedStart: at('08:00'),
+      plannedFinish: at('10:00', '2026-03-03'),
+      willMissDueDate: true,
+      latenessHours: 18
+    });
+    expect(planOf('no-route').operations[0].workCenterId).toBe('general');
+    expect(result.lateCards).toBe(1);
+    expect(saved.map(plan => plan.cardId)).toEqual(['no-route']);
+  });
+});
@@ -0,0 +1,200 @@
+import { ManufacturingOrder, ManufacturingOrderStatus } from '../../../domain/entities/ManufacturingOrder';
+import { ProductionCard, ProductionCardStatus } from '../../../domain/entities/ProductionCard';
+import { SerialUnit, SerialUnitShipment } from '../../../domain/entities/SerialUnit';
+import { Shipment, ShipmentStatus } from '../../../domain/entities/Shipment';
+import { InventoryType } from '../../../domain/entities/InventoryItem';
+import { StockMovementType } from '../../../domain/entities/StockMovement';
+import { ShipmentRepository } from '../../../infrastructure/repositories/MongoShipmentRepository';
+import { SalesOrderRepository } from '../../../infrastructure/repositories/MongoSalesOrderRepository';
+import { ManufacturingOrderRepository } from '../../../infrastructure/repositories/MongoManufacturingOrderRepository';
+import { ProductionCardRepository } from '../../../infrastructure/repositories/MongoProductionCardRepository';
+import { SerialUnitRepository } from '../../../infrastructure/repositories/MongoSerialUnitRepository';
+import { CustomerUseCases } from '../CustomerUseCases';
+import { SalesOrderUseCases } from '../SalesOrderUseCases';
+import { ShipmentUseCases } from '../ShipmentUseCases';
+import { buildCard, buildItem, createStockLedger, fake } from './fakes';
+
+// Orden de fabricación para stock (sin pedido de venta) de tres bicicletas
+const buildOrder = (): ManufacturingOrder => ({
+  id: 'order-1',
+  modelId: 'bike',
+  modelName: 'Bicicleta',
+  modelSku: 'BIKE',
+  quantity: 3,
+  clientName: 'Cliente',
+  deliveredQuantity: 0,
+  dueDate: new Date(),
+  createdDate: new Date(),
+  status: ManufacturingOrderStatus.IN_PROGRESS,
+  components: [],
+  estimatedHours: 0,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const buildUnit = (serialNumber: string, producedAt: string): SerialUnit => ({
+  id: `unit-${serialNumber}`,
+  serialNumber,
+  sequence: Number(serialNumber.slice(-1)),
+  modelId: 'bike',
+  modelName: 'Bicicleta',
+  modelSku: 'BIKE',
+  cardId: `card-${serialNumber}`,
+  cardLabel: 'Cliente',
+  orderId: 'order-1',
+  orderName: 'Cliente',
+  components: [],
+  materials: [],
+  operators: [],
+  inspections: [],
+  nonConformances: [],
+  producedAt: new Date(producedAt),
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const cardsWithStatus = (...statuses: ProductionCardStatus[]): ProductionCard[] =>
+  statuses.map((status, index) => buildCard({ id: `card-${index + 1}`, orderId: 'order-1', cardNumber: index + 1, status }));
+
+const setup = async (cards: ProductionCard[]) => {
+  const order = buildOrder();
+  // Sin ordenar por antigüedad, como podría devolverlas la base de datos
+  const units = [buildUnit('SN-3', '2026-01-03'), buildUnit('SN-1', '2026-01-01'), buildUnit('SN-2', '2026-01-02')];
+  const shipments: Shipment[] = [];
+  const delivered: [string, number][] = [];
+  let failAssignment: string | undefined;
+
+  const ledger = await createStockLedger([
+    buildItem({ id: 'bike', name: 'Bicicleta', type: InventoryType.MODEL, quantity: 3 })
+  ]);
+
+  const shipmentUseCases = new ShipmentUseCases(
+    fake<ShipmentRepository>({
+      create: async shipment => {
+        const created = { ...shipment, id: `shipment-${shipments.length + 1}`, createdAt: new Date(), updatedAt: new Date() };
+        shipments.push(created);
+        return created;
+      },
+      findById: async id => shipments.find(shipment => shipment.id === id) || null,
+      findLatestNumber: async () => shipments.length,
+      updateIfStatus: async (id, statuses, updates) => {
+        const shipment = shipments.find(entry => entry.id === id && statuses.includes(entry.status));
+        return shipment ? Object.assign(shipment, updates) : null;
+      }
+    }),
+    fake<SalesOrderRepository>({}),
+    fake<ManufacturingOrderRepository>({
+      findById: async () => order,
+      adjustDeliveredQuantity: async (orderId, quantity) => {
+        delivered.push([orderId, quantity]);
+        return null;
+      }
+    }),
+    fake<ProductionCardRepository>({ findByOrderId: async () => cards }),
+    fake<SerialUnitRepository>({
+      findAll: async filters => units.filter(unit => filters?.shipped === undefined || !!unit.shipment === filters.shipped),
+      assignShipment: async (id: string, shipment: SerialUnitShipment) => {
+        const unit = units.find(entry => entry.id === id && !entry.shipment);
+        if (!unit || unit.serialNumber === failAssignment) return null;
+        unit.shipment = shipment;
+        return unit;
+      },
+      clearShipment: async (id, shipmentId) => {
+        const unit = units.find(entry => entry.id === id && entry.shipment?.shipmentId === shipmentId);
+        if (!unit) return null;
+        unit.shipment = undefined;
+        return unit;
+      }
+    }),
+    ledger.inventory.asRepository(),
+    ledger.stockMovementUseCases,
+    fake<CustomerUseCases>({}),
+    fake<SalesOrderUseCases>({})
+  );
+
+  const shippedSerials = () => units.filter(unit => unit.shipment).map(unit => unit.serialNumber).sort();
+  const failAssignmentOf = (serialNumber: string) => {
+    failAssignment = serialNumber;
+  };
+
+  return { order, ledger, delivered, shipmentUseCases, shippedSerials, failAssignmentOf };
+};
+
+describe('ShipmentUseCases', () => {
+  it('envía las unidades elegidas y completa el resto con las más antiguas', async () => {
+    const { ledger, delivered, shipmentUseCases, shippedSerials } = await setup(
+      cardsWithStatus(ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED)
+    );
+
+    const draft = await shipmentUseCases.createShipment({
+      manufacturingOrderId: 'order-1',
+      lines: [{ itemId: 'bike', quantity: 2, serialNumbers: ['SN-3'] }]
+    });
+    const shipped = await shipmentUseCases.shipShipment(draft.id, 'almacen');
+
+    expect(shipped.status).toBe(ShipmentStatus.SHIPPED);
+    expect(shipped.lines[0].serials.map(serial => serial.serialNumber)).toEqual(['SN-3', 'SN-1']);
+    expect(shippedSerials()).toEqual(['SN-1', 'SN-3']);
+    expect(ledger.inventory.quantityOf('bike')).toBe(1);
+    expect(ledger.movements.movements).toEqual([
+      expect.objectContaining({ itemId: 'bike', type: StockMovementType.SHIPMENT, quantity: -2, referenceId: draft.id })
+    ]);
+    expect(delivered).toEqual([['order-1', 2]]);
+  });
+
+  it('no prepara más unidades que las terminadas pendientes de entregar', async () => {
+    const { order, shipmentUseCases } = await setup(
+      cardsWithStatus(ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED, ProductionCardStatus.IN_PROGRESS)
+    );
+    order.deliveredQuantity = 1;
+
+    await expect(shipmentUseCases.createShipment({ manufacturingOrderId: 'order-1', lines: [{ itemId: 'bike', quantity: 2 }] }))
+      .rejects.toThrow('No se pueden enviar 2 ud de Bicicleta: pendiente de enviar 1 ud');
+  });
+
+  it('vuelve a comprobar las cantidades al enviar y no aplica nada si ya se entregaron en otro envío', async () => {
+    const { order, ledger, shipmentUseCases, shippedSerials } = await setup(
+      cardsWithStatus(ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED, ProductionCardStatus.IN_PROGRESS)
+    );
+    const draft = await shipmentUseCases.createShipment({ manufacturingOrderId: 'order-1' });
+    expect(draft.lines[0].quantity).toBe(2);
+
+    order.deliveredQuantity = 1;
+
+    await expect(shipmentUseCases.shipShipment(draft.id)).rejects.toThrow('pendiente de enviar 1 ud');
+    expect(shippedSerials()).toEqual([]);
+    expect(ledger.inventory.quantityOf('bike')).toBe(3);
+    expect((await shipmentUseCases.getShipmentById(draft.id)).status).toBe(ShipmentStatus.DRAFT);
+  });
+
+  it('rechaza números de serie repetidos o que no están disponibles', async () => {
+    const { shipmentUseCases } = await setup(
+      cardsWithStatus(ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED)
+    );
+
+    await expect(shipmentUseCases.createShipment({
+      manufacturingOrderId: 'order-1',
+      lines: [{ itemId: 'bike', quantity: 2, serialNumbers: ['SN-1', 'SN-1'] }]
+    })).rejects.toThrow('El número de serie SN-1 está repetido');
+    await expect(shipmentUseCases.createShipment({
+      manufacturingOrderId: 'order-1',
+      lines: [{ itemId: 'bike', quantity: 1, serialNumbers: ['SN-9'] }]
+    })).rejects.toThrow('La unidad SN-9 no está disponible');
+    await expect(shipmentUseCases.createShipment({
+      manufacturingOrderId: 'order-1',
+      lines: [{ itemId: 'bike', quantity: 1, serialNumbers: ['SN-1', 'SN-2'] }]
+    })).rejects.toThrow('Hay más números de serie que unidades de Bicicleta');
+  });
+
+  it('libera las unidades ya asignadas si otra unidad sale a la vez en otro envío', async () => {
+    const { ledger, shipmentUseCases, shippedSerials, failAssignmentOf } = await setup(
+      cardsWithStatus(ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED, ProductionCardStatus.COMPLETED)
+    );
+    const draft = await shipmentUseCases.createShipment({ manufacturingOrderId: 'order-1', lines: [{ itemId: 'bike', quantity: 2 }] });
+    failAssignmentOf('SN-2');
+
+    await expect(shipmentUseCases.shipShipment(draft.id)).rejects.toThrow('La unidad SN-2 ya ha salido en otro envío');
+    expect(shippedSerials()).toEqual([]);
+    expect(ledger.inventory.quantityOf('bike')).toBe(3);
+  });
+});
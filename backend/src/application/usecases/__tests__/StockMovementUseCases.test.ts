@@ -0,0 +1,219 @@
+import { InventoryLot, LotPickingPolicy } from '../../../domain/entities/InventoryLot';
+import { StockMovementType, StockMovementReferenceType } from '../../../domain/entities/StockMovement';
+import { buildItem, createStockLedger, MAIN_WAREHOUSE } from './fakes';
+
+const issue = (itemId: string, quantity: number) => ({
+  itemId,
+  type: StockMovementType.ISSUE,
+  quantity: -quantity,
+  reason: 'Consumo de prueba',
+  referenceType: StockMovementReferenceType.MANUAL
+});
+
+const buildLot = (id: string, quantity: number, receivedDate: string, expiryDate?: string): InventoryLot => ({
+  id,
+  itemId: 'resin',
+  itemName: 'Resina',
+  itemSku: 'RESIN',
+  lotNumber: id.toUpperCase(),
+  receivedDate: new Date(receivedDate),
+  expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+  initialQuantity: quantity,
+  quantity,
+  unit: 'kg',
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+// Recibido el primero, caduca el segundo; el tercero no caduca
+const resinLots = () => [
+  buildLot('early', 5, '2026-01-01', '2099-06-30'),
+  buildLot('expiring', 5, '2026-02-01', '2099-04-30'),
+  buildLot('no-expiry', 10, '2026-01-15')
+];
+
+const resin = (lotPickingPolicy: LotPickingPolicy, quantity = 20) =>
+  buildItem({ id: 'resin', name: 'Resina', unit: 'kg', quantity, isLotControlled: true, lotPickingPolicy });
+
+const pickedLots = (movements: { lotId?: string; quantity: number }[]) =>
+  movements.map(movement => [movement.lotId, movement.quantity]);
+
+describe('StockMovementUseCases', () => {
+  describe('recordMovements', () => {
+    it('aplica cada movimiento al artículo y a su ubicación y guarda el saldo resultante', async () => {
+      const { inventory, locations, stockMovementUseCases } = await createStockLedger([
+        buildItem({ id: 'steel', name: 'Acero', quantity: 10 }),
+        buildItem({ id: 'bolt', name: 'Tornillo', quantity: 50 })
+      ]);
+
+      const movements = await stockMovementUseCases.recordMovements([issue('steel', 4), issue('bolt', 20)]);
+
+      expect(movements.map(movement => [movement.itemId, movement.quantity, movement.balanceAfter]))
+        .toEqual([['steel', -4, 6], ['bolt', -20, 30]]);
+      expect(movements[0].warehouseCode).toBe(MAIN_WAREHOUSE.code);
+      expect(inventory.quantityOf('steel')).toBe(6);
+      expect(locations.quantityAt('bolt', MAIN_WAREHOUSE.id)).toBe(30);
+    });
+
+    it('las entradas de un artículo sin existencias van al almacén por defecto', async () => {
+      const { inventory, locations, stockMovementUseCases } = await createStockLedger([
+        buildItem({ id: 'steel', name: 'Acero' })
+      ]);
+
+      await stockMovementUseCases.recordMovement({
+        itemId: 'steel',
+        type: StockMovementType.RECEIPT,
+        quantity: 8,
+        reason: 'Recepción'
+      });
+
+      expect(inventory.quantityOf('steel')).toBe(8);
+      expect(locations.quantityAt('steel', MAIN_WAREHOUSE.id)).toBe(8);
+    });
+
+    it('no aplica nada si un movimiento no tiene stock suficiente', async () => {
+      const { inventory, movements, locations, stockMovementUseCases } = await createStockLedger([
+        buildItem({ id: 'steel', name: 'Acero', quantity: 10 }),
+        buildItem({ id: 'bolt', name: 'Tornillo', quantity: 5 })
+      ]);
+
+      await expect(stockMovementUseCases.recordMovements([issue('steel', 4), issue('bolt', 6)]))
+        .rejects.toThrow('Stock insuficiente de Tornillo');
+
+      expect(inventory.quantityOf('steel')).toBe(10);
+      expect(inventory.quantityOf('bolt')).toBe(5);
+      expect(locations.quantityAt('steel', MAIN_WAREHOUSE.id)).toBe(10);
+      expect(movements.movements).toHaveLength(0);
+    });
+
+    it('rechaza cantidades con el signo contrario al tipo de movimiento', async () => {
+      const { stockMovementUseCases } = await createStockLedger([buildItem({ id: 'steel', name: 'Acero', quantity: 10 })]);
+
+      await expect(stockMovementUseCases.recordMovement({ ...issue('steel', 4), quantity: 4 }))
+        .rejects.toThrow('Cantidad inválida');
+    });
+
+    it('avisa de los artículos cuyo stock ha bajado', async () => {
+      const listener = jest.fn().mockResolvedValue(undefined);
+      const { stockMovementUseCases } = await createStockLedger([
+        buildItem({ id: 'steel', name: 'Acero', quantity: 10 }),
+        buildItem({ id: 'bolt', name: 'Tornillo' })
+      ], listener);
+
+      await stockMovementUseCases.recordMovements([
+        { ...issue('steel', 2), performedBy: 'almacen' },
+        { itemId: 'bolt', type: StockMovementType.RECEIPT, quantity: 5, reason: 'Recepción' }
+      ]);
+
+      expect(listener).toHaveBeenCalledWith(['steel'], 'almacen');
+    });
+  });
+
+  describe('recordMovements con lotes', () => {
+    it('FEFO: consume primero el lote que caduca antes y deja para el final los que no caducan', async () => {
+      const { lots, stockMovementUseCases } = await createStockLedger([resin(LotPickingPolicy.FEFO)], undefined, resinLots());
+
+      const movements = await stockMovementUseCases.recordMovements([issue('resin', 12)]);
+
+      expect(pickedLots(movements)).toEqual([['expiring', -5], ['early', -5], ['no-expiry', -2]]);
+      expect(lots.quantityOf('no-expiry')).toBe(8);
+    });
+
+    it('FIFO: consume primero el lote recibido antes', async () => {
+      const { stockMovementUseCases } = await createStockLedger([resin(LotPickingPolicy.FIFO)], undefined, resinLots());
+
+      const movements = await stockMovementUseCases.recordMovements([issue('resin', 12)]);
+
+      expect(pickedLots(movements)).toEqual([['early', -5], ['no-expiry', -7]]);
+    });
+
+    it('reparte entre los lotes lo que piden varios movimientos de la misma operación', async () => {
+      const { lots, stockMovementUseCases } = await createStockLedger([resin(LotPickingPolicy.FEFO)], undefined, resinLots());
+
+      const movements = await stockMovementUseCases.recordMovements([issue('resin', 4), issue('resin', 4)]);
+
+      expect(pickedLots(movements)).toEqual([['expiring', -4], ['expiring', -1], ['early', -3]]);
+      expect(lots.quantityOf('expiring')).toBe(0);
+      expect(lots.quantityOf('early')).toBe(2);
+    });
+
+    it('las salidas a producción no toman lotes caducados y no aplican nada si no hay bastante', async () => {
+      const { inventory, lots, stockMovementUseCases } = await createStockLedger([resin(LotPickingPolicy.FEFO, 8)], undefined, [
+        buildLot('expired', 5, '2025-01-01', '2025-06-30'),
+        buildLot('valid', 3, '2026-01-01', '2099-06-30')
+      ]);
+
+      await expect(stockMovementUseCases.recordMovements([issue('resin', 4)]))
+        .rejects.toThrow('Stock insuficiente en lotes vigentes de Resina: disponible 3 kg, requerido 4');
+      expect(inventory.quantityOf('resin')).toBe(8);
+      expect(lots.quantityOf('valid')).toBe(3);
+
+      // Un desecho sí da de baja el lote caducado
+      const scrap = await stockMovementUseCases.recordMovements([{ ...issue('resin', 5), type: StockMovementType.SCRAP }]);
+      expect(pickedLots(scrap)).toEqual([['expired', -5]]);
+    });
+  });
+
+  describe('reverseMovements', () => {
+    it('registra movimientos opuestos en la misma ubicación sin modificar los originales', async () => {
+      const { inventory, movements, locations, stockMovementUseCases } = await createStockLedger([
+        buildItem({ id: 'steel', name: 'Acero', quantity: 10 })
+      ]);
+      const [original] = await stockMovementUseCases.recordMovements([issue('steel', 4)]);
+
+      const [reversal] = await stockMovementUseCases.reverseMovements([original.id], 'Anulación', 'supervisor');
+
+      expect(reversal).toMatchObject({
+        itemId: 'steel',
+        type: StockMovementType.ISSUE,
+        quantity: 4,
+        balanceAfter: 10,
+        reversalOf: original.id,
+        warehouseId: MAIN_WAREHOUSE.id,
+        performedBy: 'supervisor'
+      });
+      expect(movements.movements.find(movement => movement.id === original.id)?.quantity).toBe(-4);
+      expect(inventory.quantityOf('steel')).toBe(10);
+      expect(locations.quantityAt('steel', MAIN_WAREHOUSE.id)).toBe(10);
+    });
+
+    it('no revierte nada si algún movimiento no existe', async () => {
+      const { inventory, stockMovementUseCases } = await createStockLedger([buildItem({ id: 'steel', name: 'Acero', quantity: 10 })]);
+      const [original] = await stockMovementUseCases.recordMovements([issue('steel', 4)]);
+
+      await expect(stockMovementUseCases.reverseMovements([original.id, 'missing'], 'Anulación'))
+        .rejects.toThrow('Movimiento de stock no encontrado');
+      expect(inventory.quantityOf('steel')).toBe(6);
+    });
+
+    it('no revierte dos veces el mismo movimiento', async () => {
+      const { inventory, stockMovementUseCases } = await createStockLedger([buildItem({ id: 'steel', name: 'Acero', quantity: 10 })]);
+      const [original] = await stockMovementUseCases.recordMovements([issue('steel', 4)]);
+      await stockMovementUseCases.reverseMovements([original.id], 'Anulación');
+
+      await expect(stockMovementUseCases.reverseMovements([original.id], 'Anulación')).rejects.toThrow('ya fue revertido');
+      await expect(stockMovementUseCases.reverseMovements([original.id, original.id], 'Anulación')).rejects.toThrow('dos veces');
+      expect(inventory.quantityOf('steel')).toBe(10);
+    });
+
+    it('no revierte una reversión', async () => {
+      const { inventory, stockMovementUseCases } = await createStockLedger([buildItem({ id: 'steel', name: 'Acero', quantity: 10 })]);
+      const [original] = await stockMovementUseCases.recordMovements([issue('steel', 4)]);
+      const [reversal] = await stockMovementUseCases.reverseMovements([original.id], 'Anulación');
+
+      await expect(stockMovementUseCases.reverseMovements([reversal.id], 'Anulación')).rejects.toThrow('Una reversión no se puede revertir');
+      expect(inventory.quantityOf('steel')).toBe(10);
+    });
+
+    it('no deja el stock en negativo al revertir una entrada ya consumida', async () => {
+      const { inventory, stockMovementUseCases } = await createStockLedger([buildItem({ id: 'steel', name: 'Acero' })]);
+      const [receipt] = await stockMovementUseCases.recordMovements([
+        { itemId: 'steel', type: StockMovementType.RECEIPT, quantity: 5, reason: 'Recepción' }
+      ]);
+      await stockMovementUseCases.recordMovements([issue('steel', 3)]);
+
+      await expect(stockMovementUseCases.reverseMovements([receipt.id], 'Anulación')).rejects.toThrow('Stock insuficiente');
+      expect(inventory.quantityOf('steel')).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { InventoryItem, InventoryStatus, InventoryType } from '../../../domain/entities/InventoryItem';
+import { StockMovement } from '../../../domain/entities/StockMovement';
+import { LocationStock, Warehouse } from '../../../domain/entities/Warehouse';
+import { Backflush, BackflushStatus } from '../../../domain/entities/Backflush';
+import { InventoryLot } from '../../../domain/entities/InventoryLot';
+import { ProductionCard, ProductionCardPriority, ProductionCardStatus } from '../../../domain/entities/ProductionCard';
+import { IInventoryRepository } from '../../../domain/repositories/IInventoryRepository';
+import { StockMovementRepository, StockMovementFilters } from '../../../infrastructure/repositories/MongoStockMovementRepository';
+import {
+  LocationStockRepository,
+  LocationStockFilters,
+  LocationStockKey
+} from '../../../infrastructure/repositories/MongoLocationStockRepository';
+import { BackflushRepository } from '../../../infrastructure/repositories/MongoBackflushRepository';
+import { InventoryLotRepository, InventoryLotFilters } from '../../../infrastructure/repositories/MongoInventoryLotRepository';
+import { WarehouseUseCases } from '../WarehouseUseCases';
+import { StockMovementUseCases, StockDecreaseListener } from '../StockMovementUseCases';
+
+// Repositorios en memoria para probar los casos de uso sin MongoDB. Solo implementan
+// lo que usan los casos de uso probados; el resto de métodos no existe.
+
+// Completa un doble parcial con el tipo de la dependencia que sustituye
+export const fake = <T>(implementation: Partial<T>): T => implementation as T;
+
+export const buildItem = (item: Partial<InventoryItem> & Pick<InventoryItem, 'id' | 'name'>): InventoryItem => ({
+  description: '',
+  type: InventoryType.MATERIAL,
+  sku: item.id.toUpperCase(),
+  quantity: 0,
+  reserved: 0,
+  unit: 'ud',
+  unitPrice: 0,
+  status: InventoryStatus.ACTIVE,
+  minimumStock: 0,
+  maximumStock: 0,
+  location: '',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...item
+});
+
+export const buildCard = (card: Partial<ProductionCard> & Pick<ProductionCard, 'id' | 'orderId'>): ProductionCard => ({
+  orderName: 'Cliente',
+  cardNumber: 1,
+  totalCards: 1,
+  modelId: 'model',
+  modelName: 'Modelo',
+  modelSku: 'MODEL',
+  quantity: 1,
+  dueDate: new Date(),
+  status: ProductionCardStatus.IN_PROGRESS,
+  priority: ProductionCardPriority.NORMAL,
+  components: [],
+  estimatedHours: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...card
+});
+
+export class InMemoryInventoryRepository {
+  private items = new Map<string, InventoryItem>();
+
+  constructor(items: InventoryItem[] = []) {
+    items.forEach(item => this.items.set(item.id, { ...item }));
+  }
+
+  quantityOf(id: string): number {
+    return this.items.get(id)?.quantity ?? 0;
+  }
+
+  async findById(id: string): Promise<InventoryItem | null> {
+    const item = this.items.get(id);
+    return item ? { ...item } : null;
+  }
+
+  async findAll(): Promise<InventoryItem[]> {
+    return Array.from(this.items.values()).map(item => ({ ...item }));
+  }
+
+  // Como en MongoDB: una salida sin stock suficiente no se aplica
+  async adjustQuantity(id: string, delta: number): Promise<InventoryItem | null> {
+    const item = this.items.get(id);
+    if (!item || item.quantity + delta < 0) return null;
+    item.quantity += delta;
+    return { ...item };
+  }
+
+  asRepository(): IInventoryRepository {
+    return this as unknown as IInventoryRepository;
+  }
+}
+
+export class InMemoryStockMovementRepository implements StockMovementRepository {
+  movements: StockMovement[] = [];
+
+  async create(movement: Omit<StockMovement, 'id' | 'createdAt'>): Promise<StockMovement> {
+    const created = { ...movement, id: `mov-${this.movements.length + 1}`, createdAt: new Date() };
+    this.movements.push(created);
+    return created;
+  }
+
+  async createMany(movements: Omit<StockMovement, 'id' | 'createdAt'>[]): Promise<StockMovement[]> {
+    const created: StockMovement[] = [];
+    for (const movement of movements) {
+      created.push(await this.create(movement));
+    }
+    return created;
+  }
+
+  async findById(id: string): Promise<StockMovement | null> {
+    return this.movements.find(movement => movement.id === id) || null;
+  }
+
+  async findAll(filters: StockMovementFilters = {}): Promise<StockMovement[]> {
+    return this.movements.filter(movement => !filters.itemId || movement.itemId === filters.itemId);
+  }
+
+  async findReversalsOf(movementIds: string[]): Promise<StockMovement[]> {
+    return this.movements.filter(movement => movement.reversalOf && movementIds.includes(movement.reversalOf));
+  }
+
+  async getLedgerBalance(itemId: string): Promise<{ balance: number; count: number }> {
+    const movements = this.movements.filter(movement => movement.itemId === itemId);
+    return { balance: movements.reduce((sum, movement) => sum + movement.quantity, 0), count: movements.length };
+  }
+}
+
+export class InMemoryLocationStockRepository implements LocationStockRepository {
+  stocks: LocationStock[] = [];
+
+  quantityAt(itemId: string, warehouseId: string): number {
+    return this.stocks
+      .filter(stock => stock.itemId === itemId && stock.warehouseId === warehouseId)
+      .reduce((sum, stock) => sum + stock.quantity, 0);
+  }
+
+  async findAll(filters: LocationStockFilters = {}): Promise<LocationStock[]> {
+    return this.stocks
+      .filter(stock => !filters.itemId || stock.itemId === filters.itemId)
+      .filter(stock => !filters.warehouseId || stock.warehouseId === filters.warehouseId)
+      .filter(stock => !filters.withStock || stock.quantity > 0)
+      .map(stock => ({ ...stock }));
+  }
+
+  async adjustQuantity(key: LocationStockKey, delta: number): Promise<LocationStock | null> {
+    let stock = this.stocks.find(entry =>
+      entry.itemId === key.itemId && entry.warehouseId === key.warehouseId && (entry.binId || null) === (key.binId || null));
+    if (!stock) {
+      if (delta < 0) return null;
+      stock = { ...key, id: `loc-${this.stocks.length + 1}`, quantity: 0, updatedAt: new Date() };
+      this.stocks.push(stock);
+    }
+    if (stock.quantity + delta < 0) return null;
+    stock.quantity += delta;
+    return { ...stock };
+  }
+}
+
+export class InMemoryInventoryLotRepository implements InventoryLotRepository {
+  lots: InventoryLot[];
+
+  constructor(lots: InventoryLot[] = []) {
+    this.lots = lots.map(lot => ({ ...lot }));
+  }
+
+  quantityOf(lotId: string): number {
+    return this.lots.find(lot => lot.id === lotId)?.quantity ?? 0;
+  }
+
+  async create(lot: Omit<InventoryLot, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<InventoryLot> {
+    const created = { ...lot, id: `lot-${this.lots.length + 1}`, createdAt: new Date(), updatedAt: new Date() };
+    this.lots.push(created);
+    return { ...created };
+  }
+
+  async findById(id: string): Promise<InventoryLot | null> {
+    const lot = this.lots.find(entry => entry.id === id);
+    return lot ? { ...lot } : null;
+  }
+
+  async findByLotNumber(itemId: string, lotNumber: string): Promise<InventoryLot | null> {
+    const lot = this.lots.find(entry => entry.itemId === itemId && entry.lotNumber === lotNumber);
+    return lot ? { ...lot } : null;
+  }
+
+  async findAll(filters: InventoryLotFilters = {}): Promise<InventoryLot[]> {
+    return this.lots
+      .filter(lot => !filters.itemId || lot.itemId === filters.itemId)
+      .filter(lot => !filters.withStock || lot.quantity > 0)
+      .map(lot => ({ ...lot }));
+  }
+
+  async adjustQuantity(id: string, delta: number): Promise<InventoryLot | null> {
+    const lot = this.lots.find(entry => entry.id === id);
+    if (!lot || lot.quantity + delta < 0) return null;
+    lot.quantity += delta;
+    return { ...lot };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const count = this.lots.length;
+    this.lots = this.lots.filter(lot => lot.id !== id);
+    return this.lots.length < count;
+  }
+}
+
+export class InMemoryBackflushRepository implements BackflushRepository {
+  backflushes: Backflush[] = [];
+  failOnCreate = false;
+
+  async create(backflush: Omit<Backflush, 'id' | 'createdAt' | 'updatedAt'>): Promise<Backflush> {
+    if (this.failOnCreate) {
+      throw new Error('Error de base de datos');
+    }
+    const created = { ...backflush, id: `bf-${this.backflushes.length + 1}`, createdAt: new Date(), updatedAt: new Date() };
+    this.backflushes.push(created);
+    return created;
+  }
+
+  async findById(id: string): Promise<Backflush | null> {
+    return this.backflushes.find(backflush => backflush.id === id) || null;
+  }
+
+  async findByCardId(cardId: string, status?: BackflushStatus): Promise<Backflush[]> {
+    return this.backflushes.filter(backflush => backflush.cardId === cardId && (!status || backflush.status === status));
+  }
+
+  async markReversed(id: string, reversalMovementIds: string[], reason: string): Promise<Backflush | null> {
+    const backflush = this.backflushes.find(entry => entry.id === id && entry.status === BackflushStatus.POSTED);
+    if (!backflush) return null;
+    Object.assign(backflush, { status: BackflushStatus.REVERSED, reversalMovementIds, reversalReason: reason, reversedAt: new Date() });
+    return backflush;
+  }
+}
+
+export const MAIN_WAREHOUSE: Warehouse = {
+  id: 'wh-main',
+  code: 'PRINCIPAL',
+  name: 'Almacén principal',
+  isDefault: true,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Almacenes sin ubicaciones: todo el stock va al almacén indicado o al principal
+export const fakeWarehouseUseCases = (warehouses: Warehouse[] = [MAIN_WAREHOUSE]): WarehouseUseCases =>
+  fake<WarehouseUseCases>({
+    ensureDefaultWarehouse: async () => warehouses.find(warehouse => warehouse.isDefault) || warehouses[0],
+    resolveLocation: async ({ warehouseId }) => {
+      const warehouse = warehouses.find(entry => entry.id === warehouseId);
+      if (!warehouse) throw new Error('Almacén no encontrado');
+      return { warehouse };
+    }
+  });
+
+export interface StockLedger {
+  inventory: InMemoryInventoryRepository;
+  movements: InMemoryStockMovementRepository;
+  locations: InMemoryLocationStockRepository;
+  lots: InMemoryInventoryLotRepository;
+  stockMovementUseCases: StockMovementUseCases;
+}
+
+// Libro de movimientos con el stock inicial de cada artículo en el almacén principal (y sus lotes, si los tiene)
+export const createStockLedger = async (
+  items: InventoryItem[],
+  onStockDecrease?: StockDecreaseListener,
+  initialLots: InventoryLot[] = []
+): Promise<StockLedger> => {
+  const inventory = new InMemoryInventoryRepository(items);
+  const movements = new InMemoryStockMovementRepository();
+  const locations = new InMemoryLocationStockRepository();
+  const lots = new InMemoryInventoryLotRepository(initialLots);
+  for (const item of items.filter(entry => entry.quantity > 0)) {
+    await locations.adjustQuantity({
+      itemId: item.id,
+      itemName: item.name,
+      itemSku: item.sku,
+      warehouseId: MAIN_WAREHOUSE.id,
+      warehouseCode: MAIN_WAREHOUSE.code,
+      unit: item.unit
+    }, item.quantity);
+  }
+
+  const stockMovementUseCases = new StockMovementUseCases(
+    movements,
+    inventory.asRepository(),
+    lots,
+    locations,
+    fakeWarehouseUseCases(),
+    onStockDecrease
+  );
+
+  return { inventory, movements, locations, lots, stockMovementUseCases };
+};
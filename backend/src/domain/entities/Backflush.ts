@@ -0,0 +1,38 @@
+export enum BackflushTrigger {
+  COMPONENT_COMPLETION = 'component_completion',
+  CARD_COMPLETION = 'card_completion'
+}
+
+export enum BackflushStatus {
+  POSTED = 'posted',
+  REVERSED = 'reversed'
+}
+
+// Línea de un backflush: un movimiento de stock registrado por la operación
+export interface BackflushLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  quantity: number; // variación con signo (- consumo, + producción)
+  unit: string;
+  movementId: string;
+  lotId?: string; // lote consumido (materiales controlados por lotes)
+  lotNumber?: string;
+}
+
+// Consumo automático de materiales/componentes al completar producción.
+// Agrupa todos los movimientos de stock de la operación para poder revertirlos juntos.
+export interface Backflush {
+  id: string;
+  cardId: string;
+  orderId: string;
+  trigger: BackflushTrigger;
+  componentId?: string; // solo cuando se completa un componente
+  status: BackflushStatus;
+  lines: BackflushLine[];
+  reversalMovementIds?: string[];
+  reversalReason?: string;
+  reversedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
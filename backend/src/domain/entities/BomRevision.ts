@@ -0,0 +1,61 @@
+import { BillOfMaterial } from './InventoryItem';
+
+export enum BomRevisionStatus {
+  DRAFT = 'draft',
+  RELEASED = 'released',
+  OBSOLETE = 'obsolete'
+}
+
+// Componente de la revisión (se guarda nombre y SKU para que la revisión sea legible aunque el artículo cambie)
+export interface BomRevisionComponentLine {
+  componentId: string;
+  componentName: string;
+  componentSku: string;
+  quantity: number;
+}
+
+// Revisión de la estructura de un artículo: copia congelada de sus componentes y materiales
+export interface BomRevision {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  revisionNumber: number;
+  status: BomRevisionStatus;
+  componentLines: BomRevisionComponentLine[];
+  billOfMaterials: BillOfMaterial[];
+  effectiveFrom?: Date; // se fija al liberar
+  effectiveTo?: Date; // se fija cuando otra revisión la reemplaza
+  notes?: string;
+  createdBy?: string;
+  releasedBy?: string;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BomRevisionChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BomRevisionDifference {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  lineType: 'component' | 'material';
+  fromQuantity: number | null;
+  toQuantity: number | null;
+  change: BomRevisionChange;
+}
+
+export interface BomRevisionComparison {
+  from: BomRevision;
+  to: BomRevision;
+  differences: BomRevisionDifference[];
+  hasChanges: boolean;
+}
+
+// Una revisión liberada está vigente en una fecha si esta cae dentro de su período de efectividad
+export const isRevisionEffectiveAt = (revision: BomRevision, date: Date): boolean =>
+  revision.status !== BomRevisionStatus.DRAFT &&
+  !!revision.effectiveFrom &&
+  revision.effectiveFrom.getTime() <= date.getTime() &&
+  (!revision.effectiveTo || revision.effectiveTo.getTime() > date.getTime());
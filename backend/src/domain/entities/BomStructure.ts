@@ -0,0 +1,53 @@
+import { InventoryType } from './InventoryItem';
+
+// Línea de la explosión indentada de una estructura de producto
+export interface BomExplosionLine {
+  level: number; // 1 = hijo directo del artículo explotado
+  path: string[]; // IDs desde el artículo raíz hasta esta línea
+  lineType: 'component' | 'material';
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  itemType?: InventoryType;
+  unit: string;
+  quantityPer: number; // cantidad por unidad del padre
+  totalQuantity: number; // cantidad acumulada para la cantidad solicitada del raíz
+  isOptional?: boolean;
+}
+
+export interface BomTotal {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  totalQuantity: number;
+}
+
+export interface BomExplosion {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  quantity: number;
+  levels: number | 'all';
+  lines: BomExplosionLine[];
+  materialTotals: BomTotal[]; // materiales de todos los niveles explotados (sin opcionales)
+}
+
+// Línea de la consulta inversa ("dónde se usa")
+export interface WhereUsedLine {
+  level: number; // 1 = padre directo
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  itemType: InventoryType;
+  childId: string; // artículo que usa en este nivel
+  quantityPer: number; // cantidad del hijo por unidad de este artículo
+}
+
+export interface WhereUsedResult {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  usages: WhereUsedLine[];
+  affectedModels: Array<{ id: string; name: string; sku: string }>;
+}
@@ -0,0 +1,16 @@
+// Cliente al que se venden los modelos fabricados
+export interface Customer {
+  id: string;
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string; // dirección de entrega habitual
+  taxId?: string; // NIF / CIF
+  paymentTerms?: string; // p. ej. "30 días fecha factura"
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,54 @@
+export enum DowntimeCategory {
+  PLANNED = 'planned',     // descansos, reuniones, limpieza programada
+  MATERIAL = 'material',   // falta de material o componentes
+  EQUIPMENT = 'equipment', // averías y mantenimiento correctivo
+  QUALITY = 'quality',     // incidencias de calidad
+  LABOR = 'labor',         // falta de personal
+  OTHER = 'other'
+}
+
+// Motivo de parada configurable; se pide al pausar cualquier cronómetro
+export interface DowntimeReason {
+  id: string;
+  code: string;
+  name: string;
+  category: DowntimeCategory;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Motivos iniciales (se crean si no hay ninguno configurado)
+export const DEFAULT_DOWNTIME_REASONS: Array<Pick<DowntimeReason, 'code' | 'name' | 'category'>> = [
+  { code: 'DESCANSO', name: 'Descanso', category: DowntimeCategory.PLANNED },
+  { code: 'FALTA_MATERIAL', name: 'Falta de material', category: DowntimeCategory.MATERIAL },
+  { code: 'AVERIA', name: 'Avería de máquina', category: DowntimeCategory.EQUIPMENT },
+  { code: 'CALIDAD', name: 'Problema de calidad', category: DowntimeCategory.QUALITY },
+  { code: 'FALTA_PERSONAL', name: 'Falta de personal', category: DowntimeCategory.LABOR },
+  { code: 'OTRO', name: 'Otro', category: DowntimeCategory.OTHER }
+];
+
+export interface DowntimeParetoLine {
+  key: string;
+  label: string;
+  minutes: number;
+  hours: number;
+  occurrences: number;
+  percentage: number;
+  cumulativePercentage: number;
+}
+
+export interface DowntimeReport {
+  from?: Date;
+  to?: Date;
+  generatedAt: Date;
+  totalMinutes: number;
+  totalHours: number;
+  occurrences: number;
+  openPauses: number;
+  byReason: DowntimeParetoLine[];
+  byCategory: DowntimeParetoLine[];
+  byModel: DowntimeParetoLine[];
+  byWorkCenter: DowntimeParetoLine[];
+}
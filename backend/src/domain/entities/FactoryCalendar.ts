@@ -0,0 +1,287 @@
+// Turno de trabajo dentro de un día de la semana ("HH:mm"; si termina antes de empezar cruza la medianoche)
+export interface ShiftDefinition {
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface WeekdaySchedule {
+  weekday: number; // 0 = domingo ... 6 = sábado
+  shifts: ShiftDefinition[];
+}
+
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// Cierre de planta por días completos (vacaciones, mantenimiento...)
+export interface PlantClosure {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  reason: string;
+}
+
+export interface FactoryCalendar {
+  id: string;
+  name: string;
+  timezone: string; // zona horaria IANA de la planta (p. ej. Europe/Madrid); los turnos son horas locales de la planta
+  weekdays: WeekdaySchedule[];
+  holidays: CalendarHoliday[];
+  closures: PlantClosure[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkingWindow {
+  start: Date;
+  end: Date;
+}
+
+export enum OverdueRisk {
+  ON_TIME = 'on_time',
+  AT_RISK = 'at_risk',
+  OVERDUE = 'overdue'
+}
+
+export interface DueStatus {
+  dueLimit: Date; // fin de la jornada de la fecha límite
+  remainingWorkingHours: number;
+  overdueRisk: OverdueRisk;
+}
+
+// Calendario inicial: lunes a viernes, un turno de 08:00 a 16:00 (la zona horaria la pone el caso de uso)
+export const DEFAULT_FACTORY_CALENDAR: Omit<FactoryCalendar, 'id' | 'timezone' | 'createdAt' | 'updatedAt'> = {
+  name: 'Calendario de planta',
+  weekdays: [1, 2, 3, 4, 5].map(weekday => ({
+    weekday,
+    shifts: [{ name: 'Mañana', startTime: '08:00', endTime: '16:00' }]
+  })),
+  holidays: [],
+  closures: []
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_SEARCH_DAYS = 3 * 366;
+
+// Zona horaria del servidor (solo como valor por defecto del calendario)
+export const getSystemTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Hora de pared del instante en la zona, expresada como si fuera UTC
+const toWallClock = (date: Date, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// Diferencia entre la hora local de la zona y UTC en ese instante (cambia con el horario de verano)
+const getTimeZoneOffset = (date: Date, timeZone: string): number =>
+  toWallClock(date, timeZone) - Math.floor(date.getTime() / 1000) * 1000;
+
+// Los días de la planta se representan como la fecha a medianoche UTC; así sumar días
+// y obtener el día de la semana no depende de la zona horaria del servidor
+const toPlantDay = (date: Date, timeZone: string): Date => {
+  const wallClock = new Date(toWallClock(date, timeZone));
+  return new Date(Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate()));
+};
+
+// Las fechas sin hora (fechas límite) se guardan a medianoche UTC
+const toDateOnlyDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (day: Date, days: number): Date => new Date(day.getTime() + days * DAY_MS);
+
+// Instante en el que el reloj de la planta marca "minutes" minutos desde el inicio del día
+const atPlantTime = (day: Date, minutes: number, timeZone: string): Date => {
+  const wallClock = day.getTime() + minutes * MINUTE_MS;
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+  return new Date(wallClock - offset);
+};
+
+const plantDayKey = (day: Date): string => day.toISOString().slice(0, 10);
+
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Cálculos de tiempo laborable sobre el calendario de fábrica
+// Todas las horas se interpretan en la zona horaria de la planta, no en la del servidor
+export class WorkingCalendar {
+  constructor(private calendar: Pick<FactoryCalendar, 'weekdays' | 'holidays' | 'closures' | 'timezone'>) {}
+
+  // Día de la planta (a medianoche UTC, como las fechas límite) que contiene el instante indicado
+  getPlantDay(date: Date): Date {
+    return toPlantDay(date, this.calendar.timezone);
+  }
+
+  // Instante en que empieza un día de la planta (medianoche en su zona horaria)
+  getPlantDayStart(day: Date): Date {
+    return atPlantTime(toDateOnlyDay(day), 0, this.calendar.timezone);
+  }
+
+  isNonWorkingDay(date: Date): boolean {
+    return this.isClosed(toPlantDay(date, this.calendar.timezone));
+  }
+
+  // Turnos del día de la planta que contiene la fecha indicada
+  getDayWindows(date: Date, capacityHoursPerDay?: number): WorkingWindow[] {
+    return this.getPlantDayWindows(toPlantDay(date, this.calendar.timezone), capacityHoursPerDay);
+  }
+
+  private isClosed(day: Date): boolean {
+    const key = plantDayKey(day);
+    return this.calendar.holidays.some(holiday => holiday.date === key) ||
+      this.calendar.closures.some(closure => closure.startDate <= key && key <= closure.endDate);
+  }
+
+  // Turnos de un día de la planta; con capacidad diaria solo se usan las primeras horas de los turnos
+  private getPlantDayWindows(day: Date, capacityHoursPerDay?: number): WorkingWindow[] {
+    if (this.isClosed(day)) {
+      return [];
+    }
+
+    const timeZone = this.calendar.timezone;
+    const schedule = this.calendar.weekdays.find(weekday => weekday.weekday === day.getUTCDay());
+    const windows = (schedule?.shifts || [])
+      .map(shift => {
+        const startMinutes = timeToMinutes(shift.startTime);
+        let endMinutes = timeToMinutes(shift.endTime);
+        if (endMinutes <= startMinutes) {
+          endMinutes += 24 * 60;
+        }
+        return { start: atPlantTime(day, startMinutes, timeZone), end: atPlantTime(day, endMinutes, timeZone) };
+      })
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    if (capacityHoursPerDay === undefined) {
+      return windows;
+    }
+
+    let budget = capacityHoursPerDay * 60;
+    const limited: WorkingWindow[] = [];
+    for (const window of windows) {
+      if (budget <= 0) break;
+      const minutes = Math.min(budget, (window.end.getTime() - window.start.getTime()) / MINUTE_MS);
+      limited.push({ start: window.start, end: new Date(window.start.getTime() + minutes * MINUTE_MS) });
+      budget -= minutes;
+    }
+    return limited;
+  }
+
+  getWorkingWindows(from: Date, to: Date, capacityHoursPerDay?: number): WorkingWindow[] {
+    const windows: WorkingWindow[] = [];
+
+    // Se empieza un día antes por los turnos que cruzan la medianoche
+    const lastDay = toPlantDay(to, this.calendar.timezone);
+    for (let day = addDays(toPlantDay(from, this.calendar.timezone), -1); day <= lastDay; day = addDays(day, 1)) {
+      for (const window of this.getPlantDayWindows(day, capacityHoursPerDay)) {
+        if (window.end <= from || window.start >= to) continue;
+        windows.push({
+          start: window.start < from ? from : window.start,
+          end: window.end > to ? to : window.end
+        });
+      }
+    }
+
+    return windows;
+  }
+
+  getWorkingMinutes(from: Date, to: Date, capacityHoursPerDay?: number): number {
+    if (to <= from) return 0;
+    return this.getWorkingWindows(from, to, capacityHoursPerDay)
+      .reduce((total, window) => total + (window.end.getTime() - window.start.getTime()) / MINUTE_MS, 0);
+  }
+
+  // Fecha en la que se completan "minutes" minutos laborables empezando en "start"
+  addWorkingMinutes(start: Date, minutes: number, capacityHoursPerDay?: number): Date {
+    let remaining = minutes;
+    let current = start;
+    let day = addDays(toPlantDay(start, this.calendar.timezone), -1);
+
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, day = addDays(day, 1)) {
+      for (const window of this.getPlantDayWindows(day, capacityHoursPerDay)) {
+        if (window.end <= current) continue;
+
+        const from = window.start > current ? window.start : current;
+        const available = (window.end.getTime() - from.getTime()) / MINUTE_MS;
+        if (remaining <= available) {
+          return new Date(from.getTime() + remaining * MINUTE_MS);
+        }
+
+        remaining -= available;
+        current = window.end;
+      }
+    }
+
+    throw new Error('El calendario de fábrica no tiene tiempo laborable suficiente');
+  }
+
+  // Siguiente instante laborable a partir de la fecha indicada
+  nextWorkingTime(date: Date, capacityHoursPerDay?: number): Date {
+    return this.addWorkingMinutes(date, 0, capacityHoursPerDay);
+  }
+
+  // Fin de la última jornada del día límite (o fin del día si no es laborable).
+  // La fecha límite es una fecha sin hora: cuenta el día que indica, no el instante
+  getDueLimit(dueDate: Date): Date {
+    const day = toDateOnlyDay(dueDate);
+    const windows = this.getPlantDayWindows(day);
+    if (windows.length === 0) {
+      return new Date(atPlantTime(addDays(day, 1), 0, this.calendar.timezone).getTime() - 1);
+    }
+    return windows.reduce((latest, window) => window.end > latest ? window.end : latest, windows[0].end);
+  }
+
+  isPastDue(dueDate: Date, now: Date = new Date()): boolean {
+    return now > this.getDueLimit(dueDate);
+  }
+
+  // Horas laborables que quedan hasta la fecha límite y riesgo frente al trabajo pendiente
+  getDueStatus(dueDate: Date, remainingWorkMinutes: number, now: Date = new Date()): DueStatus {
+    const dueLimit = this.getDueLimit(dueDate);
+    const availableMinutes = this.getWorkingMinutes(now, dueLimit);
+    const overdueRisk = now > dueLimit
+      ? OverdueRisk.OVERDUE
+      : remainingWorkMinutes > availableMinutes ? OverdueRisk.AT_RISK : OverdueRisk.ON_TIME;
+
+    return {
+      dueLimit,
+      remainingWorkingHours: Math.round((availableMinutes / 60) * 10) / 10,
+      overdueRisk
+    };
+  }
+}
@@ -0,0 +1,74 @@
+// Plan de inspección de un modelo: controles que deben superarse antes de completar una tarjeta
+export enum InspectionCheckType {
+  CHECKLIST = 'checklist',     // comprobación visual o funcional: pasa / no pasa
+  MEASUREMENT = 'measurement'  // valor medido que debe quedar dentro de la tolerancia
+}
+
+export interface InspectionCheck {
+  sequence: number;
+  name: string;
+  type: InspectionCheckType;
+  description?: string;
+  // Solo para mediciones
+  nominalValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  unit?: string;
+}
+
+export interface InspectionPlan {
+  id: string;
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  name: string;
+  checks: InspectionCheck[];
+  isActive: boolean; // un plan inactivo no bloquea el cierre de las tarjetas
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Resultado de un control; guarda la tolerancia vigente para la trazabilidad
+export interface InspectionCheckResult {
+  sequence: number;
+  name: string;
+  type: InspectionCheckType;
+  passed: boolean;
+  measuredValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  unit?: string;
+  notes?: string;
+}
+
+// Inspección registrada en una tarjeta (se guardan todos los intentos)
+export interface InspectionRecord {
+  planId: string;
+  planName: string;
+  results: InspectionCheckResult[];
+  passed: boolean;
+  notes?: string;
+  inspectedBy?: string;
+  inspectedAt: Date;
+  acceptedByNcr?: string; // inspección no superada aceptada por concesión (NCR con disposición "usar tal cual")
+}
+
+// Estado de inspección de una tarjeta
+export interface CardInspectionStatus {
+  cardId: string;
+  plan?: InspectionPlan;
+  inspections: InspectionRecord[];
+  required: boolean;
+  passed: boolean;
+}
+
+// Un valor medido pasa si queda dentro de los límites definidos
+export const isWithinTolerance = (check: InspectionCheck, value: number): boolean =>
+  (check.minValue === undefined || value >= check.minValue) &&
+  (check.maxValue === undefined || value <= check.maxValue);
+
+// La tarjeta supera la inspección si la última inspección con el plan vigente pasó o se aceptó por concesión
+export const hasPassedInspection = (plan: InspectionPlan, inspections: InspectionRecord[] = []): boolean => {
+  const last = inspections.filter(inspection => inspection.planId === plan.id).pop();
+  return !!last && (last.passed || !!last.acceptedByNcr);
+};
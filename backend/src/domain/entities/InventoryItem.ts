@@ -1,3 +1,6 @@
+import { LotPickingPolicy } from './InventoryLot';
+import { ItemSupplier } from './Supplier';
+
 export enum InventoryType {
   MODEL = 'model',
   COMPONENT = 'component',
@@ -15,6 +18,22 @@ export interface BillOfMaterial {
   notes?: string;
 }
 
+// Línea de componente de la estructura de producto (BOM multinivel)
+export interface ComponentLine {
+  componentId: string;
+  quantity: number; // cantidad del componente por unidad del padre
+}
+
+// Operación de la ruta de fabricación (routing) de un modelo o componente
+export interface RoutingOperation {
+  sequence: number; // orden de ejecución dentro de la ruta
+  name: string;
+  workCenterId: string;
+  setupMinutes: number; // preparación, una vez por tarjeta
+  runMinutesPerUnit: number; // ejecución por unidad fabricada
+  description?: string;
+}
+
 export enum InventoryStatus {
   ACTIVE = 'active',
   INACTIVE = 'inactive',
@@ -27,20 +46,32 @@ export interface InventoryItem {
   description: string;
   type: InventoryType;
   sku: string;
-  quantity: number;
+  quantity: number; // stock físico (onHand)
+  reserved?: number; // cantidad reservada para órdenes de fabricación
+  onHand?: number; // igual a quantity (solo lectura)
+  available?: number; // quantity - reserved (solo lectura)
   unit: string;
   unitPrice: number;
   status: InventoryStatus;
   minimumStock: number;
   maximumStock: number;
   location: string;
-  supplier?: string;
+  supplier?: string; // nombre del proveedor preferente (se deriva de suppliers)
+  suppliers?: ItemSupplier[]; // proveedores del artículo con sus condiciones de compra
   // Campos para fabricación (solo para modelos)
   estimatedManufacturingTime?: number; // tiempo estimado en horas
   components?: string[]; // IDs de componentes necesarios
+  componentLines?: ComponentLine[]; // componentes con cantidad por unidad (modelos y componentes)
   canManufacture?: boolean; // si este item se puede fabricar
   // Lista de materiales (BOM) para componentes
   billOfMaterials?: BillOfMaterial[]; // materiales necesarios para fabricar este componente
+  // Ruta de fabricación: operaciones ordenadas por secuencia (modelos y componentes)
+  routing?: RoutingOperation[];
+  // Patrón del número de serie de las unidades terminadas (solo modelos, ver SerialUnit)
+  serialPattern?: string;
+  // Control por lotes (solo materiales, ver InventoryLot)
+  isLotControlled?: boolean;
+  lotPickingPolicy?: LotPickingPolicy; // FEFO por defecto
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,11 +96,16 @@ export class InventoryItemEntity implements InventoryItem {
     public estimatedManufacturingTime?: number,
     public components?: string[],
     public canManufacture?: boolean,
-    public billOfMaterials?: BillOfMaterial[]
+    public billOfMaterials?: BillOfMaterial[],
+    public reserved?: number
   ) {}
 
+  getAvailableQuantity(): number {
+    return this.quantity - (this.reserved || 0);
+  }
+
   isLowStock(): boolean {
-    return this.quantity <= this.minimumStock;
+    return this.getAvailableQuantity() <= this.minimumStock;
   }
 
   isOverStock(): boolean {
@@ -95,4 +131,13 @@ export class InventoryItemEntity implements InventoryItem {
     this.unitPrice = newPrice;
     this.updatedAt = new Date();
   }
-}
\ No newline at end of file
+}
+
+// Componentes directos de un artículo con su cantidad. Los artículos creados antes de
+// existir componentLines solo tienen la lista de IDs, que equivale a cantidad 1.
+export const getComponentLines = (item: Pick<InventoryItem, 'components' | 'componentLines'>): ComponentLine[] => {
+  if (item.componentLines && item.componentLines.length > 0) {
+    return item.componentLines;
+  }
+  return (item.components || []).map(componentId => ({ componentId, quantity: 1 }));
+};
@@ -0,0 +1,86 @@
+// Lote de un material controlado por lotes: cada recepción crea un lote con su caducidad
+// y las salidas a producción consumen los lotes según la política del artículo
+export enum LotPickingPolicy {
+  FEFO = 'fefo', // primero el que caduca antes (First Expired, First Out)
+  FIFO = 'fifo'  // primero el que se recibió antes (First In, First Out)
+}
+
+export enum LotStatus {
+  AVAILABLE = 'available',
+  EXPIRED = 'expired',
+  DEPLETED = 'depleted'
+}
+
+export interface InventoryLot {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  lotNumber: string;
+  supplierLot?: string; // lote del proveedor
+  supplier?: string;
+  receivedDate: Date;
+  expiryDate?: Date;
+  initialQuantity: number;
+  quantity: number; // cantidad restante en el lote
+  unit: string;
+  notes?: string;
+  status?: LotStatus; // calculado al consultar (no se guarda)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Consumo de un lote en una tarjeta de producción (genealogía hacia adelante)
+export interface LotConsumption {
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  modelId: string;
+  modelName: string;
+  componentId?: string;
+  componentName?: string;
+  quantity: number; // neto de reversiones
+  serialNumber?: string;
+  cardStatus: string;
+  consumedAt: Date;
+}
+
+export interface LotGenealogy {
+  lot: InventoryLot;
+  consumptions: LotConsumption[];
+  totalConsumed: number;
+}
+
+// Lote consumido por una tarjeta (genealogía hacia atrás)
+export interface CardLotUsage {
+  lotId: string;
+  lotNumber: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  componentId?: string;
+  quantity: number;
+  unit: string;
+  supplierLot?: string;
+  expiryDate?: Date;
+}
+
+export const isLotExpired = (lot: Pick<InventoryLot, 'expiryDate'>, now: Date = new Date()): boolean =>
+  !!lot.expiryDate && lot.expiryDate.getTime() < now.getTime();
+
+export const getLotStatus = (lot: Pick<InventoryLot, 'expiryDate' | 'quantity'>, now: Date = new Date()): LotStatus => {
+  if (lot.quantity <= 0) return LotStatus.DEPLETED;
+  return isLotExpired(lot, now) ? LotStatus.EXPIRED : LotStatus.AVAILABLE;
+};
+
+// Orden de consumo de los lotes; con FEFO los lotes sin caducidad van al final
+export const sortLotsForPicking = <T extends Pick<InventoryLot, 'receivedDate' | 'expiryDate'>>(lots: T[], policy: LotPickingPolicy): T[] => {
+  return [...lots].sort((a, b) => {
+    if (policy === LotPickingPolicy.FEFO) {
+      const expiryA = a.expiryDate ? a.expiryDate.getTime() : Number.MAX_SAFE_INTEGER;
+      const expiryB = b.expiryDate ? b.expiryDate.getTime() : Number.MAX_SAFE_INTEGER;
+      if (expiryA !== expiryB) return expiryA - expiryB;
+    }
+    return a.receivedDate.getTime() - b.receivedDate.getTime();
+  });
+};
@@ -0,0 +1,62 @@
+// Fichaje de un operario sobre una tarjeta (o un componente de la tarjeta).
+// Se guarda aparte del cronómetro de la tarjeta: varios operarios pueden estar fichados a la vez.
+export interface LaborEntry {
+  id: string;
+  userId: string;
+  username: string;
+  userName: string;
+  cardId: string;
+  orderId: string;
+  orderName: string;
+  cardLabel: string; // "Orden (n/total)"
+  componentId?: string;
+  componentName?: string;
+  startTime: Date;
+  endTime?: Date; // sin fecha de fin = fichaje abierto
+  minutes: number; // minutos del fichaje cerrado (0 mientras está abierto)
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Minutos trabajados, contando los fichajes abiertos hasta "now"
+export const getLaborMinutes = (entry: LaborEntry, now: Date = new Date()): number => {
+  const end = entry.endTime || now;
+  return Math.max(0, Math.round((end.getTime() - entry.startTime.getTime()) / (60 * 1000)));
+};
+
+export interface LaborSummaryLine {
+  key: string; // id de la orden, id del operario o día (YYYY-MM-DD)
+  label: string;
+  minutes: number;
+  hours: number;
+  entries: number;
+}
+
+// Comparación del tiempo fichado con el cronómetro de la tarjeta
+export interface LaborReconciliationLine {
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  status: string;
+  laborMinutes: number;
+  productionMinutes: number;
+  differenceMinutes: number; // fichado - cronómetro
+  averageCrew: number; // operarios medios mientras la tarjeta estaba en marcha
+  operators: number;
+  openEntries: number;
+}
+
+export interface LaborReport {
+  from?: Date;
+  to?: Date;
+  generatedAt: Date;
+  totalMinutes: number;
+  totalHours: number;
+  entries: number;
+  openEntries: number;
+  byOrder: LaborSummaryLine[];
+  byOperator: LaborSummaryLine[];
+  byDay: LaborSummaryLine[];
+  reconciliation: LaborReconciliationLine[];
+}
@@ -1,3 +1,5 @@
+import { OverdueRisk, WorkingCalendar } from './FactoryCalendar';
+
 export enum ManufacturingOrderStatus {
   PENDING = 'pending',
   IN_PROGRESS = 'in_progress',
@@ -7,16 +9,144 @@ export enum ManufacturingOrderStatus {
   OVERDUE = 'overdue'
 }
 
-// Seguimiento de tiempo para la producción
+// Órdenes que todavía producirán y consumirán materiales
+export const OPEN_MANUFACTURING_ORDER_STATUSES = [
+  ManufacturingOrderStatus.PENDING,
+  ManufacturingOrderStatus.IN_PROGRESS,
+  ManufacturingOrderStatus.PAUSED,
+  ManufacturingOrderStatus.OVERDUE
+];
+
+export enum TimeSegmentKind {
+  RUN = 'run',
+  PAUSE = 'pause'
+}
+
+// Datos de una pausa: motivo de parada y quién la registra
+export interface PauseDetails {
+  reasonCode: string;
+  reasonName: string;
+  category: string;
+  notes?: string;
+  workCenterId?: string;
+  workCenterName?: string;
+  pausedBy?: string;
+}
+
+// Tramo del cronómetro (endTime vacío mientras está abierto); las pausas llevan su motivo
+export interface TimeSegment extends Partial<PauseDetails> {
+  kind: TimeSegmentKind;
+  startTime: Date;
+  endTime?: Date;
+}
+
+// Seguimiento de tiempo para la producción: sucesión de tramos de trabajo y pausa
 export interface TimeTracker {
   startTime: Date;
   endTime?: Date;
-  totalTimeMinutes: number;
   isPaused: boolean;
-  pauseStartTime?: Date;
+  segments?: TimeSegment[];
+  // Totales calculados a partir de los tramos cerrados
+  totalTimeMinutes: number;
   totalPauseMinutes: number;
+  pauseStartTime?: Date; // solo en cronómetros anteriores a los tramos
 }
 
+const MINUTE = 60 * 1000;
+
+export const getSegmentMinutes = (segment: TimeSegment, now: Date = new Date()): number =>
+  Math.max(0, (new Date(segment.endTime || now).getTime() - new Date(segment.startTime).getTime()) / MINUTE);
+
+// Copia explícita: los tramos pueden venir de subdocumentos de Mongoose
+const copySegment = (segment: TimeSegment): TimeSegment => ({
+  kind: segment.kind,
+  startTime: segment.startTime,
+  endTime: segment.endTime,
+  reasonCode: segment.reasonCode,
+  reasonName: segment.reasonName,
+  category: segment.category,
+  notes: segment.notes,
+  workCenterId: segment.workCenterId,
+  workCenterName: segment.workCenterName,
+  pausedBy: segment.pausedBy
+});
+
+// Tramos del cronómetro; los antiguos sin tramos se reconstruyen conservando sus totales
+export const getTimeSegments = (tracker: TimeTracker): TimeSegment[] => {
+  if (tracker.segments && tracker.segments.length > 0) {
+    return tracker.segments.map(copySegment);
+  }
+
+  // Sin detalle de cuándo ocurrieron, las pausas anteriores se colocan al principio
+  const segments: TimeSegment[] = [];
+  let runStart = new Date(tracker.startTime);
+  if (tracker.totalPauseMinutes > 0) {
+    const pauseEnd = new Date(runStart.getTime() + tracker.totalPauseMinutes * MINUTE);
+    segments.push({ kind: TimeSegmentKind.PAUSE, startTime: runStart, endTime: pauseEnd });
+    runStart = pauseEnd;
+  }
+
+  if (tracker.isPaused && tracker.pauseStartTime) {
+    segments.push(
+      { kind: TimeSegmentKind.RUN, startTime: runStart, endTime: tracker.pauseStartTime },
+      { kind: TimeSegmentKind.PAUSE, startTime: tracker.pauseStartTime, endTime: tracker.endTime }
+    );
+  } else {
+    segments.push({ kind: TimeSegmentKind.RUN, startTime: runStart, endTime: tracker.endTime });
+  }
+  return segments;
+};
+
+// Minutos de trabajo y de pausa (los tramos abiertos cuentan hasta ahora)
+export const getTrackedMinutes = (tracker: TimeTracker, now: Date = new Date()): { runMinutes: number; pauseMinutes: number } =>
+  getTimeSegments(tracker).reduce((totals, segment) => {
+    const minutes = getSegmentMinutes(segment, now);
+    return segment.kind === TimeSegmentKind.PAUSE
+      ? { ...totals, pauseMinutes: totals.pauseMinutes + minutes }
+      : { ...totals, runMinutes: totals.runMinutes + minutes };
+  }, { runMinutes: 0, pauseMinutes: 0 });
+
+const buildTracker = (tracker: TimeTracker, segments: TimeSegment[], at: Date, endTime?: Date): TimeTracker => {
+  const closed = segments.filter(segment => segment.endTime);
+  const totals = getTrackedMinutes({ ...tracker, segments: closed }, at);
+  const openSegment = segments.find(segment => !segment.endTime);
+  return {
+    startTime: tracker.startTime,
+    endTime,
+    isPaused: openSegment?.kind === TimeSegmentKind.PAUSE,
+    segments,
+    totalTimeMinutes: Math.round(totals.runMinutes * 100) / 100,
+    totalPauseMinutes: Math.round(totals.pauseMinutes * 100) / 100
+  };
+};
+
+export const startTimeTracker = (at: Date = new Date()): TimeTracker => ({
+  startTime: at,
+  isPaused: false,
+  segments: [{ kind: TimeSegmentKind.RUN, startTime: at }],
+  totalTimeMinutes: 0,
+  totalPauseMinutes: 0
+});
+
+// Cierra el tramo abierto y abre uno nuevo (pausa con su motivo, o trabajo al reanudar)
+export const switchTimeSegment = (
+  tracker: TimeTracker,
+  kind: TimeSegmentKind,
+  at: Date = new Date(),
+  pause?: PauseDetails
+): TimeTracker => {
+  const segments = getTimeSegments(tracker).map(segment => segment.endTime ? segment : { ...segment, endTime: at });
+  segments.push({ ...(kind === TimeSegmentKind.PAUSE ? pause : {}), kind, startTime: at });
+  return buildTracker(tracker, segments, at);
+};
+
+// Detiene el cronómetro al completar o cancelar
+export const stopTimeTracker = (tracker: TimeTracker, at: Date = new Date()): TimeTracker => {
+  if (tracker.endTime) return tracker;
+  const segments = getTimeSegments(tracker).map(segment => segment.endTime ? segment : { ...segment, endTime: at });
+  return buildTracker(tracker, segments, at, at);
+};
+
 // Material utilizado con ajustes durante producción
 export interface MaterialUsage {
   materialId: string;
@@ -26,14 +156,23 @@ export interface MaterialUsage {
   actualQuantity: number;
   unit: string;
   notes?: string;
-  adjustedBy?: string;
+  adjustedBy?: string; // usuario autenticado que hizo el ajuste
   adjustedAt?: Date;
+  lots?: MaterialLotUsage[]; // lotes consumidos por el backflush (materiales controlados por lotes)
+}
+
+export interface MaterialLotUsage {
+  lotId: string;
+  lotNumber: string;
+  quantity: number;
+  expiryDate?: Date;
 }
 
 export interface ComponentProgress {
   componentId: string;
   componentName: string;
   componentSku: string;
+  bomRevisionId?: string; // revisión de la estructura del componente usada al crear la orden
   quantityRequired: number;
   quantityCompleted: number;
   isCompleted: boolean;
@@ -45,27 +184,71 @@ export interface ComponentProgress {
   startedAt?: Date;
 }
 
+export enum OperationStatus {
+  PENDING = 'pending',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed'
+}
+
+// Avance de una operación de la ruta de fabricación en una tarjeta
+export interface OperationProgress {
+  operationId: string; // único dentro de la tarjeta
+  sequence: number;
+  name: string;
+  itemId: string; // modelo o componente al que pertenece la operación
+  itemName: string;
+  componentId?: string; // presente si la operación es de un componente
+  workCenterId: string;
+  workCenterName: string;
+  plannedSetupMinutes: number;
+  plannedRunMinutes: number;
+  status: OperationStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  plannedStart?: Date; // asignado por el programador de capacidad finita
+  plannedFinish?: Date;
+}
+
 export interface ManufacturingOrder {
   id: string;
   modelId: string;
   modelName: string;
   modelSku: string;
   quantity: number;
-  clientName: string;
+  clientName: string; // nombre del cliente (o destino interno, p. ej. reposición de stock)
+  customerId?: string; // cliente registrado; las órdenes para stock no tienen
+  salesOrderId?: string; // pedido de venta cuya falta de stock cubre la orden
+  deliveredQuantity?: number; // unidades de la orden entregadas al cliente en envíos
   dueDate: Date;
   createdDate: Date;
   status: ManufacturingOrderStatus;
   components: ComponentProgress[];
+  bomRevisionId?: string; // revisión de la estructura del modelo con la que se creó la orden
   notes?: string;
   estimatedHours: number;
   startedAt?: Date;
   completedAt?: Date;
   // Seguimiento de tiempo general de la orden
   timeTracker?: TimeTracker;
+  // Calculados con el calendario de fábrica al consultar (no se guardan)
+  remainingWorkingHours?: number;
+  overdueRisk?: OverdueRisk;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Minutos de trabajo pendientes: horas estimadas proporcionales a los componentes sin completar
+export const getOrderRemainingWorkMinutes = (order: ManufacturingOrder): number => {
+  if (order.status === ManufacturingOrderStatus.COMPLETED || order.status === ManufacturingOrderStatus.CANCELLED) {
+    return 0;
+  }
+  if (order.components.length === 0) {
+    return order.estimatedHours * 60;
+  }
+  const pending = order.components.filter(component => !component.isCompleted).length;
+  return order.estimatedHours * 60 * (pending / order.components.length);
+};
+
 export class ManufacturingOrderEntity implements ManufacturingOrder {
   constructor(
     public id: string,
@@ -87,8 +270,10 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
     public timeTracker?: TimeTracker
   ) {}
 
-  isOverdue(): boolean {
-    return new Date() > this.dueDate && this.status !== ManufacturingOrderStatus.COMPLETED;
+  // Con calendario, la orden vence al terminar la jornada de su fecha límite
+  isOverdue(calendar?: WorkingCalendar): boolean {
+    if (this.status === ManufacturingOrderStatus.COMPLETED) return false;
+    return calendar ? calendar.isPastDue(this.dueDate) : new Date() > this.dueDate;
   }
 
   canStart(): boolean {
@@ -106,9 +291,13 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
     return Math.round((completedComponents / this.components.length) * 100);
   }
 
-  getRemainingTime(): number {
+  // Horas hasta la fecha límite; con calendario solo cuentan las horas laborables
+  getRemainingTime(calendar?: WorkingCalendar): number {
     if (this.status === ManufacturingOrderStatus.COMPLETED) return 0;
     const now = new Date();
+    if (calendar) {
+      return Math.ceil(calendar.getWorkingMinutes(now, calendar.getDueLimit(this.dueDate)) / 60);
+    }
     const remaining = this.dueDate.getTime() - now.getTime();
     return Math.max(0, Math.ceil(remaining / (1000 * 60 * 60))); // en horas
   }
@@ -121,17 +310,12 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
     this.startedAt = new Date();
 
     // Inicializar cronómetro
-    this.timeTracker = {
-      startTime: new Date(),
-      totalTimeMinutes: 0,
-      isPaused: false,
-      totalPauseMinutes: 0
-    };
+    this.timeTracker = startTimeTracker();
 
     this.updatedAt = new Date();
   }
 
-  pauseProduction(): void {
+  pauseProduction(pause: PauseDetails): void {
     if (this.status !== ManufacturingOrderStatus.IN_PROGRESS || !this.timeTracker) {
       throw new Error('Cannot pause production for this order');
     }
@@ -141,8 +325,7 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
     }
 
     this.status = ManufacturingOrderStatus.PAUSED;
-    this.timeTracker.isPaused = true;
-    this.timeTracker.pauseStartTime = new Date();
+    this.timeTracker = switchTimeSegment(this.timeTracker, TimeSegmentKind.PAUSE, new Date(), pause);
     this.updatedAt = new Date();
   }
 
@@ -151,36 +334,18 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
       throw new Error('Cannot resume production for this order');
     }
 
-    if (!this.timeTracker.isPaused || !this.timeTracker.pauseStartTime) {
+    if (!this.timeTracker.isPaused) {
       throw new Error('Production is not paused');
     }
 
-    // Calcular tiempo de pausa y agregarlo al total
-    const pauseTime = new Date().getTime() - this.timeTracker.pauseStartTime.getTime();
-    this.timeTracker.totalPauseMinutes += Math.round(pauseTime / (1000 * 60));
-
     this.status = ManufacturingOrderStatus.IN_PROGRESS;
-    this.timeTracker.isPaused = false;
-    this.timeTracker.pauseStartTime = undefined;
+    this.timeTracker = switchTimeSegment(this.timeTracker, TimeSegmentKind.RUN);
     this.updatedAt = new Date();
   }
 
   getCurrentProductionTime(): number {
     if (!this.timeTracker) return 0;
-
-    const now = new Date();
-    let totalTime = now.getTime() - this.timeTracker.startTime.getTime();
-
-    // Si está pausado actualmente, agregar tiempo de pausa actual
-    if (this.timeTracker.isPaused && this.timeTracker.pauseStartTime) {
-      const currentPauseTime = now.getTime() - this.timeTracker.pauseStartTime.getTime();
-      totalTime -= currentPauseTime;
-    }
-
-    // Restar tiempo total de pausas anteriores
-    totalTime -= (this.timeTracker.totalPauseMinutes * 60 * 1000);
-
-    return Math.max(0, Math.round(totalTime / (1000 * 60))); // en minutos
+    return Math.round(getTrackedMinutes(this.timeTracker).runMinutes); // en minutos
   }
 
   completeComponent(componentId: string): void {
@@ -193,6 +358,9 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
       component.isCompleted = true;
       component.quantityCompleted = component.quantityRequired;
       component.completedAt = new Date();
+      if (component.timeTracker) {
+        component.timeTracker = stopTimeTracker(component.timeTracker, component.completedAt);
+      }
       this.updatedAt = new Date();
     }
   }
@@ -203,6 +371,9 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
     }
     this.status = ManufacturingOrderStatus.COMPLETED;
     this.completedAt = new Date();
+    if (this.timeTracker) {
+      this.timeTracker = stopTimeTracker(this.timeTracker, this.completedAt);
+    }
     this.updatedAt = new Date();
   }
 
@@ -211,6 +382,9 @@ export class ManufacturingOrderEntity implements ManufacturingOrder {
       throw new Error('Cannot cancel a completed order');
     }
     this.status = ManufacturingOrderStatus.CANCELLED;
+    if (this.timeTracker) {
+      this.timeTracker = stopTimeTracker(this.timeTracker);
+    }
     this.updatedAt = new Date();
   }
 
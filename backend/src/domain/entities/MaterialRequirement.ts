@@ -0,0 +1,25 @@
+// Necesidad de un material para fabricar una cantidad de un modelo
+export interface MaterialRequirement {
+  materialId: string;
+  materialName: string;
+  materialSku: string;
+  unit: string;
+  requiredQuantity: number;
+  onHand: number;
+  reserved: number;
+  available: number; // onHand - reserved
+  shortage: number; // cantidad faltante (0 si alcanza)
+  suggestedPurchaseQuantity: number; // faltante + stock mínimo del material
+  usedBy: string[]; // nombres de los componentes que lo consumen
+}
+
+export interface AvailabilityReport {
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  quantity: number;
+  requirements: MaterialRequirement[];
+  shortages: MaterialRequirement[];
+  hasShortages: boolean;
+  checkedAt: Date;
+}
@@ -0,0 +1,94 @@
+import { InventoryItem, InventoryType } from './InventoryItem';
+
+// Planificación de necesidades de materiales (MRP)
+export enum PlannedOrderType {
+  BUY = 'buy',   // se firma como orden de compra
+  MAKE = 'make'  // se firma como orden de fabricación
+}
+
+export enum PlannedOrderStatus {
+  PLANNED = 'planned',
+  FIRMED = 'firmed'
+}
+
+// Periodo (día) de la tabla de necesidades netas de un artículo
+export interface MrpPeriod {
+  date: Date;
+  grossRequirement: number; // consumo de órdenes de fabricación y de órdenes planificadas de los padres
+  scheduledReceipts: number; // compras abiertas y órdenes de fabricación en curso
+  plannedReceipts: number; // órdenes planificadas por esta ejecución
+  projectedAvailable: number; // disponible al final del día
+  netRequirement: number; // lo que falta para cubrir la demanda y el stock mínimo
+}
+
+export interface MrpItemPlan {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  type: InventoryType;
+  lowLevelCode: number; // nivel más bajo en el que aparece en las estructuras (0 = sin padres)
+  onHand: number;
+  reserved: number;
+  minimumStock: number; // stock de seguridad
+  maximumStock: number; // las órdenes planificadas reponen hasta este nivel
+  leadTimeDays: number; // plazo del proveedor preferente (compra)
+  periods: MrpPeriod[];
+}
+
+export interface PlannedOrder {
+  number: number; // correlativo dentro de la ejecución
+  type: PlannedOrderType;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number;
+  releaseDate: Date; // fecha de necesidad menos el plazo
+  dueDate: Date; // fecha de necesidad
+  isLate: boolean; // debía lanzarse antes de hoy
+  supplierId?: string; // proveedor preferente (compra)
+  supplierName?: string;
+  sources: string[]; // demandas que la originan
+  status: PlannedOrderStatus;
+  firmedAt?: Date;
+  firmedBy?: string;
+  firmedReferenceId?: string; // orden de compra o de fabricación creada
+  firmedReference?: string; // número de la orden de compra o modelo y cliente de la de fabricación
+}
+
+export interface MrpRun {
+  id: string;
+  runAt: Date;
+  runBy?: string;
+  items: MrpItemPlan[];
+  plannedOrders: PlannedOrder[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Jornada usada para convertir las horas de fabricación en días de plazo
+export const MRP_HOURS_PER_DAY = 8;
+
+// Cliente con el que se crean las órdenes de fabricación firmadas desde el MRP
+export const MRP_CLIENT_NAME = 'Reposición de stock (MRP)';
+
+// Los materiales y lo que no se puede fabricar se compra; el resto se fabrica
+export const getPlannedOrderType = (item: Pick<InventoryItem, 'type' | 'canManufacture'>): PlannedOrderType =>
+  item.type === InventoryType.MATERIAL || item.canManufacture === false ? PlannedOrderType.BUY : PlannedOrderType.MAKE;
+
+// Cantidad que lleva la posición de stock hasta el stock máximo (o hasta el mínimo si no hay máximo)
+// respetando el pedido mínimo del proveedor; lo que se fabrica va en unidades enteras (una tarjeta por unidad)
+export const getReplenishmentQuantity = (
+  item: Pick<InventoryItem, 'minimumStock' | 'maximumStock'>,
+  type: PlannedOrderType,
+  position: number,
+  minimumOrderQuantity?: number
+): number => {
+  const quantity = Math.max(Math.max(item.maximumStock || 0, item.minimumStock || 0) - position, minimumOrderQuantity || 0);
+  return type === PlannedOrderType.MAKE ? Math.ceil(quantity) : Math.round(quantity * 1000000) / 1000000;
+};
+
+// Días de fabricación: horas estimadas por unidad repartidas en jornadas de MRP_HOURS_PER_DAY
+export const getMakeLeadTimeDays = (item: Pick<InventoryItem, 'estimatedManufacturingTime'>, quantity: number): number =>
+  Math.ceil(((item.estimatedManufacturingTime || 0) * quantity) / MRP_HOURS_PER_DAY);
@@ -0,0 +1,72 @@
+// No conformidad (NCR): defecto detectado en la unidad de una tarjeta de producción
+export enum DefectType {
+  DIMENSIONAL = 'dimensional',
+  COSMETIC = 'cosmetic',
+  FUNCTIONAL = 'functional',
+  MATERIAL = 'material',
+  ASSEMBLY = 'assembly',
+  OTHER = 'other'
+}
+
+export enum NonConformanceDisposition {
+  REWORK = 'rework',       // se genera una tarjeta de retrabajo con los componentes afectados reabiertos
+  SCRAP = 'scrap',         // la unidad se desecha y se da de baja lo consumido
+  USE_AS_IS = 'use_as_is'  // se acepta la unidad por concesión y la tarjeta puede completarse
+}
+
+export enum NonConformanceStatus {
+  OPEN = 'open',
+  CLOSED = 'closed'
+}
+
+export interface NonConformanceComponent {
+  componentId: string;
+  componentName: string;
+  componentSku: string;
+}
+
+export interface NonConformance {
+  id: string;
+  ncrNumber: number;
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  modelId: string;
+  modelName: string;
+  defectType: DefectType;
+  description: string;
+  affectedComponents: NonConformanceComponent[]; // vacío = defecto del conjunto
+  status: NonConformanceStatus;
+  disposition?: NonConformanceDisposition;
+  dispositionNotes?: string;
+  reworkCardId?: string;          // solo para retrabajo
+  scrapMovementIds?: string[];    // solo para desecho
+  reportedBy?: string;
+  dispositionedBy?: string;
+  dispositionedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DefectRateLine {
+  modelId: string;
+  modelName: string;
+  unitsBuilt: number; // tarjetas completadas más unidades desechadas en el periodo
+  nonConformances: number;
+  defectRate: number; // % de no conformidades sobre unidades fabricadas
+  rework: number;
+  scrap: number;
+  useAsIs: number;
+  open: number;
+  byDefectType: Partial<Record<DefectType, number>>;
+}
+
+export interface DefectRateReport {
+  from?: Date;
+  to?: Date;
+  generatedAt: Date;
+  totals: Omit<DefectRateLine, 'modelId' | 'modelName'>;
+  byModel: DefectRateLine[];
+}
+
+export const formatNcrNumber = (ncrNumber: number): string => `NCR-${String(ncrNumber).padStart(5, '0')}`;
@@ -27,17 +27,78 @@ export interface ProductionCard {
   status: ProductionCardStatus;
   priority: ProductionCardPriority;
   components: ComponentProgress[];
+  operations?: OperationProgress[]; // operaciones de la ruta, en orden de ejecución
+  bomRevisionId?: string; // revisión de la estructura del modelo (la misma de la orden)
   notes?: string;
   estimatedHours: number;
   startedAt?: Date;
   completedAt?: Date;
   timeTracker?: TimeTracker;
+  // Resultado de la última programación de capacidad finita
+  plannedStart?: Date;
+  plannedFinish?: Date;
+  willMissDueDate?: boolean;
+  scheduledAt?: Date;
+  pinnedStart?: Date; // inicio fijado por el planificador desde el Gantt
+  inspections?: InspectionRecord[]; // inspecciones de calidad registradas (todos los intentos)
+  reworkOfCardId?: string; // tarjeta original cuando esta es una tarjeta de retrabajo
+  nonConformanceId?: string; // NCR que generó el retrabajo
+  serialNumber?: string; // número de serie asignado a la unidad al completar la tarjeta
+  // Calculados con el calendario de fábrica al consultar (no se guardan)
+  remainingWorkingHours?: number;
+  overdueRisk?: OverdueRisk;
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Importar desde ManufacturingOrder
-import { TimeTracker, ComponentProgress } from './ManufacturingOrder';
+import { TimeTracker, TimeSegment, ComponentProgress, OperationProgress, OperationStatus, getTrackedMinutes } from './ManufacturingOrder';
+import { OverdueRisk, WorkingCalendar } from './FactoryCalendar';
+import { InspectionRecord } from './InspectionPlan';
+
+// Tramo de la línea de tiempo de una tarjeta (sin componente = cronómetro de la tarjeta)
+export interface CardTimelineSegment extends TimeSegment {
+  minutes: number;
+  componentId?: string;
+  componentName?: string;
+}
+
+export interface CardTimeline {
+  cardId: string;
+  cardLabel: string;
+  status: ProductionCardStatus;
+  runMinutes: number;
+  pauseMinutes: number;
+  segments: CardTimelineSegment[];
+}
+
+// Minutos de trabajo pendientes: operaciones sin completar o, sin ruta, horas estimadas menos el tiempo ya trabajado
+export const getRemainingWorkMinutes = (card: ProductionCard, now: Date = new Date()): number => {
+  if (card.status === ProductionCardStatus.COMPLETED || card.status === ProductionCardStatus.CANCELLED) {
+    return 0;
+  }
+
+  if (card.operations && card.operations.length > 0) {
+    return card.operations
+      .filter(operation => operation.status !== OperationStatus.COMPLETED)
+      .reduce((total, operation) => total + operation.plannedSetupMinutes + operation.plannedRunMinutes, 0);
+  }
+
+  const workedMinutes = card.timeTracker?.startTime ? getTrackedMinutes(card.timeTracker, now).runMinutes : 0;
+
+  return Math.max(0, card.estimatedHours * 60 - workedMinutes);
+};
+
+// Unidades de una orden que aún saldrán de producción: las de sus tarjetas abiertas (las completadas ya están
+// en stock y las canceladas no se fabricarán; un retrabajo abre su propia tarjeta). Sin tarjetas, toda la orden.
+export const getPendingOrderQuantity = (orderQuantity: number, cards: ProductionCard[]): number => {
+  if (cards.length === 0) {
+    return orderQuantity;
+  }
+  return cards
+    .filter(card => card.status !== ProductionCardStatus.COMPLETED && card.status !== ProductionCardStatus.CANCELLED)
+    .reduce((total, card) => total + card.quantity, 0);
+};
 
 export class ProductionCardEntity implements ProductionCard {
   constructor(
@@ -63,8 +124,10 @@ export class ProductionCardEntity implements ProductionCard {
     public timeTracker?: TimeTracker
   ) {}
 
-  isOverdue(): boolean {
-    return new Date() > this.dueDate && this.status !== ProductionCardStatus.COMPLETED;
+  // Con calendario, la tarjeta vence al terminar la jornada de su fecha límite
+  isOverdue(calendar?: WorkingCalendar): boolean {
+    if (this.status === ProductionCardStatus.COMPLETED) return false;
+    return calendar ? calendar.isPastDue(this.dueDate) : new Date() > this.dueDate;
   }
 
   canStart(): boolean {
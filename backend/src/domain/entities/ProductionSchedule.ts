@@ -0,0 +1,48 @@
+import { ProductionCardPriority } from './ProductionCard';
+
+// Capacidad del carril común para tarjetas sin ruta de fabricación
+export const DEFAULT_CAPACITY_HOURS_PER_DAY = 8;
+
+// Plan de una operación de la ruta dentro de la programación
+export interface ScheduledOperation {
+  operationId: string;
+  name: string;
+  workCenterId: string;
+  workCenterName: string;
+  minutes: number; // tiempo pendiente programado
+  plannedStart: Date;
+  plannedFinish: Date;
+}
+
+// Plan de una tarjeta de producción
+export interface CardSchedule {
+  cardId: string;
+  orderId: string;
+  cardLabel: string; // "Orden (n/total)"
+  modelName: string;
+  priority: ProductionCardPriority;
+  dueDate: Date;
+  plannedStart: Date;
+  plannedFinish: Date;
+  willMissDueDate: boolean;
+  latenessHours: number; // horas de retraso sobre la fecha límite (0 si llega a tiempo)
+  operations: ScheduledOperation[];
+}
+
+// Carga asignada a cada centro de trabajo
+export interface WorkCenterLoad {
+  workCenterId: string;
+  workCenterName: string;
+  capacityHoursPerDay: number;
+  scheduledHours: number;
+  busyUntil: Date;
+}
+
+export interface ScheduleResult {
+  scheduledAt: Date;
+  startDate: Date;
+  totalCards: number;
+  lateCards: number;
+  cards: CardSchedule[];
+  workCenters: WorkCenterLoad[];
+}
@@ -0,0 +1,88 @@
+// Orden de compra (PO) a un proveedor
+export enum PurchaseOrderStatus {
+  DRAFT = 'draft',                           // editable, no cuenta como pendiente de recibir
+  SENT = 'sent',                             // enviada al proveedor
+  PARTIALLY_RECEIVED = 'partially_received',
+  RECEIVED = 'received',                     // todas las líneas recibidas
+  CLOSED = 'closed'                          // cerrada; lo no recibido deja de esperarse
+}
+
+export interface PurchaseOrderLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  supplierSku?: string;
+  quantity: number; // cantidad pedida
+  receivedQuantity: number;
+  unitPrice: number; // en la moneda de la orden
+  expectedDate?: Date; // fecha prevista de la línea; si no, la de la orden
+}
+
+// Línea de una recepción de mercancía
+export interface PurchaseReceiptLine {
+  itemId: string;
+  quantity: number;
+  movementIds: string[]; // movimientos de entrada registrados (uno por lote o ubicación)
+  lotNumber?: string;
+}
+
+export interface PurchaseReceipt {
+  receivedAt: Date;
+  receivedBy?: string;
+  warehouseId?: string;
+  binId?: string;
+  notes?: string;
+  lines: PurchaseReceiptLine[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: number;
+  supplierId: string;
+  supplierCode: string;
+  supplierName: string;
+  currency: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: Date;
+  notes?: string;
+  receipts: PurchaseReceipt[];
+  createdBy?: string;
+  sentAt?: Date;
+  receivedAt?: Date; // recepción completa
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Cantidad pendiente de recibir por artículo en las órdenes abiertas
+export interface IncomingOrderLine {
+  purchaseOrderId: string;
+  poNumber: number;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  outstandingQuantity: number;
+  expectedDate?: Date;
+}
+
+export interface IncomingItem {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  incomingQuantity: number;
+  nextExpectedDate?: Date;
+  orders: IncomingOrderLine[];
+}
+
+// Órdenes cuyas cantidades pendientes se esperan todavía
+export const OPEN_PURCHASE_ORDER_STATUSES = [PurchaseOrderStatus.SENT, PurchaseOrderStatus.PARTIALLY_RECEIVED];
+
+// Órdenes que ya cubren una necesidad: también los borradores, para no volver a pedir lo ya planificado
+export const ON_ORDER_PURCHASE_ORDER_STATUSES = [PurchaseOrderStatus.DRAFT, ...OPEN_PURCHASE_ORDER_STATUSES];
+
+export const formatPoNumber = (poNumber: number): string => `PO-${String(poNumber).padStart(5, '0')}`;
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(0, line.quantity - (line.receivedQuantity || 0));
@@ -0,0 +1,38 @@
+import { PlannedOrderType } from './Mrp';
+
+export enum ReplenishmentStatus {
+  PENDING = 'pending',     // en la bandeja, pendiente de aprobar
+  APPROVED = 'approved',   // convertida en orden de compra o de fabricación
+  DISMISSED = 'dismissed'  // descartada por el planificador
+}
+
+// Reposición sugerida al bajar la posición de stock de un artículo por debajo de su stock mínimo
+export interface ReplenishmentSuggestion {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  type: PlannedOrderType; // compra o fabricación
+  available: number; // disponible (stock - reservado) al calcular la sugerencia
+  onOrder: number; // pendiente de recibir en compras y órdenes de fabricación abiertas
+  minimumStock: number;
+  maximumStock: number;
+  suggestedQuantity: number; // lleva la posición de stock hasta el stock máximo
+  supplierId?: string; // proveedor preferente (compra)
+  supplierName?: string;
+  status: ReplenishmentStatus;
+  triggeredBy?: string; // usuario del movimiento que la generó o actualizó
+  approvedQuantity?: number;
+  approvedAt?: Date;
+  approvedBy?: string;
+  dismissedAt?: Date;
+  dismissedBy?: string;
+  referenceId?: string; // orden de compra o de fabricación creada al aprobar
+  reference?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Cliente con el que se crean las órdenes de fabricación aprobadas desde la bandeja
+export const REPLENISHMENT_CLIENT_NAME = 'Reposición de stock (punto de pedido)';
@@ -0,0 +1,82 @@
+import { ManufacturingOrderStatus } from './ManufacturingOrder';
+
+// Pedido de venta (SO) de modelos a un cliente
+export enum SalesOrderStatus {
+  DRAFT = 'draft',         // editable; todavía no reserva stock ni genera órdenes
+  CONFIRMED = 'confirmed', // servido desde stock y/o con órdenes de fabricación para la falta
+  DELIVERED = 'delivered', // todas las líneas entregadas en envíos
+  CANCELLED = 'cancelled'
+}
+
+// Situación de una línea, calculada a partir de sus órdenes de fabricación y tarjetas
+export enum SalesOrderLineStatus {
+  PENDING = 'pending',             // sin cubrir o con órdenes sin empezar
+  IN_PRODUCTION = 'in_production', // alguna unidad en fabricación
+  READY = 'ready',                 // todas las unidades reservadas para el cliente o ya entregadas
+  DELIVERED = 'delivered'          // todas las unidades entregadas
+}
+
+export interface SalesOrderLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number; // cantidad pedida
+  unitPrice: number;
+  dueDate?: Date; // fecha comprometida de la línea; si no, la del pedido
+  fromStockQuantity: number; // unidades servidas desde el stock existente al confirmar
+  reservedQuantity: number; // unidades terminadas reservadas para el cliente (stock + fabricadas) pendientes de enviar
+  deliveredQuantity: number; // unidades entregadas en envíos (dejan de estar reservadas)
+  manufacturingOrderIds: string[]; // órdenes generadas para la falta de stock
+  // Calculado al consultar (no se guarda)
+  progress?: SalesOrderLineProgress;
+}
+
+// Avance de una orden de fabricación ligada a una línea
+export interface LinkedOrderProgress {
+  orderId: string;
+  status: ManufacturingOrderStatus;
+  quantity: number;
+  completedQuantity: number; // tarjetas completadas
+  dueDate: Date;
+  expectedFinish?: Date; // fin programado de la última tarjeta pendiente; si no, la fecha límite
+}
+
+export interface SalesOrderLineProgress {
+  status: SalesOrderLineStatus;
+  readyQuantity: number; // reservadas y pendientes de enviar
+  inProductionQuantity: number; // unidades pendientes en órdenes abiertas
+  uncoveredQuantity: number; // ni en stock ni en fabricación (p. ej. orden cancelada)
+  expectedReadyDate?: Date;
+  isLate: boolean; // se espera terminar después de la fecha comprometida
+  orders: LinkedOrderProgress[];
+}
+
+export interface SalesOrder {
+  id: string;
+  soNumber: number;
+  customerId: string;
+  customerCode: string;
+  customerName: string;
+  customerReference?: string; // referencia del pedido del cliente
+  status: SalesOrderStatus;
+  lines: SalesOrderLine[];
+  requestedDate: Date; // fecha de entrega comprometida
+  notes?: string;
+  createdBy?: string;
+  confirmedAt?: Date;
+  confirmedBy?: string;
+  cancelledAt?: Date;
+  deliveredAt?: Date;
+  // Calculados al consultar (no se guardan)
+  lineStatus?: SalesOrderLineStatus; // la línea más atrasada
+  expectedReadyDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const formatSoNumber = (soNumber: number): string => `SO-${String(soNumber).padStart(5, '0')}`;
+
+// Fecha comprometida de la línea (la del pedido si la línea no tiene una propia)
+export const getLineDueDate = (order: SalesOrder, line: SalesOrderLine): Date =>
+  line.dueDate || order.requestedDate;
@@ -0,0 +1,91 @@
+import { InspectionRecord } from './InspectionPlan';
+import { DefectType, NonConformanceDisposition, NonConformanceStatus } from './NonConformance';
+
+// Unidad terminada con número de serie: se registra al completar cada tarjeta de producción
+// y guarda la genealogía de la unidad para la trazabilidad posventa
+export interface SerialUnitComponent {
+  componentId: string;
+  componentName: string;
+  componentSku: string;
+  completedAt?: Date;
+}
+
+// Material consumido por el backflush de un componente de la unidad
+export interface SerialUnitMaterial {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  quantity: number;
+  unit: string;
+  componentId?: string;
+  movementId: string;
+  lotId?: string;
+  lotNumber?: string;
+}
+
+// Operario con tiempo fichado en la tarjeta (o en la tarjeta original si es un retrabajo)
+export interface SerialUnitOperator {
+  userId: string;
+  username: string;
+  userName: string;
+  minutes: number;
+}
+
+export interface SerialUnitNonConformance {
+  nonConformanceId: string;
+  ncrNumber: number;
+  defectType: DefectType;
+  status: NonConformanceStatus;
+  disposition?: NonConformanceDisposition;
+}
+
+// Entrega de la unidad al cliente
+export interface SerialUnitShipment {
+  shipmentId: string;
+  shipmentNumber: number;
+  customerName: string;
+  shippedAt: Date;
+}
+
+export interface SerialUnit {
+  id: string;
+  serialNumber: string;
+  sequence: number; // correlativo por modelo
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  orderName: string;
+  reworkOfCardIds?: string[]; // tarjetas anteriores de la unidad cuando se completó en un retrabajo
+  components: SerialUnitComponent[];
+  materials: SerialUnitMaterial[];
+  operators: SerialUnitOperator[];
+  inspections: InspectionRecord[];
+  nonConformances: SerialUnitNonConformance[];
+  producedAt: Date;
+  producedBy?: string;
+  shipment?: SerialUnitShipment; // envío con el que salió de fábrica
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Patrón por defecto cuando el modelo no define serialPattern
+export const DEFAULT_SERIAL_PATTERN = '{SKU}-{YYYY}-{SEQ:5}';
+
+const SEQUENCE_TOKEN = /\{SEQ(?::(\d+))?\}/g;
+
+// El patrón debe incluir el correlativo para que cada unidad tenga un número distinto
+export const isValidSerialPattern = (pattern: string): boolean => /\{SEQ(?::\d+)?\}/.test(pattern);
+
+// Tokens: {SKU}, {YYYY}, {YY}, {MM}, {SEQ} y {SEQ:n} (correlativo con n dígitos)
+export const formatSerialNumber = (pattern: string, sku: string, sequence: number, date: Date = new Date()): string => {
+  const year = String(date.getFullYear());
+  return pattern
+    .replace(/\{SKU\}/g, sku)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+    .replace(SEQUENCE_TOKEN, (_match, digits?: string) => String(sequence).padStart(digits ? Number(digits) : 1, '0'));
+};
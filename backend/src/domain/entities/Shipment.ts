@@ -0,0 +1,54 @@
+// Envío (albarán) de productos terminados a un cliente
+export enum ShipmentStatus {
+  DRAFT = 'draft',     // preparación: se pueden cambiar las líneas y las unidades elegidas
+  SHIPPED = 'shipped'  // stock descontado y unidades entregadas
+}
+
+// Documento de origen del envío
+export enum ShipmentSource {
+  SALES_ORDER = 'sales_order',
+  MANUFACTURING_ORDER = 'manufacturing_order'
+}
+
+// Unidad con número de serie elegida en la preparación
+export interface ShipmentSerial {
+  serialUnitId: string;
+  serialNumber: string;
+  orderId: string; // orden de fabricación que produjo la unidad
+}
+
+export interface ShipmentLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number;
+  serials: ShipmentSerial[]; // como mucho una por unidad; el resto sale sin número de serie
+  movementIds: string[]; // salidas de stock registradas al enviar
+}
+
+export interface Shipment {
+  id: string;
+  shipmentNumber: number;
+  sourceType: ShipmentSource;
+  salesOrderId?: string;
+  soNumber?: number;
+  manufacturingOrderId?: string;
+  customerId?: string;
+  customerCode?: string;
+  customerName: string;
+  customerReference?: string;
+  deliveryAddress?: string;
+  status: ShipmentStatus;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+  createdBy?: string;
+  shippedAt?: Date;
+  shippedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const formatShipmentNumber = (shipmentNumber: number): string => `SH-${String(shipmentNumber).padStart(5, '0')}`;
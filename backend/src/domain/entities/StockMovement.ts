@@ -0,0 +1,69 @@
+export enum StockMovementType {
+  RECEIPT = 'receipt',
+  ISSUE = 'issue',
+  PRODUCTION_OUTPUT = 'production_output',
+  ADJUSTMENT = 'adjustment',
+  TRANSFER = 'transfer',
+  SCRAP = 'scrap',
+  SHIPMENT = 'shipment'
+}
+
+export enum StockMovementReferenceType {
+  MANUFACTURING_ORDER = 'manufacturing_order',
+  PRODUCTION_CARD = 'production_card',
+  PURCHASE_ORDER = 'purchase_order',
+  SHIPMENT = 'shipment',
+  MANUAL = 'manual'
+}
+
+// Movimiento de stock (libro mayor de inventario, solo se agregan registros)
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  type: StockMovementType;
+  quantity: number; // variación con signo (+ entrada, - salida)
+  balanceAfter: number; // cantidad del artículo después del movimiento
+  unit: string;
+  reason: string;
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string; // ID de la orden o tarjeta relacionada
+  warehouseId?: string; // almacén afectado (origen en las transferencias)
+  warehouseCode?: string;
+  binId?: string; // ubicación dentro del almacén
+  binCode?: string;
+  toWarehouseId?: string; // solo para transferencias
+  toBinId?: string; // solo para transferencias
+  fromLocation?: string; // solo para transferencias
+  toLocation?: string; // solo para transferencias
+  transferredQuantity?: number; // solo para transferencias (no altera el saldo)
+  reversalOf?: string; // ID del movimiento que este movimiento revierte
+  lotId?: string; // lote afectado (artículos controlados por lotes)
+  lotNumber?: string;
+  performedBy?: string;
+  createdAt: Date;
+}
+
+export interface StockReconciliation {
+  itemId: string;
+  quantity: number;
+  ledgerBalance: number;
+  difference: number;
+  movementCount: number;
+  isReconciled: boolean;
+}
+
+// Tipos que solo pueden sumar o restar stock
+const POSITIVE_TYPES = [StockMovementType.RECEIPT, StockMovementType.PRODUCTION_OUTPUT];
+const NEGATIVE_TYPES = [StockMovementType.ISSUE, StockMovementType.SCRAP, StockMovementType.SHIPMENT];
+
+// Una reversión conserva el tipo del movimiento original con el signo invertido
+export const isValidMovementQuantity = (type: StockMovementType, quantity: number, isReversal = false): boolean => {
+  if (type === StockMovementType.TRANSFER) return quantity === 0;
+  if (quantity === 0) return false;
+  const signedQuantity = isReversal ? -quantity : quantity;
+  if (POSITIVE_TYPES.includes(type)) return signedQuantity > 0;
+  if (NEGATIVE_TYPES.includes(type)) return signedQuantity < 0;
+  return true;
+};
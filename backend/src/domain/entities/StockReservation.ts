@@ -0,0 +1,30 @@
+export enum StockReservationStatus {
+  ACTIVE = 'active',
+  CONSUMED = 'consumed',
+  RELEASED = 'released'
+}
+
+// Momento en que una orden de fabricación reserva sus materiales
+export enum ReservationTrigger {
+  ORDER_CREATED = 'create',
+  ORDER_STARTED = 'start'
+}
+
+// Reserva de stock de un artículo para una orden de fabricación
+export interface StockReservation {
+  id: string;
+  orderId: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number; // cantidad reservada originalmente
+  consumedQuantity: number; // cantidad ya consumida por backflush
+  status: StockReservationStatus;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const getRemainingReservation = (reservation: StockReservation): number =>
+  Math.max(0, reservation.quantity - reservation.consumedQuantity);
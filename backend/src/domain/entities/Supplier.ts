@@ -0,0 +1,33 @@
+// Proveedor de materiales y componentes
+export interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string; // NIF / CIF
+  leadTimeDays: number; // plazo de entrega habitual en días
+  currency: string; // código ISO 4217
+  paymentTerms?: string; // p. ej. "30 días fecha factura"
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Condiciones de compra de un artículo a un proveedor (embebidas en el artículo)
+export interface ItemSupplier {
+  supplierId: string;
+  supplierSku?: string; // referencia del artículo en el catálogo del proveedor
+  unitPrice?: number; // precio de compra en la moneda del proveedor
+  minimumOrderQuantity?: number;
+  isPreferred?: boolean; // proveedor habitual; solo uno por artículo
+}
+
+export const DEFAULT_SUPPLIER_CURRENCY = 'EUR';
+
+// Proveedor preferente del artículo, o el primero de la lista
+export const getPreferredSupplier = (suppliers?: ItemSupplier[]): ItemSupplier | undefined =>
+  suppliers?.find(line => line.isPreferred) || suppliers?.[0];
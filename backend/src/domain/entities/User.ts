@@ -0,0 +1,33 @@
+export enum UserRole {
+  ADMIN = 'admin',         // administración completa, incluida la gestión de usuarios
+  PLANNER = 'planner',     // órdenes, programación, listas de materiales y rutas
+  WAREHOUSE = 'warehouse', // artículos y movimientos de stock
+  OPERATOR = 'operator',   // ejecución en planta de tarjetas y órdenes
+  VIEWER = 'viewer'        // solo consulta
+}
+
+export interface User {
+  id: string;
+  username: string;
+  name: string;
+  email?: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Usuario autenticado en la petición (datos del token)
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: Date;
+  user: User;
+}
@@ -0,0 +1,52 @@
+// Almacén físico; el almacén por defecto recibe el stock sin ubicación indicada
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  address?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Ubicación (estantería, hueco) dentro de un almacén
+export interface BinLocation {
+  id: string;
+  warehouseId: string;
+  code: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Existencias de un artículo en un almacén (y ubicación, si se indica).
+// La suma de las existencias por ubicación es la cantidad del artículo
+export interface LocationStock {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  warehouseId: string;
+  warehouseCode: string;
+  binId?: string;
+  binCode?: string;
+  quantity: number;
+  unit: string;
+  updatedAt: Date;
+}
+
+export interface StockLocation {
+  warehouseId: string;
+  binId?: string;
+}
+
+export const DEFAULT_WAREHOUSE_CODE = 'PRINCIPAL';
+
+// ALMACEN o ALMACEN/UBICACION
+export const formatLocationLabel = (warehouseCode: string, binCode?: string): string =>
+  binCode ? `${warehouseCode}/${binCode}` : warehouseCode;
+
+export const isSameLocation = (a: StockLocation, b: StockLocation): boolean =>
+  a.warehouseId === b.warehouseId && (a.binId || undefined) === (b.binId || undefined);
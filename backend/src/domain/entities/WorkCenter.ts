@@ -0,0 +1,11 @@
+// Centro de trabajo: puesto o estación que ejecuta operaciones de la ruta de fabricación
+export interface WorkCenter {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  capacityHoursPerDay: number; // horas productivas disponibles por día
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,93 @@
+import { DEFAULT_FACTORY_CALENDAR, OverdueRisk, WorkingCalendar } from '../FactoryCalendar';
+
+// Planta en Madrid: UTC+1 en invierno, UTC+2 en verano (cambios el 29/03/2026 y el 25/10/2026)
+const madrid = (overrides: Partial<ConstructorParameters<typeof WorkingCalendar>[0]> = {}) =>
+  new WorkingCalendar({ ...DEFAULT_FACTORY_CALENDAR, timezone: 'Europe/Madrid', ...overrides });
+
+const at = (iso: string) => new Date(iso);
+
+describe('WorkingCalendar', () => {
+  describe('zona horaria de la planta', () => {
+    it('sitúa los turnos a la hora local antes y después del cambio a horario de verano', () => {
+      const calendar = madrid();
+
+      expect(calendar.getDayWindows(at('2026-03-27T12:00:00Z'))).toEqual([
+        { start: at('2026-03-27T07:00:00Z'), end: at('2026-03-27T15:00:00Z') }
+      ]);
+      expect(calendar.getDayWindows(at('2026-03-30T12:00:00Z'))).toEqual([
+        { start: at('2026-03-30T06:00:00Z'), end: at('2026-03-30T14:00:00Z') }
+      ]);
+    });
+
+    it('asigna el instante al día de la planta, no al día UTC', () => {
+      const calendar = madrid();
+
+      expect(calendar.getPlantDay(at('2026-07-14T23:30:00Z'))).toEqual(at('2026-07-15T00:00:00Z'));
+      expect(calendar.getPlantDay(at('2026-07-14T21:30:00Z'))).toEqual(at('2026-07-14T00:00:00Z'));
+    });
+
+    it('empieza cada día a medianoche local aunque ese día cambie la hora', () => {
+      const calendar = madrid();
+
+      expect(calendar.getPlantDayStart(at('2026-10-25T00:00:00Z'))).toEqual(at('2026-10-24T22:00:00Z'));
+      expect(calendar.getPlantDayStart(at('2026-10-26T00:00:00Z'))).toEqual(at('2026-10-25T23:00:00Z'));
+    });
+
+    it('cuenta la hora extra de un turno de noche que cruza el cambio a horario de invierno', () => {
+      const calendar = madrid({
+        weekdays: [{ weekday: 6, shifts: [{ name: 'Noche', startTime: '22:00', endTime: '06:00' }] }]
+      });
+
+      const windows = calendar.getWorkingWindows(at('2026-10-24T00:00:00Z'), at('2026-10-26T00:00:00Z'));
+
+      expect(windows).toEqual([{ start: at('2026-10-24T20:00:00Z'), end: at('2026-10-25T05:00:00Z') }]);
+      expect(calendar.getWorkingMinutes(at('2026-10-24T00:00:00Z'), at('2026-10-26T00:00:00Z'))).toBe(9 * 60);
+    });
+
+    it('salta fines de semana, festivos y cierres al sumar tiempo laborable', () => {
+      const calendar = madrid({
+        holidays: [{ date: '2026-03-30', name: 'Festivo local' }],
+        closures: [{ startDate: '2026-03-31', endDate: '2026-04-01', reason: 'Mantenimiento' }]
+      });
+
+      // Viernes 15:00 local: queda una hora; el resto pasa al jueves 08:00 local
+      expect(calendar.addWorkingMinutes(at('2026-03-27T14:00:00Z'), 120)).toEqual(at('2026-04-02T07:00:00Z'));
+      expect(calendar.nextWorkingTime(at('2026-03-27T16:00:00Z'))).toEqual(at('2026-04-02T06:00:00Z'));
+    });
+  });
+
+  describe('getDueStatus', () => {
+    // Fecha límite el lunes 30/03/2026: vence al final del turno, a las 16:00 locales (14:00 UTC)
+    const dueDate = at('2026-03-30T00:00:00Z');
+    const fridayAfternoon = at('2026-03-27T14:00:00Z');
+
+    it('calcula el límite y las horas laborables que quedan hasta él', () => {
+      const status = madrid().getDueStatus(dueDate, 0, fridayAfternoon);
+
+      expect(status.dueLimit).toEqual(at('2026-03-30T14:00:00Z'));
+      expect(status.remainingWorkingHours).toBe(9);
+      expect(status.overdueRisk).toBe(OverdueRisk.ON_TIME);
+    });
+
+    it('marca en riesgo el trabajo pendiente que no cabe antes del límite', () => {
+      const calendar = madrid();
+
+      expect(calendar.getDueStatus(dueDate, 9 * 60, fridayAfternoon).overdueRisk).toBe(OverdueRisk.ON_TIME);
+      expect(calendar.getDueStatus(dueDate, 9 * 60 + 1, fridayAfternoon).overdueRisk).toBe(OverdueRisk.AT_RISK);
+    });
+
+    it('marca vencido lo que pasa del límite', () => {
+      const status = madrid().getDueStatus(dueDate, 0, at('2026-03-30T14:00:01Z'));
+
+      expect(status.overdueRisk).toBe(OverdueRisk.OVERDUE);
+      expect(status.remainingWorkingHours).toBe(0);
+    });
+
+    it('en un día no laborable vence al final del día local', () => {
+      const calendar = madrid({ holidays: [{ date: '2026-04-03', name: 'Viernes Santo' }] });
+
+      expect(calendar.getDueStatus(at('2026-04-03T00:00:00Z'), 0, fridayAfternoon).dueLimit)
+        .toEqual(at('2026-04-03T21:59:59.999Z'));
+    });
+  });
+});
@@ -4,7 +4,9 @@ export interface InventoryFilters {
   type?: InventoryType;
   status?: InventoryStatus;
   location?: string;
+  warehouseId?: string; // artículos con existencias en el almacén (lo resuelve InventoryUseCases)
   supplier?: string;
+  supplierId?: string;
   lowStock?: boolean;
   search?: string;
 }
@@ -18,4 +20,14 @@ export interface IInventoryRepository {
   delete(id: string): Promise<boolean>;
   updateQuantity(id: string, quantity: number): Promise<InventoryItem | null>;
   bulkUpdateQuantities(updates: Array<{id: string, quantity: number}>): Promise<InventoryItem[]>;
+  // Suma (o resta) stock de forma atómica; devuelve null si el resultado sería negativo
+  adjustQuantity(id: string, delta: number): Promise<InventoryItem | null>;
+  // Artículos que usan directamente el artículo indicado (como componente o material)
+  findParents(itemId: string): Promise<InventoryItem[]>;
+  // Artículos cuya ruta de fabricación usa el centro de trabajo indicado
+  findByWorkCenter(workCenterId: string): Promise<InventoryItem[]>;
+  // Artículos que tienen al proveedor entre sus proveedores
+  findBySupplier(supplierId: string): Promise<InventoryItem[]>;
+  // Suma (o resta) la cantidad reservada de forma atómica; nunca baja de cero
+  adjustReserved(id: string, delta: number): Promise<InventoryItem | null>;
 }
\ No newline at end of file
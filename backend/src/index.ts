@@ -6,19 +6,107 @@ import { createServer } from 'http';
 
 import { connectDatabase } from './infrastructure/database/mongoose';
 import { MongoInventoryRepository } from './infrastructure/repositories/MongoInventoryRepository';
+import { MongoStockMovementRepository } from './infrastructure/repositories/MongoStockMovementRepository';
+import { StockMovementUseCases } from './application/usecases/StockMovementUseCases';
 import { InventoryUseCases } from './application/usecases/InventoryUseCases';
+import { BomUseCases } from './application/usecases/BomUseCases';
+import { MongoBomRevisionRepository } from './infrastructure/repositories/MongoBomRevisionRepository';
+import { BomRevisionUseCases } from './application/usecases/BomRevisionUseCases';
+import { MongoWorkCenterRepository } from './infrastructure/repositories/MongoWorkCenterRepository';
+import { WorkCenterUseCases } from './application/usecases/WorkCenterUseCases';
+import { RoutingUseCases } from './application/usecases/RoutingUseCases';
+import { WorkCenterController } from './presentation/controllers/WorkCenterController';
+import { createWorkCenterRoutes } from './presentation/routes/workCenterRoutes';
+import { MongoFactoryCalendarRepository } from './infrastructure/repositories/MongoFactoryCalendarRepository';
+import { FactoryCalendarUseCases } from './application/usecases/FactoryCalendarUseCases';
+import { FactoryCalendarController } from './presentation/controllers/FactoryCalendarController';
+import { createFactoryCalendarRoutes } from './presentation/routes/factoryCalendarRoutes';
 import { InventoryController } from './presentation/controllers/InventoryController';
 import { createInventoryRoutes } from './presentation/routes/inventoryRoutes';
 
 import { MongoManufacturingOrderRepository } from './infrastructure/repositories/MongoManufacturingOrderRepository';
 import { ManufacturingOrderUseCases } from './application/usecases/ManufacturingOrderUseCases';
+import { MaterialRequirementsUseCases } from './application/usecases/MaterialRequirementsUseCases';
+import { MongoStockReservationRepository } from './infrastructure/repositories/MongoStockReservationRepository';
+import { StockReservationUseCases } from './application/usecases/StockReservationUseCases';
+import { ReservationTrigger } from './domain/entities/StockReservation';
+import { getSystemTimeZone } from './domain/entities/FactoryCalendar';
 import { ManufacturingOrderController } from './presentation/controllers/ManufacturingOrderController';
 import { createManufacturingOrderRoutes } from './presentation/routes/manufacturingOrderRoutes';
 
 import { MongoProductionCardRepository } from './infrastructure/repositories/MongoProductionCardRepository';
+import { MongoBackflushRepository } from './infrastructure/repositories/MongoBackflushRepository';
+import { BackflushUseCases } from './application/usecases/BackflushUseCases';
 import { ProductionCardUseCases } from './application/usecases/ProductionCardUseCases';
+import { ProductionScheduleUseCases } from './application/usecases/ProductionScheduleUseCases';
 import { ProductionCardController } from './presentation/controllers/ProductionCardController';
 import { createProductionCardRoutes } from './presentation/routes/productionCardRoutes';
+import { MongoLaborEntryRepository } from './infrastructure/repositories/MongoLaborEntryRepository';
+import { LaborUseCases } from './application/usecases/LaborUseCases';
+import { LaborController } from './presentation/controllers/LaborController';
+import { createLaborRoutes } from './presentation/routes/laborRoutes';
+import { MongoDowntimeReasonRepository } from './infrastructure/repositories/MongoDowntimeReasonRepository';
+import { DowntimeUseCases } from './application/usecases/DowntimeUseCases';
+import { DowntimeController } from './presentation/controllers/DowntimeController';
+import { createDowntimeRoutes } from './presentation/routes/downtimeRoutes';
+import { MongoInspectionPlanRepository } from './infrastructure/repositories/MongoInspectionPlanRepository';
+import { InspectionUseCases } from './application/usecases/InspectionUseCases';
+import { InspectionController } from './presentation/controllers/InspectionController';
+import { createInspectionRoutes } from './presentation/routes/inspectionRoutes';
+import { MongoNonConformanceRepository } from './infrastructure/repositories/MongoNonConformanceRepository';
+import { NonConformanceUseCases } from './application/usecases/NonConformanceUseCases';
+import { NonConformanceController } from './presentation/controllers/NonConformanceController';
+import { createNonConformanceRoutes } from './presentation/routes/nonConformanceRoutes';
+import { MongoSerialUnitRepository } from './infrastructure/repositories/MongoSerialUnitRepository';
+import { SerialUnitUseCases } from './application/usecases/SerialUnitUseCases';
+import { SerialUnitController } from './presentation/controllers/SerialUnitController';
+import { createSerialUnitRoutes } from './presentation/routes/serialUnitRoutes';
+import { MongoInventoryLotRepository } from './infrastructure/repositories/MongoInventoryLotRepository';
+import { InventoryLotUseCases } from './application/usecases/InventoryLotUseCases';
+import { InventoryLotController } from './presentation/controllers/InventoryLotController';
+import { createInventoryLotRoutes } from './presentation/routes/inventoryLotRoutes';
+import { MongoWarehouseRepository } from './infrastructure/repositories/MongoWarehouseRepository';
+import { MongoBinLocationRepository } from './infrastructure/repositories/MongoBinLocationRepository';
+import { MongoLocationStockRepository } from './infrastructure/repositories/MongoLocationStockRepository';
+import { WarehouseUseCases } from './application/usecases/WarehouseUseCases';
+import { WarehouseController } from './presentation/controllers/WarehouseController';
+import { createWarehouseRoutes } from './presentation/routes/warehouseRoutes';
+import { MongoSupplierRepository } from './infrastructure/repositories/MongoSupplierRepository';
+import { SupplierUseCases } from './application/usecases/SupplierUseCases';
+import { SupplierController } from './presentation/controllers/SupplierController';
+import { createSupplierRoutes } from './presentation/routes/supplierRoutes';
+import { MongoPurchaseOrderRepository } from './infrastructure/repositories/MongoPurchaseOrderRepository';
+import { PurchaseOrderUseCases } from './application/usecases/PurchaseOrderUseCases';
+import { PurchaseOrderController } from './presentation/controllers/PurchaseOrderController';
+import { createPurchaseOrderRoutes } from './presentation/routes/purchaseOrderRoutes';
+import { MongoMrpRunRepository } from './infrastructure/repositories/MongoMrpRunRepository';
+import { MrpUseCases } from './application/usecases/MrpUseCases';
+import { MrpController } from './presentation/controllers/MrpController';
+import { createMrpRoutes } from './presentation/routes/mrpRoutes';
+import { MongoReplenishmentSuggestionRepository } from './infrastructure/repositories/MongoReplenishmentSuggestionRepository';
+import { ReplenishmentUseCases } from './application/usecases/ReplenishmentUseCases';
+import { ReplenishmentController } from './presentation/controllers/ReplenishmentController';
+import { createReplenishmentRoutes } from './presentation/routes/replenishmentRoutes';
+import { MongoCustomerRepository } from './infrastructure/repositories/MongoCustomerRepository';
+import { CustomerUseCases } from './application/usecases/CustomerUseCases';
+import { CustomerController } from './presentation/controllers/CustomerController';
+import { createCustomerRoutes } from './presentation/routes/customerRoutes';
+import { MongoSalesOrderRepository } from './infrastructure/repositories/MongoSalesOrderRepository';
+import { SalesOrderUseCases } from './application/usecases/SalesOrderUseCases';
+import { SalesOrderController } from './presentation/controllers/SalesOrderController';
+import { createSalesOrderRoutes } from './presentation/routes/salesOrderRoutes';
+import { MongoShipmentRepository } from './infrastructure/repositories/MongoShipmentRepository';
+import { ShipmentUseCases } from './application/usecases/ShipmentUseCases';
+import { ShipmentController } from './presentation/controllers/ShipmentController';
+import { createShipmentRoutes } from './presentation/routes/shipmentRoutes';
+
+import { MongoUserRepository } from './infrastructure/repositories/MongoUserRepository';
+import { JwtTokenService } from './infrastructure/auth/JwtTokenService';
+import { UserUseCases } from './application/usecases/UserUseCases';
+import { UserController } from './presentation/controllers/UserController';
+import { createAuthRoutes } from './presentation/routes/authRoutes';
+import { createUserRoutes } from './presentation/routes/userRoutes';
+import { createAuthenticate, createSocketAuthenticate } from './presentation/middleware/auth';
 
 import { errorHandler, notFound } from './presentation/middleware/errorHandler';
 
@@ -48,17 +136,100 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+const userRepository = new MongoUserRepository();
+const tokenService = new JwtTokenService(process.env.JWT_SECRET, Number(process.env.JWT_EXPIRES_IN_HOURS) || 12);
+const userUseCases = new UserUseCases(userRepository, tokenService);
+const userController = new UserController(userUseCases);
+const authenticate = createAuthenticate(userUseCases);
+
 const inventoryRepository = new MongoInventoryRepository();
-const inventoryUseCases = new InventoryUseCases(inventoryRepository);
-const inventoryController = new InventoryController(inventoryUseCases);
+const stockMovementRepository = new MongoStockMovementRepository();
+const inventoryLotRepository = new MongoInventoryLotRepository();
+const warehouseRepository = new MongoWarehouseRepository();
+const binLocationRepository = new MongoBinLocationRepository();
+const locationStockRepository = new MongoLocationStockRepository();
+const warehouseUseCases = new WarehouseUseCases(warehouseRepository, binLocationRepository, locationStockRepository);
+const warehouseController = new WarehouseController(warehouseUseCases);
+// El punto de pedido se revisa tras cada bajada de stock (replenishmentUseCases se crea más abajo)
+const stockMovementUseCases = new StockMovementUseCases(stockMovementRepository, inventoryRepository, inventoryLotRepository, locationStockRepository, warehouseUseCases,
+  async (itemIds, performedBy) => { await replenishmentUseCases.checkItems(itemIds, performedBy); });
+const workCenterRepository = new MongoWorkCenterRepository();
+const workCenterUseCases = new WorkCenterUseCases(workCenterRepository, inventoryRepository);
+const routingUseCases = new RoutingUseCases(inventoryRepository, workCenterRepository);
+const workCenterController = new WorkCenterController(workCenterUseCases);
+const factoryCalendarRepository = new MongoFactoryCalendarRepository();
+const factoryCalendarUseCases = new FactoryCalendarUseCases(factoryCalendarRepository, process.env.PLANT_TIMEZONE || getSystemTimeZone());
+const factoryCalendarController = new FactoryCalendarController(factoryCalendarUseCases);
 
+const bomRevisionRepository = new MongoBomRevisionRepository();
+const bomRevisionUseCases = new BomRevisionUseCases(bomRevisionRepository, inventoryRepository);
 const productionCardRepository = new MongoProductionCardRepository();
-const productionCardUseCases = new ProductionCardUseCases(productionCardRepository, inventoryRepository);
-const productionCardController = new ProductionCardController(productionCardUseCases);
+const inventoryLotUseCases = new InventoryLotUseCases(inventoryLotRepository, stockMovementRepository, productionCardRepository);
+const inventoryLotController = new InventoryLotController(inventoryLotUseCases);
+const supplierRepository = new MongoSupplierRepository();
+const supplierUseCases = new SupplierUseCases(supplierRepository, inventoryRepository);
+const supplierController = new SupplierController(supplierUseCases);
+const purchaseOrderRepository = new MongoPurchaseOrderRepository();
+const purchaseOrderUseCases = new PurchaseOrderUseCases(purchaseOrderRepository, inventoryRepository, supplierUseCases, stockMovementUseCases);
+const purchaseOrderController = new PurchaseOrderController(purchaseOrderUseCases);
+const inventoryUseCases = new InventoryUseCases(inventoryRepository, stockMovementUseCases, bomRevisionUseCases, routingUseCases, inventoryLotUseCases, warehouseUseCases, supplierUseCases);
+const bomUseCases = new BomUseCases(inventoryRepository);
+const inventoryController = new InventoryController(inventoryUseCases, stockMovementUseCases, bomUseCases, bomRevisionUseCases);
 
 const manufacturingOrderRepository = new MongoManufacturingOrderRepository();
-const manufacturingOrderUseCases = new ManufacturingOrderUseCases(manufacturingOrderRepository, inventoryRepository, productionCardUseCases);
+const salesOrderRepository = new MongoSalesOrderRepository();
+const customerRepository = new MongoCustomerRepository();
+const customerUseCases = new CustomerUseCases(customerRepository, manufacturingOrderRepository, salesOrderRepository);
+const customerController = new CustomerController(customerUseCases);
+const materialRequirementsUseCases = new MaterialRequirementsUseCases(inventoryRepository, bomRevisionUseCases);
+
+// Las órdenes reservan sus materiales al iniciarse (por defecto) o al crearse
+const reservationTrigger = process.env.RESERVATION_TRIGGER === ReservationTrigger.ORDER_CREATED
+  ? ReservationTrigger.ORDER_CREATED
+  : ReservationTrigger.ORDER_STARTED;
+const stockReservationRepository = new MongoStockReservationRepository();
+const stockReservationUseCases = new StockReservationUseCases(stockReservationRepository, inventoryRepository, manufacturingOrderRepository, materialRequirementsUseCases, reservationTrigger);
+
+const backflushRepository = new MongoBackflushRepository();
+const backflushUseCases = new BackflushUseCases(backflushRepository, stockMovementUseCases, stockReservationUseCases, materialRequirementsUseCases);
+
+const laborEntryRepository = new MongoLaborEntryRepository();
+const downtimeReasonRepository = new MongoDowntimeReasonRepository();
+const downtimeUseCases = new DowntimeUseCases(downtimeReasonRepository, productionCardRepository, manufacturingOrderRepository);
+const downtimeController = new DowntimeController(downtimeUseCases);
+const inspectionPlanRepository = new MongoInspectionPlanRepository();
+const inspectionUseCases = new InspectionUseCases(inspectionPlanRepository, inventoryRepository, productionCardRepository);
+const inspectionController = new InspectionController(inspectionUseCases);
+const nonConformanceRepository = new MongoNonConformanceRepository();
+const serialUnitRepository = new MongoSerialUnitRepository();
+const serialUnitUseCases = new SerialUnitUseCases(serialUnitRepository, inventoryRepository, productionCardRepository, backflushUseCases, laborEntryRepository, nonConformanceRepository);
+const serialUnitController = new SerialUnitController(serialUnitUseCases);
+// Las unidades fabricadas para un pedido de venta se reservan al cliente (salesOrderUseCases se crea más abajo)
+const productionCardUseCases = new ProductionCardUseCases(productionCardRepository, inventoryRepository, backflushUseCases, stockReservationUseCases, routingUseCases, factoryCalendarUseCases, laborEntryRepository, downtimeUseCases, inspectionUseCases, serialUnitUseCases,
+  async (card) => { await salesOrderUseCases.reserveProducedUnit(card); });
+const productionScheduleUseCases = new ProductionScheduleUseCases(productionCardRepository, workCenterRepository, factoryCalendarUseCases);
+const productionCardController = new ProductionCardController(productionCardUseCases, productionScheduleUseCases);
+const laborUseCases = new LaborUseCases(laborEntryRepository, productionCardUseCases, factoryCalendarUseCases);
+const laborController = new LaborController(laborUseCases);
+const nonConformanceUseCases = new NonConformanceUseCases(nonConformanceRepository, productionCardRepository, backflushUseCases, stockMovementUseCases, laborEntryRepository);
+const nonConformanceController = new NonConformanceController(nonConformanceUseCases);
+
+const manufacturingOrderUseCases = new ManufacturingOrderUseCases(manufacturingOrderRepository, inventoryRepository, productionCardUseCases, materialRequirementsUseCases, stockReservationUseCases, bomRevisionUseCases, factoryCalendarUseCases, downtimeUseCases, customerUseCases);
 const manufacturingOrderController = new ManufacturingOrderController(manufacturingOrderUseCases);
+const salesOrderUseCases = new SalesOrderUseCases(salesOrderRepository, inventoryRepository, manufacturingOrderRepository, productionCardRepository, customerUseCases, manufacturingOrderUseCases);
+const salesOrderController = new SalesOrderController(salesOrderUseCases);
+const shipmentRepository = new MongoShipmentRepository();
+const shipmentUseCases = new ShipmentUseCases(shipmentRepository, salesOrderRepository, manufacturingOrderRepository, productionCardRepository,
+  serialUnitRepository, inventoryRepository, stockMovementUseCases, customerUseCases, salesOrderUseCases, process.env.COMPANY_NAME || 'bySIMMED');
+const shipmentController = new ShipmentController(shipmentUseCases);
+
+const mrpRunRepository = new MongoMrpRunRepository();
+const mrpUseCases = new MrpUseCases(mrpRunRepository, inventoryRepository, manufacturingOrderRepository, productionCardRepository, materialRequirementsUseCases, stockReservationUseCases, supplierUseCases, purchaseOrderUseCases, manufacturingOrderUseCases, factoryCalendarUseCases);
+const mrpController = new MrpController(mrpUseCases);
+
+const replenishmentSuggestionRepository = new MongoReplenishmentSuggestionRepository();
+const replenishmentUseCases = new ReplenishmentUseCases(replenishmentSuggestionRepository, inventoryRepository, purchaseOrderRepository, manufacturingOrderRepository, productionCardRepository, supplierUseCases, purchaseOrderUseCases, manufacturingOrderUseCases);
+const replenishmentController = new ReplenishmentController(replenishmentUseCases);
 
 // Health check endpoint - IMPORTANTE para Railway
 app.get('/health', (req, res) => {
@@ -81,13 +252,34 @@ app.get('/', (req, res) => {
   });
 });
 
-app.use('/api/inventory', createInventoryRoutes(inventoryController));
-app.use('/api/manufacturing-orders', createManufacturingOrderRoutes(manufacturingOrderController));
-app.use('/api/production-cards', createProductionCardRoutes(productionCardController));
+// Todas las rutas de la API salvo el login requieren sesión; los permisos por rol se aplican en cada router
+app.use('/api/auth', createAuthRoutes(userController, authenticate));
+app.use('/api/users', authenticate, createUserRoutes(userController));
+app.use('/api/inventory', authenticate, createInventoryRoutes(inventoryController));
+app.use('/api/manufacturing-orders', authenticate, createManufacturingOrderRoutes(manufacturingOrderController));
+app.use('/api/production-cards', authenticate, createProductionCardRoutes(productionCardController));
+app.use('/api/work-centers', authenticate, createWorkCenterRoutes(workCenterController));
+app.use('/api/factory-calendar', authenticate, createFactoryCalendarRoutes(factoryCalendarController));
+app.use('/api/labor', authenticate, createLaborRoutes(laborController));
+app.use('/api/downtime', authenticate, createDowntimeRoutes(downtimeController));
+app.use('/api/inspections', authenticate, createInspectionRoutes(inspectionController));
+app.use('/api/non-conformances', authenticate, createNonConformanceRoutes(nonConformanceController));
+app.use('/api/serials', authenticate, createSerialUnitRoutes(serialUnitController));
+app.use('/api/lots', authenticate, createInventoryLotRoutes(inventoryLotController));
+app.use('/api/warehouses', authenticate, createWarehouseRoutes(warehouseController));
+app.use('/api/suppliers', authenticate, createSupplierRoutes(supplierController));
+app.use('/api/purchase-orders', authenticate, createPurchaseOrderRoutes(purchaseOrderController));
+app.use('/api/mrp', authenticate, createMrpRoutes(mrpController));
+app.use('/api/replenishment', authenticate, createReplenishmentRoutes(replenishmentController));
+app.use('/api/customers', authenticate, createCustomerRoutes(customerController));
+app.use('/api/sales-orders', authenticate, createSalesOrderRoutes(salesOrderController));
+app.use('/api/shipments', authenticate, createShipmentRoutes(shipmentController));
 
 app.use(notFound);
 app.use(errorHandler);
 
+io.use(createSocketAuthenticate(userUseCases));
+
 io.on('connection', (socket) => {
   console.log(`Client connected: ${socket.id}`);
 
@@ -108,6 +300,22 @@ io.on('connection', (socket) => {
 const startServer = async () => {
   try {
     await connectDatabase(MONGODB_URI);
+    await userUseCases.ensureAdminUser(process.env.ADMIN_USERNAME || 'admin', process.env.ADMIN_PASSWORD);
+    // El stock anterior a los almacenes pasa al almacén por defecto
+    const placedItems = await stockMovementUseCases.placeUnlocatedStock();
+    if (placedItems > 0) {
+      console.log(`📦 Stock sin ubicación asignado al almacén por defecto: ${placedItems} artículos`);
+    }
+    // El antiguo campo de texto "supplier" pasa a registros de proveedor
+    const migratedItems = await supplierUseCases.migrateLegacySuppliers();
+    if (migratedItems > 0) {
+      console.log(`🏭 Proveedores migrados desde el campo de texto: ${migratedItems} artículos`);
+    }
+    // El antiguo texto libre "clientName" de las órdenes pasa a registros de cliente
+    const migratedOrders = await customerUseCases.migrateLegacyClients();
+    if (migratedOrders > 0) {
+      console.log(`🤝 Clientes migrados desde las órdenes de fabricación: ${migratedOrders} órdenes`);
+    }
 
     const host = '0.0.0.0';
     const port = parseInt(PORT as string, 10);
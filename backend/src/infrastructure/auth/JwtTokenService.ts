@@ -0,0 +1,78 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface TokenPayload {
+  sub: string; // id del usuario
+  username: string;
+  role: string;
+  iat: number;
+  exp: number;
+}
+
+export interface TokenService {
+  sign(payload: Omit<TokenPayload, 'iat' | 'exp'>): { token: string; expiresAt: Date };
+  verify(token: string): TokenPayload;
+}
+
+const base64UrlEncode = (value: Buffer | string): string =>
+  Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const base64UrlDecode = (value: string): string =>
+  Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+
+// JWT firmado con HS256
+export class JwtTokenService implements TokenService {
+  private secret: string;
+
+  constructor(secret: string | undefined, private expiresInHours: number = 12) {
+    if (!secret) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('JWT_SECRET es obligatorio en producción');
+      }
+      // Sin secreto configurado las sesiones solo duran lo que dure el proceso
+      console.warn('⚠️ JWT_SECRET no configurado: se usa un secreto temporal');
+      secret = randomBytes(32).toString('hex');
+    }
+    this.secret = secret;
+  }
+
+  sign(payload: Omit<TokenPayload, 'iat' | 'exp'>): { token: string; expiresAt: Date } {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + Math.round(this.expiresInHours * 3600);
+
+    const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const body = base64UrlEncode(JSON.stringify({ ...payload, iat: issuedAt, exp: expiresAt }));
+    const signature = this.signature(`${header}.${body}`);
+
+    return { token: `${header}.${body}.${signature}`, expiresAt: new Date(expiresAt * 1000) };
+  }
+
+  verify(token: string): TokenPayload {
+    const [header, body, signature] = token.split('.');
+    if (!header || !body || !signature) {
+      throw new Error('Token inválido');
+    }
+
+    const expected = Buffer.from(this.signature(`${header}.${body}`));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error('Token inválido');
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(base64UrlDecode(body));
+    } catch {
+      throw new Error('Token inválido');
+    }
+
+    if (!payload.exp || payload.exp * 1000 < Date.now()) {
+      throw new Error('La sesión ha expirado');
+    }
+
+    return payload;
+  }
+
+  private signature(data: string): string {
+    return base64UrlEncode(createHmac('sha256', this.secret).update(data).digest());
+  }
+}
@@ -0,0 +1,68 @@
+import { JwtTokenService } from '../JwtTokenService';
+
+const payload = { sub: 'user-1', username: 'planificador', role: 'planner' };
+
+// Sustituye un segmento del token (0 cabecera, 1 cuerpo, 2 firma)
+const replaceSegment = (token: string, index: number, value: string): string =>
+  token.split('.').map((segment, i) => (i === index ? value : segment)).join('.');
+
+const encode = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+describe('JwtTokenService', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('verifica un token firmado con el mismo secreto', () => {
+    const service = new JwtTokenService('secreto', 2);
+
+    const { token, expiresAt } = service.sign(payload);
+    const verified = service.verify(token);
+
+    expect(verified).toMatchObject(payload);
+    expect(verified.exp - verified.iat).toBe(2 * 3600);
+    expect(expiresAt.getTime()).toBe(verified.exp * 1000);
+  });
+
+  it('rechaza un token caducado', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T08:00:00Z'));
+    const service = new JwtTokenService('secreto', 1);
+    const { token } = service.sign(payload);
+
+    jest.setSystemTime(new Date('2026-03-01T08:59:59Z'));
+    expect(service.verify(token).sub).toBe('user-1');
+
+    jest.setSystemTime(new Date('2026-03-01T09:00:01Z'));
+    expect(() => service.verify(token)).toThrow('La sesión ha expirado');
+  });
+
+  it('rechaza un token con el cuerpo alterado', () => {
+    const service = new JwtTokenService('secreto');
+    const { token } = service.sign(payload);
+    const { iat, exp } = service.verify(token);
+
+    const tampered = replaceSegment(token, 1, encode({ ...payload, role: 'admin', iat, exp }));
+
+    expect(() => service.verify(tampered)).toThrow('Token inválido');
+  });
+
+  it('rechaza un token firmado con otro secreto o sin firma', () => {
+    const { token } = new JwtTokenService('otro secreto').sign(payload);
+    const service = new JwtTokenService('secreto');
+
+    expect(() => service.verify(token)).toThrow('Token inválido');
+    expect(() => service.verify(replaceSegment(token, 2, ''))).toThrow('Token inválido');
+    expect(() => service.verify('no-es-un-token')).toThrow('Token inválido');
+  });
+
+  it('exige JWT_SECRET en producción', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      expect(() => new JwtTokenService(undefined)).toThrow('JWT_SECRET es obligatorio en producción');
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
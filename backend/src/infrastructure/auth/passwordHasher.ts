@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+
+// Formato guardado: "scrypt$<salt>$<hash>" (hex)
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = await deriveKey(password, salt);
+  return `scrypt$${salt}$${derivedKey.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [algorithm, salt, hash] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const derivedKey = await deriveKey(password, salt);
+  return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+};
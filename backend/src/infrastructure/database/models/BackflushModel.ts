@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BackflushTrigger, BackflushStatus, BackflushLine } from '../../../domain/entities/Backflush';
+
+export interface BackflushDocument extends Document {
+  cardId: string;
+  orderId: string;
+  trigger: BackflushTrigger;
+  componentId?: string;
+  status: BackflushStatus;
+  lines: BackflushLine[];
+  reversalMovementIds?: string[];
+  reversalReason?: string;
+  reversedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const backflushLineSchema = new Schema({
+  itemId: {
+    type: String,
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  quantity: {
+    type: Number,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  movementId: {
+    type: String,
+    required: true,
+    ref: 'StockMovement'
+  },
+  lotId: {
+    type: String,
+    ref: 'InventoryLot'
+  },
+  lotNumber: {
+    type: String
+  }
+}, { _id: false });
+
+const backflushSchema = new Schema<BackflushDocument>({
+  cardId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  orderId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  trigger: {
+    type: String,
+    enum: Object.values(BackflushTrigger),
+    required: true
+  },
+  componentId: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: Object.values(BackflushStatus),
+    default: BackflushStatus.POSTED
+  },
+  lines: [backflushLineSchema],
+  reversalMovementIds: [{
+    type: String
+  }],
+  reversalReason: {
+    type: String,
+    trim: true
+  },
+  reversedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'backflushes'
+});
+
+backflushSchema.index({ cardId: 1, status: 1 });
+
+export const BackflushModel = mongoose.model<BackflushDocument>('Backflush', backflushSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface BinLocationDocument extends Document {
+  warehouseId: string;
+  code: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const binLocationSchema = new Schema<BinLocationDocument>({
+  warehouseId: {
+    type: String,
+    required: true,
+    ref: 'Warehouse',
+    index: true
+  },
+  code: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+  collection: 'bin_locations'
+});
+
+binLocationSchema.index({ warehouseId: 1, code: 1 }, { unique: true });
+
+export const BinLocationModel = mongoose.model<BinLocationDocument>('BinLocation', binLocationSchema);
@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BomRevisionStatus, BomRevisionComponentLine } from '../../../domain/entities/BomRevision';
+import { BillOfMaterial } from '../../../domain/entities/InventoryItem';
+
+export interface BomRevisionDocument extends Document {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  revisionNumber: number;
+  status: BomRevisionStatus;
+  componentLines: BomRevisionComponentLine[];
+  billOfMaterials: BillOfMaterial[];
+  effectiveFrom?: Date;
+  effectiveTo?: Date;
+  notes?: string;
+  createdBy?: string;
+  releasedBy?: string;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const revisionComponentLineSchema = new Schema({
+  componentId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  componentName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  componentSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const revisionMaterialSchema = new Schema({
+  materialId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  materialName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  materialSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  requiredQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  isOptional: {
+    type: Boolean,
+    default: false
+  },
+  notes: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+const bomRevisionSchema = new Schema<BomRevisionDocument>({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem',
+    index: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  revisionNumber: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  status: {
+    type: String,
+    enum: Object.values(BomRevisionStatus),
+    default: BomRevisionStatus.DRAFT
+  },
+  componentLines: {
+    type: [revisionComponentLineSchema],
+    default: []
+  },
+  billOfMaterials: {
+    type: [revisionMaterialSchema],
+    default: []
+  },
+  effectiveFrom: {
+    type: Date
+  },
+  effectiveTo: {
+    type: Date
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  createdBy: {
+    type: String,
+    trim: true
+  },
+  releasedBy: {
+    type: String,
+    trim: true
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'bom_revisions'
+});
+
+bomRevisionSchema.index({ itemId: 1, revisionNumber: 1 }, { unique: true });
+bomRevisionSchema.index({ itemId: 1, status: 1 });
+
+export const BomRevisionModel = mongoose.model<BomRevisionDocument>('BomRevision', bomRevisionSchema);
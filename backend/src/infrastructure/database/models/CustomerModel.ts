@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface CustomerDocument extends Document {
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  paymentTerms?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const customerSchema = new Schema<CustomerDocument>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  contactName: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: 200
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: 50
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  taxId: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  paymentTerms: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'customers'
+});
+
+customerSchema.index({ name: 1 });
+
+export const CustomerModel = mongoose.model<CustomerDocument>('Customer', customerSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { DowntimeCategory } from '../../../domain/entities/DowntimeReason';
+
+export interface DowntimeReasonDocument extends Document {
+  code: string;
+  name: string;
+  category: DowntimeCategory;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const downtimeReasonSchema = new Schema<DowntimeReasonDocument>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  category: {
+    type: String,
+    enum: Object.values(DowntimeCategory),
+    required: true,
+    default: DowntimeCategory.OTHER
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'downtime_reasons'
+});
+
+export const DowntimeReasonModel = mongoose.model<DowntimeReasonDocument>('DowntimeReason', downtimeReasonSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { WeekdaySchedule, CalendarHoliday, PlantClosure } from '../../../domain/entities/FactoryCalendar';
+
+export interface FactoryCalendarDocument extends Document {
+  name: string;
+  timezone?: string;
+  weekdays: WeekdaySchedule[];
+  holidays: CalendarHoliday[];
+  closures: PlantClosure[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const factoryCalendarSchema = new Schema<FactoryCalendarDocument>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  timezone: {
+    type: String,
+    trim: true
+  },
+  weekdays: [{
+    _id: false,
+    weekday: { type: Number, required: true, min: 0, max: 6 },
+    shifts: [{
+      _id: false,
+      name: { type: String, required: true, trim: true },
+      startTime: { type: String, required: true, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+      endTime: { type: String, required: true, match: /^([01]\d|2[0-3]):[0-5]\d$/ }
+    }]
+  }],
+  holidays: [{
+    _id: false,
+    date: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    name: { type: String, required: true, trim: true }
+  }],
+  closures: [{
+    _id: false,
+    startDate: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    endDate: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    reason: { type: String, required: true, trim: true }
+  }]
+}, {
+  timestamps: true,
+  collection: 'factory_calendars'
+});
+
+export const FactoryCalendarModel = mongoose.model<FactoryCalendarDocument>('FactoryCalendar', factoryCalendarSchema);
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { InspectionCheck, InspectionCheckType } from '../../../domain/entities/InspectionPlan';
+
+export interface InspectionPlanDocument extends Document {
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  name: string;
+  checks: InspectionCheck[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const inspectionCheckSchema = new Schema({
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  type: {
+    type: String,
+    enum: Object.values(InspectionCheckType),
+    required: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  nominalValue: { type: Number },
+  minValue: { type: Number },
+  maxValue: { type: Number },
+  unit: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+// Resultados guardados en la tarjeta (ver ProductionCardModel)
+export const inspectionRecordSchema = new Schema({
+  planId: { type: String, required: true, ref: 'InspectionPlan' },
+  planName: { type: String, required: true },
+  results: [{
+    sequence: { type: Number, required: true },
+    name: { type: String, required: true },
+    type: { type: String, enum: Object.values(InspectionCheckType), required: true },
+    passed: { type: Boolean, required: true },
+    measuredValue: { type: Number },
+    minValue: { type: Number },
+    maxValue: { type: Number },
+    unit: { type: String },
+    notes: { type: String }
+  }],
+  passed: { type: Boolean, required: true },
+  notes: { type: String },
+  inspectedBy: { type: String },
+  inspectedAt: { type: Date, required: true },
+  acceptedByNcr: { type: String }
+}, { _id: false });
+
+const inspectionPlanSchema = new Schema<InspectionPlanDocument>({
+  modelId: {
+    type: String,
+    required: true,
+    unique: true,
+    ref: 'InventoryItem'
+  },
+  modelName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  modelSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  checks: {
+    type: [inspectionCheckSchema],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'inspection_plans'
+});
+
+export const InspectionPlanModel = mongoose.model<InspectionPlanDocument>('InspectionPlan', inspectionPlanSchema);
@@ -1,5 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { InventoryItem, InventoryType, InventoryStatus, BillOfMaterial } from '../../../domain/entities/InventoryItem';
+import { InventoryItem, InventoryType, InventoryStatus, BillOfMaterial, ComponentLine, RoutingOperation } from '../../../domain/entities/InventoryItem';
+import { LotPickingPolicy } from '../../../domain/entities/InventoryLot';
+import { ItemSupplier } from '../../../domain/entities/Supplier';
 
 export interface InventoryItemDocument extends Document {
   name: string;
@@ -7,6 +9,7 @@ export interface InventoryItemDocument extends Document {
   type: InventoryType;
   sku: string;
   quantity: number;
+  reserved: number;
   unit: string;
   unitPrice: number;
   status: InventoryStatus;
@@ -14,12 +17,18 @@ export interface InventoryItemDocument extends Document {
   maximumStock: number;
   location: string;
   supplier?: string;
+  suppliers?: ItemSupplier[]; // proveedores con sus condiciones de compra
   // Campos para fabricación (solo para modelos)
   estimatedManufacturingTime?: number; // tiempo estimado en horas
   components?: string[]; // IDs de componentes necesarios
+  componentLines?: ComponentLine[]; // componentes con cantidad por unidad
   canManufacture?: boolean; // si este item se puede fabricar
   // Lista de materiales (BOM) para componentes
   billOfMaterials?: BillOfMaterial[]; // materiales necesarios para fabricar este componente
+  routing?: RoutingOperation[]; // operaciones de la ruta de fabricación
+  serialPattern?: string; // patrón del número de serie (solo modelos)
+  isLotControlled?: boolean; // control por lotes (solo materiales)
+  lotPickingPolicy?: LotPickingPolicy;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,6 +70,81 @@ const billOfMaterialSchema = new Schema({
   }
 }, { _id: false });
 
+// Esquema para líneas de componentes (BOM multinivel)
+const componentLineSchema = new Schema({
+  componentId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 1
+  }
+}, { _id: false });
+
+// Esquema para operaciones de la ruta de fabricación
+const routingOperationSchema = new Schema({
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  workCenterId: {
+    type: String,
+    required: true,
+    ref: 'WorkCenter'
+  },
+  setupMinutes: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  runMinutesPerUnit: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  description: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+// Esquema para las condiciones de compra de cada proveedor
+const itemSupplierSchema = new Schema({
+  supplierId: {
+    type: String,
+    required: true,
+    ref: 'Supplier'
+  },
+  supplierSku: {
+    type: String,
+    trim: true
+  },
+  unitPrice: {
+    type: Number,
+    min: 0
+  },
+  minimumOrderQuantity: {
+    type: Number,
+    min: 0
+  },
+  isPreferred: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
 const inventoryItemSchema = new Schema<InventoryItemDocument>({
   name: {
     type: String,
@@ -93,6 +177,12 @@ const inventoryItemSchema = new Schema<InventoryItemDocument>({
     min: 0,
     default: 0
   },
+  // Cantidad comprometida con órdenes de fabricación (puede superar la cantidad física)
+  reserved: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
   unit: {
     type: String,
     required: true,
@@ -133,6 +223,7 @@ const inventoryItemSchema = new Schema<InventoryItemDocument>({
     trim: true,
     index: true
   },
+  suppliers: [itemSupplierSchema],
   // Campos para fabricación (solo para modelos)
   estimatedManufacturingTime: {
     type: Number,
@@ -140,13 +231,29 @@ const inventoryItemSchema = new Schema<InventoryItemDocument>({
   },
   components: {
     type: [String],
-    default: []
+    default: [],
+    index: true
   },
+  componentLines: [componentLineSchema],
   canManufacture: {
     type: Boolean,
     default: false
   },
-  billOfMaterials: [billOfMaterialSchema]
+  billOfMaterials: [billOfMaterialSchema],
+  routing: [routingOperationSchema],
+  serialPattern: {
+    type: String,
+    trim: true
+  },
+  isLotControlled: {
+    type: Boolean,
+    default: false
+  },
+  lotPickingPolicy: {
+    type: String,
+    enum: Object.values(LotPickingPolicy),
+    default: LotPickingPolicy.FEFO
+  }
 }, {
   timestamps: true,
   collection: 'inventory_items'
@@ -155,9 +262,13 @@ const inventoryItemSchema = new Schema<InventoryItemDocument>({
 inventoryItemSchema.index({ name: 'text', description: 'text', sku: 'text' });
 inventoryItemSchema.index({ type: 1, status: 1 });
 inventoryItemSchema.index({ location: 1, type: 1 });
+inventoryItemSchema.index({ 'componentLines.componentId': 1 });
+inventoryItemSchema.index({ 'billOfMaterials.materialId': 1 });
+inventoryItemSchema.index({ 'routing.workCenterId': 1 });
+inventoryItemSchema.index({ 'suppliers.supplierId': 1 });
 
 inventoryItemSchema.virtual('isLowStock').get(function() {
-  return this.quantity <= this.minimumStock;
+  return this.quantity - (this.reserved || 0) <= this.minimumStock;
 });
 
 inventoryItemSchema.virtual('isOverStock').get(function() {
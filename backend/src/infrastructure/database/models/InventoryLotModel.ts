@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface InventoryLotDocument extends Document {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  lotNumber: string;
+  supplierLot?: string;
+  supplier?: string;
+  receivedDate: Date;
+  expiryDate?: Date;
+  initialQuantity: number;
+  quantity: number;
+  unit: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const inventoryLotSchema = new Schema<InventoryLotDocument>({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem',
+    index: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  lotNumber: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  supplierLot: {
+    type: String,
+    trim: true
+  },
+  supplier: {
+    type: String,
+    trim: true
+  },
+  receivedDate: {
+    type: Date,
+    required: true
+  },
+  expiryDate: {
+    type: Date
+  },
+  initialQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  }
+}, {
+  timestamps: true,
+  collection: 'inventory_lots'
+});
+
+inventoryLotSchema.index({ itemId: 1, lotNumber: 1 }, { unique: true });
+inventoryLotSchema.index({ itemId: 1, quantity: 1, expiryDate: 1 });
+inventoryLotSchema.index({ expiryDate: 1 });
+
+export const InventoryLotModel = mongoose.model<InventoryLotDocument>('InventoryLot', inventoryLotSchema);
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface LaborEntryDocument extends Document {
+  userId: string;
+  username: string;
+  userName: string;
+  cardId: string;
+  orderId: string;
+  orderName: string;
+  cardLabel: string;
+  componentId?: string;
+  componentName?: string;
+  startTime: Date;
+  endTime?: Date;
+  minutes: number;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const laborEntrySchema = new Schema<LaborEntryDocument>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  username: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  userName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  cardId: {
+    type: String,
+    required: true,
+    ref: 'ProductionCard',
+    index: true
+  },
+  orderId: {
+    type: String,
+    required: true,
+    ref: 'ManufacturingOrder',
+    index: true
+  },
+  orderName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  cardLabel: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  componentId: {
+    type: String
+  },
+  componentName: {
+    type: String,
+    trim: true
+  },
+  startTime: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  endTime: {
+    type: Date
+  },
+  minutes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  }
+}, {
+  timestamps: true,
+  collection: 'labor_entries'
+});
+
+// Fichajes abiertos por operario y por tarjeta
+laborEntrySchema.index({ userId: 1, endTime: 1 });
+laborEntrySchema.index({ cardId: 1, endTime: 1 });
+
+export const LaborEntryModel = mongoose.model<LaborEntryDocument>('LaborEntry', laborEntrySchema);
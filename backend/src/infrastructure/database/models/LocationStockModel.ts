@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface LocationStockDocument extends Document {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  warehouseId: string;
+  warehouseCode: string;
+  binId?: string | null;
+  binCode?: string;
+  quantity: number;
+  unit: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const locationStockSchema = new Schema<LocationStockDocument>({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem',
+    index: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  warehouseId: {
+    type: String,
+    required: true,
+    ref: 'Warehouse',
+    index: true
+  },
+  warehouseCode: {
+    type: String,
+    required: true
+  },
+  // null (y no ausente) para que el índice único distinga "sin ubicación"
+  binId: {
+    type: String,
+    ref: 'BinLocation',
+    default: null
+  },
+  binCode: {
+    type: String
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, {
+  timestamps: true,
+  collection: 'location_stocks'
+});
+
+locationStockSchema.index({ itemId: 1, warehouseId: 1, binId: 1 }, { unique: true });
+locationStockSchema.index({ warehouseId: 1, binId: 1, quantity: 1 });
+
+export const LocationStockModel = mongoose.model<LocationStockDocument>('LocationStock', locationStockSchema);
@@ -1,5 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { ManufacturingOrder, ManufacturingOrderStatus, ComponentProgress, TimeTracker, MaterialUsage } from '../../../domain/entities/ManufacturingOrder';
+import { ManufacturingOrder, ManufacturingOrderStatus, ComponentProgress, TimeTracker, TimeSegmentKind, MaterialUsage } from '../../../domain/entities/ManufacturingOrder';
 
 export interface ManufacturingOrderDocument extends Document {
   modelId: string;
@@ -7,10 +7,14 @@ export interface ManufacturingOrderDocument extends Document {
   modelSku: string;
   quantity: number;
   clientName: string;
+  customerId?: string;
+  salesOrderId?: string;
+  deliveredQuantity: number;
   dueDate: Date;
   createdDate: Date;
   status: ManufacturingOrderStatus;
   components: ComponentProgress[];
+  bomRevisionId?: string;
   notes?: string;
   estimatedHours: number;
   startedAt?: Date;
@@ -20,6 +24,20 @@ export interface ManufacturingOrderDocument extends Document {
   updatedAt: Date;
 }
 
+// Esquema para cada tramo de trabajo o pausa del cronómetro (las pausas llevan su motivo)
+export const timeSegmentSchema = new Schema({
+  kind: { type: String, enum: Object.values(TimeSegmentKind), required: true },
+  startTime: { type: Date, required: true },
+  endTime: { type: Date },
+  reasonCode: { type: String, uppercase: true, trim: true },
+  reasonName: { type: String, trim: true },
+  category: { type: String },
+  notes: { type: String, trim: true, maxlength: 500 },
+  workCenterId: { type: String },
+  workCenterName: { type: String },
+  pausedBy: { type: String }
+}, { _id: false });
+
 // Esquema para seguimiento de tiempo
 const timeTrackerSchema = new Schema({
   startTime: {
@@ -48,6 +66,10 @@ const timeTrackerSchema = new Schema({
     required: true,
     default: 0,
     min: 0
+  },
+  segments: {
+    type: [timeSegmentSchema],
+    default: undefined
   }
 }, { _id: false });
 
@@ -112,6 +134,10 @@ const componentProgressSchema = new Schema({
     required: true,
     trim: true
   },
+  bomRevisionId: {
+    type: String,
+    ref: 'BomRevision'
+  },
   quantityRequired: {
     type: Number,
     required: true,
@@ -167,6 +193,21 @@ const manufacturingOrderSchema = new Schema<ManufacturingOrderDocument>({
     maxlength: 200,
     index: true
   },
+  customerId: {
+    type: String,
+    ref: 'Customer',
+    index: true
+  },
+  salesOrderId: {
+    type: String,
+    ref: 'SalesOrder',
+    index: true
+  },
+  deliveredQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
   dueDate: {
     type: Date,
     required: true,
@@ -185,6 +226,11 @@ const manufacturingOrderSchema = new Schema<ManufacturingOrderDocument>({
     index: true
   },
   components: [componentProgressSchema],
+  bomRevisionId: {
+    type: String,
+    ref: 'BomRevision',
+    index: true
+  },
   notes: {
     type: String,
     trim: true,
@@ -0,0 +1,186 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { InventoryType } from '../../../domain/entities/InventoryItem';
+import {
+  MrpItemPlan,
+  PlannedOrder,
+  PlannedOrderStatus,
+  PlannedOrderType
+} from '../../../domain/entities/Mrp';
+
+export interface MrpRunDocument extends Document {
+  runAt: Date;
+  runBy?: string;
+  items: MrpItemPlan[];
+  plannedOrders: PlannedOrder[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const mrpPeriodSchema = new Schema({
+  date: {
+    type: Date,
+    required: true
+  },
+  grossRequirement: {
+    type: Number,
+    default: 0
+  },
+  scheduledReceipts: {
+    type: Number,
+    default: 0
+  },
+  plannedReceipts: {
+    type: Number,
+    default: 0
+  },
+  projectedAvailable: {
+    type: Number,
+    default: 0
+  },
+  netRequirement: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const mrpItemPlanSchema = new Schema({
+  itemId: {
+    type: String,
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  itemSku: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: Object.values(InventoryType),
+    required: true
+  },
+  lowLevelCode: {
+    type: Number,
+    default: 0
+  },
+  onHand: {
+    type: Number,
+    default: 0
+  },
+  reserved: {
+    type: Number,
+    default: 0
+  },
+  minimumStock: {
+    type: Number,
+    default: 0
+  },
+  maximumStock: {
+    type: Number,
+    default: 0
+  },
+  leadTimeDays: {
+    type: Number,
+    default: 0
+  },
+  periods: [mrpPeriodSchema]
+}, { _id: false });
+
+const plannedOrderSchema = new Schema({
+  number: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  type: {
+    type: String,
+    enum: Object.values(PlannedOrderType),
+    required: true
+  },
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  itemSku: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  releaseDate: {
+    type: Date,
+    required: true
+  },
+  dueDate: {
+    type: Date,
+    required: true
+  },
+  isLate: {
+    type: Boolean,
+    default: false
+  },
+  supplierId: {
+    type: String,
+    ref: 'Supplier'
+  },
+  supplierName: {
+    type: String
+  },
+  sources: {
+    type: [String],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: Object.values(PlannedOrderStatus),
+    default: PlannedOrderStatus.PLANNED
+  },
+  firmedAt: {
+    type: Date
+  },
+  firmedBy: {
+    type: String
+  },
+  firmedReferenceId: {
+    type: String
+  },
+  firmedReference: {
+    type: String
+  }
+}, { _id: false });
+
+const mrpRunSchema = new Schema<MrpRunDocument>({
+  runAt: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  runBy: {
+    type: String
+  },
+  items: [mrpItemPlanSchema],
+  plannedOrders: [plannedOrderSchema]
+}, {
+  timestamps: true,
+  collection: 'mrp_runs'
+});
+
+export const MrpRunModel = mongoose.model<MrpRunDocument>('MrpRun', mrpRunSchema);
@@ -0,0 +1,116 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  DefectType,
+  NonConformanceComponent,
+  NonConformanceDisposition,
+  NonConformanceStatus
+} from '../../../domain/entities/NonConformance';
+
+export interface NonConformanceDocument extends Document {
+  ncrNumber: number;
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  modelId: string;
+  modelName: string;
+  defectType: DefectType;
+  description: string;
+  affectedComponents: NonConformanceComponent[];
+  status: NonConformanceStatus;
+  disposition?: NonConformanceDisposition;
+  dispositionNotes?: string;
+  reworkCardId?: string;
+  scrapMovementIds?: string[];
+  reportedBy?: string;
+  dispositionedBy?: string;
+  dispositionedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const nonConformanceSchema = new Schema<NonConformanceDocument>({
+  ncrNumber: {
+    type: Number,
+    required: true,
+    unique: true,
+    min: 1
+  },
+  cardId: {
+    type: String,
+    required: true,
+    ref: 'ProductionCard',
+    index: true
+  },
+  cardLabel: {
+    type: String,
+    required: true
+  },
+  orderId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  modelId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  modelName: {
+    type: String,
+    required: true
+  },
+  defectType: {
+    type: String,
+    enum: Object.values(DefectType),
+    required: true
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 2000
+  },
+  affectedComponents: [{
+    componentId: { type: String, required: true },
+    componentName: { type: String, required: true },
+    componentSku: { type: String, required: true }
+  }],
+  status: {
+    type: String,
+    enum: Object.values(NonConformanceStatus),
+    default: NonConformanceStatus.OPEN,
+    index: true
+  },
+  disposition: {
+    type: String,
+    enum: Object.values(NonConformanceDisposition)
+  },
+  dispositionNotes: {
+    type: String,
+    trim: true
+  },
+  reworkCardId: {
+    type: String,
+    ref: 'ProductionCard'
+  },
+  scrapMovementIds: {
+    type: [String],
+    default: undefined
+  },
+  reportedBy: {
+    type: String
+  },
+  dispositionedBy: {
+    type: String
+  },
+  dispositionedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'non_conformances'
+});
+
+nonConformanceSchema.index({ modelId: 1, createdAt: -1 });
+
+export const NonConformanceModel = mongoose.model<NonConformanceDocument>('NonConformance', nonConformanceSchema);
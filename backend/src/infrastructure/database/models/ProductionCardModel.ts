@@ -1,6 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { ProductionCard, ProductionCardStatus, ProductionCardPriority } from '../../../domain/entities/ProductionCard';
-import { ComponentProgress, TimeTracker } from '../../../domain/entities/ManufacturingOrder';
+import { ComponentProgress, TimeTracker, OperationProgress, OperationStatus } from '../../../domain/entities/ManufacturingOrder';
+import { timeSegmentSchema } from './ManufacturingOrderModel';
+import { inspectionRecordSchema } from './InspectionPlanModel';
+import { InspectionRecord } from '../../../domain/entities/InspectionPlan';
 
 export interface ProductionCardDocument extends Document {
   orderId: string;
@@ -15,11 +18,22 @@ export interface ProductionCardDocument extends Document {
   status: ProductionCardStatus;
   priority: ProductionCardPriority;
   components: ComponentProgress[];
+  operations?: OperationProgress[];
+  bomRevisionId?: string;
   notes?: string;
   estimatedHours: number;
   startedAt?: Date;
   completedAt?: Date;
   timeTracker?: TimeTracker;
+  plannedStart?: Date;
+  plannedFinish?: Date;
+  willMissDueDate?: boolean;
+  scheduledAt?: Date;
+  pinnedStart?: Date;
+  inspections?: InspectionRecord[];
+  reworkOfCardId?: string;
+  nonConformanceId?: string;
+  serialNumber?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -99,6 +113,9 @@ const productionCardSchema = new Schema<ProductionCardDocument>({
       type: String,
       required: true
     },
+    bomRevisionId: {
+      type: String
+    },
     quantityRequired: {
       type: Number,
       required: true,
@@ -128,7 +145,8 @@ const productionCardSchema = new Schema<ProductionCardDocument>({
         totalTimeMinutes: { type: Number, default: 0 },
         isPaused: { type: Boolean, default: false },
         pauseStartTime: { type: Date },
-        totalPauseMinutes: { type: Number, default: 0 }
+        totalPauseMinutes: { type: Number, default: 0 },
+        segments: { type: [timeSegmentSchema], default: undefined }
       },
       required: false,
       default: undefined
@@ -142,9 +160,43 @@ const productionCardSchema = new Schema<ProductionCardDocument>({
       unit: { type: String, required: true },
       notes: { type: String },
       adjustedBy: { type: String },
-      adjustedAt: { type: Date }
+      adjustedAt: { type: Date },
+      lots: {
+        type: [{
+          lotId: { type: String, required: true, ref: 'InventoryLot' },
+          lotNumber: { type: String, required: true },
+          quantity: { type: Number, required: true },
+          expiryDate: { type: Date }
+        }],
+        default: undefined
+      }
     }]
   }],
+  operations: [{
+    operationId: { type: String, required: true },
+    sequence: { type: Number, required: true },
+    name: { type: String, required: true },
+    itemId: { type: String, required: true },
+    itemName: { type: String, required: true },
+    componentId: { type: String },
+    workCenterId: { type: String, required: true, ref: 'WorkCenter' },
+    workCenterName: { type: String, required: true },
+    plannedSetupMinutes: { type: Number, required: true, min: 0 },
+    plannedRunMinutes: { type: Number, required: true, min: 0 },
+    status: {
+      type: String,
+      enum: Object.values(OperationStatus),
+      default: OperationStatus.PENDING
+    },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    plannedStart: { type: Date },
+    plannedFinish: { type: Date }
+  }],
+  bomRevisionId: {
+    type: String,
+    ref: 'BomRevision'
+  },
   notes: {
     type: String,
     trim: true
@@ -166,7 +218,40 @@ const productionCardSchema = new Schema<ProductionCardDocument>({
     totalTimeMinutes: { type: Number, default: 0 },
     isPaused: { type: Boolean, default: false },
     pauseStartTime: { type: Date },
-    totalPauseMinutes: { type: Number, default: 0 }
+    totalPauseMinutes: { type: Number, default: 0 },
+    segments: { type: [timeSegmentSchema], default: undefined }
+  },
+  plannedStart: {
+    type: Date
+  },
+  plannedFinish: {
+    type: Date
+  },
+  willMissDueDate: {
+    type: Boolean
+  },
+  scheduledAt: {
+    type: Date
+  },
+  pinnedStart: {
+    type: Date
+  },
+  inspections: {
+    type: [inspectionRecordSchema],
+    default: undefined
+  },
+  reworkOfCardId: {
+    type: String,
+    ref: 'ProductionCard',
+    index: true
+  },
+  nonConformanceId: {
+    type: String,
+    ref: 'NonConformance'
+  },
+  serialNumber: {
+    type: String,
+    index: true
   }
 }, {
   timestamps: true,
@@ -179,5 +264,6 @@ productionCardSchema.index({ status: 1, dueDate: 1 });
 productionCardSchema.index({ modelId: 1, status: 1 });
 productionCardSchema.index({ priority: 1, dueDate: 1 });
 productionCardSchema.index({ status: 1, priority: 1, dueDate: 1 });
+productionCardSchema.index({ status: 1, plannedStart: 1 });
 
 export const ProductionCardModel = mongoose.model<ProductionCardDocument>('ProductionCard', productionCardSchema);
\ No newline at end of file
@@ -0,0 +1,170 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  PurchaseReceipt
+} from '../../../domain/entities/PurchaseOrder';
+
+export interface PurchaseOrderDocument extends Document {
+  poNumber: number;
+  supplierId: string;
+  supplierCode: string;
+  supplierName: string;
+  currency: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: Date;
+  notes?: string;
+  receipts: PurchaseReceipt[];
+  createdBy?: string;
+  sentAt?: Date;
+  receivedAt?: Date;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const purchaseOrderLineSchema = new Schema({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  itemSku: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  supplierSku: {
+    type: String,
+    trim: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  receivedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  unitPrice: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  expectedDate: {
+    type: Date
+  }
+}, { _id: false });
+
+const purchaseReceiptLineSchema = new Schema({
+  itemId: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  movementIds: {
+    type: [String],
+    default: []
+  },
+  lotNumber: {
+    type: String
+  }
+}, { _id: false });
+
+const purchaseReceiptSchema = new Schema({
+  receivedAt: {
+    type: Date,
+    required: true
+  },
+  receivedBy: {
+    type: String
+  },
+  warehouseId: {
+    type: String
+  },
+  binId: {
+    type: String
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  lines: [purchaseReceiptLineSchema]
+}, { _id: false });
+
+const purchaseOrderSchema = new Schema<PurchaseOrderDocument>({
+  poNumber: {
+    type: Number,
+    required: true,
+    unique: true,
+    min: 1
+  },
+  supplierId: {
+    type: String,
+    required: true,
+    ref: 'Supplier',
+    index: true
+  },
+  supplierCode: {
+    type: String,
+    required: true
+  },
+  supplierName: {
+    type: String,
+    required: true
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  status: {
+    type: String,
+    enum: Object.values(PurchaseOrderStatus),
+    default: PurchaseOrderStatus.DRAFT,
+    index: true
+  },
+  lines: [purchaseOrderLineSchema],
+  expectedDate: {
+    type: Date
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  receipts: [purchaseReceiptSchema],
+  createdBy: {
+    type: String
+  },
+  sentAt: {
+    type: Date
+  },
+  receivedAt: {
+    type: Date
+  },
+  closedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'purchase_orders'
+});
+
+purchaseOrderSchema.index({ 'lines.itemId': 1, status: 1 });
+
+export const PurchaseOrderModel = mongoose.model<PurchaseOrderDocument>('PurchaseOrder', purchaseOrderSchema);
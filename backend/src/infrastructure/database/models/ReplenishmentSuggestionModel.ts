@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PlannedOrderType } from '../../../domain/entities/Mrp';
+import { ReplenishmentStatus } from '../../../domain/entities/ReplenishmentSuggestion';
+
+export interface ReplenishmentSuggestionDocument extends Document {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  type: PlannedOrderType;
+  available: number;
+  onOrder: number;
+  minimumStock: number;
+  maximumStock: number;
+  suggestedQuantity: number;
+  supplierId?: string;
+  supplierName?: string;
+  status: ReplenishmentStatus;
+  triggeredBy?: string;
+  approvedQuantity?: number;
+  approvedAt?: Date;
+  approvedBy?: string;
+  dismissedAt?: Date;
+  dismissedBy?: string;
+  referenceId?: string;
+  reference?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const replenishmentSuggestionSchema = new Schema<ReplenishmentSuggestionDocument>({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  itemSku: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: Object.values(PlannedOrderType),
+    required: true
+  },
+  available: {
+    type: Number,
+    default: 0
+  },
+  onOrder: {
+    type: Number,
+    default: 0
+  },
+  minimumStock: {
+    type: Number,
+    default: 0
+  },
+  maximumStock: {
+    type: Number,
+    default: 0
+  },
+  suggestedQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  supplierId: {
+    type: String,
+    ref: 'Supplier'
+  },
+  supplierName: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: Object.values(ReplenishmentStatus),
+    default: ReplenishmentStatus.PENDING,
+    index: true
+  },
+  triggeredBy: {
+    type: String
+  },
+  approvedQuantity: {
+    type: Number,
+    min: 0
+  },
+  approvedAt: {
+    type: Date
+  },
+  approvedBy: {
+    type: String
+  },
+  dismissedAt: {
+    type: Date
+  },
+  dismissedBy: {
+    type: String
+  },
+  referenceId: {
+    type: String
+  },
+  reference: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'replenishment_suggestions'
+});
+
+// Solo puede haber una sugerencia pendiente por artículo
+replenishmentSuggestionSchema.index(
+  { itemId: 1 },
+  { unique: true, partialFilterExpression: { status: ReplenishmentStatus.PENDING } }
+);
+
+export const ReplenishmentSuggestionModel = mongoose.model<ReplenishmentSuggestionDocument>('ReplenishmentSuggestion', replenishmentSuggestionSchema);
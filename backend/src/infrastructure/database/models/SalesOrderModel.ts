@@ -0,0 +1,139 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SalesOrderLine, SalesOrderStatus } from '../../../domain/entities/SalesOrder';
+
+export interface SalesOrderDocument extends Document {
+  soNumber: number;
+  customerId: string;
+  customerCode: string;
+  customerName: string;
+  customerReference?: string;
+  status: SalesOrderStatus;
+  lines: SalesOrderLine[];
+  requestedDate: Date;
+  notes?: string;
+  createdBy?: string;
+  confirmedAt?: Date;
+  confirmedBy?: string;
+  cancelledAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const salesOrderLineSchema = new Schema({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  itemSku: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  unitPrice: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  dueDate: {
+    type: Date
+  },
+  fromStockQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  reservedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  deliveredQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  manufacturingOrderIds: {
+    type: [String],
+    default: []
+  }
+}, { _id: false });
+
+const salesOrderSchema = new Schema<SalesOrderDocument>({
+  soNumber: {
+    type: Number,
+    required: true,
+    unique: true,
+    min: 1
+  },
+  customerId: {
+    type: String,
+    required: true,
+    ref: 'Customer',
+    index: true
+  },
+  customerCode: {
+    type: String,
+    required: true
+  },
+  customerName: {
+    type: String,
+    required: true
+  },
+  customerReference: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  status: {
+    type: String,
+    enum: Object.values(SalesOrderStatus),
+    default: SalesOrderStatus.DRAFT,
+    index: true
+  },
+  lines: [salesOrderLineSchema],
+  requestedDate: {
+    type: Date,
+    required: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  createdBy: {
+    type: String
+  },
+  confirmedAt: {
+    type: Date
+  },
+  confirmedBy: {
+    type: String
+  },
+  cancelledAt: {
+    type: Date
+  },
+  deliveredAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'sales_orders'
+});
+
+salesOrderSchema.index({ 'lines.itemId': 1, status: 1 });
+
+export const SalesOrderModel = mongoose.model<SalesOrderDocument>('SalesOrder', salesOrderSchema);
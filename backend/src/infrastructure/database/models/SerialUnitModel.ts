@@ -0,0 +1,142 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  SerialUnitComponent,
+  SerialUnitMaterial,
+  SerialUnitNonConformance,
+  SerialUnitOperator,
+  SerialUnitShipment
+} from '../../../domain/entities/SerialUnit';
+import { InspectionRecord } from '../../../domain/entities/InspectionPlan';
+import { DefectType, NonConformanceDisposition, NonConformanceStatus } from '../../../domain/entities/NonConformance';
+import { inspectionRecordSchema } from './InspectionPlanModel';
+
+export interface SerialUnitDocument extends Document {
+  serialNumber: string;
+  sequence: number;
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  orderName: string;
+  reworkOfCardIds?: string[];
+  components: SerialUnitComponent[];
+  materials: SerialUnitMaterial[];
+  operators: SerialUnitOperator[];
+  inspections: InspectionRecord[];
+  nonConformances: SerialUnitNonConformance[];
+  producedAt: Date;
+  producedBy?: string;
+  shipment?: SerialUnitShipment;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const serialUnitSchema = new Schema<SerialUnitDocument>({
+  serialNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  modelId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem',
+    index: true
+  },
+  modelName: {
+    type: String,
+    required: true
+  },
+  modelSku: {
+    type: String,
+    required: true
+  },
+  cardId: {
+    type: String,
+    required: true,
+    ref: 'ProductionCard',
+    unique: true
+  },
+  cardLabel: {
+    type: String,
+    required: true
+  },
+  orderId: {
+    type: String,
+    required: true,
+    ref: 'ManufacturingOrder',
+    index: true
+  },
+  orderName: {
+    type: String,
+    required: true
+  },
+  reworkOfCardIds: {
+    type: [String],
+    default: undefined
+  },
+  components: [{
+    componentId: { type: String, required: true },
+    componentName: { type: String, required: true },
+    componentSku: { type: String, required: true },
+    completedAt: { type: Date }
+  }],
+  materials: [{
+    itemId: { type: String, required: true },
+    itemName: { type: String, required: true },
+    itemSku: { type: String, required: true },
+    quantity: { type: Number, required: true },
+    unit: { type: String, required: true },
+    componentId: { type: String },
+    movementId: { type: String, required: true },
+    lotId: { type: String },
+    lotNumber: { type: String }
+  }],
+  operators: [{
+    userId: { type: String, required: true },
+    username: { type: String, required: true },
+    userName: { type: String, required: true },
+    minutes: { type: Number, required: true, min: 0 }
+  }],
+  inspections: [inspectionRecordSchema],
+  nonConformances: [{
+    nonConformanceId: { type: String, required: true },
+    ncrNumber: { type: Number, required: true },
+    defectType: { type: String, enum: Object.values(DefectType), required: true },
+    status: { type: String, enum: Object.values(NonConformanceStatus), required: true },
+    disposition: { type: String, enum: Object.values(NonConformanceDisposition) }
+  }],
+  producedAt: {
+    type: Date,
+    required: true
+  },
+  producedBy: {
+    type: String
+  },
+  shipment: {
+    type: {
+      shipmentId: { type: String, required: true },
+      shipmentNumber: { type: Number, required: true },
+      customerName: { type: String, required: true },
+      shippedAt: { type: Date, required: true }
+    },
+    default: undefined
+  }
+}, {
+  timestamps: true,
+  collection: 'serial_units'
+});
+
+serialUnitSchema.index({ modelId: 1, sequence: -1 });
+serialUnitSchema.index({ producedAt: -1 });
+serialUnitSchema.index({ 'shipment.shipmentId': 1 });
+
+export const SerialUnitModel = mongoose.model<SerialUnitDocument>('SerialUnit', serialUnitSchema);
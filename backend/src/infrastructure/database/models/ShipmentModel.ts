@@ -0,0 +1,157 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ShipmentLine, ShipmentSource, ShipmentStatus } from '../../../domain/entities/Shipment';
+
+export interface ShipmentDocument extends Document {
+  shipmentNumber: number;
+  sourceType: ShipmentSource;
+  salesOrderId?: string;
+  soNumber?: number;
+  manufacturingOrderId?: string;
+  customerId?: string;
+  customerCode?: string;
+  customerName: string;
+  customerReference?: string;
+  deliveryAddress?: string;
+  status: ShipmentStatus;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+  createdBy?: string;
+  shippedAt?: Date;
+  shippedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const shipmentSerialSchema = new Schema({
+  serialUnitId: {
+    type: String,
+    required: true,
+    ref: 'SerialUnit'
+  },
+  serialNumber: {
+    type: String,
+    required: true
+  },
+  orderId: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+const shipmentLineSchema = new Schema({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem'
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  itemSku: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  serials: {
+    type: [shipmentSerialSchema],
+    default: []
+  },
+  movementIds: {
+    type: [String],
+    default: []
+  }
+}, { _id: false });
+
+const shipmentSchema = new Schema<ShipmentDocument>({
+  shipmentNumber: {
+    type: Number,
+    required: true,
+    unique: true,
+    min: 1
+  },
+  sourceType: {
+    type: String,
+    enum: Object.values(ShipmentSource),
+    required: true
+  },
+  salesOrderId: {
+    type: String,
+    ref: 'SalesOrder',
+    index: true
+  },
+  soNumber: {
+    type: Number
+  },
+  manufacturingOrderId: {
+    type: String,
+    ref: 'ManufacturingOrder',
+    index: true
+  },
+  customerId: {
+    type: String,
+    ref: 'Customer',
+    index: true
+  },
+  customerCode: {
+    type: String
+  },
+  customerName: {
+    type: String,
+    required: true
+  },
+  customerReference: {
+    type: String
+  },
+  deliveryAddress: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  status: {
+    type: String,
+    enum: Object.values(ShipmentStatus),
+    default: ShipmentStatus.DRAFT,
+    index: true
+  },
+  lines: [shipmentLineSchema],
+  carrier: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  trackingNumber: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  createdBy: {
+    type: String
+  },
+  shippedAt: {
+    type: Date
+  },
+  shippedBy: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'shipments'
+});
+
+export const ShipmentModel = mongoose.model<ShipmentDocument>('Shipment', shipmentSchema);
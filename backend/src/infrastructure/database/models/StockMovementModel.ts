@@ -0,0 +1,145 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { StockMovementType, StockMovementReferenceType } from '../../../domain/entities/StockMovement';
+
+export interface StockMovementDocument extends Document {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  type: StockMovementType;
+  quantity: number;
+  balanceAfter: number;
+  unit: string;
+  reason: string;
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string;
+  warehouseId?: string;
+  warehouseCode?: string;
+  binId?: string;
+  binCode?: string;
+  toWarehouseId?: string;
+  toBinId?: string;
+  fromLocation?: string;
+  toLocation?: string;
+  transferredQuantity?: number;
+  reversalOf?: string;
+  lotId?: string;
+  lotNumber?: string;
+  performedBy?: string;
+  createdAt: Date;
+}
+
+const stockMovementSchema = new Schema<StockMovementDocument>({
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem',
+    index: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemSku: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true
+  },
+  type: {
+    type: String,
+    enum: Object.values(StockMovementType),
+    required: true,
+    index: true
+  },
+  quantity: {
+    type: Number,
+    required: true
+  },
+  balanceAfter: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  referenceType: {
+    type: String,
+    enum: Object.values(StockMovementReferenceType)
+  },
+  referenceId: {
+    type: String,
+    index: true
+  },
+  warehouseId: {
+    type: String,
+    ref: 'Warehouse',
+    index: true
+  },
+  warehouseCode: {
+    type: String
+  },
+  binId: {
+    type: String,
+    ref: 'BinLocation'
+  },
+  binCode: {
+    type: String
+  },
+  toWarehouseId: {
+    type: String,
+    ref: 'Warehouse'
+  },
+  toBinId: {
+    type: String,
+    ref: 'BinLocation'
+  },
+  fromLocation: {
+    type: String,
+    trim: true
+  },
+  toLocation: {
+    type: String,
+    trim: true
+  },
+  transferredQuantity: {
+    type: Number,
+    min: 0
+  },
+  reversalOf: {
+    type: String,
+    ref: 'StockMovement',
+    index: true
+  },
+  lotId: {
+    type: String,
+    ref: 'InventoryLot',
+    index: true
+  },
+  lotNumber: {
+    type: String,
+    trim: true
+  },
+  performedBy: {
+    type: String,
+    trim: true
+  }
+}, {
+  // Los movimientos son inmutables: solo se registra la fecha de creación
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'stock_movements'
+});
+
+stockMovementSchema.index({ itemId: 1, createdAt: -1 });
+stockMovementSchema.index({ referenceType: 1, referenceId: 1 });
+
+export const StockMovementModel = mongoose.model<StockMovementDocument>('StockMovement', stockMovementSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { StockReservationStatus } from '../../../domain/entities/StockReservation';
+
+export interface StockReservationDocument extends Document {
+  orderId: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number;
+  consumedQuantity: number;
+  status: StockReservationStatus;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const stockReservationSchema = new Schema<StockReservationDocument>({
+  orderId: {
+    type: String,
+    required: true,
+    ref: 'ManufacturingOrder',
+    index: true
+  },
+  itemId: {
+    type: String,
+    required: true,
+    ref: 'InventoryItem',
+    index: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemSku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  consumedQuantity: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: Object.values(StockReservationStatus),
+    default: StockReservationStatus.ACTIVE
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'stock_reservations'
+});
+
+stockReservationSchema.index({ orderId: 1, itemId: 1 });
+stockReservationSchema.index({ itemId: 1, status: 1 });
+
+export const StockReservationModel = mongoose.model<StockReservationDocument>('StockReservation', stockReservationSchema);
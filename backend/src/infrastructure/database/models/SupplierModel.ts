@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { DEFAULT_SUPPLIER_CURRENCY } from '../../../domain/entities/Supplier';
+
+export interface SupplierDocument extends Document {
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  leadTimeDays: number;
+  currency: string;
+  paymentTerms?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const supplierSchema = new Schema<SupplierDocument>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  contactName: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: 200
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: 50
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  taxId: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  leadTimeDays: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  currency: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    minlength: 3,
+    maxlength: 3,
+    default: DEFAULT_SUPPLIER_CURRENCY
+  },
+  paymentTerms: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'suppliers'
+});
+
+supplierSchema.index({ name: 1 });
+
+export const SupplierModel = mongoose.model<SupplierDocument>('Supplier', supplierSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole } from '../../../domain/entities/User';
+
+export interface UserDocument extends Document {
+  username: string;
+  name: string;
+  email?: string;
+  passwordHash: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const userSchema = new Schema<UserDocument>({
+  username: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: 200
+  },
+  passwordHash: {
+    type: String,
+    required: true
+  },
+  role: {
+    type: String,
+    enum: Object.values(UserRole),
+    required: true,
+    default: UserRole.VIEWER,
+    index: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  },
+  lastLoginAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'users'
+});
+
+export const UserModel = mongoose.model<UserDocument>('User', userSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface WarehouseDocument extends Document {
+  code: string;
+  name: string;
+  address?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const warehouseSchema = new Schema<WarehouseDocument>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  isDefault: {
+    type: Boolean,
+    default: false,
+    index: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'warehouses'
+});
+
+export const WarehouseModel = mongoose.model<WarehouseDocument>('Warehouse', warehouseSchema);
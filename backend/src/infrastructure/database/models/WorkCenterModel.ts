@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface WorkCenterDocument extends Document {
+  code: string;
+  name: string;
+  description?: string;
+  capacityHoursPerDay: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const workCenterSchema = new Schema<WorkCenterDocument>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  capacityHoursPerDay: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 24,
+    default: 8
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'work_centers'
+});
+
+export const WorkCenterModel = mongoose.model<WorkCenterDocument>('WorkCenter', workCenterSchema);
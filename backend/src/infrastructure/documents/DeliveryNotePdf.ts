@@ -0,0 +1,122 @@
+import { Shipment, ShipmentStatus, formatShipmentNumber } from '../../domain/entities/Shipment';
+import { formatSoNumber } from '../../domain/entities/SalesOrder';
+import { PdfDocument } from './PdfDocument';
+
+const MARGIN = 50;
+const BOTTOM = 770; // a partir de aquí se continúa en otra página
+const COLUMNS = { sku: MARGIN, description: 150, quantity: 470, unit: 480 };
+
+const formatDate = (date: Date): string => new Date(date).toLocaleDateString('es-ES');
+
+// Albarán de entrega de un envío: cliente, líneas con sus números de serie y espacio para la firma
+export const renderDeliveryNote = (shipment: Shipment, companyName: string): Buffer => {
+  const pdf = new PdfDocument();
+  const right = pdf.width - MARGIN;
+  const label = formatShipmentNumber(shipment.shipmentNumber);
+
+  // Cabecera (se repite en cada página)
+  const drawHeader = (): number => {
+    pdf.text(MARGIN, 60, companyName, { size: 16, bold: true });
+    pdf.text(right, 60, 'ALBARÁN DE ENTREGA', { size: 14, bold: true, align: 'right' });
+    pdf.text(right, 78, label, { size: 11, align: 'right' });
+    pdf.text(right, 93, `Fecha: ${formatDate(shipment.shippedAt || shipment.createdAt)}`, { size: 9, align: 'right' });
+    if (shipment.status === ShipmentStatus.DRAFT) {
+      pdf.text(right, 106, 'BORRADOR - pendiente de enviar', { size: 9, bold: true, align: 'right' });
+    }
+    pdf.line(MARGIN, 115, right, 115, 1);
+    return 135;
+  };
+
+  const drawTableHeader = (y: number): number => {
+    pdf.text(COLUMNS.sku, y, 'Código', { size: 9, bold: true });
+    pdf.text(COLUMNS.description, y, 'Descripción', { size: 9, bold: true });
+    pdf.text(COLUMNS.quantity, y, 'Cantidad', { size: 9, bold: true, align: 'right' });
+    pdf.text(COLUMNS.unit, y, 'Unidad', { size: 9, bold: true });
+    pdf.line(MARGIN, y + 5, right, y + 5);
+    return y + 18;
+  };
+
+  // Salta de página si lo siguiente no cabe
+  const ensureSpace = (y: number, height: number, withTable: boolean): number => {
+    if (y + height <= BOTTOM) return y;
+    pdf.addPage();
+    const top = drawHeader();
+    return withTable ? drawTableHeader(top) : top;
+  };
+
+  let y = drawHeader();
+
+  // Destinatario y referencias
+  pdf.text(MARGIN, y, 'Cliente', { size: 9, bold: true });
+  pdf.text(320, y, 'Referencias', { size: 9, bold: true });
+  let customerY = y + 15;
+  pdf.text(MARGIN, customerY, pdf.fitText(shipment.customerName, 250, 11, true), { size: 11, bold: true });
+  if (shipment.customerCode) {
+    customerY += 13;
+    pdf.text(MARGIN, customerY, shipment.customerCode, { size: 9 });
+  }
+  for (const addressLine of shipment.deliveryAddress ? pdf.wrapText(shipment.deliveryAddress, 250, 9) : []) {
+    customerY += 12;
+    pdf.text(MARGIN, customerY, addressLine, { size: 9 });
+  }
+
+  const references = [
+    shipment.soNumber ? `Pedido: ${formatSoNumber(shipment.soNumber)}` : undefined,
+    shipment.customerReference ? `Su referencia: ${shipment.customerReference}` : undefined,
+    shipment.carrier ? `Transportista: ${shipment.carrier}` : undefined,
+    shipment.trackingNumber ? `Nº de seguimiento: ${shipment.trackingNumber}` : undefined
+  ].filter((reference): reference is string => Boolean(reference));
+  let referenceY = y + 15;
+  for (const reference of references) {
+    pdf.text(320, referenceY, pdf.fitText(reference, right - 320, 9), { size: 9 });
+    referenceY += 12;
+  }
+
+  y = drawTableHeader(Math.max(customerY, referenceY) + 25);
+
+  // Líneas del envío
+  for (const line of shipment.lines) {
+    const serialLines = line.serials.length > 0
+      ? pdf.wrapText(`N/S: ${line.serials.map(serial => serial.serialNumber).join(', ')}`, right - COLUMNS.description, 8)
+      : [];
+    y = ensureSpace(y, 14 + serialLines.length * 10, true);
+
+    pdf.text(COLUMNS.sku, y, pdf.fitText(line.itemSku, COLUMNS.description - COLUMNS.sku - 8, 9), { size: 9 });
+    pdf.text(COLUMNS.description, y, pdf.fitText(line.itemName, COLUMNS.quantity - COLUMNS.description - 50, 9), { size: 9 });
+    pdf.text(COLUMNS.quantity, y, String(line.quantity), { size: 9, align: 'right' });
+    pdf.text(COLUMNS.unit, y, line.unit, { size: 9 });
+    y += 12;
+
+    for (const serialLine of serialLines) {
+      pdf.text(COLUMNS.description, y, serialLine, { size: 8 });
+      y += 10;
+    }
+    y += 4;
+  }
+
+  const totalUnits = shipment.lines.reduce((sum, line) => sum + line.quantity, 0);
+  pdf.line(MARGIN, y - 4, right, y - 4);
+  pdf.text(COLUMNS.quantity, y + 8, `Total: ${totalUnits}`, { size: 9, bold: true, align: 'right' });
+  y += 30;
+
+  if (shipment.notes) {
+    const noteLines = pdf.wrapText(shipment.notes, right - MARGIN, 9);
+    y = ensureSpace(y, 15 + noteLines.length * 12, false);
+    pdf.text(MARGIN, y, 'Observaciones', { size: 9, bold: true });
+    for (const noteLine of noteLines) {
+      y += 12;
+      pdf.text(MARGIN, y, noteLine, { size: 9 });
+    }
+    y += 25;
+  }
+
+  // Firmas
+  y = ensureSpace(y, 70, false);
+  y += 40;
+  pdf.line(MARGIN, y, MARGIN + 200, y);
+  pdf.line(right - 200, y, right, y);
+  pdf.text(MARGIN, y + 12, `Entregado por${shipment.shippedBy ? `: ${shipment.shippedBy}` : ''}`, { size: 8 });
+  pdf.text(right - 200, y + 12, 'Recibí conforme (firma, nombre y fecha)', { size: 8 });
+
+  return pdf.toBuffer();
+};
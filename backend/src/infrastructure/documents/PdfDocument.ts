@@ -0,0 +1,149 @@
+// Generador mínimo de PDF: texto con las fuentes estándar Helvetica y líneas, sin dependencias.
+// Las coordenadas se indican en puntos desde la esquina superior izquierda de la página
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+
+// Anchos de Helvetica (milésimas del tamaño de letra) de los caracteres 32 a 126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const DEFAULT_WIDTH = 556;
+const BOLD_FACTOR = 1.05; // Helvetica-Bold es algo más ancha
+
+// Caracteres fuera de Latin-1 con equivalente en WinAnsiEncoding
+const WIN_ANSI_REPLACEMENTS: Record<string, string> = {
+  '€': '\x80',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...'
+};
+
+const encodeText = (value: string): string =>
+  Array.from(value.normalize('NFC'))
+    .map(char => WIN_ANSI_REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+    .replace(/[\r\n\t]/g, ' ');
+
+const escapeText = (value: string): string => value.replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const encoded = encodeText(value);
+    const left = options.align === 'right' ? x - this.textWidth(value, size, options.bold) : x;
+    this.currentPage().push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(this.height - y)} Td (${escapeText(encoded)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth: number = 0.5): void {
+    this.currentPage().push(
+      `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  textWidth(value: string, size: number = 10, bold: boolean = false): number {
+    const units = Array.from(encodeText(value)).reduce((sum, char) => {
+      const code = char.charCodeAt(0);
+      return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH);
+    }, 0);
+    return (units * size / 1000) * (bold ? BOLD_FACTOR : 1);
+  }
+
+  // Recorta el texto con "..." para que quepa en el ancho indicado
+  fitText(value: string, maxWidth: number, size: number = 10, bold: boolean = false): string {
+    if (this.textWidth(value, size, bold) <= maxWidth) return value;
+    let fitted = value;
+    while (fitted.length > 0 && this.textWidth(`${fitted}...`, size, bold) > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trimEnd()}...`;
+  }
+
+  // Reparte el texto en líneas que caben en el ancho indicado (respeta los saltos de línea)
+  wrapText(value: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of value.split(/\r?\n/)) {
+      let current = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      lines.push(this.fitText(current, maxWidth, size, bold));
+    }
+    return lines;
+  }
+
+  toBuffer(): Buffer {
+    const pageCount = this.pages.length;
+    const firstPageObject = 5;
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, index) => `${firstPageObject + index * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    ];
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + index * 2 + 1} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Todo el documento se escribe en Latin-1: un carácter por byte para calcular los desplazamientos
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,76 @@
+import { Backflush, BackflushStatus } from '../../domain/entities/Backflush';
+import { BackflushModel, BackflushDocument } from '../database/models/BackflushModel';
+
+export interface BackflushRepository {
+  create(backflush: Omit<Backflush, 'id' | 'createdAt' | 'updatedAt'>): Promise<Backflush>;
+  findById(id: string): Promise<Backflush | null>;
+  findByCardId(cardId: string, status?: BackflushStatus): Promise<Backflush[]>;
+  markReversed(id: string, reversalMovementIds: string[], reason: string): Promise<Backflush | null>;
+}
+
+export class MongoBackflushRepository implements BackflushRepository {
+
+  async create(backflushData: Omit<Backflush, 'id' | 'createdAt' | 'updatedAt'>): Promise<Backflush> {
+    const backflush = new BackflushModel(backflushData);
+    const savedBackflush = await backflush.save();
+    return this.mapToEntity(savedBackflush);
+  }
+
+  async findById(id: string): Promise<Backflush | null> {
+    const backflush = await BackflushModel.findById(id);
+    return backflush ? this.mapToEntity(backflush) : null;
+  }
+
+  async findByCardId(cardId: string, status?: BackflushStatus): Promise<Backflush[]> {
+    const query: any = { cardId };
+    if (status) {
+      query.status = status;
+    }
+
+    const backflushes = await BackflushModel.find(query).sort({ createdAt: 1 });
+    return backflushes.map(backflush => this.mapToEntity(backflush));
+  }
+
+  async markReversed(id: string, reversalMovementIds: string[], reason: string): Promise<Backflush | null> {
+    // Solo se marca si sigue contabilizado, para no revertir dos veces
+    const backflush = await BackflushModel.findOneAndUpdate(
+      { _id: id, status: BackflushStatus.POSTED },
+      {
+        $set: {
+          status: BackflushStatus.REVERSED,
+          reversalMovementIds,
+          reversalReason: reason,
+          reversedAt: new Date()
+        }
+      },
+      { new: true }
+    );
+    return backflush ? this.mapToEntity(backflush) : null;
+  }
+
+  private mapToEntity(doc: BackflushDocument): Backflush {
+    return {
+      id: doc._id.toString(),
+      cardId: doc.cardId,
+      orderId: doc.orderId,
+      trigger: doc.trigger,
+      componentId: doc.componentId,
+      status: doc.status,
+      lines: doc.lines.map(line => ({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        itemSku: line.itemSku,
+        quantity: line.quantity,
+        unit: line.unit,
+        movementId: line.movementId,
+        lotId: line.lotId,
+        lotNumber: line.lotNumber
+      })),
+      reversalMovementIds: doc.reversalMovementIds,
+      reversalReason: doc.reversalReason,
+      reversedAt: doc.reversedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
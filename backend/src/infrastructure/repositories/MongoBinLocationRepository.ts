@@ -0,0 +1,71 @@
+import { BinLocation } from '../../domain/entities/Warehouse';
+import { BinLocationModel, BinLocationDocument } from '../database/models/BinLocationModel';
+
+export interface BinLocationRepository {
+  create(bin: Omit<BinLocation, 'id' | 'createdAt' | 'updatedAt'>): Promise<BinLocation>;
+  findById(id: string): Promise<BinLocation | null>;
+  findByCode(warehouseId: string, code: string): Promise<BinLocation | null>;
+  findAll(filters?: BinLocationFilters): Promise<BinLocation[]>;
+  update(id: string, updates: Partial<BinLocation>): Promise<BinLocation | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface BinLocationFilters {
+  warehouseId?: string;
+  isActive?: boolean;
+}
+
+export class MongoBinLocationRepository implements BinLocationRepository {
+
+  async create(binData: Omit<BinLocation, 'id' | 'createdAt' | 'updatedAt'>): Promise<BinLocation> {
+    const bin = new BinLocationModel(binData);
+    const savedBin = await bin.save();
+    return this.mapToEntity(savedBin);
+  }
+
+  async findById(id: string): Promise<BinLocation | null> {
+    const bin = await BinLocationModel.findById(id);
+    return bin ? this.mapToEntity(bin) : null;
+  }
+
+  async findByCode(warehouseId: string, code: string): Promise<BinLocation | null> {
+    const bin = await BinLocationModel.findOne({ warehouseId, code: code.toUpperCase() });
+    return bin ? this.mapToEntity(bin) : null;
+  }
+
+  async findAll(filters: BinLocationFilters = {}): Promise<BinLocation[]> {
+    const query: any = {};
+
+    if (filters.warehouseId) query.warehouseId = filters.warehouseId;
+    if (filters.isActive !== undefined) query.isActive = filters.isActive;
+
+    const bins = await BinLocationModel.find(query).sort({ code: 1 });
+    return bins.map(bin => this.mapToEntity(bin));
+  }
+
+  async update(id: string, updates: Partial<BinLocation>): Promise<BinLocation | null> {
+    const bin = await BinLocationModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return bin ? this.mapToEntity(bin) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await BinLocationModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: BinLocationDocument): BinLocation {
+    return {
+      id: doc._id.toString(),
+      warehouseId: doc.warehouseId,
+      code: doc.code,
+      description: doc.description,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { BomRevision, BomRevisionStatus } from '../../domain/entities/BomRevision';
+import { BomRevisionModel, BomRevisionDocument } from '../database/models/BomRevisionModel';
+
+export interface BomRevisionRepository {
+  create(revision: Omit<BomRevision, 'id' | 'createdAt' | 'updatedAt'>): Promise<BomRevision>;
+  findById(id: string): Promise<BomRevision | null>;
+  findByItemId(itemId: string, status?: BomRevisionStatus): Promise<BomRevision[]>;
+  findLatest(itemId: string): Promise<BomRevision | null>;
+  findReleased(itemId: string): Promise<BomRevision | null>;
+  updateDraft(id: string, updates: Partial<Pick<BomRevision, 'componentLines' | 'billOfMaterials' | 'notes'>>): Promise<BomRevision | null>;
+  markReleased(id: string, effectiveFrom: Date, releasedBy?: string): Promise<BomRevision | null>;
+  markObsolete(id: string, effectiveTo?: Date): Promise<BomRevision | null>;
+}
+
+export class MongoBomRevisionRepository implements BomRevisionRepository {
+
+  async create(revisionData: Omit<BomRevision, 'id' | 'createdAt' | 'updatedAt'>): Promise<BomRevision> {
+    const revision = new BomRevisionModel(revisionData);
+    const savedRevision = await revision.save();
+    return this.mapToEntity(savedRevision);
+  }
+
+  async findById(id: string): Promise<BomRevision | null> {
+    const revision = await BomRevisionModel.findById(id);
+    return revision ? this.mapToEntity(revision) : null;
+  }
+
+  async findByItemId(itemId: string, status?: BomRevisionStatus): Promise<BomRevision[]> {
+    const query: any = { itemId };
+    if (status) {
+      query.status = status;
+    }
+
+    const revisions = await BomRevisionModel.find(query).sort({ revisionNumber: -1 });
+    return revisions.map(revision => this.mapToEntity(revision));
+  }
+
+  async findLatest(itemId: string): Promise<BomRevision | null> {
+    const revision = await BomRevisionModel.findOne({ itemId }).sort({ revisionNumber: -1 });
+    return revision ? this.mapToEntity(revision) : null;
+  }
+
+  // Solo puede haber una revisión liberada por artículo: la vigente
+  async findReleased(itemId: string): Promise<BomRevision | null> {
+    const revision = await BomRevisionModel.findOne({ itemId, status: BomRevisionStatus.RELEASED })
+      .sort({ revisionNumber: -1 });
+    return revision ? this.mapToEntity(revision) : null;
+  }
+
+  async updateDraft(id: string, updates: Partial<Pick<BomRevision, 'componentLines' | 'billOfMaterials' | 'notes'>>): Promise<BomRevision | null> {
+    const revision = await BomRevisionModel.findOneAndUpdate(
+      { _id: id, status: BomRevisionStatus.DRAFT },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { new: true, runValidators: true }
+    );
+    return revision ? this.mapToEntity(revision) : null;
+  }
+
+  async markReleased(id: string, effectiveFrom: Date, releasedBy?: string): Promise<BomRevision | null> {
+    const revision = await BomRevisionModel.findOneAndUpdate(
+      { _id: id, status: BomRevisionStatus.DRAFT },
+      {
+        $set: {
+          status: BomRevisionStatus.RELEASED,
+          effectiveFrom,
+          releasedBy,
+          releasedAt: new Date(),
+          updatedAt: new Date()
+        }
+      },
+      { new: true }
+    );
+    return revision ? this.mapToEntity(revision) : null;
+  }
+
+  // Un borrador descartado también queda obsoleto (nunca tuvo vigencia)
+  async markObsolete(id: string, effectiveTo?: Date): Promise<BomRevision | null> {
+    const revision = await BomRevisionModel.findOneAndUpdate(
+      { _id: id, status: { $in: [BomRevisionStatus.DRAFT, BomRevisionStatus.RELEASED] } },
+      {
+        $set: {
+          status: BomRevisionStatus.OBSOLETE,
+          ...(effectiveTo && { effectiveTo }),
+          updatedAt: new Date()
+        }
+      },
+      { new: true }
+    );
+    return revision ? this.mapToEntity(revision) : null;
+  }
+
+  private mapToEntity(doc: BomRevisionDocument): BomRevision {
+    return {
+      id: doc._id.toString(),
+      itemId: doc.itemId,
+      itemName: doc.itemName,
+      itemSku: doc.itemSku,
+      revisionNumber: doc.revisionNumber,
+      status: doc.status,
+      componentLines: (doc.componentLines || []).map(line => ({
+        componentId: line.componentId,
+        componentName: line.componentName,
+        componentSku: line.componentSku,
+        quantity: line.quantity
+      })),
+      billOfMaterials: (doc.billOfMaterials || []).map(bom => ({
+        materialId: bom.materialId,
+        materialName: bom.materialName,
+        materialSku: bom.materialSku,
+        requiredQuantity: bom.requiredQuantity,
+        unit: bom.unit,
+        isOptional: bom.isOptional,
+        notes: bom.notes
+      })),
+      effectiveFrom: doc.effectiveFrom,
+      effectiveTo: doc.effectiveTo,
+      notes: doc.notes,
+      createdBy: doc.createdBy,
+      releasedBy: doc.releasedBy,
+      releasedAt: doc.releasedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
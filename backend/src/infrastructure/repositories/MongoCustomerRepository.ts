@@ -0,0 +1,94 @@
+import { Customer } from '../../domain/entities/Customer';
+import { CustomerModel, CustomerDocument } from '../database/models/CustomerModel';
+
+export interface CustomerRepository {
+  create(customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<Customer>;
+  findById(id: string): Promise<Customer | null>;
+  findByCode(code: string): Promise<Customer | null>;
+  // Búsqueda exacta sin distinguir mayúsculas (migración del cliente de las órdenes)
+  findByName(name: string): Promise<Customer | null>;
+  findAll(filters?: CustomerFilters): Promise<Customer[]>;
+  update(id: string, updates: Partial<Customer>): Promise<Customer | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface CustomerFilters {
+  isActive?: boolean;
+  search?: string;
+}
+
+export class MongoCustomerRepository implements CustomerRepository {
+
+  async create(customerData: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<Customer> {
+    const customer = new CustomerModel(customerData);
+    const savedCustomer = await customer.save();
+    return this.mapToEntity(savedCustomer);
+  }
+
+  async findById(id: string): Promise<Customer | null> {
+    const customer = await CustomerModel.findById(id);
+    return customer ? this.mapToEntity(customer) : null;
+  }
+
+  async findByCode(code: string): Promise<Customer | null> {
+    const customer = await CustomerModel.findOne({ code: code.toUpperCase() });
+    return customer ? this.mapToEntity(customer) : null;
+  }
+
+  async findByName(name: string): Promise<Customer | null> {
+    const customer = await CustomerModel.findOne({ name: name.trim() }).collation({ locale: 'es', strength: 2 });
+    return customer ? this.mapToEntity(customer) : null;
+  }
+
+  async findAll(filters: CustomerFilters = {}): Promise<Customer[]> {
+    const query: any = {};
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    if (filters.search) {
+      query.$or = [
+        { code: { $regex: filters.search, $options: 'i' } },
+        { name: { $regex: filters.search, $options: 'i' } },
+        { contactName: { $regex: filters.search, $options: 'i' } },
+        { taxId: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const customers = await CustomerModel.find(query).sort({ name: 1 });
+    return customers.map(customer => this.mapToEntity(customer));
+  }
+
+  async update(id: string, updates: Partial<Customer>): Promise<Customer | null> {
+    const customer = await CustomerModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return customer ? this.mapToEntity(customer) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await CustomerModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: CustomerDocument): Customer {
+    return {
+      id: doc._id.toString(),
+      code: doc.code,
+      name: doc.name,
+      contactName: doc.contactName,
+      email: doc.email,
+      phone: doc.phone,
+      address: doc.address,
+      taxId: doc.taxId,
+      paymentTerms: doc.paymentTerms,
+      notes: doc.notes,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
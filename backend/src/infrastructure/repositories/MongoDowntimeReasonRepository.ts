@@ -0,0 +1,72 @@
+import { DowntimeReason } from '../../domain/entities/DowntimeReason';
+import { DowntimeReasonModel, DowntimeReasonDocument } from '../database/models/DowntimeReasonModel';
+
+export interface DowntimeReasonRepository {
+  create(reason: Omit<DowntimeReason, 'id' | 'createdAt' | 'updatedAt'>): Promise<DowntimeReason>;
+  findById(id: string): Promise<DowntimeReason | null>;
+  findByCode(code: string): Promise<DowntimeReason | null>;
+  findAll(filters?: { isActive?: boolean }): Promise<DowntimeReason[]>;
+  count(): Promise<number>;
+  update(id: string, updates: Partial<DowntimeReason>): Promise<DowntimeReason | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class MongoDowntimeReasonRepository implements DowntimeReasonRepository {
+
+  async create(reasonData: Omit<DowntimeReason, 'id' | 'createdAt' | 'updatedAt'>): Promise<DowntimeReason> {
+    const reason = new DowntimeReasonModel(reasonData);
+    const savedReason = await reason.save();
+    return this.mapToEntity(savedReason);
+  }
+
+  async findById(id: string): Promise<DowntimeReason | null> {
+    const reason = await DowntimeReasonModel.findById(id);
+    return reason ? this.mapToEntity(reason) : null;
+  }
+
+  async findByCode(code: string): Promise<DowntimeReason | null> {
+    const reason = await DowntimeReasonModel.findOne({ code: code.trim().toUpperCase() });
+    return reason ? this.mapToEntity(reason) : null;
+  }
+
+  async findAll(filters: { isActive?: boolean } = {}): Promise<DowntimeReason[]> {
+    const query: any = {};
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    const reasons = await DowntimeReasonModel.find(query).sort({ category: 1, code: 1 });
+    return reasons.map(reason => this.mapToEntity(reason));
+  }
+
+  async count(): Promise<number> {
+    return DowntimeReasonModel.countDocuments();
+  }
+
+  async update(id: string, updates: Partial<DowntimeReason>): Promise<DowntimeReason | null> {
+    const reason = await DowntimeReasonModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return reason ? this.mapToEntity(reason) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await DowntimeReasonModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: DowntimeReasonDocument): DowntimeReason {
+    return {
+      id: doc._id.toString(),
+      code: doc.code,
+      name: doc.name,
+      category: doc.category,
+      description: doc.description,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
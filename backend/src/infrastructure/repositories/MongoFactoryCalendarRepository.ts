@@ -0,0 +1,48 @@
+import { FactoryCalendar } from '../../domain/entities/FactoryCalendar';
+import { FactoryCalendarModel, FactoryCalendarDocument } from '../database/models/FactoryCalendarModel';
+
+export interface FactoryCalendarRepository {
+  findCurrent(): Promise<FactoryCalendar | null>;
+  create(calendar: Omit<FactoryCalendar, 'id' | 'createdAt' | 'updatedAt'>): Promise<FactoryCalendar>;
+  update(id: string, updates: Partial<Omit<FactoryCalendar, 'id' | 'createdAt' | 'updatedAt'>>): Promise<FactoryCalendar | null>;
+}
+
+// La planta tiene un único calendario de fábrica
+export class MongoFactoryCalendarRepository implements FactoryCalendarRepository {
+
+  async findCurrent(): Promise<FactoryCalendar | null> {
+    const calendar = await FactoryCalendarModel.findOne().sort({ createdAt: 1 });
+    return calendar ? this.mapToEntity(calendar) : null;
+  }
+
+  async create(calendarData: Omit<FactoryCalendar, 'id' | 'createdAt' | 'updatedAt'>): Promise<FactoryCalendar> {
+    const calendar = new FactoryCalendarModel(calendarData);
+    const savedCalendar = await calendar.save();
+    return this.mapToEntity(savedCalendar);
+  }
+
+  async update(id: string, updates: Partial<Omit<FactoryCalendar, 'id' | 'createdAt' | 'updatedAt'>>): Promise<FactoryCalendar | null> {
+    const calendar = await FactoryCalendarModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return calendar ? this.mapToEntity(calendar) : null;
+  }
+
+  private mapToEntity(doc: FactoryCalendarDocument): FactoryCalendar {
+    return {
+      id: doc._id.toString(),
+      name: doc.name,
+      timezone: doc.timezone || '', // sin zona guardada se usa la de PLANT_TIMEZONE
+      weekdays: doc.weekdays.map(weekday => ({
+        weekday: weekday.weekday,
+        shifts: weekday.shifts.map(shift => ({ name: shift.name, startTime: shift.startTime, endTime: shift.endTime }))
+      })),
+      holidays: doc.holidays.map(holiday => ({ date: holiday.date, name: holiday.name })),
+      closures: doc.closures.map(closure => ({ startDate: closure.startDate, endDate: closure.endDate, reason: closure.reason })),
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
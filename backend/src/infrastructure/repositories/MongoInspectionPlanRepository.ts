@@ -0,0 +1,87 @@
+import { InspectionPlan } from '../../domain/entities/InspectionPlan';
+import { InspectionPlanModel, InspectionPlanDocument } from '../database/models/InspectionPlanModel';
+
+export interface InspectionPlanRepository {
+  create(plan: Omit<InspectionPlan, 'id' | 'createdAt' | 'updatedAt'>): Promise<InspectionPlan>;
+  findById(id: string): Promise<InspectionPlan | null>;
+  findByModel(modelId: string): Promise<InspectionPlan | null>;
+  findAll(filters?: InspectionPlanFilters): Promise<InspectionPlan[]>;
+  update(id: string, updates: Partial<InspectionPlan>): Promise<InspectionPlan | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface InspectionPlanFilters {
+  modelId?: string;
+  isActive?: boolean;
+  search?: string;
+}
+
+export class MongoInspectionPlanRepository implements InspectionPlanRepository {
+
+  async create(planData: Omit<InspectionPlan, 'id' | 'createdAt' | 'updatedAt'>): Promise<InspectionPlan> {
+    const plan = new InspectionPlanModel(planData);
+    const savedPlan = await plan.save();
+    return this.mapToEntity(savedPlan);
+  }
+
+  async findById(id: string): Promise<InspectionPlan | null> {
+    const plan = await InspectionPlanModel.findById(id);
+    return plan ? this.mapToEntity(plan) : null;
+  }
+
+  async findByModel(modelId: string): Promise<InspectionPlan | null> {
+    const plan = await InspectionPlanModel.findOne({ modelId });
+    return plan ? this.mapToEntity(plan) : null;
+  }
+
+  async findAll(filters: InspectionPlanFilters = {}): Promise<InspectionPlan[]> {
+    const query: any = {};
+
+    if (filters.modelId) {
+      query.modelId = filters.modelId;
+    }
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    if (filters.search) {
+      query.$or = [
+        { name: { $regex: filters.search, $options: 'i' } },
+        { modelName: { $regex: filters.search, $options: 'i' } },
+        { modelSku: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const plans = await InspectionPlanModel.find(query).sort({ modelName: 1 });
+    return plans.map(plan => this.mapToEntity(plan));
+  }
+
+  async update(id: string, updates: Partial<InspectionPlan>): Promise<InspectionPlan | null> {
+    const plan = await InspectionPlanModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return plan ? this.mapToEntity(plan) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await InspectionPlanModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: InspectionPlanDocument): InspectionPlan {
+    return {
+      id: doc._id.toString(),
+      modelId: doc.modelId,
+      modelName: doc.modelName,
+      modelSku: doc.modelSku,
+      name: doc.name,
+      checks: doc.checks,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { InventoryLot, getLotStatus } from '../../domain/entities/InventoryLot';
+import { InventoryLotModel, InventoryLotDocument } from '../database/models/InventoryLotModel';
+
+export interface InventoryLotRepository {
+  create(lot: Omit<InventoryLot, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<InventoryLot>;
+  findById(id: string): Promise<InventoryLot | null>;
+  findByLotNumber(itemId: string, lotNumber: string): Promise<InventoryLot | null>;
+  findAll(filters?: InventoryLotFilters): Promise<InventoryLot[]>;
+  // Suma o resta cantidad; devuelve null si el lote quedaría en negativo
+  adjustQuantity(id: string, delta: number): Promise<InventoryLot | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface InventoryLotFilters {
+  itemId?: string;
+  search?: string;
+  withStock?: boolean;
+  expiresBefore?: Date;
+}
+
+export class MongoInventoryLotRepository implements InventoryLotRepository {
+
+  async create(lotData: Omit<InventoryLot, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<InventoryLot> {
+    const lot = new InventoryLotModel(lotData);
+    const savedLot = await lot.save();
+    return this.mapToEntity(savedLot);
+  }
+
+  async findById(id: string): Promise<InventoryLot | null> {
+    const lot = await InventoryLotModel.findById(id);
+    return lot ? this.mapToEntity(lot) : null;
+  }
+
+  async findByLotNumber(itemId: string, lotNumber: string): Promise<InventoryLot | null> {
+    const lot = await InventoryLotModel.findOne({ itemId, lotNumber });
+    return lot ? this.mapToEntity(lot) : null;
+  }
+
+  async findAll(filters: InventoryLotFilters = {}): Promise<InventoryLot[]> {
+    const query: any = {};
+
+    if (filters.itemId) query.itemId = filters.itemId;
+    if (filters.withStock) query.quantity = { $gt: 0 };
+    if (filters.expiresBefore) query.expiryDate = { $lte: filters.expiresBefore };
+
+    if (filters.search) {
+      query.$or = [
+        { lotNumber: { $regex: filters.search, $options: 'i' } },
+        { supplierLot: { $regex: filters.search, $options: 'i' } },
+        { itemName: { $regex: filters.search, $options: 'i' } },
+        { itemSku: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const lots = await InventoryLotModel.find(query).sort({ receivedDate: -1 });
+    return lots.map(lot => this.mapToEntity(lot));
+  }
+
+  async adjustQuantity(id: string, delta: number): Promise<InventoryLot | null> {
+    const filter: any = { _id: id };
+    if (delta < 0) {
+      filter.quantity = { $gte: -delta };
+    }
+
+    const lot = await InventoryLotModel.findOneAndUpdate(
+      filter,
+      { $inc: { quantity: delta }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return lot ? this.mapToEntity(lot) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await InventoryLotModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: InventoryLotDocument): InventoryLot {
+    return {
+      id: doc._id.toString(),
+      itemId: doc.itemId,
+      itemName: doc.itemName,
+      itemSku: doc.itemSku,
+      lotNumber: doc.lotNumber,
+      supplierLot: doc.supplierLot,
+      supplier: doc.supplier,
+      receivedDate: doc.receivedDate,
+      expiryDate: doc.expiryDate,
+      initialQuantity: doc.initialQuantity,
+      quantity: doc.quantity,
+      unit: doc.unit,
+      notes: doc.notes,
+      status: getLotStatus(doc),
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -39,8 +39,18 @@ export class MongoInventoryRepository implements IInventoryRepository {
         query.supplier = { $regex: filters.supplier, $options: 'i' };
       }
 
+      if (filters.supplierId) {
+        query['suppliers.supplierId'] = filters.supplierId;
+      }
+
       if (filters.lowStock) {
-        query.$expr = { $lte: ['$quantity', '$minimumStock'] };
+        // Se compara el stock disponible (físico - reservado), no el físico
+        query.$expr = {
+          $lte: [
+            { $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] },
+            '$minimumStock'
+          ]
+        };
       }
 
       if (filters.search) {
@@ -90,6 +100,65 @@ export class MongoInventoryRepository implements IInventoryRepository {
     return updatedItems.map(item => this.documentToEntity(item));
   }
 
+  async adjustQuantity(id: string, delta: number): Promise<InventoryItem | null> {
+    const filter: any = { _id: id };
+    if (delta < 0) {
+      filter.quantity = { $gte: -delta };
+    }
+
+    const updatedItem = await InventoryItemModel.findOneAndUpdate(
+      filter,
+      { $inc: { quantity: delta }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return updatedItem ? this.documentToEntity(updatedItem) : null;
+  }
+
+  async findParents(itemId: string): Promise<InventoryItem[]> {
+    const items = await InventoryItemModel.find({
+      $or: [
+        { components: itemId },
+        { 'componentLines.componentId': itemId },
+        { 'billOfMaterials.materialId': itemId }
+      ]
+    });
+    return items.map(item => this.documentToEntity(item));
+  }
+
+  async findByWorkCenter(workCenterId: string): Promise<InventoryItem[]> {
+    const items = await InventoryItemModel.find({ 'routing.workCenterId': workCenterId });
+    return items.map(item => this.documentToEntity(item));
+  }
+
+  async findBySupplier(supplierId: string): Promise<InventoryItem[]> {
+    const items = await InventoryItemModel.find({ 'suppliers.supplierId': supplierId });
+    return items.map(item => this.documentToEntity(item));
+  }
+
+  async adjustReserved(id: string, delta: number): Promise<InventoryItem | null> {
+    if (delta >= 0) {
+      const updatedItem = await InventoryItemModel.findByIdAndUpdate(
+        id,
+        { $inc: { reserved: delta }, $set: { updatedAt: new Date() } },
+        { new: true }
+      );
+      return updatedItem ? this.documentToEntity(updatedItem) : null;
+    }
+
+    // Al liberar, no dejar la reserva negativa (por ejemplo, artículos sin el campo)
+    const updatedItem = await InventoryItemModel.findByIdAndUpdate(
+      id,
+      [{
+        $set: {
+          reserved: { $max: [0, { $add: [{ $ifNull: ['$reserved', 0] }, delta] }] },
+          updatedAt: new Date()
+        }
+      }],
+      { new: true }
+    );
+    return updatedItem ? this.documentToEntity(updatedItem) : null;
+  }
+
   private documentToEntity(doc: InventoryItemDocument): InventoryItem {
     return {
       id: doc._id.toString(),
@@ -98,6 +167,9 @@ export class MongoInventoryRepository implements IInventoryRepository {
       type: doc.type,
       sku: doc.sku,
       quantity: doc.quantity,
+      reserved: doc.reserved || 0,
+      onHand: doc.quantity,
+      available: doc.quantity - (doc.reserved || 0),
       unit: doc.unit,
       unitPrice: doc.unitPrice,
       status: doc.status,
@@ -105,10 +177,16 @@ export class MongoInventoryRepository implements IInventoryRepository {
       maximumStock: doc.maximumStock,
       location: doc.location,
       supplier: doc.supplier,
+      suppliers: doc.suppliers,
       estimatedManufacturingTime: doc.estimatedManufacturingTime,
       components: doc.components,
+      componentLines: doc.componentLines,
       canManufacture: doc.canManufacture,
       billOfMaterials: doc.billOfMaterials,
+      routing: doc.routing,
+      serialPattern: doc.serialPattern,
+      isLotControlled: doc.isLotControlled,
+      lotPickingPolicy: doc.lotPickingPolicy,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt
     };
@@ -0,0 +1,106 @@
+import { LaborEntry } from '../../domain/entities/LaborEntry';
+import { LaborEntryModel, LaborEntryDocument } from '../database/models/LaborEntryModel';
+
+export interface LaborEntryRepository {
+  create(entry: Omit<LaborEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<LaborEntry>;
+  findById(id: string): Promise<LaborEntry | null>;
+  findAll(filters?: LaborEntryFilters): Promise<LaborEntry[]>;
+  close(id: string, endTime: Date): Promise<LaborEntry | null>;
+  closeOpenEntries(filters: { cardId: string; componentId?: string }, endTime: Date): Promise<number>;
+}
+
+export interface LaborEntryFilters {
+  userId?: string;
+  cardId?: string;
+  orderId?: string;
+  componentId?: string;
+  isOpen?: boolean;
+  from?: Date; // fichajes que se solapan con el periodo
+  to?: Date;
+}
+
+export class MongoLaborEntryRepository implements LaborEntryRepository {
+
+  async create(entryData: Omit<LaborEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<LaborEntry> {
+    const entry = new LaborEntryModel(entryData);
+    const savedEntry = await entry.save();
+    return this.mapToEntity(savedEntry);
+  }
+
+  async findById(id: string): Promise<LaborEntry | null> {
+    const entry = await LaborEntryModel.findById(id);
+    return entry ? this.mapToEntity(entry) : null;
+  }
+
+  async findAll(filters: LaborEntryFilters = {}): Promise<LaborEntry[]> {
+    const query: any = {};
+
+    if (filters.userId) query.userId = filters.userId;
+    if (filters.cardId) query.cardId = filters.cardId;
+    if (filters.orderId) query.orderId = filters.orderId;
+    if (filters.componentId) query.componentId = filters.componentId;
+
+    if (filters.to) {
+      query.startTime = { $lt: filters.to };
+    }
+
+    // Un fichaje abierto se solapa con cualquier periodo posterior a su inicio
+    if (filters.isOpen === true) {
+      query.endTime = { $exists: false };
+    } else if (filters.isOpen === false) {
+      query.endTime = filters.from ? { $gt: filters.from } : { $exists: true };
+    } else if (filters.from) {
+      query.$or = [
+        { endTime: { $exists: false } },
+        { endTime: { $gt: filters.from } }
+      ];
+    }
+
+    const entries = await LaborEntryModel.find(query).sort({ startTime: 1 });
+    return entries.map(entry => this.mapToEntity(entry));
+  }
+
+  async close(id: string, endTime: Date): Promise<LaborEntry | null> {
+    const entry = await LaborEntryModel.findById(id);
+    if (!entry || entry.endTime) return null;
+
+    entry.endTime = endTime;
+    entry.minutes = Math.max(0, Math.round((endTime.getTime() - entry.startTime.getTime()) / (60 * 1000)));
+    const savedEntry = await entry.save();
+    return this.mapToEntity(savedEntry);
+  }
+
+  async closeOpenEntries(filters: { cardId: string; componentId?: string }, endTime: Date): Promise<number> {
+    const query: any = { cardId: filters.cardId, endTime: { $exists: false } };
+    if (filters.componentId) {
+      query.componentId = filters.componentId;
+    }
+
+    const openEntries = await LaborEntryModel.find(query);
+    for (const entry of openEntries) {
+      await this.close(entry._id.toString(), endTime);
+    }
+    return openEntries.length;
+  }
+
+  private mapToEntity(doc: LaborEntryDocument): LaborEntry {
+    return {
+      id: doc._id.toString(),
+      userId: doc.userId,
+      username: doc.username,
+      userName: doc.userName,
+      cardId: doc.cardId,
+      orderId: doc.orderId,
+      orderName: doc.orderName,
+      cardLabel: doc.cardLabel,
+      componentId: doc.componentId,
+      componentName: doc.componentName,
+      startTime: doc.startTime,
+      endTime: doc.endTime,
+      minutes: doc.minutes,
+      notes: doc.notes,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { LocationStock } from '../../domain/entities/Warehouse';
+import { LocationStockModel, LocationStockDocument } from '../database/models/LocationStockModel';
+
+// Artículo y ubicación de un ajuste de existencias (se guardan los datos descriptivos al crear el registro)
+export type LocationStockKey = Omit<LocationStock, 'id' | 'quantity' | 'updatedAt'>;
+
+export interface LocationStockRepository {
+  findAll(filters?: LocationStockFilters): Promise<LocationStock[]>;
+  // Suma o resta existencias en la ubicación; devuelve null si quedarían en negativo
+  adjustQuantity(key: LocationStockKey, delta: number): Promise<LocationStock | null>;
+}
+
+export interface LocationStockFilters {
+  itemId?: string;
+  itemIds?: string[];
+  warehouseId?: string;
+  binId?: string;
+  withStock?: boolean;
+}
+
+export class MongoLocationStockRepository implements LocationStockRepository {
+
+  async findAll(filters: LocationStockFilters = {}): Promise<LocationStock[]> {
+    const query: any = {};
+
+    if (filters.itemId) query.itemId = filters.itemId;
+    if (filters.itemIds) query.itemId = { $in: filters.itemIds };
+    if (filters.warehouseId) query.warehouseId = filters.warehouseId;
+    if (filters.binId) query.binId = filters.binId;
+    if (filters.withStock) query.quantity = { $gt: 0 };
+
+    const stocks = await LocationStockModel.find(query).sort({ itemSku: 1, warehouseCode: 1, binCode: 1 });
+    return stocks.map(stock => this.mapToEntity(stock));
+  }
+
+  async adjustQuantity(key: LocationStockKey, delta: number): Promise<LocationStock | null> {
+    const filter: any = { itemId: key.itemId, warehouseId: key.warehouseId, binId: key.binId || null };
+
+    if (delta < 0) {
+      filter.quantity = { $gte: -delta };
+      const stock = await LocationStockModel.findOneAndUpdate(
+        filter,
+        { $inc: { quantity: delta }, $set: { updatedAt: new Date() } },
+        { new: true }
+      );
+      return stock ? this.mapToEntity(stock) : null;
+    }
+
+    const stock = await LocationStockModel.findOneAndUpdate(
+      filter,
+      {
+        $inc: { quantity: delta },
+        $set: {
+          itemName: key.itemName,
+          itemSku: key.itemSku,
+          warehouseCode: key.warehouseCode,
+          binCode: key.binCode,
+          unit: key.unit,
+          updatedAt: new Date()
+        }
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    return stock ? this.mapToEntity(stock) : null;
+  }
+
+  private mapToEntity(doc: LocationStockDocument): LocationStock {
+    return {
+      id: doc._id.toString(),
+      itemId: doc.itemId,
+      itemName: doc.itemName,
+      itemSku: doc.itemSku,
+      warehouseId: doc.warehouseId,
+      warehouseCode: doc.warehouseCode,
+      binId: doc.binId || undefined,
+      binCode: doc.binCode,
+      quantity: doc.quantity,
+      unit: doc.unit,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -1,4 +1,13 @@
-import { ManufacturingOrder, ManufacturingOrderStatus } from '../../domain/entities/ManufacturingOrder';
+import {
+  ManufacturingOrder,
+  ManufacturingOrderStatus,
+  PauseDetails,
+  TimeSegmentKind,
+  startTimeTracker,
+  switchTimeSegment,
+  stopTimeTracker,
+  getTrackedMinutes
+} from '../../domain/entities/ManufacturingOrder';
 import { ManufacturingOrderModel, ManufacturingOrderDocument } from '../database/models/ManufacturingOrderModel';
 
 export interface ManufacturingOrderRepository {
@@ -8,19 +17,23 @@ export interface ManufacturingOrderRepository {
   update(id: string, updates: Partial<ManufacturingOrder>): Promise<ManufacturingOrder | null>;
   delete(id: string): Promise<boolean>;
   startProduction(id: string): Promise<ManufacturingOrder | null>;
-  pauseProduction(id: string): Promise<ManufacturingOrder | null>;
+  pauseProduction(id: string, pause: PauseDetails): Promise<ManufacturingOrder | null>;
   resumeProduction(id: string): Promise<ManufacturingOrder | null>;
   getCurrentProductionTime(id: string): Promise<number>;
   completeComponent(orderId: string, componentId: string): Promise<ManufacturingOrder | null>;
   completeOrder(id: string): Promise<ManufacturingOrder | null>;
   cancelOrder(id: string): Promise<ManufacturingOrder | null>;
+  // Suma (o resta) unidades entregadas sin pisar otros cambios de la orden
+  adjustDeliveredQuantity(id: string, delta: number): Promise<ManufacturingOrder | null>;
   getOrdersByStatus(status: ManufacturingOrderStatus): Promise<ManufacturingOrder[]>;
   getOverdueOrders(): Promise<ManufacturingOrder[]>;
   getActiveOrders(): Promise<ManufacturingOrder[]>;
+  // Registros con algún tramo de pausa (propio o de sus componentes)
+  findWithPauses(): Promise<ManufacturingOrder[]>;
   getStats(): Promise<any>;
   // Métodos para cronómetros por componente
   startComponentProduction(orderId: string, componentId: string): Promise<ManufacturingOrder | null>;
-  pauseComponentProduction(orderId: string, componentId: string): Promise<ManufacturingOrder | null>;
+  pauseComponentProduction(orderId: string, componentId: string, pause: PauseDetails): Promise<ManufacturingOrder | null>;
   resumeComponentProduction(orderId: string, componentId: string): Promise<ManufacturingOrder | null>;
   getComponentProductionTime(orderId: string, componentId: string): Promise<number>;
   // Métodos para materiales en componentes
@@ -31,6 +44,8 @@ export interface ManufacturingOrderRepository {
 export interface ManufacturingOrderFilters {
   status?: ManufacturingOrderStatus;
   clientName?: string;
+  customerId?: string;
+  salesOrderId?: string;
   modelId?: string;
   overdue?: boolean;
   startDate?: Date;
@@ -63,6 +78,14 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
       query.clientName = { $regex: filters.clientName, $options: 'i' };
     }
 
+    if (filters.customerId) {
+      query.customerId = filters.customerId;
+    }
+
+    if (filters.salesOrderId) {
+      query.salesOrderId = filters.salesOrderId;
+    }
+
     if (filters.modelId) {
       query.modelId = filters.modelId;
     }
@@ -109,12 +132,7 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
       {
         status: ManufacturingOrderStatus.IN_PROGRESS,
         startedAt: now,
-        timeTracker: {
-          startTime: now,
-          totalTimeMinutes: 0,
-          isPaused: false,
-          totalPauseMinutes: 0
-        },
+        timeTracker: startTimeTracker(now),
         updatedAt: now
       },
       { new: true }
@@ -122,16 +140,19 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
     return order ? this.mapToEntity(order) : null;
   }
 
-  async pauseProduction(id: string): Promise<ManufacturingOrder | null> {
+  async pauseProduction(id: string, pause: PauseDetails): Promise<ManufacturingOrder | null> {
+    const currentOrder = await ManufacturingOrderModel.findById(id);
+    if (!currentOrder || !currentOrder.timeTracker) {
+      return null;
+    }
+
+    // Se cierra el tramo de trabajo y se abre la pausa con su motivo
     const now = new Date();
     const order = await ManufacturingOrderModel.findByIdAndUpdate(
       id,
       {
         status: ManufacturingOrderStatus.PAUSED,
-        $set: {
-          'timeTracker.isPaused': true,
-          'timeTracker.pauseStartTime': now
-        },
+        timeTracker: switchTimeSegment(currentOrder.timeTracker, TimeSegmentKind.PAUSE, now, pause),
         updatedAt: now
       },
       { new: true }
@@ -140,30 +161,18 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
   }
 
   async resumeProduction(id: string): Promise<ManufacturingOrder | null> {
-    const now = new Date();
-
-    // First, get the current order to calculate pause time
     const currentOrder = await ManufacturingOrderModel.findById(id);
-    if (!currentOrder || !currentOrder.timeTracker || !currentOrder.timeTracker.pauseStartTime) {
+    if (!currentOrder || !currentOrder.timeTracker || !currentOrder.timeTracker.isPaused) {
       return null;
     }
 
-    // Calculate pause time and add it to total pause minutes
-    const pauseTime = now.getTime() - currentOrder.timeTracker.pauseStartTime.getTime();
-    const pauseMinutes = Math.round(pauseTime / (1000 * 60));
-    const newTotalPauseMinutes = (currentOrder.timeTracker.totalPauseMinutes || 0) + pauseMinutes;
-
+    // Se cierra la pausa y se abre un nuevo tramo de trabajo
+    const now = new Date();
     const order = await ManufacturingOrderModel.findByIdAndUpdate(
       id,
       {
         status: ManufacturingOrderStatus.IN_PROGRESS,
-        $set: {
-          'timeTracker.isPaused': false,
-          'timeTracker.totalPauseMinutes': newTotalPauseMinutes
-        },
-        $unset: {
-          'timeTracker.pauseStartTime': 1
-        },
+        timeTracker: switchTimeSegment(currentOrder.timeTracker, TimeSegmentKind.RUN, now),
         updatedAt: now
       },
       { new: true }
@@ -177,19 +186,7 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
       return 0;
     }
 
-    const now = new Date();
-    let totalTime = now.getTime() - order.timeTracker.startTime.getTime();
-
-    // Si está pausado actualmente, agregar tiempo de pausa actual
-    if (order.timeTracker.isPaused && order.timeTracker.pauseStartTime) {
-      const currentPauseTime = now.getTime() - order.timeTracker.pauseStartTime.getTime();
-      totalTime -= currentPauseTime;
-    }
-
-    // Restar tiempo total de pausas anteriores
-    totalTime -= (order.timeTracker.totalPauseMinutes * 60 * 1000);
-
-    return Math.max(0, Math.round(totalTime / (1000 * 60))); // en minutos
+    return Math.round(getTrackedMinutes(order.timeTracker).runMinutes); // en minutos
   }
 
   async completeComponent(orderId: string, componentId: string): Promise<ManufacturingOrder | null> {
@@ -200,15 +197,17 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
     const component = orderDoc.components.find(c => c.componentId === componentId);
     if (!component) return null;
 
-    // Ahora actualizar con la cantidad requerida
+    // Ahora actualizar con la cantidad requerida y detener su cronómetro
+    const now = new Date();
     const order = await ManufacturingOrderModel.findOneAndUpdate(
       { _id: orderId, 'components.componentId': componentId },
       {
         $set: {
           'components.$.isCompleted': true,
-          'components.$.completedAt': new Date(),
+          'components.$.completedAt': now,
           'components.$.quantityCompleted': component.quantityRequired,
-          updatedAt: new Date()
+          ...(component.timeTracker ? { 'components.$.timeTracker': stopTimeTracker(component.timeTracker, now) } : {}),
+          updatedAt: now
         }
       },
       { new: true }
@@ -217,24 +216,43 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
   }
 
   async completeOrder(id: string): Promise<ManufacturingOrder | null> {
+    const orderDoc = await ManufacturingOrderModel.findById(id);
+    if (!orderDoc) return null;
+
+    const now = new Date();
     const order = await ManufacturingOrderModel.findByIdAndUpdate(
       id,
       {
         status: ManufacturingOrderStatus.COMPLETED,
-        completedAt: new Date(),
-        updatedAt: new Date()
+        completedAt: now,
+        ...(orderDoc.timeTracker ? { timeTracker: stopTimeTracker(orderDoc.timeTracker, now) } : {}),
+        updatedAt: now
       },
       { new: true }
     );
     return order ? this.mapToEntity(order) : null;
   }
 
+  async adjustDeliveredQuantity(id: string, delta: number): Promise<ManufacturingOrder | null> {
+    const order = await ManufacturingOrderModel.findByIdAndUpdate(
+      id,
+      { $inc: { deliveredQuantity: delta }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return order ? this.mapToEntity(order) : null;
+  }
+
   async cancelOrder(id: string): Promise<ManufacturingOrder | null> {
+    const orderDoc = await ManufacturingOrderModel.findById(id);
+    if (!orderDoc) return null;
+
+    const now = new Date();
     const order = await ManufacturingOrderModel.findByIdAndUpdate(
       id,
       {
         status: ManufacturingOrderStatus.CANCELLED,
-        updatedAt: new Date()
+        ...(orderDoc.timeTracker ? { timeTracker: stopTimeTracker(orderDoc.timeTracker, now) } : {}),
+        updatedAt: now
       },
       { new: true }
     );
@@ -323,12 +341,7 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
       { _id: orderId, 'components.componentId': componentId },
       {
         $set: {
-          'components.$.timeTracker': {
-            startTime: now,
-            totalTimeMinutes: 0,
-            isPaused: false,
-            totalPauseMinutes: 0
-          },
+          'components.$.timeTracker': startTimeTracker(now),
           'components.$.startedAt': now,
           updatedAt: now
         }
@@ -338,14 +351,17 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
     return order ? this.mapToEntity(order) : null;
   }
 
-  async pauseComponentProduction(orderId: string, componentId: string): Promise<ManufacturingOrder | null> {
+  async pauseComponentProduction(orderId: string, componentId: string, pause: PauseDetails): Promise<ManufacturingOrder | null> {
+    const currentOrder = await ManufacturingOrderModel.findById(orderId);
+    const component = currentOrder?.components.find(c => c.componentId === componentId);
+    if (!component || !component.timeTracker) return null;
+
     const now = new Date();
     const order = await ManufacturingOrderModel.findOneAndUpdate(
       { _id: orderId, 'components.componentId': componentId },
       {
         $set: {
-          'components.$.timeTracker.isPaused': true,
-          'components.$.timeTracker.pauseStartTime': now,
+          'components.$.timeTracker': switchTimeSegment(component.timeTracker, TimeSegmentKind.PAUSE, now, pause),
           updatedAt: now
         }
       },
@@ -355,32 +371,17 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
   }
 
   async resumeComponentProduction(orderId: string, componentId: string): Promise<ManufacturingOrder | null> {
-    const now = new Date();
-
-    // Primero obtener la orden para calcular el tiempo de pausa
     const currentOrder = await ManufacturingOrderModel.findById(orderId);
-    if (!currentOrder) return null;
-
-    const component = currentOrder.components.find(c => c.componentId === componentId);
-    if (!component || !component.timeTracker || !component.timeTracker.pauseStartTime) {
-      return null;
-    }
-
-    // Calcular tiempo de pausa y agregarlo al total
-    const pauseTime = now.getTime() - component.timeTracker.pauseStartTime.getTime();
-    const pauseMinutes = Math.round(pauseTime / (1000 * 60));
-    const newTotalPauseMinutes = (component.timeTracker.totalPauseMinutes || 0) + pauseMinutes;
+    const component = currentOrder?.components.find(c => c.componentId === componentId);
+    if (!component || !component.timeTracker || !component.timeTracker.isPaused) return null;
 
+    const now = new Date();
     const order = await ManufacturingOrderModel.findOneAndUpdate(
       { _id: orderId, 'components.componentId': componentId },
       {
         $set: {
-          'components.$.timeTracker.isPaused': false,
-          'components.$.timeTracker.totalPauseMinutes': newTotalPauseMinutes,
+          'components.$.timeTracker': switchTimeSegment(component.timeTracker, TimeSegmentKind.RUN, now),
           updatedAt: now
-        },
-        $unset: {
-          'components.$.timeTracker.pauseStartTime': 1
         }
       },
       { new: true }
@@ -395,19 +396,7 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
     const component = order.components.find(c => c.componentId === componentId);
     if (!component || !component.timeTracker) return 0;
 
-    const now = new Date();
-    let totalTime = now.getTime() - component.timeTracker.startTime.getTime();
-
-    // Si está pausado actualmente, restar tiempo de pausa actual
-    if (component.timeTracker.isPaused && component.timeTracker.pauseStartTime) {
-      const currentPauseTime = now.getTime() - component.timeTracker.pauseStartTime.getTime();
-      totalTime -= currentPauseTime;
-    }
-
-    // Restar tiempo total de pausas anteriores
-    totalTime -= (component.timeTracker.totalPauseMinutes * 60 * 1000);
-
-    return Math.max(0, Math.round(totalTime / (1000 * 60))); // en minutos
+    return Math.round(getTrackedMinutes(component.timeTracker).runMinutes); // en minutos
   }
 
   // Métodos para materiales en componentes
@@ -441,6 +430,16 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
     return order ? this.mapToEntity(order) : null;
   }
 
+  async findWithPauses(): Promise<ManufacturingOrder[]> {
+    const orders = await ManufacturingOrderModel.find({
+      $or: [
+        { 'timeTracker.segments.kind': TimeSegmentKind.PAUSE },
+        { 'components.timeTracker.segments.kind': TimeSegmentKind.PAUSE }
+      ]
+    });
+    return orders.map(order => this.mapToEntity(order));
+  }
+
   private mapToEntity(doc: ManufacturingOrderDocument): ManufacturingOrder {
     return {
       id: doc._id.toString(),
@@ -449,10 +448,14 @@ export class MongoManufacturingOrderRepository implements ManufacturingOrderRepo
       modelSku: doc.modelSku,
       quantity: doc.quantity,
       clientName: doc.clientName,
+      customerId: doc.customerId,
+      salesOrderId: doc.salesOrderId,
+      deliveredQuantity: doc.deliveredQuantity || 0,
       dueDate: doc.dueDate,
       createdDate: doc.createdDate,
       status: doc.status,
       components: doc.components,
+      bomRevisionId: doc.bomRevisionId,
       notes: doc.notes,
       estimatedHours: doc.estimatedHours,
       startedAt: doc.startedAt,
@@ -0,0 +1,105 @@
+import { MrpRun, PlannedOrder, PlannedOrderStatus } from '../../domain/entities/Mrp';
+import { MrpRunModel, MrpRunDocument } from '../database/models/MrpRunModel';
+
+export interface MrpRunRepository {
+  create(run: Omit<MrpRun, 'id' | 'createdAt' | 'updatedAt'>): Promise<MrpRun>;
+  findById(id: string): Promise<MrpRun | null>;
+  findLatest(): Promise<MrpRun | null>;
+  // Actualiza una orden planificada solo si sigue en el estado indicado
+  updatePlannedOrderIfStatus(
+    runId: string,
+    number: number,
+    status: PlannedOrderStatus,
+    updates: Partial<PlannedOrder>
+  ): Promise<MrpRun | null>;
+}
+
+export class MongoMrpRunRepository implements MrpRunRepository {
+
+  async create(runData: Omit<MrpRun, 'id' | 'createdAt' | 'updatedAt'>): Promise<MrpRun> {
+    const run = new MrpRunModel(runData);
+    const savedRun = await run.save();
+    return this.mapToEntity(savedRun);
+  }
+
+  async findById(id: string): Promise<MrpRun | null> {
+    const run = await MrpRunModel.findById(id);
+    return run ? this.mapToEntity(run) : null;
+  }
+
+  async findLatest(): Promise<MrpRun | null> {
+    const run = await MrpRunModel.findOne().sort({ runAt: -1 });
+    return run ? this.mapToEntity(run) : null;
+  }
+
+  async updatePlannedOrderIfStatus(
+    runId: string,
+    number: number,
+    status: PlannedOrderStatus,
+    updates: Partial<PlannedOrder>
+  ): Promise<MrpRun | null> {
+    const set: Record<string, any> = { updatedAt: new Date() };
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      set[`plannedOrders.$.${field}`] = value;
+    }
+
+    const run = await MrpRunModel.findOneAndUpdate(
+      { _id: runId, plannedOrders: { $elemMatch: { number, status } } },
+      { $set: set },
+      { new: true }
+    );
+    return run ? this.mapToEntity(run) : null;
+  }
+
+  private mapToEntity(doc: MrpRunDocument): MrpRun {
+    return {
+      id: doc._id.toString(),
+      runAt: doc.runAt,
+      runBy: doc.runBy,
+      items: (doc.items || []).map(item => ({
+        itemId: item.itemId,
+        itemName: item.itemName,
+        itemSku: item.itemSku,
+        unit: item.unit,
+        type: item.type,
+        lowLevelCode: item.lowLevelCode,
+        onHand: item.onHand,
+        reserved: item.reserved,
+        minimumStock: item.minimumStock,
+        maximumStock: item.maximumStock,
+        leadTimeDays: item.leadTimeDays,
+        periods: (item.periods || []).map(period => ({
+          date: period.date,
+          grossRequirement: period.grossRequirement,
+          scheduledReceipts: period.scheduledReceipts,
+          plannedReceipts: period.plannedReceipts,
+          projectedAvailable: period.projectedAvailable,
+          netRequirement: period.netRequirement
+        }))
+      })),
+      plannedOrders: (doc.plannedOrders || []).map(order => ({
+        number: order.number,
+        type: order.type,
+        itemId: order.itemId,
+        itemName: order.itemName,
+        itemSku: order.itemSku,
+        unit: order.unit,
+        quantity: order.quantity,
+        releaseDate: order.releaseDate,
+        dueDate: order.dueDate,
+        isLate: order.isLate,
+        supplierId: order.supplierId,
+        supplierName: order.supplierName,
+        sources: order.sources || [],
+        status: order.status,
+        firmedAt: order.firmedAt,
+        firmedBy: order.firmedBy,
+        firmedReferenceId: order.firmedReferenceId,
+        firmedReference: order.firmedReference
+      })),
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
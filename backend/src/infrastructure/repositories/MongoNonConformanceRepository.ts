@@ -0,0 +1,91 @@
+import { NonConformance, NonConformanceStatus } from '../../domain/entities/NonConformance';
+import { NonConformanceModel, NonConformanceDocument } from '../database/models/NonConformanceModel';
+
+export interface NonConformanceRepository {
+  create(nonConformance: Omit<NonConformance, 'id' | 'createdAt' | 'updatedAt'>): Promise<NonConformance>;
+  findById(id: string): Promise<NonConformance | null>;
+  findAll(filters?: NonConformanceFilters): Promise<NonConformance[]>;
+  findLatestNumber(): Promise<number>;
+  // Registra la disposición solo si la NCR sigue abierta
+  close(id: string, updates: Partial<NonConformance>): Promise<NonConformance | null>;
+}
+
+export interface NonConformanceFilters {
+  cardId?: string;
+  orderId?: string;
+  modelId?: string;
+  status?: NonConformanceStatus;
+  from?: Date;
+  to?: Date;
+}
+
+export class MongoNonConformanceRepository implements NonConformanceRepository {
+
+  async create(nonConformanceData: Omit<NonConformance, 'id' | 'createdAt' | 'updatedAt'>): Promise<NonConformance> {
+    const nonConformance = new NonConformanceModel(nonConformanceData);
+    const savedNonConformance = await nonConformance.save();
+    return this.mapToEntity(savedNonConformance);
+  }
+
+  async findById(id: string): Promise<NonConformance | null> {
+    const nonConformance = await NonConformanceModel.findById(id);
+    return nonConformance ? this.mapToEntity(nonConformance) : null;
+  }
+
+  async findAll(filters: NonConformanceFilters = {}): Promise<NonConformance[]> {
+    const query: any = {};
+
+    if (filters.cardId) query.cardId = filters.cardId;
+    if (filters.orderId) query.orderId = filters.orderId;
+    if (filters.modelId) query.modelId = filters.modelId;
+    if (filters.status) query.status = filters.status;
+
+    if (filters.from || filters.to) {
+      query.createdAt = {};
+      if (filters.from) query.createdAt.$gte = filters.from;
+      if (filters.to) query.createdAt.$lte = filters.to;
+    }
+
+    const nonConformances = await NonConformanceModel.find(query).sort({ ncrNumber: -1 });
+    return nonConformances.map(nonConformance => this.mapToEntity(nonConformance));
+  }
+
+  async findLatestNumber(): Promise<number> {
+    const latest = await NonConformanceModel.findOne().sort({ ncrNumber: -1 });
+    return latest ? latest.ncrNumber : 0;
+  }
+
+  async close(id: string, updates: Partial<NonConformance>): Promise<NonConformance | null> {
+    const nonConformance = await NonConformanceModel.findOneAndUpdate(
+      { _id: id, status: NonConformanceStatus.OPEN },
+      { $set: { ...updates, status: NonConformanceStatus.CLOSED, updatedAt: new Date() } },
+      { new: true, runValidators: true }
+    );
+    return nonConformance ? this.mapToEntity(nonConformance) : null;
+  }
+
+  private mapToEntity(doc: NonConformanceDocument): NonConformance {
+    return {
+      id: doc._id.toString(),
+      ncrNumber: doc.ncrNumber,
+      cardId: doc.cardId,
+      cardLabel: doc.cardLabel,
+      orderId: doc.orderId,
+      modelId: doc.modelId,
+      modelName: doc.modelName,
+      defectType: doc.defectType,
+      description: doc.description,
+      affectedComponents: doc.affectedComponents,
+      status: doc.status,
+      disposition: doc.disposition,
+      dispositionNotes: doc.dispositionNotes,
+      reworkCardId: doc.reworkCardId,
+      scrapMovementIds: doc.scrapMovementIds,
+      reportedBy: doc.reportedBy,
+      dispositionedBy: doc.dispositionedBy,
+      dispositionedAt: doc.dispositionedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
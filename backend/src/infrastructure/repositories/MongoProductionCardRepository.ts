@@ -1,4 +1,7 @@
 import { ProductionCard, ProductionCardStatus, ProductionCardPriority } from '../../domain/entities/ProductionCard';
+import { OperationStatus, PauseDetails, TimeSegmentKind, startTimeTracker, switchTimeSegment, stopTimeTracker, getTrackedMinutes } from '../../domain/entities/ManufacturingOrder';
+import { CardSchedule } from '../../domain/entities/ProductionSchedule';
+import { InspectionRecord } from '../../domain/entities/InspectionPlan';
 import { ProductionCardModel, ProductionCardDocument } from '../database/models/ProductionCardModel';
 
 export interface ProductionCardRepository {
@@ -6,24 +9,38 @@ export interface ProductionCardRepository {
   findById(id: string): Promise<ProductionCard | null>;
   findAll(filters?: ProductionCardFilters): Promise<ProductionCard[]>;
   findByOrderId(orderId: string): Promise<ProductionCard[]>;
+  // Actualiza el total de tarjetas de una orden (al añadir una tarjeta de retrabajo)
+  setTotalCards(orderId: string, totalCards: number): Promise<void>;
   update(id: string, updates: Partial<ProductionCard>): Promise<ProductionCard | null>;
   delete(id: string): Promise<boolean>;
   startProduction(id: string): Promise<ProductionCard | null>;
-  pauseProduction(id: string): Promise<ProductionCard | null>;
+  pauseProduction(id: string, pause: PauseDetails): Promise<ProductionCard | null>;
   resumeProduction(id: string): Promise<ProductionCard | null>;
   getCurrentProductionTime(id: string): Promise<number>;
   completeComponent(cardId: string, componentId: string): Promise<ProductionCard | null>;
-  completeCard(id: string): Promise<ProductionCard | null>;
+  completeCard(id: string, serialNumber?: string): Promise<ProductionCard | null>;
   cancelCard(id: string): Promise<ProductionCard | null>;
   getCardsByStatus(status: ProductionCardStatus): Promise<ProductionCard[]>;
   getCardsByPriority(priority: ProductionCardPriority): Promise<ProductionCard[]>;
   getOverdueCards(): Promise<ProductionCard[]>;
   getActiveCards(): Promise<ProductionCard[]>;
+  // Registros con algún tramo de pausa (propio o de sus componentes)
+  findWithPauses(): Promise<ProductionCard[]>;
   // Métodos para cronómetros por componente
   startComponentProduction(cardId: string, componentId: string): Promise<ProductionCard | null>;
-  pauseComponentProduction(cardId: string, componentId: string): Promise<ProductionCard | null>;
+  pauseComponentProduction(cardId: string, componentId: string, pause: PauseDetails): Promise<ProductionCard | null>;
   resumeComponentProduction(cardId: string, componentId: string): Promise<ProductionCard | null>;
   getComponentProductionTime(cardId: string, componentId: string): Promise<number>;
+  // Métodos para operaciones de la ruta de fabricación
+  startOperation(cardId: string, operationId: string): Promise<ProductionCard | null>;
+  completeOperation(cardId: string, operationId: string): Promise<ProductionCard | null>;
+  // Guardar el resultado de la programación de capacidad finita
+  updateSchedule(schedule: CardSchedule, scheduledAt: Date): Promise<ProductionCard | null>;
+  setPinnedStart(id: string, pinnedStart?: Date): Promise<ProductionCard | null>;
+  // Añade una inspección de calidad al historial de la tarjeta
+  addInspection(id: string, inspection: InspectionRecord): Promise<ProductionCard | null>;
+  // Marca la última inspección como aceptada por concesión
+  acceptLastInspection(id: string, ncrLabel: string): Promise<ProductionCard | null>;
   // Métodos para materiales en componentes
   updateComponentMaterials(cardId: string, componentId: string, materials: any[]): Promise<ProductionCard | null>;
   addMaterialToComponent(cardId: string, componentId: string, material: any): Promise<ProductionCard | null>;
@@ -125,6 +142,10 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     return cards.map(card => this.mapToEntity(card));
   }
 
+  async setTotalCards(orderId: string, totalCards: number): Promise<void> {
+    await ProductionCardModel.updateMany({ orderId }, { $set: { totalCards, updatedAt: new Date() } });
+  }
+
   async update(id: string, updates: Partial<ProductionCard>): Promise<ProductionCard | null> {
     const card = await ProductionCardModel.findByIdAndUpdate(
       id,
@@ -146,12 +167,7 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
       {
         status: ProductionCardStatus.IN_PROGRESS,
         startedAt: now,
-        timeTracker: {
-          startTime: now,
-          totalTimeMinutes: 0,
-          isPaused: false,
-          totalPauseMinutes: 0
-        },
+        timeTracker: startTimeTracker(now),
         updatedAt: now
       },
       { new: true }
@@ -159,16 +175,19 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     return card ? this.mapToEntity(card) : null;
   }
 
-  async pauseProduction(id: string): Promise<ProductionCard | null> {
+  async pauseProduction(id: string, pause: PauseDetails): Promise<ProductionCard | null> {
+    const currentCard = await ProductionCardModel.findById(id);
+    if (!currentCard || !currentCard.timeTracker) {
+      return null;
+    }
+
+    // Se cierra el tramo de trabajo y se abre la pausa con su motivo
     const now = new Date();
     const card = await ProductionCardModel.findByIdAndUpdate(
       id,
       {
         status: ProductionCardStatus.PAUSED,
-        $set: {
-          'timeTracker.isPaused': true,
-          'timeTracker.pauseStartTime': now
-        },
+        timeTracker: switchTimeSegment(currentCard.timeTracker, TimeSegmentKind.PAUSE, now, pause),
         updatedAt: now
       },
       { new: true }
@@ -177,30 +196,18 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
   }
 
   async resumeProduction(id: string): Promise<ProductionCard | null> {
-    const now = new Date();
-
-    // First, get the current card to calculate pause time
     const currentCard = await ProductionCardModel.findById(id);
-    if (!currentCard || !currentCard.timeTracker || !currentCard.timeTracker.pauseStartTime) {
+    if (!currentCard || !currentCard.timeTracker || !currentCard.timeTracker.isPaused) {
       return null;
     }
 
-    // Calculate pause time and add it to total pause minutes
-    const pauseTime = now.getTime() - currentCard.timeTracker.pauseStartTime.getTime();
-    const pauseMinutes = Math.round(pauseTime / (1000 * 60));
-    const newTotalPauseMinutes = (currentCard.timeTracker.totalPauseMinutes || 0) + pauseMinutes;
-
+    // Se cierra la pausa y se abre un nuevo tramo de trabajo
+    const now = new Date();
     const card = await ProductionCardModel.findByIdAndUpdate(
       id,
       {
         status: ProductionCardStatus.IN_PROGRESS,
-        $set: {
-          'timeTracker.isPaused': false,
-          'timeTracker.totalPauseMinutes': newTotalPauseMinutes
-        },
-        $unset: {
-          'timeTracker.pauseStartTime': 1
-        },
+        timeTracker: switchTimeSegment(currentCard.timeTracker, TimeSegmentKind.RUN, now),
         updatedAt: now
       },
       { new: true }
@@ -214,19 +221,7 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
       return 0;
     }
 
-    const now = new Date();
-    let totalTime = now.getTime() - card.timeTracker.startTime.getTime();
-
-    // Si está pausado actualmente, agregar tiempo de pausa actual
-    if (card.timeTracker.isPaused && card.timeTracker.pauseStartTime) {
-      const currentPauseTime = now.getTime() - card.timeTracker.pauseStartTime.getTime();
-      totalTime -= currentPauseTime;
-    }
-
-    // Restar tiempo total de pausas anteriores
-    totalTime -= (card.timeTracker.totalPauseMinutes * 60 * 1000);
-
-    return Math.max(0, Math.round(totalTime / (1000 * 60))); // en minutos
+    return Math.round(getTrackedMinutes(card.timeTracker).runMinutes); // en minutos
   }
 
   async completeComponent(cardId: string, componentId: string): Promise<ProductionCard | null> {
@@ -237,15 +232,22 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     const component = cardDoc.components.find(c => c.componentId === componentId);
     if (!component) return null;
 
-    // Ahora actualizar con la cantidad requerida
+    // Ahora actualizar con la cantidad requerida y detener su cronómetro, solo si el componente sigue
+    // pendiente en una tarjeta abierta (dos envíos simultáneos no pueden completarlo dos veces)
+    const now = new Date();
     const card = await ProductionCardModel.findOneAndUpdate(
-      { _id: cardId, 'components.componentId': componentId },
+      {
+        _id: cardId,
+        status: { $in: [ProductionCardStatus.IN_PROGRESS, ProductionCardStatus.PAUSED] },
+        components: { $elemMatch: { componentId, isCompleted: false } }
+      },
       {
         $set: {
           'components.$.isCompleted': true,
-          'components.$.completedAt': new Date(),
+          'components.$.completedAt': now,
           'components.$.quantityCompleted': component.quantityRequired,
-          updatedAt: new Date()
+          ...(component.timeTracker ? { 'components.$.timeTracker': stopTimeTracker(component.timeTracker, now) } : {}),
+          updatedAt: now
         }
       },
       { new: true }
@@ -253,13 +255,20 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     return card ? this.mapToEntity(card) : null;
   }
 
-  async completeCard(id: string): Promise<ProductionCard | null> {
-    const card = await ProductionCardModel.findByIdAndUpdate(
-      id,
+  async completeCard(id: string, serialNumber?: string): Promise<ProductionCard | null> {
+    const cardDoc = await ProductionCardModel.findById(id);
+    if (!cardDoc) return null;
+
+    // Solo si la tarjeta sigue abierta: no se completa dos veces
+    const now = new Date();
+    const card = await ProductionCardModel.findOneAndUpdate(
+      { _id: id, status: { $in: [ProductionCardStatus.IN_PROGRESS, ProductionCardStatus.PAUSED] } },
       {
         status: ProductionCardStatus.COMPLETED,
-        completedAt: new Date(),
-        updatedAt: new Date()
+        completedAt: now,
+        ...(cardDoc.timeTracker ? { timeTracker: stopTimeTracker(cardDoc.timeTracker, now) } : {}),
+        ...(serialNumber ? { serialNumber } : {}),
+        updatedAt: now
       },
       { new: true }
     );
@@ -267,11 +276,16 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
   }
 
   async cancelCard(id: string): Promise<ProductionCard | null> {
+    const cardDoc = await ProductionCardModel.findById(id);
+    if (!cardDoc) return null;
+
+    const now = new Date();
     const card = await ProductionCardModel.findByIdAndUpdate(
       id,
       {
         status: ProductionCardStatus.CANCELLED,
-        updatedAt: new Date()
+        ...(cardDoc.timeTracker ? { timeTracker: stopTimeTracker(cardDoc.timeTracker, now) } : {}),
+        updatedAt: now
       },
       { new: true }
     );
@@ -312,12 +326,7 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
       { _id: cardId, 'components.componentId': componentId },
       {
         $set: {
-          'components.$.timeTracker': {
-            startTime: now,
-            totalTimeMinutes: 0,
-            isPaused: false,
-            totalPauseMinutes: 0
-          },
+          'components.$.timeTracker': startTimeTracker(now),
           'components.$.startedAt': now,
           updatedAt: now
         }
@@ -327,14 +336,17 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     return card ? this.mapToEntity(card) : null;
   }
 
-  async pauseComponentProduction(cardId: string, componentId: string): Promise<ProductionCard | null> {
+  async pauseComponentProduction(cardId: string, componentId: string, pause: PauseDetails): Promise<ProductionCard | null> {
+    const currentCard = await ProductionCardModel.findById(cardId);
+    const component = currentCard?.components.find(c => c.componentId === componentId);
+    if (!component || !component.timeTracker) return null;
+
     const now = new Date();
     const card = await ProductionCardModel.findOneAndUpdate(
       { _id: cardId, 'components.componentId': componentId },
       {
         $set: {
-          'components.$.timeTracker.isPaused': true,
-          'components.$.timeTracker.pauseStartTime': now,
+          'components.$.timeTracker': switchTimeSegment(component.timeTracker, TimeSegmentKind.PAUSE, now, pause),
           updatedAt: now
         }
       },
@@ -344,32 +356,17 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
   }
 
   async resumeComponentProduction(cardId: string, componentId: string): Promise<ProductionCard | null> {
-    const now = new Date();
-
-    // Primero obtener la tarjeta para calcular el tiempo de pausa
     const currentCard = await ProductionCardModel.findById(cardId);
-    if (!currentCard) return null;
-
-    const component = currentCard.components.find(c => c.componentId === componentId);
-    if (!component || !component.timeTracker || !component.timeTracker.pauseStartTime) {
-      return null;
-    }
-
-    // Calcular tiempo de pausa y agregarlo al total
-    const pauseTime = now.getTime() - component.timeTracker.pauseStartTime.getTime();
-    const pauseMinutes = Math.round(pauseTime / (1000 * 60));
-    const newTotalPauseMinutes = (component.timeTracker.totalPauseMinutes || 0) + pauseMinutes;
+    const component = currentCard?.components.find(c => c.componentId === componentId);
+    if (!component || !component.timeTracker || !component.timeTracker.isPaused) return null;
 
+    const now = new Date();
     const card = await ProductionCardModel.findOneAndUpdate(
       { _id: cardId, 'components.componentId': componentId },
       {
         $set: {
-          'components.$.timeTracker.isPaused': false,
-          'components.$.timeTracker.totalPauseMinutes': newTotalPauseMinutes,
+          'components.$.timeTracker': switchTimeSegment(component.timeTracker, TimeSegmentKind.RUN, now),
           updatedAt: now
-        },
-        $unset: {
-          'components.$.timeTracker.pauseStartTime': 1
         }
       },
       { new: true }
@@ -384,22 +381,102 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     const component = card.components.find(c => c.componentId === componentId);
     if (!component || !component.timeTracker) return 0;
 
+    return Math.round(getTrackedMinutes(component.timeTracker).runMinutes); // en minutos
+  }
+
+  // Métodos para materiales en componentes
+  // Métodos para operaciones de la ruta de fabricación
+  async startOperation(cardId: string, operationId: string): Promise<ProductionCard | null> {
+    const now = new Date();
+    const card = await ProductionCardModel.findOneAndUpdate(
+      { _id: cardId, operations: { $elemMatch: { operationId, status: OperationStatus.PENDING } } },
+      {
+        $set: {
+          'operations.$.status': OperationStatus.IN_PROGRESS,
+          'operations.$.startedAt': now,
+          updatedAt: now
+        }
+      },
+      { new: true }
+    );
+    return card ? this.mapToEntity(card) : null;
+  }
+
+  async completeOperation(cardId: string, operationId: string): Promise<ProductionCard | null> {
     const now = new Date();
-    let totalTime = now.getTime() - component.timeTracker.startTime.getTime();
+    const card = await ProductionCardModel.findOneAndUpdate(
+      { _id: cardId, operations: { $elemMatch: { operationId, status: OperationStatus.IN_PROGRESS } } },
+      {
+        $set: {
+          'operations.$.status': OperationStatus.COMPLETED,
+          'operations.$.completedAt': now,
+          updatedAt: now
+        }
+      },
+      { new: true }
+    );
+    return card ? this.mapToEntity(card) : null;
+  }
 
-    // Si está pausado actualmente, restar tiempo de pausa actual
-    if (component.timeTracker.isPaused && component.timeTracker.pauseStartTime) {
-      const currentPauseTime = now.getTime() - component.timeTracker.pauseStartTime.getTime();
-      totalTime -= currentPauseTime;
-    }
+  async updateSchedule(schedule: CardSchedule, scheduledAt: Date): Promise<ProductionCard | null> {
+    const cardDoc = await ProductionCardModel.findById(schedule.cardId);
+    if (!cardDoc) return null;
+
+    const updates: any = {
+      plannedStart: schedule.plannedStart,
+      plannedFinish: schedule.plannedFinish,
+      willMissDueDate: schedule.willMissDueDate,
+      scheduledAt,
+      updatedAt: scheduledAt
+    };
 
-    // Restar tiempo total de pausas anteriores
-    totalTime -= (component.timeTracker.totalPauseMinutes * 60 * 1000);
+    // Las operaciones conservan su orden, así que se actualizan por posición
+    (cardDoc.operations || []).forEach((operation, index) => {
+      const planned = schedule.operations.find(op => op.operationId === operation.operationId);
+      updates[`operations.${index}.plannedStart`] = planned?.plannedStart ?? null;
+      updates[`operations.${index}.plannedFinish`] = planned?.plannedFinish ?? null;
+    });
 
-    return Math.max(0, Math.round(totalTime / (1000 * 60))); // en minutos
+    const card = await ProductionCardModel.findByIdAndUpdate(
+      schedule.cardId,
+      { $set: updates },
+      { new: true }
+    );
+    return card ? this.mapToEntity(card) : null;
+  }
+
+  async setPinnedStart(id: string, pinnedStart?: Date): Promise<ProductionCard | null> {
+    const card = await ProductionCardModel.findByIdAndUpdate(
+      id,
+      pinnedStart
+        ? { $set: { pinnedStart, updatedAt: new Date() } }
+        : { $unset: { pinnedStart: 1 }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return card ? this.mapToEntity(card) : null;
+  }
+
+  async addInspection(id: string, inspection: InspectionRecord): Promise<ProductionCard | null> {
+    const card = await ProductionCardModel.findByIdAndUpdate(
+      id,
+      { $push: { inspections: inspection }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return card ? this.mapToEntity(card) : null;
+  }
+
+  async acceptLastInspection(id: string, ncrLabel: string): Promise<ProductionCard | null> {
+    const cardDoc = await ProductionCardModel.findById(id);
+    if (!cardDoc || !cardDoc.inspections || cardDoc.inspections.length === 0) return null;
+
+    const card = await ProductionCardModel.findByIdAndUpdate(
+      id,
+      { $set: { [`inspections.${cardDoc.inspections.length - 1}.acceptedByNcr`]: ncrLabel, updatedAt: new Date() } },
+      { new: true }
+    );
+    return card ? this.mapToEntity(card) : null;
   }
 
-  // Métodos para materiales en componentes
   async updateComponentMaterials(cardId: string, componentId: string, materials: any[]): Promise<ProductionCard | null> {
     const card = await ProductionCardModel.findOneAndUpdate(
       { _id: cardId, 'components.componentId': componentId },
@@ -430,6 +507,16 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
     return card ? this.mapToEntity(card) : null;
   }
 
+  async findWithPauses(): Promise<ProductionCard[]> {
+    const cards = await ProductionCardModel.find({
+      $or: [
+        { 'timeTracker.segments.kind': TimeSegmentKind.PAUSE },
+        { 'components.timeTracker.segments.kind': TimeSegmentKind.PAUSE }
+      ]
+    });
+    return cards.map(card => this.mapToEntity(card));
+  }
+
   private mapToEntity(doc: ProductionCardDocument): ProductionCard {
     return {
       id: doc._id.toString(),
@@ -445,11 +532,22 @@ export class MongoProductionCardRepository implements ProductionCardRepository {
       status: doc.status,
       priority: doc.priority,
       components: doc.components,
+      operations: doc.operations,
+      bomRevisionId: doc.bomRevisionId,
       notes: doc.notes,
       estimatedHours: doc.estimatedHours,
       startedAt: doc.startedAt,
       completedAt: doc.completedAt,
       timeTracker: doc.timeTracker,
+      plannedStart: doc.plannedStart,
+      plannedFinish: doc.plannedFinish,
+      willMissDueDate: doc.willMissDueDate,
+      scheduledAt: doc.scheduledAt,
+      pinnedStart: doc.pinnedStart,
+      inspections: doc.inspections,
+      reworkOfCardId: doc.reworkOfCardId,
+      nonConformanceId: doc.nonConformanceId,
+      serialNumber: doc.serialNumber,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt
     };
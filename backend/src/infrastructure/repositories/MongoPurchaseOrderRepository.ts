@@ -0,0 +1,108 @@
+import { PurchaseOrder, PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+import { PurchaseOrderModel, PurchaseOrderDocument } from '../database/models/PurchaseOrderModel';
+
+export interface PurchaseOrderRepository {
+  create(purchaseOrder: Omit<PurchaseOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseOrder>;
+  findById(id: string): Promise<PurchaseOrder | null>;
+  findAll(filters?: PurchaseOrderFilters): Promise<PurchaseOrder[]>;
+  findLatestNumber(): Promise<number>;
+  // Aplica los cambios solo si la orden sigue en uno de los estados indicados
+  updateIfStatus(id: string, statuses: PurchaseOrderStatus[], updates: Partial<PurchaseOrder>): Promise<PurchaseOrder | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus | PurchaseOrderStatus[];
+  supplierId?: string;
+  itemId?: string;
+}
+
+export class MongoPurchaseOrderRepository implements PurchaseOrderRepository {
+
+  async create(purchaseOrderData: Omit<PurchaseOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseOrder> {
+    const purchaseOrder = new PurchaseOrderModel(purchaseOrderData);
+    const savedPurchaseOrder = await purchaseOrder.save();
+    return this.mapToEntity(savedPurchaseOrder);
+  }
+
+  async findById(id: string): Promise<PurchaseOrder | null> {
+    const purchaseOrder = await PurchaseOrderModel.findById(id);
+    return purchaseOrder ? this.mapToEntity(purchaseOrder) : null;
+  }
+
+  async findAll(filters: PurchaseOrderFilters = {}): Promise<PurchaseOrder[]> {
+    const query: any = {};
+
+    if (filters.status) {
+      query.status = Array.isArray(filters.status) ? { $in: filters.status } : filters.status;
+    }
+    if (filters.supplierId) query.supplierId = filters.supplierId;
+    if (filters.itemId) query['lines.itemId'] = filters.itemId;
+
+    const purchaseOrders = await PurchaseOrderModel.find(query).sort({ poNumber: -1 });
+    return purchaseOrders.map(purchaseOrder => this.mapToEntity(purchaseOrder));
+  }
+
+  async findLatestNumber(): Promise<number> {
+    const latest = await PurchaseOrderModel.findOne().sort({ poNumber: -1 });
+    return latest ? latest.poNumber : 0;
+  }
+
+  async updateIfStatus(id: string, statuses: PurchaseOrderStatus[], updates: Partial<PurchaseOrder>): Promise<PurchaseOrder | null> {
+    const purchaseOrder = await PurchaseOrderModel.findOneAndUpdate(
+      { _id: id, status: { $in: statuses } },
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return purchaseOrder ? this.mapToEntity(purchaseOrder) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await PurchaseOrderModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: PurchaseOrderDocument): PurchaseOrder {
+    return {
+      id: doc._id.toString(),
+      poNumber: doc.poNumber,
+      supplierId: doc.supplierId,
+      supplierCode: doc.supplierCode,
+      supplierName: doc.supplierName,
+      currency: doc.currency,
+      status: doc.status,
+      lines: (doc.lines || []).map(line => ({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        itemSku: line.itemSku,
+        unit: line.unit,
+        supplierSku: line.supplierSku,
+        quantity: line.quantity,
+        receivedQuantity: line.receivedQuantity || 0,
+        unitPrice: line.unitPrice,
+        expectedDate: line.expectedDate
+      })),
+      expectedDate: doc.expectedDate,
+      notes: doc.notes,
+      receipts: (doc.receipts || []).map(receipt => ({
+        receivedAt: receipt.receivedAt,
+        receivedBy: receipt.receivedBy,
+        warehouseId: receipt.warehouseId,
+        binId: receipt.binId,
+        notes: receipt.notes,
+        lines: receipt.lines.map(line => ({
+          itemId: line.itemId,
+          quantity: line.quantity,
+          movementIds: line.movementIds || [],
+          lotNumber: line.lotNumber
+        }))
+      })),
+      createdBy: doc.createdBy,
+      sentAt: doc.sentAt,
+      receivedAt: doc.receivedAt,
+      closedAt: doc.closedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
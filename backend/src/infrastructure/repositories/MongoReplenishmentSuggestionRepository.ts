@@ -0,0 +1,86 @@
+import { PlannedOrderType } from '../../domain/entities/Mrp';
+import { ReplenishmentSuggestion, ReplenishmentStatus } from '../../domain/entities/ReplenishmentSuggestion';
+import { ReplenishmentSuggestionModel, ReplenishmentSuggestionDocument } from '../database/models/ReplenishmentSuggestionModel';
+
+export type PendingReplenishmentData = Omit<ReplenishmentSuggestion, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+
+export interface ReplenishmentSuggestionRepository {
+  findById(id: string): Promise<ReplenishmentSuggestion | null>;
+  findAll(filters?: ReplenishmentSuggestionFilters): Promise<ReplenishmentSuggestion[]>;
+  // Crea la sugerencia pendiente del artículo o actualiza la que ya existe
+  savePending(suggestion: PendingReplenishmentData): Promise<ReplenishmentSuggestion>;
+  // Aplica los cambios solo si la sugerencia sigue en el estado indicado
+  updateIfStatus(id: string, status: ReplenishmentStatus, updates: Partial<ReplenishmentSuggestion>): Promise<ReplenishmentSuggestion | null>;
+}
+
+export interface ReplenishmentSuggestionFilters {
+  status?: ReplenishmentStatus;
+  type?: PlannedOrderType;
+  itemId?: string;
+}
+
+export class MongoReplenishmentSuggestionRepository implements ReplenishmentSuggestionRepository {
+
+  async findById(id: string): Promise<ReplenishmentSuggestion | null> {
+    const suggestion = await ReplenishmentSuggestionModel.findById(id);
+    return suggestion ? this.mapToEntity(suggestion) : null;
+  }
+
+  async findAll(filters: ReplenishmentSuggestionFilters = {}): Promise<ReplenishmentSuggestion[]> {
+    const query: any = {};
+
+    if (filters.status) query.status = filters.status;
+    if (filters.type) query.type = filters.type;
+    if (filters.itemId) query.itemId = filters.itemId;
+
+    const suggestions = await ReplenishmentSuggestionModel.find(query).sort({ updatedAt: -1 });
+    return suggestions.map(suggestion => this.mapToEntity(suggestion));
+  }
+
+  async savePending(suggestionData: PendingReplenishmentData): Promise<ReplenishmentSuggestion> {
+    const suggestion = await ReplenishmentSuggestionModel.findOneAndUpdate(
+      { itemId: suggestionData.itemId, status: ReplenishmentStatus.PENDING },
+      { $set: { ...suggestionData, status: ReplenishmentStatus.PENDING } },
+      { new: true, upsert: true, runValidators: true }
+    );
+    return this.mapToEntity(suggestion!);
+  }
+
+  async updateIfStatus(id: string, status: ReplenishmentStatus, updates: Partial<ReplenishmentSuggestion>): Promise<ReplenishmentSuggestion | null> {
+    const suggestion = await ReplenishmentSuggestionModel.findOneAndUpdate(
+      { _id: id, status },
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return suggestion ? this.mapToEntity(suggestion) : null;
+  }
+
+  private mapToEntity(doc: ReplenishmentSuggestionDocument): ReplenishmentSuggestion {
+    return {
+      id: doc._id.toString(),
+      itemId: doc.itemId,
+      itemName: doc.itemName,
+      itemSku: doc.itemSku,
+      unit: doc.unit,
+      type: doc.type,
+      available: doc.available,
+      onOrder: doc.onOrder,
+      minimumStock: doc.minimumStock,
+      maximumStock: doc.maximumStock,
+      suggestedQuantity: doc.suggestedQuantity,
+      supplierId: doc.supplierId,
+      supplierName: doc.supplierName,
+      status: doc.status,
+      triggeredBy: doc.triggeredBy,
+      approvedQuantity: doc.approvedQuantity,
+      approvedAt: doc.approvedAt,
+      approvedBy: doc.approvedBy,
+      dismissedAt: doc.dismissedAt,
+      dismissedBy: doc.dismissedBy,
+      referenceId: doc.referenceId,
+      reference: doc.reference,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
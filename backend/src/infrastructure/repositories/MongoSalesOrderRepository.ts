@@ -0,0 +1,135 @@
+import { SalesOrder, SalesOrderStatus } from '../../domain/entities/SalesOrder';
+import { SalesOrderModel, SalesOrderDocument } from '../database/models/SalesOrderModel';
+
+export interface SalesOrderRepository {
+  create(salesOrder: Omit<SalesOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<SalesOrder>;
+  findById(id: string): Promise<SalesOrder | null>;
+  findAll(filters?: SalesOrderFilters): Promise<SalesOrder[]>;
+  findLatestNumber(): Promise<number>;
+  // Aplica los cambios solo si el pedido sigue en uno de los estados indicados
+  updateIfStatus(id: string, statuses: SalesOrderStatus[], updates: Partial<SalesOrder>): Promise<SalesOrder | null>;
+  // Suma (o resta) unidades reservadas a la línea del artículo sin pisar otros cambios;
+  // fromStock indica que salen del stock existente y no de una orden de fabricación
+  adjustLineReserved(id: string, itemId: string, delta: number, fromStock?: boolean): Promise<SalesOrder | null>;
+  adjustLineDelivered(id: string, itemId: string, delta: number): Promise<SalesOrder | null>;
+  addLineManufacturingOrder(id: string, itemId: string, manufacturingOrderId: string): Promise<SalesOrder | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SalesOrderFilters {
+  status?: SalesOrderStatus | SalesOrderStatus[];
+  customerId?: string;
+  itemId?: string;
+}
+
+export class MongoSalesOrderRepository implements SalesOrderRepository {
+
+  async create(salesOrderData: Omit<SalesOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<SalesOrder> {
+    const salesOrder = new SalesOrderModel(salesOrderData);
+    const savedSalesOrder = await salesOrder.save();
+    return this.mapToEntity(savedSalesOrder);
+  }
+
+  async findById(id: string): Promise<SalesOrder | null> {
+    const salesOrder = await SalesOrderModel.findById(id);
+    return salesOrder ? this.mapToEntity(salesOrder) : null;
+  }
+
+  async findAll(filters: SalesOrderFilters = {}): Promise<SalesOrder[]> {
+    const query: any = {};
+
+    if (filters.status) {
+      query.status = Array.isArray(filters.status) ? { $in: filters.status } : filters.status;
+    }
+    if (filters.customerId) query.customerId = filters.customerId;
+    if (filters.itemId) query['lines.itemId'] = filters.itemId;
+
+    const salesOrders = await SalesOrderModel.find(query).sort({ soNumber: -1 });
+    return salesOrders.map(salesOrder => this.mapToEntity(salesOrder));
+  }
+
+  async findLatestNumber(): Promise<number> {
+    const latest = await SalesOrderModel.findOne().sort({ soNumber: -1 });
+    return latest ? latest.soNumber : 0;
+  }
+
+  async updateIfStatus(id: string, statuses: SalesOrderStatus[], updates: Partial<SalesOrder>): Promise<SalesOrder | null> {
+    const salesOrder = await SalesOrderModel.findOneAndUpdate(
+      { _id: id, status: { $in: statuses } },
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return salesOrder ? this.mapToEntity(salesOrder) : null;
+  }
+
+  async adjustLineReserved(id: string, itemId: string, delta: number, fromStock: boolean = false): Promise<SalesOrder | null> {
+    const increments: any = { 'lines.$.reservedQuantity': delta };
+    if (fromStock) {
+      increments['lines.$.fromStockQuantity'] = delta;
+    }
+
+    const salesOrder = await SalesOrderModel.findOneAndUpdate(
+      { _id: id, 'lines.itemId': itemId },
+      { $inc: increments, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return salesOrder ? this.mapToEntity(salesOrder) : null;
+  }
+
+  async adjustLineDelivered(id: string, itemId: string, delta: number): Promise<SalesOrder | null> {
+    const salesOrder = await SalesOrderModel.findOneAndUpdate(
+      { _id: id, 'lines.itemId': itemId },
+      { $inc: { 'lines.$.deliveredQuantity': delta }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return salesOrder ? this.mapToEntity(salesOrder) : null;
+  }
+
+  async addLineManufacturingOrder(id: string, itemId: string, manufacturingOrderId: string): Promise<SalesOrder | null> {
+    const salesOrder = await SalesOrderModel.findOneAndUpdate(
+      { _id: id, 'lines.itemId': itemId },
+      { $push: { 'lines.$.manufacturingOrderIds': manufacturingOrderId }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return salesOrder ? this.mapToEntity(salesOrder) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await SalesOrderModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: SalesOrderDocument): SalesOrder {
+    return {
+      id: doc._id.toString(),
+      soNumber: doc.soNumber,
+      customerId: doc.customerId,
+      customerCode: doc.customerCode,
+      customerName: doc.customerName,
+      customerReference: doc.customerReference,
+      status: doc.status,
+      lines: (doc.lines || []).map(line => ({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        itemSku: line.itemSku,
+        unit: line.unit,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice || 0,
+        dueDate: line.dueDate,
+        fromStockQuantity: line.fromStockQuantity || 0,
+        reservedQuantity: line.reservedQuantity || 0,
+        deliveredQuantity: line.deliveredQuantity || 0,
+        manufacturingOrderIds: line.manufacturingOrderIds || []
+      })),
+      requestedDate: doc.requestedDate,
+      notes: doc.notes,
+      createdBy: doc.createdBy,
+      confirmedAt: doc.confirmedAt,
+      confirmedBy: doc.confirmedBy,
+      cancelledAt: doc.cancelledAt,
+      deliveredAt: doc.deliveredAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
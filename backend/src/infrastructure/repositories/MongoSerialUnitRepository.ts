@@ -0,0 +1,131 @@
+import { SerialUnit, SerialUnitShipment } from '../../domain/entities/SerialUnit';
+import { SerialUnitModel, SerialUnitDocument } from '../database/models/SerialUnitModel';
+
+export interface SerialUnitRepository {
+  create(unit: Omit<SerialUnit, 'id' | 'createdAt' | 'updatedAt'>): Promise<SerialUnit>;
+  findById(id: string): Promise<SerialUnit | null>;
+  findBySerialNumber(serialNumber: string): Promise<SerialUnit | null>;
+  findAll(filters?: SerialUnitFilters): Promise<SerialUnit[]>;
+  findLatestSequence(modelId: string): Promise<number>;
+  // Asigna la unidad a un envío solo si todavía no ha salido en otro
+  assignShipment(id: string, shipment: SerialUnitShipment): Promise<SerialUnit | null>;
+  clearShipment(id: string, shipmentId: string): Promise<SerialUnit | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SerialUnitFilters {
+  modelId?: string;
+  orderId?: string;
+  cardId?: string;
+  shipped?: boolean;
+  shipmentId?: string;
+  search?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export class MongoSerialUnitRepository implements SerialUnitRepository {
+
+  async create(unitData: Omit<SerialUnit, 'id' | 'createdAt' | 'updatedAt'>): Promise<SerialUnit> {
+    const unit = new SerialUnitModel(unitData);
+    const savedUnit = await unit.save();
+    return this.mapToEntity(savedUnit);
+  }
+
+  async findById(id: string): Promise<SerialUnit | null> {
+    const unit = await SerialUnitModel.findById(id);
+    return unit ? this.mapToEntity(unit) : null;
+  }
+
+  async findBySerialNumber(serialNumber: string): Promise<SerialUnit | null> {
+    const unit = await SerialUnitModel.findOne({ serialNumber });
+    return unit ? this.mapToEntity(unit) : null;
+  }
+
+  async findAll(filters: SerialUnitFilters = {}): Promise<SerialUnit[]> {
+    const query: any = {};
+
+    if (filters.modelId) query.modelId = filters.modelId;
+    if (filters.orderId) query.orderId = filters.orderId;
+    if (filters.cardId) query.cardId = filters.cardId;
+    if (filters.shipped !== undefined) query.shipment = { $exists: filters.shipped };
+    if (filters.shipmentId) query['shipment.shipmentId'] = filters.shipmentId;
+
+    if (filters.search) {
+      query.$or = [
+        { serialNumber: { $regex: filters.search, $options: 'i' } },
+        { modelName: { $regex: filters.search, $options: 'i' } },
+        { modelSku: { $regex: filters.search, $options: 'i' } },
+        { orderName: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    if (filters.from || filters.to) {
+      query.producedAt = {};
+      if (filters.from) query.producedAt.$gte = filters.from;
+      if (filters.to) query.producedAt.$lte = filters.to;
+    }
+
+    const units = await SerialUnitModel.find(query).sort({ producedAt: -1 });
+    return units.map(unit => this.mapToEntity(unit));
+  }
+
+  async findLatestSequence(modelId: string): Promise<number> {
+    const latest = await SerialUnitModel.findOne({ modelId }).sort({ sequence: -1 });
+    return latest ? latest.sequence : 0;
+  }
+
+  async assignShipment(id: string, shipment: SerialUnitShipment): Promise<SerialUnit | null> {
+    const unit = await SerialUnitModel.findOneAndUpdate(
+      { _id: id, shipment: { $exists: false } },
+      { $set: { shipment, updatedAt: new Date() } },
+      { new: true }
+    );
+    return unit ? this.mapToEntity(unit) : null;
+  }
+
+  async clearShipment(id: string, shipmentId: string): Promise<SerialUnit | null> {
+    const unit = await SerialUnitModel.findOneAndUpdate(
+      { _id: id, 'shipment.shipmentId': shipmentId },
+      { $unset: { shipment: 1 }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    return unit ? this.mapToEntity(unit) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await SerialUnitModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: SerialUnitDocument): SerialUnit {
+    return {
+      id: doc._id.toString(),
+      serialNumber: doc.serialNumber,
+      sequence: doc.sequence,
+      modelId: doc.modelId,
+      modelName: doc.modelName,
+      modelSku: doc.modelSku,
+      cardId: doc.cardId,
+      cardLabel: doc.cardLabel,
+      orderId: doc.orderId,
+      orderName: doc.orderName,
+      reworkOfCardIds: doc.reworkOfCardIds,
+      components: doc.components,
+      materials: doc.materials,
+      operators: doc.operators,
+      inspections: doc.inspections,
+      nonConformances: doc.nonConformances,
+      producedAt: doc.producedAt,
+      producedBy: doc.producedBy,
+      shipment: doc.shipment?.shipmentId ? {
+        shipmentId: doc.shipment.shipmentId,
+        shipmentNumber: doc.shipment.shipmentNumber,
+        customerName: doc.shipment.customerName,
+        shippedAt: doc.shipment.shippedAt
+      } : undefined,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Shipment, ShipmentStatus } from '../../domain/entities/Shipment';
+import { ShipmentModel, ShipmentDocument } from '../database/models/ShipmentModel';
+
+export interface ShipmentRepository {
+  create(shipment: Omit<Shipment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Shipment>;
+  findById(id: string): Promise<Shipment | null>;
+  findAll(filters?: ShipmentFilters): Promise<Shipment[]>;
+  findLatestNumber(): Promise<number>;
+  // Aplica los cambios solo si el envío sigue en uno de los estados indicados
+  updateIfStatus(id: string, statuses: ShipmentStatus[], updates: Partial<Shipment>): Promise<Shipment | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface ShipmentFilters {
+  status?: ShipmentStatus | ShipmentStatus[];
+  salesOrderId?: string;
+  manufacturingOrderId?: string;
+  customerId?: string;
+}
+
+export class MongoShipmentRepository implements ShipmentRepository {
+
+  async create(shipmentData: Omit<Shipment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Shipment> {
+    const shipment = new ShipmentModel(shipmentData);
+    const savedShipment = await shipment.save();
+    return this.mapToEntity(savedShipment);
+  }
+
+  async findById(id: string): Promise<Shipment | null> {
+    const shipment = await ShipmentModel.findById(id);
+    return shipment ? this.mapToEntity(shipment) : null;
+  }
+
+  async findAll(filters: ShipmentFilters = {}): Promise<Shipment[]> {
+    const query: any = {};
+
+    if (filters.status) {
+      query.status = Array.isArray(filters.status) ? { $in: filters.status } : filters.status;
+    }
+    if (filters.salesOrderId) query.salesOrderId = filters.salesOrderId;
+    if (filters.manufacturingOrderId) query.manufacturingOrderId = filters.manufacturingOrderId;
+    if (filters.customerId) query.customerId = filters.customerId;
+
+    const shipments = await ShipmentModel.find(query).sort({ shipmentNumber: -1 });
+    return shipments.map(shipment => this.mapToEntity(shipment));
+  }
+
+  async findLatestNumber(): Promise<number> {
+    const latest = await ShipmentModel.findOne().sort({ shipmentNumber: -1 });
+    return latest ? latest.shipmentNumber : 0;
+  }
+
+  async updateIfStatus(id: string, statuses: ShipmentStatus[], updates: Partial<Shipment>): Promise<Shipment | null> {
+    const shipment = await ShipmentModel.findOneAndUpdate(
+      { _id: id, status: { $in: statuses } },
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return shipment ? this.mapToEntity(shipment) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await ShipmentModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: ShipmentDocument): Shipment {
+    return {
+      id: doc._id.toString(),
+      shipmentNumber: doc.shipmentNumber,
+      sourceType: doc.sourceType,
+      salesOrderId: doc.salesOrderId,
+      soNumber: doc.soNumber,
+      manufacturingOrderId: doc.manufacturingOrderId,
+      customerId: doc.customerId,
+      customerCode: doc.customerCode,
+      customerName: doc.customerName,
+      customerReference: doc.customerReference,
+      deliveryAddress: doc.deliveryAddress,
+      status: doc.status,
+      lines: (doc.lines || []).map(line => ({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        itemSku: line.itemSku,
+        unit: line.unit,
+        quantity: line.quantity,
+        serials: (line.serials || []).map(serial => ({
+          serialUnitId: serial.serialUnitId,
+          serialNumber: serial.serialNumber,
+          orderId: serial.orderId
+        })),
+        movementIds: line.movementIds || []
+      })),
+      carrier: doc.carrier,
+      trackingNumber: doc.trackingNumber,
+      notes: doc.notes,
+      createdBy: doc.createdBy,
+      shippedAt: doc.shippedAt,
+      shippedBy: doc.shippedBy,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { StockMovement, StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
+import { StockMovementModel, StockMovementDocument } from '../database/models/StockMovementModel';
+
+export interface StockMovementRepository {
+  create(movement: Omit<StockMovement, 'id' | 'createdAt'>): Promise<StockMovement>;
+  createMany(movements: Omit<StockMovement, 'id' | 'createdAt'>[]): Promise<StockMovement[]>;
+  findById(id: string): Promise<StockMovement | null>;
+  findAll(filters?: StockMovementFilters): Promise<StockMovement[]>;
+  findReversalsOf(movementIds: string[]): Promise<StockMovement[]>;
+  getLedgerBalance(itemId: string): Promise<{ balance: number; count: number }>;
+}
+
+export interface StockMovementFilters {
+  itemId?: string;
+  type?: StockMovementType;
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string;
+  lotId?: string;
+  warehouseId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+export class MongoStockMovementRepository implements StockMovementRepository {
+
+  async create(movementData: Omit<StockMovement, 'id' | 'createdAt'>): Promise<StockMovement> {
+    const movement = new StockMovementModel(movementData);
+    const savedMovement = await movement.save();
+    return this.mapToEntity(savedMovement);
+  }
+
+  async createMany(movementsData: Omit<StockMovement, 'id' | 'createdAt'>[]): Promise<StockMovement[]> {
+    if (movementsData.length === 0) {
+      return [];
+    }
+
+    const movements = await StockMovementModel.insertMany(movementsData);
+    return movements.map(movement => this.mapToEntity(movement));
+  }
+
+  async findById(id: string): Promise<StockMovement | null> {
+    const movement = await StockMovementModel.findById(id);
+    return movement ? this.mapToEntity(movement) : null;
+  }
+
+  async findAll(filters: StockMovementFilters = {}): Promise<StockMovement[]> {
+    const query: any = {};
+
+    if (filters.itemId) {
+      query.itemId = filters.itemId;
+    }
+
+    if (filters.type) {
+      query.type = filters.type;
+    }
+
+    if (filters.referenceType) {
+      query.referenceType = filters.referenceType;
+    }
+
+    if (filters.referenceId) {
+      query.referenceId = filters.referenceId;
+    }
+
+    if (filters.lotId) {
+      query.lotId = filters.lotId;
+    }
+
+    // Movimientos del almacén, incluidas las transferencias que llegan a él
+    if (filters.warehouseId) {
+      query.$or = [{ warehouseId: filters.warehouseId }, { toWarehouseId: filters.warehouseId }];
+    }
+
+    if (filters.startDate || filters.endDate) {
+      query.createdAt = {};
+      if (filters.startDate) query.createdAt.$gte = filters.startDate;
+      if (filters.endDate) query.createdAt.$lte = filters.endDate;
+    }
+
+    let findQuery = StockMovementModel.find(query).sort({ createdAt: -1 });
+    if (filters.limit) {
+      findQuery = findQuery.limit(filters.limit);
+    }
+
+    const movements = await findQuery;
+    return movements.map(movement => this.mapToEntity(movement));
+  }
+
+  async findReversalsOf(movementIds: string[]): Promise<StockMovement[]> {
+    const movements = await StockMovementModel.find({ reversalOf: { $in: movementIds } });
+    return movements.map(movement => this.mapToEntity(movement));
+  }
+
+  async getLedgerBalance(itemId: string): Promise<{ balance: number; count: number }> {
+    const result = await StockMovementModel.aggregate([
+      { $match: { itemId } },
+      {
+        $group: {
+          _id: null,
+          balance: { $sum: '$quantity' },
+          count: { $sum: 1 }
+        }
+      }
+    ]);
+
+    return result[0] ? { balance: result[0].balance, count: result[0].count } : { balance: 0, count: 0 };
+  }
+
+  private mapToEntity(doc: StockMovementDocument): StockMovement {
+    return {
+      id: doc._id.toString(),
+      itemId: doc.itemId,
+      itemName: doc.itemName,
+      itemSku: doc.itemSku,
+      type: doc.type,
+      quantity: doc.quantity,
+      balanceAfter: doc.balanceAfter,
+      unit: doc.unit,
+      reason: doc.reason,
+      referenceType: doc.referenceType,
+      referenceId: doc.referenceId,
+      warehouseId: doc.warehouseId,
+      warehouseCode: doc.warehouseCode,
+      binId: doc.binId,
+      binCode: doc.binCode,
+      toWarehouseId: doc.toWarehouseId,
+      toBinId: doc.toBinId,
+      fromLocation: doc.fromLocation,
+      toLocation: doc.toLocation,
+      transferredQuantity: doc.transferredQuantity,
+      reversalOf: doc.reversalOf,
+      lotId: doc.lotId,
+      lotNumber: doc.lotNumber,
+      performedBy: doc.performedBy,
+      createdAt: doc.createdAt
+    };
+  }
+}
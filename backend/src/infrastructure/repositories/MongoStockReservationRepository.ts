@@ -0,0 +1,98 @@
+import { StockReservation, StockReservationStatus } from '../../domain/entities/StockReservation';
+import { StockReservationModel, StockReservationDocument } from '../database/models/StockReservationModel';
+
+export interface StockReservationRepository {
+  create(reservation: Omit<StockReservation, 'id' | 'createdAt' | 'updatedAt'>): Promise<StockReservation>;
+  findByOrderId(orderId: string, status?: StockReservationStatus): Promise<StockReservation[]>;
+  findByItemId(itemId: string, status?: StockReservationStatus): Promise<StockReservation[]>;
+  findActive(orderId: string, itemId: string): Promise<StockReservation | null>;
+  addConsumption(id: string, quantity: number): Promise<StockReservation | null>;
+  release(id: string): Promise<StockReservation | null>;
+}
+
+export class MongoStockReservationRepository implements StockReservationRepository {
+
+  async create(reservationData: Omit<StockReservation, 'id' | 'createdAt' | 'updatedAt'>): Promise<StockReservation> {
+    const reservation = new StockReservationModel(reservationData);
+    const savedReservation = await reservation.save();
+    return this.mapToEntity(savedReservation);
+  }
+
+  async findByOrderId(orderId: string, status?: StockReservationStatus): Promise<StockReservation[]> {
+    const query: any = { orderId };
+    if (status) {
+      query.status = status;
+    }
+
+    const reservations = await StockReservationModel.find(query).sort({ createdAt: 1 });
+    return reservations.map(reservation => this.mapToEntity(reservation));
+  }
+
+  async findByItemId(itemId: string, status?: StockReservationStatus): Promise<StockReservation[]> {
+    const query: any = { itemId };
+    if (status) {
+      query.status = status;
+    }
+
+    const reservations = await StockReservationModel.find(query).sort({ createdAt: -1 });
+    return reservations.map(reservation => this.mapToEntity(reservation));
+  }
+
+  async findActive(orderId: string, itemId: string): Promise<StockReservation | null> {
+    const reservation = await StockReservationModel.findOne({
+      orderId,
+      itemId,
+      status: StockReservationStatus.ACTIVE
+    });
+    return reservation ? this.mapToEntity(reservation) : null;
+  }
+
+  async addConsumption(id: string, quantity: number): Promise<StockReservation | null> {
+    const reservation = await StockReservationModel.findOneAndUpdate(
+      { _id: id, status: StockReservationStatus.ACTIVE },
+      { $inc: { consumedQuantity: quantity }, $set: { updatedAt: new Date() } },
+      { new: true }
+    );
+    if (!reservation) return null;
+
+    // Una reserva totalmente consumida deja de estar activa
+    if (reservation.consumedQuantity >= reservation.quantity) {
+      reservation.status = StockReservationStatus.CONSUMED;
+      await reservation.save();
+    }
+
+    return this.mapToEntity(reservation);
+  }
+
+  async release(id: string): Promise<StockReservation | null> {
+    const reservation = await StockReservationModel.findOneAndUpdate(
+      { _id: id, status: StockReservationStatus.ACTIVE },
+      {
+        $set: {
+          status: StockReservationStatus.RELEASED,
+          releasedAt: new Date(),
+          updatedAt: new Date()
+        }
+      },
+      { new: true }
+    );
+    return reservation ? this.mapToEntity(reservation) : null;
+  }
+
+  private mapToEntity(doc: StockReservationDocument): StockReservation {
+    return {
+      id: doc._id.toString(),
+      orderId: doc.orderId,
+      itemId: doc.itemId,
+      itemName: doc.itemName,
+      itemSku: doc.itemSku,
+      unit: doc.unit,
+      quantity: doc.quantity,
+      consumedQuantity: doc.consumedQuantity,
+      status: doc.status,
+      releasedAt: doc.releasedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { Supplier } from '../../domain/entities/Supplier';
+import { SupplierModel, SupplierDocument } from '../database/models/SupplierModel';
+
+export interface SupplierRepository {
+  create(supplier: Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>): Promise<Supplier>;
+  findById(id: string): Promise<Supplier | null>;
+  findByIds(ids: string[]): Promise<Supplier[]>;
+  findByCode(code: string): Promise<Supplier | null>;
+  // Búsqueda exacta sin distinguir mayúsculas (migración del campo de texto)
+  findByName(name: string): Promise<Supplier | null>;
+  findAll(filters?: SupplierFilters): Promise<Supplier[]>;
+  update(id: string, updates: Partial<Supplier>): Promise<Supplier | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SupplierFilters {
+  isActive?: boolean;
+  search?: string;
+}
+
+export class MongoSupplierRepository implements SupplierRepository {
+
+  async create(supplierData: Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>): Promise<Supplier> {
+    const supplier = new SupplierModel(supplierData);
+    const savedSupplier = await supplier.save();
+    return this.mapToEntity(savedSupplier);
+  }
+
+  async findById(id: string): Promise<Supplier | null> {
+    const supplier = await SupplierModel.findById(id);
+    return supplier ? this.mapToEntity(supplier) : null;
+  }
+
+  async findByIds(ids: string[]): Promise<Supplier[]> {
+    const suppliers = await SupplierModel.find({ _id: { $in: ids } });
+    return suppliers.map(supplier => this.mapToEntity(supplier));
+  }
+
+  async findByCode(code: string): Promise<Supplier | null> {
+    const supplier = await SupplierModel.findOne({ code: code.toUpperCase() });
+    return supplier ? this.mapToEntity(supplier) : null;
+  }
+
+  async findByName(name: string): Promise<Supplier | null> {
+    const supplier = await SupplierModel.findOne({ name: name.trim() }).collation({ locale: 'es', strength: 2 });
+    return supplier ? this.mapToEntity(supplier) : null;
+  }
+
+  async findAll(filters: SupplierFilters = {}): Promise<Supplier[]> {
+    const query: any = {};
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    if (filters.search) {
+      query.$or = [
+        { code: { $regex: filters.search, $options: 'i' } },
+        { name: { $regex: filters.search, $options: 'i' } },
+        { contactName: { $regex: filters.search, $options: 'i' } },
+        { taxId: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const suppliers = await SupplierModel.find(query).sort({ name: 1 });
+    return suppliers.map(supplier => this.mapToEntity(supplier));
+  }
+
+  async update(id: string, updates: Partial<Supplier>): Promise<Supplier | null> {
+    const supplier = await SupplierModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return supplier ? this.mapToEntity(supplier) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await SupplierModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: SupplierDocument): Supplier {
+    return {
+      id: doc._id.toString(),
+      code: doc.code,
+      name: doc.name,
+      contactName: doc.contactName,
+      email: doc.email,
+      phone: doc.phone,
+      address: doc.address,
+      taxId: doc.taxId,
+      leadTimeDays: doc.leadTimeDays,
+      currency: doc.currency,
+      paymentTerms: doc.paymentTerms,
+      notes: doc.notes,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { User, UserRole } from '../../domain/entities/User';
+import { UserModel, UserDocument } from '../database/models/UserModel';
+
+export interface UserRepository {
+  create(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>, passwordHash: string): Promise<User>;
+  findById(id: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  findPasswordHash(id: string): Promise<string | null>;
+  findAll(filters?: UserFilters): Promise<User[]>;
+  count(): Promise<number>;
+  update(id: string, updates: Partial<User>): Promise<User | null>;
+  updatePassword(id: string, passwordHash: string): Promise<boolean>;
+  recordLogin(id: string): Promise<void>;
+}
+
+export interface UserFilters {
+  role?: UserRole;
+  isActive?: boolean;
+  search?: string;
+}
+
+export class MongoUserRepository implements UserRepository {
+
+  async create(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>, passwordHash: string): Promise<User> {
+    const user = new UserModel({ ...userData, passwordHash });
+    const savedUser = await user.save();
+    return this.mapToEntity(savedUser);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const user = await UserModel.findById(id);
+    return user ? this.mapToEntity(user) : null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    const user = await UserModel.findOne({ username: username.trim().toLowerCase() });
+    return user ? this.mapToEntity(user) : null;
+  }
+
+  async findPasswordHash(id: string): Promise<string | null> {
+    const user = await UserModel.findById(id).select('passwordHash');
+    return user ? user.passwordHash : null;
+  }
+
+  async findAll(filters: UserFilters = {}): Promise<User[]> {
+    const query: any = {};
+
+    if (filters.role) {
+      query.role = filters.role;
+    }
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    if (filters.search) {
+      query.$or = [
+        { username: { $regex: filters.search, $options: 'i' } },
+        { name: { $regex: filters.search, $options: 'i' } },
+        { email: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const users = await UserModel.find(query).sort({ username: 1 });
+    return users.map(user => this.mapToEntity(user));
+  }
+
+  async count(): Promise<number> {
+    return UserModel.countDocuments();
+  }
+
+  async update(id: string, updates: Partial<User>): Promise<User | null> {
+    const user = await UserModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return user ? this.mapToEntity(user) : null;
+  }
+
+  async updatePassword(id: string, passwordHash: string): Promise<boolean> {
+    const result = await UserModel.findByIdAndUpdate(id, { passwordHash, updatedAt: new Date() });
+    return !!result;
+  }
+
+  async recordLogin(id: string): Promise<void> {
+    await UserModel.findByIdAndUpdate(id, { lastLoginAt: new Date() });
+  }
+
+  // El hash de la contraseña nunca sale del repositorio salvo por findPasswordHash
+  private mapToEntity(doc: UserDocument): User {
+    return {
+      id: doc._id.toString(),
+      username: doc.username,
+      name: doc.name,
+      email: doc.email,
+      role: doc.role,
+      isActive: doc.isActive,
+      lastLoginAt: doc.lastLoginAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
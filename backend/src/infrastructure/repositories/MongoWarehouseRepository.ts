@@ -0,0 +1,93 @@
+import { Warehouse } from '../../domain/entities/Warehouse';
+import { WarehouseModel, WarehouseDocument } from '../database/models/WarehouseModel';
+
+export interface WarehouseRepository {
+  create(warehouse: Omit<Warehouse, 'id' | 'createdAt' | 'updatedAt'>): Promise<Warehouse>;
+  findById(id: string): Promise<Warehouse | null>;
+  findByCode(code: string): Promise<Warehouse | null>;
+  findDefault(): Promise<Warehouse | null>;
+  findAll(filters?: WarehouseFilters): Promise<Warehouse[]>;
+  update(id: string, updates: Partial<Warehouse>): Promise<Warehouse | null>;
+  // Deja como almacén por defecto solo el indicado
+  setDefault(id: string): Promise<Warehouse | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface WarehouseFilters {
+  isActive?: boolean;
+  search?: string;
+}
+
+export class MongoWarehouseRepository implements WarehouseRepository {
+
+  async create(warehouseData: Omit<Warehouse, 'id' | 'createdAt' | 'updatedAt'>): Promise<Warehouse> {
+    const warehouse = new WarehouseModel(warehouseData);
+    const savedWarehouse = await warehouse.save();
+    return this.mapToEntity(savedWarehouse);
+  }
+
+  async findById(id: string): Promise<Warehouse | null> {
+    const warehouse = await WarehouseModel.findById(id);
+    return warehouse ? this.mapToEntity(warehouse) : null;
+  }
+
+  async findByCode(code: string): Promise<Warehouse | null> {
+    const warehouse = await WarehouseModel.findOne({ code: code.toUpperCase() });
+    return warehouse ? this.mapToEntity(warehouse) : null;
+  }
+
+  async findDefault(): Promise<Warehouse | null> {
+    const warehouse = await WarehouseModel.findOne({ isDefault: true });
+    return warehouse ? this.mapToEntity(warehouse) : null;
+  }
+
+  async findAll(filters: WarehouseFilters = {}): Promise<Warehouse[]> {
+    const query: any = {};
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    if (filters.search) {
+      query.$or = [
+        { code: { $regex: filters.search, $options: 'i' } },
+        { name: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const warehouses = await WarehouseModel.find(query).sort({ isDefault: -1, code: 1 });
+    return warehouses.map(warehouse => this.mapToEntity(warehouse));
+  }
+
+  async update(id: string, updates: Partial<Warehouse>): Promise<Warehouse | null> {
+    const warehouse = await WarehouseModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return warehouse ? this.mapToEntity(warehouse) : null;
+  }
+
+  async setDefault(id: string): Promise<Warehouse | null> {
+    await WarehouseModel.updateMany({ _id: { $ne: id }, isDefault: true }, { $set: { isDefault: false } });
+    return this.update(id, { isDefault: true });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await WarehouseModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: WarehouseDocument): Warehouse {
+    return {
+      id: doc._id.toString(),
+      code: doc.code,
+      name: doc.name,
+      address: doc.address,
+      isDefault: doc.isDefault,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
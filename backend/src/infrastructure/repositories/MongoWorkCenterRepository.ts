@@ -0,0 +1,80 @@
+import { WorkCenter } from '../../domain/entities/WorkCenter';
+import { WorkCenterModel, WorkCenterDocument } from '../database/models/WorkCenterModel';
+
+export interface WorkCenterRepository {
+  create(workCenter: Omit<WorkCenter, 'id' | 'createdAt' | 'updatedAt'>): Promise<WorkCenter>;
+  findById(id: string): Promise<WorkCenter | null>;
+  findByCode(code: string): Promise<WorkCenter | null>;
+  findAll(filters?: WorkCenterFilters): Promise<WorkCenter[]>;
+  update(id: string, updates: Partial<WorkCenter>): Promise<WorkCenter | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface WorkCenterFilters {
+  isActive?: boolean;
+  search?: string;
+}
+
+export class MongoWorkCenterRepository implements WorkCenterRepository {
+
+  async create(workCenterData: Omit<WorkCenter, 'id' | 'createdAt' | 'updatedAt'>): Promise<WorkCenter> {
+    const workCenter = new WorkCenterModel(workCenterData);
+    const savedWorkCenter = await workCenter.save();
+    return this.mapToEntity(savedWorkCenter);
+  }
+
+  async findById(id: string): Promise<WorkCenter | null> {
+    const workCenter = await WorkCenterModel.findById(id);
+    return workCenter ? this.mapToEntity(workCenter) : null;
+  }
+
+  async findByCode(code: string): Promise<WorkCenter | null> {
+    const workCenter = await WorkCenterModel.findOne({ code: code.toUpperCase() });
+    return workCenter ? this.mapToEntity(workCenter) : null;
+  }
+
+  async findAll(filters: WorkCenterFilters = {}): Promise<WorkCenter[]> {
+    const query: any = {};
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    if (filters.search) {
+      query.$or = [
+        { code: { $regex: filters.search, $options: 'i' } },
+        { name: { $regex: filters.search, $options: 'i' } }
+      ];
+    }
+
+    const workCenters = await WorkCenterModel.find(query).sort({ code: 1 });
+    return workCenters.map(workCenter => this.mapToEntity(workCenter));
+  }
+
+  async update(id: string, updates: Partial<WorkCenter>): Promise<WorkCenter | null> {
+    const workCenter = await WorkCenterModel.findByIdAndUpdate(
+      id,
+      { ...updates, updatedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    return workCenter ? this.mapToEntity(workCenter) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await WorkCenterModel.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  private mapToEntity(doc: WorkCenterDocument): WorkCenter {
+    return {
+      id: doc._id.toString(),
+      code: doc.code,
+      name: doc.name,
+      description: doc.description,
+      capacityHoursPerDay: doc.capacityHoursPerDay,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
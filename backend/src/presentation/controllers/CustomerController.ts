@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { CustomerUseCases } from '../../application/usecases/CustomerUseCases';
+
+export class CustomerController {
+  constructor(private customerUseCases: CustomerUseCases) {}
+
+  // GET /api/customers
+  async getCustomers(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        search: req.query.search as string
+      };
+
+      const customers = await this.customerUseCases.getCustomers(filters);
+      res.json({
+        success: true,
+        data: customers,
+        count: customers.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los clientes'
+      });
+    }
+  }
+
+  // GET /api/customers/:id
+  async getCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await this.customerUseCases.getCustomerById(req.params.id);
+      res.json({
+        success: true,
+        data: customer
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el cliente'
+      });
+    }
+  }
+
+  // POST /api/customers
+  async createCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await this.customerUseCases.createCustomer(req.body);
+      res.status(201).json({
+        success: true,
+        data: customer,
+        message: 'Cliente creado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al crear el cliente'
+      });
+    }
+  }
+
+  // PUT /api/customers/:id
+  async updateCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await this.customerUseCases.updateCustomer(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: customer,
+        message: 'Cliente actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el cliente'
+      });
+    }
+  }
+
+  // DELETE /api/customers/:id
+  async deleteCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      await this.customerUseCases.deleteCustomer(req.params.id);
+      res.json({
+        success: true,
+        message: 'Cliente eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el cliente'
+      });
+    }
+  }
+}
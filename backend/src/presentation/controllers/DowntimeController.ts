@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { DowntimeUseCases } from '../../application/usecases/DowntimeUseCases';
+
+export class DowntimeController {
+  constructor(private downtimeUseCases: DowntimeUseCases) {}
+
+  // GET /api/downtime/pareto
+  async getDowntimeReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.downtimeUseCases.getDowntimeReport({
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined
+      });
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al generar el análisis de paradas'
+      });
+    }
+  }
+
+  // GET /api/downtime/reasons
+  async getReasons(req: Request, res: Response): Promise<void> {
+    try {
+      const reasons = await this.downtimeUseCases.getReasons({
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined
+      });
+      res.json({
+        success: true,
+        data: reasons,
+        count: reasons.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los motivos de parada'
+      });
+    }
+  }
+
+  // POST /api/downtime/reasons
+  async createReason(req: Request, res: Response): Promise<void> {
+    try {
+      const reason = await this.downtimeUseCases.createReason(req.body);
+      res.status(201).json({
+        success: true,
+        data: reason,
+        message: 'Motivo de parada creado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al crear el motivo de parada'
+      });
+    }
+  }
+
+  // PUT /api/downtime/reasons/:id
+  async updateReason(req: Request, res: Response): Promise<void> {
+    try {
+      const reason = await this.downtimeUseCases.updateReason(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: reason,
+        message: 'Motivo de parada actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el motivo de parada'
+      });
+    }
+  }
+
+  // DELETE /api/downtime/reasons/:id
+  async deleteReason(req: Request, res: Response): Promise<void> {
+    try {
+      await this.downtimeUseCases.deleteReason(req.params.id);
+      res.json({
+        success: true,
+        message: 'Motivo de parada eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el motivo de parada'
+      });
+    }
+  }
+}
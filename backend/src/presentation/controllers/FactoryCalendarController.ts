@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { FactoryCalendarUseCases } from '../../application/usecases/FactoryCalendarUseCases';
+
+export class FactoryCalendarController {
+  constructor(private factoryCalendarUseCases: FactoryCalendarUseCases) {}
+
+  // GET /api/factory-calendar
+  async getCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const calendar = await this.factoryCalendarUseCases.getCalendar();
+      res.json({
+        success: true,
+        data: calendar
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener el calendario de fábrica'
+      });
+    }
+  }
+
+  // PUT /api/factory-calendar
+  async updateCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const calendar = await this.factoryCalendarUseCases.updateCalendar(req.body);
+      res.json({
+        success: true,
+        data: calendar,
+        message: 'Calendario de fábrica actualizado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al actualizar el calendario de fábrica'
+      });
+    }
+  }
+
+  // GET /api/factory-calendar/working-time?from=&to=
+  async getWorkingTime(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.query.from || !req.query.to) {
+        res.status(400).json({
+          success: false,
+          message: 'Los parámetros from y to son requeridos'
+        });
+        return;
+      }
+
+      const summary = await this.factoryCalendarUseCases.getWorkingTime(
+        new Date(req.query.from as string),
+        new Date(req.query.to as string)
+      );
+      res.json({
+        success: true,
+        data: summary
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al calcular el tiempo laborable'
+      });
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { InspectionUseCases } from '../../application/usecases/InspectionUseCases';
+
+export class InspectionController {
+  constructor(private inspectionUseCases: InspectionUseCases) {}
+
+  // GET /api/inspections/plans
+  async getPlans(req: Request, res: Response): Promise<void> {
+    try {
+      const plans = await this.inspectionUseCases.getPlans({
+        modelId: req.query.modelId as string,
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        search: req.query.search as string
+      });
+      res.json({
+        success: true,
+        data: plans,
+        count: plans.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los planes de inspección'
+      });
+    }
+  }
+
+  // GET /api/inspections/plans/:id
+  async getPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await this.inspectionUseCases.getPlanById(req.params.id);
+      res.json({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el plan de inspección'
+      });
+    }
+  }
+
+  // POST /api/inspections/plans
+  async createPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await this.inspectionUseCases.createPlan(req.body);
+      res.status(201).json({
+        success: true,
+        data: plan,
+        message: 'Plan de inspección creado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al crear el plan de inspección'
+      });
+    }
+  }
+
+  // PUT /api/inspections/plans/:id
+  async updatePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await this.inspectionUseCases.updatePlan(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: plan,
+        message: 'Plan de inspección actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el plan de inspección'
+      });
+    }
+  }
+
+  // DELETE /api/inspections/plans/:id
+  async deletePlan(req: Request, res: Response): Promise<void> {
+    try {
+      await this.inspectionUseCases.deletePlan(req.params.id);
+      res.json({
+        success: true,
+        message: 'Plan de inspección eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el plan de inspección'
+      });
+    }
+  }
+
+  // GET /api/inspections/cards/:cardId
+  async getCardInspection(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await this.inspectionUseCases.getCardInspection(req.params.cardId);
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la inspección de la tarjeta'
+      });
+    }
+  }
+
+  // POST /api/inspections/cards/:cardId
+  async recordInspection(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await this.inspectionUseCases.recordInspection(req.params.cardId, req.body, req.user?.username);
+      res.status(201).json({
+        success: true,
+        data: status,
+        message: status.passed ? 'Inspección superada' : 'Inspección no superada'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al registrar la inspección'
+      });
+    }
+  }
+}
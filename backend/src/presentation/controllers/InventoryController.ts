@@ -1,9 +1,18 @@
 import { Request, Response } from 'express';
 import { InventoryUseCases } from '../../application/usecases/InventoryUseCases';
+import { StockMovementUseCases } from '../../application/usecases/StockMovementUseCases';
+import { BomUseCases } from '../../application/usecases/BomUseCases';
+import { BomRevisionUseCases } from '../../application/usecases/BomRevisionUseCases';
 import { InventoryType, InventoryStatus } from '../../domain/entities/InventoryItem';
+import { StockMovementType, StockMovementReferenceType } from '../../domain/entities/StockMovement';
 
 export class InventoryController {
-  constructor(private inventoryUseCases: InventoryUseCases) {}
+  constructor(
+    private inventoryUseCases: InventoryUseCases,
+    private stockMovementUseCases: StockMovementUseCases,
+    private bomUseCases: BomUseCases,
+    private bomRevisionUseCases: BomRevisionUseCases
+  ) {}
 
   createItem = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -77,7 +86,9 @@ export class InventoryController {
         type: req.query.type as InventoryType,
         status: req.query.status as InventoryStatus,
         location: req.query.location as string,
+        warehouseId: req.query.warehouseId as string,
         supplier: req.query.supplier as string,
+        supplierId: req.query.supplierId as string,
         lowStock: req.query.lowStock === 'true',
         search: req.query.search as string
       };
@@ -105,7 +116,7 @@ export class InventoryController {
   updateItem = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const item = await this.inventoryUseCases.updateInventoryItem(id, req.body);
+      const item = await this.inventoryUseCases.updateInventoryItem(id, req.body, req.user?.username);
 
       if (!item) {
         res.status(404).json({
@@ -156,7 +167,8 @@ export class InventoryController {
   updateQuantity = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { quantity } = req.body;
+      const { quantity, reason } = req.body;
+      const performedBy = req.user?.username;
 
       if (typeof quantity !== 'number') {
         res.status(400).json({
@@ -166,7 +178,7 @@ export class InventoryController {
         return;
       }
 
-      const item = await this.inventoryUseCases.updateQuantity(id, quantity);
+      const item = await this.inventoryUseCases.updateQuantity(id, quantity, reason, performedBy);
 
       if (!item) {
         res.status(404).json({
@@ -191,7 +203,8 @@ export class InventoryController {
 
   bulkUpdateQuantities = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { updates } = req.body;
+      const { updates, reason } = req.body;
+      const performedBy = req.user?.username;
 
       if (!Array.isArray(updates)) {
         res.status(400).json({
@@ -201,7 +214,7 @@ export class InventoryController {
         return;
       }
 
-      const items = await this.inventoryUseCases.bulkUpdateQuantities(updates);
+      const items = await this.inventoryUseCases.bulkUpdateQuantities(updates, reason, performedBy);
 
       res.json({
         success: true,
@@ -246,4 +259,330 @@ export class InventoryController {
       });
     }
   };
-}
\ No newline at end of file
+
+  getMovements = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const filters = {
+        type: req.query.type as StockMovementType | undefined,
+        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      };
+
+      const movements = await this.stockMovementUseCases.getItemMovements(id, filters);
+      res.json({
+        success: true,
+        data: movements,
+        count: movements.length
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve stock movements'
+      });
+    }
+  };
+
+  createMovement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { type, quantity, reason, referenceType, referenceId, lotId, lot, warehouseId, binId } = req.body;
+      const performedBy = req.user?.username;
+
+      if (!Object.values(StockMovementType).includes(type)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid movement type'
+        });
+        return;
+      }
+
+      const movement = await this.stockMovementUseCases.recordMovement({
+        itemId: id,
+        type,
+        quantity: Number(quantity),
+        reason,
+        referenceType: referenceType || StockMovementReferenceType.MANUAL,
+        referenceId,
+        lotId,
+        lot,
+        warehouseId,
+        binId,
+        performedBy
+      });
+
+      res.status(201).json({
+        success: true,
+        data: movement,
+        message: 'Stock movement recorded successfully'
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to record stock movement'
+      });
+    }
+  };
+
+  transferStock = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { itemId, quantity, fromWarehouseId, fromBinId, toWarehouseId, toBinId, reason } = req.body;
+      const movement = await this.stockMovementUseCases.transferStock({
+        itemId,
+        quantity: Number(quantity),
+        fromWarehouseId,
+        fromBinId,
+        toWarehouseId,
+        toBinId,
+        reason,
+        performedBy: req.user?.username
+      });
+
+      res.status(201).json({
+        success: true,
+        data: movement,
+        message: 'Stock transferred successfully'
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to transfer stock'
+      });
+    }
+  };
+
+  getItemLocations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const locations = await this.inventoryUseCases.getItemLocations(id);
+      res.json({
+        success: true,
+        data: locations
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve item locations'
+      });
+    }
+  };
+
+  getReconciliation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const reconciliation = await this.stockMovementUseCases.getReconciliation(id);
+      res.json({
+        success: true,
+        data: reconciliation
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve stock reconciliation'
+      });
+    }
+  };
+
+  reconcileItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const reconciliation = await this.stockMovementUseCases.reconcileItem(id, req.user?.username);
+      res.json({
+        success: true,
+        data: reconciliation,
+        message: 'Stock ledger reconciled successfully'
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to reconcile stock ledger'
+      });
+    }
+  };
+
+  getBom = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const levelsParam = (req.query.levels as string) || '1';
+      const levels = levelsParam === 'all' ? 'all' : parseInt(levelsParam, 10);
+      const quantity = req.query.quantity ? Number(req.query.quantity) : 1;
+
+      if (levels !== 'all' && (isNaN(levels) || levels < 1)) {
+        res.status(400).json({
+          success: false,
+          message: 'Levels must be a positive number or "all"'
+        });
+        return;
+      }
+
+      const explosion = await this.bomUseCases.explode(id, levels, quantity);
+      res.json({
+        success: true,
+        data: explosion
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to explode bill of materials'
+      });
+    }
+  };
+
+  getWhereUsed = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const result = await this.bomUseCases.whereUsed(id);
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve where-used information'
+      });
+    }
+  };
+
+  getBomRevisions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const revisions = await this.bomRevisionUseCases.getRevisions(id);
+      res.json({
+        success: true,
+        data: revisions,
+        count: revisions.length
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve BOM revisions'
+      });
+    }
+  };
+
+  createBomRevision = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { componentLines, billOfMaterials, notes } = req.body;
+      const revision = await this.bomRevisionUseCases.createDraft(id, { componentLines, billOfMaterials, notes, createdBy: req.user?.username });
+      res.status(201).json({
+        success: true,
+        data: revision,
+        message: 'BOM revision draft created successfully'
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to create BOM revision'
+      });
+    }
+  };
+
+  getBomRevision = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const revision = await this.bomRevisionUseCases.getRevision(req.params.revisionId);
+      res.json({
+        success: true,
+        data: revision
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to retrieve BOM revision'
+      });
+    }
+  };
+
+  updateBomRevision = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { componentLines, billOfMaterials, notes } = req.body;
+      const revision = await this.bomRevisionUseCases.updateDraft(req.params.revisionId, { componentLines, billOfMaterials, notes });
+      res.json({
+        success: true,
+        data: revision,
+        message: 'BOM revision updated successfully'
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to update BOM revision'
+      });
+    }
+  };
+
+  releaseBomRevision = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { effectiveFrom } = req.body;
+      const releasedBy = req.user?.username;
+      const revision = await this.inventoryUseCases.releaseBomRevision(
+        req.params.revisionId,
+        effectiveFrom ? new Date(effectiveFrom) : undefined,
+        releasedBy
+      );
+      res.json({
+        success: true,
+        data: revision,
+        message: 'BOM revision released successfully'
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to release BOM revision'
+      });
+    }
+  };
+
+  obsoleteBomRevision = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const revision = await this.bomRevisionUseCases.obsolete(req.params.revisionId);
+      res.json({
+        success: true,
+        data: revision,
+        message: 'BOM revision marked as obsolete'
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to mark BOM revision as obsolete'
+      });
+    }
+  };
+
+  compareBomRevisions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { from, to } = req.query;
+      if (!from || !to) {
+        res.status(400).json({
+          success: false,
+          message: 'Query parameters "from" and "to" are required'
+        });
+        return;
+      }
+
+      const comparison = await this.bomRevisionUseCases.compare(from as string, to as string);
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to compare BOM revisions'
+      });
+    }
+  };
+}
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { InventoryLotUseCases } from '../../application/usecases/InventoryLotUseCases';
+
+export class InventoryLotController {
+  constructor(private inventoryLotUseCases: InventoryLotUseCases) {}
+
+  // GET /api/lots
+  async getLots(req: Request, res: Response): Promise<void> {
+    try {
+      const lots = await this.inventoryLotUseCases.getLots({
+        itemId: req.query.itemId as string,
+        search: req.query.search as string,
+        withStock: req.query.withStock === 'true',
+        expiresBefore: req.query.expiresBefore ? new Date(req.query.expiresBefore as string) : undefined
+      });
+      res.json({
+        success: true,
+        data: lots,
+        count: lots.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los lotes'
+      });
+    }
+  }
+
+  // GET /api/lots/:id
+  async getLot(req: Request, res: Response): Promise<void> {
+    try {
+      const lot = await this.inventoryLotUseCases.getLotById(req.params.id);
+      res.json({
+        success: true,
+        data: lot
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el lote'
+      });
+    }
+  }
+
+  // GET /api/lots/:id/genealogy
+  async getGenealogy(req: Request, res: Response): Promise<void> {
+    try {
+      const genealogy = await this.inventoryLotUseCases.getGenealogy(req.params.id);
+      res.json({
+        success: true,
+        data: genealogy
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la genealogía del lote'
+      });
+    }
+  }
+
+  // GET /api/lots/cards/:cardId
+  async getCardLots(req: Request, res: Response): Promise<void> {
+    try {
+      const lots = await this.inventoryLotUseCases.getCardLots(req.params.cardId);
+      res.json({
+        success: true,
+        data: lots,
+        count: lots.length
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener los lotes de la tarjeta'
+      });
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { LaborUseCases } from '../../application/usecases/LaborUseCases';
+
+export class LaborController {
+  constructor(private laborUseCases: LaborUseCases) {}
+
+  // GET /api/labor
+  async getLaborReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.laborUseCases.getLaborReport({
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+        orderId: req.query.orderId as string,
+        userId: req.query.userId as string,
+        cardId: req.query.cardId as string
+      });
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al generar el informe de mano de obra'
+      });
+    }
+  }
+
+  // GET /api/labor/entries
+  async getEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const entries = await this.laborUseCases.getEntries({
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+        orderId: req.query.orderId as string,
+        userId: req.query.userId as string,
+        cardId: req.query.cardId as string,
+        isOpen: req.query.isOpen !== undefined ? req.query.isOpen === 'true' : undefined
+      });
+      res.json({
+        success: true,
+        data: entries,
+        count: entries.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los fichajes'
+      });
+    }
+  }
+
+  // GET /api/labor/active
+  async getActiveEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const entries = await this.laborUseCases.getActiveEntries({
+        cardId: req.query.cardId as string,
+        userId: req.query.userId as string
+      });
+      res.json({
+        success: true,
+        data: entries,
+        count: entries.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los fichajes abiertos'
+      });
+    }
+  }
+
+  // POST /api/labor/clock-on
+  async clockOn(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await this.laborUseCases.clockOn(req.user!, req.body);
+      res.status(201).json({
+        success: true,
+        data: entry,
+        message: 'Fichaje iniciado'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al fichar en la tarjeta'
+      });
+    }
+  }
+
+  // POST /api/labor/clock-off
+  async clockOff(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await this.laborUseCases.clockOff(req.user!, req.body?.cardId);
+      res.json({
+        success: true,
+        data: entry,
+        message: 'Fichaje cerrado'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al cerrar el fichaje'
+      });
+    }
+  }
+}
@@ -8,13 +8,13 @@ export class ManufacturingOrderController {
   // POST /api/manufacturing-orders
   async createOrder(req: Request, res: Response): Promise<void> {
     try {
-      const { modelId, quantity, clientName, dueDate, notes, componentIds } = req.body;
+      const { modelId, quantity, clientName, customerId, dueDate, notes, componentIds, blockOnShortage } = req.body;
 
       // Validaciones básicas
-      if (!modelId || !quantity || !clientName || !dueDate) {
+      if (!modelId || !quantity || !(clientName || customerId) || !dueDate) {
         res.status(400).json({
           success: false,
-          message: 'Faltan campos requeridos: modelId, quantity, clientName, dueDate'
+          message: 'Faltan campos requeridos: modelId, quantity, customerId o clientName, dueDate'
         });
         return;
       }
@@ -39,9 +39,11 @@ export class ManufacturingOrderController {
         modelId,
         quantity: parseInt(quantity),
         clientName,
+        customerId: customerId || undefined,
         dueDate: new Date(dueDate),
         notes,
-        componentIds: componentIds || []
+        componentIds: componentIds || [],
+        blockOnShortage: blockOnShortage === true
       };
 
       const result = await this.manufacturingOrderUseCases.createManufacturingOrder(request);
@@ -59,12 +61,46 @@ export class ManufacturingOrderController {
     }
   }
 
+  // POST /api/manufacturing-orders/availability
+  async checkAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { modelId, quantity, componentIds } = req.body;
+
+      if (!modelId || !quantity) {
+        res.status(400).json({
+          success: false,
+          message: 'Faltan campos requeridos: modelId, quantity'
+        });
+        return;
+      }
+
+      const report = await this.manufacturingOrderUseCases.checkAvailability({
+        modelId,
+        quantity: parseInt(quantity),
+        componentIds: componentIds || []
+      });
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al verificar la disponibilidad de materiales'
+      });
+    }
+  }
+
   // GET /api/manufacturing-orders
   async getAllOrders(req: Request, res: Response): Promise<void> {
     try {
       const {
         status,
         clientName,
+        customerId,
+        salesOrderId,
         modelId,
         overdue,
         startDate,
@@ -76,6 +112,8 @@ export class ManufacturingOrderController {
 
       if (status) filters.status = status as ManufacturingOrderStatus;
       if (clientName) filters.clientName = clientName as string;
+      if (customerId) filters.customerId = customerId as string;
+      if (salesOrderId) filters.salesOrderId = salesOrderId as string;
       if (modelId) filters.modelId = modelId as string;
       if (overdue === 'true') filters.overdue = true;
       if (startDate) filters.startDate = new Date(startDate as string);
@@ -115,6 +153,26 @@ export class ManufacturingOrderController {
     }
   }
 
+  // GET /api/manufacturing-orders/:id/reservations
+  async getOrderReservations(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const reservations = await this.manufacturingOrderUseCases.getOrderReservations(id);
+
+      res.json({
+        success: true,
+        data: reservations,
+        count: reservations.length
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener las reservas de la orden'
+      });
+    }
+  }
+
   // PUT /api/manufacturing-orders/:id
   async updateOrder(req: Request, res: Response): Promise<void> {
     try {
@@ -201,7 +259,7 @@ export class ManufacturingOrderController {
   async pauseProduction(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const order = await this.manufacturingOrderUseCases.pauseProduction(id);
+      const order = await this.manufacturingOrderUseCases.pauseProduction(id, req.body, req.user?.username);
 
       res.json({
         success: true,
@@ -409,7 +467,7 @@ export class ManufacturingOrderController {
   async pauseComponentProduction(req: Request, res: Response): Promise<void> {
     try {
       const { id, componentId } = req.params;
-      const order = await this.manufacturingOrderUseCases.pauseComponentProduction(id, componentId);
+      const order = await this.manufacturingOrderUseCases.pauseComponentProduction(id, componentId, req.body, req.user?.username);
 
       res.json({
         success: true,
@@ -481,7 +539,7 @@ export class ManufacturingOrderController {
         return;
       }
 
-      const order = await this.manufacturingOrderUseCases.updateComponentMaterials(id, componentId, materials);
+      const order = await this.manufacturingOrderUseCases.updateComponentMaterials(id, componentId, materials, req.user?.username);
 
       res.json({
         success: true,
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { MrpUseCases } from '../../application/usecases/MrpUseCases';
+
+export class MrpController {
+  constructor(private mrpUseCases: MrpUseCases) {}
+
+  // POST /api/mrp/runs
+  async runMrp(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await this.mrpUseCases.runMrp(req.user?.username);
+      res.status(201).json({
+        success: true,
+        data: run,
+        message: `MRP ejecutado: ${run.plannedOrders.length} órdenes planificadas`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al ejecutar el MRP'
+      });
+    }
+  }
+
+  // GET /api/mrp/runs/latest
+  async getLatestRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await this.mrpUseCases.getLatestRun();
+      res.json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener la ejecución del MRP'
+      });
+    }
+  }
+
+  // GET /api/mrp/runs/:id
+  async getRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await this.mrpUseCases.getRunById(req.params.id);
+      res.json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la ejecución del MRP'
+      });
+    }
+  }
+
+  // POST /api/mrp/runs/:id/firm
+  async firmPlannedOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.mrpUseCases.firmPlannedOrders(req.params.id, req.body, req.user?.username);
+      const created = result.purchaseOrders.length + result.manufacturingOrders.length;
+      res.json({
+        success: true,
+        data: result,
+        message: result.errors.length > 0
+          ? `${created} órdenes creadas; no se pudieron firmar: ${result.errors.join('; ')}`
+          : `${created} órdenes creadas desde el MRP`
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al firmar las órdenes planificadas'
+      });
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { NonConformanceUseCases } from '../../application/usecases/NonConformanceUseCases';
+import { NonConformanceStatus } from '../../domain/entities/NonConformance';
+
+export class NonConformanceController {
+  constructor(private nonConformanceUseCases: NonConformanceUseCases) {}
+
+  // GET /api/non-conformances
+  async getNonConformances(req: Request, res: Response): Promise<void> {
+    try {
+      const nonConformances = await this.nonConformanceUseCases.getNonConformances({
+        cardId: req.query.cardId as string,
+        orderId: req.query.orderId as string,
+        modelId: req.query.modelId as string,
+        status: req.query.status as NonConformanceStatus,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined
+      });
+      res.json({
+        success: true,
+        data: nonConformances,
+        count: nonConformances.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener las no conformidades'
+      });
+    }
+  }
+
+  // GET /api/non-conformances/defect-rates
+  async getDefectRates(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.nonConformanceUseCases.getDefectRates({
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined
+      });
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al calcular la tasa de defectos'
+      });
+    }
+  }
+
+  // GET /api/non-conformances/:id
+  async getNonConformance(req: Request, res: Response): Promise<void> {
+    try {
+      const nonConformance = await this.nonConformanceUseCases.getNonConformanceById(req.params.id);
+      res.json({
+        success: true,
+        data: nonConformance
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la no conformidad'
+      });
+    }
+  }
+
+  // POST /api/non-conformances
+  async createNonConformance(req: Request, res: Response): Promise<void> {
+    try {
+      const nonConformance = await this.nonConformanceUseCases.createNonConformance(req.body, req.user?.username);
+      res.status(201).json({
+        success: true,
+        data: nonConformance,
+        message: 'No conformidad registrada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al registrar la no conformidad'
+      });
+    }
+  }
+
+  // POST /api/non-conformances/:id/disposition
+  async disposition(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.nonConformanceUseCases.disposition(req.params.id, req.body, req.user?.username);
+      res.json({
+        success: true,
+        data: result,
+        message: 'Disposición registrada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al registrar la disposición'
+      });
+    }
+  }
+}
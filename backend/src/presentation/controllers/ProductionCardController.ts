@@ -1,9 +1,13 @@
 import { Request, Response } from 'express';
 import { ProductionCardUseCases } from '../../application/usecases/ProductionCardUseCases';
+import { ProductionScheduleUseCases } from '../../application/usecases/ProductionScheduleUseCases';
 import { ProductionCardStatus, ProductionCardPriority } from '../../domain/entities/ProductionCard';
 
 export class ProductionCardController {
-  constructor(private productionCardUseCases: ProductionCardUseCases) {}
+  constructor(
+    private productionCardUseCases: ProductionCardUseCases,
+    private productionScheduleUseCases: ProductionScheduleUseCases
+  ) {}
 
   // GET /api/production-cards
   async getAllCards(req: Request, res: Response): Promise<void> {
@@ -144,7 +148,7 @@ export class ProductionCardController {
   async pauseProduction(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const card = await this.productionCardUseCases.pauseProduction(id);
+      const card = await this.productionCardUseCases.pauseProduction(id, req.body, req.user?.username);
 
       res.json({
         success: true,
@@ -197,11 +201,28 @@ export class ProductionCardController {
     }
   }
 
+  // GET /api/production-cards/:id/timeline
+  async getCardTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const timeline = await this.productionCardUseCases.getCardTimeline(req.params.id);
+      res.json({
+        success: true,
+        data: timeline
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la línea de tiempo de la tarjeta'
+      });
+    }
+  }
+
   // POST /api/production-cards/:id/complete-component/:componentId
   async completeComponent(req: Request, res: Response): Promise<void> {
     try {
       const { id, componentId } = req.params;
-      const card = await this.productionCardUseCases.completeComponent(id, componentId);
+      const card = await this.productionCardUseCases.completeComponent(id, componentId, req.user?.username);
 
       res.json({
         success: true,
@@ -220,7 +241,7 @@ export class ProductionCardController {
   async completeCard(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const card = await this.productionCardUseCases.completeCard(id);
+      const card = await this.productionCardUseCases.completeCard(id, req.user?.username);
 
       res.json({
         success: true,
@@ -254,6 +275,26 @@ export class ProductionCardController {
     }
   }
 
+  // GET /api/production-cards/:id/backflushes
+  async getCardBackflushes(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const backflushes = await this.productionCardUseCases.getCardBackflushes(id);
+
+      res.json({
+        success: true,
+        data: backflushes,
+        count: backflushes.length
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener los consumos de la tarjeta'
+      });
+    }
+  }
+
   // GET /api/production-cards/status/:status
   async getCardsByStatus(req: Request, res: Response): Promise<void> {
     try {
@@ -347,6 +388,76 @@ export class ProductionCardController {
 
   // Component-specific endpoints
 
+  // POST /api/production-cards/schedule
+  async scheduleCards(req: Request, res: Response): Promise<void> {
+    try {
+      const startDate = req.body?.startDate ? new Date(req.body.startDate) : undefined;
+      const schedule = await this.productionScheduleUseCases.scheduleCards({ startDate });
+
+      res.json({
+        success: true,
+        data: schedule,
+        message: schedule.lateCards > 0
+          ? `Programación completada: ${schedule.lateCards} tarjeta(s) no llegarán a su fecha límite`
+          : 'Programación completada: todas las tarjetas llegan a tiempo'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al programar las tarjetas de producción'
+      });
+    }
+  }
+
+  // PATCH /api/production-cards/:id/schedule
+  async rescheduleCard(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { plannedStart } = req.body;
+
+      if (!plannedStart) {
+        res.status(400).json({
+          success: false,
+          message: 'La fecha de inicio prevista es requerida'
+        });
+        return;
+      }
+
+      const card = await this.productionScheduleUseCases.rescheduleCard(id, new Date(plannedStart));
+
+      res.json({
+        success: true,
+        data: card,
+        message: 'Tarjeta reprogramada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al reprogramar la tarjeta'
+      });
+    }
+  }
+
+  // DELETE /api/production-cards/:id/schedule/pin
+  async unpinCard(req: Request, res: Response): Promise<void> {
+    try {
+      const card = await this.productionScheduleUseCases.unpinCard(req.params.id);
+
+      res.json({
+        success: true,
+        data: card,
+        message: 'La tarjeta volverá a programarse por prioridad'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al liberar la programación de la tarjeta'
+      });
+    }
+  }
+
   // POST /api/production-cards/:id/components/:componentId/start
   async startComponentProduction(req: Request, res: Response): Promise<void> {
     try {
@@ -366,11 +477,51 @@ export class ProductionCardController {
     }
   }
 
+  // POST /api/production-cards/:id/operations/:operationId/start
+  async startOperation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, operationId } = req.params;
+      const card = await this.productionCardUseCases.startOperation(id, operationId);
+
+      res.json({
+        success: true,
+        data: card,
+        message: 'Operación iniciada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al iniciar la operación'
+      });
+    }
+  }
+
+  // POST /api/production-cards/:id/operations/:operationId/complete
+  async completeOperation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, operationId } = req.params;
+      const card = await this.productionCardUseCases.completeOperation(id, operationId);
+
+      res.json({
+        success: true,
+        data: card,
+        message: 'Operación completada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al completar la operación'
+      });
+    }
+  }
+
   // POST /api/production-cards/:id/components/:componentId/pause
   async pauseComponentProduction(req: Request, res: Response): Promise<void> {
     try {
       const { id, componentId } = req.params;
-      const card = await this.productionCardUseCases.pauseComponentProduction(id, componentId);
+      const card = await this.productionCardUseCases.pauseComponentProduction(id, componentId, req.body, req.user?.username);
 
       res.json({
         success: true,
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { PurchaseOrderUseCases } from '../../application/usecases/PurchaseOrderUseCases';
+import { PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+
+export class PurchaseOrderController {
+  constructor(private purchaseOrderUseCases: PurchaseOrderUseCases) {}
+
+  // GET /api/purchase-orders
+  async getPurchaseOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as string | undefined;
+      const filters = {
+        status: status ? status.split(',') as PurchaseOrderStatus[] : undefined,
+        supplierId: req.query.supplierId as string,
+        itemId: req.query.itemId as string
+      };
+
+      const purchaseOrders = await this.purchaseOrderUseCases.getPurchaseOrders(filters);
+      res.json({
+        success: true,
+        data: purchaseOrders,
+        count: purchaseOrders.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener las órdenes de compra'
+      });
+    }
+  }
+
+  // GET /api/purchase-orders/incoming
+  async getIncoming(req: Request, res: Response): Promise<void> {
+    try {
+      const incoming = await this.purchaseOrderUseCases.getIncoming(req.query.itemId as string | undefined);
+      res.json({
+        success: true,
+        data: incoming,
+        count: incoming.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener las entradas pendientes'
+      });
+    }
+  }
+
+  // GET /api/purchase-orders/:id
+  async getPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const purchaseOrder = await this.purchaseOrderUseCases.getPurchaseOrderById(req.params.id);
+      res.json({
+        success: true,
+        data: purchaseOrder
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la orden de compra'
+      });
+    }
+  }
+
+  // POST /api/purchase-orders
+  async createPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const purchaseOrder = await this.purchaseOrderUseCases.createPurchaseOrder(req.body, req.user?.username);
+      res.status(201).json({
+        success: true,
+        data: purchaseOrder,
+        message: 'Orden de compra creada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al crear la orden de compra'
+      });
+    }
+  }
+
+  // PUT /api/purchase-orders/:id
+  async updatePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const purchaseOrder = await this.purchaseOrderUseCases.updatePurchaseOrder(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: purchaseOrder,
+        message: 'Orden de compra actualizada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar la orden de compra'
+      });
+    }
+  }
+
+  // DELETE /api/purchase-orders/:id
+  async deletePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      await this.purchaseOrderUseCases.deletePurchaseOrder(req.params.id);
+      res.json({
+        success: true,
+        message: 'Orden de compra eliminada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar la orden de compra'
+      });
+    }
+  }
+
+  // POST /api/purchase-orders/:id/send
+  async sendPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const purchaseOrder = await this.purchaseOrderUseCases.sendPurchaseOrder(req.params.id);
+      res.json({
+        success: true,
+        data: purchaseOrder,
+        message: 'Orden de compra enviada'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al enviar la orden de compra'
+      });
+    }
+  }
+
+  // POST /api/purchase-orders/:id/receipts
+  async receiveGoods(req: Request, res: Response): Promise<void> {
+    try {
+      const purchaseOrder = await this.purchaseOrderUseCases.receiveGoods(req.params.id, req.body, req.user?.username);
+      res.json({
+        success: true,
+        data: purchaseOrder,
+        message: 'Recepción registrada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al registrar la recepción'
+      });
+    }
+  }
+
+  // POST /api/purchase-orders/:id/close
+  async closePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const purchaseOrder = await this.purchaseOrderUseCases.closePurchaseOrder(req.params.id);
+      res.json({
+        success: true,
+        data: purchaseOrder,
+        message: 'Orden de compra cerrada'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrada') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al cerrar la orden de compra'
+      });
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import { ReplenishmentUseCases } from '../../application/usecases/ReplenishmentUseCases';
+import { ReplenishmentStatus } from '../../domain/entities/ReplenishmentSuggestion';
+import { PlannedOrderType } from '../../domain/entities/Mrp';
+
+export class ReplenishmentController {
+  constructor(private replenishmentUseCases: ReplenishmentUseCases) {}
+
+  // GET /api/replenishment/suggestions
+  async getSuggestions(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        status: req.query.status as ReplenishmentStatus | undefined,
+        type: req.query.type as PlannedOrderType | undefined,
+        itemId: req.query.itemId as string
+      };
+
+      const suggestions = await this.replenishmentUseCases.getSuggestions(filters);
+      res.json({
+        success: true,
+        data: suggestions,
+        count: suggestions.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener las sugerencias de reposición'
+      });
+    }
+  }
+
+  // POST /api/replenishment/suggestions/scan
+  async scan(req: Request, res: Response): Promise<void> {
+    try {
+      const suggestions = await this.replenishmentUseCases.scanAll(req.user?.username);
+      res.json({
+        success: true,
+        data: suggestions,
+        message: `${suggestions.length} artículos por debajo del punto de pedido`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al revisar el punto de pedido'
+      });
+    }
+  }
+
+  // GET /api/replenishment/suggestions/:id
+  async getSuggestion(req: Request, res: Response): Promise<void> {
+    try {
+      const suggestion = await this.replenishmentUseCases.getSuggestionById(req.params.id);
+      res.json({
+        success: true,
+        data: suggestion
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener la sugerencia de reposición'
+      });
+    }
+  }
+
+  // POST /api/replenishment/suggestions/:id/approve
+  async approveSuggestion(req: Request, res: Response): Promise<void> {
+    try {
+      const suggestion = await this.replenishmentUseCases.approveSuggestion(req.params.id, req.body, req.user?.username);
+      res.json({
+        success: true,
+        data: suggestion,
+        message: `Reposición aprobada: ${suggestion.reference}`
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al aprobar la sugerencia de reposición'
+      });
+    }
+  }
+
+  // POST /api/replenishment/suggestions/:id/dismiss
+  async dismissSuggestion(req: Request, res: Response): Promise<void> {
+    try {
+      const suggestion = await this.replenishmentUseCases.dismissSuggestion(req.params.id, req.user?.username);
+      res.json({
+        success: true,
+        data: suggestion,
+        message: 'Sugerencia descartada'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al descartar la sugerencia de reposición'
+      });
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { SalesOrderUseCases, FulfilSalesOrderResult } from '../../application/usecases/SalesOrderUseCases';
+import { SalesOrderStatus } from '../../domain/entities/SalesOrder';
+
+export class SalesOrderController {
+  constructor(private salesOrderUseCases: SalesOrderUseCases) {}
+
+  // GET /api/sales-orders
+  async getSalesOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as string | undefined;
+      const filters = {
+        status: status ? status.split(',') as SalesOrderStatus[] : undefined,
+        customerId: req.query.customerId as string,
+        itemId: req.query.itemId as string
+      };
+
+      const salesOrders = await this.salesOrderUseCases.getSalesOrders(filters);
+      res.json({
+        success: true,
+        data: salesOrders,
+        count: salesOrders.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los pedidos de venta'
+      });
+    }
+  }
+
+  // GET /api/sales-orders/:id
+  async getSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const salesOrder = await this.salesOrderUseCases.getSalesOrderById(req.params.id);
+      res.json({
+        success: true,
+        data: salesOrder
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el pedido de venta'
+      });
+    }
+  }
+
+  // POST /api/sales-orders
+  async createSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const salesOrder = await this.salesOrderUseCases.createSalesOrder(req.body, req.user?.username);
+      res.status(201).json({
+        success: true,
+        data: salesOrder,
+        message: 'Pedido de venta creado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al crear el pedido de venta'
+      });
+    }
+  }
+
+  // PUT /api/sales-orders/:id
+  async updateSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const salesOrder = await this.salesOrderUseCases.updateSalesOrder(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: salesOrder,
+        message: 'Pedido de venta actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el pedido de venta'
+      });
+    }
+  }
+
+  // DELETE /api/sales-orders/:id
+  async deleteSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      await this.salesOrderUseCases.deleteSalesOrder(req.params.id);
+      res.json({
+        success: true,
+        message: 'Pedido de venta eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el pedido de venta'
+      });
+    }
+  }
+
+  // POST /api/sales-orders/:id/confirm
+  async confirmSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.salesOrderUseCases.confirmSalesOrder(req.params.id, req.user?.username);
+      res.json({
+        success: true,
+        data: result,
+        message: this.fulfilMessage('Pedido de venta confirmado', result)
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al confirmar el pedido de venta'
+      });
+    }
+  }
+
+  // POST /api/sales-orders/:id/fulfil
+  async fulfilSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.salesOrderUseCases.fulfilSalesOrder(req.params.id);
+      res.json({
+        success: true,
+        data: result,
+        message: this.fulfilMessage('Pedido de venta revisado', result)
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al servir el pedido de venta'
+      });
+    }
+  }
+
+  // POST /api/sales-orders/:id/cancel
+  async cancelSalesOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const salesOrder = await this.salesOrderUseCases.cancelSalesOrder(req.params.id);
+      res.json({
+        success: true,
+        data: salesOrder,
+        message: 'Pedido de venta cancelado'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al cancelar el pedido de venta'
+      });
+    }
+  }
+
+  private fulfilMessage(prefix: string, result: FulfilSalesOrderResult): string {
+    const created = `${prefix}: ${result.manufacturingOrderIds.length} órdenes de fabricación generadas`;
+    return result.errors.length > 0 ? `${created}; sin cubrir: ${result.errors.join('; ')}` : created;
+  }
+}
@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { SerialUnitUseCases } from '../../application/usecases/SerialUnitUseCases';
+
+export class SerialUnitController {
+  constructor(private serialUnitUseCases: SerialUnitUseCases) {}
+
+  // GET /api/serials
+  async getUnits(req: Request, res: Response): Promise<void> {
+    try {
+      const units = await this.serialUnitUseCases.getUnits({
+        modelId: req.query.modelId as string,
+        orderId: req.query.orderId as string,
+        cardId: req.query.cardId as string,
+        shipped: req.query.shipped !== undefined ? req.query.shipped === 'true' : undefined,
+        shipmentId: req.query.shipmentId as string,
+        search: req.query.search as string,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined
+      });
+      res.json({
+        success: true,
+        data: units,
+        count: units.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener las unidades serializadas'
+      });
+    }
+  }
+
+  // GET /api/serials/:serialNumber
+  async getUnit(req: Request, res: Response): Promise<void> {
+    try {
+      const unit = await this.serialUnitUseCases.getUnitBySerialNumber(req.params.serialNumber);
+      res.json({
+        success: true,
+        data: unit
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al buscar el número de serie'
+      });
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { ShipmentUseCases } from '../../application/usecases/ShipmentUseCases';
+import { ShipmentStatus } from '../../domain/entities/Shipment';
+
+export class ShipmentController {
+  constructor(private shipmentUseCases: ShipmentUseCases) {}
+
+  // GET /api/shipments
+  async getShipments(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as string | undefined;
+      const shipments = await this.shipmentUseCases.getShipments({
+        status: status ? status.split(',') as ShipmentStatus[] : undefined,
+        salesOrderId: req.query.salesOrderId as string,
+        manufacturingOrderId: req.query.manufacturingOrderId as string,
+        customerId: req.query.customerId as string
+      });
+      res.json({
+        success: true,
+        data: shipments,
+        count: shipments.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los envíos'
+      });
+    }
+  }
+
+  // GET /api/shipments/shippable
+  async getShippableLines(req: Request, res: Response): Promise<void> {
+    try {
+      const lines = await this.shipmentUseCases.getShippableLines({
+        salesOrderId: req.query.salesOrderId as string,
+        manufacturingOrderId: req.query.manufacturingOrderId as string
+      });
+      res.json({
+        success: true,
+        data: lines
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener lo pendiente de enviar'
+      });
+    }
+  }
+
+  // GET /api/shipments/:id
+  async getShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const shipment = await this.shipmentUseCases.getShipmentById(req.params.id);
+      res.json({
+        success: true,
+        data: shipment
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el envío'
+      });
+    }
+  }
+
+  // GET /api/shipments/:id/delivery-note
+  async getDeliveryNote(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileName, content } = await this.shipmentUseCases.getDeliveryNote(req.params.id);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+      res.send(content);
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al generar el albarán'
+      });
+    }
+  }
+
+  // POST /api/shipments
+  async createShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const shipment = await this.shipmentUseCases.createShipment(req.body, req.user?.username);
+      res.status(201).json({
+        success: true,
+        data: shipment,
+        message: 'Envío creado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al crear el envío'
+      });
+    }
+  }
+
+  // PUT /api/shipments/:id
+  async updateShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const shipment = await this.shipmentUseCases.updateShipment(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: shipment,
+        message: 'Envío actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el envío'
+      });
+    }
+  }
+
+  // DELETE /api/shipments/:id
+  async deleteShipment(req: Request, res: Response): Promise<void> {
+    try {
+      await this.shipmentUseCases.deleteShipment(req.params.id);
+      res.json({
+        success: true,
+        message: 'Envío eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el envío'
+      });
+    }
+  }
+
+  // POST /api/shipments/:id/ship
+  async shipShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const shipment = await this.shipmentUseCases.shipShipment(req.params.id, req.user?.username);
+      res.json({
+        success: true,
+        data: shipment,
+        message: 'Envío registrado: stock descontado'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al enviar'
+      });
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { SupplierUseCases } from '../../application/usecases/SupplierUseCases';
+
+export class SupplierController {
+  constructor(private supplierUseCases: SupplierUseCases) {}
+
+  // GET /api/suppliers
+  async getSuppliers(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        search: req.query.search as string
+      };
+
+      const suppliers = await this.supplierUseCases.getSuppliers(filters);
+      res.json({
+        success: true,
+        data: suppliers,
+        count: suppliers.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los proveedores'
+      });
+    }
+  }
+
+  // GET /api/suppliers/:id
+  async getSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const supplier = await this.supplierUseCases.getSupplierById(req.params.id);
+      res.json({
+        success: true,
+        data: supplier
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el proveedor'
+      });
+    }
+  }
+
+  // GET /api/suppliers/:id/items
+  async getSupplierItems(req: Request, res: Response): Promise<void> {
+    try {
+      const items = await this.supplierUseCases.getSupplierItems(req.params.id);
+      res.json({
+        success: true,
+        data: items,
+        count: items.length
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener los artículos del proveedor'
+      });
+    }
+  }
+
+  // POST /api/suppliers
+  async createSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const supplier = await this.supplierUseCases.createSupplier(req.body);
+      res.status(201).json({
+        success: true,
+        data: supplier,
+        message: 'Proveedor creado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al crear el proveedor'
+      });
+    }
+  }
+
+  // PUT /api/suppliers/:id
+  async updateSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const supplier = await this.supplierUseCases.updateSupplier(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: supplier,
+        message: 'Proveedor actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el proveedor'
+      });
+    }
+  }
+
+  // DELETE /api/suppliers/:id
+  async deleteSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      await this.supplierUseCases.deleteSupplier(req.params.id);
+      res.json({
+        success: true,
+        message: 'Proveedor eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el proveedor'
+      });
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { UserUseCases } from '../../application/usecases/UserUseCases';
+import { UserRole } from '../../domain/entities/User';
+
+export class UserController {
+  constructor(private userUseCases: UserUseCases) {}
+
+  // POST /api/auth/login
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { username, password } = req.body;
+      const session = await this.userUseCases.login(username, password);
+      res.json({
+        success: true,
+        data: session,
+        message: 'Sesión iniciada'
+      });
+    } catch (error: any) {
+      res.status(401).json({
+        success: false,
+        message: error.message || 'Error al iniciar sesión'
+      });
+    }
+  }
+
+  // GET /api/auth/me
+  async getCurrentUser(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await this.userUseCases.getUserById(req.user!.id);
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el usuario actual'
+      });
+    }
+  }
+
+  // PUT /api/auth/me/password
+  async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      await this.userUseCases.changePassword(req.user!.id, currentPassword, newPassword);
+      res.json({
+        success: true,
+        message: 'Contraseña actualizada exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al cambiar la contraseña'
+      });
+    }
+  }
+
+  // GET /api/users
+  async getAllUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        role: req.query.role as UserRole | undefined,
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        search: req.query.search as string
+      };
+
+      const users = await this.userUseCases.getAllUsers(filters);
+      res.json({
+        success: true,
+        data: users,
+        count: users.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los usuarios'
+      });
+    }
+  }
+
+  // GET /api/users/:id
+  async getUser(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await this.userUseCases.getUserById(req.params.id);
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el usuario'
+      });
+    }
+  }
+
+  // POST /api/users
+  async createUser(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await this.userUseCases.createUser(req.body);
+      res.status(201).json({
+        success: true,
+        data: user,
+        message: 'Usuario creado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al crear el usuario'
+      });
+    }
+  }
+
+  // PUT /api/users/:id
+  async updateUser(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await this.userUseCases.updateUser(req.params.id, req.body, req.user?.id);
+      res.json({
+        success: true,
+        data: user,
+        message: 'Usuario actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el usuario'
+      });
+    }
+  }
+}
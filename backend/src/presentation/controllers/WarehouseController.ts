@@ -0,0 +1,192 @@
+import { Request, Response } from 'express';
+import { WarehouseUseCases } from '../../application/usecases/WarehouseUseCases';
+
+export class WarehouseController {
+  constructor(private warehouseUseCases: WarehouseUseCases) {}
+
+  // GET /api/warehouses
+  async getWarehouses(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        search: req.query.search as string
+      };
+
+      const warehouses = await this.warehouseUseCases.getWarehouses(filters);
+      res.json({
+        success: true,
+        data: warehouses,
+        count: warehouses.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los almacenes'
+      });
+    }
+  }
+
+  // GET /api/warehouses/stock
+  async getStock(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        itemId: req.query.itemId as string,
+        warehouseId: req.query.warehouseId as string,
+        binId: req.query.binId as string,
+        withStock: req.query.withStock !== 'false'
+      };
+
+      const stock = await this.warehouseUseCases.getStock(filters);
+      res.json({
+        success: true,
+        data: stock,
+        count: stock.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener las existencias por ubicación'
+      });
+    }
+  }
+
+  // GET /api/warehouses/:id
+  async getWarehouse(req: Request, res: Response): Promise<void> {
+    try {
+      const warehouse = await this.warehouseUseCases.getWarehouseById(req.params.id);
+      res.json({
+        success: true,
+        data: warehouse
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el almacén'
+      });
+    }
+  }
+
+  // POST /api/warehouses
+  async createWarehouse(req: Request, res: Response): Promise<void> {
+    try {
+      const warehouse = await this.warehouseUseCases.createWarehouse(req.body);
+      res.status(201).json({
+        success: true,
+        data: warehouse,
+        message: 'Almacén creado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al crear el almacén'
+      });
+    }
+  }
+
+  // PUT /api/warehouses/:id
+  async updateWarehouse(req: Request, res: Response): Promise<void> {
+    try {
+      const warehouse = await this.warehouseUseCases.updateWarehouse(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: warehouse,
+        message: 'Almacén actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el almacén'
+      });
+    }
+  }
+
+  // DELETE /api/warehouses/:id
+  async deleteWarehouse(req: Request, res: Response): Promise<void> {
+    try {
+      await this.warehouseUseCases.deleteWarehouse(req.params.id);
+      res.json({
+        success: true,
+        message: 'Almacén eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el almacén'
+      });
+    }
+  }
+
+  // GET /api/warehouses/:id/bins
+  async getBins(req: Request, res: Response): Promise<void> {
+    try {
+      const bins = await this.warehouseUseCases.getBins(req.params.id);
+      res.json({
+        success: true,
+        data: bins,
+        count: bins.length
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener las ubicaciones'
+      });
+    }
+  }
+
+  // POST /api/warehouses/:id/bins
+  async createBin(req: Request, res: Response): Promise<void> {
+    try {
+      const bin = await this.warehouseUseCases.createBin(req.params.id, req.body);
+      res.status(201).json({
+        success: true,
+        data: bin,
+        message: 'Ubicación creada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al crear la ubicación'
+      });
+    }
+  }
+
+  // PUT /api/warehouses/:id/bins/:binId
+  async updateBin(req: Request, res: Response): Promise<void> {
+    try {
+      const bin = await this.warehouseUseCases.updateBin(req.params.id, req.params.binId, req.body);
+      res.json({
+        success: true,
+        data: bin,
+        message: 'Ubicación actualizada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar la ubicación'
+      });
+    }
+  }
+
+  // DELETE /api/warehouses/:id/bins/:binId
+  async deleteBin(req: Request, res: Response): Promise<void> {
+    try {
+      await this.warehouseUseCases.deleteBin(req.params.id, req.params.binId);
+      res.json({
+        success: true,
+        message: 'Ubicación eliminada exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrad') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar la ubicación'
+      });
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { WorkCenterUseCases } from '../../application/usecases/WorkCenterUseCases';
+
+export class WorkCenterController {
+  constructor(private workCenterUseCases: WorkCenterUseCases) {}
+
+  // GET /api/work-centers
+  async getAllWorkCenters(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = {
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        search: req.query.search as string
+      };
+
+      const workCenters = await this.workCenterUseCases.getAllWorkCenters(filters);
+      res.json({
+        success: true,
+        data: workCenters,
+        count: workCenters.length
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al obtener los centros de trabajo'
+      });
+    }
+  }
+
+  // GET /api/work-centers/:id
+  async getWorkCenter(req: Request, res: Response): Promise<void> {
+    try {
+      const workCenter = await this.workCenterUseCases.getWorkCenterById(req.params.id);
+      res.json({
+        success: true,
+        data: workCenter
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al obtener el centro de trabajo'
+      });
+    }
+  }
+
+  // POST /api/work-centers
+  async createWorkCenter(req: Request, res: Response): Promise<void> {
+    try {
+      const workCenter = await this.workCenterUseCases.createWorkCenter(req.body);
+      res.status(201).json({
+        success: true,
+        data: workCenter,
+        message: 'Centro de trabajo creado exitosamente'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Error al crear el centro de trabajo'
+      });
+    }
+  }
+
+  // PUT /api/work-centers/:id
+  async updateWorkCenter(req: Request, res: Response): Promise<void> {
+    try {
+      const workCenter = await this.workCenterUseCases.updateWorkCenter(req.params.id, req.body);
+      res.json({
+        success: true,
+        data: workCenter,
+        message: 'Centro de trabajo actualizado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al actualizar el centro de trabajo'
+      });
+    }
+  }
+
+  // DELETE /api/work-centers/:id
+  async deleteWorkCenter(req: Request, res: Response): Promise<void> {
+    try {
+      await this.workCenterUseCases.deleteWorkCenter(req.params.id);
+      res.json({
+        success: true,
+        message: 'Centro de trabajo eliminado exitosamente'
+      });
+    } catch (error: any) {
+      const statusCode = error.message.includes('no encontrado') ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Error al eliminar el centro de trabajo'
+      });
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser, UserRole } from '../../../domain/entities/User';
+import { authorize } from '../auth';
+
+const userWithRole = (role: UserRole): AuthenticatedUser => ({ id: 'user-1', username: role, name: role, role });
+
+// Ejecuta el middleware y devuelve el código de estado respondido, o 'next' si deja pasar la petición
+const run = (roles: UserRole[], user?: AuthenticatedUser): number | 'next' => {
+  let result: number | 'next' | undefined;
+  const res = {
+    status: (code: number) => {
+      result = code;
+      return res;
+    },
+    json: () => res
+  } as unknown as Response;
+  const next: NextFunction = () => {
+    result = 'next';
+  };
+
+  authorize(...roles)({ user } as Request, res, next);
+  return result!;
+};
+
+describe('authorize', () => {
+  it('exige un usuario autenticado', () => {
+    expect(run([UserRole.PLANNER])).toBe(401);
+  });
+
+  it('deja pasar los roles indicados', () => {
+    expect(run([UserRole.PLANNER, UserRole.WAREHOUSE], userWithRole(UserRole.WAREHOUSE))).toBe('next');
+  });
+
+  it('rechaza los demás roles', () => {
+    expect(run([UserRole.PLANNER], userWithRole(UserRole.OPERATOR))).toBe(403);
+    expect(run([UserRole.PLANNER], userWithRole(UserRole.VIEWER))).toBe(403);
+  });
+
+  it('el administrador siempre tiene acceso', () => {
+    expect(run([UserRole.PLANNER], userWithRole(UserRole.ADMIN))).toBe('next');
+    expect(run([], userWithRole(UserRole.ADMIN))).toBe('next');
+  });
+});
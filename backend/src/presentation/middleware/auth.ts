@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Socket } from 'socket.io';
+import { AuthenticatedUser, UserRole } from '../../domain/entities/User';
+import { UserUseCases } from '../../application/usecases/UserUseCases';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+// Exige un token "Authorization: Bearer <jwt>" válido y deja el usuario en req.user
+export const createAuthenticate = (userUseCases: UserUseCases): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+
+    if (!token) {
+      res.status(401).json({
+        success: false,
+        message: 'Autenticación requerida'
+      });
+      return;
+    }
+
+    try {
+      req.user = await userUseCases.authenticate(token);
+      next();
+    } catch (error: any) {
+      res.status(401).json({
+        success: false,
+        message: error.message || 'Sesión no válida'
+      });
+    }
+  };
+
+// Conexiones Socket.IO: el cliente envía el mismo token en el handshake (auth.token)
+// y el usuario queda en socket.data.user
+export const createSocketAuthenticate = (userUseCases: UserUseCases) =>
+  async (socket: Socket, next: (error?: Error) => void): Promise<void> => {
+    const token = typeof socket.handshake.auth?.token === 'string' ? socket.handshake.auth.token.trim() : '';
+
+    if (!token) {
+      next(new Error('Autenticación requerida'));
+      return;
+    }
+
+    try {
+      socket.data.user = await userUseCases.authenticate(token);
+      next();
+    } catch (error: any) {
+      next(new Error(error.message || 'Sesión no válida'));
+    }
+  };
+
+// Limita la ruta a los roles indicados (el administrador siempre tiene acceso)
+export const authorize = (...roles: UserRole[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Autenticación requerida'
+      });
+      return;
+    }
+
+    if (req.user.role !== UserRole.ADMIN && !roles.includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        message: 'No tiene permisos para realizar esta acción'
+      });
+      return;
+    }
+
+    next();
+  };
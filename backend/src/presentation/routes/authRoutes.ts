@@ -0,0 +1,12 @@
+import { Router, RequestHandler } from 'express';
+import { UserController } from '../controllers/UserController';
+
+export const createAuthRoutes = (controller: UserController, authenticate: RequestHandler): Router => {
+  const router = Router();
+
+  router.post('/login', (req, res) => controller.login(req, res));
+  router.get('/me', authenticate, (req, res) => controller.getCurrentUser(req, res));
+  router.put('/me/password', authenticate, (req, res) => controller.changePassword(req, res));
+
+  return router;
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { CustomerController } from '../controllers/CustomerController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createCustomerRoutes = (controller: CustomerController): Router => {
+  const router = Router();
+  const canManage = authorize(UserRole.PLANNER);
+
+  router.get('/', (req, res) => controller.getCustomers(req, res));
+  router.post('/', canManage, (req, res) => controller.createCustomer(req, res));
+  router.get('/:id', (req, res) => controller.getCustomer(req, res));
+  router.put('/:id', canManage, (req, res) => controller.updateCustomer(req, res));
+  router.delete('/:id', canManage, (req, res) => controller.deleteCustomer(req, res));
+
+  return router;
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { DowntimeController } from '../controllers/DowntimeController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createDowntimeRoutes = (controller: DowntimeController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+
+  router.get('/pareto', (req, res) => controller.getDowntimeReport(req, res));
+  router.get('/reasons', (req, res) => controller.getReasons(req, res));
+  router.post('/reasons', canPlan, (req, res) => controller.createReason(req, res));
+  router.put('/reasons/:id', canPlan, (req, res) => controller.updateReason(req, res));
+  router.delete('/reasons/:id', canPlan, (req, res) => controller.deleteReason(req, res));
+
+  return router;
+};
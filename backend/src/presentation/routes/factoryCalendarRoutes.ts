@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { FactoryCalendarController } from '../controllers/FactoryCalendarController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createFactoryCalendarRoutes = (controller: FactoryCalendarController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+
+  router.get('/working-time', (req, res) => controller.getWorkingTime(req, res));
+  router.get('/', (req, res) => controller.getCalendar(req, res));
+  router.put('/', canPlan, (req, res) => controller.updateCalendar(req, res));
+
+  return router;
+};
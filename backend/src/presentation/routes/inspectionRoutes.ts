@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { InspectionController } from '../controllers/InspectionController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createInspectionRoutes = (controller: InspectionController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+  const canInspect = authorize(UserRole.PLANNER, UserRole.OPERATOR);
+
+  router.get('/plans', (req, res) => controller.getPlans(req, res));
+  router.post('/plans', canPlan, (req, res) => controller.createPlan(req, res));
+  router.get('/plans/:id', (req, res) => controller.getPlan(req, res));
+  router.put('/plans/:id', canPlan, (req, res) => controller.updatePlan(req, res));
+  router.delete('/plans/:id', canPlan, (req, res) => controller.deletePlan(req, res));
+
+  router.get('/cards/:cardId', (req, res) => controller.getCardInspection(req, res));
+  router.post('/cards/:cardId', canInspect, (req, res) => controller.recordInspection(req, res));
+
+  return router;
+};
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { InventoryLotController } from '../controllers/InventoryLotController';
+
+// Los lotes se crean con las entradas de stock (POST /api/inventory/:id/movements)
+export const createInventoryLotRoutes = (controller: InventoryLotController): Router => {
+  const router = Router();
+
+  router.get('/', (req, res) => controller.getLots(req, res));
+  router.get('/cards/:cardId', (req, res) => controller.getCardLots(req, res));
+  router.get('/:id', (req, res) => controller.getLot(req, res));
+  router.get('/:id/genealogy', (req, res) => controller.getGenealogy(req, res));
+
+  return router;
+};
@@ -1,19 +1,50 @@
-import { Router } from 'express';
+import { Router, RequestHandler } from 'express';
 import { InventoryController } from '../controllers/InventoryController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
 
 export const createInventoryRoutes = (inventoryController: InventoryController): Router => {
   const router = Router();
 
-  router.post('/', inventoryController.createItem);
+  // Consultas: cualquier usuario autenticado
+  const canEditItems = authorize(UserRole.PLANNER, UserRole.WAREHOUSE);
+  const canEditBom = authorize(UserRole.PLANNER);
+  const canMoveStock = authorize(UserRole.WAREHOUSE);
+  const adminOnly = authorize();
+  // La cantidad enviada al editar la ficha se registra como ajuste: exige permiso de movimientos
+  const canSetQuantity: RequestHandler = (req, res, next) =>
+    req.body?.quantity === undefined ? next() : canMoveStock(req, res, next);
+  // La estructura enviada al editar la ficha genera una revisión: exige permiso de estructuras
+  const canSetStructure: RequestHandler = (req, res, next) =>
+    ['billOfMaterials', 'componentLines', 'components'].every(field => req.body?.[field] === undefined)
+      ? next()
+      : canEditBom(req, res, next);
+
+  router.post('/', canEditItems, inventoryController.createItem);
   router.get('/', inventoryController.getAllItems);
   router.get('/stats', inventoryController.getStats);
   router.get('/low-stock', inventoryController.getLowStockItems);
+  router.post('/transfers', canMoveStock, inventoryController.transferStock);
+  router.get('/bom-revisions/compare', inventoryController.compareBomRevisions);
+  router.get('/bom-revisions/:revisionId', inventoryController.getBomRevision);
+  router.put('/bom-revisions/:revisionId', canEditBom, inventoryController.updateBomRevision);
+  router.post('/bom-revisions/:revisionId/release', canEditBom, inventoryController.releaseBomRevision);
+  router.post('/bom-revisions/:revisionId/obsolete', canEditBom, inventoryController.obsoleteBomRevision);
   router.get('/sku/:sku', inventoryController.getItemBySku);
   router.get('/:id', inventoryController.getItem);
-  router.put('/:id', inventoryController.updateItem);
-  router.delete('/:id', inventoryController.deleteItem);
-  router.patch('/:id/quantity', inventoryController.updateQuantity);
-  router.patch('/bulk/quantities', inventoryController.bulkUpdateQuantities);
+  router.put('/:id', canEditItems, canSetQuantity, canSetStructure, inventoryController.updateItem);
+  router.delete('/:id', adminOnly, inventoryController.deleteItem);
+  router.patch('/:id/quantity', canMoveStock, inventoryController.updateQuantity);
+  router.get('/:id/movements', inventoryController.getMovements);
+  router.get('/:id/locations', inventoryController.getItemLocations);
+  router.post('/:id/movements', canMoveStock, inventoryController.createMovement);
+  router.get('/:id/movements/reconciliation', inventoryController.getReconciliation);
+  router.post('/:id/movements/reconcile', canMoveStock, inventoryController.reconcileItem);
+  router.get('/:id/bom', inventoryController.getBom);
+  router.get('/:id/where-used', inventoryController.getWhereUsed);
+  router.get('/:id/bom-revisions', inventoryController.getBomRevisions);
+  router.post('/:id/bom-revisions', canEditBom, inventoryController.createBomRevision);
+  router.patch('/bulk/quantities', canMoveStock, inventoryController.bulkUpdateQuantities);
 
   return router;
 };
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { LaborController } from '../controllers/LaborController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createLaborRoutes = (controller: LaborController): Router => {
+  const router = Router();
+  const canClock = authorize(UserRole.PLANNER, UserRole.OPERATOR);
+
+  router.get('/', (req, res) => controller.getLaborReport(req, res));
+  router.get('/entries', (req, res) => controller.getEntries(req, res));
+  router.get('/active', (req, res) => controller.getActiveEntries(req, res));
+  router.post('/clock-on', canClock, (req, res) => controller.clockOn(req, res));
+  router.post('/clock-off', canClock, (req, res) => controller.clockOff(req, res));
+
+  return router;
+};
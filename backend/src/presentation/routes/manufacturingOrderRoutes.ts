@@ -1,40 +1,48 @@
 import { Router } from 'express';
 import { ManufacturingOrderController } from '../controllers/ManufacturingOrderController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
 
 export const createManufacturingOrderRoutes = (controller: ManufacturingOrderController): Router => {
   const router = Router();
 
+  // Consultas: cualquier usuario autenticado
+  const canPlan = authorize(UserRole.PLANNER);
+  const canExecute = authorize(UserRole.PLANNER, UserRole.OPERATOR);
+
   // Rutas especiales (deben ir antes de las rutas con parámetros)
   router.get('/active', (req, res) => controller.getActiveOrders(req, res));
   router.get('/production-queue', (req, res) => controller.getProductionQueue(req, res));
   router.get('/overdue', (req, res) => controller.getOverdueOrders(req, res));
   router.get('/stats', (req, res) => controller.getStats(req, res));
+  router.post('/availability', (req, res) => controller.checkAvailability(req, res));
 
   // Rutas CRUD básicas
-  router.post('/', (req, res) => controller.createOrder(req, res));
+  router.post('/', canPlan, (req, res) => controller.createOrder(req, res));
   router.get('/', (req, res) => controller.getAllOrders(req, res));
   router.get('/:id', (req, res) => controller.getOrderById(req, res));
-  router.put('/:id', (req, res) => controller.updateOrder(req, res));
-  router.delete('/:id', (req, res) => controller.deleteOrder(req, res));
+  router.put('/:id', canPlan, (req, res) => controller.updateOrder(req, res));
+  router.delete('/:id', canPlan, (req, res) => controller.deleteOrder(req, res));
 
   // Rutas de acciones específicas
-  router.post('/:id/start', (req, res) => controller.startProduction(req, res));
-  router.post('/:id/pause', (req, res) => controller.pauseProduction(req, res));
-  router.post('/:id/resume', (req, res) => controller.resumeProduction(req, res));
+  router.post('/:id/start', canExecute, (req, res) => controller.startProduction(req, res));
+  router.post('/:id/pause', canExecute, (req, res) => controller.pauseProduction(req, res));
+  router.post('/:id/resume', canExecute, (req, res) => controller.resumeProduction(req, res));
   router.get('/:id/production-time', (req, res) => controller.getCurrentProductionTime(req, res));
-  router.post('/:id/complete', (req, res) => controller.completeOrder(req, res));
-  router.post('/:id/cancel', (req, res) => controller.cancelOrder(req, res));
+  router.post('/:id/complete', canExecute, (req, res) => controller.completeOrder(req, res));
+  router.post('/:id/cancel', canPlan, (req, res) => controller.cancelOrder(req, res));
+  router.get('/:id/reservations', (req, res) => controller.getOrderReservations(req, res));
 
   // Rutas para componentes
-  router.post('/:id/components/:componentId/complete', (req, res) => controller.completeComponent(req, res));
-  router.post('/:id/components/:componentId/start', (req, res) => controller.startComponentProduction(req, res));
-  router.post('/:id/components/:componentId/pause', (req, res) => controller.pauseComponentProduction(req, res));
-  router.post('/:id/components/:componentId/resume', (req, res) => controller.resumeComponentProduction(req, res));
+  router.post('/:id/components/:componentId/complete', canExecute, (req, res) => controller.completeComponent(req, res));
+  router.post('/:id/components/:componentId/start', canExecute, (req, res) => controller.startComponentProduction(req, res));
+  router.post('/:id/components/:componentId/pause', canExecute, (req, res) => controller.pauseComponentProduction(req, res));
+  router.post('/:id/components/:componentId/resume', canExecute, (req, res) => controller.resumeComponentProduction(req, res));
   router.get('/:id/components/:componentId/production-time', (req, res) => controller.getComponentProductionTime(req, res));
 
   // Rutas para materiales de componentes
-  router.put('/:id/components/:componentId/materials', (req, res) => controller.updateComponentMaterials(req, res));
-  router.post('/:id/components/:componentId/materials', (req, res) => controller.addMaterialToComponent(req, res));
+  router.put('/:id/components/:componentId/materials', canExecute, (req, res) => controller.updateComponentMaterials(req, res));
+  router.post('/:id/components/:componentId/materials', canExecute, (req, res) => controller.addMaterialToComponent(req, res));
 
   return router;
 };
\ No newline at end of file
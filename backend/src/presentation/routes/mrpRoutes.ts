@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { MrpController } from '../controllers/MrpController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createMrpRoutes = (controller: MrpController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+
+  router.post('/runs', canPlan, (req, res) => controller.runMrp(req, res));
+  router.get('/runs/latest', (req, res) => controller.getLatestRun(req, res));
+  router.get('/runs/:id', (req, res) => controller.getRun(req, res));
+  router.post('/runs/:id/firm', canPlan, (req, res) => controller.firmPlannedOrders(req, res));
+
+  return router;
+};
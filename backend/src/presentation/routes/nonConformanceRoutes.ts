@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { NonConformanceController } from '../controllers/NonConformanceController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createNonConformanceRoutes = (controller: NonConformanceController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+  const canReport = authorize(UserRole.PLANNER, UserRole.OPERATOR);
+
+  router.get('/', (req, res) => controller.getNonConformances(req, res));
+  router.get('/defect-rates', (req, res) => controller.getDefectRates(req, res));
+  router.post('/', canReport, (req, res) => controller.createNonConformance(req, res));
+  router.get('/:id', (req, res) => controller.getNonConformance(req, res));
+  // La disposición mueve stock y genera tarjetas: solo planificación
+  router.post('/:id/disposition', canPlan, (req, res) => controller.disposition(req, res));
+
+  return router;
+};
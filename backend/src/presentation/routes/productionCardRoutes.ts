@@ -1,9 +1,15 @@
 import { Router } from 'express';
 import { ProductionCardController } from '../controllers/ProductionCardController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
 
 export const createProductionCardRoutes = (controller: ProductionCardController): Router => {
   const router = Router();
 
+  // Consultas: cualquier usuario autenticado
+  const canPlan = authorize(UserRole.PLANNER);
+  const canExecute = authorize(UserRole.PLANNER, UserRole.OPERATOR);
+
   // Rutas especiales (deben ir antes de las rutas con parámetros)
   router.get('/active', (req, res) => controller.getActiveCards(req, res));
   router.get('/overdue', (req, res) => controller.getOverdueCards(req, res));
@@ -11,28 +17,37 @@ export const createProductionCardRoutes = (controller: ProductionCardController)
   router.get('/status/:status', (req, res) => controller.getCardsByStatus(req, res));
   router.get('/priority/:priority', (req, res) => controller.getCardsByPriority(req, res));
   router.get('/order/:orderId', (req, res) => controller.getCardsByOrder(req, res));
+  router.post('/schedule', canPlan, (req, res) => controller.scheduleCards(req, res));
 
   // Rutas CRUD básicas
   router.get('/', (req, res) => controller.getAllCards(req, res));
   router.get('/:id', (req, res) => controller.getCard(req, res));
-  router.put('/:id', (req, res) => controller.updateCard(req, res));
-  router.delete('/:id', (req, res) => controller.deleteCard(req, res));
+  router.put('/:id', canPlan, (req, res) => controller.updateCard(req, res));
+  router.delete('/:id', canPlan, (req, res) => controller.deleteCard(req, res));
 
   // Rutas de acciones específicas de la tarjeta
-  router.post('/:id/start', (req, res) => controller.startProduction(req, res));
-  router.post('/:id/pause', (req, res) => controller.pauseProduction(req, res));
-  router.post('/:id/resume', (req, res) => controller.resumeProduction(req, res));
+  router.post('/:id/start', canExecute, (req, res) => controller.startProduction(req, res));
+  router.post('/:id/pause', canExecute, (req, res) => controller.pauseProduction(req, res));
+  router.post('/:id/resume', canExecute, (req, res) => controller.resumeProduction(req, res));
   router.get('/:id/time', (req, res) => controller.getCurrentProductionTime(req, res));
-  router.post('/:id/complete', (req, res) => controller.completeCard(req, res));
-  router.post('/:id/cancel', (req, res) => controller.cancelCard(req, res));
-  router.patch('/:id/priority', (req, res) => controller.updateCardPriority(req, res));
+  router.get('/:id/timeline', (req, res) => controller.getCardTimeline(req, res));
+  router.post('/:id/complete', canExecute, (req, res) => controller.completeCard(req, res));
+  router.post('/:id/cancel', canPlan, (req, res) => controller.cancelCard(req, res));
+  router.get('/:id/backflushes', (req, res) => controller.getCardBackflushes(req, res));
+  router.patch('/:id/priority', canPlan, (req, res) => controller.updateCardPriority(req, res));
+  router.patch('/:id/schedule', canPlan, (req, res) => controller.rescheduleCard(req, res));
+  router.delete('/:id/schedule/pin', canPlan, (req, res) => controller.unpinCard(req, res));
 
   // Rutas para componentes en tarjetas
-  router.post('/:id/complete-component/:componentId', (req, res) => controller.completeComponent(req, res));
-  router.post('/:id/components/:componentId/start', (req, res) => controller.startComponentProduction(req, res));
-  router.post('/:id/components/:componentId/pause', (req, res) => controller.pauseComponentProduction(req, res));
-  router.post('/:id/components/:componentId/resume', (req, res) => controller.resumeComponentProduction(req, res));
+  router.post('/:id/complete-component/:componentId', canExecute, (req, res) => controller.completeComponent(req, res));
+  router.post('/:id/components/:componentId/start', canExecute, (req, res) => controller.startComponentProduction(req, res));
+  router.post('/:id/components/:componentId/pause', canExecute, (req, res) => controller.pauseComponentProduction(req, res));
+  router.post('/:id/components/:componentId/resume', canExecute, (req, res) => controller.resumeComponentProduction(req, res));
   router.get('/:id/components/:componentId/time', (req, res) => controller.getComponentProductionTime(req, res));
 
+  // Rutas para operaciones de la ruta de fabricación
+  router.post('/:id/operations/:operationId/start', canExecute, (req, res) => controller.startOperation(req, res));
+  router.post('/:id/operations/:operationId/complete', canExecute, (req, res) => controller.completeOperation(req, res));
+
   return router;
 };
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { PurchaseOrderController } from '../controllers/PurchaseOrderController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createPurchaseOrderRoutes = (controller: PurchaseOrderController): Router => {
+  const router = Router();
+  const canPurchase = authorize(UserRole.PLANNER, UserRole.WAREHOUSE);
+  const canReceive = authorize(UserRole.WAREHOUSE);
+
+  router.get('/', (req, res) => controller.getPurchaseOrders(req, res));
+  router.post('/', canPurchase, (req, res) => controller.createPurchaseOrder(req, res));
+  router.get('/incoming', (req, res) => controller.getIncoming(req, res));
+  router.get('/:id', (req, res) => controller.getPurchaseOrder(req, res));
+  router.put('/:id', canPurchase, (req, res) => controller.updatePurchaseOrder(req, res));
+  router.delete('/:id', canPurchase, (req, res) => controller.deletePurchaseOrder(req, res));
+  router.post('/:id/send', canPurchase, (req, res) => controller.sendPurchaseOrder(req, res));
+  router.post('/:id/receipts', canReceive, (req, res) => controller.receiveGoods(req, res));
+  router.post('/:id/close', canPurchase, (req, res) => controller.closePurchaseOrder(req, res));
+
+  return router;
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ReplenishmentController } from '../controllers/ReplenishmentController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createReplenishmentRoutes = (controller: ReplenishmentController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+
+  router.get('/suggestions', (req, res) => controller.getSuggestions(req, res));
+  router.post('/suggestions/scan', authorize(UserRole.PLANNER, UserRole.WAREHOUSE), (req, res) => controller.scan(req, res));
+  router.get('/suggestions/:id', (req, res) => controller.getSuggestion(req, res));
+  router.post('/suggestions/:id/approve', canPlan, (req, res) => controller.approveSuggestion(req, res));
+  router.post('/suggestions/:id/dismiss', canPlan, (req, res) => controller.dismissSuggestion(req, res));
+
+  return router;
+};
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { SalesOrderController } from '../controllers/SalesOrderController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createSalesOrderRoutes = (controller: SalesOrderController): Router => {
+  const router = Router();
+  const canSell = authorize(UserRole.PLANNER);
+
+  router.get('/', (req, res) => controller.getSalesOrders(req, res));
+  router.post('/', canSell, (req, res) => controller.createSalesOrder(req, res));
+  router.get('/:id', (req, res) => controller.getSalesOrder(req, res));
+  router.put('/:id', canSell, (req, res) => controller.updateSalesOrder(req, res));
+  router.delete('/:id', canSell, (req, res) => controller.deleteSalesOrder(req, res));
+  router.post('/:id/confirm', canSell, (req, res) => controller.confirmSalesOrder(req, res));
+  router.post('/:id/fulfil', canSell, (req, res) => controller.fulfilSalesOrder(req, res));
+  router.post('/:id/cancel', canSell, (req, res) => controller.cancelSalesOrder(req, res));
+
+  return router;
+};
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { SerialUnitController } from '../controllers/SerialUnitController';
+
+// Consulta de trazabilidad: los números de serie solo se generan al completar tarjetas
+export const createSerialUnitRoutes = (controller: SerialUnitController): Router => {
+  const router = Router();
+
+  router.get('/', (req, res) => controller.getUnits(req, res));
+  router.get('/:serialNumber', (req, res) => controller.getUnit(req, res));
+
+  return router;
+};
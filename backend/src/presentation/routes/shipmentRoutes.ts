@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { ShipmentController } from '../controllers/ShipmentController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createShipmentRoutes = (controller: ShipmentController): Router => {
+  const router = Router();
+  const canShip = authorize(UserRole.PLANNER, UserRole.WAREHOUSE);
+
+  router.get('/', (req, res) => controller.getShipments(req, res));
+  router.post('/', canShip, (req, res) => controller.createShipment(req, res));
+  router.get('/shippable', (req, res) => controller.getShippableLines(req, res));
+  router.get('/:id', (req, res) => controller.getShipment(req, res));
+  router.get('/:id/delivery-note', (req, res) => controller.getDeliveryNote(req, res));
+  router.put('/:id', canShip, (req, res) => controller.updateShipment(req, res));
+  router.delete('/:id', canShip, (req, res) => controller.deleteShipment(req, res));
+  router.post('/:id/ship', canShip, (req, res) => controller.shipShipment(req, res));
+
+  return router;
+};
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { SupplierController } from '../controllers/SupplierController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createSupplierRoutes = (controller: SupplierController): Router => {
+  const router = Router();
+  const canManage = authorize(UserRole.PLANNER, UserRole.WAREHOUSE);
+
+  router.get('/', (req, res) => controller.getSuppliers(req, res));
+  router.post('/', canManage, (req, res) => controller.createSupplier(req, res));
+  router.get('/:id', (req, res) => controller.getSupplier(req, res));
+  router.put('/:id', canManage, (req, res) => controller.updateSupplier(req, res));
+  router.delete('/:id', canManage, (req, res) => controller.deleteSupplier(req, res));
+  router.get('/:id/items', (req, res) => controller.getSupplierItems(req, res));
+
+  return router;
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/UserController';
+import { authorize } from '../middleware/auth';
+
+// Gestión de usuarios: solo administradores
+export const createUserRoutes = (controller: UserController): Router => {
+  const router = Router();
+
+  router.use(authorize());
+
+  router.get('/', (req, res) => controller.getAllUsers(req, res));
+  router.post('/', (req, res) => controller.createUser(req, res));
+  router.get('/:id', (req, res) => controller.getUser(req, res));
+  router.put('/:id', (req, res) => controller.updateUser(req, res));
+
+  return router;
+};
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { WarehouseController } from '../controllers/WarehouseController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createWarehouseRoutes = (controller: WarehouseController): Router => {
+  const router = Router();
+  const canManage = authorize(UserRole.WAREHOUSE);
+
+  router.get('/', (req, res) => controller.getWarehouses(req, res));
+  router.post('/', canManage, (req, res) => controller.createWarehouse(req, res));
+  router.get('/stock', (req, res) => controller.getStock(req, res));
+  router.get('/:id', (req, res) => controller.getWarehouse(req, res));
+  router.put('/:id', canManage, (req, res) => controller.updateWarehouse(req, res));
+  router.delete('/:id', canManage, (req, res) => controller.deleteWarehouse(req, res));
+  router.get('/:id/bins', (req, res) => controller.getBins(req, res));
+  router.post('/:id/bins', canManage, (req, res) => controller.createBin(req, res));
+  router.put('/:id/bins/:binId', canManage, (req, res) => controller.updateBin(req, res));
+  router.delete('/:id/bins/:binId', canManage, (req, res) => controller.deleteBin(req, res));
+
+  return router;
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { WorkCenterController } from '../controllers/WorkCenterController';
+import { authorize } from '../middleware/auth';
+import { UserRole } from '../../domain/entities/User';
+
+export const createWorkCenterRoutes = (controller: WorkCenterController): Router => {
+  const router = Router();
+  const canPlan = authorize(UserRole.PLANNER);
+
+  router.get('/', (req, res) => controller.getAllWorkCenters(req, res));
+  router.post('/', canPlan, (req, res) => controller.createWorkCenter(req, res));
+  router.get('/:id', (req, res) => controller.getWorkCenter(req, res));
+  router.put('/:id', canPlan, (req, res) => controller.updateWorkCenter(req, res));
+  router.delete('/:id', canPlan, (req, res) => controller.deleteWorkCenter(req, res));
+
+  return router;
+};
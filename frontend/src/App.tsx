@@ -2,15 +2,35 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { InventoryProvider } from './contexts/InventoryContext';
+import { AuthProvider } from './contexts/AuthContext';
 // Temporarily comment out SocketProvider until we fix socket issues
 // import { SocketProvider } from './contexts/SocketContext';
 import Layout from './components/Layout/Layout';
+import RequireAuth from './components/Auth/RequireAuth';
+import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import InventoryList from './pages/InventoryList';
 import InventoryForm from './pages/InventoryForm';
 import ManufacturingOrders from './pages/ManufacturingOrders';
 import ManufacturingOrderForm from './pages/ManufacturingOrderForm';
 import ProductionQueue from './pages/ProductionQueue';
+import ProductionGantt from './pages/ProductionGantt';
+import WorkCenters from './pages/WorkCenters';
+import Warehouses from './pages/Warehouses';
+import Suppliers from './pages/Suppliers';
+import PurchaseOrders from './pages/PurchaseOrders';
+import Mrp from './pages/Mrp';
+import Replenishment from './pages/Replenishment';
+import Customers from './pages/Customers';
+import SalesOrders from './pages/SalesOrders';
+import Shipments from './pages/Shipments';
+import FactoryCalendar from './pages/FactoryCalendar';
+import LaborReport from './pages/LaborReport';
+import DowntimeAnalysis from './pages/DowntimeAnalysis';
+import InspectionPlans from './pages/InspectionPlans';
+import NonConformances from './pages/NonConformances';
+import SerialLookup from './pages/SerialLookup';
+import Lots from './pages/Lots';
 
 const theme = createTheme({
   palette: {
@@ -28,22 +48,51 @@ function App() {
     <ThemeProvider theme={theme}>
       <CssBaseline />
       {/* Temporarily disable SocketProvider until connection is stable */}
-      <InventoryProvider>
-        <Router>
-          <Layout>
+      <AuthProvider>
+        <InventoryProvider>
+          <Router>
             <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/inventory" element={<InventoryList />} />
-              <Route path="/inventory/new" element={<InventoryForm />} />
-              <Route path="/inventory/edit/:id" element={<InventoryForm />} />
-              <Route path="/manufacturing-orders" element={<ManufacturingOrders />} />
-              <Route path="/manufacturing-orders/new" element={<ManufacturingOrderForm />} />
-              <Route path="/manufacturing-orders/edit/:id" element={<ManufacturingOrderForm />} />
-              <Route path="/production-queue" element={<ProductionQueue />} />
+              <Route path="/login" element={<Login />} />
+              <Route
+                path="*"
+                element={
+                  <RequireAuth>
+                    <Layout>
+                      <Routes>
+                        <Route path="/" element={<Dashboard />} />
+                        <Route path="/inventory" element={<InventoryList />} />
+                        <Route path="/inventory/new" element={<InventoryForm />} />
+                        <Route path="/inventory/edit/:id" element={<InventoryForm />} />
+                        <Route path="/manufacturing-orders" element={<ManufacturingOrders />} />
+                        <Route path="/manufacturing-orders/new" element={<ManufacturingOrderForm />} />
+                        <Route path="/manufacturing-orders/edit/:id" element={<ManufacturingOrderForm />} />
+                        <Route path="/production-queue" element={<ProductionQueue />} />
+                        <Route path="/production-plan" element={<ProductionGantt />} />
+                        <Route path="/work-centers" element={<WorkCenters />} />
+                        <Route path="/warehouses" element={<Warehouses />} />
+                        <Route path="/suppliers" element={<Suppliers />} />
+                        <Route path="/purchase-orders" element={<PurchaseOrders />} />
+                        <Route path="/mrp" element={<Mrp />} />
+                        <Route path="/replenishment" element={<Replenishment />} />
+                        <Route path="/customers" element={<Customers />} />
+                        <Route path="/sales-orders" element={<SalesOrders />} />
+                        <Route path="/shipments" element={<Shipments />} />
+                        <Route path="/factory-calendar" element={<FactoryCalendar />} />
+                        <Route path="/labor" element={<LaborReport />} />
+                        <Route path="/downtime" element={<DowntimeAnalysis />} />
+                        <Route path="/inspection-plans" element={<InspectionPlans />} />
+                        <Route path="/quality" element={<NonConformances />} />
+                        <Route path="/serials" element={<SerialLookup />} />
+                        <Route path="/lots" element={<Lots />} />
+                      </Routes>
+                    </Layout>
+                  </RequireAuth>
+                }
+              />
             </Routes>
-          </Layout>
-        </Router>
-      </InventoryProvider>
+          </Router>
+        </InventoryProvider>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  LinearProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { inventoryApi, getApiErrorMessage } from '../../services/api';
+import type { BomRevision, BomRevisionStatus, BomRevisionComparison, BomRevisionDifference } from '../../services/api';
+
+interface BomRevisionHistoryProps {
+  itemId: string;
+}
+
+const statusLabels: Record<BomRevisionStatus, string> = {
+  draft: 'Borrador',
+  released: 'Liberada',
+  obsolete: 'Obsoleta',
+};
+
+const statusColors: Record<BomRevisionStatus, 'default' | 'success' | 'warning'> = {
+  draft: 'warning',
+  released: 'success',
+  obsolete: 'default',
+};
+
+const changeLabels: Record<BomRevisionDifference['change'], string> = {
+  added: 'Agregado',
+  removed: 'Eliminado',
+  changed: 'Modificado',
+  unchanged: 'Sin cambios',
+};
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString('es-ES') : '-');
+
+// Revisiones de la estructura del artículo con su vigencia y comparación entre dos revisiones
+const BomRevisionHistory: React.FC<BomRevisionHistoryProps> = ({ itemId }) => {
+  const [revisions, setRevisions] = useState<BomRevision[]>([]);
+  const [comparison, setComparison] = useState<BomRevisionComparison | null>(null);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await inventoryApi.getBomRevisions(itemId));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar las revisiones'));
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+      await fetchRevisions();
+    } catch (err) {
+      setError(getApiErrorMessage(err, fallback));
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      setError(null);
+      setComparison(await inventoryApi.compareBomRevisions(fromId, toId));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al comparar las revisiones'));
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return <LinearProgress />;
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Revisiones de la estructura</Typography>
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={() => runAction(() => inventoryApi.createBomRevision(itemId), 'Error al crear el borrador')}
+        >
+          Nuevo borrador
+        </Button>
+      </Box>
+
+      {revisions.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          Este artículo aún no tiene revisiones de estructura.
+        </Typography>
+      ) : (
+        <TableContainer sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Revisión</TableCell>
+                <TableCell>Estado</TableCell>
+                <TableCell>Vigente desde</TableCell>
+                <TableCell>Vigente hasta</TableCell>
+                <TableCell align="right">Componentes</TableCell>
+                <TableCell align="right">Materiales</TableCell>
+                <TableCell>Notas</TableCell>
+                <TableCell align="right">Acciones</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {revisions.map(revision => (
+                <TableRow key={revision.id}>
+                  <TableCell>{revision.revisionNumber}</TableCell>
+                  <TableCell>
+                    <Chip label={statusLabels[revision.status]} color={statusColors[revision.status]} size="small" />
+                  </TableCell>
+                  <TableCell>{formatDate(revision.effectiveFrom)}</TableCell>
+                  <TableCell>{formatDate(revision.effectiveTo)}</TableCell>
+                  <TableCell align="right">{revision.componentLines.length}</TableCell>
+                  <TableCell align="right">{revision.billOfMaterials.length}</TableCell>
+                  <TableCell>{revision.notes || '-'}</TableCell>
+                  <TableCell align="right">
+                    {revision.status === 'draft' && (
+                      <Button
+                        size="small"
+                        onClick={() => runAction(() => inventoryApi.releaseBomRevision(revision.id), 'Error al liberar la revisión')}
+                      >
+                        Liberar
+                      </Button>
+                    )}
+                    {revision.status !== 'obsolete' && (
+                      <Button
+                        size="small"
+                        color="warning"
+                        onClick={() => runAction(() => inventoryApi.obsoleteBomRevision(revision.id), 'Error al marcar la revisión como obsoleta')}
+                      >
+                        {revision.status === 'draft' ? 'Descartar' : 'Obsoleta'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {revisions.length > 1 && (
+        <>
+          <Typography variant="h6" gutterBottom>
+            Comparar revisiones
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Desde</InputLabel>
+              <Select value={fromId} label="Desde" onChange={(e) => setFromId(e.target.value)}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision.id} value={revision.id}>Rev. {revision.revisionNumber}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Hasta</InputLabel>
+              <Select value={toId} label="Hasta" onChange={(e) => setToId(e.target.value)}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision.id} value={revision.id}>Rev. {revision.revisionNumber}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="contained" size="small" disabled={!fromId || !toId} onClick={handleCompare}>
+              Comparar
+            </Button>
+          </Box>
+
+          {comparison && (
+            comparison.hasChanges ? (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Artículo</TableCell>
+                      <TableCell>Tipo</TableCell>
+                      <TableCell align="right">Rev. {comparison.from.revisionNumber}</TableCell>
+                      <TableCell align="right">Rev. {comparison.to.revisionNumber}</TableCell>
+                      <TableCell>Cambio</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.differences.map(difference => (
+                      <TableRow key={`${difference.lineType}-${difference.itemId}`}>
+                        <TableCell>{difference.itemName} ({difference.itemSku})</TableCell>
+                        <TableCell>{difference.lineType === 'component' ? 'Componente' : 'Material'}</TableCell>
+                        <TableCell align="right">{difference.fromQuantity ?? '-'}</TableCell>
+                        <TableCell align="right">{difference.toQuantity ?? '-'}</TableCell>
+                        <TableCell>{changeLabels[difference.change]}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            ) : (
+              <Alert severity="info">Las revisiones tienen la misma estructura.</Alert>
+            )
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BomRevisionHistory;
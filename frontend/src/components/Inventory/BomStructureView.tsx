@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import { inventoryApi, getApiErrorMessage } from '../../services/api';
+import type { BomExplosion, WhereUsedResult } from '../../services/api';
+
+interface BomStructureViewProps {
+  itemId: string;
+}
+
+// Estructura de producto indentada (todos los niveles) y consulta "dónde se usa"
+const BomStructureView: React.FC<BomStructureViewProps> = ({ itemId }) => {
+  const [explosion, setExplosion] = useState<BomExplosion | null>(null);
+  const [whereUsed, setWhereUsed] = useState<WhereUsedResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStructure = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [bom, usages] = await Promise.all([
+        inventoryApi.getBom(itemId, 'all'),
+        inventoryApi.getWhereUsed(itemId),
+      ]);
+      setExplosion(bom);
+      setWhereUsed(usages);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar la estructura de producto'));
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    fetchStructure();
+  }, [fetchStructure]);
+
+  if (loading) {
+    return <LinearProgress />;
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="h6" gutterBottom>
+        Estructura de producto
+      </Typography>
+      {explosion && explosion.lines.length > 0 ? (
+        <TableContainer sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Nivel</TableCell>
+                <TableCell>Artículo</TableCell>
+                <TableCell>Tipo</TableCell>
+                <TableCell align="right">Cant. por unidad</TableCell>
+                <TableCell align="right">Cant. total</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {explosion.lines.map(line => (
+                <TableRow key={line.path.join('/')}>
+                  <TableCell>{line.level}</TableCell>
+                  <TableCell sx={{ pl: 2 + (line.level - 1) * 3 }}>
+                    {line.itemName} ({line.itemSku})
+                    {line.isOptional && <Chip label="Opcional" size="small" sx={{ ml: 1 }} />}
+                  </TableCell>
+                  <TableCell>{line.lineType === 'component' ? 'Componente' : 'Material'}</TableCell>
+                  <TableCell align="right">{line.quantityPer} {line.unit}</TableCell>
+                  <TableCell align="right">{line.totalQuantity} {line.unit}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ) : (
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 3 }}>
+          Este artículo no tiene componentes ni materiales.
+        </Typography>
+      )}
+
+      <Typography variant="h6" gutterBottom>
+        Dónde se usa
+      </Typography>
+      {whereUsed && whereUsed.usages.length > 0 ? (
+        <>
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Nivel</TableCell>
+                  <TableCell>Artículo</TableCell>
+                  <TableCell align="right">Cant. por unidad</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {whereUsed.usages.map(usage => (
+                  <TableRow key={`${usage.itemId}-${usage.childId}`}>
+                    <TableCell>{usage.level}</TableCell>
+                    <TableCell>{usage.itemName} ({usage.itemSku})</TableCell>
+                    <TableCell align="right">{usage.quantityPer}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Typography variant="body2" gutterBottom>
+            Modelos afectados:
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {whereUsed.affectedModels.map(model => (
+              <Chip key={model.id} label={`${model.name} (${model.sku})`} color="primary" size="small" />
+            ))}
+          </Box>
+        </>
+      ) : (
+        <Typography variant="body2" color="textSecondary">
+          Este artículo no se usa en otros artículos.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default BomStructureView;
@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { ComponentLine } from '../../services/api';
+
+export interface ComponentLineOption {
+  id: string;
+  name: string;
+  sku: string;
+}
+
+interface ComponentLinesEditorProps {
+  label: string;
+  helperText: string;
+  options: ComponentLineOption[];
+  value: ComponentLine[];
+  onChange: (lines: ComponentLine[]) => void;
+  disabled?: boolean;
+}
+
+// Selección de componentes con su cantidad por unidad del artículo padre
+const ComponentLinesEditor: React.FC<ComponentLinesEditorProps> = ({ label, helperText, options, value, onChange, disabled }) => {
+  const selectedOptions = value
+    .map(line => options.find(option => option.id === line.componentId))
+    .filter((option): option is ComponentLineOption => Boolean(option));
+
+  const handleSelectionChange = (_: React.SyntheticEvent, newValue: ComponentLineOption[]) => {
+    onChange(newValue.map(option => ({
+      componentId: option.id,
+      quantity: value.find(line => line.componentId === option.id)?.quantity || 1,
+    })));
+  };
+
+  const handleQuantityChange = (componentId: string, quantity: number) => {
+    onChange(value.map(line => (line.componentId === componentId ? { ...line, quantity } : line)));
+  };
+
+  return (
+    <Box>
+      <Autocomplete
+        multiple
+        options={options}
+        value={selectedOptions}
+        onChange={handleSelectionChange}
+        disabled={disabled}
+        getOptionLabel={(option) => `${option.name} (${option.sku})`}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label={label}
+            placeholder="Seleccionar componentes..."
+            helperText={helperText}
+          />
+        )}
+        renderTags={(tagValue, getTagProps) =>
+          tagValue.map((option, index) => (
+            <Chip
+              label={`${option.name} (${option.sku})`}
+              {...getTagProps({ index })}
+              key={option.id}
+              size="small"
+            />
+          ))
+        }
+        isOptionEqualToValue={(option, selected) => option.id === selected.id}
+        fullWidth
+      />
+
+      {selectedOptions.length > 0 && (
+        <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Typography variant="body2" color="textSecondary">
+            Cantidad por unidad
+          </Typography>
+          {selectedOptions.map(option => (
+            <Box key={option.id} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Typography variant="body2" sx={{ flex: 1 }}>
+                {option.name} ({option.sku})
+              </Typography>
+              <TextField
+                type="number"
+                size="small"
+                value={value.find(line => line.componentId === option.id)?.quantity ?? 1}
+                onChange={(e) => handleQuantityChange(option.id, Number(e.target.value))}
+                disabled={disabled}
+                inputProps={{ min: 0.001, step: 'any' }}
+                sx={{ width: 120 }}
+              />
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ComponentLinesEditor;
@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, AccountTree as GenealogyIcon } from '@mui/icons-material';
+import { inventoryApi, lotApi, getApiErrorMessage } from '../../services/api';
+import type { InventoryLot, LotStatus } from '../../services/api';
+import LotGenealogyDialog from './LotGenealogyDialog';
+
+interface ItemLotsProps {
+  itemId: string;
+  unit: string;
+  onReceived?: () => void;
+}
+
+const lotStatusLabels: Record<LotStatus, string> = {
+  available: 'Disponible',
+  expired: 'Caducado',
+  depleted: 'Agotado',
+};
+
+const lotStatusColors: Record<LotStatus, 'success' | 'error' | 'default'> = {
+  available: 'success',
+  expired: 'error',
+  depleted: 'default',
+};
+
+const emptyReceipt = {
+  quantity: 0,
+  lotNumber: '',
+  supplierLot: '',
+  expiryDate: '',
+  notes: '',
+};
+
+// Lotes de un material con control por lotes y recepción de un lote nuevo
+const ItemLots: React.FC<ItemLotsProps> = ({ itemId, unit, onReceived }) => {
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receiptOpen, setReceiptOpen] = useState(false);
+  const [receipt, setReceipt] = useState(emptyReceipt);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [genealogyLotId, setGenealogyLotId] = useState<string | null>(null);
+
+  const fetchLots = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setLots(await lotApi.getAll({ itemId }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los lotes'));
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    fetchLots();
+  }, [fetchLots]);
+
+  const handleReceiptChange = (field: keyof typeof emptyReceipt) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setReceipt(prev => ({ ...prev, [field]: event.target.value }));
+  };
+
+  const handleReceive = async () => {
+    try {
+      setSaving(true);
+      setReceiptError(null);
+      await inventoryApi.recordMovement(itemId, {
+        type: 'receipt',
+        quantity: Number(receipt.quantity),
+        reason: 'Recepción de lote',
+        lot: {
+          lotNumber: receipt.lotNumber || undefined,
+          supplierLot: receipt.supplierLot || undefined,
+          expiryDate: receipt.expiryDate || undefined,
+          notes: receipt.notes || undefined,
+        },
+      });
+      setReceiptOpen(false);
+      setReceipt(emptyReceipt);
+      await fetchLots();
+      onReceived?.();
+    } catch (err) {
+      setReceiptError(getApiErrorMessage(err, 'Error al recibir el lote'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">Lotes</Typography>
+        <Button size="small" variant="outlined" startIcon={<AddIcon />} onClick={() => setReceiptOpen(true)}>
+          Recibir lote
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {!loading && lots.length === 0 ? (
+        <Typography color="text.secondary">Este material no tiene lotes registrados</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Lote</TableCell>
+              <TableCell>Lote proveedor</TableCell>
+              <TableCell>Recibido</TableCell>
+              <TableCell>Caducidad</TableCell>
+              <TableCell align="right">Cantidad</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Genealogía</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lots.map(lot => (
+              <TableRow key={lot.id}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{lot.lotNumber}</TableCell>
+                <TableCell>{lot.supplierLot || '-'}</TableCell>
+                <TableCell>{new Date(lot.receivedDate).toLocaleDateString('es-ES')}</TableCell>
+                <TableCell>{lot.expiryDate ? new Date(lot.expiryDate).toLocaleDateString('es-ES') : '-'}</TableCell>
+                <TableCell align="right">
+                  {lot.quantity} / {lot.initialQuantity} {lot.unit}
+                </TableCell>
+                <TableCell>
+                  {lot.status && (
+                    <Chip size="small" label={lotStatusLabels[lot.status]} color={lotStatusColors[lot.status]} />
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Ver genealogía">
+                    <IconButton size="small" onClick={() => setGenealogyLotId(lot.id)}>
+                      <GenealogyIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={receiptOpen} onClose={() => setReceiptOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Recibir lote</DialogTitle>
+        <DialogContent>
+          {receiptError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {receiptError}
+            </Alert>
+          )}
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} md={6}>
+              <TextField
+                label={`Cantidad (${unit})`}
+                type="number"
+                value={receipt.quantity}
+                onChange={handleReceiptChange('quantity')}
+                fullWidth
+                required
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <TextField
+                label="Fecha de caducidad"
+                type="date"
+                value={receipt.expiryDate}
+                onChange={handleReceiptChange('expiryDate')}
+                fullWidth
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <TextField
+                label="Número de lote"
+                value={receipt.lotNumber}
+                onChange={handleReceiptChange('lotNumber')}
+                fullWidth
+                helperText="Vacío = se genera automáticamente"
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <TextField
+                label="Lote del proveedor"
+                value={receipt.supplierLot}
+                onChange={handleReceiptChange('supplierLot')}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Notas"
+                value={receipt.notes}
+                onChange={handleReceiptChange('notes')}
+                fullWidth
+                multiline
+                rows={2}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReceiptOpen(false)} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button variant="contained" onClick={handleReceive} disabled={saving || Number(receipt.quantity) <= 0}>
+            Recibir
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <LotGenealogyDialog lotId={genealogyLotId} onClose={() => setGenealogyLotId(null)} />
+    </Box>
+  );
+};
+
+export default ItemLots;
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { supplierApi } from '../../services/api';
+import type { ItemSupplier, Supplier } from '../../services/api';
+
+interface ItemSuppliersEditorProps {
+  value: ItemSupplier[];
+  onChange: (suppliers: ItemSupplier[]) => void;
+}
+
+// Proveedores del artículo con su referencia, precio y cantidad mínima de pedido
+const ItemSuppliersEditor: React.FC<ItemSuppliersEditorProps> = ({ value, onChange }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        setSuppliers(await supplierApi.getAll());
+      } catch (error) {
+        console.error('Error al cargar proveedores:', error);
+      }
+    };
+
+    fetchSuppliers();
+  }, []);
+
+  const usedIds = new Set(value.map(line => line.supplierId));
+  const activeSuppliers = suppliers.filter(supplier => supplier.isActive);
+
+  const handleAdd = () => {
+    const next = activeSuppliers.find(supplier => !usedIds.has(supplier.id));
+    if (!next) return;
+    onChange([
+      ...value,
+      { supplierId: next.id, supplierSku: '', minimumOrderQuantity: 0, isPreferred: value.length === 0 },
+    ]);
+  };
+
+  const handleFieldChange = (index: number, field: keyof ItemSupplier, fieldValue: string | number) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, [field]: fieldValue } : line)));
+  };
+
+  const handlePreferred = (index: number) => {
+    onChange(value.map((line, i) => ({ ...line, isPreferred: i === index })));
+  };
+
+  const handleRemove = (index: number) => {
+    const remaining = value.filter((_, i) => i !== index);
+    // Si se quita el preferente, pasa a serlo el primero
+    if (remaining.length > 0 && !remaining.some(line => line.isPreferred)) {
+      remaining[0] = { ...remaining[0], isPreferred: true };
+    }
+    onChange(remaining);
+  };
+
+  const currencyOf = (supplierId: string) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.currency || '';
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1">Proveedores</Typography>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={handleAdd}
+          disabled={!activeSuppliers.some(supplier => !usedIds.has(supplier.id))}
+        >
+          Agregar proveedor
+        </Button>
+      </Box>
+
+      {suppliers.length === 0 && (
+        <Typography variant="body2" color="textSecondary">
+          Registra proveedores para poder asignarlos al artículo.
+        </Typography>
+      )}
+
+      {value.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell width={80}>Preferente</TableCell>
+              <TableCell>Proveedor</TableCell>
+              <TableCell>Referencia del proveedor</TableCell>
+              <TableCell width={140}>Precio</TableCell>
+              <TableCell width={120}>Pedido mínimo</TableCell>
+              <TableCell width={50} />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {value.map((line, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Radio
+                    size="small"
+                    checked={Boolean(line.isPreferred)}
+                    onChange={() => handlePreferred(index)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    select
+                    size="small"
+                    value={line.supplierId}
+                    onChange={(e) => handleFieldChange(index, 'supplierId', e.target.value)}
+                    fullWidth
+                  >
+                    {suppliers
+                      .filter(supplier => supplier.id === line.supplierId || (supplier.isActive && !usedIds.has(supplier.id)))
+                      .map(supplier => (
+                        <MenuItem key={supplier.id} value={supplier.id}>
+                          {supplier.code} - {supplier.name}
+                        </MenuItem>
+                      ))}
+                  </TextField>
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    value={line.supplierSku || ''}
+                    onChange={(e) => handleFieldChange(index, 'supplierSku', e.target.value)}
+                    fullWidth
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    type="number"
+                    size="small"
+                    value={line.unitPrice ?? ''}
+                    onChange={(e) => handleFieldChange(index, 'unitPrice', e.target.value === '' ? '' : Number(e.target.value))}
+                    inputProps={{ min: 0, step: 0.01 }}
+                    helperText={currencyOf(line.supplierId)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    type="number"
+                    size="small"
+                    value={line.minimumOrderQuantity ?? 0}
+                    onChange={(e) => handleFieldChange(index, 'minimumOrderQuantity', Number(e.target.value))}
+                    inputProps={{ min: 0 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <IconButton size="small" color="error" onClick={() => handleRemove(index)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default ItemSuppliersEditor;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { lotApi, getApiErrorMessage } from '../../services/api';
+import type { LotGenealogy } from '../../services/api';
+
+interface LotGenealogyDialogProps {
+  lotId: string | null;
+  onClose: () => void;
+}
+
+const cardStatusLabels: Record<string, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En progreso',
+  paused: 'Pausada',
+  completed: 'Completada',
+  cancelled: 'Cancelada',
+};
+
+// Genealogía hacia adelante: tarjetas (y unidades con número de serie) que consumieron el lote
+const LotGenealogyDialog: React.FC<LotGenealogyDialogProps> = ({ lotId, onClose }) => {
+  const [genealogy, setGenealogy] = useState<LotGenealogy | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!lotId) return;
+    setGenealogy(null);
+    setError(null);
+    setLoading(true);
+    lotApi.getGenealogy(lotId)
+      .then(setGenealogy)
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar la genealogía del lote')))
+      .finally(() => setLoading(false));
+  }, [lotId]);
+
+  const lot = genealogy?.lot;
+
+  return (
+    <Dialog open={Boolean(lotId)} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Genealogía del lote {lot ? lot.lotNumber : ''}</DialogTitle>
+      <DialogContent>
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {lot && genealogy && (
+          <>
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mb: 2 }}>
+              <Typography variant="body2">
+                <strong>Material:</strong> {lot.itemName} ({lot.itemSku})
+              </Typography>
+              {lot.supplierLot && (
+                <Typography variant="body2">
+                  <strong>Lote proveedor:</strong> {lot.supplierLot}
+                </Typography>
+              )}
+              <Typography variant="body2">
+                <strong>Recibido:</strong> {new Date(lot.receivedDate).toLocaleDateString('es-ES')}
+              </Typography>
+              <Typography variant="body2">
+                <strong>Caducidad:</strong> {lot.expiryDate ? new Date(lot.expiryDate).toLocaleDateString('es-ES') : '-'}
+              </Typography>
+              <Typography variant="body2">
+                <strong>Consumido en producción:</strong> {genealogy.totalConsumed} {lot.unit}
+              </Typography>
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Tarjeta</TableCell>
+                  <TableCell>Modelo</TableCell>
+                  <TableCell>Componente</TableCell>
+                  <TableCell align="right">Cantidad</TableCell>
+                  <TableCell>Nº de serie</TableCell>
+                  <TableCell>Estado</TableCell>
+                  <TableCell>Consumido</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {genealogy.consumptions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center">
+                      Ninguna tarjeta ha consumido este lote
+                    </TableCell>
+                  </TableRow>
+                )}
+                {genealogy.consumptions.map(consumption => (
+                  <TableRow key={consumption.cardId}>
+                    <TableCell>{consumption.cardLabel}</TableCell>
+                    <TableCell>{consumption.modelName}</TableCell>
+                    <TableCell>{consumption.componentName || '-'}</TableCell>
+                    <TableCell align="right">{consumption.quantity} {lot.unit}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{consumption.serialNumber || '-'}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={cardStatusLabels[consumption.cardStatus] || consumption.cardStatus} />
+                    </TableCell>
+                    <TableCell>{new Date(consumption.consumedAt).toLocaleString('es-ES')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LotGenealogyDialog;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { workCenterApi } from '../../services/api';
+import type { RoutingOperation, WorkCenter } from '../../services/api';
+
+interface RoutingEditorProps {
+  value: RoutingOperation[];
+  onChange: (routing: RoutingOperation[]) => void;
+}
+
+// Ruta de fabricación: operaciones ordenadas con su centro de trabajo y tiempos estándar
+const RoutingEditor: React.FC<RoutingEditorProps> = ({ value, onChange }) => {
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+
+  useEffect(() => {
+    const fetchWorkCenters = async () => {
+      try {
+        setWorkCenters(await workCenterApi.getAll({ isActive: true }));
+      } catch (error) {
+        console.error('Error al cargar centros de trabajo:', error);
+      }
+    };
+
+    fetchWorkCenters();
+  }, []);
+
+  const handleAdd = () => {
+    const nextSequence = value.length > 0 ? Math.max(...value.map(op => op.sequence)) + 10 : 10;
+    onChange([
+      ...value,
+      { sequence: nextSequence, name: '', workCenterId: workCenters[0]?.id || '', setupMinutes: 0, runMinutesPerUnit: 0 },
+    ]);
+  };
+
+  const handleFieldChange = (index: number, field: keyof RoutingOperation, fieldValue: string | number) => {
+    onChange(value.map((op, i) => (i === index ? { ...op, [field]: fieldValue } : op)));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1">Ruta de fabricación</Typography>
+        <Button size="small" startIcon={<AddIcon />} onClick={handleAdd} disabled={workCenters.length === 0}>
+          Agregar operación
+        </Button>
+      </Box>
+
+      {workCenters.length === 0 && (
+        <Typography variant="body2" color="textSecondary">
+          Registra centros de trabajo para poder definir la ruta.
+        </Typography>
+      )}
+
+      {value.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell width={90}>Secuencia</TableCell>
+              <TableCell>Operación</TableCell>
+              <TableCell>Centro de trabajo</TableCell>
+              <TableCell width={120}>Preparación (min)</TableCell>
+              <TableCell width={120}>Ejecución (min/u)</TableCell>
+              <TableCell width={50} />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {value.map((op, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <TextField
+                    type="number"
+                    size="small"
+                    value={op.sequence}
+                    onChange={(e) => handleFieldChange(index, 'sequence', Number(e.target.value))}
+                    inputProps={{ min: 1 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    value={op.name}
+                    onChange={(e) => handleFieldChange(index, 'name', e.target.value)}
+                    placeholder="Cortar, ensamblar, coser..."
+                    fullWidth
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    select
+                    size="small"
+                    value={op.workCenterId}
+                    onChange={(e) => handleFieldChange(index, 'workCenterId', e.target.value)}
+                    fullWidth
+                  >
+                    {workCenters.map(workCenter => (
+                      <MenuItem key={workCenter.id} value={workCenter.id}>
+                        {workCenter.code} - {workCenter.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    type="number"
+                    size="small"
+                    value={op.setupMinutes}
+                    onChange={(e) => handleFieldChange(index, 'setupMinutes', Number(e.target.value))}
+                    inputProps={{ min: 0 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    type="number"
+                    size="small"
+                    value={op.runMinutesPerUnit}
+                    onChange={(e) => handleFieldChange(index, 'runMinutesPerUnit', Number(e.target.value))}
+                    inputProps={{ min: 0 }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <IconButton size="small" color="error" onClick={() => handleRemove(index)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default RoutingEditor;
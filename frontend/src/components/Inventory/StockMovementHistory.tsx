@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import { inventoryApi, getApiErrorMessage, formatLocationLabel } from '../../services/api';
+import type { StockMovement, StockMovementType, StockReconciliation } from '../../services/api';
+
+interface StockMovementHistoryProps {
+  itemId: string;
+  refreshKey?: number;
+}
+
+const movementTypeLabels: Record<StockMovementType, string> = {
+  receipt: 'Recepción',
+  issue: 'Consumo',
+  production_output: 'Producción',
+  adjustment: 'Ajuste',
+  transfer: 'Transferencia',
+  scrap: 'Desecho',
+  shipment: 'Envío',
+};
+
+const movementTypeColors: Record<StockMovementType, 'success' | 'error' | 'info' | 'default' | 'warning'> = {
+  receipt: 'success',
+  issue: 'error',
+  production_output: 'info',
+  adjustment: 'default',
+  transfer: 'default',
+  scrap: 'warning',
+  shipment: 'error',
+};
+
+const referenceTypeLabels: Record<string, string> = {
+  manufacturing_order: 'Orden',
+  production_card: 'Tarjeta',
+  purchase_order: 'Compra',
+  shipment: 'Envío',
+  manual: 'Manual',
+};
+
+const StockMovementHistory: React.FC<StockMovementHistoryProps> = ({ itemId, refreshKey }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [reconciliation, setReconciliation] = useState<StockReconciliation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMovements = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [movementData, reconciliationData] = await Promise.all([
+        inventoryApi.getMovements(itemId),
+        inventoryApi.getReconciliation(itemId),
+      ]);
+      setMovements(movementData);
+      setReconciliation(reconciliationData);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los movimientos'));
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    fetchMovements();
+    // refreshKey permite recargar el historial tras registrar un movimiento desde fuera
+  }, [fetchMovements, refreshKey]);
+
+  const handleReconcile = async () => {
+    try {
+      setLoading(true);
+      await inventoryApi.reconcile(itemId);
+      await fetchMovements();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al conciliar el libro de movimientos'));
+      setLoading(false);
+    }
+  };
+
+  const formatQuantity = (movement: StockMovement) => {
+    if (movement.type === 'transfer') {
+      return `${movement.transferredQuantity ?? 0} ${movement.unit}`;
+    }
+    const sign = movement.quantity > 0 ? '+' : '';
+    return `${sign}${movement.quantity} ${movement.unit}`;
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {reconciliation && !reconciliation.isReconciled && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={handleReconcile} disabled={loading}>
+              Conciliar
+            </Button>
+          }
+        >
+          La cantidad actual ({reconciliation.quantity}) no coincide con el saldo del libro
+          ({reconciliation.ledgerBalance}). Diferencia: {reconciliation.difference}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {!loading && movements.length === 0 ? (
+        <Typography color="text.secondary">
+          Este artículo no tiene movimientos registrados
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Fecha</TableCell>
+                <TableCell>Tipo</TableCell>
+                <TableCell align="right">Cantidad</TableCell>
+                <TableCell align="right">Saldo</TableCell>
+                <TableCell>Ubicación</TableCell>
+                <TableCell>Motivo</TableCell>
+                <TableCell>Referencia</TableCell>
+                <TableCell>Usuario</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {movements.map((movement) => (
+                <TableRow key={movement.id}>
+                  <TableCell>{new Date(movement.createdAt).toLocaleString('es-ES')}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={movementTypeLabels[movement.type]}
+                      color={movementTypeColors[movement.type]}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">{formatQuantity(movement)}</TableCell>
+                  <TableCell align="right">{movement.balanceAfter}</TableCell>
+                  <TableCell>
+                    {movement.type === 'transfer'
+                      ? `${movement.fromLocation} → ${movement.toLocation}`
+                      : movement.warehouseCode ? formatLocationLabel(movement.warehouseCode, movement.binCode) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {movement.reason}
+                    {movement.lotNumber && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        Lote {movement.lotNumber}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {movement.referenceType ? referenceTypeLabels[movement.referenceType] : '-'}
+                    {movement.referenceId && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {movement.referenceId}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{movement.performedBy || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default StockMovementHistory;
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { inventoryApi, warehouseApi, getApiErrorMessage, formatLocationLabel } from '../../services/api';
+import type { BinLocation, LocationStock, Warehouse } from '../../services/api';
+
+interface TransferStockDialogProps {
+  item: { id: string; name: string; unit: string } | null;
+  onClose: () => void;
+  onTransferred?: () => void;
+}
+
+const emptyTransfer = {
+  sourceId: '',
+  quantity: 0,
+  toWarehouseId: '',
+  toBinId: '',
+  reason: '',
+};
+
+// Transferencia de existencias de un artículo entre almacenes o ubicaciones
+const TransferStockDialog: React.FC<TransferStockDialogProps> = ({ item, onClose, onTransferred }) => {
+  const [locations, setLocations] = useState<LocationStock[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [bins, setBins] = useState<BinLocation[]>([]);
+  const [transfer, setTransfer] = useState(emptyTransfer);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+    setTransfer(emptyTransfer);
+    setError(null);
+    setLoading(true);
+    Promise.all([inventoryApi.getLocations(item.id), warehouseApi.getAll({ isActive: true })])
+      .then(([locationData, warehouseData]) => {
+        setLocations(locationData);
+        setWarehouses(warehouseData);
+        if (locationData.length > 0) {
+          setTransfer(prev => ({ ...prev, sourceId: locationData[0].id }));
+        }
+      })
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar las ubicaciones')))
+      .finally(() => setLoading(false));
+  }, [item]);
+
+  useEffect(() => {
+    if (!transfer.toWarehouseId) {
+      setBins([]);
+      return;
+    }
+    warehouseApi.getBins(transfer.toWarehouseId)
+      .then(data => setBins(data.filter(bin => bin.isActive)))
+      .catch(() => setBins([]));
+  }, [transfer.toWarehouseId]);
+
+  const source = locations.find(location => location.id === transfer.sourceId);
+
+  const handleTransfer = async () => {
+    if (!item || !source) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await inventoryApi.transferStock({
+        itemId: item.id,
+        quantity: Number(transfer.quantity),
+        fromWarehouseId: source.warehouseId,
+        fromBinId: source.binId,
+        toWarehouseId: transfer.toWarehouseId,
+        toBinId: transfer.toBinId || undefined,
+        reason: transfer.reason || undefined,
+      });
+      onTransferred?.();
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al transferir el stock'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canTransfer = Boolean(source)
+    && Number(transfer.quantity) > 0
+    && Number(transfer.quantity) <= (source?.quantity ?? 0)
+    && Boolean(transfer.toWarehouseId);
+
+  return (
+    <Dialog open={Boolean(item)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Transferir stock{item ? ` · ${item.name}` : ''}</DialogTitle>
+      <DialogContent>
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {!loading && locations.length === 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Este artículo no tiene existencias para transferir
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} md={8}>
+            <FormControl fullWidth>
+              <InputLabel>Origen</InputLabel>
+              <Select
+                value={transfer.sourceId}
+                label="Origen"
+                onChange={(e) => setTransfer({ ...transfer, sourceId: e.target.value })}
+              >
+                {locations.map(location => (
+                  <MenuItem key={location.id} value={location.id}>
+                    {formatLocationLabel(location.warehouseCode, location.binCode)} · {location.quantity} {location.unit}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              label={`Cantidad${item ? ` (${item.unit})` : ''}`}
+              type="number"
+              value={transfer.quantity}
+              onChange={(e) => setTransfer({ ...transfer, quantity: Number(e.target.value) })}
+              fullWidth
+              inputProps={{ min: 0, max: source?.quantity, step: 0.01 }}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <FormControl fullWidth>
+              <InputLabel>Almacén de destino</InputLabel>
+              <Select
+                value={transfer.toWarehouseId}
+                label="Almacén de destino"
+                onChange={(e) => setTransfer({ ...transfer, toWarehouseId: e.target.value, toBinId: '' })}
+              >
+                {warehouses.map(warehouse => (
+                  <MenuItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.code} · {warehouse.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <FormControl fullWidth disabled={bins.length === 0}>
+              <InputLabel>Ubicación de destino</InputLabel>
+              <Select
+                value={transfer.toBinId}
+                label="Ubicación de destino"
+                onChange={(e) => setTransfer({ ...transfer, toBinId: e.target.value })}
+              >
+                <MenuItem value="">Sin ubicación</MenuItem>
+                {bins.map(bin => (
+                  <MenuItem key={bin.id} value={bin.id}>
+                    {bin.code}{bin.description ? ` · ${bin.description}` : ''}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              label="Motivo"
+              value={transfer.reason}
+              onChange={(e) => setTransfer({ ...transfer, reason: e.target.value })}
+              fullWidth
+            />
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancelar
+        </Button>
+        <Button variant="contained" onClick={handleTransfer} disabled={saving || !canTransfer}>
+          Transferir
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TransferStockDialog;
@@ -11,6 +11,8 @@ import {
   Box,
   Container,
   Chip,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import {
   Dashboard as DashboardIcon,
@@ -20,13 +22,42 @@ import {
   SignalWifiOff as DisconnectedIcon,
   Factory as FactoryIcon,
   ViewList as QueueIcon,
+  PrecisionManufacturing as WorkCenterIcon,
+  ViewTimeline as GanttIcon,
+  CalendarMonth as CalendarIcon,
+  AccountCircle as UserIcon,
+  Logout as LogoutIcon,
+  Engineering as LaborIcon,
+  PauseCircle as DowntimeIcon,
+  FactCheck as InspectionIcon,
+  ReportProblem as QualityIcon,
+  QrCode2 as SerialIcon,
+  Science as LotIcon,
+  Warehouse as WarehouseIcon,
+  LocalShipping as SupplierIcon,
+  ShoppingCart as PurchaseIcon,
+  AccountTree as MrpIcon,
+  Autorenew as ReplenishmentIcon,
+  People as CustomerIcon,
+  Receipt as SalesIcon,
+  LocalShippingOutlined as ShipmentIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import type { UserRole } from '../../services/api';
 // Temporarily disable socket connection
 // import { useSocket } from '../../contexts/SocketContext';
 
 const drawerWidth = 240;
 
+const roleLabels: Record<UserRole, string> = {
+  admin: 'Administrador',
+  planner: 'Planificador',
+  warehouse: 'Almacén',
+  operator: 'Operario',
+  viewer: 'Consulta',
+};
+
 interface LayoutProps {
   children: React.ReactNode;
 }
@@ -34,14 +65,32 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user, logout } = useAuth();
   // const { connected } = useSocket();
   const connected = true; // Show as connected for now since backend is working
 
   const menuItems = [
     { text: 'Dashboard', path: '/', icon: <DashboardIcon /> },
     { text: 'Inventario', path: '/inventory', icon: <InventoryIcon /> },
+    { text: 'Almacenes', path: '/warehouses', icon: <WarehouseIcon /> },
+    { text: 'Proveedores', path: '/suppliers', icon: <SupplierIcon /> },
+    { text: 'Compras', path: '/purchase-orders', icon: <PurchaseIcon /> },
+    { text: 'MRP', path: '/mrp', icon: <MrpIcon /> },
+    { text: 'Reposición', path: '/replenishment', icon: <ReplenishmentIcon /> },
+    { text: 'Clientes', path: '/customers', icon: <CustomerIcon /> },
+    { text: 'Pedidos de Venta', path: '/sales-orders', icon: <SalesIcon /> },
+    { text: 'Envíos', path: '/shipments', icon: <ShipmentIcon /> },
     { text: 'Órdenes de Fabricación', path: '/manufacturing-orders', icon: <FactoryIcon /> },
     { text: 'Cola de Producción', path: '/production-queue', icon: <QueueIcon /> },
+    { text: 'Planificación', path: '/production-plan', icon: <GanttIcon /> },
+    { text: 'Mano de Obra', path: '/labor', icon: <LaborIcon /> },
+    { text: 'Paradas', path: '/downtime', icon: <DowntimeIcon /> },
+    { text: 'Inspección', path: '/inspection-plans', icon: <InspectionIcon /> },
+    { text: 'Calidad', path: '/quality', icon: <QualityIcon /> },
+    { text: 'Números de Serie', path: '/serials', icon: <SerialIcon /> },
+    { text: 'Lotes', path: '/lots', icon: <LotIcon /> },
+    { text: 'Centros de Trabajo', path: '/work-centers', icon: <WorkCenterIcon /> },
+    { text: 'Calendario de Fábrica', path: '/factory-calendar', icon: <CalendarIcon /> },
   ];
 
   return (
@@ -63,6 +112,22 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             size="small"
             sx={{ color: 'white', borderColor: 'rgba(255, 255, 255, 0.3)' }}
           />
+          {user && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, ml: 2 }}>
+                <UserIcon />
+                <Box>
+                  <Typography variant="body2" sx={{ lineHeight: 1.2 }}>{user.name}</Typography>
+                  <Typography variant="caption" sx={{ opacity: 0.8 }}>{roleLabels[user.role]}</Typography>
+                </Box>
+              </Box>
+              <Tooltip title="Cerrar sesión">
+                <IconButton color="inherit" onClick={logout} sx={{ ml: 1 }}>
+                  <LogoutIcon />
+                </IconButton>
+              </Tooltip>
+            </>
+          )}
         </Toolbar>
       </AppBar>
 
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import { manufacturingOrderApi, getApiErrorMessage } from '../../services/api';
+import type { AvailabilityReport } from '../../services/api';
+
+interface MaterialAvailabilityPanelProps {
+  modelId: string;
+  quantity: number;
+  componentIds: string[];
+}
+
+const MaterialAvailabilityPanel: React.FC<MaterialAvailabilityPanelProps> = ({ modelId, quantity, componentIds }) => {
+  const [report, setReport] = useState<AvailabilityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serializar para no repetir la consulta cuando el arreglo cambia de referencia
+  const componentKey = componentIds.join(',');
+
+  useEffect(() => {
+    if (!modelId || quantity <= 0) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchAvailability = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await manufacturingOrderApi.checkAvailability({
+          modelId,
+          quantity,
+          componentIds: componentKey ? componentKey.split(',') : [],
+        });
+        if (!cancelled) setReport(data);
+      } catch (err) {
+        if (!cancelled) setError(getApiErrorMessage(err, 'Error al verificar la disponibilidad de materiales'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchAvailability();
+    return () => {
+      cancelled = true;
+    };
+  }, [modelId, quantity, componentKey]);
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Disponibilidad de Materiales
+        </Typography>
+
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {report && report.requirements.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Los componentes seleccionados no tienen lista de materiales definida
+          </Typography>
+        )}
+
+        {report && report.requirements.length > 0 && (
+          <Box>
+            <Alert severity={report.hasShortages ? 'warning' : 'success'} sx={{ mb: 2 }}>
+              {report.hasShortages
+                ? `Faltan ${report.shortages.length} material${report.shortages.length > 1 ? 'es' : ''} para fabricar ${report.quantity} unidad${report.quantity > 1 ? 'es' : ''}`
+                : 'Hay stock suficiente de todos los materiales'}
+            </Alert>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Material</TableCell>
+                  <TableCell align="right">Requerido</TableCell>
+                  <TableCell align="right">Disponible</TableCell>
+                  <TableCell align="right">Faltante</TableCell>
+                  <TableCell align="right">Compra sugerida</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.requirements.map((requirement) => (
+                  <TableRow
+                    key={requirement.materialId}
+                    sx={requirement.shortage > 0 ? { backgroundColor: 'warning.light' } : undefined}
+                  >
+                    <TableCell>
+                      {requirement.materialName} ({requirement.materialSku})
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        Usado en: {requirement.usedBy.join(', ')}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{requirement.requiredQuantity} {requirement.unit}</TableCell>
+                    <TableCell align="right">{requirement.available} {requirement.unit}</TableCell>
+                    <TableCell align="right">
+                      {requirement.shortage > 0 ? `${requirement.shortage} ${requirement.unit}` : '-'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {requirement.suggestedPurchaseQuantity > 0
+                        ? `${requirement.suggestedPurchaseQuantity} ${requirement.unit}`
+                        : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MaterialAvailabilityPanel;
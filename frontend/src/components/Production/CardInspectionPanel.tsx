@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { inspectionApi, getApiErrorMessage } from '../../services/api';
+import type { CardInspectionStatus, InspectionCheck, InspectionResultInput } from '../../services/api';
+
+interface CardInspectionPanelProps {
+  cardId: string;
+  refreshKey?: string;
+  canRecord: boolean;
+  onRecorded: () => void;
+}
+
+interface CheckInput {
+  result: '' | 'pass' | 'fail';
+  measuredValue: string;
+  notes: string;
+}
+
+const emptyInput: CheckInput = { result: '', measuredValue: '', notes: '' };
+
+const formatTolerance = (check: InspectionCheck) => {
+  const unit = check.unit ? ` ${check.unit}` : '';
+  if (check.minValue !== undefined && check.maxValue !== undefined) return `${check.minValue} – ${check.maxValue}${unit}`;
+  if (check.minValue !== undefined) return `≥ ${check.minValue}${unit}`;
+  if (check.maxValue !== undefined) return `≤ ${check.maxValue}${unit}`;
+  return '-';
+};
+
+// Inspección de calidad de la tarjeta: controles del plan del modelo e historial de intentos
+const CardInspectionPanel: React.FC<CardInspectionPanelProps> = ({ cardId, refreshKey, canRecord, onRecorded }) => {
+  const [status, setStatus] = useState<CardInspectionStatus | null>(null);
+  const [inputs, setInputs] = useState<Record<number, CheckInput>>({});
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    inspectionApi.getCardInspection(cardId)
+      .then(setStatus)
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar la inspección')))
+      .finally(() => setLoading(false));
+  }, [cardId, refreshKey]);
+
+  if (loading && !status) return <CircularProgress size={24} />;
+  if (!status || !status.plan) {
+    return error ? <Alert severity="error">{error}</Alert> : null;
+  }
+
+  const plan = status.plan;
+  const lastInspection = status.inspections.filter(inspection => inspection.planId === plan.id).pop();
+  const getInput = (sequence: number) => inputs[sequence] || emptyInput;
+  const setInput = (sequence: number, changes: Partial<CheckInput>) =>
+    setInputs(prev => ({ ...prev, [sequence]: { ...getInput(sequence), ...changes } }));
+  const isComplete = plan.checks.every(check =>
+    check.type === 'measurement' ? getInput(check.sequence).measuredValue !== '' : getInput(check.sequence).result !== ''
+  );
+
+  const handleRecord = async () => {
+    const results: InspectionResultInput[] = plan.checks.map(check => {
+      const input = getInput(check.sequence);
+      return {
+        sequence: check.sequence,
+        ...(check.type === 'measurement'
+          ? { measuredValue: Number(input.measuredValue) }
+          : { passed: input.result === 'pass' }),
+        notes: input.notes.trim() || undefined,
+      };
+    });
+
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await inspectionApi.recordInspection(cardId, results, notes.trim() || undefined);
+      setStatus(updated);
+      setInputs({});
+      setNotes('');
+      onRecorded();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al registrar la inspección'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+          Inspección de calidad
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {plan.name}
+        </Typography>
+        {lastInspection ? (
+          <Chip
+            size="small"
+            color={lastInspection.passed ? 'success' : lastInspection.acceptedByNcr ? 'warning' : 'error'}
+            label={lastInspection.passed
+              ? 'Superada'
+              : lastInspection.acceptedByNcr ? `Aceptada por concesión (${lastInspection.acceptedByNcr})` : 'No superada'}
+          />
+        ) : (
+          <Chip size="small" color="warning" label="Pendiente" />
+        )}
+      </Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          {error}
+        </Alert>
+      )}
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Sec.</TableCell>
+            <TableCell>Control</TableCell>
+            <TableCell>Tolerancia</TableCell>
+            <TableCell>Resultado</TableCell>
+            <TableCell>Notas</TableCell>
+            {lastInspection && <TableCell>Último</TableCell>}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {plan.checks.map(check => {
+            const input = getInput(check.sequence);
+            const lastResult = lastInspection?.results.find(result => result.sequence === check.sequence);
+            return (
+              <TableRow key={check.sequence}>
+                <TableCell>{check.sequence}</TableCell>
+                <TableCell title={check.description}>{check.name}</TableCell>
+                <TableCell>{check.type === 'measurement' ? formatTolerance(check) : '-'}</TableCell>
+                <TableCell sx={{ minWidth: 120 }}>
+                  {check.type === 'measurement' ? (
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={input.measuredValue}
+                      onChange={(e) => setInput(check.sequence, { measuredValue: e.target.value })}
+                      placeholder={check.nominalValue !== undefined ? String(check.nominalValue) : undefined}
+                      disabled={!canRecord}
+                    />
+                  ) : (
+                    <TextField
+                      select
+                      size="small"
+                      fullWidth
+                      value={input.result}
+                      onChange={(e) => setInput(check.sequence, { result: e.target.value as CheckInput['result'] })}
+                      disabled={!canRecord}
+                    >
+                      <MenuItem value="pass">Pasa</MenuItem>
+                      <MenuItem value="fail">No pasa</MenuItem>
+                    </TextField>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    value={input.notes}
+                    onChange={(e) => setInput(check.sequence, { notes: e.target.value })}
+                    disabled={!canRecord}
+                  />
+                </TableCell>
+                {lastInspection && (
+                  <TableCell>
+                    {lastResult && (
+                      <Typography variant="body2" color={lastResult.passed ? 'success.main' : 'error.main'}>
+                        {lastResult.measuredValue !== undefined
+                          ? `${lastResult.measuredValue}${lastResult.unit ? ` ${lastResult.unit}` : ''}`
+                          : lastResult.passed ? 'Pasa' : 'No pasa'}
+                      </Typography>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      {canRecord && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 1 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Observaciones"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <Button variant="contained" onClick={handleRecord} disabled={!isComplete || saving} sx={{ whiteSpace: 'nowrap' }}>
+            Registrar inspección
+          </Button>
+        </Box>
+      )}
+      {status.inspections.length > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {status.inspections.length} inspección(es) registrada(s)
+          {lastInspection && ` · última por ${lastInspection.inspectedBy || '-'} el ${new Date(lastInspection.inspectedAt).toLocaleString('es-ES')}`}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default CardInspectionPanel;
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  PlayArrow as StartIcon,
+  CheckCircle as CompleteIcon,
+} from '@mui/icons-material';
+import type { OperationProgress, OperationStatus } from '../../services/api';
+
+interface CardOperationsListProps {
+  operations: OperationProgress[];
+  disabled: boolean;
+  onStart: (operationId: string) => void;
+  onComplete: (operationId: string) => void;
+}
+
+const statusLabels: Record<OperationStatus, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En curso',
+  completed: 'Completada',
+};
+
+const statusColors: Record<OperationStatus, 'default' | 'primary' | 'success'> = {
+  pending: 'default',
+  in_progress: 'primary',
+  completed: 'success',
+};
+
+const formatPlanned = (date?: string) =>
+  date ? new Date(date).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '-';
+
+// Operaciones de la ruta de fabricación de una tarjeta, en orden de ejecución
+const CardOperationsList: React.FC<CardOperationsListProps> = ({ operations, disabled, onStart, onComplete }) => {
+  // Una operación está disponible cuando las anteriores del mismo artículo están completadas
+  const canStart = (operation: OperationProgress) =>
+    operation.status === 'pending' &&
+    operations
+      .filter(op => op.itemId === operation.itemId && op.sequence < operation.sequence)
+      .every(op => op.status === 'completed');
+  const isScheduled = operations.some(op => op.plannedStart);
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
+        Ruta de fabricación
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Sec.</TableCell>
+            <TableCell>Operación</TableCell>
+            <TableCell>Artículo</TableCell>
+            <TableCell>Centro de trabajo</TableCell>
+            <TableCell align="right">Tiempo estándar</TableCell>
+            {isScheduled && <TableCell>Previsto</TableCell>}
+            <TableCell>Estado</TableCell>
+            <TableCell align="right" />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {operations.map(operation => (
+            <TableRow key={operation.operationId}>
+              <TableCell>{operation.sequence}</TableCell>
+              <TableCell>{operation.name}</TableCell>
+              <TableCell>{operation.itemName}</TableCell>
+              <TableCell>{operation.workCenterName}</TableCell>
+              <TableCell align="right">
+                {operation.plannedSetupMinutes + operation.plannedRunMinutes} min
+              </TableCell>
+              {isScheduled && (
+                <TableCell>
+                  {operation.status === 'completed'
+                    ? '-'
+                    : `${formatPlanned(operation.plannedStart)} → ${formatPlanned(operation.plannedFinish)}`}
+                </TableCell>
+              )}
+              <TableCell>
+                <Chip label={statusLabels[operation.status]} color={statusColors[operation.status]} size="small" />
+              </TableCell>
+              <TableCell align="right">
+                {operation.status === 'pending' && (
+                  <Button
+                    size="small"
+                    startIcon={<StartIcon />}
+                    onClick={() => onStart(operation.operationId)}
+                    disabled={disabled || !canStart(operation)}
+                  >
+                    Iniciar
+                  </Button>
+                )}
+                {operation.status === 'in_progress' && (
+                  <Button
+                    size="small"
+                    variant="contained"
+                    startIcon={<CompleteIcon />}
+                    onClick={() => onComplete(operation.operationId)}
+                    disabled={disabled}
+                  >
+                    Completar
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default CardOperationsList;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { productionCardApi, getApiErrorMessage } from '../../services/api';
+import type { CardTimeline as CardTimelineData, CardTimelineSegment } from '../../services/api';
+
+interface CardTimelineProps {
+  cardId: string;
+  refreshKey?: string;
+}
+
+const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const segmentLabel = (segment: CardTimelineSegment) =>
+  segment.kind === 'run'
+    ? 'Trabajo'
+    : segment.reasonCode ? `${segment.reasonCode} - ${segment.reasonName}` : 'Pausa sin motivo';
+
+// Tramos de trabajo y pausa del cronómetro de la tarjeta y de sus componentes
+const CardTimeline: React.FC<CardTimelineProps> = ({ cardId, refreshKey }) => {
+  const [timeline, setTimeline] = useState<CardTimelineData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    productionCardApi.getTimeline(cardId)
+      .then(setTimeline)
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar la línea de tiempo')))
+      .finally(() => setLoading(false));
+  }, [cardId, refreshKey]);
+
+  if (loading && !timeline) return <CircularProgress size={24} />;
+  if (error) return <Alert severity="error">{error}</Alert>;
+  if (!timeline || timeline.segments.length === 0) return null;
+
+  // La barra solo usa los tramos de la tarjeta; los de componentes se solapan con ellos
+  const cardSegments = timeline.segments.filter(segment => !segment.componentId);
+  const barMinutes = cardSegments.reduce((total, segment) => total + segment.minutes, 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+          Línea de tiempo
+        </Typography>
+        <Chip size="small" color="success" label={`Trabajo ${formatMinutes(timeline.runMinutes)}`} />
+        <Chip size="small" color="warning" label={`Pausa ${formatMinutes(timeline.pauseMinutes)}`} />
+      </Box>
+      {barMinutes > 0 && (
+        <Box sx={{ display: 'flex', height: 12, borderRadius: 1, overflow: 'hidden', mb: 1 }}>
+          {cardSegments.map((segment, index) => (
+            <Tooltip key={index} title={`${segmentLabel(segment)} · ${formatMinutes(segment.minutes)}`}>
+              <Box
+                sx={{
+                  width: `${(segment.minutes / barMinutes) * 100}%`,
+                  bgcolor: segment.kind === 'run' ? 'success.main' : 'warning.main',
+                }}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+      )}
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Tramo</TableCell>
+            <TableCell>Componente</TableCell>
+            <TableCell>Inicio</TableCell>
+            <TableCell>Fin</TableCell>
+            <TableCell align="right">Duración</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {timeline.segments.map((segment, index) => (
+            <TableRow key={index}>
+              <TableCell title={segment.notes}>
+                <Typography variant="body2" color={segment.kind === 'run' ? 'success.main' : 'warning.main'}>
+                  {segmentLabel(segment)}
+                </Typography>
+                {segment.workCenterName && (
+                  <Typography variant="caption" color="text.secondary">
+                    {segment.workCenterName}
+                  </Typography>
+                )}
+              </TableCell>
+              <TableCell>{segment.componentName || 'Tarjeta'}</TableCell>
+              <TableCell>{formatDateTime(segment.startTime)}</TableCell>
+              <TableCell>{segment.endTime ? formatDateTime(segment.endTime) : 'En curso'}</TableCell>
+              <TableCell align="right">{formatMinutes(segment.minutes)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default CardTimeline;
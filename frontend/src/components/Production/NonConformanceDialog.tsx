@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { nonConformanceApi, getApiErrorMessage } from '../../services/api';
+import type { DefectType } from '../../services/api';
+
+interface NonConformanceDialogProps {
+  open: boolean;
+  cardId: string;
+  cardLabel: string;
+  components: { componentId: string; componentName: string }[];
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const defectTypeLabels: Record<DefectType, string> = {
+  dimensional: 'Dimensional',
+  cosmetic: 'Estético',
+  functional: 'Funcional',
+  material: 'Material',
+  assembly: 'Montaje',
+  other: 'Otro',
+};
+
+// Registra una no conformidad sobre la unidad de una tarjeta; la disposición se decide en Calidad
+const NonConformanceDialog: React.FC<NonConformanceDialogProps> = ({ open, cardId, cardLabel, components, onClose, onCreated }) => {
+  const [defectType, setDefectType] = useState<DefectType>('functional');
+  const [description, setDescription] = useState('');
+  const [affected, setAffected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDefectType('functional');
+    setDescription('');
+    setAffected([]);
+    setError(null);
+  }, [open]);
+
+  const toggleComponent = (componentId: string) => {
+    setAffected(prev => (prev.includes(componentId) ? prev.filter(id => id !== componentId) : [...prev, componentId]));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await nonConformanceApi.create({ cardId, defectType, description, affectedComponentIds: affected });
+      onCreated();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al registrar la no conformidad'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>No conformidad - {cardLabel}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          select
+          fullWidth
+          label="Tipo de defecto"
+          value={defectType}
+          onChange={(e) => setDefectType(e.target.value as DefectType)}
+          margin="normal"
+        >
+          {(Object.keys(defectTypeLabels) as DefectType[]).map(type => (
+            <MenuItem key={type} value={type}>
+              {defectTypeLabels[type]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          fullWidth
+          multiline
+          minRows={3}
+          label="Descripción del defecto"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          margin="normal"
+          required
+        />
+        {components.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 2 }}>
+              Componentes afectados (sin selección = defecto del conjunto)
+            </Typography>
+            <FormGroup>
+              {components.map(component => (
+                <FormControlLabel
+                  key={component.componentId}
+                  control={
+                    <Checkbox
+                      checked={affected.includes(component.componentId)}
+                      onChange={() => toggleComponent(component.componentId)}
+                    />
+                  }
+                  label={component.componentName}
+                />
+              ))}
+            </FormGroup>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" color="error" onClick={handleSave} disabled={!description.trim() || saving}>
+          Registrar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default NonConformanceDialog;
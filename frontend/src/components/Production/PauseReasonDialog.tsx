@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { downtimeApi, getApiErrorMessage } from '../../services/api';
+import type { DowntimeReason } from '../../services/api';
+
+interface PauseReasonDialogProps {
+  open: boolean;
+  title: string;
+  onClose: () => void;
+  onConfirm: (reasonCode: string, notes?: string) => Promise<void>;
+}
+
+// Pide el motivo de parada antes de pausar una tarjeta o un componente
+const PauseReasonDialog: React.FC<PauseReasonDialogProps> = ({ open, title, onClose, onConfirm }) => {
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [reasonCode, setReasonCode] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReasonCode('');
+    setNotes('');
+    setError(null);
+    setLoading(true);
+    downtimeApi.getReasons({ isActive: true })
+      .then(setReasons)
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar los motivos de parada')))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleConfirm = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onConfirm(reasonCode, notes.trim() || undefined);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al pausar'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : (
+          <>
+            <TextField
+              select
+              fullWidth
+              label="Motivo de parada"
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value)}
+              margin="normal"
+              required
+            >
+              {reasons.map(reason => (
+                <MenuItem key={reason.id} value={reason.code}>
+                  {reason.code} - {reason.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Notas"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              margin="normal"
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" color="warning" onClick={handleConfirm} disabled={!reasonCode || saving}>
+          Pausar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PauseReasonDialog;
@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { inventoryApi, purchaseOrderApi, warehouseApi, getApiErrorMessage, formatPoNumber } from '../../services/api';
+import type { BinLocation, PurchaseOrder, Warehouse } from '../../services/api';
+
+interface GoodsReceiptDialogProps {
+  purchaseOrder: PurchaseOrder | null;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+interface ReceiptLineFormData {
+  itemId: string;
+  quantity: number;
+  isLotControlled: boolean;
+  lotNumber: string;
+  supplierLot: string;
+  expiryDate: string;
+}
+
+// Recepción (total o parcial) de las líneas pendientes de una orden de compra
+const GoodsReceiptDialog: React.FC<GoodsReceiptDialogProps> = ({ purchaseOrder, onClose, onReceived }) => {
+  const [lines, setLines] = useState<ReceiptLineFormData[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [bins, setBins] = useState<BinLocation[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [binId, setBinId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!purchaseOrder) return;
+    setError(null);
+    setWarehouseId('');
+    setBinId('');
+    setNotes('');
+
+    const pending = purchaseOrder.lines.filter(line => line.quantity - line.receivedQuantity > 0);
+    // Por defecto se recibe todo lo pendiente
+    setLines(pending.map(line => ({
+      itemId: line.itemId,
+      quantity: line.quantity - line.receivedQuantity,
+      isLotControlled: false,
+      lotNumber: '',
+      supplierLot: '',
+      expiryDate: '',
+    })));
+
+    Promise.all(pending.map(line => inventoryApi.getItem(line.itemId)))
+      .then(items => setLines(current => current.map(line => ({
+        ...line,
+        isLotControlled: Boolean(items.find(item => item.id === line.itemId)?.isLotControlled),
+      }))))
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar los artículos')));
+
+    warehouseApi.getAll({ isActive: true })
+      .then(setWarehouses)
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar los almacenes')));
+  }, [purchaseOrder]);
+
+  useEffect(() => {
+    if (!warehouseId) {
+      setBins([]);
+      return;
+    }
+    warehouseApi.getBins(warehouseId)
+      .then(data => setBins(data.filter(bin => bin.isActive)))
+      .catch(() => setBins([]));
+  }, [warehouseId]);
+
+  const handleLineChange = (index: number, field: keyof ReceiptLineFormData, value: string | number) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handleReceive = async () => {
+    if (!purchaseOrder) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await purchaseOrderApi.receive(purchaseOrder.id, {
+        warehouseId: warehouseId || undefined,
+        binId: binId || undefined,
+        notes: notes || undefined,
+        lines: lines
+          .filter(line => Number(line.quantity) > 0)
+          .map(line => ({
+            itemId: line.itemId,
+            quantity: Number(line.quantity),
+            lot: line.isLotControlled
+              ? {
+                  lotNumber: line.lotNumber || undefined,
+                  supplierLot: line.supplierLot || undefined,
+                  expiryDate: line.expiryDate || undefined,
+                }
+              : undefined,
+          })),
+      });
+      onReceived();
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al registrar la recepción'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasLotLines = lines.some(line => line.isLotControlled);
+
+  return (
+    <Dialog open={Boolean(purchaseOrder)} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Recibir mercancía{purchaseOrder ? ` · ${formatPoNumber(purchaseOrder.poNumber)} · ${purchaseOrder.supplierName}` : ''}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0, mb: 2 }}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              select
+              label="Almacén"
+              value={warehouseId}
+              onChange={(e) => {
+                setWarehouseId(e.target.value);
+                setBinId('');
+              }}
+              helperText="Vacío = ubicación principal de cada artículo"
+              fullWidth
+            >
+              <MenuItem value="">Automático</MenuItem>
+              {warehouses.map(warehouse => (
+                <MenuItem key={warehouse.id} value={warehouse.id}>
+                  {warehouse.code} · {warehouse.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              select
+              label="Ubicación"
+              value={binId}
+              onChange={(e) => setBinId(e.target.value)}
+              disabled={bins.length === 0}
+              fullWidth
+            >
+              <MenuItem value="">Sin ubicación</MenuItem>
+              {bins.map(bin => (
+                <MenuItem key={bin.id} value={bin.id}>
+                  {bin.code}{bin.description ? ` · ${bin.description}` : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              label="Notas"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Albarán del proveedor..."
+              fullWidth
+            />
+          </Grid>
+        </Grid>
+
+        {lines.length === 0 ? (
+          <Typography color="textSecondary">No quedan cantidades pendientes de recibir.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Artículo</TableCell>
+                <TableCell align="right">Pendiente</TableCell>
+                <TableCell width={130}>Recibido</TableCell>
+                {hasLotLines && (
+                  <>
+                    <TableCell>Lote</TableCell>
+                    <TableCell>Lote del proveedor</TableCell>
+                    <TableCell>Caducidad</TableCell>
+                  </>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {lines.map((line, index) => {
+                const orderLine = purchaseOrder?.lines.find(entry => entry.itemId === line.itemId);
+                const outstanding = orderLine ? orderLine.quantity - orderLine.receivedQuantity : 0;
+                return (
+                  <TableRow key={line.itemId}>
+                    <TableCell>
+                      {orderLine?.itemName}
+                      <Typography variant="caption" display="block" color="textSecondary">
+                        {orderLine?.itemSku}{orderLine?.supplierSku ? ` · Ref. proveedor ${orderLine.supplierSku}` : ''}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{outstanding} {orderLine?.unit}</TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={line.quantity}
+                        onChange={(e) => handleLineChange(index, 'quantity', Number(e.target.value))}
+                        inputProps={{ min: 0, max: outstanding, step: 0.01 }}
+                      />
+                    </TableCell>
+                    {hasLotLines && (line.isLotControlled ? (
+                      <>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            value={line.lotNumber}
+                            onChange={(e) => handleLineChange(index, 'lotNumber', e.target.value)}
+                            placeholder="Automático"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            value={line.supplierLot}
+                            onChange={(e) => handleLineChange(index, 'supplierLot', e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            type="date"
+                            size="small"
+                            value={line.expiryDate}
+                            onChange={(e) => handleLineChange(index, 'expiryDate', e.target.value)}
+                          />
+                        </TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={3} />
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancelar
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleReceive}
+          disabled={saving || !lines.some(line => Number(line.quantity) > 0)}
+        >
+          Registrar recepción
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default GoodsReceiptDialog;
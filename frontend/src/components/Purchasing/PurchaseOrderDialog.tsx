@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { inventoryApi, purchaseOrderApi, supplierApi, getApiErrorMessage, InventoryStatus } from '../../services/api';
+import type { InventoryItem, PurchaseOrder, Supplier } from '../../services/api';
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  purchaseOrder: PurchaseOrder | null; // null = nueva orden
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface LineFormData {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+const toInputDate = (value?: string): string => (value ? value.slice(0, 10) : '');
+
+// Alta y edición de una orden de compra en borrador
+const PurchaseOrderDialog: React.FC<PurchaseOrderDialogProps> = ({ open, purchaseOrder, onClose, onSaved }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineFormData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setSupplierId(purchaseOrder?.supplierId || '');
+    setExpectedDate(toInputDate(purchaseOrder?.expectedDate));
+    setNotes(purchaseOrder?.notes || '');
+    setLines((purchaseOrder?.lines || []).map(line => ({
+      itemId: line.itemId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+    })));
+
+    Promise.all([supplierApi.getAll(), inventoryApi.getAllItems({ status: InventoryStatus.ACTIVE })])
+      .then(([supplierData, itemData]) => {
+        setSuppliers(supplierData);
+        setItems(itemData);
+      })
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar proveedores y artículos')));
+  }, [open, purchaseOrder]);
+
+  // Primero los artículos que ya se compran a este proveedor
+  const sortedItems = [...items].sort((a, b) => {
+    const aLinked = a.suppliers?.some(line => line.supplierId === supplierId) ? 0 : 1;
+    const bLinked = b.suppliers?.some(line => line.supplierId === supplierId) ? 0 : 1;
+    return aLinked - bLinked || a.name.localeCompare(b.name);
+  });
+
+  const defaultPrice = (itemId: string): number => {
+    const item = items.find(entry => entry.id === itemId);
+    const conditions = item?.suppliers?.find(line => line.supplierId === supplierId);
+    return conditions?.unitPrice ?? item?.unitPrice ?? 0;
+  };
+
+  const defaultQuantity = (itemId: string): number => {
+    const item = items.find(entry => entry.id === itemId);
+    return item?.suppliers?.find(line => line.supplierId === supplierId)?.minimumOrderQuantity || 1;
+  };
+
+  const handleAddLine = () => {
+    const usedIds = new Set(lines.map(line => line.itemId));
+    const next = sortedItems.find(item => !usedIds.has(item.id));
+    if (!next) return;
+    setLines([...lines, { itemId: next.id, quantity: defaultQuantity(next.id), unitPrice: defaultPrice(next.id) }]);
+  };
+
+  const handleLineChange = (index: number, field: keyof LineFormData, value: string | number) => {
+    setLines(lines.map((line, i) => {
+      if (i !== index) return line;
+      if (field === 'itemId') {
+        const itemId = String(value);
+        return { itemId, quantity: defaultQuantity(itemId), unitPrice: defaultPrice(itemId) };
+      }
+      return { ...line, [field]: Number(value) };
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const request = {
+        supplierId,
+        expectedDate: expectedDate || undefined,
+        notes,
+        lines,
+      };
+      if (purchaseOrder) {
+        await purchaseOrderApi.update(purchaseOrder.id, request);
+      } else {
+        await purchaseOrderApi.create(request);
+      }
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al guardar la orden de compra'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const supplier = suppliers.find(entry => entry.id === supplierId);
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{purchaseOrder ? 'Editar Orden de Compra' : 'Nueva Orden de Compra'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} md={6}>
+            <TextField
+              select
+              label="Proveedor"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              required
+              fullWidth
+            >
+              {suppliers
+                .filter(entry => entry.isActive || entry.id === supplierId)
+                .map(entry => (
+                  <MenuItem key={entry.id} value={entry.id}>
+                    {entry.code} - {entry.name}
+                  </MenuItem>
+                ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              label="Fecha prevista"
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText={!expectedDate && supplier?.leadTimeDays ? `Por defecto, hoy + ${supplier.leadTimeDays} días` : undefined}
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              label="Notas"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 3, mb: 1 }}>
+          <Typography variant="subtitle1">Líneas</Typography>
+          <Button size="small" startIcon={<AddIcon />} onClick={handleAddLine} disabled={!supplierId}>
+            Agregar línea
+          </Button>
+        </Box>
+
+        {lines.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Artículo</TableCell>
+                <TableCell width={120}>Cantidad</TableCell>
+                <TableCell width={140}>Precio</TableCell>
+                <TableCell width={120} align="right">Importe</TableCell>
+                <TableCell width={50} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {lines.map((line, index) => {
+                const item = items.find(entry => entry.id === line.itemId);
+                return (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <TextField
+                        select
+                        size="small"
+                        value={line.itemId}
+                        onChange={(e) => handleLineChange(index, 'itemId', e.target.value)}
+                        fullWidth
+                      >
+                        {sortedItems
+                          .filter(entry => entry.id === line.itemId || !lines.some(other => other.itemId === entry.id))
+                          .map(entry => (
+                            <MenuItem key={entry.id} value={entry.id}>
+                              {entry.sku} - {entry.name}
+                            </MenuItem>
+                          ))}
+                      </TextField>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={line.quantity}
+                        onChange={(e) => handleLineChange(index, 'quantity', e.target.value)}
+                        inputProps={{ min: 0, step: 0.01 }}
+                        helperText={item?.unit}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={line.unitPrice}
+                        onChange={(e) => handleLineChange(index, 'unitPrice', e.target.value)}
+                        inputProps={{ min: 0, step: 0.01 }}
+                        helperText={supplier?.currency}
+                      />
+                    </TableCell>
+                    <TableCell align="right">{(line.quantity * line.unitPrice).toFixed(2)}</TableCell>
+                    <TableCell>
+                      <IconButton size="small" color="error" onClick={() => setLines(lines.filter((_, i) => i !== index))}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              <TableRow>
+                <TableCell colSpan={3} align="right"><strong>Total</strong></TableCell>
+                <TableCell align="right">
+                  <strong>{total.toFixed(2)} {supplier?.currency}</strong>
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancelar
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || !supplierId}>
+          Guardar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PurchaseOrderDialog;
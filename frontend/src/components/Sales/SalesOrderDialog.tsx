@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { inventoryApi, salesOrderApi, customerApi, getApiErrorMessage, InventoryStatus, InventoryType } from '../../services/api';
+import type { Customer, InventoryItem, SalesOrder } from '../../services/api';
+
+interface SalesOrderDialogProps {
+  open: boolean;
+  salesOrder: SalesOrder | null; // null = nuevo pedido
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface LineFormData {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+  dueDate: string;
+}
+
+const toInputDate = (value?: string): string => (value ? value.slice(0, 10) : '');
+
+// Alta y edición de un pedido de venta en borrador (solo modelos)
+const SalesOrderDialog: React.FC<SalesOrderDialogProps> = ({ open, salesOrder, onClose, onSaved }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [models, setModels] = useState<InventoryItem[]>([]);
+  const [customerId, setCustomerId] = useState('');
+  const [customerReference, setCustomerReference] = useState('');
+  const [requestedDate, setRequestedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineFormData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setCustomerId(salesOrder?.customerId || '');
+    setCustomerReference(salesOrder?.customerReference || '');
+    setRequestedDate(toInputDate(salesOrder?.requestedDate));
+    setNotes(salesOrder?.notes || '');
+    setLines((salesOrder?.lines || []).map(line => ({
+      itemId: line.itemId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      dueDate: toInputDate(line.dueDate),
+    })));
+
+    Promise.all([
+      customerApi.getAll(),
+      inventoryApi.getAllItems({ type: InventoryType.MODEL, status: InventoryStatus.ACTIVE }),
+    ])
+      .then(([customerData, modelData]) => {
+        setCustomers(customerData);
+        setModels(modelData);
+      })
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar clientes y modelos')));
+  }, [open, salesOrder]);
+
+  const defaultPrice = (itemId: string): number => models.find(entry => entry.id === itemId)?.unitPrice ?? 0;
+
+  const handleAddLine = () => {
+    const usedIds = new Set(lines.map(line => line.itemId));
+    const next = models.find(item => !usedIds.has(item.id));
+    if (!next) return;
+    setLines([...lines, { itemId: next.id, quantity: 1, unitPrice: defaultPrice(next.id), dueDate: '' }]);
+  };
+
+  const handleLineChange = (index: number, field: keyof LineFormData, value: string | number) => {
+    setLines(lines.map((line, i) => {
+      if (i !== index) return line;
+      if (field === 'itemId') {
+        const itemId = String(value);
+        return { ...line, itemId, unitPrice: defaultPrice(itemId) };
+      }
+      if (field === 'dueDate') {
+        return { ...line, dueDate: String(value) };
+      }
+      return { ...line, [field]: Number(value) };
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const request = {
+        customerId,
+        customerReference,
+        requestedDate,
+        notes,
+        lines: lines.map(line => ({
+          itemId: line.itemId,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          dueDate: line.dueDate || undefined,
+        })),
+      };
+      if (salesOrder) {
+        await salesOrderApi.update(salesOrder.id, request);
+      } else {
+        await salesOrderApi.create(request);
+      }
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al guardar el pedido de venta'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{salesOrder ? 'Editar Pedido de Venta' : 'Nuevo Pedido de Venta'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} md={6}>
+            <TextField
+              select
+              label="Cliente"
+              value={customerId}
+              onChange={(e) => setCustomerId(e.target.value)}
+              required
+              fullWidth
+            >
+              {customers
+                .filter(entry => entry.isActive || entry.id === customerId)
+                .map(entry => (
+                  <MenuItem key={entry.id} value={entry.id}>
+                    {entry.code} - {entry.name}
+                  </MenuItem>
+                ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              label="Fecha de entrega"
+              type="date"
+              value={requestedDate}
+              onChange={(e) => setRequestedDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              required
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              label="Referencia del cliente"
+              value={customerReference}
+              onChange={(e) => setCustomerReference(e.target.value)}
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              label="Notas"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 3, mb: 1 }}>
+          <Typography variant="subtitle1">Líneas</Typography>
+          <Button size="small" startIcon={<AddIcon />} onClick={handleAddLine} disabled={!customerId}>
+            Agregar línea
+          </Button>
+        </Box>
+
+        {lines.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Modelo</TableCell>
+                <TableCell width={100}>Cantidad</TableCell>
+                <TableCell width={120}>Precio</TableCell>
+                <TableCell width={160}>Entrega de la línea</TableCell>
+                <TableCell width={100} align="right">Importe</TableCell>
+                <TableCell width={50} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {lines.map((line, index) => {
+                const model = models.find(entry => entry.id === line.itemId);
+                return (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <TextField
+                        select
+                        size="small"
+                        value={line.itemId}
+                        onChange={(e) => handleLineChange(index, 'itemId', e.target.value)}
+                        fullWidth
+                      >
+                        {models
+                          .filter(entry => entry.id === line.itemId || !lines.some(other => other.itemId === entry.id))
+                          .map(entry => (
+                            <MenuItem key={entry.id} value={entry.id}>
+                              {entry.sku} - {entry.name}
+                            </MenuItem>
+                          ))}
+                      </TextField>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={line.quantity}
+                        onChange={(e) => handleLineChange(index, 'quantity', e.target.value)}
+                        inputProps={{ min: 1, step: 1 }}
+                        helperText={model?.unit}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={line.unitPrice}
+                        onChange={(e) => handleLineChange(index, 'unitPrice', e.target.value)}
+                        inputProps={{ min: 0, step: 0.01 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="date"
+                        size="small"
+                        value={line.dueDate}
+                        onChange={(e) => handleLineChange(index, 'dueDate', e.target.value)}
+                        helperText={line.dueDate ? undefined : 'La del pedido'}
+                      />
+                    </TableCell>
+                    <TableCell align="right">{(line.quantity * line.unitPrice).toFixed(2)}</TableCell>
+                    <TableCell>
+                      <IconButton size="small" color="error" onClick={() => setLines(lines.filter((_, i) => i !== index))}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              <TableRow>
+                <TableCell colSpan={4} align="right"><strong>Total</strong></TableCell>
+                <TableCell align="right">
+                  <strong>{total.toFixed(2)}</strong>
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancelar
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || !customerId || !requestedDate}>
+          Guardar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SalesOrderDialog;
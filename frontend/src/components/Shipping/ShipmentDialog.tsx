@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  manufacturingOrderApi,
+  salesOrderApi,
+  shipmentApi,
+  getApiErrorMessage,
+  formatSoNumber,
+  formatShipmentNumber,
+} from '../../services/api';
+import type { SalesOrder, Shipment, ShipmentSource, ShippableLine } from '../../services/api';
+
+interface ShipmentDialogProps {
+  open: boolean;
+  shipment: Shipment | null; // null = nuevo envío
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface ManufacturingOrderOption {
+  id: string;
+  modelName: string;
+  modelSku: string;
+  quantity: number;
+  clientName: string;
+}
+
+interface LineFormData {
+  itemId: string;
+  quantity: number;
+  serialNumbers: string[];
+}
+
+// Preparación de un envío: origen, cantidades y unidades serializadas elegidas
+const ShipmentDialog: React.FC<ShipmentDialogProps> = ({ open, shipment, onClose, onSaved }) => {
+  const [sourceType, setSourceType] = useState<ShipmentSource>('sales_order');
+  const [sourceId, setSourceId] = useState('');
+  const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
+  const [manufacturingOrders, setManufacturingOrders] = useState<ManufacturingOrderOption[]>([]);
+  const [shippable, setShippable] = useState<ShippableLine[]>([]);
+  const [lines, setLines] = useState<LineFormData[]>([]);
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setSourceType(shipment?.sourceType || 'sales_order');
+    setSourceId(shipment?.salesOrderId || shipment?.manufacturingOrderId || '');
+    setDeliveryAddress(shipment?.deliveryAddress || '');
+    setCarrier(shipment?.carrier || '');
+    setTrackingNumber(shipment?.trackingNumber || '');
+    setNotes(shipment?.notes || '');
+    if (shipment) return;
+
+    // Solo pedidos confirmados y órdenes sin pedido de venta (las de un pedido se envían desde el pedido)
+    Promise.all([
+      salesOrderApi.getAll({ status: 'confirmed' }),
+      manufacturingOrderApi.getAllOrders(),
+    ])
+      .then(([salesOrderData, orderData]) => {
+        setSalesOrders(salesOrderData);
+        setManufacturingOrders(orderData.filter(order =>
+          !order.salesOrderId && (order.status === 'in_progress' || order.status === 'completed')
+        ));
+      })
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar los pedidos y las órdenes')));
+  }, [open, shipment]);
+
+  useEffect(() => {
+    if (!open || !sourceId) {
+      setShippable([]);
+      setLines([]);
+      return;
+    }
+
+    const source = sourceType === 'sales_order' ? { salesOrderId: sourceId } : { manufacturingOrderId: sourceId };
+    shipmentApi.getShippable(source)
+      .then(data => {
+        setShippable(data);
+        // Al editar se parte de las líneas del borrador; en un envío nuevo, de todo lo que se puede enviar
+        setLines(data.map(line => {
+          const current = shipment?.lines.find(entry => entry.itemId === line.itemId);
+          return current
+            ? { itemId: line.itemId, quantity: current.quantity, serialNumbers: current.serials.map(serial => serial.serialNumber) }
+            : { itemId: line.itemId, quantity: shipment ? 0 : line.shippableQuantity, serialNumbers: [] };
+        }));
+      })
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar lo que se puede enviar')));
+  }, [open, sourceType, sourceId, shipment]);
+
+  const handleSourceTypeChange = (value: ShipmentSource) => {
+    setSourceType(value);
+    setSourceId('');
+  };
+
+  const handleQuantityChange = (index: number, value: string) => {
+    const quantity = Math.max(0, Math.floor(Number(value) || 0));
+    setLines(lines.map((line, i) => (i === index
+      ? { ...line, quantity, serialNumbers: line.serialNumbers.slice(0, quantity) }
+      : line)));
+  };
+
+  const handleSerialsChange = (index: number, serialNumbers: string[]) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, serialNumbers } : line)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const details = {
+        lines: lines
+          .filter(line => line.quantity > 0)
+          .map(line => ({ itemId: line.itemId, quantity: line.quantity, serialNumbers: line.serialNumbers })),
+        // Vacía, el servidor usa la dirección del cliente
+        deliveryAddress: deliveryAddress || undefined,
+        carrier,
+        trackingNumber,
+        notes,
+      };
+      if (shipment) {
+        await shipmentApi.update(shipment.id, details);
+      } else {
+        await shipmentApi.create({
+          ...details,
+          ...(sourceType === 'sales_order' ? { salesOrderId: sourceId } : { manufacturingOrderId: sourceId }),
+        });
+      }
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al guardar el envío'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasQuantities = lines.some(line => line.quantity > 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {shipment ? `Editar Envío ${formatShipmentNumber(shipment.shipmentNumber)}` : 'Nuevo Envío'}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          {shipment ? (
+            <Grid item xs={12}>
+              <Typography variant="body2" color="textSecondary">
+                {shipment.soNumber ? `Pedido ${formatSoNumber(shipment.soNumber)} · ` : 'Orden de fabricación · '}
+                {shipment.customerName}
+              </Typography>
+            </Grid>
+          ) : (
+            <>
+              <Grid item xs={12} md={4}>
+                <TextField
+                  select
+                  label="Origen"
+                  value={sourceType}
+                  onChange={(e) => handleSourceTypeChange(e.target.value as ShipmentSource)}
+                  fullWidth
+                >
+                  <MenuItem value="sales_order">Pedido de venta</MenuItem>
+                  <MenuItem value="manufacturing_order">Orden de fabricación</MenuItem>
+                </TextField>
+              </Grid>
+              <Grid item xs={12} md={8}>
+                <TextField
+                  select
+                  label={sourceType === 'sales_order' ? 'Pedido de venta' : 'Orden de fabricación'}
+                  value={sourceId}
+                  onChange={(e) => setSourceId(e.target.value)}
+                  required
+                  fullWidth
+                >
+                  {sourceType === 'sales_order'
+                    ? salesOrders.map(entry => (
+                      <MenuItem key={entry.id} value={entry.id}>
+                        {formatSoNumber(entry.soNumber)} - {entry.customerName}
+                      </MenuItem>
+                    ))
+                    : manufacturingOrders.map(entry => (
+                      <MenuItem key={entry.id} value={entry.id}>
+                        {entry.modelSku} x{entry.quantity} - {entry.clientName}
+                      </MenuItem>
+                    ))}
+                </TextField>
+              </Grid>
+            </>
+          )}
+          <Grid item xs={12}>
+            <TextField
+              label="Dirección de entrega"
+              value={deliveryAddress}
+              onChange={(e) => setDeliveryAddress(e.target.value)}
+              helperText={shipment ? undefined : 'Vacía, se usa la dirección del cliente'}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              label="Transportista"
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              label="Nº de seguimiento"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              label="Observaciones"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Grid>
+        </Grid>
+
+        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+          Líneas
+        </Typography>
+        {sourceId && shippable.length === 0 && (
+          <Alert severity="info">No hay unidades terminadas pendientes de enviar</Alert>
+        )}
+        {shippable.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Modelo</TableCell>
+                <TableCell align="right">Disponible</TableCell>
+                <TableCell width={110}>Cantidad</TableCell>
+                <TableCell width={320}>Números de serie</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shippable.map((entry, index) => {
+                const line = lines[index];
+                if (!line) return null;
+                return (
+                  <TableRow key={entry.itemId}>
+                    <TableCell>
+                      {entry.itemSku} - {entry.itemName}
+                    </TableCell>
+                    <TableCell align="right">
+                      {entry.shippableQuantity} {entry.unit}
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={line.quantity}
+                        onChange={(e) => handleQuantityChange(index, e.target.value)}
+                        inputProps={{ min: 0, max: entry.shippableQuantity, step: 1 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Autocomplete
+                        multiple
+                        size="small"
+                        options={entry.availableSerials.map(serial => serial.serialNumber)}
+                        value={line.serialNumbers}
+                        onChange={(_, value) => handleSerialsChange(index, value)}
+                        getOptionDisabled={(option) =>
+                          line.serialNumbers.length >= line.quantity && !line.serialNumbers.includes(option)
+                        }
+                        disabled={line.quantity === 0 || entry.availableSerials.length === 0}
+                        renderInput={(params) => (
+                          <TextField
+                            {...params}
+                            placeholder={entry.availableSerials.length === 0 ? 'Sin unidades serializadas' : 'Elegir unidades'}
+                            helperText={`${line.serialNumbers.length}/${line.quantity} elegidas · el resto se asigna al enviar, las más antiguas primero`}
+                          />
+                        )}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancelar
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || !sourceId || !hasQuantities}>
+          Guardar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShipmentDialog;
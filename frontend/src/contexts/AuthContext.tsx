@@ -0,0 +1,64 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { authApi } from '../services/api';
+import type { User, UserRole } from '../services/api';
+import { AuthContext } from '../hooks/useAuth';
+import type { AuthContextValue } from '../hooks/useAuth';
+import { getAuthToken, setAuthToken, clearAuthToken, AUTH_EXPIRED_EVENT } from '../services/authStorage';
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(() => !!getAuthToken());
+
+  // Recuperar la sesión guardada al recargar la página
+  useEffect(() => {
+    if (!getAuthToken()) return;
+
+    authApi.getCurrentUser()
+      .then(setUser)
+      .catch(() => {
+        clearAuthToken();
+        setUser(null);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const session = await authApi.login(username, password);
+    setAuthToken(session.token);
+    setUser(session.user);
+  }, []);
+
+  const logout = useCallback(() => {
+    clearAuthToken();
+    setUser(null);
+  }, []);
+
+  const hasRole = useCallback(
+    (...roles: UserRole[]) => !!user && (user.role === 'admin' || roles.includes(user.role)),
+    [user]
+  );
+
+  const value: AuthContextValue = {
+    user,
+    loading,
+    login,
+    logout,
+    hasRole,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
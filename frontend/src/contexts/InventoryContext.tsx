@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useReducer, useCallback } from 'react';
+import { getAuthHeaders } from '../services/authStorage';
 
 // Define types locally to avoid import issues
 export enum InventoryType {
@@ -20,17 +21,26 @@ export interface InventoryItem {
   type: InventoryType;
   sku: string;
   quantity: number;
+  reserved?: number; // reservado para órdenes de fabricación
+  onHand?: number;
+  available?: number; // quantity - reserved
   unit: string;
   unitPrice: number;
   status: InventoryStatus;
   minimumStock: number;
   maximumStock: number;
   location: string;
-  supplier?: string;
+  supplier?: string; // nombre del proveedor preferente (solo lectura)
+  suppliers?: Array<{ supplierId: string; supplierSku?: string; unitPrice?: number; minimumOrderQuantity?: number; isPreferred?: boolean }>;
   // Campos para fabricación (solo para modelos)
   estimatedManufacturingTime?: number; // tiempo estimado en horas
   components?: string[]; // IDs de componentes necesarios
+  componentLines?: Array<{ componentId: string; quantity: number }>; // componentes con cantidad por unidad
+  routing?: Array<{ sequence: number; name: string; workCenterId: string; setupMinutes: number; runMinutesPerUnit: number; description?: string }>; // ruta de fabricación
   canManufacture?: boolean; // si este item se puede fabricar
+  serialPattern?: string; // patrón del número de serie de las unidades terminadas
+  isLotControlled?: boolean; // materiales con lote y caducidad
+  lotPickingPolicy?: 'fefo' | 'fifo';
   createdAt: string;
   updatedAt: string;
 }
@@ -39,7 +49,9 @@ export interface InventoryFilters {
   type?: InventoryType;
   status?: InventoryStatus;
   location?: string;
+  warehouseId?: string;
   supplier?: string;
+  supplierId?: string;
   lowStock?: boolean;
   search?: string;
 }
@@ -47,6 +59,8 @@ export interface InventoryFilters {
 export interface InventoryStats {
   totalItems: number;
   totalValue: number;
+  reservedValue?: number;
+  availableValue?: number;
   lowStockCount: number;
   byType: Record<InventoryType, number>;
   byStatus: Record<InventoryStatus, number>;
@@ -120,13 +134,13 @@ const API_BASE_URL = 'http://localhost:3001/api';
 
 const api = {
   get: async (url: string) => {
-    const response = await fetch(`${API_BASE_URL}${url}`);
+    const response = await fetch(`${API_BASE_URL}${url}`, { headers: getAuthHeaders() });
     return response.json();
   },
   post: async (url: string, data: any) => {
     const response = await fetch(`${API_BASE_URL}${url}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data)
     });
     return response.json();
@@ -134,14 +148,15 @@ const api = {
   put: async (url: string, data: any) => {
     const response = await fetch(`${API_BASE_URL}${url}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data)
     });
     return response.json();
   },
   delete: async (url: string) => {
     const response = await fetch(`${API_BASE_URL}${url}`, {
-      method: 'DELETE'
+      method: 'DELETE',
+      headers: getAuthHeaders()
     });
     return response.json();
   }
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { User, UserRole } from '../services/api';
+
+export interface AuthContextValue {
+  user: User | null;
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+  // El administrador tiene todos los permisos
+  hasRole: (...roles: UserRole[]) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,338 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+  Grid,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+} from '@mui/icons-material';
+import { customerApi, getApiErrorMessage } from '../services/api';
+import type { Customer } from '../services/api';
+
+interface CustomerFormData {
+  code: string;
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  taxId: string;
+  paymentTerms: string;
+  notes: string;
+  isActive: boolean;
+}
+
+const emptyForm: CustomerFormData = {
+  code: '',
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  taxId: '',
+  paymentTerms: '',
+  notes: '',
+  isActive: true,
+};
+
+const Customers: React.FC = () => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CustomerFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchCustomers = useCallback(async (searchText?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setCustomers(await customerApi.getAll({ search: searchText || undefined }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los clientes'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (customer: Customer) => {
+    setEditingId(customer.id);
+    setFormData({
+      code: customer.code,
+      name: customer.name,
+      contactName: customer.contactName || '',
+      email: customer.email || '',
+      phone: customer.phone || '',
+      address: customer.address || '',
+      taxId: customer.taxId || '',
+      paymentTerms: customer.paymentTerms || '',
+      notes: customer.notes || '',
+      isActive: customer.isActive,
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setFormError(null);
+      if (editingId) {
+        await customerApi.update(editingId, formData);
+      } else {
+        await customerApi.create(formData);
+      }
+      setDialogOpen(false);
+      await fetchCustomers(search);
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar el cliente'));
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`¿Eliminar el cliente ${customer.code}?`)) {
+      return;
+    }
+
+    try {
+      await customerApi.delete(customer.id);
+      await fetchCustomers(search);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el cliente'));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Clientes</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Nuevo Cliente
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Buscar"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchCustomers(search)}
+            size="small"
+            fullWidth
+          />
+          <Button variant="outlined" onClick={() => fetchCustomers(search)}>
+            Buscar
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Código</TableCell>
+              <TableCell>Nombre</TableCell>
+              <TableCell>Contacto</TableCell>
+              <TableCell>Condiciones de pago</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {customers.map(customer => (
+              <TableRow key={customer.id}>
+                <TableCell>{customer.code}</TableCell>
+                <TableCell>{customer.name}</TableCell>
+                <TableCell>
+                  {customer.contactName || '-'}
+                  {(customer.email || customer.phone) && (
+                    <Typography variant="caption" display="block" color="textSecondary">
+                      {[customer.email, customer.phone].filter(Boolean).join(' · ')}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{customer.paymentTerms || '-'}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={customer.isActive ? 'Activo' : 'Inactivo'}
+                    color={customer.isActive ? 'success' : 'default'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" onClick={() => openEdit(customer)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(customer)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && customers.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  No hay clientes registrados
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editingId ? 'Editar Cliente' : 'Nuevo Cliente'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Código"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                required
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={8}>
+              <TextField
+                label="Nombre"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Persona de contacto"
+                value={formData.contactName}
+                onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Teléfono"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={8}>
+              <TextField
+                label="Dirección"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="NIF / CIF"
+                value={formData.taxId}
+                onChange={(e) => setFormData({ ...formData, taxId: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Condiciones de pago"
+                value={formData.paymentTerms}
+                onChange={(e) => setFormData({ ...formData, paymentTerms: e.target.value })}
+                placeholder="30 días fecha factura"
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Notas"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                multiline
+                rows={2}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                }
+                label="Activo"
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+    </Box>
+  );
+};
+
+export default Customers;
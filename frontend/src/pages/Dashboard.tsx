@@ -100,6 +100,11 @@ const Dashboard: React.FC = () => {
                   <Typography variant="h4" color="success.main">
                     {formatCurrency(stats.totalValue)}
                   </Typography>
+                  {!!stats.reservedValue && (
+                    <Typography variant="body2" color="text.secondary">
+                      Reservado: {formatCurrency(stats.reservedValue)}
+                    </Typography>
+                  )}
                 </CardContent>
               </Card>
             </Grid>
@@ -0,0 +1,419 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Grid,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Alert,
+  LinearProgress,
+  Chip,
+  IconButton,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { downtimeApi, getApiErrorMessage } from '../services/api';
+import type { DowntimeCategory, DowntimeParetoLine, DowntimeReason, DowntimeReport } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+
+const categoryLabels: Record<DowntimeCategory, string> = {
+  planned: 'Planificada',
+  material: 'Material',
+  equipment: 'Equipo',
+  quality: 'Calidad',
+  labor: 'Personal',
+  other: 'Otra',
+};
+
+interface ReasonFormData {
+  code: string;
+  name: string;
+  category: DowntimeCategory;
+  description: string;
+  isActive: boolean;
+}
+
+const emptyForm: ReasonFormData = {
+  code: '',
+  name: '',
+  category: 'other',
+  description: '',
+  isActive: true,
+};
+
+const toInputDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Pareto: barras de mayor a menor con el porcentaje acumulado
+const ParetoTable: React.FC<{ title: string; labelHeader: string; lines: DowntimeParetoLine[] }> = ({ title, labelHeader, lines }) => (
+  <Paper sx={{ p: 2, height: '100%' }}>
+    <Typography variant="h6" gutterBottom>
+      {title}
+    </Typography>
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{labelHeader}</TableCell>
+            <TableCell align="right">Paradas</TableCell>
+            <TableCell align="right">Horas</TableCell>
+            <TableCell sx={{ width: '35%' }}>%</TableCell>
+            <TableCell align="right">Acum.</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {lines.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} align="center">
+                <Typography variant="body2" color="text.secondary">Sin paradas en el periodo</Typography>
+              </TableCell>
+            </TableRow>
+          )}
+          {lines.map(line => (
+            <TableRow key={line.key}>
+              <TableCell>{line.label}</TableCell>
+              <TableCell align="right">{line.occurrences}</TableCell>
+              <TableCell align="right">{line.hours.toFixed(2)}</TableCell>
+              <TableCell>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <LinearProgress
+                    variant="determinate"
+                    value={line.percentage}
+                    color={line.cumulativePercentage - line.percentage < 80 ? 'error' : 'primary'}
+                    sx={{ flex: 1, height: 8, borderRadius: 4 }}
+                  />
+                  <Typography variant="body2" sx={{ minWidth: 40 }}>{line.percentage}%</Typography>
+                </Box>
+              </TableCell>
+              <TableCell align="right">{line.cumulativePercentage}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  </Paper>
+);
+
+const DowntimeAnalysis: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('planner');
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 30);
+    return toInputDate(date);
+  });
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+  const [report, setReport] = useState<DowntimeReport | null>(null);
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ReasonFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // El día final se incluye completo
+      const end = new Date(`${to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      setReport(await downtimeApi.getPareto({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: end.toISOString(),
+      }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar el análisis de paradas'));
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  const fetchReasons = useCallback(async () => {
+    try {
+      setReasons(await downtimeApi.getReasons());
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los motivos de parada'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  useEffect(() => {
+    fetchReasons();
+  }, [fetchReasons]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (reason: DowntimeReason) => {
+    setEditingId(reason.id);
+    setFormData({
+      code: reason.code,
+      name: reason.name,
+      category: reason.category,
+      description: reason.description || '',
+      isActive: reason.isActive,
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setFormError(null);
+      if (editingId) {
+        await downtimeApi.updateReason(editingId, formData);
+      } else {
+        await downtimeApi.createReason(formData);
+      }
+      setDialogOpen(false);
+      await fetchReasons();
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar el motivo de parada'));
+    }
+  };
+
+  const handleDelete = async (reason: DowntimeReason) => {
+    if (!window.confirm(`¿Eliminar el motivo ${reason.code}? Las pausas ya registradas lo conservan.`)) {
+      return;
+    }
+
+    try {
+      await downtimeApi.deleteReason(reason.id);
+      await fetchReasons();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el motivo de parada'));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Paradas</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            label="Desde"
+            type="date"
+            size="small"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="Hasta"
+            type="date"
+            size="small"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchReport}>
+            Actualizar
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {report && (
+        <>
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={4}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Horas paradas</Typography>
+                  <Typography variant="h4">{report.totalHours.toFixed(1)}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Paradas</Typography>
+                  <Typography variant="h4">{report.occurrences}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Pausas en curso</Typography>
+                  <Typography variant="h4">{report.openPauses}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={6}>
+              <ParetoTable title="Por motivo" labelHeader="Motivo" lines={report.byReason} />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <ParetoTable title="Por categoría" labelHeader="Categoría" lines={report.byCategory} />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <ParetoTable title="Por modelo" labelHeader="Modelo" lines={report.byModel} />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <ParetoTable title="Por centro de trabajo" labelHeader="Centro" lines={report.byWorkCenter} />
+            </Grid>
+          </Grid>
+        </>
+      )}
+
+      <Paper sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Motivos de parada</Typography>
+          {canEdit && (
+            <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={openCreate}>
+              Nuevo Motivo
+            </Button>
+          )}
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Código</TableCell>
+                <TableCell>Nombre</TableCell>
+                <TableCell>Categoría</TableCell>
+                <TableCell>Descripción</TableCell>
+                <TableCell>Estado</TableCell>
+                {canEdit && <TableCell align="right">Acciones</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {reasons.map(reason => (
+                <TableRow key={reason.id}>
+                  <TableCell>{reason.code}</TableCell>
+                  <TableCell>{reason.name}</TableCell>
+                  <TableCell>{categoryLabels[reason.category]}</TableCell>
+                  <TableCell>{reason.description || '-'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={reason.isActive ? 'Activo' : 'Inactivo'}
+                      color={reason.isActive ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell align="right">
+                      <IconButton size="small" onClick={() => openEdit(reason)}>
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton size="small" color="error" onClick={() => handleDelete(reason)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingId ? 'Editar Motivo de Parada' : 'Nuevo Motivo de Parada'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Código"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Nombre"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              select
+              label="Categoría"
+              value={formData.category}
+              onChange={(e) => setFormData({ ...formData, category: e.target.value as DowntimeCategory })}
+              fullWidth
+            >
+              {(Object.keys(categoryLabels) as DowntimeCategory[]).map(category => (
+                <MenuItem key={category} value={category}>
+                  {categoryLabels[category]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Descripción"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              multiline
+              rows={2}
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+              }
+              label="Activo"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default DowntimeAnalysis;
@@ -0,0 +1,350 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Grid,
+  IconButton,
+  TextField,
+  Alert,
+  LinearProgress,
+  Divider,
+  Stack,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { factoryCalendarApi, getApiErrorMessage } from '../services/api';
+import type {
+  CalendarHoliday,
+  PlantClosure,
+  ShiftDefinition,
+  WeekdaySchedule,
+} from '../services/api';
+
+// Lunes primero, como en el calendario laboral
+const WEEKDAYS: { weekday: number; label: string }[] = [
+  { weekday: 1, label: 'Lunes' },
+  { weekday: 2, label: 'Martes' },
+  { weekday: 3, label: 'Miércoles' },
+  { weekday: 4, label: 'Jueves' },
+  { weekday: 5, label: 'Viernes' },
+  { weekday: 6, label: 'Sábado' },
+  { weekday: 0, label: 'Domingo' },
+];
+
+const newShift = (): ShiftDefinition => ({ name: 'Turno', startTime: '08:00', endTime: '16:00' });
+
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const getShiftHours = (shift: ShiftDefinition): number => {
+  let minutes = timeToMinutes(shift.endTime) - timeToMinutes(shift.startTime);
+  if (minutes <= 0) minutes += 24 * 60;
+  return minutes / 60;
+};
+
+const FactoryCalendar: React.FC = () => {
+  const [name, setName] = useState('');
+  const [timezone, setTimezone] = useState('');
+  const [weekdays, setWeekdays] = useState<WeekdaySchedule[]>([]);
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([]);
+  const [closures, setClosures] = useState<PlantClosure[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const calendar = await factoryCalendarApi.get();
+      setName(calendar.name);
+      setTimezone(calendar.timezone);
+      setWeekdays(calendar.weekdays);
+      setHolidays(calendar.holidays);
+      setClosures(calendar.closures);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar el calendario de fábrica'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const getShifts = (weekday: number): ShiftDefinition[] =>
+    weekdays.find(schedule => schedule.weekday === weekday)?.shifts || [];
+
+  const setShifts = (weekday: number, shifts: ShiftDefinition[]) => {
+    setWeekdays(prev => [
+      ...prev.filter(schedule => schedule.weekday !== weekday),
+      { weekday, shifts },
+    ]);
+  };
+
+  const updateShift = (weekday: number, index: number, changes: Partial<ShiftDefinition>) => {
+    setShifts(weekday, getShifts(weekday).map((shift, i) => (i === index ? { ...shift, ...changes } : shift)));
+  };
+
+  const updateHoliday = (index: number, changes: Partial<CalendarHoliday>) => {
+    setHolidays(prev => prev.map((holiday, i) => (i === index ? { ...holiday, ...changes } : holiday)));
+  };
+
+  const updateClosure = (index: number, changes: Partial<PlantClosure>) => {
+    setClosures(prev => prev.map((closure, i) => (i === index ? { ...closure, ...changes } : closure)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      const calendar = await factoryCalendarApi.update({
+        name,
+        timezone,
+        weekdays: weekdays.filter(schedule => schedule.shifts.length > 0),
+        holidays,
+        closures,
+      });
+      setWeekdays(calendar.weekdays);
+      setHolidays(calendar.holidays);
+      setClosures(calendar.closures);
+      setSuccess('Calendario guardado. Los plazos y la programación usarán los nuevos turnos.');
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al guardar el calendario de fábrica'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const weeklyHours = weekdays.reduce(
+    (total, schedule) => total + schedule.shifts.reduce((sum, shift) => sum + getShiftHours(shift), 0),
+    0
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Calendario de Fábrica</Typography>
+        <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={saving || loading}>
+          Guardar
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <TextField
+            label="Nombre"
+            size="small"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            sx={{ minWidth: 280 }}
+          />
+          <TextField
+            label="Zona horaria"
+            size="small"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            helperText="Los turnos son horas locales de la planta (p. ej. Europe/Madrid)"
+            sx={{ minWidth: 280, ml: 2, mr: 'auto' }}
+          />
+          <Typography variant="body2" color="text.secondary">
+            {weeklyHours.toFixed(1)} h laborables por semana
+          </Typography>
+        </Box>
+
+        <Typography variant="h6" gutterBottom>
+          Turnos por día
+        </Typography>
+        {WEEKDAYS.map(({ weekday, label }) => {
+          const shifts = getShifts(weekday);
+          return (
+            <Box key={weekday} sx={{ py: 1 }}>
+              <Divider sx={{ mb: 1 }} />
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+                <Typography sx={{ width: 100, pt: 1 }}>{label}</Typography>
+                <Stack spacing={1} sx={{ flexGrow: 1 }}>
+                  {shifts.length === 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ pt: 1 }}>
+                      No laborable
+                    </Typography>
+                  )}
+                  {shifts.map((shift, index) => (
+                    <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <TextField
+                        label="Turno"
+                        size="small"
+                        value={shift.name}
+                        onChange={(e) => updateShift(weekday, index, { name: e.target.value })}
+                      />
+                      <TextField
+                        label="Inicio"
+                        type="time"
+                        size="small"
+                        value={shift.startTime}
+                        onChange={(e) => updateShift(weekday, index, { startTime: e.target.value })}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                      <TextField
+                        label="Fin"
+                        type="time"
+                        size="small"
+                        value={shift.endTime}
+                        onChange={(e) => updateShift(weekday, index, { endTime: e.target.value })}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                      <Typography variant="body2" color="text.secondary">
+                        {getShiftHours(shift).toFixed(1)} h
+                      </Typography>
+                      <IconButton
+                        size="small"
+                        onClick={() => setShifts(weekday, shifts.filter((_, i) => i !== index))}
+                        title="Quitar turno"
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  ))}
+                </Stack>
+                <Button size="small" startIcon={<AddIcon />} onClick={() => setShifts(weekday, [...shifts, newShift()])}>
+                  Turno
+                </Button>
+              </Box>
+            </Box>
+          );
+        })}
+      </Paper>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+              <Typography variant="h6">Festivos</Typography>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setHolidays(prev => [...prev, { date: '', name: '' }])}
+              >
+                Festivo
+              </Button>
+            </Box>
+            {holidays.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                Sin festivos
+              </Typography>
+            )}
+            <Stack spacing={1}>
+              {holidays.map((holiday, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TextField
+                    label="Fecha"
+                    type="date"
+                    size="small"
+                    value={holiday.date}
+                    onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    label="Nombre"
+                    size="small"
+                    fullWidth
+                    value={holiday.name}
+                    onChange={(e) => updateHoliday(index, { name: e.target.value })}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setHolidays(prev => prev.filter((_, i) => i !== index))}
+                    title="Quitar festivo"
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+            </Stack>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+              <Typography variant="h6">Cierres de planta</Typography>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setClosures(prev => [...prev, { startDate: '', endDate: '', reason: '' }])}
+              >
+                Cierre
+              </Button>
+            </Box>
+            {closures.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                Sin cierres programados
+              </Typography>
+            )}
+            <Stack spacing={1}>
+              {closures.map((closure, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TextField
+                    label="Desde"
+                    type="date"
+                    size="small"
+                    value={closure.startDate}
+                    onChange={(e) => updateClosure(index, { startDate: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    label="Hasta"
+                    type="date"
+                    size="small"
+                    value={closure.endDate}
+                    onChange={(e) => updateClosure(index, { endDate: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    label="Motivo"
+                    size="small"
+                    fullWidth
+                    value={closure.reason}
+                    onChange={(e) => updateClosure(index, { reason: e.target.value })}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setClosures(prev => prev.filter((_, i) => i !== index))}
+                    title="Quitar cierre"
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+            </Stack>
+          </Paper>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default FactoryCalendar;
@@ -0,0 +1,382 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  MenuItem,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+} from '@mui/icons-material';
+import { inspectionApi, inventoryApi, getApiErrorMessage, InventoryType } from '../services/api';
+import type { InspectionCheck, InspectionCheckType, InspectionPlan, InventoryItem } from '../services/api';
+
+// Los límites se editan como texto para poder dejarlos vacíos
+interface CheckFormData {
+  name: string;
+  type: InspectionCheckType;
+  description: string;
+  nominalValue: string;
+  minValue: string;
+  maxValue: string;
+  unit: string;
+}
+
+interface PlanFormData {
+  modelId: string;
+  name: string;
+  isActive: boolean;
+  checks: CheckFormData[];
+}
+
+const emptyCheck: CheckFormData = {
+  name: '',
+  type: 'checklist',
+  description: '',
+  nominalValue: '',
+  minValue: '',
+  maxValue: '',
+  unit: '',
+};
+
+const emptyForm: PlanFormData = {
+  modelId: '',
+  name: '',
+  isActive: true,
+  checks: [{ ...emptyCheck }],
+};
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+const toText = (value?: number) => (value === undefined || value === null ? '' : String(value));
+
+const InspectionPlans: React.FC = () => {
+  const [plans, setPlans] = useState<InspectionPlan[]>([]);
+  const [models, setModels] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<PlanFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [planList, modelList] = await Promise.all([
+        inspectionApi.getPlans(),
+        inventoryApi.getAllItems({ type: InventoryType.MODEL }),
+      ]);
+      setPlans(planList);
+      setModels(modelList);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los planes de inspección'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData({ ...emptyForm, checks: [{ ...emptyCheck }] });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (plan: InspectionPlan) => {
+    setEditingId(plan.id);
+    setFormData({
+      modelId: plan.modelId,
+      name: plan.name,
+      isActive: plan.isActive,
+      checks: plan.checks.map(check => ({
+        name: check.name,
+        type: check.type,
+        description: check.description || '',
+        nominalValue: toText(check.nominalValue),
+        minValue: toText(check.minValue),
+        maxValue: toText(check.maxValue),
+        unit: check.unit || '',
+      })),
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const updateCheck = (index: number, changes: Partial<CheckFormData>) => {
+    setFormData(prev => ({
+      ...prev,
+      checks: prev.checks.map((check, i) => (i === index ? { ...check, ...changes } : check)),
+    }));
+  };
+
+  const removeCheck = (index: number) => {
+    setFormData(prev => ({ ...prev, checks: prev.checks.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    // La secuencia es el orden en el formulario
+    const checks: InspectionCheck[] = formData.checks.map((check, index) => ({
+      sequence: index + 1,
+      name: check.name,
+      type: check.type,
+      description: check.description || undefined,
+      ...(check.type === 'measurement' && {
+        nominalValue: toOptionalNumber(check.nominalValue),
+        minValue: toOptionalNumber(check.minValue),
+        maxValue: toOptionalNumber(check.maxValue),
+        unit: check.unit || undefined,
+      }),
+    }));
+
+    try {
+      setFormError(null);
+      if (editingId) {
+        await inspectionApi.updatePlan(editingId, { name: formData.name, isActive: formData.isActive, checks });
+      } else {
+        await inspectionApi.createPlan({ modelId: formData.modelId, name: formData.name, isActive: formData.isActive, checks });
+      }
+      setDialogOpen(false);
+      await fetchPlans();
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar el plan de inspección'));
+    }
+  };
+
+  const handleDelete = async (plan: InspectionPlan) => {
+    if (!window.confirm(`¿Eliminar el plan de inspección de ${plan.modelName}?`)) {
+      return;
+    }
+
+    try {
+      await inspectionApi.deletePlan(plan.id);
+      await fetchPlans();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el plan de inspección'));
+    }
+  };
+
+  // Un modelo solo puede tener un plan
+  const availableModels = models.filter(model => model.id === formData.modelId || !plans.some(plan => plan.modelId === model.id));
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Planes de Inspección</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Nuevo Plan
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Modelo</TableCell>
+              <TableCell>Plan</TableCell>
+              <TableCell>Controles</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plans.map(plan => (
+              <TableRow key={plan.id}>
+                <TableCell>
+                  {plan.modelName}
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {plan.modelSku}
+                  </Typography>
+                </TableCell>
+                <TableCell>{plan.name}</TableCell>
+                <TableCell>
+                  {plan.checks.map(check => check.name).join(', ')}
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    label={plan.isActive ? 'Activo' : 'Inactivo'}
+                    color={plan.isActive ? 'success' : 'default'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" onClick={() => openEdit(plan)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(plan)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && plans.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  No hay planes de inspección registrados
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editingId ? 'Editar Plan de Inspección' : 'Nuevo Plan de Inspección'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              select
+              label="Modelo"
+              value={formData.modelId}
+              onChange={(e) => setFormData({ ...formData, modelId: e.target.value })}
+              disabled={!!editingId}
+              required
+              fullWidth
+            >
+              {availableModels.map(model => (
+                <MenuItem key={model.id} value={model.id}>
+                  {model.name} ({model.sku})
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Nombre del plan"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+              }
+              label="Activo (obligatorio para completar tarjetas del modelo)"
+            />
+
+            <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+              Controles
+            </Typography>
+            {formData.checks.map((check, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                <Typography variant="body2" sx={{ width: 24 }}>{index + 1}</Typography>
+                <TextField
+                  size="small"
+                  label="Control"
+                  value={check.name}
+                  onChange={(e) => updateCheck(index, { name: e.target.value })}
+                  sx={{ flex: 2, minWidth: 180 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="Tipo"
+                  value={check.type}
+                  onChange={(e) => updateCheck(index, { type: e.target.value as InspectionCheckType })}
+                  sx={{ width: 150 }}
+                >
+                  <MenuItem value="checklist">Pasa / No pasa</MenuItem>
+                  <MenuItem value="measurement">Medición</MenuItem>
+                </TextField>
+                {check.type === 'measurement' && (
+                  <>
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="Nominal"
+                      value={check.nominalValue}
+                      onChange={(e) => updateCheck(index, { nominalValue: e.target.value })}
+                      sx={{ width: 100 }}
+                    />
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="Mín."
+                      value={check.minValue}
+                      onChange={(e) => updateCheck(index, { minValue: e.target.value })}
+                      sx={{ width: 100 }}
+                    />
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="Máx."
+                      value={check.maxValue}
+                      onChange={(e) => updateCheck(index, { maxValue: e.target.value })}
+                      sx={{ width: 100 }}
+                    />
+                    <TextField
+                      size="small"
+                      label="Unidad"
+                      value={check.unit}
+                      onChange={(e) => updateCheck(index, { unit: e.target.value })}
+                      sx={{ width: 80 }}
+                    />
+                  </>
+                )}
+                <IconButton size="small" color="error" onClick={() => removeCheck(index)} disabled={formData.checks.length === 1}>
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+            ))}
+            <Box>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setFormData(prev => ({ ...prev, checks: [...prev.checks, { ...emptyCheck }] }))}
+              >
+                Añadir control
+              </Button>
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default InspectionPlans;
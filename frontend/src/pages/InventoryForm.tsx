@@ -15,13 +15,22 @@ import {
   Checkbox,
   FormControlLabel,
   Divider,
-  Chip,
-  Autocomplete,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useInventory, InventoryType, InventoryStatus } from '../contexts/InventoryContext';
+import { useAuth } from '../hooks/useAuth';
 // import { useSocket } from '../contexts/SocketContext';
-import { inventoryApi } from '../services/api';
+import { inventoryApi, DEFAULT_SERIAL_PATTERN } from '../services/api';
+import type { ComponentLine, ItemSupplier, LotPickingPolicy, RoutingOperation } from '../services/api';
+import StockMovementHistory from '../components/Inventory/StockMovementHistory';
+import ItemLots from '../components/Inventory/ItemLots';
+import ComponentLinesEditor from '../components/Inventory/ComponentLinesEditor';
+import BomStructureView from '../components/Inventory/BomStructureView';
+import BomRevisionHistory from '../components/Inventory/BomRevisionHistory';
+import RoutingEditor from '../components/Inventory/RoutingEditor';
+import ItemSuppliersEditor from '../components/Inventory/ItemSuppliersEditor';
 
 interface InventoryItem {
   id: string;
@@ -37,10 +46,16 @@ interface InventoryItem {
   maximumStock: number;
   location: string;
   supplier?: string;
+  suppliers?: ItemSupplier[]; // proveedores con sus condiciones de compra
   // Campos para fabricación (solo para modelos)
   estimatedManufacturingTime?: number; // tiempo estimado en horas
   components?: string[]; // IDs de componentes necesarios
+  componentLines?: ComponentLine[]; // componentes con cantidad por unidad
+  routing?: RoutingOperation[]; // ruta de fabricación
   canManufacture?: boolean; // si este item se puede fabricar
+  serialPattern?: string; // patrón del número de serie
+  isLotControlled?: boolean; // materiales con lote y caducidad
+  lotPickingPolicy?: LotPickingPolicy;
   createdAt: string;
   updatedAt: string;
 }
@@ -59,11 +74,16 @@ const InventoryForm: React.FC = () => {
   // const { socket } = useSocket();
   const socket = null; // Temporary for testing
   const isEdit = Boolean(id);
+  // Cambiar la cantidad de un artículo existente es un movimiento de stock
+  const { hasRole } = useAuth();
+  const canEditQuantity = !isEdit || hasRole('warehouse');
+  // Y cambiar su estructura genera una revisión, reservada a planificación
+  const canEditStructure = !isEdit || hasRole('planner');
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState(0);
   const [availableComponents, setAvailableComponents] = useState<ComponentOption[]>([]);
-  const [selectedComponents, setSelectedComponents] = useState<ComponentOption[]>([]);
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -74,12 +94,17 @@ const InventoryForm: React.FC = () => {
     unitPrice: 0,
     status: InventoryStatus.ACTIVE,
     location: 'Reñaca',
-    supplier: '',
+    suppliers: [] as ItemSupplier[],
     // Campos para fabricación
     estimatedManufacturingTime: 0,
     canManufacture: false,
-    components: [] as string[],
+    componentLines: [] as ComponentLine[],
+    routing: [] as RoutingOperation[],
+    serialPattern: '',
+    isLotControlled: false,
+    lotPickingPolicy: 'fefo' as LotPickingPolicy,
   });
+  const [movementsRefreshKey, setMovementsRefreshKey] = useState(0);
 
   const unitOptions = ['Unidad', 'gr', 'kg', 'lt', 'ml', 'cm', 'm', 'piezas', 'cajas'];
 
@@ -121,17 +146,18 @@ const InventoryForm: React.FC = () => {
             unitPrice: item.unitPrice,
             status: item.status,
             location: item.location || 'Reñaca',
-            supplier: item.supplier || '',
+            suppliers: item.suppliers || [],
             estimatedManufacturingTime: item.estimatedManufacturingTime || 0,
             canManufacture: item.canManufacture || false,
-            components: item.components || [],
+            // Artículos antiguos solo tienen la lista de IDs (cantidad 1)
+            componentLines: item.componentLines && item.componentLines.length > 0
+              ? item.componentLines
+              : (item.components || []).map(componentId => ({ componentId, quantity: 1 })),
+            routing: item.routing || [],
+            serialPattern: item.serialPattern || '',
+            isLotControlled: item.isLotControlled || false,
+            lotPickingPolicy: item.lotPickingPolicy || 'fefo',
           });
-
-          // Seleccionar componentes para el modelo
-          if (item.components && item.components.length > 0) {
-            const selectedComps = availableComponents.filter(comp => item.components!.includes(comp.id));
-            setSelectedComponents(selectedComps);
-          }
         } catch (error) {
           setError('Error al cargar el artículo de inventario');
         } finally {
@@ -141,7 +167,7 @@ const InventoryForm: React.FC = () => {
 
       fetchItem();
     }
-  }, [isEdit, id, availableComponents]);
+  }, [isEdit, id]);
 
   const handleChange = (field: string) => (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement> | any) => {
     const value = event.target.value;
@@ -151,14 +177,16 @@ const InventoryForm: React.FC = () => {
     }));
   };
 
-  const handleComponentsChange = (event: any, newValue: ComponentOption[]) => {
-    setSelectedComponents(newValue);
+  const handleComponentLinesChange = (componentLines: ComponentLine[]) => {
     setFormData(prev => ({
       ...prev,
-      components: newValue.map(comp => comp.id)
+      componentLines
     }));
   };
 
+  // Un artículo no puede contenerse a sí mismo
+  const componentOptions = availableComponents.filter(comp => comp.id !== id);
+
   const generateSKU = (name: string, type: InventoryType): string => {
     const typePrefix = {
       [InventoryType.MODEL]: 'MOD',
@@ -198,15 +226,27 @@ const InventoryForm: React.FC = () => {
     try {
       setLoading(true);
 
+      // Modelos y componentes pueden tener componentes (BOM multinivel)
+      const hasComponents = formData.type === InventoryType.MODEL || formData.type === InventoryType.COMPONENT;
       const submitData = {
         ...formData,
         minimumStock: 0,
         maximumStock: 100,
-        components: formData.type === InventoryType.MODEL ? formData.components : undefined
+        components: hasComponents ? formData.componentLines.map(line => line.componentId) : undefined,
+        componentLines: hasComponents ? formData.componentLines : undefined,
+        routing: hasComponents ? formData.routing : undefined,
+        serialPattern: formData.type === InventoryType.MODEL ? formData.serialPattern : undefined,
+        isLotControlled: formData.type === InventoryType.MATERIAL ? formData.isLotControlled : undefined,
+        lotPickingPolicy: formData.type === InventoryType.MATERIAL && formData.isLotControlled ? formData.lotPickingPolicy : undefined
       };
 
       if (isEdit && id) {
-        await updateItem(id, submitData);
+        // Sin permiso de movimientos no se envía la cantidad, ni los componentes sin permiso de estructuras
+        await updateItem(id, {
+          ...submitData,
+          ...(!canEditQuantity && { quantity: undefined }),
+          ...(!canEditStructure && { components: undefined, componentLines: undefined })
+        });
         if (socket) {
           socket.emit('inventory-updated', { action: 'update', id });
         }
@@ -235,233 +275,311 @@ const InventoryForm: React.FC = () => {
         {isEdit ? 'Editar Artículo de Inventario' : 'Agregar Nuevo Artículo de Inventario'}
       </Typography>
 
-      <Paper sx={{ p: 3 }}>
-        <form onSubmit={handleSubmit}>
-          {error && (
-            <Alert severity="error" sx={{ mb: 2 }}>
-              {error}
-            </Alert>
-          )}
-
-          <Grid container spacing={3}>
-            <Grid item xs={12} md={6}>
-              <TextField
-                label="Nombre"
-                value={formData.name}
-                onChange={handleNameChange}
-                required
-                fullWidth
-              />
-            </Grid>
-
-            <Grid item xs={12} md={6}>
-              <TextField
-                label="SKU"
-                value={formData.sku}
-                onChange={handleChange('sku')}
-                required
-                fullWidth
-                disabled={!isEdit}
-                helperText={isEdit ? "Identificador único para el artículo" : "Se genera automáticamente"}
-              />
-            </Grid>
-
-            <Grid item xs={12}>
-              <TextField
-                label="Descripción"
-                value={formData.description}
-                onChange={handleChange('description')}
-                required
-                fullWidth
-                multiline
-                rows={3}
-              />
-            </Grid>
-
-            <Grid item xs={12} md={4}>
-              <FormControl fullWidth required>
-                <InputLabel>Tipo</InputLabel>
-                <Select
-                  value={formData.type}
-                  label="Tipo"
-                  onChange={handleTypeChange}
-                >
-                  <MenuItem value={InventoryType.MODEL}>Modelo</MenuItem>
-                  <MenuItem value={InventoryType.COMPONENT}>Componente</MenuItem>
-                  <MenuItem value={InventoryType.MATERIAL}>Material</MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
-
-            <Grid item xs={12} md={4}>
-              <FormControl fullWidth required>
-                <InputLabel>Estado</InputLabel>
-                <Select
-                  value={formData.status}
-                  label="Estado"
-                  onChange={handleChange('status')}
-                >
-                  <MenuItem value={InventoryStatus.ACTIVE}>Activo</MenuItem>
-                  <MenuItem value={InventoryStatus.INACTIVE}>Inactivo</MenuItem>
-                  <MenuItem value={InventoryStatus.DISCONTINUED}>Descontinuado</MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
-
-            <Grid item xs={12} md={4}>
-              <TextField
-                label="Ubicación"
-                value={formData.location}
-                onChange={handleChange('location')}
-                required
-                fullWidth
-                disabled
-                helperText="Ubicación fija para todos los artículos"
-              />
-            </Grid>
-
-            <Grid item xs={12} md={4}>
-              <TextField
-                label="Cantidad"
-                type="number"
-                value={formData.quantity}
-                onChange={handleChange('quantity')}
-                required
-                fullWidth
-                inputProps={{ min: 0 }}
-              />
-            </Grid>
-
-            <Grid item xs={12} md={4}>
-              <FormControl fullWidth required>
-                <InputLabel>Unidad</InputLabel>
-                <Select
-                  value={formData.unit}
-                  label="Unidad"
-                  onChange={handleChange('unit')}
-                >
-                  {unitOptions.map((unit) => (
-                    <MenuItem key={unit} value={unit}>
-                      {unit}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
-            </Grid>
-
-            <Grid item xs={12} md={4}>
-              <TextField
-                label="Precio Unitario"
-                type="number"
-                value={formData.unitPrice}
-                onChange={handleChange('unitPrice')}
-                required
-                fullWidth
-                inputProps={{ min: 0, step: 0.01 }}
+      {isEdit && (
+        <Tabs value={activeTab} onChange={(_, value) => setActiveTab(value)} sx={{ mb: 2 }}>
+          <Tab label="Datos" />
+          <Tab label="Movimientos" />
+          <Tab label="Estructura" />
+        </Tabs>
+      )}
+
+      {isEdit && id && activeTab === 1 ? (
+        <Paper sx={{ p: 3 }}>
+          {formData.type === InventoryType.MATERIAL && formData.isLotControlled && (
+            <>
+              <ItemLots
+                itemId={id}
+                unit={formData.unit}
+                onReceived={() => setMovementsRefreshKey(key => key + 1)}
               />
-            </Grid>
-
+              <Divider sx={{ my: 3 }} />
+            </>
+          )}
+          <StockMovementHistory itemId={id} refreshKey={movementsRefreshKey} />
+        </Paper>
+      ) : isEdit && id && activeTab === 2 ? (
+        <Paper sx={{ p: 3 }}>
+          <BomStructureView itemId={id} />
+          <Divider sx={{ my: 3 }} />
+          <BomRevisionHistory itemId={id} />
+        </Paper>
+      ) : (
+        <Paper sx={{ p: 3 }}>
+          <form onSubmit={handleSubmit}>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
 
-            <Grid item xs={12} md={4}>
-              <TextField
-                label="Proveedor"
-                value={formData.supplier}
-                onChange={handleChange('supplier')}
-                fullWidth
-              />
-            </Grid>
+            <Grid container spacing={3}>
+              <Grid item xs={12} md={6}>
+                <TextField
+                  label="Nombre"
+                  value={formData.name}
+                  onChange={handleNameChange}
+                  required
+                  fullWidth
+                />
+              </Grid>
+
+              <Grid item xs={12} md={6}>
+                <TextField
+                  label="SKU"
+                  value={formData.sku}
+                  onChange={handleChange('sku')}
+                  required
+                  fullWidth
+                  disabled={!isEdit}
+                  helperText={isEdit ? "Identificador único para el artículo" : "Se genera automáticamente"}
+                />
+              </Grid>
+
+              <Grid item xs={12}>
+                <TextField
+                  label="Descripción"
+                  value={formData.description}
+                  onChange={handleChange('description')}
+                  required
+                  fullWidth
+                  multiline
+                  rows={3}
+                />
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <FormControl fullWidth required>
+                  <InputLabel>Tipo</InputLabel>
+                  <Select
+                    value={formData.type}
+                    label="Tipo"
+                    onChange={handleTypeChange}
+                  >
+                    <MenuItem value={InventoryType.MODEL}>Modelo</MenuItem>
+                    <MenuItem value={InventoryType.COMPONENT}>Componente</MenuItem>
+                    <MenuItem value={InventoryType.MATERIAL}>Material</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <FormControl fullWidth required>
+                  <InputLabel>Estado</InputLabel>
+                  <Select
+                    value={formData.status}
+                    label="Estado"
+                    onChange={handleChange('status')}
+                  >
+                    <MenuItem value={InventoryStatus.ACTIVE}>Activo</MenuItem>
+                    <MenuItem value={InventoryStatus.INACTIVE}>Inactivo</MenuItem>
+                    <MenuItem value={InventoryStatus.DISCONTINUED}>Descontinuado</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <TextField
+                  label="Ubicación"
+                  value={formData.location}
+                  onChange={handleChange('location')}
+                  required
+                  fullWidth
+                  disabled
+                  helperText="Ubicación fija para todos los artículos"
+                />
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <TextField
+                  label="Cantidad"
+                  type="number"
+                  value={formData.quantity}
+                  onChange={handleChange('quantity')}
+                  required
+                  fullWidth
+                  disabled={!canEditQuantity}
+                  helperText={canEditQuantity ? undefined : 'Solo almacén puede ajustar la cantidad'}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <FormControl fullWidth required>
+                  <InputLabel>Unidad</InputLabel>
+                  <Select
+                    value={formData.unit}
+                    label="Unidad"
+                    onChange={handleChange('unit')}
+                  >
+                    {unitOptions.map((unit) => (
+                      <MenuItem key={unit} value={unit}>
+                        {unit}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <TextField
+                  label="Precio Unitario"
+                  type="number"
+                  value={formData.unitPrice}
+                  onChange={handleChange('unitPrice')}
+                  required
+                  fullWidth
+                  inputProps={{ min: 0, step: 0.01 }}
+                />
+              </Grid>
+
+
+              {/* Control por lotes - solo para materiales */}
+              {formData.type === InventoryType.MATERIAL && (
+                <>
+                  <Grid item xs={12} md={4}>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={formData.isLotControlled}
+                          onChange={(e) => setFormData({ ...formData, isLotControlled: e.target.checked })}
+                        />
+                      }
+                      label="Control por lotes y caducidad"
+                    />
+                  </Grid>
 
-            {/* Campos de fabricación - solo para modelos */}
-            {formData.type === InventoryType.MODEL && (
-              <>
+                  {formData.isLotControlled && (
+                    <Grid item xs={12} md={4}>
+                      <FormControl fullWidth>
+                        <InputLabel>Política de consumo</InputLabel>
+                        <Select
+                          value={formData.lotPickingPolicy}
+                          onChange={handleChange('lotPickingPolicy')}
+                          label="Política de consumo"
+                        >
+                          <MenuItem value="fefo">FEFO (primero en caducar)</MenuItem>
+                          <MenuItem value="fifo">FIFO (primero en entrar)</MenuItem>
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                  )}
+                </>
+              )}
+
+              {/* Subcomponentes - los componentes pueden contener otros componentes */}
+              {formData.type === InventoryType.COMPONENT && (
                 <Grid item xs={12}>
-                  <Divider sx={{ my: 2 }}>
-                    <Typography variant="body2" color="textSecondary">
-                      Configuración de Fabricación
-                    </Typography>
-                  </Divider>
-                </Grid>
-
-                <Grid item xs={12} md={4}>
-                  <FormControlLabel
-                    control={
-                      <Checkbox
-                        checked={formData.canManufacture}
-                        onChange={(e) => setFormData({ ...formData, canManufacture: e.target.checked })}
-                      />
-                    }
-                    label="Se puede fabricar"
+                  <ComponentLinesEditor
+                    label="Subcomponentes"
+                    helperText="Componentes que se consumen al fabricar este componente"
+                    options={componentOptions}
+                    value={formData.componentLines}
+                    onChange={handleComponentLinesChange}
+                    disabled={!canEditStructure}
                   />
                 </Grid>
+              )}
+
+              {/* Campos de fabricación - solo para modelos */}
+              {formData.type === InventoryType.MODEL && (
+                <>
+                  <Grid item xs={12}>
+                    <Divider sx={{ my: 2 }}>
+                      <Typography variant="body2" color="textSecondary">
+                        Configuración de Fabricación
+                      </Typography>
+                    </Divider>
+                  </Grid>
 
-                <Grid item xs={12}>
-                  <Autocomplete
-                    multiple
-                    id="components-select"
-                    options={availableComponents}
-                    value={selectedComponents}
-                    onChange={handleComponentsChange}
-                    getOptionLabel={(option) => `${option.name} (${option.sku})`}
-                    renderInput={(params) => (
+                  <Grid item xs={12} md={4}>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={formData.canManufacture}
+                          onChange={(e) => setFormData({ ...formData, canManufacture: e.target.checked })}
+                        />
+                      }
+                      label="Se puede fabricar"
+                    />
+                  </Grid>
+
+                  <Grid item xs={12}>
+                    <ComponentLinesEditor
+                      label="Componentes del modelo"
+                      helperText="Selecciona los componentes que forman parte de este modelo y su cantidad"
+                      options={componentOptions}
+                      value={formData.componentLines}
+                      onChange={handleComponentLinesChange}
+                      disabled={!canEditStructure}
+                    />
+                  </Grid>
+
+                  {formData.canManufacture && (
+                    <Grid item xs={12} md={4}>
                       <TextField
-                        {...params}
-                        label="Componentes del modelo"
-                        placeholder="Seleccionar componentes..."
-                        helperText="Selecciona los componentes que forman parte de este modelo"
+                        label="Tiempo estimado de fabricación (horas)"
+                        type="number"
+                        value={formData.estimatedManufacturingTime}
+                        onChange={handleChange('estimatedManufacturingTime')}
+                        fullWidth
+                        inputProps={{ min: 0, step: 0.5 }}
+                        helperText="Tiempo estimado para fabricar una unidad"
                       />
-                    )}
-                    renderTags={(tagValue, getTagProps) =>
-                      tagValue.map((option, index) => (
-                        <Chip
-                          label={`${option.name} (${option.sku})`}
-                          {...getTagProps({ index })}
-                          key={option.id}
-                          size="small"
-                        />
-                      ))
-                    }
-                    isOptionEqualToValue={(option, value) => option.id === value.id}
-                    fullWidth
-                  />
-                </Grid>
+                    </Grid>
+                  )}
 
-                {formData.canManufacture && (
-                  <Grid item xs={12} md={4}>
+                  <Grid item xs={12} md={6}>
                     <TextField
-                      label="Tiempo estimado de fabricación (horas)"
-                      type="number"
-                      value={formData.estimatedManufacturingTime}
-                      onChange={handleChange('estimatedManufacturingTime')}
+                      label="Patrón de número de serie"
+                      value={formData.serialPattern}
+                      onChange={handleChange('serialPattern')}
+                      placeholder={DEFAULT_SERIAL_PATTERN}
                       fullWidth
-                      inputProps={{ min: 0, step: 0.5 }}
-                      helperText="Tiempo estimado para fabricar una unidad"
+                      helperText="Tokens: {SKU}, {YYYY}, {YY}, {MM}, {SEQ:n}. Vacío = patrón por defecto"
                     />
                   </Grid>
-                )}
-              </>
-            )}
+                </>
+              )}
 
-            <Grid item xs={12}>
-              <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
-                <Button
-                  variant="outlined"
-                  onClick={() => navigate('/inventory')}
-                  disabled={loading}
-                >
-                  Cancelar
-                </Button>
-                <Button
-                  type="submit"
-                  variant="contained"
-                  disabled={loading}
-                >
-                  {loading ? 'Guardando...' : (isEdit ? 'Actualizar Artículo' : 'Crear Artículo')}
-                </Button>
-              </Box>
+              {/* Ruta de fabricación - modelos y componentes */}
+              {(formData.type === InventoryType.MODEL || formData.type === InventoryType.COMPONENT) && (
+                <Grid item xs={12}>
+                  <RoutingEditor
+                    value={formData.routing}
+                    onChange={(routing) => setFormData(prev => ({ ...prev, routing }))}
+                  />
+                </Grid>
+              )}
+
+              <Grid item xs={12}>
+                <ItemSuppliersEditor
+                  value={formData.suppliers}
+                  onChange={(suppliers) => setFormData(prev => ({ ...prev, suppliers }))}
+                />
+              </Grid>
+
+              <Grid item xs={12}>
+                <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+                  <Button
+                    variant="outlined"
+                    onClick={() => navigate('/inventory')}
+                    disabled={loading}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button
+                    type="submit"
+                    variant="contained"
+                    disabled={loading}
+                  >
+                    {loading ? 'Guardando...' : (isEdit ? 'Actualizar Artículo' : 'Crear Artículo')}
+                  </Button>
+                </Box>
+              </Grid>
             </Grid>
-          </Grid>
-        </form>
-      </Paper>
+          </form>
+        </Paper>
+      )}
     </Box>
   );
 };
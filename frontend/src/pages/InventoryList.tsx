@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Box,
   Typography,
@@ -21,21 +21,29 @@ import {
   Alert,
   LinearProgress,
   Fab,
+  Tooltip,
 } from '@mui/material';
 import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Add as AddIcon,
   Search as SearchIcon,
+  SwapHoriz as TransferIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useInventory, InventoryType, InventoryStatus } from '../contexts/InventoryContext';
+import type { InventoryItem } from '../contexts/InventoryContext';
+import { warehouseApi, supplierApi, formatLocationLabel } from '../services/api';
+import type { LocationStock, Supplier, Warehouse } from '../services/api';
+import TransferStockDialog from '../components/Inventory/TransferStockDialog';
 
 interface InventoryFilters {
   type?: InventoryType;
   status?: InventoryStatus;
   location?: string;
+  warehouseId?: string;
   supplier?: string;
+  supplierId?: string;
   lowStock?: boolean;
   search?: string;
 }
@@ -49,10 +57,38 @@ const InventoryList: React.FC = () => {
   const { items, loading, error, filters } = state;
 
   const [localFilters, setLocalFilters] = useState<InventoryFilters>({});
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [locationStock, setLocationStock] = useState<LocationStock[]>([]);
+  const [transferItem, setTransferItem] = useState<InventoryItem | null>(null);
+
+  const fetchLocationStock = useCallback(async () => {
+    try {
+      setLocationStock(await warehouseApi.getStock());
+    } catch (error) {
+      console.error('Error al cargar las existencias por ubicación:', error);
+    }
+  }, []);
 
   useEffect(() => {
     fetchItems();
-  }, [fetchItems]);
+    fetchLocationStock();
+    warehouseApi.getAll()
+      .then(setWarehouses)
+      .catch(error => console.error('Error al cargar los almacenes:', error));
+    supplierApi.getAll()
+      .then(setSuppliers)
+      .catch(error => console.error('Error al cargar los proveedores:', error));
+  }, [fetchItems, fetchLocationStock]);
+
+  // Existencias por ubicación de cada artículo
+  const locationsByItem = useMemo(() => {
+    const byItem = new Map<string, LocationStock[]>();
+    locationStock.forEach(stock => {
+      byItem.set(stock.itemId, [...(byItem.get(stock.itemId) || []), stock]);
+    });
+    return byItem;
+  }, [locationStock]);
 
   useEffect(() => {
     if (socket) {
@@ -69,6 +105,12 @@ const InventoryList: React.FC = () => {
   const handleSearch = () => {
     setFilters(localFilters);
     fetchItems(localFilters);
+    fetchLocationStock();
+  };
+
+  const handleTransferred = () => {
+    fetchItems(filters);
+    fetchLocationStock();
   };
 
   const handleClearFilters = () => {
@@ -141,7 +183,7 @@ const InventoryList: React.FC = () => {
           Filtros
         </Typography>
         <Grid container spacing={2} alignItems="center">
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={2}>
             <TextField
               label="Buscar"
               value={localFilters.search || ''}
@@ -181,15 +223,40 @@ const InventoryList: React.FC = () => {
             </FormControl>
           </Grid>
           <Grid item xs={12} sm={6} md={2}>
-            <TextField
-              label="Ubicación"
-              value={localFilters.location || ''}
-              onChange={(e) => setLocalFilters({ ...localFilters, location: e.target.value })}
-              fullWidth
-              size="small"
-            />
+            <FormControl fullWidth size="small">
+              <InputLabel>Almacén</InputLabel>
+              <Select
+                value={localFilters.warehouseId || ''}
+                label="Almacén"
+                onChange={(e) => setLocalFilters({ ...localFilters, warehouseId: e.target.value || undefined })}
+              >
+                <MenuItem value="">Todos</MenuItem>
+                {warehouses.map(warehouse => (
+                  <MenuItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.code} · {warehouse.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
           </Grid>
           <Grid item xs={12} sm={6} md={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Proveedor</InputLabel>
+              <Select
+                value={localFilters.supplierId || ''}
+                label="Proveedor"
+                onChange={(e) => setLocalFilters({ ...localFilters, supplierId: e.target.value || undefined })}
+              >
+                <MenuItem value="">Todos</MenuItem>
+                {suppliers.map(supplier => (
+                  <MenuItem key={supplier.id} value={supplier.id}>
+                    {supplier.code} · {supplier.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={1}>
             <Button
               variant="contained"
               onClick={handleSearch}
@@ -221,7 +288,7 @@ const InventoryList: React.FC = () => {
               <TableCell>SKU</TableCell>
               <TableCell>Nombre</TableCell>
               <TableCell>Tipo</TableCell>
-              <TableCell>Cantidad</TableCell>
+              <TableCell>Disponible</TableCell>
               <TableCell>Precio Unitario</TableCell>
               <TableCell>Valor Total</TableCell>
               <TableCell>Estado</TableCell>
@@ -242,10 +309,15 @@ const InventoryList: React.FC = () => {
                   />
                 </TableCell>
                 <TableCell>
-                  {item.quantity} {item.unit}
-                  {item.quantity <= item.minimumStock && (
+                  {item.available ?? item.quantity} {item.unit}
+                  {(item.available ?? item.quantity) <= item.minimumStock && (
                     <Chip label="Stock Bajo" color="warning" size="small" sx={{ ml: 1 }} />
                   )}
+                  {!!item.reserved && (
+                    <Typography variant="caption" display="block" color="text.secondary">
+                      Físico: {item.quantity} · Reservado: {item.reserved}
+                    </Typography>
+                  )}
                 </TableCell>
                 <TableCell>{formatCurrency(item.unitPrice)}</TableCell>
                 <TableCell>{formatCurrency(item.quantity * item.unitPrice)}</TableCell>
@@ -256,8 +328,30 @@ const InventoryList: React.FC = () => {
                     size="small"
                   />
                 </TableCell>
-                <TableCell>{item.location}</TableCell>
                 <TableCell>
+                  {(locationsByItem.get(item.id) || [])
+                    .filter(stock => !filters.warehouseId || stock.warehouseId === filters.warehouseId)
+                    .map(stock => (
+                      <Typography key={stock.id} variant="body2" sx={{ whiteSpace: 'nowrap' }}>
+                        {formatLocationLabel(stock.warehouseCode, stock.binCode)}: {stock.quantity} {stock.unit}
+                      </Typography>
+                    ))}
+                  {!locationsByItem.has(item.id) && (
+                    <Typography variant="body2" color="text.secondary">-</Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Tooltip title="Transferir stock">
+                    <span>
+                      <IconButton
+                        onClick={() => setTransferItem(item)}
+                        size="small"
+                        disabled={!locationsByItem.has(item.id)}
+                      >
+                        <TransferIcon />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
                   <IconButton
                     onClick={() => navigate(`/inventory/edit/${item.id}`)}
                     size="small"
@@ -286,6 +380,12 @@ const InventoryList: React.FC = () => {
         </Box>
       )}
 
+      <TransferStockDialog
+        item={transferItem}
+        onClose={() => setTransferItem(null)}
+        onTransferred={handleTransferred}
+      />
+
       <Fab
         color="primary"
         aria-label="add"
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Grid,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Alert,
+  LinearProgress,
+  Chip,
+} from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { laborApi, getApiErrorMessage } from '../services/api';
+import type { LaborReport as LaborReportData, LaborSummaryLine } from '../services/api';
+
+const toInputDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatMinutes = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '';
+  const absolute = Math.abs(minutes);
+  return `${sign}${Math.floor(absolute / 60)}h ${absolute % 60}m`;
+};
+
+const SummaryTable: React.FC<{ title: string; labelHeader: string; lines: LaborSummaryLine[] }> = ({ title, labelHeader, lines }) => (
+  <Paper sx={{ p: 2, height: '100%' }}>
+    <Typography variant="h6" gutterBottom>
+      {title}
+    </Typography>
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{labelHeader}</TableCell>
+            <TableCell align="right">Fichajes</TableCell>
+            <TableCell align="right">Horas</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {lines.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={3} align="center">
+                <Typography variant="body2" color="text.secondary">Sin fichajes</Typography>
+              </TableCell>
+            </TableRow>
+          )}
+          {lines.map(line => (
+            <TableRow key={line.key}>
+              <TableCell>{line.label}</TableCell>
+              <TableCell align="right">{line.entries}</TableCell>
+              <TableCell align="right">{line.hours.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  </Paper>
+);
+
+const LaborReport: React.FC = () => {
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 7);
+    return toInputDate(date);
+  });
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+  const [report, setReport] = useState<LaborReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // El día final se incluye completo
+      const end = new Date(`${to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      setReport(await laborApi.getReport({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: end.toISOString(),
+      }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar el informe de mano de obra'));
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Mano de Obra</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            label="Desde"
+            type="date"
+            size="small"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="Hasta"
+            type="date"
+            size="small"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchReport}>
+            Actualizar
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {report && (
+        <>
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={4}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Horas fichadas</Typography>
+                  <Typography variant="h4">{report.totalHours.toFixed(1)}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Fichajes</Typography>
+                  <Typography variant="h4">{report.entries}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Operarios fichados ahora</Typography>
+                  <Typography variant="h4">{report.openEntries}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={4}>
+              <SummaryTable title="Por orden" labelHeader="Orden" lines={report.byOrder} />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <SummaryTable title="Por operario" labelHeader="Operario" lines={report.byOperator} />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <SummaryTable title="Por día" labelHeader="Día" lines={report.byDay} />
+            </Grid>
+          </Grid>
+
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Fichado frente a cronómetro de la tarjeta
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Tarjeta</TableCell>
+                    <TableCell>Estado</TableCell>
+                    <TableCell align="right">Operarios</TableCell>
+                    <TableCell align="right">Fichado</TableCell>
+                    <TableCell align="right">Cronómetro</TableCell>
+                    <TableCell align="right">Diferencia</TableCell>
+                    <TableCell align="right">Dotación media</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.reconciliation.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center">
+                        <Typography variant="body2" color="text.secondary">Sin tarjetas con fichajes en el periodo</Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {report.reconciliation.map(line => (
+                    <TableRow key={line.cardId}>
+                      <TableCell>{line.cardLabel}</TableCell>
+                      <TableCell>
+                        <Chip label={line.status} size="small" />
+                        {line.openEntries > 0 && (
+                          <Chip label={`${line.openEntries} fichado(s)`} size="small" color="primary" sx={{ ml: 1 }} />
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{line.operators}</TableCell>
+                      <TableCell align="right">{formatMinutes(line.laborMinutes)}</TableCell>
+                      <TableCell align="right">{formatMinutes(line.productionMinutes)}</TableCell>
+                      <TableCell align="right" sx={{ color: line.differenceMinutes < 0 ? 'warning.main' : undefined }}>
+                        {formatMinutes(line.differenceMinutes)}
+                      </TableCell>
+                      <TableCell align="right">{line.averageCrew.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default LaborReport;
@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Alert,
+  LinearProgress,
+  Chip,
+  FormControlLabel,
+  Checkbox,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import { Search as SearchIcon, AccountTree as GenealogyIcon } from '@mui/icons-material';
+import { lotApi, getApiErrorMessage } from '../services/api';
+import type { InventoryLot, LotStatus } from '../services/api';
+import LotGenealogyDialog from '../components/Inventory/LotGenealogyDialog';
+
+const lotStatusLabels: Record<LotStatus, string> = {
+  available: 'Disponible',
+  expired: 'Caducado',
+  depleted: 'Agotado',
+};
+
+const lotStatusColors: Record<LotStatus, 'success' | 'error' | 'default'> = {
+  available: 'success',
+  expired: 'error',
+  depleted: 'default',
+};
+
+// Días de antelación para el filtro "próximos a caducar"
+const EXPIRY_WARNING_DAYS = 30;
+
+const daysUntil = (date: string): number =>
+  Math.ceil((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+// Lotes de materiales: stock por lote, caducidades y genealogía hacia adelante
+const Lots: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [withStock, setWithStock] = useState(true);
+  const [expiringOnly, setExpiringOnly] = useState(false);
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [genealogyLotId, setGenealogyLotId] = useState<string | null>(null);
+
+  const fetchLots = useCallback(async (term?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const expiresBefore = expiringOnly
+        ? new Date(Date.now() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000).toISOString()
+        : undefined;
+      setLots(await lotApi.getAll({
+        search: term || undefined,
+        withStock: withStock || undefined,
+        expiresBefore,
+      }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los lotes'));
+    } finally {
+      setLoading(false);
+    }
+  }, [withStock, expiringOnly]);
+
+  useEffect(() => {
+    fetchLots();
+  }, [fetchLots]);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    fetchLots(search.trim());
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Typography variant="h4">Lotes</Typography>
+        <Box component="form" onSubmit={handleSearch} sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <FormControlLabel
+            control={<Checkbox checked={withStock} onChange={(e) => setWithStock(e.target.checked)} />}
+            label="Solo con stock"
+          />
+          <FormControlLabel
+            control={<Checkbox checked={expiringOnly} onChange={(e) => setExpiringOnly(e.target.checked)} />}
+            label={`Caducan en ${EXPIRY_WARNING_DAYS} días`}
+          />
+          <TextField
+            size="small"
+            label="Lote, lote proveedor o material"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            sx={{ minWidth: 280 }}
+          />
+          <Button type="submit" variant="contained" startIcon={<SearchIcon />}>
+            Buscar
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Lote</TableCell>
+              <TableCell>Material</TableCell>
+              <TableCell>Lote proveedor</TableCell>
+              <TableCell>Recibido</TableCell>
+              <TableCell>Caducidad</TableCell>
+              <TableCell align="right">Cantidad</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Genealogía</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {!loading && lots.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">No hay lotes</TableCell>
+              </TableRow>
+            )}
+            {lots.map(lot => {
+              const remainingDays = lot.expiryDate ? daysUntil(lot.expiryDate) : null;
+              return (
+                <TableRow key={lot.id}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{lot.lotNumber}</TableCell>
+                  <TableCell>{lot.itemName} ({lot.itemSku})</TableCell>
+                  <TableCell>{lot.supplierLot || '-'}</TableCell>
+                  <TableCell>{new Date(lot.receivedDate).toLocaleDateString('es-ES')}</TableCell>
+                  <TableCell>
+                    {lot.expiryDate ? new Date(lot.expiryDate).toLocaleDateString('es-ES') : '-'}
+                    {remainingDays !== null && remainingDays >= 0 && remainingDays <= EXPIRY_WARNING_DAYS && lot.quantity > 0 && (
+                      <Typography variant="caption" display="block" color="warning.main">
+                        Caduca en {remainingDays} días
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{lot.quantity} / {lot.initialQuantity} {lot.unit}</TableCell>
+                  <TableCell>
+                    {lot.status && (
+                      <Chip size="small" label={lotStatusLabels[lot.status]} color={lotStatusColors[lot.status]} />
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Ver genealogía">
+                      <IconButton size="small" onClick={() => setGenealogyLotId(lot.id)}>
+                        <GenealogyIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <LotGenealogyDialog lotId={genealogyLotId} onClose={() => setGenealogyLotId(null)} />
+    </Box>
+  );
+};
+
+export default Lots;
@@ -16,9 +16,13 @@ import {
   CardContent,
   Chip,
   Stack,
+  Checkbox,
+  FormControlLabel,
 } from '@mui/material';
 import { useNavigate, useParams } from 'react-router-dom';
-import { manufacturingOrderApi, inventoryApi } from '../services/api';
+import { manufacturingOrderApi, inventoryApi, customerApi, getApiErrorMessage } from '../services/api';
+import type { Customer } from '../services/api';
+import MaterialAvailabilityPanel from '../components/ManufacturingOrders/MaterialAvailabilityPanel';
 
 // Definir todos los tipos localmente para evitar problemas de importación
 enum InventoryType {
@@ -50,14 +54,17 @@ interface InventoryItem {
 interface CreateManufacturingOrderRequest {
   modelId: string;
   quantity: number;
-  clientName: string;
+  clientName?: string;
+  customerId?: string;
   dueDate: Date | string;
   notes?: string;
   componentIds?: string[];
+  blockOnShortage?: boolean;
 }
 
 interface UpdateManufacturingOrderRequest {
   clientName?: string;
+  customerId?: string;
   dueDate?: Date | string;
   notes?: string;
   quantity?: number;
@@ -72,14 +79,17 @@ const ManufacturingOrderForm: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [models, setModels] = useState<InventoryItem[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
 
   const [formData, setFormData] = useState({
     modelId: '',
     quantity: 1,
     clientName: '',
+    customerId: '',
     dueDate: '',
     notes: '',
     componentIds: [] as string[],
+    blockOnShortage: false,
   });
 
   const [selectedModel, setSelectedModel] = useState<InventoryItem | null>(null);
@@ -88,6 +98,7 @@ const ManufacturingOrderForm: React.FC = () => {
 
   useEffect(() => {
     fetchModels();
+    fetchCustomers();
     if (isEditing && id) {
       fetchOrderData();
     }
@@ -108,6 +119,14 @@ const ManufacturingOrderForm: React.FC = () => {
     }
   };
 
+  const fetchCustomers = async () => {
+    try {
+      setCustomers(await customerApi.getAll({ isActive: true }));
+    } catch (err) {
+      console.error('Error fetching customers:', err);
+    }
+  };
+
   const fetchOrderData = async () => {
     if (!id) return;
     try {
@@ -117,9 +136,11 @@ const ManufacturingOrderForm: React.FC = () => {
         modelId: order.modelId,
         quantity: order.quantity,
         clientName: order.clientName,
+        customerId: order.customerId || '',
         dueDate: new Date(order.dueDate).toISOString().split('T')[0],
         notes: order.notes || '',
         componentIds: order.components.map(c => c.componentId),
+        blockOnShortage: false,
       });
 
       // Buscar el modelo para mostrar en el selector
@@ -210,6 +231,7 @@ const ManufacturingOrderForm: React.FC = () => {
       if (isEditing && id) {
         const updateRequest: UpdateManufacturingOrderRequest = {
           clientName: formData.clientName.trim(),
+          customerId: formData.customerId || undefined,
           dueDate,
           notes: formData.notes?.trim(),
           quantity: formData.quantity,
@@ -221,9 +243,11 @@ const ManufacturingOrderForm: React.FC = () => {
           modelId: formData.modelId,
           quantity: formData.quantity,
           clientName: formData.clientName.trim(),
+          customerId: formData.customerId || undefined,
           dueDate,
           notes: formData.notes?.trim(),
           componentIds: formData.componentIds,
+          blockOnShortage: formData.blockOnShortage,
         };
         const response = await manufacturingOrderApi.createOrder(createRequest);
         setSuccess(`Orden de fabricación creada exitosamente con ${formData.quantity} tarjeta${formData.quantity > 1 ? 's' : ''} de producción`);
@@ -232,8 +256,8 @@ const ManufacturingOrderForm: React.FC = () => {
       setTimeout(() => {
         navigate('/manufacturing-orders');
       }, 1500);
-    } catch (err: any) {
-      setError(err.message || 'Error al guardar la orden');
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al guardar la orden'));
     } finally {
       setLoading(false);
     }
@@ -290,12 +314,28 @@ const ManufacturingOrderForm: React.FC = () => {
 
             {/* Cliente */}
             <Grid item xs={12} md={6}>
-              <TextField
-                fullWidth
-                label="Nombre del Cliente *"
-                value={formData.clientName}
-                onChange={(e) => setFormData(prev => ({ ...prev, clientName: e.target.value }))}
-                required
+              <Autocomplete
+                freeSolo
+                options={customers}
+                getOptionLabel={(option) => typeof option === 'string' ? option : `${option.name} (${option.code})`}
+                value={customers.find(c => c.id === formData.customerId) || formData.clientName}
+                onChange={(_, value) => setFormData(prev => typeof value === 'string' || !value
+                  ? { ...prev, customerId: '', clientName: value || '' }
+                  : { ...prev, customerId: value.id, clientName: value.name })}
+                onInputChange={(_, value, reason) => {
+                  // Escribir a mano desvincula el cliente seleccionado
+                  if (reason === 'input') {
+                    setFormData(prev => ({ ...prev, customerId: '', clientName: value }));
+                  }
+                }}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Cliente *"
+                    required
+                    helperText={formData.customerId ? undefined : 'Selecciona un cliente o escribe un nombre libre'}
+                  />
+                )}
               />
             </Grid>
 
@@ -399,6 +439,27 @@ const ManufacturingOrderForm: React.FC = () => {
               </Grid>
             )}
 
+            {/* Disponibilidad de materiales */}
+            {!isEditing && formData.modelId && (
+              <Grid item xs={12}>
+                <MaterialAvailabilityPanel
+                  modelId={formData.modelId}
+                  quantity={formData.quantity}
+                  componentIds={formData.componentIds}
+                />
+                <FormControlLabel
+                  sx={{ mt: 1 }}
+                  control={
+                    <Checkbox
+                      checked={formData.blockOnShortage}
+                      onChange={(e) => setFormData(prev => ({ ...prev, blockOnShortage: e.target.checked }))}
+                    />
+                  }
+                  label="Bloquear la creación si faltan materiales"
+                />
+              </Grid>
+            )}
+
             {/* Botones */}
             <Grid item xs={12}>
               <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
@@ -41,6 +41,7 @@ import {
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { manufacturingOrderApi } from '../services/api';
+import type { OverdueRisk } from '../services/api';
 
 // Definir tipos localmente para evitar problemas de importación
 enum ManufacturingOrderStatus {
@@ -74,8 +75,11 @@ interface ManufacturingOrder {
   components: ComponentProgress[];
   notes?: string;
   estimatedHours: number;
+  deliveredQuantity?: number;
   startedAt?: string;
   completedAt?: string;
+  remainingWorkingHours?: number;
+  overdueRisk?: OverdueRisk;
   createdAt: string;
   updatedAt: string;
 }
@@ -191,8 +195,11 @@ const ManufacturingOrders: React.FC = () => {
     return d.toLocaleDateString('es-ES');
   };
 
-  const isOverdue = (dueDate: Date | string): boolean => {
-    return new Date(dueDate) < new Date();
+  const isOverdue = (order: ManufacturingOrder): boolean => {
+    if (order.overdueRisk) {
+      return order.overdueRisk === 'overdue';
+    }
+    return new Date(order.dueDate) < new Date();
   };
 
   const getProgress = (order: ManufacturingOrder): number => {
@@ -332,11 +339,18 @@ const ManufacturingOrders: React.FC = () => {
                   </Box>
                 </TableCell>
                 <TableCell>{order.clientName}</TableCell>
-                <TableCell>{order.quantity}</TableCell>
+                <TableCell>
+                  {order.quantity}
+                  {(order.deliveredQuantity || 0) > 0 && (
+                    <Typography variant="caption" display="block" color="textSecondary">
+                      {order.deliveredQuantity} entregadas
+                    </Typography>
+                  )}
+                </TableCell>
                 <TableCell>
                   <Typography
                     variant="body2"
-                    color={isOverdue(order.dueDate) ? 'error' : 'text.primary'}
+                    color={isOverdue(order) ? 'error' : order.overdueRisk === 'at_risk' ? 'warning.main' : 'text.primary'}
                   >
                     {formatDate(order.dueDate)}
                   </Typography>
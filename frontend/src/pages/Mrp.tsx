@@ -0,0 +1,433 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  Checkbox,
+  IconButton,
+  TextField,
+  MenuItem,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tabs,
+  Tab,
+  Tooltip,
+} from '@mui/material';
+import {
+  PlayArrow as RunIcon,
+  TaskAlt as FirmIcon,
+  Visibility as ViewIcon,
+} from '@mui/icons-material';
+import { mrpApi, getApiErrorMessage } from '../services/api';
+import type { MrpItemPlan, MrpRun, PlannedOrder, PlannedOrderType } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+
+const typeLabels: Record<PlannedOrderType, string> = {
+  buy: 'Compra',
+  make: 'Fabricación',
+};
+
+const itemTypeLabels: Record<string, string> = {
+  model: 'Modelo',
+  component: 'Componente',
+  material: 'Material',
+};
+
+interface FirmOverride {
+  quantity: number;
+  dueDate: string;
+}
+
+const formatDate = (value?: string): string => (value ? new Date(value).toLocaleDateString('es-ES') : '-');
+
+// Los días del MRP (periodos y fechas de las órdenes planificadas) se guardan a medianoche UTC
+const formatDay = (value: string): string => new Date(value).toLocaleDateString('es-ES', { timeZone: 'UTC' });
+
+const toInputDate = (value: string): string => {
+  const date = new Date(value);
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${date.getUTCFullYear()}-${month}-${day}`;
+};
+
+const Mrp: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canPlan = hasRole('planner');
+  const [tab, setTab] = useState(0);
+  const [run, setRun] = useState<MrpRun | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'planned' | ''>('planned');
+  const [selected, setSelected] = useState<Record<number, FirmOverride>>({});
+  const [viewing, setViewing] = useState<MrpItemPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [firming, setFirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchRun = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRun(await mrpApi.getLatestRun());
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar el MRP'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRun();
+  }, [fetchRun]);
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      setError(null);
+      setSuccess(null);
+      const newRun = await mrpApi.run();
+      setRun(newRun);
+      setSelected({});
+      setSuccess(`MRP ejecutado: ${newRun.plannedOrders.length} órdenes planificadas`);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al ejecutar el MRP'));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const toggleSelected = (plannedOrder: PlannedOrder) => {
+    const next = { ...selected };
+    if (next[plannedOrder.number]) {
+      delete next[plannedOrder.number];
+    } else {
+      next[plannedOrder.number] = { quantity: plannedOrder.quantity, dueDate: toInputDate(plannedOrder.dueDate) };
+    }
+    setSelected(next);
+  };
+
+  const handleOverrideChange = (number: number, field: keyof FirmOverride, value: string) => {
+    setSelected({
+      ...selected,
+      [number]: { ...selected[number], [field]: field === 'quantity' ? Number(value) : value },
+    });
+  };
+
+  const handleFirm = async () => {
+    if (!run) return;
+    try {
+      setFirming(true);
+      setError(null);
+      setSuccess(null);
+      const result = await mrpApi.firm(run.id, {
+        plannedOrders: Object.entries(selected).map(([number, override]) => ({
+          number: Number(number),
+          quantity: override.quantity,
+          dueDate: override.dueDate || undefined,
+        })),
+      });
+      setRun(result.run);
+      setSelected({});
+      const created = result.purchaseOrders.length + result.manufacturingOrders.length;
+      setSuccess(`${created} órdenes creadas (${result.purchaseOrders.length} de compra, ${result.manufacturingOrders.length} de fabricación)`);
+      if (result.errors.length > 0) {
+        setError(`No se pudieron firmar: ${result.errors.join('; ')}`);
+      }
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al firmar las órdenes planificadas'));
+    } finally {
+      setFirming(false);
+    }
+  };
+
+  const plannedOrders = (run?.plannedOrders || []).filter(order => !statusFilter || order.status === statusFilter);
+  const pendingCount = (run?.plannedOrders || []).filter(order => order.status === 'planned').length;
+  const selectedCount = Object.keys(selected).length;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h4">MRP</Typography>
+        {canPlan && (
+          <Button variant="contained" startIcon={<RunIcon />} onClick={handleRun} disabled={running}>
+            Ejecutar MRP
+          </Button>
+        )}
+      </Box>
+      <Typography variant="body2" color="textSecondary" sx={{ mb: 3 }}>
+        {run
+          ? `Última ejecución: ${new Date(run.runAt).toLocaleString('es-ES')}${run.runBy ? ` por ${run.runBy}` : ''}`
+          : 'El MRP no se ha ejecutado todavía'}
+      </Typography>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab label={`Órdenes planificadas (${pendingCount})`} />
+        <Tab label={`Necesidades netas (${run?.items.length || 0})`} />
+      </Tabs>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {(loading || running || firming) && <LinearProgress sx={{ mb: 2 }} />}
+
+      {tab === 0 ? (
+        <>
+          <Paper sx={{ p: 2, mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <TextField
+              select
+              label="Estado"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as 'planned' | '')}
+              size="small"
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="planned">Pendientes de firmar</MenuItem>
+              <MenuItem value="">Todas</MenuItem>
+            </TextField>
+            {canPlan && (
+              <Button
+                variant="contained"
+                color="success"
+                startIcon={<FirmIcon />}
+                onClick={handleFirm}
+                disabled={firming || selectedCount === 0}
+              >
+                Firmar seleccionadas ({selectedCount})
+              </Button>
+            )}
+          </Paper>
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {canPlan && <TableCell padding="checkbox" />}
+                  <TableCell>Nº</TableCell>
+                  <TableCell>Tipo</TableCell>
+                  <TableCell>Artículo</TableCell>
+                  <TableCell width={130}>Cantidad</TableCell>
+                  <TableCell>Lanzamiento</TableCell>
+                  <TableCell width={170}>Necesidad</TableCell>
+                  <TableCell>Proveedor</TableCell>
+                  <TableCell>Origen</TableCell>
+                  <TableCell>Estado</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {plannedOrders.map(plannedOrder => {
+                  const override = selected[plannedOrder.number];
+                  const isPlanned = plannedOrder.status === 'planned';
+                  return (
+                    <TableRow key={plannedOrder.number} selected={Boolean(override)}>
+                      {canPlan && (
+                        <TableCell padding="checkbox">
+                          {isPlanned && (
+                            <Checkbox checked={Boolean(override)} onChange={() => toggleSelected(plannedOrder)} />
+                          )}
+                        </TableCell>
+                      )}
+                      <TableCell>{plannedOrder.number}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={typeLabels[plannedOrder.type]}
+                          color={plannedOrder.type === 'buy' ? 'info' : 'secondary'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {plannedOrder.itemName}
+                        <Typography variant="caption" display="block" color="textSecondary">
+                          {plannedOrder.itemSku}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {override ? (
+                          <TextField
+                            type="number"
+                            size="small"
+                            value={override.quantity}
+                            onChange={(e) => handleOverrideChange(plannedOrder.number, 'quantity', e.target.value)}
+                            inputProps={{ min: 0, step: plannedOrder.type === 'make' ? 1 : 0.01 }}
+                            helperText={plannedOrder.unit}
+                          />
+                        ) : (
+                          `${plannedOrder.quantity} ${plannedOrder.unit}`
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatDay(plannedOrder.releaseDate)}
+                        {isPlanned && plannedOrder.isLate && (
+                          <Chip label="Atrasada" color="error" size="small" sx={{ ml: 1 }} />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {override ? (
+                          <TextField
+                            type="date"
+                            size="small"
+                            value={override.dueDate}
+                            onChange={(e) => handleOverrideChange(plannedOrder.number, 'dueDate', e.target.value)}
+                          />
+                        ) : (
+                          formatDay(plannedOrder.dueDate)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {plannedOrder.type === 'buy' ? plannedOrder.supplierName || (
+                          <Typography variant="body2" color="error">Sin proveedor</Typography>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {plannedOrder.sources.map(source => (
+                          <Typography key={source} variant="body2">{source}</Typography>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        {isPlanned ? (
+                          <Chip label="Planificada" size="small" />
+                        ) : (
+                          <Tooltip title={`Firmada ${formatDate(plannedOrder.firmedAt)}${plannedOrder.firmedBy ? ` por ${plannedOrder.firmedBy}` : ''}`}>
+                            <Chip label={plannedOrder.firmedReference || 'Firmada'} color="success" size="small" />
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {!loading && plannedOrders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={canPlan ? 10 : 9} align="center">
+                      {run ? 'No hay órdenes planificadas' : 'Ejecuta el MRP para calcular las necesidades'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>SKU</TableCell>
+                <TableCell>Artículo</TableCell>
+                <TableCell>Tipo</TableCell>
+                <TableCell align="right">Nivel</TableCell>
+                <TableCell align="right">Disponible</TableCell>
+                <TableCell align="right">Mín / Máx</TableCell>
+                <TableCell align="right">Necesidad bruta</TableCell>
+                <TableCell align="right">Necesidad neta</TableCell>
+                <TableCell align="right">Detalle</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(run?.items || []).map(item => {
+                const gross = item.periods.reduce((sum, period) => sum + period.grossRequirement, 0);
+                const net = item.periods.reduce((sum, period) => sum + period.netRequirement, 0);
+                return (
+                  <TableRow key={item.itemId}>
+                    <TableCell>{item.itemSku}</TableCell>
+                    <TableCell>{item.itemName}</TableCell>
+                    <TableCell>{itemTypeLabels[item.type] || item.type}</TableCell>
+                    <TableCell align="right">{item.lowLevelCode}</TableCell>
+                    <TableCell align="right">{item.onHand - item.reserved} {item.unit}</TableCell>
+                    <TableCell align="right">{item.minimumStock} / {item.maximumStock}</TableCell>
+                    <TableCell align="right">{Number(gross.toFixed(4))}</TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" color={net > 0 ? 'error' : 'textPrimary'}>
+                        {Number(net.toFixed(4))}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Ver periodos">
+                        <IconButton size="small" onClick={() => setViewing(item)}>
+                          <ViewIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {!loading && (run?.items.length || 0) === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} align="center">
+                    {run ? 'Sin necesidades en la última ejecución' : 'Ejecuta el MRP para calcular las necesidades'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={Boolean(viewing)} onClose={() => setViewing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{viewing ? `${viewing.itemSku} · ${viewing.itemName}` : ''}</DialogTitle>
+        <DialogContent>
+          {viewing && (
+            <>
+              <Typography variant="body2" color="textSecondary" gutterBottom>
+                En stock {viewing.onHand} {viewing.unit} · Reservado {viewing.reserved} · Stock mínimo {viewing.minimumStock}
+                {viewing.maximumStock > 0 ? ` · Stock máximo ${viewing.maximumStock}` : ''}
+                {viewing.type === 'material' ? ` · Plazo ${viewing.leadTimeDays} días` : ''}
+              </Typography>
+              <Table size="small" sx={{ mt: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Fecha</TableCell>
+                    <TableCell align="right">Necesidad bruta</TableCell>
+                    <TableCell align="right">Entradas previstas</TableCell>
+                    <TableCell align="right">Órdenes planificadas</TableCell>
+                    <TableCell align="right">Disponible proyectado</TableCell>
+                    <TableCell align="right">Necesidad neta</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {viewing.periods.map(period => (
+                    <TableRow key={period.date}>
+                      <TableCell>{formatDay(period.date)}</TableCell>
+                      <TableCell align="right">{period.grossRequirement || '-'}</TableCell>
+                      <TableCell align="right">{period.scheduledReceipts || '-'}</TableCell>
+                      <TableCell align="right">{period.plannedReceipts || '-'}</TableCell>
+                      <TableCell align="right">{period.projectedAvailable}</TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" color={period.netRequirement > 0 ? 'error' : 'textPrimary'}>
+                          {period.netRequirement || '-'}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setViewing(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Mrp;
@@ -0,0 +1,383 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Grid,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Alert,
+  LinearProgress,
+  Chip,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { nonConformanceApi, getApiErrorMessage, formatNcrNumber } from '../services/api';
+import type {
+  DefectRateReport,
+  DefectType,
+  NonConformance,
+  NonConformanceDisposition,
+  NonConformanceStatus,
+} from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+
+const defectTypeLabels: Record<DefectType, string> = {
+  dimensional: 'Dimensional',
+  cosmetic: 'Estético',
+  functional: 'Funcional',
+  material: 'Material',
+  assembly: 'Montaje',
+  other: 'Otro',
+};
+
+const dispositionLabels: Record<NonConformanceDisposition, string> = {
+  rework: 'Retrabajo',
+  scrap: 'Desecho',
+  use_as_is: 'Usar tal cual',
+};
+
+const dispositionHelp: Record<NonConformanceDisposition, string> = {
+  rework: 'Se cancela la tarjeta y se genera una tarjeta de retrabajo con los componentes afectados reabiertos.',
+  scrap: 'Se cancela la tarjeta y se dan de baja los componentes ya fabricados.',
+  use_as_is: 'La unidad se acepta por concesión y la tarjeta puede completarse.',
+};
+
+const toInputDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const NonConformances: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canDisposition = hasRole('planner');
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 30);
+    return toInputDate(date);
+  });
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+  const [status, setStatus] = useState<NonConformanceStatus | ''>('open');
+  const [report, setReport] = useState<DefectRateReport | null>(null);
+  const [nonConformances, setNonConformances] = useState<NonConformance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<NonConformance | null>(null);
+  const [disposition, setDisposition] = useState<NonConformanceDisposition>('rework');
+  const [notes, setNotes] = useState('');
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // El día final se incluye completo
+      const end = new Date(`${to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      const period = { from: new Date(`${from}T00:00:00`).toISOString(), to: end.toISOString() };
+      const [rates, list] = await Promise.all([
+        nonConformanceApi.getDefectRates(period),
+        // Las abiertas se muestran aunque sean anteriores al periodo
+        nonConformanceApi.getAll(status === 'open' ? { status } : { ...period, status: status || undefined }),
+      ]);
+      setReport(rates);
+      setNonConformances(list);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar las no conformidades'));
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openDisposition = (nonConformance: NonConformance) => {
+    setSelected(nonConformance);
+    setDisposition(nonConformance.affectedComponents.length > 0 ? 'rework' : 'use_as_is');
+    setNotes('');
+    setDialogError(null);
+  };
+
+  const handleDisposition = async () => {
+    if (!selected) return;
+    try {
+      setSaving(true);
+      setDialogError(null);
+      await nonConformanceApi.disposition(selected.id, disposition, notes.trim() || undefined);
+      setSelected(null);
+      await fetchData();
+    } catch (err) {
+      setDialogError(getApiErrorMessage(err, 'Error al registrar la disposición'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Calidad</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            label="Desde"
+            type="date"
+            size="small"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="Hasta"
+            type="date"
+            size="small"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchData}>
+            Actualizar
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {report && (
+        <>
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Unidades fabricadas</Typography>
+                  <Typography variant="h4">{report.totals.unitsBuilt}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>No conformidades</Typography>
+                  <Typography variant="h4">{report.totals.nonConformances}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Tasa de defectos</Typography>
+                  <Typography variant="h4">{report.totals.defectRate}%</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>Abiertas</Typography>
+                  <Typography variant="h4">{report.totals.open}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Tasa de defectos por modelo
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Modelo</TableCell>
+                    <TableCell align="right">Unidades</TableCell>
+                    <TableCell align="right">NCR</TableCell>
+                    <TableCell align="right">Tasa</TableCell>
+                    <TableCell align="right">Retrabajo</TableCell>
+                    <TableCell align="right">Desecho</TableCell>
+                    <TableCell align="right">Tal cual</TableCell>
+                    <TableCell>Defectos</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.byModel.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} align="center">
+                        <Typography variant="body2" color="text.secondary">Sin producción en el periodo</Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {report.byModel.map(line => (
+                    <TableRow key={line.modelId}>
+                      <TableCell>{line.modelName}</TableCell>
+                      <TableCell align="right">{line.unitsBuilt}</TableCell>
+                      <TableCell align="right">{line.nonConformances}</TableCell>
+                      <TableCell align="right">{line.defectRate}%</TableCell>
+                      <TableCell align="right">{line.rework}</TableCell>
+                      <TableCell align="right">{line.scrap}</TableCell>
+                      <TableCell align="right">{line.useAsIs}</TableCell>
+                      <TableCell>
+                        {(Object.entries(line.byDefectType) as [DefectType, number][])
+                          .map(([type, count]) => `${defectTypeLabels[type]}: ${count}`)
+                          .join(', ') || '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+
+      <Paper sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">No conformidades</Typography>
+          <TextField
+            select
+            size="small"
+            label="Estado"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as NonConformanceStatus | '')}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="open">Abiertas</MenuItem>
+            <MenuItem value="closed">Cerradas</MenuItem>
+            <MenuItem value="">Todas</MenuItem>
+          </TextField>
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>NCR</TableCell>
+                <TableCell>Tarjeta</TableCell>
+                <TableCell>Modelo</TableCell>
+                <TableCell>Defecto</TableCell>
+                <TableCell>Componentes</TableCell>
+                <TableCell>Registrada</TableCell>
+                <TableCell>Disposición</TableCell>
+                {canDisposition && <TableCell align="right">Acciones</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {!loading && nonConformances.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    No hay no conformidades
+                  </TableCell>
+                </TableRow>
+              )}
+              {nonConformances.map(nonConformance => (
+                <TableRow key={nonConformance.id}>
+                  <TableCell>{formatNcrNumber(nonConformance.ncrNumber)}</TableCell>
+                  <TableCell>{nonConformance.cardLabel}</TableCell>
+                  <TableCell>{nonConformance.modelName}</TableCell>
+                  <TableCell title={nonConformance.description}>
+                    {defectTypeLabels[nonConformance.defectType]}
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      {nonConformance.description}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {nonConformance.affectedComponents.map(component => component.componentName).join(', ') || 'Conjunto'}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(nonConformance.createdAt).toLocaleDateString('es-ES')}
+                    {nonConformance.reportedBy && ` · ${nonConformance.reportedBy}`}
+                  </TableCell>
+                  <TableCell>
+                    {nonConformance.disposition ? (
+                      <Chip
+                        size="small"
+                        label={dispositionLabels[nonConformance.disposition]}
+                        color={nonConformance.disposition === 'scrap' ? 'error' : nonConformance.disposition === 'rework' ? 'warning' : 'default'}
+                        title={nonConformance.dispositionNotes}
+                      />
+                    ) : (
+                      <Chip size="small" label="Abierta" color="info" />
+                    )}
+                  </TableCell>
+                  {canDisposition && (
+                    <TableCell align="right">
+                      {nonConformance.status === 'open' && (
+                        <Button size="small" variant="outlined" onClick={() => openDisposition(nonConformance)}>
+                          Disposición
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          Disposición {selected && formatNcrNumber(selected.ncrNumber)}
+        </DialogTitle>
+        <DialogContent>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+          <TextField
+            select
+            fullWidth
+            label="Disposición"
+            value={disposition}
+            onChange={(e) => setDisposition(e.target.value as NonConformanceDisposition)}
+            margin="normal"
+            helperText={dispositionHelp[disposition]}
+          >
+            {(Object.keys(dispositionLabels) as NonConformanceDisposition[]).map(option => (
+              <MenuItem key={option} value={option}>
+                {dispositionLabels[option]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notas"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelected(null)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleDisposition} disabled={saving}>
+            Confirmar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default NonConformances;
@@ -0,0 +1,635 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Alert,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+  Today as TodayIcon,
+  Schedule as ScheduleIcon,
+  PushPin as PinIcon,
+  ViewTimeline as GanttIcon,
+} from '@mui/icons-material';
+import { productionCardApi, factoryCalendarApi, getApiErrorMessage, ProductionCardStatus } from '../services/api';
+import type { FactoryCalendar, ProductionCard } from '../services/api';
+
+type GanttView = 'orders' | 'workCenters';
+
+interface GanttBar {
+  key: string;
+  cardId: string;
+  label: string;
+  detail: string;
+  plannedStart?: number;
+  plannedFinish?: number;
+  actualStart?: number;
+  actualFinish?: number;
+  dueDate?: number;
+  late: boolean;
+  paused: boolean;
+  draggable: boolean;
+}
+
+interface GanttRow {
+  key: string;
+  label: string;
+  sublabel?: string;
+  isGroup: boolean;
+  pinnedCardId?: string;
+  bars: GanttBar[];
+}
+
+interface DragState {
+  cardId: string;
+  plannedStart: number;
+  originX: number;
+  timelineWidth: number;
+  offsetMs: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const LABEL_WIDTH = 240;
+const ROW_HEIGHT = 44;
+const GENERAL_LANE_KEY = 'general';
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const toTime = (date?: string) => (date ? new Date(date).getTime() : undefined);
+
+const endOfDueDay = (date: string) => startOfDay(new Date(date)).getTime() + DAY_MS - 1;
+
+const formatDateTime = (time?: number) =>
+  time !== undefined
+    ? new Date(time).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : '-';
+
+// Tiempo real de una tarjeta según su cronómetro (hasta la pausa actual o hasta ahora si sigue en curso)
+const getActualWindow = (card: ProductionCard, now: number) => {
+  const actualStart = toTime(card.timeTracker?.startTime) ?? toTime(card.startedAt);
+  if (actualStart === undefined) {
+    return {};
+  }
+
+  const openPause = card.timeTracker?.segments?.filter(segment => segment.kind === 'pause' && !segment.endTime).pop();
+  const pausedAt = card.timeTracker?.isPaused ? toTime(openPause?.startTime ?? card.timeTracker.pauseStartTime) : undefined;
+  return { actualStart, actualFinish: toTime(card.completedAt) ?? pausedAt ?? now };
+};
+
+const buildCardBar = (card: ProductionCard, now: number): GanttBar => ({
+  key: card.id,
+  cardId: card.id,
+  label: `${card.orderName} (${card.cardNumber}/${card.totalCards})`,
+  detail: card.modelName,
+  plannedStart: toTime(card.plannedStart),
+  plannedFinish: toTime(card.plannedFinish),
+  ...getActualWindow(card, now),
+  dueDate: endOfDueDay(card.dueDate),
+  late: !!card.willMissDueDate,
+  paused: card.status === ProductionCardStatus.PAUSED,
+  draggable: card.status === ProductionCardStatus.PENDING && !!card.plannedStart,
+});
+
+// Filas por orden de fabricación: una fila resumen por orden y una por tarjeta
+const buildOrderRows = (cards: ProductionCard[], now: number): GanttRow[] => {
+  const orders = new Map<string, ProductionCard[]>();
+  cards.forEach(card => {
+    orders.set(card.orderId, [...(orders.get(card.orderId) || []), card]);
+  });
+
+  const rows: GanttRow[] = [];
+  Array.from(orders.values())
+    .sort((a, b) => new Date(a[0].dueDate).getTime() - new Date(b[0].dueDate).getTime())
+    .forEach(orderCards => {
+      const cardBars = orderCards
+        .sort((a, b) => a.cardNumber - b.cardNumber)
+        .map(card => buildCardBar(card, now));
+      const plannedStarts = cardBars.map(bar => bar.plannedStart).filter((time): time is number => time !== undefined);
+      const plannedFinishes = cardBars.map(bar => bar.plannedFinish).filter((time): time is number => time !== undefined);
+      const first = orderCards[0];
+
+      rows.push({
+        key: `order-${first.orderId}`,
+        label: first.orderName,
+        sublabel: `${first.modelName} · ${orderCards.length} tarjeta(s)`,
+        isGroup: true,
+        bars: [{
+          key: `order-${first.orderId}`,
+          cardId: '',
+          label: first.orderName,
+          detail: `${orderCards.length} tarjeta(s)`,
+          plannedStart: plannedStarts.length > 0 ? Math.min(...plannedStarts) : undefined,
+          plannedFinish: plannedFinishes.length > 0 ? Math.max(...plannedFinishes) : undefined,
+          dueDate: endOfDueDay(first.dueDate),
+          late: cardBars.some(bar => bar.late),
+          paused: false,
+          draggable: false,
+        }],
+      });
+
+      orderCards.forEach((card, index) => {
+        rows.push({
+          key: card.id,
+          label: `Tarjeta ${card.cardNumber}/${card.totalCards}`,
+          sublabel: card.modelSku,
+          isGroup: false,
+          pinnedCardId: card.pinnedStart ? card.id : undefined,
+          bars: [cardBars[index]],
+        });
+      });
+    });
+
+  return rows;
+};
+
+// Filas por centro de trabajo con las operaciones programadas en cada uno
+const buildWorkCenterRows = (cards: ProductionCard[], now: number): GanttRow[] => {
+  const lanes = new Map<string, GanttRow>();
+  const getLane = (key: string, label: string) => {
+    if (!lanes.has(key)) {
+      lanes.set(key, { key, label, isGroup: false, bars: [] });
+    }
+    return lanes.get(key)!;
+  };
+
+  cards.forEach(card => {
+    const cardLabel = `${card.orderName} (${card.cardNumber}/${card.totalCards})`;
+
+    if (!card.operations || card.operations.length === 0) {
+      getLane(GENERAL_LANE_KEY, 'Sin centro de trabajo').bars.push(buildCardBar(card, now));
+      return;
+    }
+
+    card.operations.forEach(operation => {
+      if (!operation.plannedStart && !operation.startedAt) {
+        return;
+      }
+
+      getLane(operation.workCenterId, operation.workCenterName).bars.push({
+        key: `${card.id}-${operation.operationId}`,
+        cardId: card.id,
+        label: cardLabel,
+        detail: `${operation.sequence} · ${operation.name} (${operation.itemName})`,
+        plannedStart: toTime(operation.plannedStart),
+        plannedFinish: toTime(operation.plannedFinish),
+        actualStart: toTime(operation.startedAt),
+        actualFinish: operation.startedAt ? toTime(operation.completedAt) ?? now : undefined,
+        late: !!card.willMissDueDate,
+        paused: card.status === ProductionCardStatus.PAUSED,
+        draggable: card.status === ProductionCardStatus.PENDING && !!card.plannedStart,
+      });
+    });
+  });
+
+  return Array.from(lanes.values())
+    .map(lane => {
+      const plannedHours = lane.bars.reduce(
+        (total, bar) => total + ((bar.plannedFinish ?? 0) - (bar.plannedStart ?? 0)) / HOUR_MS,
+        0
+      );
+      return { ...lane, sublabel: `${lane.bars.length} operación(es) · ${Math.round(plannedHours)} h` };
+    })
+    .sort((a, b) => (a.key === GENERAL_LANE_KEY ? 1 : b.key === GENERAL_LANE_KEY ? -1 : a.label.localeCompare(b.label)));
+};
+
+const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Días sin turnos, festivos o de cierre de planta según el calendario de fábrica
+const isNonWorkingDay = (day: Date, calendar: FactoryCalendar | null): boolean => {
+  if (!calendar) {
+    return day.getDay() === 0 || day.getDay() === 6;
+  }
+  const key = toDayKey(day);
+  const schedule = calendar.weekdays.find(weekday => weekday.weekday === day.getDay());
+  return !schedule || schedule.shifts.length === 0 ||
+    calendar.holidays.some(holiday => holiday.date === key) ||
+    calendar.closures.some(closure => closure.startDate <= key && key <= closure.endDate);
+};
+
+const ProductionGantt: React.FC = () => {
+  const [cards, setCards] = useState<ProductionCard[]>([]);
+  const [calendar, setCalendar] = useState<FactoryCalendar | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<GanttView>('orders');
+  const [rangeDays, setRangeDays] = useState(14);
+  const [rangeStart, setRangeStart] = useState(() => startOfDay(new Date()).getTime());
+  const [now, setNow] = useState(() => Date.now());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const rangeMs = rangeDays * DAY_MS;
+  const rangeEnd = rangeStart + rangeMs;
+
+  const fetchCards = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [data, factoryCalendar] = await Promise.all([
+        productionCardApi.getAllCards(),
+        factoryCalendarApi.get(),
+      ]);
+      setCalendar(factoryCalendar);
+      setCards(data.filter(card => card.status !== ProductionCardStatus.CANCELLED));
+      setNow(Date.now());
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar la planificación'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCards();
+  }, [fetchCards]);
+
+  const handleSchedule = async () => {
+    try {
+      setScheduling(true);
+      setError(null);
+      await productionCardApi.scheduleCards();
+      await fetchCards();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al programar la producción'));
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  const handleUnpin = async (cardId: string) => {
+    try {
+      setError(null);
+      await productionCardApi.unpinCard(cardId);
+      await fetchCards();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al liberar la tarjeta'));
+    }
+  };
+
+  const reschedule = useCallback(async (cardId: string, plannedStart: number) => {
+    try {
+      setError(null);
+      await productionCardApi.rescheduleCard(cardId, new Date(plannedStart).toISOString());
+      await fetchCards();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al reprogramar la tarjeta'));
+    }
+  }, [fetchCards]);
+
+  const updateDrag = useCallback((next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  }, []);
+
+  const isDragging = drag !== null;
+
+  // Arrastre de barras: el desplazamiento se redondea a horas y se guarda al soltar
+  useEffect(() => {
+    if (!isDragging) {
+      return;
+    }
+
+    const handleMove = (event: MouseEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const offsetMs = ((event.clientX - current.originX) / current.timelineWidth) * rangeMs;
+      updateDrag({ ...current, offsetMs: Math.round(offsetMs / HOUR_MS) * HOUR_MS });
+    };
+
+    const handleUp = () => {
+      const current = dragRef.current;
+      updateDrag(null);
+      if (current && Math.abs(current.offsetMs) >= HOUR_MS) {
+        reschedule(current.cardId, current.plannedStart + current.offsetMs);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [isDragging, rangeMs, reschedule, updateDrag]);
+
+  const startDrag = (event: React.MouseEvent<HTMLElement>, bar: GanttBar) => {
+    const card = cards.find(c => c.id === bar.cardId);
+    const timeline = event.currentTarget.parentElement;
+    if (!bar.draggable || !card?.plannedStart || !timeline) {
+      return;
+    }
+
+    event.preventDefault();
+    updateDrag({
+      cardId: card.id,
+      plannedStart: new Date(card.plannedStart).getTime(),
+      originX: event.clientX,
+      timelineWidth: timeline.getBoundingClientRect().width,
+      offsetMs: 0,
+    });
+  };
+
+  const rows = useMemo(() => {
+    // Solo las tarjetas con plan o tiempo real dentro del rango visible
+    const visibleCards = cards.filter(card => {
+      const windows = [
+        [toTime(card.plannedStart), toTime(card.plannedFinish)],
+        [toTime(card.startedAt), toTime(card.completedAt) ?? now],
+      ];
+      return windows.some(([start, finish]) => start !== undefined && finish !== undefined && start < rangeEnd && finish > rangeStart);
+    });
+
+    return view === 'orders' ? buildOrderRows(visibleCards, now) : buildWorkCenterRows(visibleCards, now);
+  }, [cards, view, now, rangeStart, rangeEnd]);
+
+  const days = useMemo(
+    () => Array.from({ length: rangeDays }, (_, index) => new Date(rangeStart + index * DAY_MS)),
+    [rangeStart, rangeDays]
+  );
+
+  const toPercent = (time: number) => ((time - rangeStart) / rangeMs) * 100;
+
+  const renderSpan = (start: number | undefined, finish: number | undefined) => {
+    if (start === undefined || finish === undefined || finish <= rangeStart || start >= rangeEnd) {
+      return null;
+    }
+    const left = Math.max(0, toPercent(start));
+    const right = Math.min(100, toPercent(finish));
+    return { left: `${left}%`, width: `${Math.max(0.4, right - left)}%` };
+  };
+
+  const renderBar = (bar: GanttBar, isGroup: boolean) => {
+    const offset = drag && drag.cardId === bar.cardId ? drag.offsetMs : 0;
+    const planned = renderSpan(
+      bar.plannedStart !== undefined ? bar.plannedStart + offset : undefined,
+      bar.plannedFinish !== undefined ? bar.plannedFinish + offset : undefined
+    );
+    const actual = renderSpan(bar.actualStart, bar.actualFinish);
+    const tooltip = [
+      `${bar.label} — ${bar.detail}`,
+      `Previsto: ${formatDateTime(bar.plannedStart !== undefined ? bar.plannedStart + offset : undefined)} → ${formatDateTime(bar.plannedFinish !== undefined ? bar.plannedFinish + offset : undefined)}`,
+      bar.actualStart !== undefined ? `Real: ${formatDateTime(bar.actualStart)} → ${formatDateTime(bar.actualFinish)}` : 'Sin iniciar',
+      bar.late ? 'No llegará a su fecha límite' : '',
+    ].filter(Boolean).join('\n');
+
+    return (
+      <React.Fragment key={bar.key}>
+        {planned && (
+          <Tooltip title={<span style={{ whiteSpace: 'pre-line' }}>{tooltip}</span>} disableHoverListener={isDragging}>
+            <Box
+              onMouseDown={(event) => startDrag(event, bar)}
+              sx={{
+                position: 'absolute',
+                top: 6,
+                height: isGroup ? 10 : 18,
+                ...planned,
+                borderRadius: 1,
+                bgcolor: bar.late ? 'warning.light' : isGroup ? 'grey.500' : 'primary.light',
+                border: '1px solid',
+                borderColor: bar.late ? 'warning.main' : isGroup ? 'grey.600' : 'primary.main',
+                cursor: bar.draggable ? (offset !== 0 ? 'grabbing' : 'grab') : 'default',
+                opacity: offset !== 0 ? 0.8 : 1,
+                overflow: 'hidden',
+                whiteSpace: 'nowrap',
+                textOverflow: 'ellipsis',
+                fontSize: '0.7rem',
+                lineHeight: '18px',
+                px: 0.5,
+                color: 'common.white',
+                userSelect: 'none',
+              }}
+            >
+              {!isGroup && bar.label}
+            </Box>
+          </Tooltip>
+        )}
+        {actual && (
+          <Box
+            sx={{
+              position: 'absolute',
+              top: isGroup ? 20 : 28,
+              height: 8,
+              ...actual,
+              borderRadius: 1,
+              bgcolor: bar.paused ? 'warning.main' : 'success.main',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+        {bar.dueDate !== undefined && bar.dueDate >= rangeStart && bar.dueDate < rangeEnd && (
+          <Tooltip title={`Fecha límite: ${new Date(bar.dueDate).toLocaleDateString('es-ES')}`}>
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: `${toPercent(bar.dueDate)}%`,
+                width: 3,
+                bgcolor: 'error.main',
+              }}
+            />
+          </Tooltip>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  const todayInRange = now >= rangeStart && now < rangeEnd;
+  const dayGrid = {
+    backgroundImage: 'linear-gradient(to right, rgba(0, 0, 0, 0.08) 1px, transparent 1px)',
+    backgroundSize: `${100 / rangeDays}% 100%`,
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4" component="h1" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <GanttIcon color="primary" />
+          Planificación de Producción
+        </Typography>
+        <Button
+          variant="outlined"
+          startIcon={scheduling ? <CircularProgress size={16} /> : <ScheduleIcon />}
+          onClick={handleSchedule}
+          disabled={scheduling}
+        >
+          Programar
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+        <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, value: GanttView | null) => value && setView(value)}>
+          <ToggleButton value="orders">Por orden</ToggleButton>
+          <ToggleButton value="workCenters">Por centro de trabajo</ToggleButton>
+        </ToggleButtonGroup>
+        <ToggleButtonGroup size="small" exclusive value={rangeDays} onChange={(_, value: number | null) => value && setRangeDays(value)}>
+          <ToggleButton value={7}>1 semana</ToggleButton>
+          <ToggleButton value={14}>2 semanas</ToggleButton>
+          <ToggleButton value={28}>4 semanas</ToggleButton>
+        </ToggleButtonGroup>
+        <Box>
+          <IconButton size="small" onClick={() => setRangeStart(rangeStart - 7 * DAY_MS)}>
+            <PreviousIcon />
+          </IconButton>
+          <IconButton size="small" onClick={() => setRangeStart(startOfDay(new Date()).getTime())}>
+            <TodayIcon />
+          </IconButton>
+          <IconButton size="small" onClick={() => setRangeStart(rangeStart + 7 * DAY_MS)}>
+            <NextIcon />
+          </IconButton>
+        </Box>
+        <Typography variant="body2" color="textSecondary">
+          Arrastra una tarjeta pendiente para reprogramarla; su nuevo inicio queda fijado en las siguientes programaciones.
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      <Paper sx={{ overflowX: 'auto' }}>
+        <Box sx={{ minWidth: LABEL_WIDTH + rangeDays * 56 }}>
+          {/* Cabecera de días */}
+          <Box sx={{ display: 'flex', borderBottom: '1px solid', borderColor: 'divider' }}>
+            <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, p: 1, position: 'sticky', left: 0, bgcolor: 'background.paper', zIndex: 2 }}>
+              <Typography variant="subtitle2">{view === 'orders' ? 'Orden / tarjeta' : 'Centro de trabajo'}</Typography>
+            </Box>
+            <Box sx={{ flex: 1, display: 'flex' }}>
+              {days.map(day => {
+                const nonWorking = isNonWorkingDay(day, calendar);
+                return (
+                  <Box
+                    key={day.getTime()}
+                    sx={{
+                      flex: 1,
+                      textAlign: 'center',
+                      py: 1,
+                      borderLeft: '1px solid',
+                      borderColor: 'divider',
+                      bgcolor: nonWorking ? 'grey.100' : undefined,
+                    }}
+                  >
+                    <Typography variant="caption" color="textSecondary">
+                      {day.toLocaleDateString('es-ES', { weekday: 'short', day: 'numeric', month: 'short' })}
+                    </Typography>
+                  </Box>
+                );
+              })}
+            </Box>
+          </Box>
+
+          {rows.map(row => (
+            <Box
+              key={row.key}
+              sx={{
+                display: 'flex',
+                height: ROW_HEIGHT,
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+                bgcolor: row.isGroup ? 'grey.50' : undefined,
+              }}
+            >
+              <Box
+                sx={{
+                  width: LABEL_WIDTH,
+                  flexShrink: 0,
+                  px: 1,
+                  pl: row.isGroup || view === 'workCenters' ? 1 : 3,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  position: 'sticky',
+                  left: 0,
+                  bgcolor: row.isGroup ? 'grey.50' : 'background.paper',
+                  zIndex: 1,
+                }}
+              >
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" noWrap sx={{ fontWeight: row.isGroup ? 600 : 400 }}>
+                    {row.label}
+                  </Typography>
+                  {row.sublabel && (
+                    <Typography variant="caption" color="textSecondary" noWrap component="div">
+                      {row.sublabel}
+                    </Typography>
+                  )}
+                </Box>
+                {row.pinnedCardId && (
+                  <Tooltip title="Inicio fijado manualmente: quitar para programar por prioridad">
+                    <IconButton size="small" onClick={() => handleUnpin(row.pinnedCardId!)}>
+                      <PinIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+              <Box sx={{ flex: 1, position: 'relative', ...dayGrid }}>
+                {todayInRange && (
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      top: 0,
+                      bottom: 0,
+                      left: `${toPercent(now)}%`,
+                      width: 2,
+                      bgcolor: 'primary.main',
+                      opacity: 0.5,
+                    }}
+                  />
+                )}
+                {row.bars.map(bar => renderBar(bar, row.isGroup))}
+              </Box>
+            </Box>
+          ))}
+
+          {!loading && rows.length === 0 && (
+            <Box sx={{ p: 3, textAlign: 'center' }}>
+              <Typography color="textSecondary">
+                No hay producción planificada en este periodo. Pulsa "Programar" para calcular el plan.
+              </Typography>
+            </Box>
+          )}
+        </Box>
+      </Paper>
+
+      <Box sx={{ display: 'flex', gap: 3, mt: 2, flexWrap: 'wrap' }}>
+        {[
+          { label: 'Previsto', color: 'primary.light' },
+          { label: 'Previsto fuera de plazo', color: 'warning.light' },
+          { label: 'Real', color: 'success.main' },
+          { label: 'Real (pausada)', color: 'warning.main' },
+          { label: 'Fecha límite', color: 'error.main' },
+        ].map(item => (
+          <Box key={item.label} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box sx={{ width: 16, height: 10, borderRadius: 0.5, bgcolor: item.color }} />
+            <Typography variant="caption">{item.label}</Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default ProductionGantt;
@@ -39,8 +39,18 @@ import {
   Speed as SpeedIcon,
   Link as LinkIcon,
   AccessTime as AccessTimeIcon,
+  EventAvailable as PlannedIcon,
+  Login as ClockOnIcon,
+  Logout as ClockOffIcon,
 } from '@mui/icons-material';
-import { productionCardApi, manufacturingOrderApi } from '../services/api';
+import { productionCardApi, manufacturingOrderApi, laborApi, getApiErrorMessage } from '../services/api';
+import type { LaborEntry, OperationProgress, OverdueRisk, TimeSegment } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import CardOperationsList from '../components/Production/CardOperationsList';
+import PauseReasonDialog from '../components/Production/PauseReasonDialog';
+import CardTimeline from '../components/Production/CardTimeline';
+import CardInspectionPanel from '../components/Production/CardInspectionPanel';
+import NonConformanceDialog from '../components/Production/NonConformanceDialog';
 
 // Definir tipos localmente para evitar problemas de importación
 enum ProductionCardStatus {
@@ -65,6 +75,7 @@ interface TimeTracker {
   isPaused: boolean;
   totalPauseMinutes: number;
   pauseStartTime?: string;
+  segments?: TimeSegment[];
 }
 
 interface ComponentProgress {
@@ -93,11 +104,20 @@ interface ProductionCard {
   status: ProductionCardStatus;
   priority: ProductionCardPriority;
   components: ComponentProgress[];
+  operations?: OperationProgress[];
   notes?: string;
   estimatedHours: number;
   startedAt?: string;
   completedAt?: string;
   timeTracker?: TimeTracker;
+  plannedStart?: string;
+  plannedFinish?: string;
+  willMissDueDate?: boolean;
+  scheduledAt?: string;
+  remainingWorkingHours?: number;
+  overdueRisk?: OverdueRisk;
+  reworkOfCardId?: string;
+  serialNumber?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -113,6 +133,24 @@ const ProductionQueue: React.FC = () => {
   const [orderDialogOpen, setOrderDialogOpen] = useState(false);
   const [selectedOrderDetails, setSelectedOrderDetails] = useState<any>(null);
   const [loadingOrderDetails, setLoadingOrderDetails] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduleMessage, setScheduleMessage] = useState<{ severity: 'success' | 'warning'; text: string } | null>(null);
+  const [activeLabor, setActiveLabor] = useState<LaborEntry[]>([]);
+  // Tarjeta (o componente) pendiente de indicar el motivo de la pausa
+  const [pauseTarget, setPauseTarget] = useState<{ cardId: string; componentId?: string; label: string } | null>(null);
+  const [ncrDialogOpen, setNcrDialogOpen] = useState(false);
+  const { user, hasRole } = useAuth();
+  const canClock = hasRole('operator', 'planner');
+  const myLaborEntry = activeLabor.find(entry => entry.userId === user?.id);
+
+  // Operarios fichados en cada tarjeta
+  const fetchActiveLabor = useCallback(async () => {
+    try {
+      setActiveLabor(await laborApi.getActive());
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los fichajes'));
+    }
+  }, []);
 
   const fetchProductionQueue = useCallback(async (showLoading = true) => {
     try {
@@ -120,12 +158,13 @@ const ProductionQueue: React.FC = () => {
       setError(null);
       const data = await productionCardApi.getActiveCards();
       setCards(data);
+      await fetchActiveLabor();
     } catch (err: any) {
       setError(err.message || 'Error al cargar cola de producción');
     } finally {
       if (showLoading) setLoading(false);
     }
-  }, []);
+  }, [fetchActiveLabor]);
 
   // Función optimizada para actualizar una tarjeta específica sin re-fetch completo
   const updateSingleCard = useCallback(async (cardId: string) => {
@@ -267,7 +306,8 @@ const ProductionQueue: React.FC = () => {
   const canCompleteCard = (card: ProductionCard): boolean => {
     return (
       (card.status === ProductionCardStatus.IN_PROGRESS || card.status === ProductionCardStatus.PAUSED) &&
-      card.components.every(c => c.isCompleted)
+      card.components.every(c => c.isCompleted) &&
+      (card.operations || []).every(op => op.status === 'completed')
     );
   };
 
@@ -329,14 +369,21 @@ const ProductionQueue: React.FC = () => {
     }
   }, [updateSingleCard]);
 
-  const handlePauseProduction = useCallback(async (cardId: string) => {
-    try {
-      await productionCardApi.pauseProduction(cardId);
-      await updateSingleCard(cardId);
-    } catch (err: any) {
-      setError(err.message || 'Error al pausar producción');
+  const handlePauseProduction = useCallback((card: ProductionCard) => {
+    setPauseTarget({ cardId: card.id, label: `${card.orderName} (${card.cardNumber}/${card.totalCards})` });
+  }, []);
+
+  // Los errores se muestran dentro del diálogo del motivo
+  const handleConfirmPause = useCallback(async (reasonCode: string, notes?: string) => {
+    if (!pauseTarget) return;
+    if (pauseTarget.componentId) {
+      await productionCardApi.pauseComponentProduction(pauseTarget.cardId, pauseTarget.componentId, reasonCode, notes);
+    } else {
+      await productionCardApi.pauseProduction(pauseTarget.cardId, reasonCode, notes);
     }
-  }, [updateSingleCard]);
+    setPauseTarget(null);
+    await updateSingleCard(pauseTarget.cardId);
+  }, [pauseTarget, updateSingleCard]);
 
   const handleResumeProduction = useCallback(async (cardId: string) => {
     try {
@@ -356,14 +403,9 @@ const ProductionQueue: React.FC = () => {
     }
   }, [updateSingleCard]);
 
-  const handlePauseComponent = useCallback(async (cardId: string, componentId: string) => {
-    try {
-      await productionCardApi.pauseComponentProduction(cardId, componentId);
-      await updateSingleCard(cardId);
-    } catch (err: any) {
-      setError(err.message || 'Error al pausar componente');
-    }
-  }, [updateSingleCard]);
+  const handlePauseComponent = useCallback((cardId: string, component: ComponentProgress) => {
+    setPauseTarget({ cardId, componentId: component.componentId, label: component.componentName });
+  }, []);
 
   const handleResumeComponent = useCallback(async (cardId: string, componentId: string) => {
     try {
@@ -380,8 +422,8 @@ const ProductionQueue: React.FC = () => {
       // Para completar tarjetas, mejor hacer fetch completo ya que puede afectar la lista
       await fetchProductionQueue(false);
       setComponentDialogOpen(false);
-    } catch (err: any) {
-      setError(err.message || 'Error al completar tarjeta');
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al completar tarjeta'));
     }
   }, [fetchProductionQueue]);
 
@@ -389,22 +431,92 @@ const ProductionQueue: React.FC = () => {
     try {
       await productionCardApi.completeComponent(cardId, componentId);
       await updateSingleCard(cardId);
-    } catch (err: any) {
-      setError(err.message || 'Error al completar componente');
+      await fetchActiveLabor(); // el backend cierra los fichajes del componente
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al completar componente'));
+    }
+  }, [updateSingleCard, fetchActiveLabor]);
+
+  const handleStartOperation = useCallback(async (cardId: string, operationId: string) => {
+    try {
+      await productionCardApi.startOperation(cardId, operationId);
+      await updateSingleCard(cardId);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al iniciar la operación'));
+    }
+  }, [updateSingleCard]);
+
+  const handleCompleteOperation = useCallback(async (cardId: string, operationId: string) => {
+    try {
+      await productionCardApi.completeOperation(cardId, operationId);
+      await updateSingleCard(cardId);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al completar la operación'));
     }
   }, [updateSingleCard]);
 
+  const handleClockOn = useCallback(async (cardId: string) => {
+    try {
+      await laborApi.clockOn(cardId);
+      await fetchActiveLabor();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al fichar en la tarjeta'));
+    }
+  }, [fetchActiveLabor]);
+
+  const handleClockOff = useCallback(async (cardId: string) => {
+    try {
+      await laborApi.clockOff(cardId);
+      await fetchActiveLabor();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cerrar el fichaje'));
+    }
+  }, [fetchActiveLabor]);
+
   const handleViewComponents = useCallback((card: ProductionCard) => {
     setSelectedCard(card);
     setComponentDialogOpen(true);
   }, []);
 
-  const isOverdue = (dueDate: string) => {
-    return new Date(dueDate) < new Date();
+  // Recalcular inicio y fin previstos de las tarjetas según la capacidad de los centros de trabajo
+  const handleSchedule = async () => {
+    try {
+      setScheduling(true);
+      setError(null);
+      const result = await productionCardApi.scheduleCards();
+      setScheduleMessage(result.lateCards > 0
+        ? { severity: 'warning', text: `${result.lateCards} de ${result.totalCards} tarjetas no llegarán a su fecha límite` }
+        : { severity: 'success', text: `${result.totalCards} tarjetas programadas, todas llegan a tiempo` });
+      await fetchProductionQueue(false);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al programar la producción'));
+    } finally {
+      setScheduling(false);
+    }
   };
 
-  const getRemainingTime = (dueDate: string): string => {
-    const due = new Date(dueDate);
+  const formatPlannedDate = (date: string) =>
+    new Date(date).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  // Motivo de la pausa en curso de la tarjeta
+  const getOpenPause = (card: ProductionCard) =>
+    card.timeTracker?.segments?.filter(segment => segment.kind === 'pause' && !segment.endTime).pop();
+
+  // El backend calcula el vencimiento con el calendario de fábrica (fin de la jornada de la fecha límite)
+  const isOverdue = (card: ProductionCard) => {
+    if (card.overdueRisk) {
+      return card.overdueRisk === 'overdue';
+    }
+    return new Date(card.dueDate) < new Date();
+  };
+
+  const getRemainingTime = (card: ProductionCard): string => {
+    if (card.remainingWorkingHours !== undefined && card.overdueRisk !== 'overdue') {
+      const hours = card.remainingWorkingHours;
+      return hours < 1 ? 'Menos de 1 hora laborable' : `${hours} h laborables restantes`;
+    }
+
+    const due = new Date(card.dueDate);
     const now = new Date();
     const diffMs = due.getTime() - now.getTime();
 
@@ -458,10 +570,20 @@ const ProductionQueue: React.FC = () => {
 
   return (
     <Box sx={{ p: 3 }}>
-      <Typography variant="h4" component="h1" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-        <FactoryIcon color="primary" />
-        Cola de Producción
-      </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h4" component="h1" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FactoryIcon color="primary" />
+          Cola de Producción
+        </Typography>
+        <Button
+          variant="outlined"
+          startIcon={scheduling ? <CircularProgress size={16} /> : <ScheduleIcon />}
+          onClick={handleSchedule}
+          disabled={scheduling || cards.length === 0}
+        >
+          Programar
+        </Button>
+      </Box>
 
       {error && (
         <Alert severity="error" sx={{ mb: 3 }}>
@@ -469,6 +591,12 @@ const ProductionQueue: React.FC = () => {
         </Alert>
       )}
 
+      {scheduleMessage && (
+        <Alert severity={scheduleMessage.severity} sx={{ mb: 3 }} onClose={() => setScheduleMessage(null)}>
+          {scheduleMessage.text}
+        </Alert>
+      )}
+
       <Grid container spacing={2} sx={{ mt: 1 }}>
         {cards.map((card) => {
           return (
@@ -480,7 +608,7 @@ const ProductionQueue: React.FC = () => {
                 minWidth: '300px',
                 mx: 1,
                 borderRadius: 2,
-                border: isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED ? '2px solid #f44336' : '1px solid #e0e0e0',
+                border: isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED ? '2px solid #f44336' : '1px solid #e0e0e0',
                 '&:hover': {
                   boxShadow: '0 2px 8px rgba(0,0,0,0.12)'
                 }
@@ -520,6 +648,12 @@ const ProductionQueue: React.FC = () => {
                         size="small"
                         color={getStatusColor(card.status)}
                       />
+                      {card.reworkOfCardId && (
+                        <Chip label="RETRABAJO" size="small" color="warning" variant="outlined" title={card.notes} />
+                      )}
+                      {card.serialNumber && (
+                        <Chip label={`S/N ${card.serialNumber}`} size="small" variant="outlined" />
+                      )}
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                         <Typography variant="body2" sx={{ fontSize: '0.75rem', color: 'text.secondary' }}>
                           Prioridad:
@@ -609,9 +743,9 @@ const ProductionQueue: React.FC = () => {
                       gap: 1,
                       p: 1.5,
                       borderRadius: 1,
-                      bgcolor: isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED ? '#ffebee' : '#f5f5f5',
+                      bgcolor: isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED ? '#ffebee' : '#f5f5f5',
                       border: '1px solid',
-                      borderColor: isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED ? '#f44336' : '#e0e0e0'
+                      borderColor: isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED ? '#f44336' : '#e0e0e0'
                     }}>
                       <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
                         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -623,31 +757,79 @@ const ProductionQueue: React.FC = () => {
                             })}
                           </Typography>
                         </Box>
-                        {isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED && (
+                        {isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED && (
                           <Chip
                             label="VENCIDA"
                             size="small"
                             color="error"
                           />
                         )}
+                        {card.overdueRisk === 'at_risk' && (
+                          <Chip
+                            label="EN RIESGO"
+                            size="small"
+                            color="warning"
+                            title="El trabajo pendiente supera las horas laborables hasta la fecha límite"
+                          />
+                        )}
                       </Box>
 
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                         <AccessTimeIcon
                           fontSize="small"
-                          color={isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED ? 'error' : 'action'}
+                          color={isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED ? 'error' : 'action'}
                         />
                         <Typography
                           variant="body2"
                           sx={{
                             fontSize: '0.8rem',
-                            color: isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED ? 'error.main' : 'text.secondary',
-                            fontWeight: isOverdue(card.dueDate) && card.status !== ProductionCardStatus.COMPLETED ? 600 : 400
+                            color: isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED ? 'error.main' : 'text.secondary',
+                            fontWeight: isOverdue(card) && card.status !== ProductionCardStatus.COMPLETED ? 600 : 400
                           }}
                         >
-                          {getRemainingTime(card.dueDate)}
+                          {getRemainingTime(card)}
                         </Typography>
                       </Box>
+
+                      {card.plannedFinish && (
+                        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <PlannedIcon fontSize="small" color={card.willMissDueDate ? 'warning' : 'action'} />
+                            <Typography variant="body2" sx={{ fontSize: '0.8rem', color: 'text.secondary' }}>
+                              Fin previsto: {formatPlannedDate(card.plannedFinish)}
+                            </Typography>
+                          </Box>
+                          {card.willMissDueDate && (
+                            <Chip label="NO LLEGA" size="small" color="warning" />
+                          )}
+                        </Box>
+                      )}
+
+                      {card.status === ProductionCardStatus.PAUSED && getOpenPause(card) && (
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <PauseIcon fontSize="small" color="warning" />
+                          <Typography variant="body2" sx={{ fontSize: '0.8rem', color: 'warning.main' }} title={getOpenPause(card)?.notes}>
+                            {getOpenPause(card)?.reasonName}
+                          </Typography>
+                        </Box>
+                      )}
+
+                      {activeLabor.some(entry => entry.cardId === card.id) && (
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+                          <PersonIcon fontSize="small" color="action" />
+                          {activeLabor
+                            .filter(entry => entry.cardId === card.id)
+                            .map(entry => (
+                              <Chip
+                                key={entry.id}
+                                label={entry.componentName ? `${entry.userName} · ${entry.componentName}` : entry.userName}
+                                size="small"
+                                variant="outlined"
+                                color={entry.userId === user?.id ? 'primary' : 'default'}
+                              />
+                            ))}
+                        </Box>
+                      )}
                     </Box>
 
                     {/* Action Buttons */}
@@ -672,7 +854,7 @@ const ProductionQueue: React.FC = () => {
                             color="warning"
                             startIcon={<PauseIcon />}
                             size="small"
-                            onClick={() => handlePauseProduction(card.id)}
+                            onClick={() => handlePauseProduction(card)}
                             sx={{ flex: 1, minWidth: '100px' }}
                           >
                             Pausar
@@ -704,6 +886,31 @@ const ProductionQueue: React.FC = () => {
                             Completar
                           </Button>
                         )}
+
+                        {canClock && myLaborEntry?.cardId === card.id && (
+                          <Button
+                            variant="outlined"
+                            color="secondary"
+                            startIcon={<ClockOffIcon />}
+                            size="small"
+                            onClick={() => handleClockOff(card.id)}
+                            sx={{ flex: 1, minWidth: '100px' }}
+                          >
+                            Salir
+                          </Button>
+                        )}
+
+                        {canClock && !myLaborEntry && card.status === ProductionCardStatus.IN_PROGRESS && (
+                          <Button
+                            variant="outlined"
+                            startIcon={<ClockOnIcon />}
+                            size="small"
+                            onClick={() => handleClockOn(card.id)}
+                            sx={{ flex: 1, minWidth: '100px' }}
+                          >
+                            Fichar
+                          </Button>
+                        )}
                       </Box>
 
                       <Button
@@ -850,7 +1057,7 @@ const ProductionQueue: React.FC = () => {
                                 variant="outlined"
                                 size="small"
                                 startIcon={<PauseIcon />}
-                                onClick={() => handlePauseComponent(selectedCard.id, component.componentId)}
+                                onClick={() => handlePauseComponent(selectedCard.id, component)}
                                 disabled={selectedCard.status !== ProductionCardStatus.IN_PROGRESS}
                               >
                                 Pausar
@@ -878,8 +1085,39 @@ const ProductionQueue: React.FC = () => {
               ))}
             </List>
           )}
+          {selectedCard && selectedCard.operations && selectedCard.operations.length > 0 && (
+            <Box sx={{ mt: 2 }}>
+              <CardOperationsList
+                operations={selectedCard.operations}
+                disabled={selectedCard.status !== ProductionCardStatus.IN_PROGRESS}
+                onStart={(operationId) => handleStartOperation(selectedCard.id, operationId)}
+                onComplete={(operationId) => handleCompleteOperation(selectedCard.id, operationId)}
+              />
+            </Box>
+          )}
+          {selectedCard && (
+            <Box sx={{ mt: 2 }}>
+              <CardInspectionPanel
+                cardId={selectedCard.id}
+                refreshKey={selectedCard.updatedAt}
+                canRecord={canCompleteCard(selectedCard)}
+                onRecorded={() => updateSingleCard(selectedCard.id)}
+              />
+            </Box>
+          )}
+          {selectedCard && selectedCard.timeTracker && (
+            <Box sx={{ mt: 2 }}>
+              <CardTimeline cardId={selectedCard.id} refreshKey={selectedCard.updatedAt} />
+            </Box>
+          )}
         </DialogContent>
         <DialogActions>
+          {selectedCard && canClock &&
+            (selectedCard.status === ProductionCardStatus.IN_PROGRESS || selectedCard.status === ProductionCardStatus.PAUSED) && (
+            <Button color="error" onClick={() => setNcrDialogOpen(true)}>
+              No conformidad
+            </Button>
+          )}
           {selectedCard && canCompleteCard(selectedCard) && (
             <Button
               variant="contained"
@@ -1067,6 +1305,24 @@ const ProductionQueue: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <PauseReasonDialog
+        open={!!pauseTarget}
+        title={`Pausar ${pauseTarget?.label ?? ''}`}
+        onClose={() => setPauseTarget(null)}
+        onConfirm={handleConfirmPause}
+      />
+
+      {selectedCard && (
+        <NonConformanceDialog
+          open={ncrDialogOpen}
+          cardId={selectedCard.id}
+          cardLabel={`${selectedCard.orderName} (${selectedCard.cardNumber}/${selectedCard.totalCards})`}
+          components={selectedCard.components}
+          onClose={() => setNcrDialogOpen(false)}
+          onCreated={() => setNcrDialogOpen(false)}
+        />
+      )}
     </Box>
   );
 };
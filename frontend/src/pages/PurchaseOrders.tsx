@@ -0,0 +1,409 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  MenuItem,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tabs,
+  Tab,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Send as SendIcon,
+  MoveToInbox as ReceiveIcon,
+  Lock as CloseIcon,
+  Visibility as ViewIcon,
+} from '@mui/icons-material';
+import { purchaseOrderApi, getApiErrorMessage, formatPoNumber } from '../services/api';
+import type { IncomingItem, PurchaseOrder, PurchaseOrderStatus } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import PurchaseOrderDialog from '../components/Purchasing/PurchaseOrderDialog';
+import GoodsReceiptDialog from '../components/Purchasing/GoodsReceiptDialog';
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Enviada',
+  partially_received: 'Recibida parcialmente',
+  received: 'Recibida',
+  closed: 'Cerrada',
+};
+
+const statusColors: Record<PurchaseOrderStatus, 'default' | 'info' | 'warning' | 'success'> = {
+  draft: 'default',
+  sent: 'info',
+  partially_received: 'warning',
+  received: 'success',
+  closed: 'default',
+};
+
+const formatDate = (value?: string): string => (value ? new Date(value).toLocaleDateString('es-ES') : '-');
+
+const orderTotal = (purchaseOrder: PurchaseOrder): number =>
+  purchaseOrder.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+const PurchaseOrders: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canPurchase = hasRole('planner', 'warehouse');
+  const canReceive = hasRole('warehouse');
+  const [tab, setTab] = useState(0);
+  const [status, setStatus] = useState<string>('draft,sent,partially_received');
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [incoming, setIncoming] = useState<IncomingItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<PurchaseOrder | null>(null);
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [viewing, setViewing] = useState<PurchaseOrder | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [orders, incomingItems] = await Promise.all([
+        purchaseOrderApi.getAll({ status: status || undefined }),
+        purchaseOrderApi.getIncoming(),
+      ]);
+      setPurchaseOrders(orders);
+      setIncoming(incomingItems);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar las órdenes de compra'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (purchaseOrder: PurchaseOrder) => {
+    setEditing(purchaseOrder);
+    setDialogOpen(true);
+  };
+
+  // Enviar, cerrar y eliminar comparten el mismo tratamiento de errores
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+      await fetchData();
+    } catch (err) {
+      setError(getApiErrorMessage(err, fallback));
+    }
+  };
+
+  const handleSend = (purchaseOrder: PurchaseOrder) =>
+    runAction(() => purchaseOrderApi.send(purchaseOrder.id), 'Error al enviar la orden de compra');
+
+  const handleClose = (purchaseOrder: PurchaseOrder) => {
+    const pending = purchaseOrder.lines.some(line => line.quantity > line.receivedQuantity);
+    const message = pending
+      ? `¿Cerrar ${formatPoNumber(purchaseOrder.poNumber)}? Las cantidades pendientes dejarán de esperarse.`
+      : `¿Cerrar ${formatPoNumber(purchaseOrder.poNumber)}?`;
+    if (!window.confirm(message)) return;
+    runAction(() => purchaseOrderApi.close(purchaseOrder.id), 'Error al cerrar la orden de compra');
+  };
+
+  const handleDelete = (purchaseOrder: PurchaseOrder) => {
+    if (!window.confirm(`¿Eliminar el borrador ${formatPoNumber(purchaseOrder.poNumber)}?`)) return;
+    runAction(() => purchaseOrderApi.delete(purchaseOrder.id), 'Error al eliminar la orden de compra');
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Compras</Typography>
+        {canPurchase && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+            Nueva Orden de Compra
+          </Button>
+        )}
+      </Box>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab label="Órdenes de compra" />
+        <Tab label={`Pendiente de recibir (${incoming.length})`} />
+      </Tabs>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {tab === 0 ? (
+        <>
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <TextField
+              select
+              label="Estado"
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              size="small"
+              sx={{ minWidth: 240 }}
+            >
+              <MenuItem value="draft,sent,partially_received">Abiertas</MenuItem>
+              <MenuItem value="">Todas</MenuItem>
+              {(Object.keys(statusLabels) as PurchaseOrderStatus[]).map(value => (
+                <MenuItem key={value} value={value}>
+                  {statusLabels[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Paper>
+
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Número</TableCell>
+                  <TableCell>Proveedor</TableCell>
+                  <TableCell>Estado</TableCell>
+                  <TableCell align="right">Líneas</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  <TableCell>Fecha prevista</TableCell>
+                  <TableCell align="right">Acciones</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {purchaseOrders.map(purchaseOrder => (
+                  <TableRow key={purchaseOrder.id}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{formatPoNumber(purchaseOrder.poNumber)}</TableCell>
+                    <TableCell>{purchaseOrder.supplierName}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={statusLabels[purchaseOrder.status]}
+                        color={statusColors[purchaseOrder.status]}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell align="right">{purchaseOrder.lines.length}</TableCell>
+                    <TableCell align="right">
+                      {orderTotal(purchaseOrder).toFixed(2)} {purchaseOrder.currency}
+                    </TableCell>
+                    <TableCell>{formatDate(purchaseOrder.expectedDate)}</TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Ver detalle">
+                        <IconButton size="small" onClick={() => setViewing(purchaseOrder)}>
+                          <ViewIcon />
+                        </IconButton>
+                      </Tooltip>
+                      {canPurchase && purchaseOrder.status === 'draft' && (
+                        <>
+                          <Tooltip title="Editar">
+                            <IconButton size="small" onClick={() => openEdit(purchaseOrder)}>
+                              <EditIcon />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Enviar al proveedor">
+                            <IconButton size="small" color="primary" onClick={() => handleSend(purchaseOrder)}>
+                              <SendIcon />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Eliminar">
+                            <IconButton size="small" color="error" onClick={() => handleDelete(purchaseOrder)}>
+                              <DeleteIcon />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                      {canReceive && (purchaseOrder.status === 'sent' || purchaseOrder.status === 'partially_received') && (
+                        <Tooltip title="Recibir mercancía">
+                          <IconButton size="small" color="success" onClick={() => setReceiving(purchaseOrder)}>
+                            <ReceiveIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {canPurchase && ['sent', 'partially_received', 'received'].includes(purchaseOrder.status) && (
+                        <Tooltip title="Cerrar">
+                          <IconButton size="small" onClick={() => handleClose(purchaseOrder)}>
+                            <CloseIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!loading && purchaseOrders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center">
+                      No hay órdenes de compra
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>SKU</TableCell>
+                <TableCell>Artículo</TableCell>
+                <TableCell align="right">Pendiente de recibir</TableCell>
+                <TableCell>Próxima entrega</TableCell>
+                <TableCell>Órdenes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {incoming.map(entry => (
+                <TableRow key={entry.itemId}>
+                  <TableCell>{entry.itemSku}</TableCell>
+                  <TableCell>{entry.itemName}</TableCell>
+                  <TableCell align="right">
+                    {entry.incomingQuantity} {entry.unit}
+                  </TableCell>
+                  <TableCell>{formatDate(entry.nextExpectedDate)}</TableCell>
+                  <TableCell>
+                    {entry.orders.map(order => (
+                      <Typography key={order.purchaseOrderId} variant="body2">
+                        {formatPoNumber(order.poNumber)} · {order.supplierName}: {order.outstandingQuantity} {entry.unit}
+                        {order.expectedDate ? ` (${formatDate(order.expectedDate)})` : ''}
+                      </Typography>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && incoming.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} align="center">
+                    No hay entradas pendientes de órdenes de compra enviadas
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <PurchaseOrderDialog
+        open={dialogOpen}
+        purchaseOrder={editing}
+        onClose={() => setDialogOpen(false)}
+        onSaved={fetchData}
+      />
+
+      <GoodsReceiptDialog
+        purchaseOrder={receiving}
+        onClose={() => setReceiving(null)}
+        onReceived={fetchData}
+      />
+
+      <Dialog open={Boolean(viewing)} onClose={() => setViewing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {viewing ? `${formatPoNumber(viewing.poNumber)} · ${viewing.supplierName}` : ''}
+        </DialogTitle>
+        <DialogContent>
+          {viewing && (
+            <>
+              <Typography variant="body2" color="textSecondary" gutterBottom>
+                {statusLabels[viewing.status]} · Creada {formatDate(viewing.createdAt)}
+                {viewing.createdBy ? ` por ${viewing.createdBy}` : ''}
+                {viewing.sentAt ? ` · Enviada ${formatDate(viewing.sentAt)}` : ''}
+                {viewing.closedAt ? ` · Cerrada ${formatDate(viewing.closedAt)}` : ''}
+              </Typography>
+              {viewing.notes && <Typography variant="body2" gutterBottom>{viewing.notes}</Typography>}
+
+              <Table size="small" sx={{ mt: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Artículo</TableCell>
+                    <TableCell>Ref. proveedor</TableCell>
+                    <TableCell align="right">Pedido</TableCell>
+                    <TableCell align="right">Recibido</TableCell>
+                    <TableCell align="right">Pendiente</TableCell>
+                    <TableCell align="right">Precio</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {viewing.lines.map(line => (
+                    <TableRow key={line.itemId}>
+                      <TableCell>{line.itemSku} - {line.itemName}</TableCell>
+                      <TableCell>{line.supplierSku || '-'}</TableCell>
+                      <TableCell align="right">{line.quantity} {line.unit}</TableCell>
+                      <TableCell align="right">{line.receivedQuantity}</TableCell>
+                      <TableCell align="right">
+                        {viewing.status === 'closed' ? '-' : Math.max(0, line.quantity - line.receivedQuantity)}
+                      </TableCell>
+                      <TableCell align="right">{line.unitPrice.toFixed(2)} {viewing.currency}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Typography variant="subtitle1" sx={{ mt: 3 }}>Recepciones</Typography>
+              {viewing.receipts.length === 0 ? (
+                <Typography variant="body2" color="textSecondary">Sin recepciones</Typography>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Fecha</TableCell>
+                      <TableCell>Usuario</TableCell>
+                      <TableCell>Artículos</TableCell>
+                      <TableCell>Notas</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {viewing.receipts.map((receipt, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{new Date(receipt.receivedAt).toLocaleString('es-ES')}</TableCell>
+                        <TableCell>{receipt.receivedBy || '-'}</TableCell>
+                        <TableCell>
+                          {receipt.lines.map(line => {
+                            const orderLine = viewing.lines.find(entry => entry.itemId === line.itemId);
+                            return (
+                              <Typography key={line.itemId} variant="body2">
+                                {orderLine?.itemName}: {line.quantity} {orderLine?.unit}
+                                {line.lotNumber ? ` · Lote ${line.lotNumber}` : ''}
+                              </Typography>
+                            );
+                          })}
+                        </TableCell>
+                        <TableCell>{receipt.notes || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setViewing(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PurchaseOrders;
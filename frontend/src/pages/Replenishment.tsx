@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  MenuItem,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Grid,
+  Tooltip,
+} from '@mui/material';
+import {
+  Refresh as ScanIcon,
+  TaskAlt as ApproveIcon,
+  Close as DismissIcon,
+} from '@mui/icons-material';
+import { replenishmentApi, supplierApi, getApiErrorMessage } from '../services/api';
+import type { PlannedOrderType, ReplenishmentStatus, ReplenishmentSuggestion, Supplier } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+
+const typeLabels: Record<PlannedOrderType, string> = {
+  buy: 'Compra',
+  make: 'Fabricación',
+};
+
+const statusLabels: Record<ReplenishmentStatus, string> = {
+  pending: 'Pendiente',
+  approved: 'Aprobada',
+  dismissed: 'Descartada',
+};
+
+const statusColors: Record<ReplenishmentStatus, 'warning' | 'success' | 'default'> = {
+  pending: 'warning',
+  approved: 'success',
+  dismissed: 'default',
+};
+
+interface ApproveForm {
+  quantity: number;
+  supplierId: string;
+  dueDate: string;
+}
+
+const formatDate = (value?: string): string => (value ? new Date(value).toLocaleDateString('es-ES') : '-');
+
+const Replenishment: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canPlan = hasRole('planner');
+  const canScan = hasRole('planner', 'warehouse');
+  const [suggestions, setSuggestions] = useState<ReplenishmentSuggestion[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReplenishmentStatus | ''>('pending');
+  const [typeFilter, setTypeFilter] = useState<PlannedOrderType | ''>('');
+  const [approving, setApproving] = useState<ReplenishmentSuggestion | null>(null);
+  const [approveForm, setApproveForm] = useState<ApproveForm>({ quantity: 0, supplierId: '', dueDate: '' });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSuggestions(await replenishmentApi.getSuggestions({
+        status: statusFilter || undefined,
+        type: typeFilter || undefined,
+      }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar las sugerencias de reposición'));
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, typeFilter]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  useEffect(() => {
+    if (!canPlan) return;
+    supplierApi.getAll({ isActive: true })
+      .then(setSuppliers)
+      .catch(err => setError(getApiErrorMessage(err, 'Error al cargar los proveedores')));
+  }, [canPlan]);
+
+  const handleScan = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      const found = await replenishmentApi.scan();
+      setSuccess(`${found.length} artículos por debajo del punto de pedido`);
+      await fetchSuggestions();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al revisar el punto de pedido'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openApprove = (suggestion: ReplenishmentSuggestion) => {
+    setApproving(suggestion);
+    setApproveForm({ quantity: suggestion.suggestedQuantity, supplierId: suggestion.supplierId || '', dueDate: '' });
+  };
+
+  const handleApprove = async () => {
+    if (!approving) return;
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      const approved = await replenishmentApi.approve(approving.id, {
+        quantity: approveForm.quantity,
+        supplierId: approving.type === 'buy' ? approveForm.supplierId || undefined : undefined,
+        dueDate: approveForm.dueDate || undefined,
+      });
+      setApproving(null);
+      setSuccess(`Reposición aprobada: ${approved.reference}`);
+      await fetchSuggestions();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al aprobar la sugerencia'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDismiss = async (suggestion: ReplenishmentSuggestion) => {
+    if (!window.confirm(`¿Descartar la reposición de ${suggestion.itemName}?`)) return;
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      await replenishmentApi.dismiss(suggestion.id);
+      setSuccess('Sugerencia descartada');
+      await fetchSuggestions();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al descartar la sugerencia'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h4">Reposición</Typography>
+        {canScan && (
+          <Button variant="outlined" startIcon={<ScanIcon />} onClick={handleScan} disabled={saving}>
+            Revisar punto de pedido
+          </Button>
+        )}
+      </Box>
+      <Typography variant="body2" color="textSecondary" sx={{ mb: 3 }}>
+        Artículos cuyo disponible más lo pendiente de recibir ha bajado del stock mínimo; la cantidad sugerida repone hasta el stock máximo
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 2, display: 'flex', gap: 2 }}>
+        <TextField
+          select
+          label="Estado"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReplenishmentStatus | '')}
+          size="small"
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="">Todos</MenuItem>
+          {Object.entries(statusLabels).map(([value, label]) => (
+            <MenuItem key={value} value={value}>{label}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Tipo"
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as PlannedOrderType | '')}
+          size="small"
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="">Todos</MenuItem>
+          {Object.entries(typeLabels).map(([value, label]) => (
+            <MenuItem key={value} value={value}>{label}</MenuItem>
+          ))}
+        </TextField>
+      </Paper>
+
+      {(loading || saving) && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Artículo</TableCell>
+              <TableCell>Tipo</TableCell>
+              <TableCell align="right">Disponible</TableCell>
+              <TableCell align="right">Pendiente de recibir</TableCell>
+              <TableCell align="right">Mín / Máx</TableCell>
+              <TableCell align="right">Sugerido</TableCell>
+              <TableCell>Proveedor</TableCell>
+              <TableCell>Actualizada</TableCell>
+              <TableCell>Estado</TableCell>
+              {canPlan && <TableCell align="right">Acciones</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {suggestions.map(suggestion => (
+              <TableRow key={suggestion.id}>
+                <TableCell>
+                  {suggestion.itemName}
+                  <Typography variant="caption" display="block" color="textSecondary">
+                    {suggestion.itemSku}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    label={typeLabels[suggestion.type]}
+                    color={suggestion.type === 'buy' ? 'info' : 'secondary'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <Typography variant="body2" color="error">
+                    {suggestion.available} {suggestion.unit}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">{suggestion.onOrder || '-'}</TableCell>
+                <TableCell align="right">{suggestion.minimumStock} / {suggestion.maximumStock}</TableCell>
+                <TableCell align="right">
+                  {suggestion.approvedQuantity ?? suggestion.suggestedQuantity} {suggestion.unit}
+                </TableCell>
+                <TableCell>
+                  {suggestion.type === 'buy' ? suggestion.supplierName || (
+                    <Typography variant="body2" color="error">Sin proveedor</Typography>
+                  ) : '-'}
+                </TableCell>
+                <TableCell>
+                  {formatDate(suggestion.updatedAt)}
+                  {suggestion.triggeredBy && (
+                    <Typography variant="caption" display="block" color="textSecondary">
+                      {suggestion.triggeredBy}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Tooltip
+                    title={suggestion.status === 'approved'
+                      ? `Aprobada ${formatDate(suggestion.approvedAt)}${suggestion.approvedBy ? ` por ${suggestion.approvedBy}` : ''}`
+                      : suggestion.status === 'dismissed'
+                        ? `Descartada ${formatDate(suggestion.dismissedAt)}${suggestion.dismissedBy ? ` por ${suggestion.dismissedBy}` : ''}`
+                        : ''}
+                  >
+                    <Chip
+                      label={suggestion.status === 'approved' && suggestion.reference ? suggestion.reference : statusLabels[suggestion.status]}
+                      color={statusColors[suggestion.status]}
+                      size="small"
+                    />
+                  </Tooltip>
+                </TableCell>
+                {canPlan && (
+                  <TableCell align="right">
+                    {suggestion.status === 'pending' && (
+                      <>
+                        <Tooltip title="Aprobar">
+                          <IconButton size="small" color="success" onClick={() => openApprove(suggestion)}>
+                            <ApproveIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Descartar">
+                          <IconButton size="small" onClick={() => handleDismiss(suggestion)}>
+                            <DismissIcon />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {!loading && suggestions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={canPlan ? 10 : 9} align="center">
+                  No hay sugerencias de reposición
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={Boolean(approving)} onClose={() => setApproving(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {approving ? `Aprobar ${typeLabels[approving.type].toLowerCase()} · ${approving.itemName}` : ''}
+        </DialogTitle>
+        <DialogContent>
+          {approving && (
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12}>
+                <Typography variant="body2" color="textSecondary">
+                  {approving.type === 'buy'
+                    ? 'Se creará un borrador de orden de compra para revisarlo y enviarlo al proveedor'
+                    : 'Se creará una orden de fabricación de reposición de stock'}
+                </Typography>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label={`Cantidad (${approving.unit})`}
+                  value={approveForm.quantity}
+                  onChange={(e) => setApproveForm({ ...approveForm, quantity: Number(e.target.value) })}
+                  inputProps={{ min: 0, step: approving.type === 'make' ? 1 : 0.01 }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  type="date"
+                  label={approving.type === 'buy' ? 'Fecha prevista' : 'Fecha de entrega'}
+                  value={approveForm.dueDate}
+                  onChange={(e) => setApproveForm({ ...approveForm, dueDate: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  helperText="Vacío: según el plazo del artículo"
+                />
+              </Grid>
+              {approving.type === 'buy' && (
+                <Grid item xs={12}>
+                  <TextField
+                    select
+                    fullWidth
+                    label="Proveedor"
+                    value={approveForm.supplierId}
+                    onChange={(e) => setApproveForm({ ...approveForm, supplierId: e.target.value })}
+                  >
+                    {suppliers.map(supplier => (
+                      <MenuItem key={supplier.id} value={supplier.id}>
+                        {supplier.code} · {supplier.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+              )}
+            </Grid>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setApproving(null)}>Cancelar</Button>
+          <Button
+            variant="contained"
+            onClick={handleApprove}
+            disabled={saving || !(approveForm.quantity > 0) || (approving?.type === 'buy' && !approveForm.supplierId)}
+          >
+            Aprobar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Replenishment;
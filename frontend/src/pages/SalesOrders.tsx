@@ -0,0 +1,402 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  MenuItem,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  CheckCircle as ConfirmIcon,
+  Build as FulfilIcon,
+  Cancel as CancelIcon,
+  Visibility as ViewIcon,
+} from '@mui/icons-material';
+import { salesOrderApi, getApiErrorMessage, formatSoNumber } from '../services/api';
+import type { FulfilSalesOrderResult, SalesOrder, SalesOrderLineStatus, SalesOrderStatus } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import SalesOrderDialog from '../components/Sales/SalesOrderDialog';
+
+const statusLabels: Record<SalesOrderStatus, string> = {
+  draft: 'Borrador',
+  confirmed: 'Confirmado',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado',
+};
+
+const statusColors: Record<SalesOrderStatus, 'default' | 'info' | 'success' | 'error'> = {
+  draft: 'default',
+  confirmed: 'info',
+  delivered: 'success',
+  cancelled: 'error',
+};
+
+const lineStatusLabels: Record<SalesOrderLineStatus, string> = {
+  pending: 'Pendiente',
+  in_production: 'En fabricación',
+  ready: 'Listo',
+  delivered: 'Entregado',
+};
+
+const lineStatusColors: Record<SalesOrderLineStatus, 'default' | 'warning' | 'success' | 'info'> = {
+  pending: 'default',
+  in_production: 'warning',
+  ready: 'success',
+  delivered: 'info',
+};
+
+const orderStatusLabels: Record<string, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En progreso',
+  completed: 'Completada',
+  cancelled: 'Cancelada',
+};
+
+const formatDate = (value?: string): string => (value ? new Date(value).toLocaleDateString('es-ES') : '-');
+
+const orderTotal = (salesOrder: SalesOrder): number =>
+  salesOrder.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+const hasUncovered = (salesOrder: SalesOrder): boolean =>
+  salesOrder.lines.some(line => (line.progress?.uncoveredQuantity || 0) > 0);
+
+// Resumen de las reservas y órdenes de fabricación generadas al confirmar o servir
+const describeResult = (result: FulfilSalesOrderResult): string =>
+  [
+    `${formatSoNumber(result.salesOrder.soNumber)}: ${result.manufacturingOrderIds.length} orden(es) de fabricación generada(s)`,
+    ...result.errors,
+  ].join(' · ');
+
+const SalesOrders: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canSell = hasRole('planner');
+  const [status, setStatus] = useState<string>('draft,confirmed');
+  const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SalesOrder | null>(null);
+  const [viewing, setViewing] = useState<SalesOrder | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSalesOrders(await salesOrderApi.getAll({ status: status || undefined }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los pedidos de venta'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (salesOrder: SalesOrder) => {
+    setEditing(salesOrder);
+    setDialogOpen(true);
+  };
+
+  // Confirmar, servir, cancelar y eliminar comparten el mismo tratamiento de errores
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setError(null);
+      setInfo(null);
+      const result = await action();
+      if (result && typeof result === 'object' && 'manufacturingOrderIds' in result) {
+        setInfo(describeResult(result as FulfilSalesOrderResult));
+      }
+      await fetchData();
+    } catch (err) {
+      setError(getApiErrorMessage(err, fallback));
+    }
+  };
+
+  const handleConfirm = (salesOrder: SalesOrder) => {
+    const message = `¿Confirmar ${formatSoNumber(salesOrder.soNumber)}? Se reservará el stock disponible y se crearán órdenes de fabricación para el resto.`;
+    if (!window.confirm(message)) return;
+    runAction(() => salesOrderApi.confirm(salesOrder.id), 'Error al confirmar el pedido de venta');
+  };
+
+  const handleFulfil = (salesOrder: SalesOrder) =>
+    runAction(() => salesOrderApi.fulfil(salesOrder.id), 'Error al servir el pedido de venta');
+
+  const handleCancel = (salesOrder: SalesOrder) => {
+    const message = salesOrder.status === 'confirmed'
+      ? `¿Cancelar ${formatSoNumber(salesOrder.soNumber)}? Se cancelarán sus órdenes de fabricación pendientes y se liberarán las reservas.`
+      : `¿Cancelar ${formatSoNumber(salesOrder.soNumber)}?`;
+    if (!window.confirm(message)) return;
+    runAction(() => salesOrderApi.cancel(salesOrder.id), 'Error al cancelar el pedido de venta');
+  };
+
+  const handleDelete = (salesOrder: SalesOrder) => {
+    if (!window.confirm(`¿Eliminar el borrador ${formatSoNumber(salesOrder.soNumber)}?`)) return;
+    runAction(() => salesOrderApi.delete(salesOrder.id), 'Error al eliminar el pedido de venta');
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Pedidos de Venta</Typography>
+        {canSell && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+            Nuevo Pedido
+          </Button>
+        )}
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <TextField
+          select
+          label="Estado"
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          size="small"
+          sx={{ minWidth: 240 }}
+        >
+          <MenuItem value="draft,confirmed">Abiertos</MenuItem>
+          <MenuItem value="">Todos</MenuItem>
+          {(Object.keys(statusLabels) as SalesOrderStatus[]).map(value => (
+            <MenuItem key={value} value={value}>
+              {statusLabels[value]}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {info && (
+        <Alert severity="info" sx={{ mb: 2 }} onClose={() => setInfo(null)}>
+          {info}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Número</TableCell>
+              <TableCell>Cliente</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell>Avance</TableCell>
+              <TableCell align="right">Total</TableCell>
+              <TableCell>Entrega</TableCell>
+              <TableCell>Previsto</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {salesOrders.map(salesOrder => (
+              <TableRow key={salesOrder.id}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatSoNumber(salesOrder.soNumber)}</TableCell>
+                <TableCell>
+                  {salesOrder.customerName}
+                  {salesOrder.customerReference && (
+                    <Typography variant="caption" display="block" color="textSecondary">
+                      Ref. {salesOrder.customerReference}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    label={statusLabels[salesOrder.status]}
+                    color={statusColors[salesOrder.status]}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell>
+                  {salesOrder.lineStatus ? (
+                    <Chip
+                      label={lineStatusLabels[salesOrder.lineStatus]}
+                      color={lineStatusColors[salesOrder.lineStatus]}
+                      size="small"
+                      variant="outlined"
+                    />
+                  ) : '-'}
+                </TableCell>
+                <TableCell align="right">{orderTotal(salesOrder).toFixed(2)}</TableCell>
+                <TableCell>{formatDate(salesOrder.requestedDate)}</TableCell>
+                <TableCell>
+                  {formatDate(salesOrder.expectedReadyDate)}
+                  {salesOrder.lines.some(line => line.progress?.isLate) && (
+                    <Chip label="Con retraso" color="error" size="small" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Ver detalle">
+                    <IconButton size="small" onClick={() => setViewing(salesOrder)}>
+                      <ViewIcon />
+                    </IconButton>
+                  </Tooltip>
+                  {canSell && salesOrder.status === 'draft' && (
+                    <>
+                      <Tooltip title="Editar">
+                        <IconButton size="small" onClick={() => openEdit(salesOrder)}>
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Confirmar">
+                        <IconButton size="small" color="primary" onClick={() => handleConfirm(salesOrder)}>
+                          <ConfirmIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Eliminar">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(salesOrder)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                  {canSell && salesOrder.status === 'confirmed' && hasUncovered(salesOrder) && (
+                    <Tooltip title="Cubrir lo pendiente">
+                      <IconButton size="small" color="primary" onClick={() => handleFulfil(salesOrder)}>
+                        <FulfilIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {canSell && (salesOrder.status === 'draft' || salesOrder.status === 'confirmed') && (
+                    <Tooltip title="Cancelar">
+                      <IconButton size="small" onClick={() => handleCancel(salesOrder)}>
+                        <CancelIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && salesOrders.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  No hay pedidos de venta
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <SalesOrderDialog
+        open={dialogOpen}
+        salesOrder={editing}
+        onClose={() => setDialogOpen(false)}
+        onSaved={fetchData}
+      />
+
+      <Dialog open={Boolean(viewing)} onClose={() => setViewing(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          {viewing ? `${formatSoNumber(viewing.soNumber)} · ${viewing.customerName}` : ''}
+        </DialogTitle>
+        <DialogContent>
+          {viewing && (
+            <>
+              <Typography variant="body2" color="textSecondary" gutterBottom>
+                {statusLabels[viewing.status]} · Creado {formatDate(viewing.createdAt)}
+                {viewing.createdBy ? ` por ${viewing.createdBy}` : ''}
+                {viewing.confirmedAt ? ` · Confirmado ${formatDate(viewing.confirmedAt)}` : ''}
+                {viewing.deliveredAt ? ` · Entregado ${formatDate(viewing.deliveredAt)}` : ''}
+                {viewing.cancelledAt ? ` · Cancelado ${formatDate(viewing.cancelledAt)}` : ''}
+                {` · Entrega ${formatDate(viewing.requestedDate)}`}
+              </Typography>
+              {viewing.notes && <Typography variant="body2" gutterBottom>{viewing.notes}</Typography>}
+
+              <Table size="small" sx={{ mt: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Modelo</TableCell>
+                    <TableCell align="right">Pedido</TableCell>
+                    <TableCell align="right">Desde stock</TableCell>
+                    <TableCell align="right">Entregado</TableCell>
+                    <TableCell align="right">Listo</TableCell>
+                    <TableCell align="right">En fabricación</TableCell>
+                    <TableCell align="right">Sin cubrir</TableCell>
+                    <TableCell>Previsto</TableCell>
+                    <TableCell>Órdenes de fabricación</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {viewing.lines.map(line => (
+                    <TableRow key={line.itemId}>
+                      <TableCell>
+                        {line.itemSku} - {line.itemName}
+                        {line.progress && (
+                          <Chip
+                            label={lineStatusLabels[line.progress.status]}
+                            color={lineStatusColors[line.progress.status]}
+                            size="small"
+                            sx={{ ml: 1 }}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{line.quantity} {line.unit}</TableCell>
+                      <TableCell align="right">{line.fromStockQuantity}</TableCell>
+                      <TableCell align="right">{line.deliveredQuantity}</TableCell>
+                      <TableCell align="right">{line.progress ? line.progress.readyQuantity : line.reservedQuantity}</TableCell>
+                      <TableCell align="right">{line.progress?.inProductionQuantity ?? '-'}</TableCell>
+                      <TableCell align="right">{line.progress?.uncoveredQuantity ?? '-'}</TableCell>
+                      <TableCell>
+                        {formatDate(line.progress?.expectedReadyDate)}
+                        {line.progress?.isLate && (
+                          <Typography variant="caption" display="block" color="error">
+                            Después de la entrega ({formatDate(line.dueDate || viewing.requestedDate)})
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {(line.progress?.orders || []).map(order => (
+                          <Typography key={order.orderId} variant="body2">
+                            {order.completedQuantity}/{order.quantity} · {orderStatusLabels[order.status] || order.status}
+                            {order.expectedFinish ? ` · fin ${formatDate(order.expectedFinish)}` : ''}
+                          </Typography>
+                        ))}
+                        {!line.progress && line.manufacturingOrderIds.length === 0 && '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setViewing(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SalesOrders;
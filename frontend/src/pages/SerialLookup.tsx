@@ -0,0 +1,331 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Alert,
+  LinearProgress,
+  Chip,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { serialApi, getApiErrorMessage, formatNcrNumber, formatShipmentNumber } from '../services/api';
+import type { DefectType, NonConformanceDisposition, SerialUnit } from '../services/api';
+
+const defectTypeLabels: Record<DefectType, string> = {
+  dimensional: 'Dimensional',
+  cosmetic: 'Estético',
+  functional: 'Funcional',
+  material: 'Material',
+  assembly: 'Montaje',
+  other: 'Otro',
+};
+
+const dispositionLabels: Record<NonConformanceDisposition, string> = {
+  rework: 'Retrabajo',
+  scrap: 'Desecho',
+  use_as_is: 'Usar tal cual',
+};
+
+const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+};
+
+// Trazabilidad posventa: búsqueda por número de serie y genealogía de la unidad
+const SerialLookup: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [units, setUnits] = useState<SerialUnit[]>([]);
+  const [selected, setSelected] = useState<SerialUnit | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUnits = useCallback(async (term?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setUnits(await serialApi.getAll(term ? { search: term } : undefined));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar las unidades serializadas'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUnits();
+  }, [fetchUnits]);
+
+  // Un número de serie exacto abre la unidad; si no, se filtra la lista
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const term = search.trim();
+    if (!term) {
+      setSelected(null);
+      await fetchUnits();
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setSelected(await serialApi.getBySerialNumber(term));
+    } catch {
+      setSelected(null);
+      await fetchUnits(term);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Números de serie</Typography>
+        <Box component="form" onSubmit={handleSearch} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            size="small"
+            label="Número de serie, modelo u orden"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            sx={{ minWidth: 300 }}
+          />
+          <Button type="submit" variant="contained" startIcon={<SearchIcon />}>
+            Buscar
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {selected && (
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="h5">{selected.serialNumber}</Typography>
+              {selected.reworkOfCardIds && <Chip size="small" color="warning" variant="outlined" label="Retrabajada" />}
+              {selected.shipment && (
+                <Chip
+                  size="small"
+                  color="info"
+                  variant="outlined"
+                  label={`Enviada en ${formatShipmentNumber(selected.shipment.shipmentNumber)} a ${selected.shipment.customerName} · ${new Date(selected.shipment.shippedAt).toLocaleDateString('es-ES')}`}
+                />
+              )}
+            </Box>
+            <Button onClick={() => setSelected(null)}>Cerrar</Button>
+          </Box>
+
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <Grid item xs={12} md={3}>
+              <Typography variant="caption" color="text.secondary">Modelo</Typography>
+              <Typography>{selected.modelName} ({selected.modelSku})</Typography>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <Typography variant="caption" color="text.secondary">Orden / tarjeta</Typography>
+              <Typography>{selected.cardLabel}</Typography>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <Typography variant="caption" color="text.secondary">Fabricada</Typography>
+              <Typography>
+                {new Date(selected.producedAt).toLocaleString('es-ES')}
+                {selected.producedBy && ` · ${selected.producedBy}`}
+              </Typography>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <Typography variant="caption" color="text.secondary">Correlativo del modelo</Typography>
+              <Typography>{selected.sequence}</Typography>
+            </Grid>
+          </Grid>
+
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Componentes</Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Componente</TableCell>
+                    <TableCell>SKU</TableCell>
+                    <TableCell>Completado</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selected.components.map(component => (
+                    <TableRow key={component.componentId}>
+                      <TableCell>{component.componentName}</TableCell>
+                      <TableCell>{component.componentSku}</TableCell>
+                      <TableCell>
+                        {component.completedAt ? new Date(component.completedAt).toLocaleString('es-ES') : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Operarios</Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Operario</TableCell>
+                    <TableCell align="right">Tiempo fichado</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selected.operators.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={2} align="center">Sin fichajes</TableCell>
+                    </TableRow>
+                  )}
+                  {selected.operators.map(operator => (
+                    <TableRow key={operator.userId}>
+                      <TableCell>{operator.userName}</TableCell>
+                      <TableCell align="right">{formatMinutes(operator.minutes)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Materiales consumidos</Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Material</TableCell>
+                    <TableCell>Componente</TableCell>
+                    <TableCell>Lote</TableCell>
+                    <TableCell align="right">Cantidad</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selected.materials.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} align="center">Sin consumos registrados</TableCell>
+                    </TableRow>
+                  )}
+                  {selected.materials.map(material => (
+                    <TableRow key={material.movementId}>
+                      <TableCell>{material.itemName} ({material.itemSku})</TableCell>
+                      <TableCell>
+                        {selected.components.find(component => component.componentId === material.componentId)?.componentName || '-'}
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{material.lotNumber || '-'}</TableCell>
+                      <TableCell align="right">{material.quantity} {material.unit}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Calidad</Typography>
+              {selected.inspections.length === 0 && selected.nonConformances.length === 0 && (
+                <Typography variant="body2" color="text.secondary">Sin inspecciones ni no conformidades</Typography>
+              )}
+              {selected.inspections.map((inspection, index) => (
+                <Box key={index} sx={{ mb: 1 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="body2" sx={{ fontWeight: 'bold' }}>{inspection.planName}</Typography>
+                    <Chip
+                      size="small"
+                      color={inspection.passed ? 'success' : inspection.acceptedByNcr ? 'warning' : 'error'}
+                      label={inspection.passed
+                        ? 'Superada'
+                        : inspection.acceptedByNcr ? `Concesión (${inspection.acceptedByNcr})` : 'No superada'}
+                    />
+                    <Typography variant="caption" color="text.secondary">
+                      {new Date(inspection.inspectedAt).toLocaleString('es-ES')}
+                      {inspection.inspectedBy && ` · ${inspection.inspectedBy}`}
+                    </Typography>
+                  </Box>
+                  <Typography variant="caption" color="text.secondary">
+                    {inspection.results
+                      .map(result => `${result.name}: ${result.measuredValue !== undefined
+                        ? `${result.measuredValue}${result.unit ? ` ${result.unit}` : ''}`
+                        : result.passed ? 'Pasa' : 'No pasa'}`)
+                      .join(' · ')}
+                  </Typography>
+                </Box>
+              ))}
+              {selected.nonConformances.map(nonConformance => (
+                <Box key={nonConformance.nonConformanceId} sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+                  <Typography variant="body2">{formatNcrNumber(nonConformance.ncrNumber)}</Typography>
+                  <Typography variant="body2" color="text.secondary">{defectTypeLabels[nonConformance.defectType]}</Typography>
+                  <Chip
+                    size="small"
+                    label={nonConformance.disposition ? dispositionLabels[nonConformance.disposition] : 'Abierta'}
+                    color={nonConformance.disposition ? 'default' : 'info'}
+                  />
+                </Box>
+              ))}
+            </Grid>
+          </Grid>
+        </Paper>
+      )}
+
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="h6" gutterBottom>
+          Unidades fabricadas
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Número de serie</TableCell>
+                <TableCell>Modelo</TableCell>
+                <TableCell>Orden / tarjeta</TableCell>
+                <TableCell>Fabricada</TableCell>
+                <TableCell>Calidad</TableCell>
+                <TableCell>Envío</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {!loading && units.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    No hay unidades serializadas
+                  </TableCell>
+                </TableRow>
+              )}
+              {units.map(unit => (
+                <TableRow key={unit.id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelected(unit)}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{unit.serialNumber}</TableCell>
+                  <TableCell>{unit.modelName}</TableCell>
+                  <TableCell>{unit.cardLabel}</TableCell>
+                  <TableCell>{new Date(unit.producedAt).toLocaleString('es-ES')}</TableCell>
+                  <TableCell>
+                    {unit.nonConformances.length > 0
+                      ? `${unit.nonConformances.length} NCR`
+                      : '-'}
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>
+                    {unit.shipment ? formatShipmentNumber(unit.shipment.shipmentNumber) : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Box>
+  );
+};
+
+export default SerialLookup;
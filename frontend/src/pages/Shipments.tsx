@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  MenuItem,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  LocalShipping as ShipIcon,
+  PictureAsPdf as PdfIcon,
+  Visibility as ViewIcon,
+} from '@mui/icons-material';
+import { shipmentApi, getApiErrorMessage, formatShipmentNumber, formatSoNumber } from '../services/api';
+import type { Shipment, ShipmentStatus } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import ShipmentDialog from '../components/Shipping/ShipmentDialog';
+
+const statusLabels: Record<ShipmentStatus, string> = {
+  draft: 'En preparación',
+  shipped: 'Enviado',
+};
+
+const statusColors: Record<ShipmentStatus, 'default' | 'success'> = {
+  draft: 'default',
+  shipped: 'success',
+};
+
+const formatDate = (value?: string): string => (value ? new Date(value).toLocaleDateString('es-ES') : '-');
+
+const totalQuantity = (shipment: Shipment): number =>
+  shipment.lines.reduce((sum, line) => sum + line.quantity, 0);
+
+const Shipments: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canShip = hasRole('planner', 'warehouse');
+  const [status, setStatus] = useState<string>('');
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Shipment | null>(null);
+  const [viewing, setViewing] = useState<Shipment | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setShipments(await shipmentApi.getAll({ status: status || undefined }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los envíos'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (shipment: Shipment) => {
+    setEditing(shipment);
+    setDialogOpen(true);
+  };
+
+  const handleShip = async (shipment: Shipment) => {
+    const message = `¿Enviar ${formatShipmentNumber(shipment.shipmentNumber)} a ${shipment.customerName}? `
+      + 'Se dará salida al stock y las unidades quedarán como entregadas.';
+    if (!window.confirm(message)) return;
+    try {
+      setError(null);
+      await shipmentApi.ship(shipment.id);
+      await fetchData();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al enviar'));
+    }
+  };
+
+  const handleDelete = async (shipment: Shipment) => {
+    if (!window.confirm(`¿Eliminar el envío ${formatShipmentNumber(shipment.shipmentNumber)}?`)) return;
+    try {
+      setError(null);
+      await shipmentApi.delete(shipment.id);
+      await fetchData();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el envío'));
+    }
+  };
+
+  // El albarán se abre en una pestaña nueva para verlo o imprimirlo
+  const handleDeliveryNote = async (shipment: Shipment) => {
+    try {
+      setError(null);
+      const blob = await shipmentApi.getDeliveryNote(shipment.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al generar el albarán'));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Envíos</Typography>
+        {canShip && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+            Nuevo Envío
+          </Button>
+        )}
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <TextField
+          select
+          label="Estado"
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          size="small"
+          sx={{ minWidth: 240 }}
+        >
+          <MenuItem value="">Todos</MenuItem>
+          {(Object.keys(statusLabels) as ShipmentStatus[]).map(value => (
+            <MenuItem key={value} value={value}>
+              {statusLabels[value]}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Número</TableCell>
+              <TableCell>Cliente</TableCell>
+              <TableCell>Origen</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Unidades</TableCell>
+              <TableCell>Transportista</TableCell>
+              <TableCell>Enviado</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {shipments.map(shipment => (
+              <TableRow key={shipment.id} hover>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatShipmentNumber(shipment.shipmentNumber)}</TableCell>
+                <TableCell>{shipment.customerName}</TableCell>
+                <TableCell>
+                  {shipment.soNumber ? formatSoNumber(shipment.soNumber) : 'Orden de fabricación'}
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    label={statusLabels[shipment.status]}
+                    color={statusColors[shipment.status]}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right">{totalQuantity(shipment)}</TableCell>
+                <TableCell>
+                  {shipment.carrier || '-'}
+                  {shipment.trackingNumber && (
+                    <Typography variant="caption" display="block" color="textSecondary">
+                      {shipment.trackingNumber}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{formatDate(shipment.shippedAt)}</TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Ver detalle">
+                    <IconButton size="small" onClick={() => setViewing(shipment)}>
+                      <ViewIcon />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Albarán">
+                    <IconButton size="small" onClick={() => handleDeliveryNote(shipment)}>
+                      <PdfIcon />
+                    </IconButton>
+                  </Tooltip>
+                  {canShip && shipment.status === 'draft' && (
+                    <>
+                      <Tooltip title="Editar">
+                        <IconButton size="small" onClick={() => openEdit(shipment)}>
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Enviar">
+                        <IconButton size="small" color="primary" onClick={() => handleShip(shipment)}>
+                          <ShipIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Eliminar">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(shipment)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && shipments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  No hay envíos
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <ShipmentDialog
+        open={dialogOpen}
+        shipment={editing}
+        onClose={() => setDialogOpen(false)}
+        onSaved={fetchData}
+      />
+
+      <Dialog open={Boolean(viewing)} onClose={() => setViewing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {viewing ? `${formatShipmentNumber(viewing.shipmentNumber)} · ${viewing.customerName}` : ''}
+        </DialogTitle>
+        <DialogContent>
+          {viewing && (
+            <>
+              <Typography variant="body2" color="textSecondary" gutterBottom>
+                {statusLabels[viewing.status]} · Creado {formatDate(viewing.createdAt)}
+                {viewing.createdBy ? ` por ${viewing.createdBy}` : ''}
+                {viewing.shippedAt ? ` · Enviado ${formatDate(viewing.shippedAt)}` : ''}
+                {viewing.shippedBy ? ` por ${viewing.shippedBy}` : ''}
+                {viewing.customerReference ? ` · Su referencia ${viewing.customerReference}` : ''}
+              </Typography>
+              {viewing.deliveryAddress && (
+                <Typography variant="body2" gutterBottom sx={{ whiteSpace: 'pre-line' }}>
+                  {viewing.deliveryAddress}
+                </Typography>
+              )}
+              {viewing.notes && <Typography variant="body2" gutterBottom>{viewing.notes}</Typography>}
+              <Table size="small" sx={{ mt: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Modelo</TableCell>
+                    <TableCell align="right">Cantidad</TableCell>
+                    <TableCell>Números de serie</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {viewing.lines.map(line => (
+                    <TableRow key={line.itemId}>
+                      <TableCell>{line.itemSku} - {line.itemName}</TableCell>
+                      <TableCell align="right">{line.quantity} {line.unit}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>
+                        {line.serials.length > 0 ? line.serials.map(serial => serial.serialNumber).join(', ') : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setViewing(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Shipments;
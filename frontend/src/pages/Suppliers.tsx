@@ -0,0 +1,428 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+  Grid,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+  Inventory as ItemsIcon,
+} from '@mui/icons-material';
+import { supplierApi, getApiErrorMessage } from '../services/api';
+import type { InventoryItem, Supplier } from '../services/api';
+
+interface SupplierFormData {
+  code: string;
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  taxId: string;
+  leadTimeDays: number;
+  currency: string;
+  paymentTerms: string;
+  notes: string;
+  isActive: boolean;
+}
+
+const emptyForm: SupplierFormData = {
+  code: '',
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  taxId: '',
+  leadTimeDays: 0,
+  currency: 'EUR',
+  paymentTerms: '',
+  notes: '',
+  isActive: true,
+};
+
+const Suppliers: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SupplierFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [itemsSupplier, setItemsSupplier] = useState<Supplier | null>(null);
+  const [supplierItems, setSupplierItems] = useState<InventoryItem[]>([]);
+
+  const fetchSuppliers = useCallback(async (searchText?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSuppliers(await supplierApi.getAll({ search: searchText || undefined }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los proveedores'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setFormData({
+      code: supplier.code,
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      address: supplier.address || '',
+      taxId: supplier.taxId || '',
+      leadTimeDays: supplier.leadTimeDays,
+      currency: supplier.currency,
+      paymentTerms: supplier.paymentTerms || '',
+      notes: supplier.notes || '',
+      isActive: supplier.isActive,
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setFormError(null);
+      if (editingId) {
+        await supplierApi.update(editingId, formData);
+      } else {
+        await supplierApi.create(formData);
+      }
+      setDialogOpen(false);
+      await fetchSuppliers(search);
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar el proveedor'));
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`¿Eliminar el proveedor ${supplier.code}?`)) {
+      return;
+    }
+
+    try {
+      await supplierApi.delete(supplier.id);
+      await fetchSuppliers(search);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el proveedor'));
+    }
+  };
+
+  const openItems = async (supplier: Supplier) => {
+    setItemsSupplier(supplier);
+    setSupplierItems([]);
+    try {
+      setSupplierItems(await supplierApi.getItems(supplier.id));
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los artículos del proveedor'));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Proveedores</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Nuevo Proveedor
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Buscar"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchSuppliers(search)}
+            size="small"
+            fullWidth
+          />
+          <Button variant="outlined" onClick={() => fetchSuppliers(search)}>
+            Buscar
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Código</TableCell>
+              <TableCell>Nombre</TableCell>
+              <TableCell>Contacto</TableCell>
+              <TableCell align="right">Plazo (días)</TableCell>
+              <TableCell>Moneda</TableCell>
+              <TableCell>Condiciones de pago</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {suppliers.map(supplier => (
+              <TableRow key={supplier.id}>
+                <TableCell>{supplier.code}</TableCell>
+                <TableCell>{supplier.name}</TableCell>
+                <TableCell>
+                  {supplier.contactName || '-'}
+                  {(supplier.email || supplier.phone) && (
+                    <Typography variant="caption" display="block" color="textSecondary">
+                      {[supplier.email, supplier.phone].filter(Boolean).join(' · ')}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell align="right">{supplier.leadTimeDays}</TableCell>
+                <TableCell>{supplier.currency}</TableCell>
+                <TableCell>{supplier.paymentTerms || '-'}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={supplier.isActive ? 'Activo' : 'Inactivo'}
+                    color={supplier.isActive ? 'success' : 'default'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" title="Artículos" onClick={() => openItems(supplier)}>
+                    <ItemsIcon />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => openEdit(supplier)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(supplier)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && suppliers.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  No hay proveedores registrados
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editingId ? 'Editar Proveedor' : 'Nuevo Proveedor'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Código"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                required
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={8}>
+              <TextField
+                label="Nombre"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Persona de contacto"
+                value={formData.contactName}
+                onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Teléfono"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={8}>
+              <TextField
+                label="Dirección"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="NIF / CIF"
+                value={formData.taxId}
+                onChange={(e) => setFormData({ ...formData, taxId: e.target.value })}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Plazo de entrega (días)"
+                type="number"
+                value={formData.leadTimeDays}
+                onChange={(e) => setFormData({ ...formData, leadTimeDays: Number(e.target.value) })}
+                inputProps={{ min: 0, step: 1 }}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Moneda"
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                inputProps={{ maxLength: 3 }}
+                helperText="Código ISO, por ejemplo EUR"
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label="Condiciones de pago"
+                value={formData.paymentTerms}
+                onChange={(e) => setFormData({ ...formData, paymentTerms: e.target.value })}
+                placeholder="30 días fecha factura"
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Notas"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                multiline
+                rows={2}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                }
+                label="Activo"
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(itemsSupplier)} onClose={() => setItemsSupplier(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Artículos de {itemsSupplier?.name}</DialogTitle>
+        <DialogContent>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>SKU</TableCell>
+                <TableCell>Artículo</TableCell>
+                <TableCell>Referencia del proveedor</TableCell>
+                <TableCell align="right">Precio</TableCell>
+                <TableCell align="right">Pedido mínimo</TableCell>
+                <TableCell>Preferente</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {supplierItems.map(item => {
+                const line = item.suppliers?.find(entry => entry.supplierId === itemsSupplier?.id);
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.sku}</TableCell>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell>{line?.supplierSku || '-'}</TableCell>
+                    <TableCell align="right">
+                      {line?.unitPrice !== undefined ? `${line.unitPrice} ${itemsSupplier?.currency}` : '-'}
+                    </TableCell>
+                    <TableCell align="right">{line?.minimumOrderQuantity || '-'}</TableCell>
+                    <TableCell>{line?.isPreferred ? 'Sí' : 'No'}</TableCell>
+                  </TableRow>
+                );
+              })}
+              {supplierItems.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    El proveedor no tiene artículos asignados
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setItemsSupplier(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,481 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+  Grid,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+} from '@mui/icons-material';
+import { warehouseApi, getApiErrorMessage } from '../services/api';
+import type { BinLocation, LocationStock, Warehouse } from '../services/api';
+
+interface WarehouseFormData {
+  code: string;
+  name: string;
+  address: string;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+interface BinFormData {
+  code: string;
+  description: string;
+  isActive: boolean;
+}
+
+const emptyWarehouseForm: WarehouseFormData = {
+  code: '',
+  name: '',
+  address: '',
+  isDefault: false,
+  isActive: true,
+};
+
+const emptyBinForm: BinFormData = {
+  code: '',
+  description: '',
+  isActive: true,
+};
+
+const Warehouses: React.FC = () => {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [selected, setSelected] = useState<Warehouse | null>(null);
+  const [bins, setBins] = useState<BinLocation[]>([]);
+  const [stock, setStock] = useState<LocationStock[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [warehouseDialogOpen, setWarehouseDialogOpen] = useState(false);
+  const [editingWarehouseId, setEditingWarehouseId] = useState<string | null>(null);
+  const [warehouseForm, setWarehouseForm] = useState<WarehouseFormData>(emptyWarehouseForm);
+  const [binDialogOpen, setBinDialogOpen] = useState(false);
+  const [editingBinId, setEditingBinId] = useState<string | null>(null);
+  const [binForm, setBinForm] = useState<BinFormData>(emptyBinForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchWarehouses = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await warehouseApi.getAll();
+      setWarehouses(data);
+      setSelected(prev => data.find(warehouse => warehouse.id === prev?.id) || data[0] || null);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los almacenes'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchWarehouseDetail = useCallback(async (warehouseId: string) => {
+    try {
+      const [binData, stockData] = await Promise.all([
+        warehouseApi.getBins(warehouseId),
+        warehouseApi.getStock({ warehouseId }),
+      ]);
+      setBins(binData);
+      setStock(stockData);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar las ubicaciones del almacén'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, [fetchWarehouses]);
+
+  useEffect(() => {
+    if (selected) {
+      fetchWarehouseDetail(selected.id);
+    } else {
+      setBins([]);
+      setStock([]);
+    }
+  }, [selected, fetchWarehouseDetail]);
+
+  const openCreateWarehouse = () => {
+    setEditingWarehouseId(null);
+    setWarehouseForm(emptyWarehouseForm);
+    setFormError(null);
+    setWarehouseDialogOpen(true);
+  };
+
+  const openEditWarehouse = (warehouse: Warehouse) => {
+    setEditingWarehouseId(warehouse.id);
+    setWarehouseForm({
+      code: warehouse.code,
+      name: warehouse.name,
+      address: warehouse.address || '',
+      isDefault: warehouse.isDefault,
+      isActive: warehouse.isActive,
+    });
+    setFormError(null);
+    setWarehouseDialogOpen(true);
+  };
+
+  const handleSaveWarehouse = async () => {
+    try {
+      setFormError(null);
+      if (editingWarehouseId) {
+        await warehouseApi.update(editingWarehouseId, warehouseForm);
+      } else {
+        await warehouseApi.create(warehouseForm);
+      }
+      setWarehouseDialogOpen(false);
+      await fetchWarehouses();
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar el almacén'));
+    }
+  };
+
+  const handleDeleteWarehouse = async (warehouse: Warehouse) => {
+    if (!window.confirm(`¿Eliminar el almacén ${warehouse.code} y sus ubicaciones?`)) {
+      return;
+    }
+
+    try {
+      await warehouseApi.delete(warehouse.id);
+      await fetchWarehouses();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el almacén'));
+    }
+  };
+
+  const openCreateBin = () => {
+    setEditingBinId(null);
+    setBinForm(emptyBinForm);
+    setFormError(null);
+    setBinDialogOpen(true);
+  };
+
+  const openEditBin = (bin: BinLocation) => {
+    setEditingBinId(bin.id);
+    setBinForm({
+      code: bin.code,
+      description: bin.description || '',
+      isActive: bin.isActive,
+    });
+    setFormError(null);
+    setBinDialogOpen(true);
+  };
+
+  const handleSaveBin = async () => {
+    if (!selected) return;
+    try {
+      setFormError(null);
+      if (editingBinId) {
+        await warehouseApi.updateBin(selected.id, editingBinId, binForm);
+      } else {
+        await warehouseApi.createBin(selected.id, binForm);
+      }
+      setBinDialogOpen(false);
+      await fetchWarehouseDetail(selected.id);
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar la ubicación'));
+    }
+  };
+
+  const handleDeleteBin = async (bin: BinLocation) => {
+    if (!selected || !window.confirm(`¿Eliminar la ubicación ${bin.code}?`)) {
+      return;
+    }
+
+    try {
+      await warehouseApi.deleteBin(selected.id, bin.id);
+      await fetchWarehouseDetail(selected.id);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar la ubicación'));
+    }
+  };
+
+  const binStock = (binId?: string) => stock.filter(entry => (entry.binId || undefined) === binId);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Almacenes</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreateWarehouse}>
+          Nuevo Almacén
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Código</TableCell>
+              <TableCell>Nombre</TableCell>
+              <TableCell>Dirección</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {warehouses.map(warehouse => (
+              <TableRow
+                key={warehouse.id}
+                hover
+                selected={selected?.id === warehouse.id}
+                onClick={() => setSelected(warehouse)}
+                sx={{ cursor: 'pointer' }}
+              >
+                <TableCell>
+                  {warehouse.code}
+                  {warehouse.isDefault && <Chip label="Por defecto" size="small" color="primary" sx={{ ml: 1 }} />}
+                </TableCell>
+                <TableCell>{warehouse.name}</TableCell>
+                <TableCell>{warehouse.address || '-'}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={warehouse.isActive ? 'Activo' : 'Inactivo'}
+                    color={warehouse.isActive ? 'success' : 'default'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right" onClick={(e) => e.stopPropagation()}>
+                  <IconButton size="small" onClick={() => openEditWarehouse(warehouse)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    disabled={warehouse.isDefault}
+                    onClick={() => handleDeleteWarehouse(warehouse)}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && warehouses.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  No hay almacenes registrados
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {selected && (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={6}>
+            <Paper sx={{ p: 2 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="h6">Ubicaciones de {selected.code}</Typography>
+                <Button size="small" variant="outlined" startIcon={<AddIcon />} onClick={openCreateBin}>
+                  Nueva Ubicación
+                </Button>
+              </Box>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Código</TableCell>
+                    <TableCell>Descripción</TableCell>
+                    <TableCell align="right">Artículos</TableCell>
+                    <TableCell>Estado</TableCell>
+                    <TableCell align="right">Acciones</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {bins.map(bin => (
+                    <TableRow key={bin.id}>
+                      <TableCell>{bin.code}</TableCell>
+                      <TableCell>{bin.description || '-'}</TableCell>
+                      <TableCell align="right">{binStock(bin.id).length}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={bin.isActive ? 'Activa' : 'Inactiva'}
+                          color={bin.isActive ? 'success' : 'default'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <IconButton size="small" onClick={() => openEditBin(bin)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" color="error" onClick={() => handleDeleteBin(bin)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {bins.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} align="center">
+                        Sin ubicaciones: el stock se guarda en el almacén
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>Existencias en {selected.code}</Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Artículo</TableCell>
+                    <TableCell>Ubicación</TableCell>
+                    <TableCell align="right">Cantidad</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {stock.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.itemName} ({entry.itemSku})</TableCell>
+                      <TableCell>{entry.binCode || '-'}</TableCell>
+                      <TableCell align="right">{entry.quantity} {entry.unit}</TableCell>
+                    </TableRow>
+                  ))}
+                  {stock.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} align="center">
+                        El almacén no tiene existencias
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+
+      <Dialog open={warehouseDialogOpen} onClose={() => setWarehouseDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingWarehouseId ? 'Editar Almacén' : 'Nuevo Almacén'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Código"
+              value={warehouseForm.code}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, code: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Nombre"
+              value={warehouseForm.name}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, name: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Dirección"
+              value={warehouseForm.address}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, address: e.target.value })}
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={warehouseForm.isDefault}
+                  onChange={(e) => setWarehouseForm({ ...warehouseForm, isDefault: e.target.checked })}
+                />
+              }
+              label="Almacén por defecto (recibe el stock sin ubicación indicada)"
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={warehouseForm.isActive}
+                  onChange={(e) => setWarehouseForm({ ...warehouseForm, isActive: e.target.checked })}
+                />
+              }
+              label="Activo"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setWarehouseDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSaveWarehouse}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={binDialogOpen} onClose={() => setBinDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingBinId ? 'Editar Ubicación' : 'Nueva Ubicación'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Código"
+              value={binForm.code}
+              onChange={(e) => setBinForm({ ...binForm, code: e.target.value })}
+              placeholder="A-01-03"
+              required
+              fullWidth
+            />
+            <TextField
+              label="Descripción"
+              value={binForm.description}
+              onChange={(e) => setBinForm({ ...binForm, description: e.target.value })}
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={binForm.isActive}
+                  onChange={(e) => setBinForm({ ...binForm, isActive: e.target.checked })}
+                />
+              }
+              label="Activa"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setBinDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSaveBin}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Warehouses;
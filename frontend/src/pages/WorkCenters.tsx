@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  TextField,
+  Alert,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+} from '@mui/icons-material';
+import { workCenterApi, getApiErrorMessage } from '../services/api';
+import type { WorkCenter } from '../services/api';
+
+interface WorkCenterFormData {
+  code: string;
+  name: string;
+  description: string;
+  capacityHoursPerDay: number;
+  isActive: boolean;
+}
+
+const emptyForm: WorkCenterFormData = {
+  code: '',
+  name: '',
+  description: '',
+  capacityHoursPerDay: 8,
+  isActive: true,
+};
+
+const WorkCenters: React.FC = () => {
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<WorkCenterFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchWorkCenters = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setWorkCenters(await workCenterApi.getAll());
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al cargar los centros de trabajo'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkCenters();
+  }, [fetchWorkCenters]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (workCenter: WorkCenter) => {
+    setEditingId(workCenter.id);
+    setFormData({
+      code: workCenter.code,
+      name: workCenter.name,
+      description: workCenter.description || '',
+      capacityHoursPerDay: workCenter.capacityHoursPerDay,
+      isActive: workCenter.isActive,
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setFormError(null);
+      if (editingId) {
+        await workCenterApi.update(editingId, formData);
+      } else {
+        await workCenterApi.create(formData);
+      }
+      setDialogOpen(false);
+      await fetchWorkCenters();
+    } catch (err) {
+      setFormError(getApiErrorMessage(err, 'Error al guardar el centro de trabajo'));
+    }
+  };
+
+  const handleDelete = async (workCenter: WorkCenter) => {
+    if (!window.confirm(`¿Eliminar el centro de trabajo ${workCenter.code}?`)) {
+      return;
+    }
+
+    try {
+      await workCenterApi.delete(workCenter.id);
+      await fetchWorkCenters();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Error al eliminar el centro de trabajo'));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Centros de Trabajo</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Nuevo Centro
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Código</TableCell>
+              <TableCell>Nombre</TableCell>
+              <TableCell>Descripción</TableCell>
+              <TableCell align="right">Capacidad (h/día)</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {workCenters.map(workCenter => (
+              <TableRow key={workCenter.id}>
+                <TableCell>{workCenter.code}</TableCell>
+                <TableCell>{workCenter.name}</TableCell>
+                <TableCell>{workCenter.description || '-'}</TableCell>
+                <TableCell align="right">{workCenter.capacityHoursPerDay}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={workCenter.isActive ? 'Activo' : 'Inactivo'}
+                    color={workCenter.isActive ? 'success' : 'default'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" onClick={() => openEdit(workCenter)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(workCenter)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && workCenters.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  No hay centros de trabajo registrados
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingId ? 'Editar Centro de Trabajo' : 'Nuevo Centro de Trabajo'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Código"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Nombre"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Descripción"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              multiline
+              rows={2}
+              fullWidth
+            />
+            <TextField
+              label="Capacidad diaria (horas)"
+              type="number"
+              value={formData.capacityHoursPerDay}
+              onChange={(e) => setFormData({ ...formData, capacityHoursPerDay: Number(e.target.value) })}
+              inputProps={{ min: 0, max: 24, step: 0.5 }}
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+              }
+              label="Activo"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WorkCenters;
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { getAuthToken, clearAuthToken, AUTH_EXPIRED_EVENT } from './authStorage';
 
 // Definir tipos internamente para evitar dependencias circulares
 interface ManufacturingOrder {
@@ -8,14 +9,20 @@ interface ManufacturingOrder {
   modelSku: string;
   quantity: number;
   clientName: string;
+  customerId?: string;
+  salesOrderId?: string;
   dueDate: string;
   createdDate: string;
   status: string;
   components: any[];
+  bomRevisionId?: string;
   notes?: string;
   estimatedHours: number;
+  deliveredQuantity?: number;
   startedAt?: string;
   completedAt?: string;
+  remainingWorkingHours?: number;
+  overdueRisk?: OverdueRisk;
   createdAt: string;
   updatedAt: string;
 }
@@ -23,6 +30,8 @@ interface ManufacturingOrder {
 interface ManufacturingOrderFilters {
   status?: string;
   clientName?: string;
+  customerId?: string;
+  salesOrderId?: string;
   modelId?: string;
   overdue?: boolean;
   search?: string;
@@ -31,14 +40,17 @@ interface ManufacturingOrderFilters {
 interface CreateManufacturingOrderRequest {
   modelId: string;
   quantity: number;
-  clientName: string;
+  clientName?: string;
+  customerId?: string;
   dueDate: Date | string;
   notes?: string;
   componentIds?: string[];
+  blockOnShortage?: boolean;
 }
 
 interface UpdateManufacturingOrderRequest {
   clientName?: string;
+  customerId?: string;
   dueDate?: Date | string;
   notes?: string;
   quantity?: number;
@@ -66,409 +78,2253 @@ export interface InventoryItem {
   type: InventoryType;
   sku: string;
   quantity: number;
+  reserved?: number; // reservado para órdenes de fabricación
+  onHand?: number;
+  available?: number; // quantity - reserved
   unit: string;
   unitPrice: number;
   status: InventoryStatus;
   minimumStock: number;
   maximumStock: number;
   location: string;
-  supplier?: string;
+  supplier?: string; // preferred supplier name (read-only)
+  suppliers?: ItemSupplier[];
+  estimatedManufacturingTime?: number;
+  components?: string[];
+  componentLines?: ComponentLine[];
+  canManufacture?: boolean;
+  routing?: RoutingOperation[];
+  serialPattern?: string;
+  isLotControlled?: boolean;
+  lotPickingPolicy?: LotPickingPolicy;
   createdAt: string;
   updatedAt: string;
 }
 
-export interface InventoryFilters {
-  type?: InventoryType;
-  status?: InventoryStatus;
-  location?: string;
-  supplier?: string;
-  lowStock?: boolean;
-  search?: string;
+// Componente con cantidad por unidad del padre (BOM multinivel)
+export interface ComponentLine {
+  componentId: string;
+  quantity: number;
 }
 
-export interface InventoryStats {
-  totalItems: number;
-  totalValue: number;
-  lowStockCount: number;
-  byType: Record<InventoryType, number>;
-  byStatus: Record<InventoryStatus, number>;
+// Operación de la ruta de fabricación de un modelo o componente
+export interface RoutingOperation {
+  sequence: number;
+  name: string;
+  workCenterId: string;
+  setupMinutes: number;
+  runMinutesPerUnit: number;
+  description?: string;
 }
 
-// Manufacturing types are defined in InventoryContext.tsx to avoid circular imports
+// Usuarios y roles
+export type UserRole = 'admin' | 'planner' | 'warehouse' | 'operator' | 'viewer';
 
-// Production Card types
-export enum ProductionCardStatus {
-  PENDING = 'pending',
-  IN_PROGRESS = 'in_progress',
-  PAUSED = 'paused',
-  COMPLETED = 'completed',
-  CANCELLED = 'cancelled'
+export interface User {
+  id: string;
+  username: string;
+  name: string;
+  email?: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
-export enum ProductionCardPriority {
-  LOW = 'low',
-  NORMAL = 'normal',
-  HIGH = 'high',
-  URGENT = 'urgent'
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+// Fichajes de operarios en tarjetas/componentes
+export interface LaborEntry {
+  id: string;
+  userId: string;
+  username: string;
+  userName: string;
+  cardId: string;
+  orderId: string;
+  orderName: string;
+  cardLabel: string;
+  componentId?: string;
+  componentName?: string;
+  startTime: string;
+  endTime?: string;
+  minutes: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LaborSummaryLine {
+  key: string;
+  label: string;
+  minutes: number;
+  hours: number;
+  entries: number;
+}
+
+export interface LaborReconciliationLine {
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  status: string;
+  laborMinutes: number;
+  productionMinutes: number;
+  differenceMinutes: number;
+  averageCrew: number;
+  operators: number;
+  openEntries: number;
+}
+
+export interface LaborReport {
+  from?: string;
+  to?: string;
+  generatedAt: string;
+  totalMinutes: number;
+  totalHours: number;
+  entries: number;
+  openEntries: number;
+  byOrder: LaborSummaryLine[];
+  byOperator: LaborSummaryLine[];
+  byDay: LaborSummaryLine[];
+  reconciliation: LaborReconciliationLine[];
+}
+
+export interface LaborFilters {
+  from?: string;
+  to?: string;
+  orderId?: string;
+  userId?: string;
+  cardId?: string;
+}
+
+// Planes de inspección de calidad por modelo y resultados en las tarjetas
+export type InspectionCheckType = 'checklist' | 'measurement';
+
+export interface InspectionCheck {
+  sequence: number;
+  name: string;
+  type: InspectionCheckType;
+  description?: string;
+  nominalValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  unit?: string;
+}
+
+export interface InspectionPlan {
+  id: string;
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  name: string;
+  checks: InspectionCheck[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InspectionCheckResult {
+  sequence: number;
+  name: string;
+  type: InspectionCheckType;
+  passed: boolean;
+  measuredValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  unit?: string;
+  notes?: string;
+}
+
+export interface InspectionRecord {
+  planId: string;
+  planName: string;
+  results: InspectionCheckResult[];
+  passed: boolean;
+  notes?: string;
+  inspectedBy?: string;
+  inspectedAt: string;
+  acceptedByNcr?: string;
+}
+
+export interface CardInspectionStatus {
+  cardId: string;
+  plan?: InspectionPlan;
+  inspections: InspectionRecord[];
+  required: boolean;
+  passed: boolean;
+}
+
+export interface InspectionResultInput {
+  sequence: number;
+  passed?: boolean;
+  measuredValue?: number;
+  notes?: string;
+}
+
+// No conformidades (NCR), retrabajo, desecho y tasas de defectos
+export type DefectType = 'dimensional' | 'cosmetic' | 'functional' | 'material' | 'assembly' | 'other';
+export type NonConformanceDisposition = 'rework' | 'scrap' | 'use_as_is';
+export type NonConformanceStatus = 'open' | 'closed';
+
+export interface NonConformance {
+  id: string;
+  ncrNumber: number;
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  modelId: string;
+  modelName: string;
+  defectType: DefectType;
+  description: string;
+  affectedComponents: { componentId: string; componentName: string; componentSku: string }[];
+  status: NonConformanceStatus;
+  disposition?: NonConformanceDisposition;
+  dispositionNotes?: string;
+  reworkCardId?: string;
+  scrapMovementIds?: string[];
+  reportedBy?: string;
+  dispositionedBy?: string;
+  dispositionedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DefectRateLine {
+  modelId: string;
+  modelName: string;
+  unitsBuilt: number;
+  nonConformances: number;
+  defectRate: number;
+  rework: number;
+  scrap: number;
+  useAsIs: number;
+  open: number;
+  byDefectType: Partial<Record<DefectType, number>>;
+}
+
+export interface DefectRateReport {
+  from?: string;
+  to?: string;
+  generatedAt: string;
+  totals: Omit<DefectRateLine, 'modelId' | 'modelName'>;
+  byModel: DefectRateLine[];
+}
+
+export const formatNcrNumber = (ncrNumber: number): string => `NCR-${String(ncrNumber).padStart(5, '0')}`;
+
+// Unidades terminadas con número de serie y su genealogía
+export const DEFAULT_SERIAL_PATTERN = '{SKU}-{YYYY}-{SEQ:5}';
+
+export interface SerialUnit {
+  id: string;
+  serialNumber: string;
+  sequence: number;
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  orderName: string;
+  reworkOfCardIds?: string[];
+  components: { componentId: string; componentName: string; componentSku: string; completedAt?: string }[];
+  materials: { itemId: string; itemName: string; itemSku: string; quantity: number; unit: string; componentId?: string; movementId: string; lotId?: string; lotNumber?: string }[];
+  operators: { userId: string; username: string; userName: string; minutes: number }[];
+  inspections: InspectionRecord[];
+  nonConformances: {
+    nonConformanceId: string;
+    ncrNumber: number;
+    defectType: DefectType;
+    status: NonConformanceStatus;
+    disposition?: NonConformanceDisposition;
+  }[];
+  producedAt: string;
+  producedBy?: string;
+  shipment?: { shipmentId: string; shipmentNumber: number; customerName: string; shippedAt: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Motivos de parada y análisis de tiempos parados
+export type DowntimeCategory = 'planned' | 'material' | 'equipment' | 'quality' | 'labor' | 'other';
+
+export interface DowntimeReason {
+  id: string;
+  code: string;
+  name: string;
+  category: DowntimeCategory;
+  description?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tramo del cronómetro: trabajo o pausa (las pausas llevan su motivo de parada)
+export type TimeSegmentKind = 'run' | 'pause';
+
+export interface TimeSegment {
+  kind: TimeSegmentKind;
+  startTime: string;
+  endTime?: string;
+  reasonCode?: string;
+  reasonName?: string;
+  category?: DowntimeCategory;
+  notes?: string;
+  workCenterId?: string;
+  workCenterName?: string;
+  pausedBy?: string;
+}
+
+export interface TimeTracker {
+  startTime: string;
+  endTime?: string;
+  isPaused: boolean;
+  segments?: TimeSegment[];
+  totalTimeMinutes: number;
+  totalPauseMinutes: number;
+  pauseStartTime?: string; // solo en cronómetros anteriores a los tramos
+}
+
+// Línea de tiempo de una tarjeta (sin componente = cronómetro de la tarjeta)
+export interface CardTimelineSegment extends TimeSegment {
+  minutes: number;
+  componentId?: string;
+  componentName?: string;
+}
+
+export interface CardTimeline {
+  cardId: string;
+  cardLabel: string;
+  status: ProductionCardStatus;
+  runMinutes: number;
+  pauseMinutes: number;
+  segments: CardTimelineSegment[];
+}
+
+export interface DowntimeParetoLine {
+  key: string;
+  label: string;
+  minutes: number;
+  hours: number;
+  occurrences: number;
+  percentage: number;
+  cumulativePercentage: number;
+}
+
+export interface DowntimeReport {
+  from?: string;
+  to?: string;
+  generatedAt: string;
+  totalMinutes: number;
+  totalHours: number;
+  occurrences: number;
+  openPauses: number;
+  byReason: DowntimeParetoLine[];
+  byCategory: DowntimeParetoLine[];
+  byModel: DowntimeParetoLine[];
+  byWorkCenter: DowntimeParetoLine[];
+}
+
+// Calendario de fábrica: turnos por día de la semana, festivos y cierres de planta
+export interface ShiftDefinition {
+  name: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm (antes del inicio = cruza la medianoche)
+}
+
+export interface WeekdaySchedule {
+  weekday: number; // 0 = domingo ... 6 = sábado
+  shifts: ShiftDefinition[];
+}
+
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface PlantClosure {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  reason: string;
+}
+
+export interface FactoryCalendar {
+  id: string;
+  name: string;
+  timezone: string;
+  weekdays: WeekdaySchedule[];
+  holidays: CalendarHoliday[];
+  closures: PlantClosure[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OverdueRisk = 'on_time' | 'at_risk' | 'overdue';
+
+// Centro de trabajo (estación que ejecuta operaciones)
+export interface WorkCenter {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  capacityHoursPerDay: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Almacenes, ubicaciones y existencias por ubicación
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  address?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BinLocation {
+  id: string;
+  warehouseId: string;
+  code: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationStock {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  warehouseId: string;
+  warehouseCode: string;
+  binId?: string;
+  binCode?: string;
+  quantity: number;
+  unit: string;
+  updatedAt: string;
+}
+
+// Location label: "WAREHOUSE" or "WAREHOUSE/BIN"
+export const formatLocationLabel = (warehouseCode: string, binCode?: string): string =>
+  binCode ? `${warehouseCode}/${binCode}` : warehouseCode;
+
+// Proveedores y condiciones de compra por artículo
+export interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  leadTimeDays: number;
+  currency: string;
+  paymentTerms?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ItemSupplier {
+  supplierId: string;
+  supplierSku?: string;
+  unitPrice?: number;
+  minimumOrderQuantity?: number;
+  isPreferred?: boolean;
+}
+
+export type SupplierRequest = Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Órdenes de compra y recepción de mercancía
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'closed';
+
+export interface PurchaseOrderLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  supplierSku?: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitPrice: number;
+  expectedDate?: string;
+}
+
+export interface PurchaseReceipt {
+  receivedAt: string;
+  receivedBy?: string;
+  warehouseId?: string;
+  binId?: string;
+  notes?: string;
+  lines: Array<{ itemId: string; quantity: number; movementIds: string[]; lotNumber?: string }>;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: number;
+  supplierId: string;
+  supplierCode: string;
+  supplierName: string;
+  currency: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string;
+  notes?: string;
+  receipts: PurchaseReceipt[];
+  createdBy?: string;
+  sentAt?: string;
+  receivedAt?: string;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchaseOrderRequest {
+  supplierId: string;
+  expectedDate?: string;
+  notes?: string;
+  lines: Array<{ itemId: string; quantity: number; unitPrice?: number; expectedDate?: string }>;
+}
+
+export interface GoodsReceiptRequest {
+  lines: Array<{ itemId: string; quantity: number; lot?: NewLotRequest }>;
+  warehouseId?: string;
+  binId?: string;
+  notes?: string;
+}
+
+export interface IncomingItem {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  incomingQuantity: number;
+  nextExpectedDate?: string;
+  orders: Array<{
+    purchaseOrderId: string;
+    poNumber: number;
+    supplierName: string;
+    status: PurchaseOrderStatus;
+    outstandingQuantity: number;
+    expectedDate?: string;
+  }>;
+}
+
+export const formatPoNumber = (poNumber: number): string => `PO-${String(poNumber).padStart(5, '0')}`;
+
+// Clientes y pedidos de venta
+export interface Customer {
+  id: string;
+  code: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  paymentTerms?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomerRequest = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type SalesOrderStatus = 'draft' | 'confirmed' | 'delivered' | 'cancelled';
+export type SalesOrderLineStatus = 'pending' | 'in_production' | 'ready' | 'delivered';
+
+export interface LinkedOrderProgress {
+  orderId: string;
+  status: string;
+  quantity: number;
+  completedQuantity: number;
+  dueDate: string;
+  expectedFinish?: string;
+}
+
+export interface SalesOrderLineProgress {
+  status: SalesOrderLineStatus;
+  readyQuantity: number;
+  inProductionQuantity: number;
+  uncoveredQuantity: number;
+  expectedReadyDate?: string;
+  isLate: boolean;
+  orders: LinkedOrderProgress[];
+}
+
+export interface SalesOrderLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  dueDate?: string;
+  fromStockQuantity: number;
+  reservedQuantity: number;
+  deliveredQuantity: number;
+  manufacturingOrderIds: string[];
+  progress?: SalesOrderLineProgress;
+}
+
+export interface SalesOrder {
+  id: string;
+  soNumber: number;
+  customerId: string;
+  customerCode: string;
+  customerName: string;
+  customerReference?: string;
+  status: SalesOrderStatus;
+  lines: SalesOrderLine[];
+  requestedDate: string;
+  notes?: string;
+  createdBy?: string;
+  confirmedAt?: string;
+  confirmedBy?: string;
+  cancelledAt?: string;
+  deliveredAt?: string;
+  lineStatus?: SalesOrderLineStatus;
+  expectedReadyDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SalesOrderRequest {
+  customerId: string;
+  customerReference?: string;
+  requestedDate: string;
+  notes?: string;
+  lines: Array<{ itemId: string; quantity: number; unitPrice?: number; dueDate?: string }>;
+}
+
+export interface FulfilSalesOrderResult {
+  salesOrder: SalesOrder;
+  manufacturingOrderIds: string[];
+  errors: string[];
+}
+
+export const formatSoNumber = (soNumber: number): string => `SO-${String(soNumber).padStart(5, '0')}`;
+
+// Envíos (albaranes) de productos terminados
+export type ShipmentStatus = 'draft' | 'shipped';
+export type ShipmentSource = 'sales_order' | 'manufacturing_order';
+
+export interface ShipmentSerial {
+  serialUnitId: string;
+  serialNumber: string;
+  orderId: string;
+}
+
+export interface ShipmentLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number;
+  serials: ShipmentSerial[];
+  movementIds: string[];
+}
+
+export interface Shipment {
+  id: string;
+  shipmentNumber: number;
+  sourceType: ShipmentSource;
+  salesOrderId?: string;
+  soNumber?: number;
+  manufacturingOrderId?: string;
+  customerId?: string;
+  customerCode?: string;
+  customerName: string;
+  customerReference?: string;
+  deliveryAddress?: string;
+  status: ShipmentStatus;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+  createdBy?: string;
+  shippedAt?: string;
+  shippedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShippableLine {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  shippableQuantity: number;
+  availableSerials: ShipmentSerial[];
 }
 
-export interface ProductionCard {
-  id: string;
-  orderId: string;
-  orderName: string;
-  cardNumber: number;
-  totalCards: number;
-  modelId: string;
-  modelName: string;
-  modelSku: string;
-  quantity: number; // Always 1 for individual cards
-  dueDate: string;
-  status: ProductionCardStatus;
-  priority: ProductionCardPriority;
-  components: ComponentProgress[];
-  notes?: string;
-  estimatedHours: number;
-  startedAt?: string;
-  completedAt?: string;
-  timeTracker?: {
-    startTime: string;
-    totalTimeMinutes: number;
-    isPaused: boolean;
-    totalPauseMinutes: number;
-    pauseStartTime?: string;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
+export interface ShipmentRequest {
+  salesOrderId?: string;
+  manufacturingOrderId?: string;
+  lines?: Array<{ itemId: string; quantity: number; serialNumbers?: string[] }>;
+  deliveryAddress?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+}
+
+export const formatShipmentNumber = (shipmentNumber: number): string => `SH-${String(shipmentNumber).padStart(5, '0')}`;
+
+// Planificación de necesidades de materiales (MRP)
+export type PlannedOrderType = 'buy' | 'make';
+export type PlannedOrderStatus = 'planned' | 'firmed';
+
+export interface MrpPeriod {
+  date: string;
+  grossRequirement: number;
+  scheduledReceipts: number;
+  plannedReceipts: number;
+  projectedAvailable: number;
+  netRequirement: number;
+}
+
+export interface MrpItemPlan {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  type: InventoryType;
+  lowLevelCode: number;
+  onHand: number;
+  reserved: number;
+  minimumStock: number;
+  maximumStock: number;
+  leadTimeDays: number;
+  periods: MrpPeriod[];
+}
+
+export interface PlannedOrder {
+  number: number;
+  type: PlannedOrderType;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  quantity: number;
+  releaseDate: string;
+  dueDate: string;
+  isLate: boolean;
+  supplierId?: string;
+  supplierName?: string;
+  sources: string[];
+  status: PlannedOrderStatus;
+  firmedAt?: string;
+  firmedBy?: string;
+  firmedReferenceId?: string;
+  firmedReference?: string;
+}
+
+export interface MrpRun {
+  id: string;
+  runAt: string;
+  runBy?: string;
+  items: MrpItemPlan[];
+  plannedOrders: PlannedOrder[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FirmPlannedOrdersRequest {
+  plannedOrders: Array<{ number: number; quantity?: number; dueDate?: string; supplierId?: string }>;
+}
+
+export interface FirmPlannedOrdersResult {
+  run: MrpRun;
+  purchaseOrders: PurchaseOrder[];
+  manufacturingOrders: ManufacturingOrder[];
+  errors: string[];
+}
+
+// Reposición por punto de pedido (stock mínimo / máximo)
+export type ReplenishmentStatus = 'pending' | 'approved' | 'dismissed';
+
+export interface ReplenishmentSuggestion {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  unit: string;
+  type: PlannedOrderType;
+  available: number;
+  onOrder: number;
+  minimumStock: number;
+  maximumStock: number;
+  suggestedQuantity: number;
+  supplierId?: string;
+  supplierName?: string;
+  status: ReplenishmentStatus;
+  triggeredBy?: string;
+  approvedQuantity?: number;
+  approvedAt?: string;
+  approvedBy?: string;
+  dismissedAt?: string;
+  dismissedBy?: string;
+  referenceId?: string;
+  reference?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReplenishmentFilters {
+  status?: ReplenishmentStatus;
+  type?: PlannedOrderType;
+  itemId?: string;
+}
+
+export interface ApproveReplenishmentRequest {
+  quantity?: number;
+  supplierId?: string;
+  dueDate?: string;
+}
+
+export interface TransferStockRequest {
+  itemId: string;
+  quantity: number;
+  fromWarehouseId: string;
+  fromBinId?: string;
+  toWarehouseId: string;
+  toBinId?: string;
+  reason?: string;
+}
+
+export interface InventoryFilters {
+  type?: InventoryType;
+  status?: InventoryStatus;
+  location?: string;
+  warehouseId?: string;
+  supplier?: string;
+  supplierId?: string;
+  lowStock?: boolean;
+  search?: string;
+}
+
+export interface InventoryStats {
+  totalItems: number;
+  totalValue: number;
+  reservedValue?: number;
+  availableValue?: number;
+  lowStockCount: number;
+  byType: Record<InventoryType, number>;
+  byStatus: Record<InventoryStatus, number>;
+}
+
+// Movimientos de stock (libro de inventario)
+export type StockMovementType = 'receipt' | 'issue' | 'production_output' | 'adjustment' | 'transfer' | 'scrap' | 'shipment';
+
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  type: StockMovementType;
+  quantity: number;
+  balanceAfter: number;
+  unit: string;
+  reason: string;
+  referenceType?: 'manufacturing_order' | 'production_card' | 'purchase_order' | 'shipment' | 'manual';
+  referenceId?: string;
+  warehouseId?: string;
+  warehouseCode?: string;
+  binId?: string;
+  binCode?: string;
+  toWarehouseId?: string;
+  toBinId?: string;
+  fromLocation?: string;
+  toLocation?: string;
+  transferredQuantity?: number;
+  lotId?: string;
+  lotNumber?: string;
+  performedBy?: string;
+  createdAt: string;
+}
+
+export interface StockReconciliation {
+  itemId: string;
+  quantity: number;
+  ledgerBalance: number;
+  difference: number;
+  movementCount: number;
+  isReconciled: boolean;
+}
+
+export interface RecordStockMovementRequest {
+  type: StockMovementType;
+  quantity: number;
+  reason: string;
+  performedBy?: string;
+  lotId?: string;
+  lot?: NewLotRequest;
+  warehouseId?: string;
+  binId?: string;
+}
+
+// Lotes de materiales con caducidad y su genealogía
+export type LotPickingPolicy = 'fefo' | 'fifo';
+export type LotStatus = 'available' | 'expired' | 'depleted';
+
+export interface NewLotRequest {
+  lotNumber?: string;
+  supplierLot?: string;
+  supplier?: string;
+  receivedDate?: string;
+  expiryDate?: string;
+  notes?: string;
+}
+
+export interface InventoryLot {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  lotNumber: string;
+  supplierLot?: string;
+  supplier?: string;
+  receivedDate: string;
+  expiryDate?: string;
+  initialQuantity: number;
+  quantity: number;
+  unit: string;
+  notes?: string;
+  status?: LotStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LotConsumption {
+  cardId: string;
+  cardLabel: string;
+  orderId: string;
+  modelId: string;
+  modelName: string;
+  componentId?: string;
+  componentName?: string;
+  quantity: number;
+  serialNumber?: string;
+  cardStatus: string;
+  consumedAt: string;
+}
+
+export interface LotGenealogy {
+  lot: InventoryLot;
+  consumptions: LotConsumption[];
+  totalConsumed: number;
+}
+
+export interface CardLotUsage {
+  lotId: string;
+  lotNumber: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  componentId?: string;
+  quantity: number;
+  unit: string;
+  supplierLot?: string;
+  expiryDate?: string;
+}
+
+// Estructura de producto (explosión y "dónde se usa")
+export interface BomExplosionLine {
+  level: number;
+  path: string[];
+  lineType: 'component' | 'material';
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  itemType?: InventoryType;
+  unit: string;
+  quantityPer: number;
+  totalQuantity: number;
+  isOptional?: boolean;
+}
+
+export interface BomExplosion {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  quantity: number;
+  levels: number | 'all';
+  lines: BomExplosionLine[];
+  materialTotals: Array<{ itemId: string; itemName: string; itemSku: string; unit: string; totalQuantity: number }>;
+}
+
+export interface WhereUsedLine {
+  level: number;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  itemType: InventoryType;
+  childId: string;
+  quantityPer: number;
+}
+
+export interface WhereUsedResult {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  usages: WhereUsedLine[];
+  affectedModels: Array<{ id: string; name: string; sku: string }>;
+}
+
+// Revisiones de la estructura de producto
+export type BomRevisionStatus = 'draft' | 'released' | 'obsolete';
+
+export interface BomRevision {
+  id: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  revisionNumber: number;
+  status: BomRevisionStatus;
+  componentLines: Array<{ componentId: string; componentName: string; componentSku: string; quantity: number }>;
+  billOfMaterials: Array<{ materialId: string; materialName: string; materialSku: string; requiredQuantity: number; unit: string; isOptional?: boolean }>;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  notes?: string;
+  createdBy?: string;
+  releasedBy?: string;
+  releasedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BomRevisionDifference {
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  lineType: 'component' | 'material';
+  fromQuantity: number | null;
+  toQuantity: number | null;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+}
+
+export interface BomRevisionComparison {
+  from: BomRevision;
+  to: BomRevision;
+  differences: BomRevisionDifference[];
+  hasChanges: boolean;
+}
+
+// Disponibilidad de materiales para una orden de fabricación
+export interface MaterialRequirement {
+  materialId: string;
+  materialName: string;
+  materialSku: string;
+  unit: string;
+  requiredQuantity: number;
+  onHand: number;
+  reserved: number;
+  available: number;
+  shortage: number;
+  suggestedPurchaseQuantity: number;
+  usedBy: string[];
+}
+
+export interface AvailabilityReport {
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  quantity: number;
+  requirements: MaterialRequirement[];
+  shortages: MaterialRequirement[];
+  hasShortages: boolean;
+  checkedAt: string;
+}
+
+export interface AvailabilityCheckRequest {
+  modelId: string;
+  quantity: number;
+  componentIds?: string[];
+}
+
+// Manufacturing types are defined in InventoryContext.tsx to avoid circular imports
+
+// Production Card types
+export enum ProductionCardStatus {
+  PENDING = 'pending',
+  IN_PROGRESS = 'in_progress',
+  PAUSED = 'paused',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled'
+}
+
+export enum ProductionCardPriority {
+  LOW = 'low',
+  NORMAL = 'normal',
+  HIGH = 'high',
+  URGENT = 'urgent'
+}
+
+export type OperationStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface OperationProgress {
+  operationId: string;
+  sequence: number;
+  name: string;
+  itemId: string;
+  itemName: string;
+  componentId?: string;
+  workCenterId: string;
+  workCenterName: string;
+  plannedSetupMinutes: number;
+  plannedRunMinutes: number;
+  status: OperationStatus;
+  startedAt?: string;
+  completedAt?: string;
+  plannedStart?: string;
+  plannedFinish?: string;
+}
+
+export interface ProductionCard {
+  id: string;
+  orderId: string;
+  orderName: string;
+  cardNumber: number;
+  totalCards: number;
+  modelId: string;
+  modelName: string;
+  modelSku: string;
+  quantity: number; // Always 1 for individual cards
+  dueDate: string;
+  status: ProductionCardStatus;
+  priority: ProductionCardPriority;
+  components: ComponentProgress[];
+  operations?: OperationProgress[];
+  bomRevisionId?: string;
+  notes?: string;
+  estimatedHours: number;
+  startedAt?: string;
+  completedAt?: string;
+  timeTracker?: TimeTracker;
+  plannedStart?: string;
+  plannedFinish?: string;
+  willMissDueDate?: boolean;
+  scheduledAt?: string;
+  pinnedStart?: string;
+  inspections?: InspectionRecord[];
+  reworkOfCardId?: string;
+  nonConformanceId?: string;
+  serialNumber?: string;
+  remainingWorkingHours?: number;
+  overdueRisk?: OverdueRisk;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduledOperation {
+  operationId: string;
+  name: string;
+  workCenterId: string;
+  workCenterName: string;
+  minutes: number;
+  plannedStart: string;
+  plannedFinish: string;
+}
+
+export interface CardSchedule {
+  cardId: string;
+  orderId: string;
+  cardLabel: string;
+  modelName: string;
+  priority: ProductionCardPriority;
+  dueDate: string;
+  plannedStart: string;
+  plannedFinish: string;
+  willMissDueDate: boolean;
+  latenessHours: number;
+  operations: ScheduledOperation[];
+}
+
+export interface WorkCenterLoad {
+  workCenterId: string;
+  workCenterName: string;
+  capacityHoursPerDay: number;
+  scheduledHours: number;
+  busyUntil: string;
+}
+
+export interface ScheduleResult {
+  scheduledAt: string;
+  startDate: string;
+  totalCards: number;
+  lateCards: number;
+  cards: CardSchedule[];
+  workCenters: WorkCenterLoad[];
+}
+
+interface ProductionCardFilters {
+  status?: ProductionCardStatus;
+  priority?: ProductionCardPriority;
+  orderId?: string;
+  modelId?: string;
+  overdue?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  count?: number;
+}
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  timeout: 60000, // 60 segundos para coincidir con el backend
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    console.error('API Error:', error);
+    // Sesión caducada o usuario desactivado: volver al login (salvo en el propio login)
+    if (axios.isAxiosError(error) && error.response?.status === 401 && !error.config?.url?.startsWith('/auth/login')) {
+      clearAuthToken();
+      window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Extrae el mensaje de error devuelto por el backend (o el mensaje por defecto)
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || fallback;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+export const inventoryApi = {
+  // Create inventory item
+  createItem: async (item: Omit<InventoryItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<InventoryItem> => {
+    const response = await api.post<ApiResponse<InventoryItem>>('/inventory', item);
+    return response.data.data!;
+  },
+
+  // Get all inventory items with optional filters
+  getAllItems: async (filters?: InventoryFilters): Promise<InventoryItem[]> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await api.get<ApiResponse<InventoryItem[]>>(`/inventory?${params}`);
+    return response.data.data!;
+  },
+
+  // Get inventory item by ID
+  getItem: async (id: string): Promise<InventoryItem> => {
+    const response = await api.get<ApiResponse<InventoryItem>>(`/inventory/${id}`);
+    return response.data.data!;
+  },
+
+  // Get inventory item by SKU
+  getItemBySku: async (sku: string): Promise<InventoryItem> => {
+    const response = await api.get<ApiResponse<InventoryItem>>(`/inventory/sku/${sku}`);
+    return response.data.data!;
+  },
+
+  // Update inventory item
+  updateItem: async (id: string, updates: Partial<InventoryItem>): Promise<InventoryItem> => {
+    const response = await api.put<ApiResponse<InventoryItem>>(`/inventory/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete inventory item
+  deleteItem: async (id: string): Promise<void> => {
+    await api.delete(`/inventory/${id}`);
+  },
+
+  // Update quantity
+  updateQuantity: async (id: string, quantity: number): Promise<InventoryItem> => {
+    const response = await api.patch<ApiResponse<InventoryItem>>(`/inventory/${id}/quantity`, { quantity });
+    return response.data.data!;
+  },
+
+  // Bulk update quantities
+  bulkUpdateQuantities: async (updates: Array<{id: string, quantity: number}>): Promise<InventoryItem[]> => {
+    const response = await api.patch<ApiResponse<InventoryItem[]>>('/inventory/bulk/quantities', { updates });
+    return response.data.data!;
+  },
+
+  // Get low stock items
+  getLowStockItems: async (): Promise<InventoryItem[]> => {
+    const response = await api.get<ApiResponse<InventoryItem[]>>('/inventory/low-stock');
+    return response.data.data!;
+  },
+
+  // Get inventory statistics
+  getStats: async (): Promise<InventoryStats> => {
+    const response = await api.get<ApiResponse<InventoryStats>>('/inventory/stats');
+    return response.data.data!;
+  },
+
+  // Get stock movements of an item (most recent first)
+  getMovements: async (id: string, limit?: number): Promise<StockMovement[]> => {
+    const params = limit ? `?limit=${limit}` : '';
+    const response = await api.get<ApiResponse<StockMovement[]>>(`/inventory/${id}/movements${params}`);
+    return response.data.data!;
+  },
+
+  // Record a stock movement
+  recordMovement: async (id: string, movement: RecordStockMovementRequest): Promise<StockMovement> => {
+    const response = await api.post<ApiResponse<StockMovement>>(`/inventory/${id}/movements`, movement);
+    return response.data.data!;
+  },
+
+  // Move stock of an item between two warehouse locations
+  transferStock: async (transfer: TransferStockRequest): Promise<StockMovement> => {
+    const response = await api.post<ApiResponse<StockMovement>>('/inventory/transfers', transfer);
+    return response.data.data!;
+  },
+
+  // Get the on-hand breakdown of an item by warehouse and bin
+  getLocations: async (id: string): Promise<LocationStock[]> => {
+    const response = await api.get<ApiResponse<LocationStock[]>>(`/inventory/${id}/locations`);
+    return response.data.data || [];
+  },
+
+  // Compare item quantity against the movement ledger
+  getReconciliation: async (id: string): Promise<StockReconciliation> => {
+    const response = await api.get<ApiResponse<StockReconciliation>>(`/inventory/${id}/movements/reconciliation`);
+    return response.data.data!;
+  },
+
+  // Get the indented bill of materials explosion ('all' levels by default)
+  getBom: async (id: string, levels: number | 'all' = 'all'): Promise<BomExplosion> => {
+    const response = await api.get<ApiResponse<BomExplosion>>(`/inventory/${id}/bom?levels=${levels}`);
+    return response.data.data!;
+  },
+
+  // Get every item (up to the models) that uses this item
+  getWhereUsed: async (id: string): Promise<WhereUsedResult> => {
+    const response = await api.get<ApiResponse<WhereUsedResult>>(`/inventory/${id}/where-used`);
+    return response.data.data!;
+  },
+
+  // Record an opening balance so the ledger matches the item quantity
+  reconcile: async (id: string): Promise<StockReconciliation> => {
+    const response = await api.post<ApiResponse<StockReconciliation>>(`/inventory/${id}/movements/reconcile`);
+    return response.data.data!;
+  },
+
+  // Get all BOM revisions of an item (newest first)
+  getBomRevisions: async (id: string): Promise<BomRevision[]> => {
+    const response = await api.get<ApiResponse<BomRevision[]>>(`/inventory/${id}/bom-revisions`);
+    return response.data.data || [];
+  },
+
+  // Create a draft revision (from the current structure when no lines are given)
+  createBomRevision: async (id: string, data: { componentLines?: ComponentLine[]; notes?: string } = {}): Promise<BomRevision> => {
+    const response = await api.post<ApiResponse<BomRevision>>(`/inventory/${id}/bom-revisions`, data);
+    return response.data.data!;
+  },
+
+  // Release a draft revision and apply its structure to the item
+  releaseBomRevision: async (revisionId: string, effectiveFrom?: string): Promise<BomRevision> => {
+    const response = await api.post<ApiResponse<BomRevision>>(`/inventory/bom-revisions/${revisionId}/release`, { effectiveFrom });
+    return response.data.data!;
+  },
+
+  // Mark a revision as obsolete (discards drafts)
+  obsoleteBomRevision: async (revisionId: string): Promise<BomRevision> => {
+    const response = await api.post<ApiResponse<BomRevision>>(`/inventory/bom-revisions/${revisionId}/obsolete`);
+    return response.data.data!;
+  },
+
+  // Compare two revisions of the same item side by side
+  compareBomRevisions: async (fromId: string, toId: string): Promise<BomRevisionComparison> => {
+    const response = await api.get<ApiResponse<BomRevisionComparison>>('/inventory/bom-revisions/compare', {
+      params: { from: fromId, to: toId }
+    });
+    return response.data.data!;
+  },
+};
+
+export const manufacturingOrderApi = {
+  // Create manufacturing order
+  createOrder: async (order: CreateManufacturingOrderRequest): Promise<ManufacturingOrder> => {
+    const response = await api.post<ApiResponse<ManufacturingOrder>>('/manufacturing-orders', order);
+    return response.data.data!;
+  },
+
+  // Check material availability for an order (dry run, nothing is created)
+  checkAvailability: async (request: AvailabilityCheckRequest): Promise<AvailabilityReport> => {
+    const response = await api.post<ApiResponse<AvailabilityReport>>('/manufacturing-orders/availability', request);
+    return response.data.data!;
+  },
+
+  // Get all manufacturing orders with optional filters
+  getAllOrders: async (filters?: ManufacturingOrderFilters): Promise<ManufacturingOrder[]> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await api.get<ApiResponse<ManufacturingOrder[]>>(`/manufacturing-orders?${params}`);
+    return response.data.data!;
+  },
+
+  // Get manufacturing order by ID
+  getOrder: async (id: string): Promise<ManufacturingOrder> => {
+    const response = await api.get<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}`);
+    return response.data.data!;
+  },
+
+  // Update manufacturing order
+  updateOrder: async (id: string, updates: UpdateManufacturingOrderRequest): Promise<ManufacturingOrder> => {
+    const response = await api.put<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete manufacturing order
+  deleteOrder: async (id: string): Promise<void> => {
+    await api.delete(`/manufacturing-orders/${id}`);
+  },
+
+  // Start production
+  startProduction: async (id: string): Promise<ManufacturingOrder> => {
+    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}/start`);
+    return response.data.data!;
+  },
+
+  // Complete component
+  completeComponent: async (orderId: string, componentId: string): Promise<ManufacturingOrder> => {
+    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${orderId}/components/${componentId}/complete`);
+    return response.data.data!;
+  },
+
+  // Complete order
+  completeOrder: async (id: string): Promise<ManufacturingOrder> => {
+    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}/complete`);
+    return response.data.data!;
+  },
+
+  // Cancel order
+  cancelOrder: async (id: string): Promise<ManufacturingOrder> => {
+    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}/cancel`);
+    return response.data.data!;
+  },
+
+  // Get active orders
+  getActiveOrders: async (): Promise<ManufacturingOrder[]> => {
+    const response = await api.get<ApiResponse<ManufacturingOrder[]>>('/manufacturing-orders/active');
+    return response.data.data!;
+  },
+
+  // Get production queue
+  getProductionQueue: async (): Promise<ManufacturingOrder[]> => {
+    const response = await api.get<ApiResponse<ManufacturingOrder[]>>('/manufacturing-orders/production-queue');
+    return response.data.data!;
+  },
+
+  // Get overdue orders
+  getOverdueOrders: async (): Promise<ManufacturingOrder[]> => {
+    const response = await api.get<ApiResponse<ManufacturingOrder[]>>('/manufacturing-orders/overdue');
+    return response.data.data!;
+  },
+
+  // Get manufacturing stats
+  getStats: async (): Promise<any> => {
+    const response = await api.get<ApiResponse<any>>('/manufacturing-orders/stats');
+    return response.data.data!;
+  },
+};
+
+// Production Card API
+export const productionCardApi = {
+  // Get all production cards with optional filters
+  getAllCards: async (filters?: ProductionCardFilters): Promise<ProductionCard[]> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      if (filters.status) params.append('status', filters.status);
+      if (filters.orderId) params.append('orderId', filters.orderId);
+      if (filters.modelId) params.append('modelId', filters.modelId);
+      if (filters.overdue) params.append('overdue', 'true');
+      if (filters.search) params.append('search', filters.search);
+    }
+    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards?${params.toString()}`);
+    return response.data.data!;
+  },
+
+  // Get production card by ID
+  getCardById: async (id: string): Promise<ProductionCard> => {
+    const response = await api.get<ApiResponse<ProductionCard>>(`/production-cards/${id}`);
+    return response.data.data!;
+  },
+
+  // Get production cards by order ID
+  getCardsByOrder: async (orderId: string): Promise<ProductionCard[]> => {
+    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards/order/${orderId}`);
+    return response.data.data!;
+  },
+
+  // Update production card
+  updateCard: async (id: string, updates: Partial<ProductionCard>): Promise<ProductionCard> => {
+    const response = await api.put<ApiResponse<ProductionCard>>(`/production-cards/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete production card
+  deleteCard: async (id: string): Promise<void> => {
+    await api.delete(`/production-cards/${id}`);
+  },
+
+  // Start production
+  startProduction: async (id: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/start`);
+    return response.data.data!;
+  },
+
+  // Pause production with a downtime reason code
+  pauseProduction: async (id: string, reasonCode: string, notes?: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/pause`, { reasonCode, notes });
+    return response.data.data!;
+  },
+
+  // Resume production
+  resumeProduction: async (id: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/resume`);
+    return response.data.data!;
+  },
+
+  // Get current production time
+  getCurrentProductionTime: async (id: string): Promise<number> => {
+    const response = await api.get<ApiResponse<{ time: number }>>(`/production-cards/${id}/time`);
+    return response.data.data!.time;
+  },
+
+  // Get the run/pause segments of the card and its components
+  getTimeline: async (id: string): Promise<CardTimeline> => {
+    const response = await api.get<ApiResponse<CardTimeline>>(`/production-cards/${id}/timeline`);
+    return response.data.data!;
+  },
+
+  // Complete production card
+  completeCard: async (id: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/complete`);
+    return response.data.data!;
+  },
+
+  // Cancel production card
+  cancelCard: async (id: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/cancel`);
+    return response.data.data!;
+  },
+
+  // Complete component
+  completeComponent: async (cardId: string, componentId: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/complete-component/${componentId}`);
+    return response.data.data!;
+  },
+
+  // Start component production
+  startComponentProduction: async (cardId: string, componentId: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/components/${componentId}/start`);
+    return response.data.data!;
+  },
+
+  // Pause component production with a downtime reason code
+  pauseComponentProduction: async (cardId: string, componentId: string, reasonCode: string, notes?: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/components/${componentId}/pause`, { reasonCode, notes });
+    return response.data.data!;
+  },
+
+  // Resume component production
+  resumeComponentProduction: async (cardId: string, componentId: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/components/${componentId}/resume`);
+    return response.data.data!;
+  },
+
+  // Get component production time
+  getComponentProductionTime: async (cardId: string, componentId: string): Promise<number> => {
+    const response = await api.get<ApiResponse<{ time: number }>>(`/production-cards/${cardId}/components/${componentId}/time`);
+    return response.data.data!.time;
+  },
+
+  // Start a routing operation
+  startOperation: async (cardId: string, operationId: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/operations/${operationId}/start`);
+    return response.data.data!;
+  },
+
+  // Complete a routing operation
+  completeOperation: async (cardId: string, operationId: string): Promise<ProductionCard> => {
+    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/operations/${operationId}/complete`);
+    return response.data.data!;
+  },
+
+  // Run the finite-capacity scheduler over the active cards
+  scheduleCards: async (startDate?: string): Promise<ScheduleResult> => {
+    const response = await api.post<ApiResponse<ScheduleResult>>('/production-cards/schedule', { startDate });
+    return response.data.data!;
+  },
+
+  // Move a card's planned window and pin it for later scheduler runs
+  rescheduleCard: async (id: string, plannedStart: string): Promise<ProductionCard> => {
+    const response = await api.patch<ApiResponse<ProductionCard>>(`/production-cards/${id}/schedule`, { plannedStart });
+    return response.data.data!;
+  },
+
+  // Remove the pinned start so the scheduler places the card by priority again
+  unpinCard: async (id: string): Promise<ProductionCard> => {
+    const response = await api.delete<ApiResponse<ProductionCard>>(`/production-cards/${id}/schedule/pin`);
+    return response.data.data!;
+  },
+
+  // Get active cards
+  getActiveCards: async (): Promise<ProductionCard[]> => {
+    const response = await api.get<ApiResponse<ProductionCard[]>>('/production-cards/active');
+    return response.data.data!;
+  },
+
+  // Get overdue cards
+  getOverdueCards: async (): Promise<ProductionCard[]> => {
+    const response = await api.get<ApiResponse<ProductionCard[]>>('/production-cards/overdue');
+    return response.data.data!;
+  },
+
+  // Get cards by status
+  getCardsByStatus: async (status: ProductionCardStatus): Promise<ProductionCard[]> => {
+    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards/status/${status}`);
+    return response.data.data!;
+  },
+
+  // Get cards by priority
+  getCardsByPriority: async (priority: ProductionCardPriority): Promise<ProductionCard[]> => {
+    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards/priority/${priority}`);
+    return response.data.data!;
+  },
+
+  // Update card priority
+  updateCardPriority: async (id: string, priority: ProductionCardPriority): Promise<ProductionCard> => {
+    const response = await api.patch<ApiResponse<ProductionCard>>(`/production-cards/${id}/priority`, { priority });
+    return response.data.data!;
+  },
+
+  // Get production cards stats
+  getStats: async (): Promise<any> => {
+    const response = await api.get<ApiResponse<any>>('/production-cards/stats');
+    return response.data.data!;
+  },
+};
+
+// Work centers API
+export const workCenterApi = {
+  // Get all work centers
+  getAll: async (filters?: { isActive?: boolean; search?: string }): Promise<WorkCenter[]> => {
+    const response = await api.get<ApiResponse<WorkCenter[]>>('/work-centers', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Get work center by ID
+  getById: async (id: string): Promise<WorkCenter> => {
+    const response = await api.get<ApiResponse<WorkCenter>>(`/work-centers/${id}`);
+    return response.data.data!;
+  },
+
+  // Create work center
+  create: async (workCenter: Omit<WorkCenter, 'id' | 'createdAt' | 'updatedAt'>): Promise<WorkCenter> => {
+    const response = await api.post<ApiResponse<WorkCenter>>('/work-centers', workCenter);
+    return response.data.data!;
+  },
+
+  // Update work center
+  update: async (id: string, updates: Partial<WorkCenter>): Promise<WorkCenter> => {
+    const response = await api.put<ApiResponse<WorkCenter>>(`/work-centers/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete work center
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/work-centers/${id}`);
+  },
+};
+
+export const warehouseApi = {
+  // Get all warehouses (default first)
+  getAll: async (filters?: { isActive?: boolean; search?: string }): Promise<Warehouse[]> => {
+    const response = await api.get<ApiResponse<Warehouse[]>>('/warehouses', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Create warehouse (the first one becomes the default)
+  create: async (warehouse: Omit<Warehouse, 'id' | 'createdAt' | 'updatedAt'>): Promise<Warehouse> => {
+    const response = await api.post<ApiResponse<Warehouse>>('/warehouses', warehouse);
+    return response.data.data!;
+  },
+
+  // Update warehouse
+  update: async (id: string, updates: Partial<Warehouse>): Promise<Warehouse> => {
+    const response = await api.put<ApiResponse<Warehouse>>(`/warehouses/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete an empty warehouse
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/warehouses/${id}`);
+  },
+
+  // Get the bins of a warehouse
+  getBins: async (warehouseId: string): Promise<BinLocation[]> => {
+    const response = await api.get<ApiResponse<BinLocation[]>>(`/warehouses/${warehouseId}/bins`);
+    return response.data.data || [];
+  },
+
+  // Create bin
+  createBin: async (warehouseId: string, bin: { code: string; description?: string; isActive?: boolean }): Promise<BinLocation> => {
+    const response = await api.post<ApiResponse<BinLocation>>(`/warehouses/${warehouseId}/bins`, bin);
+    return response.data.data!;
+  },
+
+  // Update bin
+  updateBin: async (warehouseId: string, binId: string, updates: Partial<BinLocation>): Promise<BinLocation> => {
+    const response = await api.put<ApiResponse<BinLocation>>(`/warehouses/${warehouseId}/bins/${binId}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete an empty bin
+  deleteBin: async (warehouseId: string, binId: string): Promise<void> => {
+    await api.delete(`/warehouses/${warehouseId}/bins/${binId}`);
+  },
+
+  // Get on-hand stock per location (only locations with stock by default)
+  getStock: async (filters?: { itemId?: string; warehouseId?: string; binId?: string }): Promise<LocationStock[]> => {
+    const response = await api.get<ApiResponse<LocationStock[]>>('/warehouses/stock', { params: filters });
+    return response.data.data || [];
+  },
+};
+
+export const supplierApi = {
+  // Get all suppliers (sorted by name)
+  getAll: async (filters?: { isActive?: boolean; search?: string }): Promise<Supplier[]> => {
+    const response = await api.get<ApiResponse<Supplier[]>>('/suppliers', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Get supplier by ID
+  getById: async (id: string): Promise<Supplier> => {
+    const response = await api.get<ApiResponse<Supplier>>(`/suppliers/${id}`);
+    return response.data.data!;
+  },
+
+  // Create supplier
+  create: async (supplier: SupplierRequest): Promise<Supplier> => {
+    const response = await api.post<ApiResponse<Supplier>>('/suppliers', supplier);
+    return response.data.data!;
+  },
+
+  // Update supplier
+  update: async (id: string, updates: Partial<SupplierRequest>): Promise<Supplier> => {
+    const response = await api.put<ApiResponse<Supplier>>(`/suppliers/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete a supplier not linked to any item
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/suppliers/${id}`);
+  },
+
+  // Get the items bought from a supplier
+  getItems: async (id: string): Promise<InventoryItem[]> => {
+    const response = await api.get<ApiResponse<InventoryItem[]>>(`/suppliers/${id}/items`);
+    return response.data.data || [];
+  },
+};
+
+export const purchaseOrderApi = {
+  // Get purchase orders (status accepts several values separated by commas)
+  getAll: async (filters?: { status?: string; supplierId?: string; itemId?: string }): Promise<PurchaseOrder[]> => {
+    const response = await api.get<ApiResponse<PurchaseOrder[]>>('/purchase-orders', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Get purchase order by ID
+  getById: async (id: string): Promise<PurchaseOrder> => {
+    const response = await api.get<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}`);
+    return response.data.data!;
+  },
+
+  // Create a draft purchase order
+  create: async (purchaseOrder: PurchaseOrderRequest): Promise<PurchaseOrder> => {
+    const response = await api.post<ApiResponse<PurchaseOrder>>('/purchase-orders', purchaseOrder);
+    return response.data.data!;
+  },
+
+  // Update a draft purchase order
+  update: async (id: string, updates: Partial<PurchaseOrderRequest>): Promise<PurchaseOrder> => {
+    const response = await api.put<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}`, updates);
+    return response.data.data!;
+  },
+
+  // Delete a draft purchase order
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/purchase-orders/${id}`);
+  },
+
+  // Send a draft purchase order to the supplier
+  send: async (id: string): Promise<PurchaseOrder> => {
+    const response = await api.post<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}/send`);
+    return response.data.data!;
+  },
+
+  // Post a (partial) goods receipt
+  receive: async (id: string, receipt: GoodsReceiptRequest): Promise<PurchaseOrder> => {
+    const response = await api.post<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}/receipts`, receipt);
+    return response.data.data!;
+  },
+
+  // Close a purchase order; outstanding quantities are no longer expected
+  close: async (id: string): Promise<PurchaseOrder> => {
+    const response = await api.post<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}/close`);
+    return response.data.data!;
+  },
+
+  // Outstanding quantities per item on sent purchase orders
+  getIncoming: async (itemId?: string): Promise<IncomingItem[]> => {
+    const response = await api.get<ApiResponse<IncomingItem[]>>('/purchase-orders/incoming', { params: { itemId } });
+    return response.data.data || [];
+  },
+};
+
+export const mrpApi = {
+  // Run the MRP and get the new planned orders
+  run: async (): Promise<MrpRun> => {
+    const response = await api.post<ApiResponse<MrpRun>>('/mrp/runs');
+    return response.data.data!;
+  },
+
+  // Get the latest MRP run (null if the MRP has never been run)
+  getLatestRun: async (): Promise<MrpRun | null> => {
+    const response = await api.get<ApiResponse<MrpRun | null>>('/mrp/runs/latest');
+    return response.data.data || null;
+  },
+
+  // Get an MRP run by ID
+  getRun: async (id: string): Promise<MrpRun> => {
+    const response = await api.get<ApiResponse<MrpRun>>(`/mrp/runs/${id}`);
+    return response.data.data!;
+  },
+
+  // Firm planned orders into purchase and manufacturing orders
+  firm: async (runId: string, request: FirmPlannedOrdersRequest): Promise<FirmPlannedOrdersResult> => {
+    const response = await api.post<ApiResponse<FirmPlannedOrdersResult>>(`/mrp/runs/${runId}/firm`, request);
+    return response.data.data!;
+  },
+};
 
-interface ProductionCardFilters {
-  status?: ProductionCardStatus;
-  priority?: ProductionCardPriority;
-  orderId?: string;
-  modelId?: string;
-  overdue?: boolean;
-  startDate?: Date;
-  endDate?: Date;
-  search?: string;
-}
+export const replenishmentApi = {
+  // Get replenishment suggestions with optional filters
+  getSuggestions: async (filters?: ReplenishmentFilters): Promise<ReplenishmentSuggestion[]> => {
+    const response = await api.get<ApiResponse<ReplenishmentSuggestion[]>>('/replenishment/suggestions', { params: filters });
+    return response.data.data || [];
+  },
 
-interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  message?: string;
-  count?: number;
-}
+  // Check every active item against its reorder point
+  scan: async (): Promise<ReplenishmentSuggestion[]> => {
+    const response = await api.post<ApiResponse<ReplenishmentSuggestion[]>>('/replenishment/suggestions/scan');
+    return response.data.data || [];
+  },
 
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 60000, // 60 segundos para coincidir con el backend
-  headers: {
-    'Content-Type': 'application/json',
+  // Get a replenishment suggestion by ID
+  getSuggestion: async (id: string): Promise<ReplenishmentSuggestion> => {
+    const response = await api.get<ApiResponse<ReplenishmentSuggestion>>(`/replenishment/suggestions/${id}`);
+    return response.data.data!;
   },
-});
 
-api.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    console.error('API Error:', error);
-    return Promise.reject(error);
-  }
-);
+  // Approve a suggestion into a draft purchase order or a manufacturing order
+  approve: async (id: string, request: ApproveReplenishmentRequest): Promise<ReplenishmentSuggestion> => {
+    const response = await api.post<ApiResponse<ReplenishmentSuggestion>>(`/replenishment/suggestions/${id}/approve`, request);
+    return response.data.data!;
+  },
 
-export const inventoryApi = {
-  // Create inventory item
-  createItem: async (item: Omit<InventoryItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<InventoryItem> => {
-    const response = await api.post<ApiResponse<InventoryItem>>('/inventory', item);
+  // Dismiss a pending suggestion
+  dismiss: async (id: string): Promise<ReplenishmentSuggestion> => {
+    const response = await api.post<ApiResponse<ReplenishmentSuggestion>>(`/replenishment/suggestions/${id}/dismiss`);
     return response.data.data!;
   },
+};
 
-  // Get all inventory items with optional filters
-  getAllItems: async (filters?: InventoryFilters): Promise<InventoryItem[]> => {
-    const params = new URLSearchParams();
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== '') {
-          params.append(key, value.toString());
-        }
-      });
-    }
-    const response = await api.get<ApiResponse<InventoryItem[]>>(`/inventory?${params}`);
+export const customerApi = {
+  // Get all customers (sorted by name)
+  getAll: async (filters?: { isActive?: boolean; search?: string }): Promise<Customer[]> => {
+    const response = await api.get<ApiResponse<Customer[]>>('/customers', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Get customer by ID
+  getById: async (id: string): Promise<Customer> => {
+    const response = await api.get<ApiResponse<Customer>>(`/customers/${id}`);
     return response.data.data!;
   },
 
-  // Get inventory item by ID
-  getItem: async (id: string): Promise<InventoryItem> => {
-    const response = await api.get<ApiResponse<InventoryItem>>(`/inventory/${id}`);
+  // Create customer
+  create: async (customer: CustomerRequest): Promise<Customer> => {
+    const response = await api.post<ApiResponse<Customer>>('/customers', customer);
     return response.data.data!;
   },
 
-  // Get inventory item by SKU
-  getItemBySku: async (sku: string): Promise<InventoryItem> => {
-    const response = await api.get<ApiResponse<InventoryItem>>(`/inventory/sku/${sku}`);
+  // Update customer (a new name is copied to its manufacturing orders)
+  update: async (id: string, updates: Partial<CustomerRequest>): Promise<Customer> => {
+    const response = await api.put<ApiResponse<Customer>>(`/customers/${id}`, updates);
     return response.data.data!;
   },
 
-  // Update inventory item
-  updateItem: async (id: string, updates: Partial<InventoryItem>): Promise<InventoryItem> => {
-    const response = await api.put<ApiResponse<InventoryItem>>(`/inventory/${id}`, updates);
+  // Delete a customer without sales or manufacturing orders
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/customers/${id}`);
+  },
+};
+
+export const salesOrderApi = {
+  // Get sales orders with line progress (status accepts several values separated by commas)
+  getAll: async (filters?: { status?: string; customerId?: string; itemId?: string }): Promise<SalesOrder[]> => {
+    const response = await api.get<ApiResponse<SalesOrder[]>>('/sales-orders', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Get sales order by ID
+  getById: async (id: string): Promise<SalesOrder> => {
+    const response = await api.get<ApiResponse<SalesOrder>>(`/sales-orders/${id}`);
     return response.data.data!;
   },
 
-  // Delete inventory item
-  deleteItem: async (id: string): Promise<void> => {
-    await api.delete(`/inventory/${id}`);
+  // Create a draft sales order
+  create: async (salesOrder: SalesOrderRequest): Promise<SalesOrder> => {
+    const response = await api.post<ApiResponse<SalesOrder>>('/sales-orders', salesOrder);
+    return response.data.data!;
   },
 
-  // Update quantity
-  updateQuantity: async (id: string, quantity: number): Promise<InventoryItem> => {
-    const response = await api.patch<ApiResponse<InventoryItem>>(`/inventory/${id}/quantity`, { quantity });
+  // Update a draft sales order
+  update: async (id: string, updates: Partial<SalesOrderRequest>): Promise<SalesOrder> => {
+    const response = await api.put<ApiResponse<SalesOrder>>(`/sales-orders/${id}`, updates);
     return response.data.data!;
   },
 
-  // Bulk update quantities
-  bulkUpdateQuantities: async (updates: Array<{id: string, quantity: number}>): Promise<InventoryItem[]> => {
-    const response = await api.patch<ApiResponse<InventoryItem[]>>('/inventory/bulk/quantities', { updates });
+  // Delete a draft sales order
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/sales-orders/${id}`);
+  },
+
+  // Confirm a draft: reserve free stock and create manufacturing orders for the shortfall
+  confirm: async (id: string): Promise<FulfilSalesOrderResult> => {
+    const response = await api.post<ApiResponse<FulfilSalesOrderResult>>(`/sales-orders/${id}/confirm`);
     return response.data.data!;
   },
 
-  // Get low stock items
-  getLowStockItems: async (): Promise<InventoryItem[]> => {
-    const response = await api.get<ApiResponse<InventoryItem[]>>('/inventory/low-stock');
+  // Cover again the quantities left uncovered on a confirmed order
+  fulfil: async (id: string): Promise<FulfilSalesOrderResult> => {
+    const response = await api.post<ApiResponse<FulfilSalesOrderResult>>(`/sales-orders/${id}/fulfil`);
     return response.data.data!;
   },
 
-  // Get inventory statistics
-  getStats: async (): Promise<InventoryStats> => {
-    const response = await api.get<ApiResponse<InventoryStats>>('/inventory/stats');
+  // Cancel a sales order, its pending manufacturing orders and its reservations
+  cancel: async (id: string): Promise<SalesOrder> => {
+    const response = await api.post<ApiResponse<SalesOrder>>(`/sales-orders/${id}/cancel`);
     return response.data.data!;
   },
 };
 
-export const manufacturingOrderApi = {
-  // Create manufacturing order
-  createOrder: async (order: CreateManufacturingOrderRequest): Promise<ManufacturingOrder> => {
-    const response = await api.post<ApiResponse<ManufacturingOrder>>('/manufacturing-orders', order);
+export const shipmentApi = {
+  // Get shipments (status accepts several values separated by commas)
+  getAll: async (filters?: { status?: string; salesOrderId?: string; manufacturingOrderId?: string; customerId?: string }): Promise<Shipment[]> => {
+    const response = await api.get<ApiResponse<Shipment[]>>('/shipments', { params: filters });
+    return response.data.data || [];
+  },
+
+  // Get what can still be shipped from a sales order or a manufacturing order, with the available serials
+  getShippable: async (source: { salesOrderId?: string; manufacturingOrderId?: string }): Promise<ShippableLine[]> => {
+    const response = await api.get<ApiResponse<ShippableLine[]>>('/shipments/shippable', { params: source });
+    return response.data.data || [];
+  },
+
+  // Get shipment by ID
+  getById: async (id: string): Promise<Shipment> => {
+    const response = await api.get<ApiResponse<Shipment>>(`/shipments/${id}`);
     return response.data.data!;
   },
 
-  // Get all manufacturing orders with optional filters
-  getAllOrders: async (filters?: ManufacturingOrderFilters): Promise<ManufacturingOrder[]> => {
-    const params = new URLSearchParams();
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== '') {
-          params.append(key, value.toString());
-        }
-      });
-    }
-    const response = await api.get<ApiResponse<ManufacturingOrder[]>>(`/manufacturing-orders?${params}`);
+  // Create a draft shipment (without lines, everything shippable is included)
+  create: async (shipment: ShipmentRequest): Promise<Shipment> => {
+    const response = await api.post<ApiResponse<Shipment>>('/shipments', shipment);
     return response.data.data!;
   },
 
-  // Get manufacturing order by ID
-  getOrder: async (id: string): Promise<ManufacturingOrder> => {
-    const response = await api.get<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}`);
+  // Update a draft shipment
+  update: async (id: string, updates: Omit<ShipmentRequest, 'salesOrderId' | 'manufacturingOrderId'>): Promise<Shipment> => {
+    const response = await api.put<ApiResponse<Shipment>>(`/shipments/${id}`, updates);
     return response.data.data!;
   },
 
-  // Update manufacturing order
-  updateOrder: async (id: string, updates: UpdateManufacturingOrderRequest): Promise<ManufacturingOrder> => {
-    const response = await api.put<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}`, updates);
+  // Delete a draft shipment
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/shipments/${id}`);
+  },
+
+  // Ship a draft: issue the stock, mark the serials as shipped and update the delivered quantities
+  ship: async (id: string): Promise<Shipment> => {
+    const response = await api.post<ApiResponse<Shipment>>(`/shipments/${id}/ship`);
     return response.data.data!;
   },
 
-  // Delete manufacturing order
-  deleteOrder: async (id: string): Promise<void> => {
-    await api.delete(`/manufacturing-orders/${id}`);
+  // Download the delivery note PDF
+  getDeliveryNote: async (id: string): Promise<Blob> => {
+    const response = await api.get<Blob>(`/shipments/${id}/delivery-note`, { responseType: 'blob' });
+    return response.data;
   },
+};
 
-  // Start production
-  startProduction: async (id: string): Promise<ManufacturingOrder> => {
-    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}/start`);
+export const authApi = {
+  // Log in and get a session token
+  login: async (username: string, password: string): Promise<AuthSession> => {
+    const response = await api.post<ApiResponse<AuthSession>>('/auth/login', { username, password });
     return response.data.data!;
   },
 
-  // Complete component
-  completeComponent: async (orderId: string, componentId: string): Promise<ManufacturingOrder> => {
-    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${orderId}/components/${componentId}/complete`);
+  // Get the user of the current session
+  getCurrentUser: async (): Promise<User> => {
+    const response = await api.get<ApiResponse<User>>('/auth/me');
     return response.data.data!;
   },
 
-  // Complete order
-  completeOrder: async (id: string): Promise<ManufacturingOrder> => {
-    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}/complete`);
+  // Change the password of the current user
+  changePassword: async (currentPassword: string, newPassword: string): Promise<void> => {
+    await api.put('/auth/me/password', { currentPassword, newPassword });
+  },
+};
+
+export const userApi = {
+  // Get all users (admin only)
+  getAll: async (filters?: { role?: UserRole; isActive?: boolean; search?: string }): Promise<User[]> => {
+    const response = await api.get<ApiResponse<User[]>>('/users', { params: filters });
     return response.data.data!;
   },
 
-  // Cancel order
-  cancelOrder: async (id: string): Promise<ManufacturingOrder> => {
-    const response = await api.post<ApiResponse<ManufacturingOrder>>(`/manufacturing-orders/${id}/cancel`);
+  // Create a user
+  create: async (user: Pick<User, 'username' | 'name' | 'email' | 'role'> & { password: string }): Promise<User> => {
+    const response = await api.post<ApiResponse<User>>('/users', user);
     return response.data.data!;
   },
 
-  // Get active orders
-  getActiveOrders: async (): Promise<ManufacturingOrder[]> => {
-    const response = await api.get<ApiResponse<ManufacturingOrder[]>>('/manufacturing-orders/active');
+  // Update a user (optional password reset)
+  update: async (id: string, updates: Partial<Pick<User, 'name' | 'email' | 'role' | 'isActive'>> & { password?: string }): Promise<User> => {
+    const response = await api.put<ApiResponse<User>>(`/users/${id}`, updates);
+    return response.data.data!;
+  },
+};
+
+export const laborApi = {
+  // Labor hours per order, operator and day, reconciled with the card timers
+  getReport: async (filters?: LaborFilters): Promise<LaborReport> => {
+    const response = await api.get<ApiResponse<LaborReport>>('/labor', { params: filters });
     return response.data.data!;
   },
 
-  // Get production queue
-  getProductionQueue: async (): Promise<ManufacturingOrder[]> => {
-    const response = await api.get<ApiResponse<ManufacturingOrder[]>>('/manufacturing-orders/production-queue');
+  // Get labor entries overlapping the period
+  getEntries: async (filters?: LaborFilters & { isOpen?: boolean }): Promise<LaborEntry[]> => {
+    const response = await api.get<ApiResponse<LaborEntry[]>>('/labor/entries', { params: filters });
     return response.data.data!;
   },
 
-  // Get overdue orders
-  getOverdueOrders: async (): Promise<ManufacturingOrder[]> => {
-    const response = await api.get<ApiResponse<ManufacturingOrder[]>>('/manufacturing-orders/overdue');
+  // Get open labor entries (optionally for one card or user)
+  getActive: async (filters?: { cardId?: string; userId?: string }): Promise<LaborEntry[]> => {
+    const response = await api.get<ApiResponse<LaborEntry[]>>('/labor/active', { params: filters });
     return response.data.data!;
   },
 
-  // Get manufacturing stats
-  getStats: async (): Promise<any> => {
-    const response = await api.get<ApiResponse<any>>('/manufacturing-orders/stats');
+  // Clock the current user onto a card (optionally a component)
+  clockOn: async (cardId: string, componentId?: string): Promise<LaborEntry> => {
+    const response = await api.post<ApiResponse<LaborEntry>>('/labor/clock-on', { cardId, componentId });
+    return response.data.data!;
+  },
+
+  // Clock the current user off
+  clockOff: async (cardId?: string): Promise<LaborEntry> => {
+    const response = await api.post<ApiResponse<LaborEntry>>('/labor/clock-off', { cardId });
     return response.data.data!;
   },
 };
 
-// Production Card API
-export const productionCardApi = {
-  // Get all production cards with optional filters
-  getAllCards: async (filters?: ProductionCardFilters): Promise<ProductionCard[]> => {
-    const params = new URLSearchParams();
-    if (filters) {
-      if (filters.status) params.append('status', filters.status);
-      if (filters.orderId) params.append('orderId', filters.orderId);
-      if (filters.modelId) params.append('modelId', filters.modelId);
-      if (filters.overdue) params.append('overdue', 'true');
-      if (filters.search) params.append('search', filters.search);
-    }
-    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards?${params.toString()}`);
+export const downtimeApi = {
+  // Downtime Pareto by reason, category, model and work center
+  getPareto: async (filters?: { from?: string; to?: string }): Promise<DowntimeReport> => {
+    const response = await api.get<ApiResponse<DowntimeReport>>('/downtime/pareto', { params: filters });
     return response.data.data!;
   },
 
-  // Get production card by ID
-  getCardById: async (id: string): Promise<ProductionCard> => {
-    const response = await api.get<ApiResponse<ProductionCard>>(`/production-cards/${id}`);
+  // Get downtime reasons (defaults are created on first use)
+  getReasons: async (filters?: { isActive?: boolean }): Promise<DowntimeReason[]> => {
+    const response = await api.get<ApiResponse<DowntimeReason[]>>('/downtime/reasons', { params: filters });
     return response.data.data!;
   },
 
-  // Get production cards by order ID
-  getCardsByOrder: async (orderId: string): Promise<ProductionCard[]> => {
-    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards/order/${orderId}`);
+  // Create a downtime reason
+  createReason: async (reason: Pick<DowntimeReason, 'code' | 'name' | 'category'> & { description?: string }): Promise<DowntimeReason> => {
+    const response = await api.post<ApiResponse<DowntimeReason>>('/downtime/reasons', reason);
     return response.data.data!;
   },
 
-  // Update production card
-  updateCard: async (id: string, updates: Partial<ProductionCard>): Promise<ProductionCard> => {
-    const response = await api.put<ApiResponse<ProductionCard>>(`/production-cards/${id}`, updates);
+  // Update a downtime reason
+  updateReason: async (id: string, updates: Partial<Omit<DowntimeReason, 'id' | 'createdAt' | 'updatedAt'>>): Promise<DowntimeReason> => {
+    const response = await api.put<ApiResponse<DowntimeReason>>(`/downtime/reasons/${id}`, updates);
     return response.data.data!;
   },
 
-  // Delete production card
-  deleteCard: async (id: string): Promise<void> => {
-    await api.delete(`/production-cards/${id}`);
+  // Delete a downtime reason (recorded pauses keep its code and name)
+  deleteReason: async (id: string): Promise<void> => {
+    await api.delete(`/downtime/reasons/${id}`);
   },
+};
 
-  // Start production
-  startProduction: async (id: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/start`);
+export const inspectionApi = {
+  // Get inspection plans
+  getPlans: async (filters?: { modelId?: string; isActive?: boolean; search?: string }): Promise<InspectionPlan[]> => {
+    const response = await api.get<ApiResponse<InspectionPlan[]>>('/inspections/plans', { params: filters });
     return response.data.data!;
   },
 
-  // Pause production
-  pauseProduction: async (id: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/pause`);
+  // Create the inspection plan of a model
+  createPlan: async (plan: { modelId: string; name: string; checks: InspectionCheck[]; isActive?: boolean }): Promise<InspectionPlan> => {
+    const response = await api.post<ApiResponse<InspectionPlan>>('/inspections/plans', plan);
     return response.data.data!;
   },
 
-  // Resume production
-  resumeProduction: async (id: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/resume`);
+  // Update name, checks or active flag of a plan
+  updatePlan: async (id: string, updates: { name?: string; checks?: InspectionCheck[]; isActive?: boolean }): Promise<InspectionPlan> => {
+    const response = await api.put<ApiResponse<InspectionPlan>>(`/inspections/plans/${id}`, updates);
     return response.data.data!;
   },
 
-  // Get current production time
-  getCurrentProductionTime: async (id: string): Promise<number> => {
-    const response = await api.get<ApiResponse<{ time: number }>>(`/production-cards/${id}/time`);
-    return response.data.data!.time;
+  // Delete a plan (cards keep their recorded results)
+  deletePlan: async (id: string): Promise<void> => {
+    await api.delete(`/inspections/plans/${id}`);
   },
 
-  // Complete production card
-  completeCard: async (id: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/complete`);
+  // Get the active plan and recorded inspections of a card
+  getCardInspection: async (cardId: string): Promise<CardInspectionStatus> => {
+    const response = await api.get<ApiResponse<CardInspectionStatus>>(`/inspections/cards/${cardId}`);
     return response.data.data!;
   },
 
-  // Cancel production card
-  cancelCard: async (id: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${id}/cancel`);
+  // Record an inspection of a card against its model's plan
+  recordInspection: async (cardId: string, results: InspectionResultInput[], notes?: string): Promise<CardInspectionStatus> => {
+    const response = await api.post<ApiResponse<CardInspectionStatus>>(`/inspections/cards/${cardId}`, { results, notes });
     return response.data.data!;
   },
+};
 
-  // Complete component
-  completeComponent: async (cardId: string, componentId: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/complete-component/${componentId}`);
+export const nonConformanceApi = {
+  // Get non-conformances with optional filters
+  getAll: async (filters?: { cardId?: string; orderId?: string; modelId?: string; status?: NonConformanceStatus; from?: string; to?: string }): Promise<NonConformance[]> => {
+    const response = await api.get<ApiResponse<NonConformance[]>>('/non-conformances', { params: filters });
     return response.data.data!;
   },
 
-  // Start component production
-  startComponentProduction: async (cardId: string, componentId: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/components/${componentId}/start`);
+  // Defect rates per model for a period
+  getDefectRates: async (filters?: { from?: string; to?: string }): Promise<DefectRateReport> => {
+    const response = await api.get<ApiResponse<DefectRateReport>>('/non-conformances/defect-rates', { params: filters });
     return response.data.data!;
   },
 
-  // Pause component production
-  pauseComponentProduction: async (cardId: string, componentId: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/components/${componentId}/pause`);
+  // Report a non-conformance on a production card
+  create: async (request: { cardId: string; defectType: DefectType; description: string; affectedComponentIds?: string[] }): Promise<NonConformance> => {
+    const response = await api.post<ApiResponse<NonConformance>>('/non-conformances', request);
     return response.data.data!;
   },
 
-  // Resume component production
-  resumeComponentProduction: async (cardId: string, componentId: string): Promise<ProductionCard> => {
-    const response = await api.post<ApiResponse<ProductionCard>>(`/production-cards/${cardId}/components/${componentId}/resume`);
+  // Close a non-conformance with rework, scrap or use-as-is
+  disposition: async (id: string, disposition: NonConformanceDisposition, notes?: string): Promise<{ nonConformance: NonConformance; card: ProductionCard; reworkCard?: ProductionCard }> => {
+    const response = await api.post<ApiResponse<{ nonConformance: NonConformance; card: ProductionCard; reworkCard?: ProductionCard }>>(`/non-conformances/${id}/disposition`, { disposition, notes });
     return response.data.data!;
   },
+};
 
-  // Get component production time
-  getComponentProductionTime: async (cardId: string, componentId: string): Promise<number> => {
-    const response = await api.get<ApiResponse<{ time: number }>>(`/production-cards/${cardId}/components/${componentId}/time`);
-    return response.data.data!.time;
+export const lotApi = {
+  // Get lots with optional filters
+  getAll: async (filters?: { itemId?: string; search?: string; withStock?: boolean; expiresBefore?: string }): Promise<InventoryLot[]> => {
+    const response = await api.get<ApiResponse<InventoryLot[]>>('/lots', { params: filters });
+    return response.data.data!;
   },
 
-  // Get active cards
-  getActiveCards: async (): Promise<ProductionCard[]> => {
-    const response = await api.get<ApiResponse<ProductionCard[]>>('/production-cards/active');
+  // Cards that consumed a lot (forward genealogy)
+  getGenealogy: async (id: string): Promise<LotGenealogy> => {
+    const response = await api.get<ApiResponse<LotGenealogy>>(`/lots/${id}/genealogy`);
     return response.data.data!;
   },
 
-  // Get overdue cards
-  getOverdueCards: async (): Promise<ProductionCard[]> => {
-    const response = await api.get<ApiResponse<ProductionCard[]>>('/production-cards/overdue');
+  // Lots consumed by a production card (backward genealogy)
+  getCardLots: async (cardId: string): Promise<CardLotUsage[]> => {
+    const response = await api.get<ApiResponse<CardLotUsage[]>>(`/lots/cards/${cardId}`);
+    return response.data.data!;
+  },
+};
+
+export const serialApi = {
+  // Get serialized units with optional filters
+  getAll: async (filters?: { search?: string; modelId?: string; orderId?: string; cardId?: string; shipped?: boolean; shipmentId?: string; from?: string; to?: string }): Promise<SerialUnit[]> => {
+    const response = await api.get<ApiResponse<SerialUnit[]>>('/serials', { params: filters });
     return response.data.data!;
   },
 
-  // Get cards by status
-  getCardsByStatus: async (status: ProductionCardStatus): Promise<ProductionCard[]> => {
-    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards/status/${status}`);
+  // Look up a unit and its genealogy by serial number
+  getBySerialNumber: async (serialNumber: string): Promise<SerialUnit> => {
+    const response = await api.get<ApiResponse<SerialUnit>>(`/serials/${encodeURIComponent(serialNumber)}`);
     return response.data.data!;
   },
+};
 
-  // Get cards by priority
-  getCardsByPriority: async (priority: ProductionCardPriority): Promise<ProductionCard[]> => {
-    const response = await api.get<ApiResponse<ProductionCard[]>>(`/production-cards/priority/${priority}`);
+export const factoryCalendarApi = {
+  // Get the factory calendar (created with Monday-Friday 08:00-16:00 on first use)
+  get: async (): Promise<FactoryCalendar> => {
+    const response = await api.get<ApiResponse<FactoryCalendar>>('/factory-calendar');
     return response.data.data!;
   },
 
-  // Update card priority
-  updateCardPriority: async (id: string, priority: ProductionCardPriority): Promise<ProductionCard> => {
-    const response = await api.patch<ApiResponse<ProductionCard>>(`/production-cards/${id}/priority`, { priority });
+  // Replace shifts, holidays and closures
+  update: async (calendar: Partial<Omit<FactoryCalendar, 'id' | 'createdAt' | 'updatedAt'>>): Promise<FactoryCalendar> => {
+    const response = await api.put<ApiResponse<FactoryCalendar>>('/factory-calendar', calendar);
     return response.data.data!;
   },
 
-  // Get production cards stats
-  getStats: async (): Promise<any> => {
-    const response = await api.get<ApiResponse<any>>('/production-cards/stats');
+  // Working hours between two dates
+  getWorkingTime: async (from: string, to: string): Promise<{ workingHours: number }> => {
+    const response = await api.get<ApiResponse<{ workingHours: number }>>('/factory-calendar/working-time', { params: { from, to } });
     return response.data.data!;
   },
 };
@@ -0,0 +1,19 @@
+const TOKEN_KEY = 'bysimmed_auth_token';
+
+// Evento que se emite cuando el backend rechaza la sesión (token caducado o usuario desactivado)
+export const AUTH_EXPIRED_EVENT = 'auth:expired';
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const setAuthToken = (token: string): void => {
+  localStorage.setItem(TOKEN_KEY, token);
+};
+
+export const clearAuthToken = (): void => {
+  localStorage.removeItem(TOKEN_KEY);
+};
+
+export const getAuthHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
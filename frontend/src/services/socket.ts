@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { getAuthToken } from './authStorage';
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
 
@@ -8,6 +9,8 @@ class SocketService {
   connect(): Socket {
     if (!this.socket) {
       this.socket = io(SOCKET_URL, {
+        // Se lee en cada (re)conexión para usar el token del último inicio de sesión
+        auth: (cb) => cb({ token: getAuthToken() }),
         autoConnect: true,
         reconnection: true,
         reconnectionDelay: 1000,
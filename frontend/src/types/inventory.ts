@@ -17,6 +17,9 @@ export interface InventoryItem {
   type: InventoryType;
   sku: string;
   quantity: number;
+  reserved?: number; // reservado para órdenes de fabricación
+  onHand?: number;
+  available?: number; // quantity - reserved
   unit: string;
   unitPrice: number;
   status: InventoryStatus;
@@ -40,6 +43,8 @@ export interface InventoryFilters {
 export interface InventoryStats {
   totalItems: number;
   totalValue: number;
+  reservedValue?: number;
+  availableValue?: number;
   lowStockCount: number;
   byType: Record<InventoryType, number>;
   byStatus: Record<InventoryStatus, number>;